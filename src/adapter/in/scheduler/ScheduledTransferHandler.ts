@@ -0,0 +1,39 @@
+import {container} from 'tsyringe';
+import type {
+    ExecuteScheduledTransfersUseCase,
+    ScheduledTransfersRunResult,
+} from '../../../application/port/in/ExecuteScheduledTransfersUseCase';
+import {ExecuteScheduledTransfersUseCaseToken} from '../../../application/port/in/ExecuteScheduledTransfersUseCase';
+import {setupContainer} from '../../../config/container';
+import type {CloudflareBindings} from '../../../types/bindings';
+
+/**
+ * 実行日時を過ぎた予約送金を実行する（Cron Trigger の入力アダプター）
+ *
+ * Webアダプターと同じく、DIコンテナからユースケースを取得して呼び出すだけ
+ * （実行のルールはアプリケーション層の ExecuteScheduledTransfersApplicationService にある）
+ *
+ * Cron の間隔は wrangler.jsonc の triggers.crons で設定する
+ */
+export async function runScheduledTransfers(
+    controller: ScheduledController,
+    env: CloudflareBindings
+): Promise<ScheduledTransfersRunResult> {
+    // fetch と同じく、最初の呼び出しでコンテナを初期化する
+    setupContainer(env);
+
+    const executeScheduledTransfersUseCase = container.resolve<ExecuteScheduledTransfersUseCase>(
+        ExecuteScheduledTransfersUseCaseToken
+    );
+
+    // 基準の時刻は Cron の予定時刻（実際に起動した時刻が多少遅れても、同じ予約が対象になる）
+    const result = await executeScheduledTransfersUseCase.executeDueTransfers(new Date(controller.scheduledTime));
+
+    console.log(
+        `⏰ Scheduled transfers run (${controller.cron}): ` +
+        `executed=${result.executed.toString()}, failed=${result.failed.toString()}, ` +
+        `retried=${result.retried.toString()}, skipped=${result.skipped.toString()}, errored=${result.errored.toString()}`
+    );
+
+    return result;
+}
@@ -0,0 +1,37 @@
+import {container} from 'tsyringe';
+import type {
+    ExecuteStandingOrdersUseCase,
+    StandingOrdersRunResult,
+} from '../../../application/port/in/ExecuteStandingOrdersUseCase';
+import {ExecuteStandingOrdersUseCaseToken} from '../../../application/port/in/ExecuteStandingOrdersUseCase';
+import {setupContainer} from '../../../config/container';
+import type {CloudflareBindings} from '../../../types/bindings';
+
+/**
+ * 次の実行時刻を過ぎた定期送金を実行する（Cron Trigger の入力アダプター）
+ *
+ * 予約送金と同じく、DIコンテナからユースケースを取得して呼び出すだけ
+ * （再試行・自動停止のルールはアプリケーション層の ExecuteStandingOrdersApplicationService にある）
+ */
+export async function runStandingOrders(
+    controller: ScheduledController,
+    env: CloudflareBindings
+): Promise<StandingOrdersRunResult> {
+    // fetch と同じく、最初の呼び出しでコンテナを初期化する
+    setupContainer(env);
+
+    const executeStandingOrdersUseCase = container.resolve<ExecuteStandingOrdersUseCase>(
+        ExecuteStandingOrdersUseCaseToken
+    );
+
+    // 基準の時刻は Cron の予定時刻（実際に起動した時刻が多少遅れても、同じ定期送金が対象になる）
+    const result = await executeStandingOrdersUseCase.executeDueStandingOrders(new Date(controller.scheduledTime));
+
+    console.log(
+        `⏰ Standing orders run (${controller.cron}): ` +
+        `executed=${result.executed.toString()}, failed=${result.failed.toString()}, ` +
+        `paused=${result.paused.toString()}, skipped=${result.skipped.toString()}, errored=${result.errored.toString()}`
+    );
+
+    return result;
+}
@@ -0,0 +1,28 @@
+import type {CloudflareBindings} from '../../../types/bindings';
+import {runScheduledTransfers} from './ScheduledTransferHandler';
+import {runStandingOrders} from './StandingOrderHandler';
+
+/**
+ * Worker の scheduled エクスポートに渡すハンドラー
+ *
+ * 1つの Cron Trigger で、予約送金 → 定期送金の順に実行する
+ * （同じアカウントの送金が並行しないように、順番に実行する。
+ *   予約送金の実行が失敗しても、定期送金は実行する）
+ *
+ * 実行が終わるまで Worker が終了しないように、ctx.waitUntil に渡す
+ * Cron の間隔は wrangler.jsonc の triggers.crons で設定する
+ */
+export const scheduledHandler: ExportedHandlerScheduledHandler<CloudflareBindings> = (
+    controller,
+    env,
+    ctx
+) => {
+    ctx.waitUntil((async () => {
+        try {
+            await runScheduledTransfers(controller, env);
+        } catch (error) {
+            console.error('❌ Scheduled transfers run failed:', error);
+        }
+        await runStandingOrders(controller, env);
+    })());
+};
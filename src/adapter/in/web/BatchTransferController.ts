@@ -0,0 +1,68 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {ExchangeRateUnavailableException} from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import {InsufficientBalanceException} from '../../../application/domain/exception/InsufficientBalanceException';
+import type {BatchSendMoneyUseCase} from '../../../application/port/in/BatchSendMoneyUseCase';
+import {BatchSendMoneyUseCaseToken} from '../../../application/port/in/BatchSendMoneyUseCase';
+import {validationHook} from './errors/validationHook';
+import {toBatchSendMoneyCommand, toBatchTransferResponse} from './mappers/BatchTransferMapper';
+import {BatchTransferWebRequestSchema} from './models/BatchTransferWebRequest';
+import {BatchTransferWebResponseSchema} from './models/BatchTransferWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const batchTransferRouter = new Hono();
+
+/**
+ * POST /api/transfers/batch の OpenAPI 定義
+ */
+export const batchTransferRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/transfers/batch',
+    operationId: 'batchTransfer',
+    summary: '複数の送金をまとめて実行する',
+    description:
+        '関係するすべてのアカウントのロックをまとめて取得してから、items の順番に送金する。'
+        + '各送金には送金APIと同じルール（残高・限度額・手数料など）を適用し、結果を items の位置（index）ごとに返す。'
+        + 'ALL_OR_NOTHING では1件でも送金できなければ何も送金せずに 422 を返し'
+        + '（一時的なエラーで送金できなかった場合は、そのエラーのステータス（503 など）を返す）、'
+        + 'BEST_EFFORT では送金できない送金を飛ばして残りを実行し、送金できない送金があれば 207 を返す',
+    tags: ['Transfers'],
+    body: BatchTransferWebRequestSchema,
+    success: {status: 200, description: 'すべての送金を実行した', schema: BatchTransferWebResponseSchema},
+    additionalSuccesses: [
+        {status: 207, description: 'BEST_EFFORT で、送金できない送金があった（items に送金ごとの結果）', schema: BatchTransferWebResponseSchema},
+    ],
+    errors: [
+        InsufficientBalanceException,
+        AccountLockTimeoutException,
+        ExchangeRateUnavailableException,
+    ],
+    extraErrors: [
+        {status: 422, code: 'BATCH_TRANSFER_REJECTED'},
+    ],
+};
+
+/**
+ * POST /api/transfers/batch
+ * 複数の送金をまとめて実行する
+ */
+batchTransferRouter.post(
+    '/transfers/batch',
+    zValidator('json', BatchTransferWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. リクエストボディからバリデーション済みデータを取得
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const batchSendMoneyUseCase = container.resolve<BatchSendMoneyUseCase>(BatchSendMoneyUseCaseToken);
+
+        // 3. ユースケースを実行（送金ごとのビジネスルール違反は、例外ではなく結果に含まれる）
+        const result = await batchSendMoneyUseCase.sendMoneyBatch(toBatchSendMoneyCommand(request));
+
+        // 4. 送金ごとの結果を返す
+        const {statusCode, body} = toBatchTransferResponse(request, result);
+        return c.json(body, statusCode);
+    }
+);
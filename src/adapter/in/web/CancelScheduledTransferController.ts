@@ -0,0 +1,56 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {InvalidScheduledTransferStatusTransitionException} from '../../../application/domain/exception/InvalidScheduledTransferStatusTransitionException';
+import {ScheduledTransferNotFoundException} from '../../../application/domain/exception/ScheduledTransferNotFoundException';
+import type {CancelScheduledTransferUseCase} from '../../../application/port/in/CancelScheduledTransferUseCase';
+import {CancelScheduledTransferUseCaseToken} from '../../../application/port/in/CancelScheduledTransferUseCase';
+import {validationHook} from './errors/validationHook';
+import {toScheduledTransferResponse} from './mappers/ScheduledTransferMapper';
+import {ScheduledTransferIdParamSchema} from './models/ScheduledTransferWebRequest';
+import {ScheduledTransferWebResponseSchema} from './models/ScheduledTransferWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const cancelScheduledTransferRouter = new Hono();
+
+/**
+ * POST /api/scheduled-transfers/:scheduledTransferId/cancel の OpenAPI 定義
+ */
+export const cancelScheduledTransferRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/scheduled-transfers/:scheduledTransferId/cancel',
+    operationId: 'cancelScheduledTransfer',
+    summary: '予約送金を取り消す（PENDING → CANCELLED）',
+    description: '実行前の予約だけを取り消せる。実行中・実行済み・取り消し済みの場合は 409 を返す',
+    tags: ['Scheduled Transfers'],
+    params: ScheduledTransferIdParamSchema,
+    success: {status: 200, description: '取り消した予約送金', schema: ScheduledTransferWebResponseSchema},
+    errors: [ScheduledTransferNotFoundException, InvalidScheduledTransferStatusTransitionException],
+};
+
+/**
+ * POST /api/scheduled-transfers/:scheduledTransferId/cancel
+ * 実行前の予約送金を取り消す
+ */
+cancelScheduledTransferRouter.post(
+    '/scheduled-transfers/:scheduledTransferId/cancel',
+    zValidator('param', ScheduledTransferIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {scheduledTransferId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const cancelScheduledTransferUseCase = container.resolve<CancelScheduledTransferUseCase>(
+            CancelScheduledTransferUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const scheduledTransfer = await cancelScheduledTransferUseCase.cancelScheduledTransfer(scheduledTransferId);
+
+        // 4. 成功レスポンスを返す
+        return c.json(
+            toScheduledTransferResponse('Scheduled transfer cancelled successfully', scheduledTransfer),
+            200
+        );
+    }
+);
@@ -0,0 +1,53 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {InvalidStandingOrderStatusTransitionException} from '../../../application/domain/exception/InvalidStandingOrderStatusTransitionException';
+import {StandingOrderNotFoundException} from '../../../application/domain/exception/StandingOrderNotFoundException';
+import type {CancelStandingOrderUseCase} from '../../../application/port/in/CancelStandingOrderUseCase';
+import {CancelStandingOrderUseCaseToken} from '../../../application/port/in/CancelStandingOrderUseCase';
+import {validationHook} from './errors/validationHook';
+import {toStandingOrderResponse} from './mappers/StandingOrderMapper';
+import {StandingOrderIdParamSchema} from './models/StandingOrderWebRequest';
+import {StandingOrderWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const cancelStandingOrderRouter = new Hono();
+
+/**
+ * POST /api/standing-orders/:standingOrderId/cancel の OpenAPI 定義
+ */
+export const cancelStandingOrderRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/standing-orders/:standingOrderId/cancel',
+    operationId: 'cancelStandingOrder',
+    summary: '定期送金を取り消す（ACTIVE / PAUSED → CANCELLED）',
+    description: '取り消した定期送金は再開できない。実行中・取り消し済みの場合は 409 を返す',
+    tags: ['Standing Orders'],
+    params: StandingOrderIdParamSchema,
+    success: {status: 200, description: '取り消した定期送金', schema: StandingOrderWebResponseSchema},
+    errors: [StandingOrderNotFoundException, InvalidStandingOrderStatusTransitionException],
+};
+
+/**
+ * POST /api/standing-orders/:standingOrderId/cancel
+ * 定期送金を取り消す
+ */
+cancelStandingOrderRouter.post(
+    '/standing-orders/:standingOrderId/cancel',
+    zValidator('param', StandingOrderIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {standingOrderId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const cancelStandingOrderUseCase = container.resolve<CancelStandingOrderUseCase>(
+            CancelStandingOrderUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const standingOrder = await cancelStandingOrderUseCase.cancelStandingOrder(standingOrderId);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toStandingOrderResponse('Standing order cancelled successfully', standingOrder), 200);
+    }
+);
@@ -0,0 +1,58 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {ChangeAccountTierUseCase} from '../../../application/port/in/ChangeAccountTierUseCase';
+import {ChangeAccountTierUseCaseToken} from '../../../application/port/in/ChangeAccountTierUseCase';
+import {validationHook} from './errors/validationHook';
+import {toAccountTierResponse} from './mappers/AccountTierMapper';
+import {ADMIN_AUTH_ERRORS} from './middleware/adminAuth';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {AccountTierWebResponseSchema} from './models/AccountTierWebResponse';
+import {ChangeAccountTierWebRequestSchema} from './models/ChangeAccountTierWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const changeAccountTierRouter = new Hono();
+
+/**
+ * PUT /api/admin/accounts/:accountId/tier の OpenAPI 定義
+ */
+export const changeAccountTierRouteSpec: ApiRouteSpec = {
+    method: 'put',
+    path: '/api/admin/accounts/:accountId/tier',
+    operationId: 'changeAccountTier',
+    summary: 'アカウントの区分を変更する（管理者向け）',
+    description: '以後の送金には、変更後の区分の送金限度額（1回・累積）が適用される',
+    tags: ['Admin'],
+    params: AccountIdParamSchema,
+    body: ChangeAccountTierWebRequestSchema,
+    success: {status: 200, description: '変更後の区分と送金限度額', schema: AccountTierWebResponseSchema},
+    errors: [AccountNotFoundException, AccountLockTimeoutException],
+    extraErrors: ADMIN_AUTH_ERRORS,
+};
+
+/**
+ * PUT /api/admin/accounts/:accountId/tier
+ * アカウントの区分を変更する
+ */
+changeAccountTierRouter.put(
+    '/admin/accounts/:accountId/tier',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    zValidator('json', ChangeAccountTierWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとボディからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+        const {tier} = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const changeAccountTierUseCase = container.resolve<ChangeAccountTierUseCase>(ChangeAccountTierUseCaseToken);
+
+        // 3. ユースケースを実行
+        const view = await changeAccountTierUseCase.changeAccountTier(new AccountId(BigInt(accountId)), tier);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toAccountTierResponse('Account tier changed successfully', view), 200);
+    }
+);
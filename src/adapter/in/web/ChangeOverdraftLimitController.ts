@@ -0,0 +1,64 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {CurrencyMismatchException} from '../../../application/domain/exception/CurrencyMismatchException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {ChangeOverdraftLimitUseCase} from '../../../application/port/in/ChangeOverdraftLimitUseCase';
+import {ChangeOverdraftLimitUseCaseToken} from '../../../application/port/in/ChangeOverdraftLimitUseCase';
+import {validationHook} from './errors/validationHook';
+import {toAccountOverdraftResponse, toOverdraftLimit} from './mappers/AccountOverdraftMapper';
+import {ADMIN_AUTH_ERRORS} from './middleware/adminAuth';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {AccountOverdraftWebResponseSchema} from './models/AccountOverdraftWebResponse';
+import {ChangeOverdraftLimitWebRequestSchema} from './models/ChangeOverdraftLimitWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const changeOverdraftLimitRouter = new Hono();
+
+/**
+ * PUT /api/admin/accounts/:accountId/overdraft-limit の OpenAPI 定義
+ */
+export const changeOverdraftLimitRouteSpec: ApiRouteSpec = {
+    method: 'put',
+    path: '/api/admin/accounts/:accountId/overdraft-limit',
+    operationId: 'changeOverdraftLimit',
+    summary: 'アカウントの当座貸越の限度額を変更する（管理者向け）',
+    description: '以後の出金では、残高をこの限度額までマイナスにできる。"0" で貸越なしに戻る（利用中の貸越はそのまま残る）',
+    tags: ['Admin'],
+    params: AccountIdParamSchema,
+    body: ChangeOverdraftLimitWebRequestSchema,
+    success: {status: 200, description: '変更後の当座貸越の状況', schema: AccountOverdraftWebResponseSchema},
+    errors: [AccountNotFoundException, CurrencyMismatchException, AccountLockTimeoutException],
+    extraErrors: ADMIN_AUTH_ERRORS,
+};
+
+/**
+ * PUT /api/admin/accounts/:accountId/overdraft-limit
+ * アカウントの当座貸越の限度額を変更する
+ */
+changeOverdraftLimitRouter.put(
+    '/admin/accounts/:accountId/overdraft-limit',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    zValidator('json', ChangeOverdraftLimitWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとボディからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const changeOverdraftLimitUseCase = container.resolve<ChangeOverdraftLimitUseCase>(
+            ChangeOverdraftLimitUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const view = await changeOverdraftLimitUseCase.changeOverdraftLimit(
+            new AccountId(BigInt(accountId)),
+            toOverdraftLimit(request)
+        );
+
+        // 4. 成功レスポンスを返す
+        return c.json(toAccountOverdraftResponse(view), 200);
+    }
+);
@@ -0,0 +1,52 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {InvalidAccountStatusTransitionException} from '../../../application/domain/exception/InvalidAccountStatusTransitionException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {CloseAccountUseCase} from '../../../application/port/in/CloseAccountUseCase';
+import {CloseAccountUseCaseToken} from '../../../application/port/in/CloseAccountUseCase';
+import {validationHook} from './errors/validationHook';
+import {toAccountStatusResponse} from './mappers/AccountStatusMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {AccountStatusWebResponseSchema} from './models/AccountStatusWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const closeAccountRouter = new Hono();
+
+/**
+ * POST /api/accounts/:accountId/close の OpenAPI 定義
+ */
+export const closeAccountRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/accounts/:accountId/close',
+    operationId: 'closeAccount',
+    summary: 'アカウントを解約する（ACTIVE / FROZEN → CLOSED）',
+    tags: ['Accounts'],
+    params: AccountIdParamSchema,
+    success: {status: 200, description: '解約したアカウント', schema: AccountStatusWebResponseSchema},
+    errors: [AccountNotFoundException, InvalidAccountStatusTransitionException, AccountLockTimeoutException],
+};
+
+/**
+ * POST /api/accounts/:accountId/close
+ * アカウントを解約する（ACTIVE / FROZEN → CLOSED）
+ */
+closeAccountRouter.post(
+    '/accounts/:accountId/close',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const closeAccountUseCase = container.resolve<CloseAccountUseCase>(CloseAccountUseCaseToken);
+
+        // 3. ユースケースを実行
+        const account = await closeAccountUseCase.closeAccount(new AccountId(BigInt(accountId)));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toAccountStatusResponse('Account closed successfully', account), 200);
+    }
+);
@@ -0,0 +1,75 @@
+import type {Context} from 'hono';
+import {Hono} from 'hono';
+import {HTTPException} from 'hono/http-exception';
+import {container} from 'tsyringe';
+import type {CreateAccountUseCase} from '../../../application/port/in/CreateAccountUseCase';
+import {CreateAccountUseCaseToken} from '../../../application/port/in/CreateAccountUseCase';
+import {renderValidationError} from './errors/validationHook';
+import {toAccountStatusResponse} from './mappers/AccountStatusMapper';
+import {toCurrency} from './mappers/CurrencyMapper';
+import {AccountStatusWebResponseSchema} from './models/AccountStatusWebResponse';
+import {CreateAccountWebRequestSchema} from './models/CreateAccountWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const createAccountRouter = new Hono();
+
+/**
+ * POST /api/accounts の OpenAPI 定義
+ */
+export const createAccountRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/accounts',
+    operationId: 'createAccount',
+    summary: 'アカウントを開設する',
+    description: '残高0・ACTIVE のアカウントを作成し、Location ヘッダーで残高照会のURLを返す。ボディを省略すると JPY のアカウントになる',
+    tags: ['Accounts'],
+    body: CreateAccountWebRequestSchema,
+    success: {status: 201, description: '作成したアカウント', schema: AccountStatusWebResponseSchema},
+};
+
+/**
+ * POST /api/accounts
+ * 新しいアカウントを開設する（残高0、状態 ACTIVE）
+ */
+createAccountRouter.post(
+    '/accounts',
+    async (c): Promise<Response> => {
+        // 1. リクエストボディをバリデーションする（ボディは省略可能）
+        const parsed = CreateAccountWebRequestSchema.safeParse(await readOptionalJsonBody(c));
+        if (!parsed.success) {
+            return renderValidationError(c, parsed.error);
+        }
+        const request = parsed.data;
+
+        // 2. DIコンテナからユースケースを取得
+        const createAccountUseCase = container.resolve<CreateAccountUseCase>(CreateAccountUseCaseToken);
+
+        // 3. ユースケースを実行
+        const account = await createAccountUseCase.createAccount(toCurrency(request.currency));
+
+        // 4. 成功レスポンスを返す（作成したリソースの場所を Location ヘッダーで示す）
+        c.header('Location', `/api/accounts/${account.accountId.toString()}/balance`);
+        return c.json(toAccountStatusResponse('Account created successfully', account), 201);
+    }
+);
+
+/**
+ * 省略可能なJSONボディを読み込む
+ *
+ * zValidator('json') は Content-Type: application/json で空のボディを不正なJSONとして扱うため、
+ * 空のボディは {}（すべてデフォルト値）として扱う
+ *
+ * @throws HTTPException 不正なJSONの場合（zValidator と同じ 400）
+ */
+async function readOptionalJsonBody(c: Context): Promise<unknown> {
+    const text = await c.req.text();
+    if (text.trim() === '') {
+        return {};
+    }
+
+    try {
+        return JSON.parse(text) as unknown;
+    } catch {
+        throw new HTTPException(400, {message: 'Malformed JSON in request body'});
+    }
+}
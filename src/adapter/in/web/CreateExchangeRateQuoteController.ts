@@ -0,0 +1,55 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {ExchangeRateUnavailableException} from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import type {CreateExchangeRateQuoteUseCase} from '../../../application/port/in/CreateExchangeRateQuoteUseCase';
+import {CreateExchangeRateQuoteUseCaseToken} from '../../../application/port/in/CreateExchangeRateQuoteUseCase';
+import {validationHook} from './errors/validationHook';
+import {toCurrency} from './mappers/CurrencyMapper';
+import {toExchangeRateQuoteResponse} from './mappers/ExchangeRateQuoteMapper';
+import {CreateExchangeRateQuoteWebRequestSchema} from './models/CreateExchangeRateQuoteWebRequest';
+import {ExchangeRateQuoteWebResponseSchema} from './models/ExchangeRateQuoteWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const createExchangeRateQuoteRouter = new Hono();
+
+/**
+ * POST /api/exchange-rates/quotes の OpenAPI 定義
+ */
+export const createExchangeRateQuoteRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/exchange-rates/quotes',
+    operationId: 'createExchangeRateQuote',
+    summary: '為替レートの見積もりを取得する',
+    description: '現在のレートを短い有効期限付きで返す。有効期限内に送金リクエストの quoteId に指定すると、見積もりのレートで送金する',
+    tags: ['Exchange Rates'],
+    body: CreateExchangeRateQuoteWebRequestSchema,
+    success: {status: 201, description: '作成した見積もり', schema: ExchangeRateQuoteWebResponseSchema},
+    errors: [
+        ExchangeRateUnavailableException,
+    ],
+};
+
+/**
+ * POST /api/exchange-rates/quotes
+ * 通貨ペアの為替レートの見積もりを作成する
+ */
+createExchangeRateQuoteRouter.post(
+    '/exchange-rates/quotes',
+    zValidator('json', CreateExchangeRateQuoteWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. リクエストボディからバリデーション済みデータを取得
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const createQuoteUseCase = container.resolve<CreateExchangeRateQuoteUseCase>(
+            CreateExchangeRateQuoteUseCaseToken
+        );
+
+        // 3. ユースケースを実行（レートを取得できない場合は例外 → 共通のエラーハンドラーで 503）
+        const quote = await createQuoteUseCase.createQuote(toCurrency(request.from), toCurrency(request.to));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toExchangeRateQuoteResponse(quote), 201);
+    }
+);
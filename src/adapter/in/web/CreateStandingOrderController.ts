@@ -0,0 +1,59 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {InvalidStandingOrderScheduleException} from '../../../application/domain/exception/InvalidStandingOrderScheduleException';
+import {SameAccountTransferException} from '../../../application/domain/exception/SameAccountTransferException';
+import type {CreateStandingOrderUseCase} from '../../../application/port/in/CreateStandingOrderUseCase';
+import {CreateStandingOrderUseCaseToken} from '../../../application/port/in/CreateStandingOrderUseCase';
+import {validationHook} from './errors/validationHook';
+import {toCommand} from './mappers/SendMoneyMapper';
+import {toStandingOrderResponse, toStandingOrderSchedule} from './mappers/StandingOrderMapper';
+import {CreateStandingOrderWebRequestSchema} from './models/StandingOrderWebRequest';
+import {StandingOrderWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const createStandingOrderRouter = new Hono();
+
+/**
+ * POST /api/standing-orders の OpenAPI 定義
+ */
+export const createStandingOrderRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/standing-orders',
+    operationId: 'createStandingOrder',
+    summary: '定期送金を作成する',
+    description: 'スケジュール（Cron 式、または毎月の日付と時刻。UTC）に従って、同じ送金を繰り返し実行する。'
+        + '残高・限度額などは実行のたびに判定し、失敗した場合は再試行し、続けて失敗すると自動で停止する',
+    tags: ['Standing Orders'],
+    body: CreateStandingOrderWebRequestSchema,
+    success: {status: 201, description: '作成した定期送金', schema: StandingOrderWebResponseSchema},
+    errors: [AccountNotFoundException, SameAccountTransferException, InvalidStandingOrderScheduleException],
+};
+
+/**
+ * POST /api/standing-orders
+ * 定期送金を作成する
+ */
+createStandingOrderRouter.post(
+    '/standing-orders',
+    zValidator('json', CreateStandingOrderWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. バリデーション済みのリクエストをコマンドとスケジュールに変換
+        const request = c.req.valid('json');
+        const command = toCommand(request);
+        const schedule = toStandingOrderSchedule(request.schedule);
+
+        // 2. DIコンテナからユースケースを取得
+        const createStandingOrderUseCase = container.resolve<CreateStandingOrderUseCase>(
+            CreateStandingOrderUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const standingOrder = await createStandingOrderUseCase.createStandingOrder(command, schedule);
+
+        // 4. 成功レスポンスを返す（作成したリソースの場所を Location ヘッダーで示す）
+        c.header('Location', `/api/standing-orders/${standingOrder.id}`);
+        return c.json(toStandingOrderResponse('Standing order created successfully', standingOrder), 201);
+    }
+);
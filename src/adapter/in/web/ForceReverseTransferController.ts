@@ -0,0 +1,69 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotActiveException} from '../../../application/domain/exception/AccountNotActiveException';
+import {InvalidTransferReversalException} from '../../../application/domain/exception/InvalidTransferReversalException';
+import {TransferAlreadyReversedException} from '../../../application/domain/exception/TransferAlreadyReversedException';
+import {TransferNotFoundException} from '../../../application/domain/exception/TransferNotFoundException';
+import type {ReverseTransferUseCase} from '../../../application/port/in/ReverseTransferUseCase';
+import {ReverseTransferUseCaseToken} from '../../../application/port/in/ReverseTransferUseCase';
+import {validationHook} from './errors/validationHook';
+import {toReverseTransferCommand, toReverseTransferResponse} from './mappers/ReverseTransferMapper';
+import {ADMIN_AUTH_ERRORS} from './middleware/adminAuth';
+import {ReverseTransferWebRequestSchema} from './models/ReverseTransferWebRequest';
+import {ReverseTransferWebResponseSchema} from './models/ReverseTransferWebResponse';
+import {TransferIdParamSchema} from './models/TransferWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const forceReverseTransferRouter = new Hono();
+
+/**
+ * POST /api/admin/transfers/:transferId/force-reverse の OpenAPI 定義
+ */
+export const forceReverseTransferRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/admin/transfers/:transferId/force-reverse',
+    operationId: 'forceReverseTransfer',
+    summary: '送金先の残高をチェックせずに送金を取り消す（管理者向け）',
+    description:
+        '送金の取り消しと同じく、送金元と送金先を入れ替えた同じ金額のアクティビティを記録する。'
+        + '送金先の残高はチェックしない（当座貸越の限度額を超えてマイナスになってもよい）。'
+        + '取り消しの記録には forced: true が残る。取り消し済みの場合は 409 を返す',
+    tags: ['Admin'],
+    params: TransferIdParamSchema,
+    body: ReverseTransferWebRequestSchema,
+    success: {status: 200, description: '取り消しの記録', schema: ReverseTransferWebResponseSchema},
+    errors: [
+        TransferNotFoundException,
+        InvalidTransferReversalException,
+        AccountNotActiveException,
+        TransferAlreadyReversedException,
+        AccountLockTimeoutException,
+    ],
+    extraErrors: ADMIN_AUTH_ERRORS,
+};
+
+/**
+ * POST /api/admin/transfers/:transferId/force-reverse
+ * 送金先の残高をチェックせずに送金を取り消す
+ */
+forceReverseTransferRouter.post(
+    '/admin/transfers/:transferId/force-reverse',
+    zValidator('param', TransferIdParamSchema, validationHook),
+    zValidator('json', ReverseTransferWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとボディからバリデーション済みデータを取得
+        const {transferId} = c.req.valid('param');
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const reverseTransferUseCase = container.resolve<ReverseTransferUseCase>(ReverseTransferUseCaseToken);
+
+        // 3. ユースケースを実行
+        const reversal = await reverseTransferUseCase.reverseTransfer(toReverseTransferCommand(transferId, request, true));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toReverseTransferResponse(reversal), 200);
+    }
+);
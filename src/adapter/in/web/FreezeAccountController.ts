@@ -0,0 +1,52 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {InvalidAccountStatusTransitionException} from '../../../application/domain/exception/InvalidAccountStatusTransitionException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {FreezeAccountUseCase} from '../../../application/port/in/FreezeAccountUseCase';
+import {FreezeAccountUseCaseToken} from '../../../application/port/in/FreezeAccountUseCase';
+import {validationHook} from './errors/validationHook';
+import {toAccountStatusResponse} from './mappers/AccountStatusMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {AccountStatusWebResponseSchema} from './models/AccountStatusWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const freezeAccountRouter = new Hono();
+
+/**
+ * POST /api/accounts/:accountId/freeze の OpenAPI 定義
+ */
+export const freezeAccountRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/accounts/:accountId/freeze',
+    operationId: 'freezeAccount',
+    summary: 'アカウントを凍結する（ACTIVE → FROZEN）',
+    tags: ['Accounts'],
+    params: AccountIdParamSchema,
+    success: {status: 200, description: '凍結したアカウント', schema: AccountStatusWebResponseSchema},
+    errors: [AccountNotFoundException, InvalidAccountStatusTransitionException, AccountLockTimeoutException],
+};
+
+/**
+ * POST /api/accounts/:accountId/freeze
+ * アカウントを凍結する（ACTIVE → FROZEN）
+ */
+freezeAccountRouter.post(
+    '/accounts/:accountId/freeze',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const freezeAccountUseCase = container.resolve<FreezeAccountUseCase>(FreezeAccountUseCaseToken);
+
+        // 3. ユースケースを実行
+        const account = await freezeAccountUseCase.freezeAccount(new AccountId(BigInt(accountId)));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toAccountStatusResponse('Account frozen successfully', account), 200);
+    }
+);
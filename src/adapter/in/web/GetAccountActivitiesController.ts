@@ -0,0 +1,58 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import type {GetAccountActivitiesQuery} from '../../../application/port/in/GetAccountActivitiesQuery';
+import {GetAccountActivitiesQueryToken} from '../../../application/port/in/GetAccountActivitiesQuery';
+import {validationHook} from './errors/validationHook';
+import {toActivitiesRequest, toActivitiesResponse} from './mappers/GetAccountActivitiesMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {GetAccountActivitiesQuerySchema} from './models/GetAccountActivitiesWebRequest';
+import {GetAccountActivitiesWebResponseSchema} from './models/GetAccountActivitiesWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getAccountActivitiesRouter = new Hono();
+
+/**
+ * GET /api/accounts/:accountId/activities の OpenAPI 定義
+ */
+export const getAccountActivitiesRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/accounts/:accountId/activities',
+    operationId: 'getAccountActivities',
+    summary: 'アクティビティ履歴を新しい順に取得する',
+    description: '前のレスポンスの nextCursor を cursor に渡すと次のページを取得できる',
+    tags: ['Accounts'],
+    params: AccountIdParamSchema,
+    query: GetAccountActivitiesQuerySchema,
+    success: {status: 200, description: 'アクティビティ履歴の1ページ', schema: GetAccountActivitiesWebResponseSchema},
+    errors: [AccountNotFoundException],
+};
+
+/**
+ * GET /api/accounts/:accountId/activities
+ * アカウントのアクティビティ履歴を新しい順に返す（カーソルページング）
+ */
+getAccountActivitiesRouter.get(
+    '/accounts/:accountId/activities',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    zValidator('query', GetAccountActivitiesQuerySchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとクエリパラメータからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+        const query = c.req.valid('query');
+
+        // 2. DIコンテナからクエリを取得
+        const getAccountActivitiesQuery = container.resolve<GetAccountActivitiesQuery>(
+            GetAccountActivitiesQueryToken
+        );
+
+        // 3. クエリを実行
+        const page = await getAccountActivitiesQuery.getAccountActivities(
+            toActivitiesRequest(accountId, query)
+        );
+
+        // 4. 成功レスポンスを返す
+        return c.json(toActivitiesResponse(page), 200);
+    }
+);
@@ -0,0 +1,52 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {GetAccountBalanceQuery} from '../../../application/port/in/GetAccountBalanceQuery';
+import {GetAccountBalanceQueryToken} from '../../../application/port/in/GetAccountBalanceQuery';
+import {validationHook} from './errors/validationHook';
+import {toBalanceResponse} from './mappers/GetAccountBalanceMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {GetAccountBalanceWebResponseSchema} from './models/GetAccountBalanceWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getAccountBalanceRouter = new Hono();
+
+/**
+ * GET /api/accounts/:accountId/balance の OpenAPI 定義
+ */
+export const getAccountBalanceRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/accounts/:accountId/balance',
+    operationId: 'getAccountBalance',
+    summary: 'アカウントの残高を照会する',
+    tags: ['Accounts'],
+    params: AccountIdParamSchema,
+    success: {status: 200, description: '現在の残高', schema: GetAccountBalanceWebResponseSchema},
+    errors: [AccountNotFoundException],
+};
+
+/**
+ * GET /api/accounts/:accountId/balance
+ * アカウントの現在残高を返す
+ */
+getAccountBalanceRouter.get(
+    '/accounts/:accountId/balance',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+
+        // 2. DIコンテナからクエリを取得
+        const getAccountBalanceQuery = container.resolve<GetAccountBalanceQuery>(GetAccountBalanceQueryToken);
+
+        // 3. クエリを実行
+        const accountBalance = await getAccountBalanceQuery.getAccountBalance(
+            new AccountId(BigInt(accountId))
+        );
+
+        // 4. 成功レスポンスを返す
+        return c.json(toBalanceResponse(accountBalance), 200);
+    }
+);
@@ -0,0 +1,55 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {GetScheduledTransfersQuery} from '../../../application/port/in/GetScheduledTransfersQuery';
+import {GetScheduledTransfersQueryToken} from '../../../application/port/in/GetScheduledTransfersQuery';
+import {validationHook} from './errors/validationHook';
+import {toScheduledTransfersResponse} from './mappers/ScheduledTransferMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {GetScheduledTransfersQuerySchema} from './models/ScheduledTransferWebRequest';
+import {ScheduledTransfersWebResponseSchema} from './models/ScheduledTransferWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getAccountScheduledTransfersRouter = new Hono();
+
+/**
+ * GET /api/accounts/:accountId/scheduled-transfers の OpenAPI 定義
+ */
+export const getAccountScheduledTransfersRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/accounts/:accountId/scheduled-transfers',
+    operationId: 'getAccountScheduledTransfers',
+    summary: 'アカウントの予約送金の一覧を取得する',
+    description: 'アカウントが送金元の予約送金を、実行日時の昇順で返す。status=FAILED で実行できなかった予約だけを確認できる',
+    tags: ['Scheduled Transfers'],
+    params: AccountIdParamSchema,
+    query: GetScheduledTransfersQuerySchema,
+    success: {status: 200, description: '予約送金の一覧', schema: ScheduledTransfersWebResponseSchema},
+};
+
+/**
+ * GET /api/accounts/:accountId/scheduled-transfers
+ * アカウントが送金元の予約送金の一覧を取得する
+ */
+getAccountScheduledTransfersRouter.get(
+    '/accounts/:accountId/scheduled-transfers',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    zValidator('query', GetScheduledTransfersQuerySchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとクエリからバリデーション済みデータを取得
+        const accountId = new AccountId(BigInt(c.req.valid('param').accountId));
+        const {status} = c.req.valid('query');
+
+        // 2. DIコンテナからクエリを取得
+        const getScheduledTransfersQuery = container.resolve<GetScheduledTransfersQuery>(
+            GetScheduledTransfersQueryToken
+        );
+
+        // 3. クエリを実行
+        const scheduledTransfers = await getScheduledTransfersQuery.getScheduledTransfers(accountId, status ?? null);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toScheduledTransfersResponse(accountId, scheduledTransfers), 200);
+    }
+);
@@ -0,0 +1,53 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {GetStandingOrdersQuery} from '../../../application/port/in/GetStandingOrdersQuery';
+import {GetStandingOrdersQueryToken} from '../../../application/port/in/GetStandingOrdersQuery';
+import {validationHook} from './errors/validationHook';
+import {toStandingOrdersResponse} from './mappers/StandingOrderMapper';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {GetStandingOrdersQuerySchema} from './models/StandingOrderWebRequest';
+import {StandingOrdersWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getAccountStandingOrdersRouter = new Hono();
+
+/**
+ * GET /api/accounts/:accountId/standing-orders の OpenAPI 定義
+ */
+export const getAccountStandingOrdersRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/accounts/:accountId/standing-orders',
+    operationId: 'getAccountStandingOrders',
+    summary: 'アカウントの定期送金の一覧を取得する',
+    description: 'アカウントが送金元の定期送金を、作成した順に返す。status=PAUSED で停止中（自動停止を含む）の定期送金だけを確認できる',
+    tags: ['Standing Orders'],
+    params: AccountIdParamSchema,
+    query: GetStandingOrdersQuerySchema,
+    success: {status: 200, description: '定期送金の一覧', schema: StandingOrdersWebResponseSchema},
+};
+
+/**
+ * GET /api/accounts/:accountId/standing-orders
+ * アカウントが送金元の定期送金の一覧を取得する
+ */
+getAccountStandingOrdersRouter.get(
+    '/accounts/:accountId/standing-orders',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    zValidator('query', GetStandingOrdersQuerySchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとクエリからバリデーション済みデータを取得
+        const accountId = new AccountId(BigInt(c.req.valid('param').accountId));
+        const {status} = c.req.valid('query');
+
+        // 2. DIコンテナからクエリを取得
+        const getStandingOrdersQuery = container.resolve<GetStandingOrdersQuery>(GetStandingOrdersQueryToken);
+
+        // 3. クエリを実行
+        const standingOrders = await getStandingOrdersQuery.getStandingOrders(accountId, status ?? null);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toStandingOrdersResponse(accountId, standingOrders), 200);
+    }
+);
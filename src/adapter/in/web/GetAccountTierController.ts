@@ -0,0 +1,52 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {AccountId} from '../../../application/domain/model/Activity';
+import type {GetAccountTierQuery} from '../../../application/port/in/GetAccountTierQuery';
+import {GetAccountTierQueryToken} from '../../../application/port/in/GetAccountTierQuery';
+import {validationHook} from './errors/validationHook';
+import {toAccountTierResponse} from './mappers/AccountTierMapper';
+import {ADMIN_AUTH_ERRORS} from './middleware/adminAuth';
+import {AccountIdParamSchema} from './models/AccountIdParam';
+import {AccountTierWebResponseSchema} from './models/AccountTierWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getAccountTierRouter = new Hono();
+
+/**
+ * GET /api/admin/accounts/:accountId/tier の OpenAPI 定義
+ */
+export const getAccountTierRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/admin/accounts/:accountId/tier',
+    operationId: 'getAccountTier',
+    summary: 'アカウントの区分と送金限度額を取得する（管理者向け）',
+    tags: ['Admin'],
+    params: AccountIdParamSchema,
+    success: {status: 200, description: 'アカウントの区分と送金限度額', schema: AccountTierWebResponseSchema},
+    errors: [AccountNotFoundException],
+    extraErrors: ADMIN_AUTH_ERRORS,
+};
+
+/**
+ * GET /api/admin/accounts/:accountId/tier
+ * アカウントの区分と、その区分に適用される送金限度額を取得する
+ */
+getAccountTierRouter.get(
+    '/admin/accounts/:accountId/tier',
+    zValidator('param', AccountIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {accountId} = c.req.valid('param');
+
+        // 2. DIコンテナからクエリを取得
+        const getAccountTierQuery = container.resolve<GetAccountTierQuery>(GetAccountTierQueryToken);
+
+        // 3. クエリを実行
+        const view = await getAccountTierQuery.getAccountTier(new AccountId(BigInt(accountId)));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toAccountTierResponse('Account tier retrieved successfully', view), 200);
+    }
+);
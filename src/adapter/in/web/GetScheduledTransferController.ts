@@ -0,0 +1,55 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {ScheduledTransferNotFoundException} from '../../../application/domain/exception/ScheduledTransferNotFoundException';
+import type {GetScheduledTransfersQuery} from '../../../application/port/in/GetScheduledTransfersQuery';
+import {GetScheduledTransfersQueryToken} from '../../../application/port/in/GetScheduledTransfersQuery';
+import {validationHook} from './errors/validationHook';
+import {toScheduledTransferResponse} from './mappers/ScheduledTransferMapper';
+import {ScheduledTransferIdParamSchema} from './models/ScheduledTransferWebRequest';
+import {ScheduledTransferWebResponseSchema} from './models/ScheduledTransferWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getScheduledTransferRouter = new Hono();
+
+/**
+ * GET /api/scheduled-transfers/:scheduledTransferId の OpenAPI 定義
+ */
+export const getScheduledTransferRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/scheduled-transfers/:scheduledTransferId',
+    operationId: 'getScheduledTransfer',
+    summary: '予約送金を照会する',
+    description: '実行できなかった場合（FAILED）は、failure に理由が入る',
+    tags: ['Scheduled Transfers'],
+    params: ScheduledTransferIdParamSchema,
+    success: {status: 200, description: '予約送金', schema: ScheduledTransferWebResponseSchema},
+    errors: [ScheduledTransferNotFoundException],
+};
+
+/**
+ * GET /api/scheduled-transfers/:scheduledTransferId
+ * 予約送金を照会する
+ */
+getScheduledTransferRouter.get(
+    '/scheduled-transfers/:scheduledTransferId',
+    zValidator('param', ScheduledTransferIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {scheduledTransferId} = c.req.valid('param');
+
+        // 2. DIコンテナからクエリを取得
+        const getScheduledTransfersQuery = container.resolve<GetScheduledTransfersQuery>(
+            GetScheduledTransfersQueryToken
+        );
+
+        // 3. クエリを実行
+        const scheduledTransfer = await getScheduledTransfersQuery.getScheduledTransfer(scheduledTransferId);
+
+        // 4. 成功レスポンスを返す
+        return c.json(
+            toScheduledTransferResponse('Scheduled transfer retrieved successfully', scheduledTransfer),
+            200
+        );
+    }
+);
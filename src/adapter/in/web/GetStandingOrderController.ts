@@ -0,0 +1,56 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {StandingOrderNotFoundException} from '../../../application/domain/exception/StandingOrderNotFoundException';
+import type {GetStandingOrdersQuery} from '../../../application/port/in/GetStandingOrdersQuery';
+import {GetStandingOrdersQueryToken} from '../../../application/port/in/GetStandingOrdersQuery';
+import {validationHook} from './errors/validationHook';
+import {toStandingOrderDetailResponse} from './mappers/StandingOrderMapper';
+import {StandingOrderIdParamSchema} from './models/StandingOrderWebRequest';
+import {StandingOrderDetailWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+/**
+ * レスポンスに含める実行記録の件数
+ */
+const RECENT_RUNS_LIMIT = 20;
+
+export const getStandingOrderRouter = new Hono();
+
+/**
+ * GET /api/standing-orders/:standingOrderId の OpenAPI 定義
+ */
+export const getStandingOrderRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/standing-orders/:standingOrderId',
+    operationId: 'getStandingOrder',
+    summary: '定期送金を照会する',
+    description: `直近${RECENT_RUNS_LIMIT.toString()}件の実行記録（新しい順）を含む。失敗した実行には、失敗の種類（例外の名前）とメッセージが入る`,
+    tags: ['Standing Orders'],
+    params: StandingOrderIdParamSchema,
+    success: {status: 200, description: '定期送金と直近の実行記録', schema: StandingOrderDetailWebResponseSchema},
+    errors: [StandingOrderNotFoundException],
+};
+
+/**
+ * GET /api/standing-orders/:standingOrderId
+ * 定期送金を直近の実行記録とともに照会する
+ */
+getStandingOrderRouter.get(
+    '/standing-orders/:standingOrderId',
+    zValidator('param', StandingOrderIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {standingOrderId} = c.req.valid('param');
+
+        // 2. DIコンテナからクエリを取得
+        const getStandingOrdersQuery = container.resolve<GetStandingOrdersQuery>(GetStandingOrdersQueryToken);
+
+        // 3. クエリを実行
+        const standingOrder = await getStandingOrdersQuery.getStandingOrder(standingOrderId);
+        const recentRuns = await getStandingOrdersQuery.getStandingOrderRuns(standingOrderId, RECENT_RUNS_LIMIT);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toStandingOrderDetailResponse(standingOrder, recentRuns), 200);
+    }
+);
@@ -0,0 +1,44 @@
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import type {GetTransferConfigurationQuery} from '../../../application/port/in/GetTransferConfigurationQuery';
+import {GetTransferConfigurationQueryToken} from '../../../application/port/in/GetTransferConfigurationQuery';
+import {toTransferConfigurationResponse} from './mappers/TransferConfigurationMapper';
+import {ADMIN_AUTH_ERRORS} from './middleware/adminAuth';
+import {TransferConfigurationWebResponseSchema} from './models/TransferConfigurationWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getTransferConfigurationRouter = new Hono();
+
+/**
+ * GET /api/admin/transfer-config の OpenAPI 定義
+ */
+export const getTransferConfigurationRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/admin/transfer-config',
+    operationId: 'getTransferConfiguration',
+    summary: '送金に適用されている設定を取得する（管理者向け）',
+    description: '環境変数（TRANSFER_MAX_AMOUNT など）と既定値から決まった、実際に適用されている基準通貨・区分ごとの限度額・手数料の設定を返す',
+    tags: ['Admin'],
+    success: {status: 200, description: '送金に適用されている設定', schema: TransferConfigurationWebResponseSchema},
+    extraErrors: ADMIN_AUTH_ERRORS,
+};
+
+/**
+ * GET /api/admin/transfer-config
+ * 送金に適用されている設定を取得する
+ */
+getTransferConfigurationRouter.get(
+    '/admin/transfer-config',
+    async (c): Promise<Response> => {
+        // 1. DIコンテナからクエリを取得
+        const getTransferConfigurationQuery = container.resolve<GetTransferConfigurationQuery>(
+            GetTransferConfigurationQueryToken
+        );
+
+        // 2. クエリを実行
+        const configuration = await getTransferConfigurationQuery.getTransferConfiguration();
+
+        // 3. 成功レスポンスを返す
+        return c.json(toTransferConfigurationResponse(configuration), 200);
+    }
+);
@@ -0,0 +1,51 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {TransferNotFoundException} from '../../../application/domain/exception/TransferNotFoundException';
+import {TransferId} from '../../../application/domain/model/Transfer';
+import type {GetTransferQuery} from '../../../application/port/in/GetTransferQuery';
+import {GetTransferQueryToken} from '../../../application/port/in/GetTransferQuery';
+import {validationHook} from './errors/validationHook';
+import {toTransferResponse} from './mappers/TransferMapper';
+import {TransferIdParamSchema} from './models/TransferWebRequest';
+import {TransferWebResponseSchema} from './models/TransferWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const getTransferRouter = new Hono();
+
+/**
+ * GET /api/transfers/:transferId の OpenAPI 定義
+ */
+export const getTransferRouteSpec: ApiRouteSpec = {
+    method: 'get',
+    path: '/api/transfers/:transferId',
+    operationId: 'getTransfer',
+    summary: '送金を照会する',
+    description: '送金ID（送金APIのレスポンスの transferId）で、送金の状態・内訳と、送金にひも付くアクティビティを返す',
+    tags: ['Transfers'],
+    params: TransferIdParamSchema,
+    success: {status: 200, description: '送金', schema: TransferWebResponseSchema},
+    errors: [TransferNotFoundException],
+};
+
+/**
+ * GET /api/transfers/:transferId
+ * 送金を照会する
+ */
+getTransferRouter.get(
+    '/transfers/:transferId',
+    zValidator('param', TransferIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {transferId} = c.req.valid('param');
+
+        // 2. DIコンテナからクエリを取得
+        const getTransferQuery = container.resolve<GetTransferQuery>(GetTransferQueryToken);
+
+        // 3. クエリを実行
+        const transferView = await getTransferQuery.getTransfer(new TransferId(transferId));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toTransferResponse(transferView), 200);
+    }
+);
@@ -0,0 +1,86 @@
+import {Scalar} from '@scalar/hono-api-reference';
+import {Hono} from 'hono';
+import {batchTransferRouteSpec} from './BatchTransferController';
+import {cancelScheduledTransferRouteSpec} from './CancelScheduledTransferController';
+import {cancelStandingOrderRouteSpec} from './CancelStandingOrderController';
+import {changeAccountTierRouteSpec} from './ChangeAccountTierController';
+import {changeOverdraftLimitRouteSpec} from './ChangeOverdraftLimitController';
+import {closeAccountRouteSpec} from './CloseAccountController';
+import {createAccountRouteSpec} from './CreateAccountController';
+import {createExchangeRateQuoteRouteSpec} from './CreateExchangeRateQuoteController';
+import {createStandingOrderRouteSpec} from './CreateStandingOrderController';
+import {domainErrorMappings} from './errors/domainErrorMappings';
+import {forceReverseTransferRouteSpec} from './ForceReverseTransferController';
+import {freezeAccountRouteSpec} from './FreezeAccountController';
+import {getAccountActivitiesRouteSpec} from './GetAccountActivitiesController';
+import {getAccountBalanceRouteSpec} from './GetAccountBalanceController';
+import {getAccountScheduledTransfersRouteSpec} from './GetAccountScheduledTransfersController';
+import {getAccountStandingOrdersRouteSpec} from './GetAccountStandingOrdersController';
+import {getAccountTierRouteSpec} from './GetAccountTierController';
+import {getScheduledTransferRouteSpec} from './GetScheduledTransferController';
+import {getStandingOrderRouteSpec} from './GetStandingOrderController';
+import {getTransferConfigurationRouteSpec} from './GetTransferConfigurationController';
+import {getTransferRouteSpec} from './GetTransferController';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+import type {OpenApiDocument} from './openapi/createOpenApiDocument';
+import {createOpenApiDocument} from './openapi/createOpenApiDocument';
+import {pauseStandingOrderRouteSpec} from './PauseStandingOrderController';
+import {quoteTransferRouteSpec} from './QuoteTransferController';
+import {resumeStandingOrderRouteSpec} from './ResumeStandingOrderController';
+import {reverseTransferRouteSpec} from './ReverseTransferController';
+import {sendMoneyRouteSpec} from './SendMoneyController';
+
+export const openApiRouter = new Hono();
+
+/**
+ * OpenAPI ドキュメントに載せるルート
+ *
+ * 新しいルートを追加したら、コントローラーで ApiRouteSpec を定義してここに加える
+ */
+export const apiRouteSpecs: readonly ApiRouteSpec[] = [
+    sendMoneyRouteSpec,
+    quoteTransferRouteSpec,
+    batchTransferRouteSpec,
+    getTransferRouteSpec,
+    reverseTransferRouteSpec,
+    getAccountBalanceRouteSpec,
+    getAccountActivitiesRouteSpec,
+    createAccountRouteSpec,
+    freezeAccountRouteSpec,
+    closeAccountRouteSpec,
+    createExchangeRateQuoteRouteSpec,
+    getAccountTierRouteSpec,
+    changeAccountTierRouteSpec,
+    changeOverdraftLimitRouteSpec,
+    getTransferConfigurationRouteSpec,
+    forceReverseTransferRouteSpec,
+    getScheduledTransferRouteSpec,
+    getAccountScheduledTransfersRouteSpec,
+    cancelScheduledTransferRouteSpec,
+    createStandingOrderRouteSpec,
+    getStandingOrderRouteSpec,
+    getAccountStandingOrdersRouteSpec,
+    pauseStandingOrderRouteSpec,
+    resumeStandingOrderRouteSpec,
+    cancelStandingOrderRouteSpec,
+];
+
+/**
+ * 生成済みのドキュメント（内容は変わらないので初回のリクエストで一度だけ生成する）
+ */
+let openApiDocument: OpenApiDocument | undefined;
+
+/**
+ * GET /openapi.json
+ * zod スキーマから生成した OpenAPI 3.1 ドキュメントを返す
+ */
+openApiRouter.get('/openapi.json', (c) => {
+    openApiDocument ??= createOpenApiDocument(apiRouteSpecs, domainErrorMappings);
+    return c.json(openApiDocument);
+});
+
+/**
+ * GET /docs
+ * Scalar の APIリファレンスUI（/openapi.json を読み込む）
+ */
+openApiRouter.get('/docs', Scalar({url: '/openapi.json', pageTitle: 'BuckPal API Reference'}));
@@ -0,0 +1,53 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {InvalidStandingOrderStatusTransitionException} from '../../../application/domain/exception/InvalidStandingOrderStatusTransitionException';
+import {StandingOrderNotFoundException} from '../../../application/domain/exception/StandingOrderNotFoundException';
+import type {PauseStandingOrderUseCase} from '../../../application/port/in/PauseStandingOrderUseCase';
+import {PauseStandingOrderUseCaseToken} from '../../../application/port/in/PauseStandingOrderUseCase';
+import {validationHook} from './errors/validationHook';
+import {toStandingOrderResponse} from './mappers/StandingOrderMapper';
+import {StandingOrderIdParamSchema} from './models/StandingOrderWebRequest';
+import {StandingOrderWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const pauseStandingOrderRouter = new Hono();
+
+/**
+ * POST /api/standing-orders/:standingOrderId/pause の OpenAPI 定義
+ */
+export const pauseStandingOrderRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/standing-orders/:standingOrderId/pause',
+    operationId: 'pauseStandingOrder',
+    summary: '定期送金を停止する（ACTIVE → PAUSED）',
+    description: '停止中は実行しない。実行中・停止中・取り消し済みの場合は 409 を返す',
+    tags: ['Standing Orders'],
+    params: StandingOrderIdParamSchema,
+    success: {status: 200, description: '停止した定期送金', schema: StandingOrderWebResponseSchema},
+    errors: [StandingOrderNotFoundException, InvalidStandingOrderStatusTransitionException],
+};
+
+/**
+ * POST /api/standing-orders/:standingOrderId/pause
+ * 定期送金を停止する
+ */
+pauseStandingOrderRouter.post(
+    '/standing-orders/:standingOrderId/pause',
+    zValidator('param', StandingOrderIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {standingOrderId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const pauseStandingOrderUseCase = container.resolve<PauseStandingOrderUseCase>(
+            PauseStandingOrderUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const standingOrder = await pauseStandingOrderUseCase.pauseStandingOrder(standingOrderId);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toStandingOrderResponse('Standing order paused successfully', standingOrder), 200);
+    }
+);
@@ -0,0 +1,69 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountNotActiveException} from '../../../application/domain/exception/AccountNotActiveException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {CumulativeLimitExceededException} from '../../../application/domain/exception/CumulativeLimitExceededException';
+import {CurrencyMismatchException} from '../../../application/domain/exception/CurrencyMismatchException';
+import {ExchangeRateUnavailableException} from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import {InsufficientBalanceException} from '../../../application/domain/exception/InsufficientBalanceException';
+import {InvalidExchangeRateQuoteException} from '../../../application/domain/exception/InvalidExchangeRateQuoteException';
+import {SameAccountTransferException} from '../../../application/domain/exception/SameAccountTransferException';
+import {ThresholdExceededException} from '../../../application/domain/exception/ThresholdExceededException';
+import type {QuoteTransferUseCase} from '../../../application/port/in/QuoteTransferUseCase';
+import {QuoteTransferUseCaseToken} from '../../../application/port/in/QuoteTransferUseCase';
+import {validationHook} from './errors/validationHook';
+import {toCommand, toQuoteResponse} from './mappers/SendMoneyMapper';
+import {QuoteTransferWebResponseSchema} from './models/QuoteTransferWebResponse';
+import {QuoteTransferWebRequestSchema} from './models/SendMoneyWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const quoteTransferRouter = new Hono();
+
+/**
+ * POST /api/transfers/quote の OpenAPI 定義
+ */
+export const quoteTransferRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/transfers/quote',
+    operationId: 'quoteTransfer',
+    summary: '送金の内訳を見積もる（ドライラン）',
+    description: '送金と同じリクエストで、手数料・引き落とし合計・入金額を返す。お金は動かさない。' +
+        '送金した場合と同じエラー（残高不足・限度額超過など）を返す',
+    tags: ['Transfers'],
+    body: QuoteTransferWebRequestSchema,
+    success: {status: 200, description: '送金の内訳', schema: QuoteTransferWebResponseSchema},
+    errors: [
+        AccountNotFoundException,
+        InsufficientBalanceException,
+        ThresholdExceededException,
+        CumulativeLimitExceededException,
+        SameAccountTransferException,
+        AccountNotActiveException,
+        CurrencyMismatchException,
+        InvalidExchangeRateQuoteException,
+        ExchangeRateUnavailableException,
+    ],
+};
+
+/**
+ * POST /api/transfers/quote
+ * 送金リクエストの内訳（手数料を含む）を計算する
+ */
+quoteTransferRouter.post(
+    '/transfers/quote',
+    zValidator('json', QuoteTransferWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. リクエストボディからバリデーション済みデータを取得
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const quoteTransferUseCase = container.resolve<QuoteTransferUseCase>(QuoteTransferUseCaseToken);
+
+        // 3. ユースケースを実行（ビジネスエラーは例外 → 共通のエラーハンドラーで変換）
+        const breakdown = await quoteTransferUseCase.quoteTransfer(toCommand(request));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toQuoteResponse(request, breakdown), 200);
+    }
+);
@@ -0,0 +1,53 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {InvalidStandingOrderStatusTransitionException} from '../../../application/domain/exception/InvalidStandingOrderStatusTransitionException';
+import {StandingOrderNotFoundException} from '../../../application/domain/exception/StandingOrderNotFoundException';
+import type {ResumeStandingOrderUseCase} from '../../../application/port/in/ResumeStandingOrderUseCase';
+import {ResumeStandingOrderUseCaseToken} from '../../../application/port/in/ResumeStandingOrderUseCase';
+import {validationHook} from './errors/validationHook';
+import {toStandingOrderResponse} from './mappers/StandingOrderMapper';
+import {StandingOrderIdParamSchema} from './models/StandingOrderWebRequest';
+import {StandingOrderWebResponseSchema} from './models/StandingOrderWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const resumeStandingOrderRouter = new Hono();
+
+/**
+ * POST /api/standing-orders/:standingOrderId/resume の OpenAPI 定義
+ */
+export const resumeStandingOrderRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/standing-orders/:standingOrderId/resume',
+    operationId: 'resumeStandingOrder',
+    summary: '停止した定期送金を再開する（PAUSED → ACTIVE）',
+    description: '停止中に過ぎた実行日時の分は送金せず、再開した時刻より後の実行日時から実行する。連続失敗の回数は0に戻る。停止中以外の場合は 409 を返す',
+    tags: ['Standing Orders'],
+    params: StandingOrderIdParamSchema,
+    success: {status: 200, description: '再開した定期送金', schema: StandingOrderWebResponseSchema},
+    errors: [StandingOrderNotFoundException, InvalidStandingOrderStatusTransitionException],
+};
+
+/**
+ * POST /api/standing-orders/:standingOrderId/resume
+ * 停止した定期送金を再開する
+ */
+resumeStandingOrderRouter.post(
+    '/standing-orders/:standingOrderId/resume',
+    zValidator('param', StandingOrderIdParamSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータからバリデーション済みデータを取得
+        const {standingOrderId} = c.req.valid('param');
+
+        // 2. DIコンテナからユースケースを取得
+        const resumeStandingOrderUseCase = container.resolve<ResumeStandingOrderUseCase>(
+            ResumeStandingOrderUseCaseToken
+        );
+
+        // 3. ユースケースを実行
+        const standingOrder = await resumeStandingOrderUseCase.resumeStandingOrder(standingOrderId);
+
+        // 4. 成功レスポンスを返す
+        return c.json(toStandingOrderResponse('Standing order resumed successfully', standingOrder), 200);
+    }
+);
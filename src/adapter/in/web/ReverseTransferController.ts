@@ -0,0 +1,70 @@
+import {zValidator} from '@hono/zod-validator';
+import {Hono} from 'hono';
+import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotActiveException} from '../../../application/domain/exception/AccountNotActiveException';
+import {InsufficientBalanceException} from '../../../application/domain/exception/InsufficientBalanceException';
+import {InvalidTransferReversalException} from '../../../application/domain/exception/InvalidTransferReversalException';
+import {TransferAlreadyReversedException} from '../../../application/domain/exception/TransferAlreadyReversedException';
+import {TransferNotFoundException} from '../../../application/domain/exception/TransferNotFoundException';
+import type {ReverseTransferUseCase} from '../../../application/port/in/ReverseTransferUseCase';
+import {ReverseTransferUseCaseToken} from '../../../application/port/in/ReverseTransferUseCase';
+import {validationHook} from './errors/validationHook';
+import {toReverseTransferCommand, toReverseTransferResponse} from './mappers/ReverseTransferMapper';
+import {ReverseTransferWebRequestSchema} from './models/ReverseTransferWebRequest';
+import {ReverseTransferWebResponseSchema} from './models/ReverseTransferWebResponse';
+import {TransferIdParamSchema} from './models/TransferWebRequest';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
+
+export const reverseTransferRouter = new Hono();
+
+/**
+ * POST /api/transfers/:transferId/reverse の OpenAPI 定義
+ */
+export const reverseTransferRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/transfers/:transferId/reverse',
+    operationId: 'reverseTransfer',
+    summary: '送金を取り消す',
+    description:
+        '送金元と送金先を入れ替えた同じ金額のアクティビティを記録し、元のアクティビティにリンクする（元のアクティビティは残る）。'
+        + '送金は送金ID（送金APIのレスポンスの transferId）で指定し、送金にひも付くアクティビティ（手数料を含む）をまとめて取り消す。'
+        + '送金先の残高が足りない場合は 400 を返す（残高をチェックしない取り消しは管理者向けの force-reverse を使う）。'
+        + '取り消し済みの場合は 409 を返す',
+    tags: ['Transfers'],
+    params: TransferIdParamSchema,
+    body: ReverseTransferWebRequestSchema,
+    success: {status: 200, description: '取り消しの記録', schema: ReverseTransferWebResponseSchema},
+    errors: [
+        TransferNotFoundException,
+        InvalidTransferReversalException,
+        InsufficientBalanceException,
+        AccountNotActiveException,
+        TransferAlreadyReversedException,
+        AccountLockTimeoutException,
+    ],
+};
+
+/**
+ * POST /api/transfers/:transferId/reverse
+ * 送金を取り消す
+ */
+reverseTransferRouter.post(
+    '/transfers/:transferId/reverse',
+    zValidator('param', TransferIdParamSchema, validationHook),
+    zValidator('json', ReverseTransferWebRequestSchema, validationHook),
+    async (c): Promise<Response> => {
+        // 1. パスパラメータとボディからバリデーション済みデータを取得
+        const {transferId} = c.req.valid('param');
+        const request = c.req.valid('json');
+
+        // 2. DIコンテナからユースケースを取得
+        const reverseTransferUseCase = container.resolve<ReverseTransferUseCase>(ReverseTransferUseCaseToken);
+
+        // 3. ユースケースを実行
+        const reversal = await reverseTransferUseCase.reverseTransfer(toReverseTransferCommand(transferId, request, false));
+
+        // 4. 成功レスポンスを返す
+        return c.json(toReverseTransferResponse(reversal), 200);
+    }
+);
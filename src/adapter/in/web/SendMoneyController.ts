@@ -1,102 +1,211 @@
 import {zValidator} from '@hono/zod-validator';
+import type {Context} from 'hono';
 import {Hono} from 'hono';
+import type {ContentfulStatusCode} from 'hono/utils/http-status';
 import {container} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotActiveException} from '../../../application/domain/exception/AccountNotActiveException';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {CumulativeLimitExceededException} from '../../../application/domain/exception/CumulativeLimitExceededException';
+import {CurrencyMismatchException} from '../../../application/domain/exception/CurrencyMismatchException';
+import {ExchangeRateUnavailableException} from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import {ExecutionTimeNotInFutureException} from '../../../application/domain/exception/ExecutionTimeNotInFutureException';
+import {IdempotencyKeyInProgressException} from '../../../application/domain/exception/IdempotencyKeyInProgressException';
+import {IdempotencyKeyReusedException} from '../../../application/domain/exception/IdempotencyKeyReusedException';
 import {InsufficientBalanceException} from '../../../application/domain/exception/InsufficientBalanceException';
+import {InvalidExchangeRateQuoteException} from '../../../application/domain/exception/InvalidExchangeRateQuoteException';
+import {QuoteNotAllowedForScheduledTransferException} from '../../../application/domain/exception/QuoteNotAllowedForScheduledTransferException';
+import {RemittanceNotAllowedForScheduledTransferException} from '../../../application/domain/exception/RemittanceNotAllowedForScheduledTransferException';
 import {SameAccountTransferException} from '../../../application/domain/exception/SameAccountTransferException';
 import {ThresholdExceededException} from '../../../application/domain/exception/ThresholdExceededException';
-import type {SendMoneyUseCase} from '../../../application/port/in/SendMoneyUseCase';
+import {IdempotentRequestUseCaseToken} from '../../../application/port/in/IdempotentRequestUseCase';
+import type {IdempotentRequestUseCase} from '../../../application/port/in/IdempotentRequestUseCase';
+import type {ScheduleTransferUseCase} from '../../../application/port/in/ScheduleTransferUseCase';
+import {ScheduleTransferUseCaseToken} from '../../../application/port/in/ScheduleTransferUseCase';
 import { SendMoneyUseCaseToken} from '../../../application/port/in/SendMoneyUseCase';
-import {toCommand, toErrorResponse, toSuccessResponse} from './mappers/SendMoneyMapper';
-import {SendMoneyWebRequestSchema} from "./models/SendMoneyWebRequest";
+import type {SendMoneyUseCase} from '../../../application/port/in/SendMoneyUseCase';
+import {renderHttpError, toHttpError} from './errors/errorHandler';
+import {validationHook} from './errors/validationHook';
+import {toScheduledTransferResponse} from './mappers/ScheduledTransferMapper';
+import {toCommand, toErrorResponse, toRequestFingerprint, toSuccessResponse} from './mappers/SendMoneyMapper';
+import type {ScheduledTransferWebResponse} from './models/ScheduledTransferWebResponse';
+import {ScheduledTransferWebResponseSchema} from './models/ScheduledTransferWebResponse';
+import type {SendMoneyWebRequest} from "./models/SendMoneyWebRequest";
+import {IDEMPOTENCY_KEY_PATTERN, SendMoneyHeadersSchema, SendMoneyWebRequestSchema} from "./models/SendMoneyWebRequest";
+import type {SendMoneyWebResponse} from "./models/SendMoneyWebResponse";
+import {SendMoneyWebResponseSchema} from './models/SendMoneyWebResponse';
+import type {ApiRouteSpec} from './openapi/ApiRouteSpec';
 
 export const sendMoneyRouter = new Hono();
 
+/**
+ * POST /api/accounts/send の OpenAPI 定義
+ */
+export const sendMoneyRouteSpec: ApiRouteSpec = {
+    method: 'post',
+    path: '/api/accounts/send',
+    operationId: 'sendMoney',
+    summary: '送金する',
+    description: 'Idempotency-Key ヘッダーを指定すると、同じキーでのリトライには送金を再実行せず初回のレスポンスを返す。' +
+        '送金先の通貨が異なる場合は amount（送金元の通貨）を換算して入金する。quoteId を指定すると見積もりのレートを使う。' +
+        '手数料がかかる場合は、送金元から amount + fee を引き落とす。' +
+        'executeAt を指定すると送金を予約し（202）、実行日時以降にスケジューラーが送金する。' +
+        '残高・限度額などは実行時に判定し、送金できなかった場合は予約送金に理由を記録する',
+    tags: ['Transfers'],
+    headers: SendMoneyHeadersSchema,
+    body: SendMoneyWebRequestSchema,
+    success: {status: 200, description: '送金に成功した', schema: SendMoneyWebResponseSchema},
+    additionalSuccesses: [
+        {status: 202, description: '送金を予約した（executeAt を指定した場合）', schema: ScheduledTransferWebResponseSchema},
+    ],
+    errors: [
+        AccountNotFoundException,
+        InsufficientBalanceException,
+        ThresholdExceededException,
+        CumulativeLimitExceededException,
+        SameAccountTransferException,
+        AccountNotActiveException,
+        CurrencyMismatchException,
+        InvalidExchangeRateQuoteException,
+        IdempotencyKeyReusedException,
+        IdempotencyKeyInProgressException,
+        AccountLockTimeoutException,
+        ExchangeRateUnavailableException,
+        ExecutionTimeNotInFutureException,
+        QuoteNotAllowedForScheduledTransferException,
+        RemittanceNotAllowedForScheduledTransferException,
+    ],
+    extraErrors: [
+        {status: 400, code: 'INVALID_IDEMPOTENCY_KEY'},
+    ],
+};
+
+/**
+ * 冪等性キーのヘッダー名
+ */
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * 送金処理の結果（ステータスコード + レスポンスボディ）
+ */
+interface SendMoneyResult {
+    statusCode: ContentfulStatusCode;
+    body: SendMoneyWebResponse | ScheduledTransferWebResponse;
+}
+
 /**
  * POST /api/accounts/send
  * JSONボディで送金リクエストを受け付ける
+ *
+ * Idempotency-Key ヘッダーが指定された場合、同じキーでのリトライには
+ * 送金を再実行せず初回のレスポンスを返す
  */
 sendMoneyRouter.post(
     '/accounts/send',
-    zValidator('json', SendMoneyWebRequestSchema),
+    zValidator('json', SendMoneyWebRequestSchema, validationHook),
     async (c): Promise<Response> => {
-        try {
-            // 1. リクエストボディからバリデーション済みデータを取得
-            const request = c.req.valid('json');
-
-            // 2. DIコンテナからユースケースを取得
-            const sendMoneyUseCase = container.resolve<SendMoneyUseCase>(SendMoneyUseCaseToken);
-
-            // 3. Webリクエストをドメインコマンドに変換
-            const command = toCommand(request);
-
-            // 4. ユースケースを実行（例外が発生する可能性がある）
-            await sendMoneyUseCase.sendMoney(command);
-
-            // 5. 成功レスポンスを返す
-            return c.json(toSuccessResponse(request), 200);
-
-        } catch (error) {
-            // ===== ビジネスロジックエラー =====
-
-            // 残高不足
-            if (error instanceof InsufficientBalanceException) {
-                return c.json(
-                    toErrorResponse(
-                        'Money transfer failed - insufficient balance',
-                        'INSUFFICIENT_BALANCE',
-                        {
-                            accountId: error.accountId.getValue().toString(),
-                            attemptedAmount: error.attemptedAmount.getAmount().toString(),
-                            currentBalance: error.currentBalance.getAmount().toString(),
-                        }
-                    ),
-                    400
-                );
-            }
-
-            // 限度額超過
-            if (error instanceof ThresholdExceededException) {
-                return c.json(
-                    toErrorResponse(
-                        'Maximum threshold for money transfer exceeded',
-                        'THRESHOLD_EXCEEDED',
-                        {
-                            threshold: error.threshold.getAmount().toString(),
-                            attempted: error.actual.getAmount().toString(),
-                        }
-                    ),
-                    400
-                );
-            }
-
-            // 同一アカウント送金
-            if (error instanceof SameAccountTransferException) {
-                return c.json(
-                    toErrorResponse(
-                        'Cannot transfer money to the same account',
-                        'SAME_ACCOUNT_TRANSFER',
-                        {
-                            accountId: error.accountId.getValue().toString(),
-                        }
-                    ),
-                    400
-                );
-            }
-
-            // ===== その他のエラー =====
-
-            // 予期しないエラー（インフラエラー、バグ等）
-            console.error('Unexpected error:', error);
-
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-
-            return c.json(
-                toErrorResponse(
-                    errorMessage,
-                    'INTERNAL_ERROR'
-                ),
-                500
+        // 1. リクエストボディからバリデーション済みデータを取得
+        const request = c.req.valid('json');
+        const idempotencyKey = c.req.header(IDEMPOTENCY_KEY_HEADER);
+
+        // 2. 冪等性キーがなければそのまま送金する
+        if (idempotencyKey === undefined) {
+            return toHttpResponse(c, await handleSendMoney(request));
+        }
+
+        if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+            return renderHttpError(c, {
+                status: 400,
+                code: 'INVALID_IDEMPOTENCY_KEY',
+                message: 'Idempotency-Key must be 1 to 255 printable ASCII characters',
+            });
+        }
+
+        // 3. 冪等性キー付きで送金する
+        // （キーの再利用・処理中の重複は例外として投げられ、共通のエラーハンドラーで変換される）
+        const idempotentRequestUseCase = container.resolve<IdempotentRequestUseCase>(
+            IdempotentRequestUseCaseToken
+        );
+
+        const result = await idempotentRequestUseCase.execute(
+            idempotencyKey,
+            await toRequestFingerprint(request),
+            () => handleSendMoney(request)
+        );
+
+        if (result.replayed) {
+            c.header('Idempotent-Replayed', 'true');
+        }
+
+        return toHttpResponse(c, {
+            statusCode: result.response.statusCode as ContentfulStatusCode,
+            body: result.response.body as SendMoneyWebResponse | ScheduledTransferWebResponse,
+        });
+    }
+);
+
+/**
+ * 送金ユースケースを実行し、結果をレスポンスに変換する
+ *
+ * 冪等性キーの有無にかかわらず同じ処理を使うため、
+ * Honoのコンテキストに依存せず「ステータスコード + ボディ」を返す
+ * （ビジネスエラーのレスポンスも冪等性キーに保存するため、例外はここで変換する）
+ *
+ * executeAt が指定された場合は、送金せずに予約する
+ */
+async function handleSendMoney(request: SendMoneyWebRequest): Promise<SendMoneyResult> {
+    try {
+        // 1. Webリクエストをドメインコマンドに変換
+        const command = toCommand(request);
+
+        // 2. 実行日時の指定があれば予約だけする（送金はスケジューラーが実行する）
+        if (request.executeAt !== undefined) {
+            const scheduleTransferUseCase = container.resolve<ScheduleTransferUseCase>(ScheduleTransferUseCaseToken);
+            const scheduledTransfer = await scheduleTransferUseCase.scheduleTransfer(
+                command,
+                new Date(request.executeAt)
             );
+
+            return {
+                statusCode: 202,
+                body: toScheduledTransferResponse('Money transfer scheduled successfully', scheduledTransfer),
+            };
         }
+
+        // 3. DIコンテナからユースケースを取得し、実行する（例外が発生する可能性がある）
+        const sendMoneyUseCase = container.resolve<SendMoneyUseCase>(SendMoneyUseCaseToken);
+        const transfer = await sendMoneyUseCase.sendMoney(command);
+
+        // 4. 成功レスポンス（送金IDと、手数料を含む内訳）を返す
+        return {statusCode: 200, body: toSuccessResponse(request, transfer)};
+
+    } catch (error) {
+        // 例外 → HTTPエラーの変換は共通の対応表（domainErrorMappings）に任せる
+        const httpError = toHttpError(error);
+
+        return {
+            statusCode: httpError.status,
+            body: toErrorResponse(httpError.message, httpError.code, httpError.details),
+        };
     }
-);
\ No newline at end of file
+}
+
+/**
+ * 送金処理の結果をレスポンスにする
+ *
+ * エラーの場合は共通のエラーレスポンス（Accept に応じて problem+json）として返す
+ */
+function toHttpResponse(c: Context, result: SendMoneyResult): Response {
+    const {statusCode, body} = result;
+
+    if (!body.success && body.error) {
+        return renderHttpError(c, {
+            status: statusCode,
+            code: body.error.code,
+            message: body.message,
+            details: body.error.details,
+        });
+    }
+
+    return c.json(body, statusCode);
+}
@@ -0,0 +1,108 @@
+import type {ContentfulStatusCode} from 'hono/utils/http-status';
+
+/**
+ * 例外をHTTPレスポンスに変換した結果
+ *
+ * レスポンスの形式（従来の SendMoneyWebResponse 形式 / problem+json）に依存しない中間表現
+ */
+export interface HttpError {
+    /** HTTPステータスコード */
+    status: ContentfulStatusCode;
+
+    /** エラーコード（例: INSUFFICIENT_BALANCE） */
+    code: string;
+
+    /** 人間向けのメッセージ */
+    message: string;
+
+    /** エラーの詳細（プリミティブ型のみ） */
+    details?: Record<string, unknown>;
+}
+
+/**
+ * 例外クラス（コンストラクタ）の型
+ */
+export type ErrorClass<E extends Error = Error> = abstract new (...args: never[]) => E;
+
+/**
+ * 例外1種類分のHTTPエラーの定義
+ *
+ * status と code は例外のインスタンスがなくても分かるように静的に持つ
+ * （OpenAPI ドキュメントに各ルートのエラーを載せるため）
+ */
+export interface HttpErrorDefinition<E extends Error = Error> {
+    /** HTTPステータスコード */
+    status: ContentfulStatusCode;
+
+    /** エラーコード */
+    code: string;
+
+    /** 例外からメッセージと詳細を作る */
+    describe(error: E): Pick<HttpError, 'message' | 'details'>;
+}
+
+/**
+ * 例外クラスとHTTPエラーの対応表
+ *
+ * 【なぜレジストリにするのか】
+ * - 各ルートに instanceof の連鎖をコピーしなくて済む
+ * - 新しい例外を追加したときは、ここに1行登録するだけで全ルートに反映される
+ *
+ * 例外クラスの継承をたどって検索するため、
+ * サブクラスを個別に登録しなければ親クラスの変換が使われる
+ */
+export class HttpErrorMappingRegistry {
+    private readonly definitions = new Map<ErrorClass, HttpErrorDefinition>();
+
+    /**
+     * 例外クラスとHTTPエラーの定義を登録する
+     *
+     * @returns メソッドチェーン用に自分自身
+     */
+    register<E extends Error>(errorClass: ErrorClass<E>, definition: HttpErrorDefinition<E>): this {
+        this.definitions.set(errorClass, definition as HttpErrorDefinition);
+        return this;
+    }
+
+    /**
+     * 例外クラスに登録されている定義を返す（継承もたどる）
+     *
+     * @returns 登録されていない場合は undefined
+     */
+    definitionOf(errorClass: ErrorClass): HttpErrorDefinition | undefined {
+        for (
+            let prototype: object | null = errorClass.prototype as object;
+            prototype !== null && prototype !== Error.prototype;
+            prototype = Object.getPrototypeOf(prototype) as object | null
+        ) {
+            const definition = this.definitions.get(prototype.constructor as ErrorClass);
+            if (definition) {
+                return definition;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * 例外に対応するHTTPエラーを返す
+     *
+     * @returns 登録されていない例外の場合は undefined
+     */
+    resolve(error: unknown): HttpError | undefined {
+        if (!(error instanceof Error)) {
+            return undefined;
+        }
+
+        const definition = this.definitionOf(error.constructor as ErrorClass);
+        if (!definition) {
+            return undefined;
+        }
+
+        return {
+            status: definition.status,
+            code: definition.code,
+            ...definition.describe(error),
+        };
+    }
+}
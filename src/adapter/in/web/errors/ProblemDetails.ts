@@ -0,0 +1,61 @@
+import type {HttpError} from './HttpErrorMappingRegistry';
+
+/**
+ * problem+json のメディアタイプ（RFC 7807）
+ */
+export const PROBLEM_JSON_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * problem の type に使うURIの接頭辞（末尾にエラーコードを付ける）
+ */
+const PROBLEM_TYPE_PREFIX = 'urn:buckpal:problem:';
+
+/**
+ * RFC 7807 の Problem Details
+ *
+ * 標準のメンバー（type, title, status, detail, instance）に加えて、
+ * 拡張メンバーとして code と HttpError.details の各項目を持つ
+ */
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    code: string;
+    [extension: string]: unknown;
+}
+
+/**
+ * クライアントが problem+json を要求しているか判定する
+ *
+ * Accept ヘッダーに application/problem+json が含まれている場合のみ true
+ * （指定がなければ従来の { success, message, error } 形式を返す）
+ */
+export function acceptsProblemJson(accept: string | undefined): boolean {
+    if (!accept) {
+        return false;
+    }
+
+    return accept
+        .split(',')
+        .some((mediaRange) => mediaRange.split(';')[0].trim().toLowerCase() === PROBLEM_JSON_MEDIA_TYPE);
+}
+
+/**
+ * HTTPエラーを Problem Details に変換する
+ *
+ * @param error 変換するHTTPエラー
+ * @param instance 問題が発生したリクエストのパス
+ */
+export function toProblemDetails(error: HttpError, instance?: string): ProblemDetails {
+    return {
+        // 拡張メンバーは標準のメンバーを上書きしないよう先に展開する
+        ...error.details,
+        type: `${PROBLEM_TYPE_PREFIX}${error.code}`,
+        title: error.message,
+        status: error.status,
+        instance,
+        code: error.code,
+    };
+}
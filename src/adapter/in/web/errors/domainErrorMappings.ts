@@ -0,0 +1,323 @@
+import {AccountLockTimeoutException} from '../../../../application/domain/exception/AccountLockTimeoutException';
+import {AccountNotActiveException} from '../../../../application/domain/exception/AccountNotActiveException';
+import {AccountNotFoundException} from '../../../../application/domain/exception/AccountNotFoundException';
+import {CumulativeLimitExceededException} from '../../../../application/domain/exception/CumulativeLimitExceededException';
+import {CurrencyMismatchException} from '../../../../application/domain/exception/CurrencyMismatchException';
+import {ExchangeRateUnavailableException} from '../../../../application/domain/exception/ExchangeRateUnavailableException';
+import {ExecutionTimeNotInFutureException} from '../../../../application/domain/exception/ExecutionTimeNotInFutureException';
+import {IdempotencyKeyInProgressException} from '../../../../application/domain/exception/IdempotencyKeyInProgressException';
+import {IdempotencyKeyReusedException} from '../../../../application/domain/exception/IdempotencyKeyReusedException';
+import {InsufficientBalanceException} from '../../../../application/domain/exception/InsufficientBalanceException';
+import {InvalidAccountStatusTransitionException} from '../../../../application/domain/exception/InvalidAccountStatusTransitionException';
+import {InvalidExchangeRateQuoteException} from '../../../../application/domain/exception/InvalidExchangeRateQuoteException';
+import {InvalidScheduledTransferStatusTransitionException} from '../../../../application/domain/exception/InvalidScheduledTransferStatusTransitionException';
+import {InvalidStandingOrderScheduleException} from '../../../../application/domain/exception/InvalidStandingOrderScheduleException';
+import {InvalidStandingOrderStatusTransitionException} from '../../../../application/domain/exception/InvalidStandingOrderStatusTransitionException';
+import {InvalidTransferReversalException} from '../../../../application/domain/exception/InvalidTransferReversalException';
+import {QuoteNotAllowedForScheduledTransferException} from '../../../../application/domain/exception/QuoteNotAllowedForScheduledTransferException';
+import {RemittanceNotAllowedForScheduledTransferException} from '../../../../application/domain/exception/RemittanceNotAllowedForScheduledTransferException';
+import {SameAccountTransferException} from '../../../../application/domain/exception/SameAccountTransferException';
+import {ScheduledTransferNotFoundException} from '../../../../application/domain/exception/ScheduledTransferNotFoundException';
+import {StandingOrderNotFoundException} from '../../../../application/domain/exception/StandingOrderNotFoundException';
+import {ThresholdExceededException} from '../../../../application/domain/exception/ThresholdExceededException';
+import {TransferAlreadyReversedException} from '../../../../application/domain/exception/TransferAlreadyReversedException';
+import {TransferNotFoundException} from '../../../../application/domain/exception/TransferNotFoundException';
+import type {AccountStatus} from '../../../../application/domain/model/AccountStatus';
+import {HttpErrorMappingRegistry} from './HttpErrorMappingRegistry';
+
+/**
+ * 状態遷移エラーのメッセージに使う動詞（遷移先の状態ごと）
+ */
+const STATUS_TRANSITION_VERBS: Record<AccountStatus, string> = {
+    ACTIVE: 'activated',
+    FROZEN: 'frozen',
+    CLOSED: 'closed',
+};
+
+/**
+ * ドメイン例外とHTTPエラーの対応表
+ *
+ * 新しいドメイン例外を追加したら、ここに登録する
+ * （登録されていない例外は 500 INTERNAL_ERROR になる）
+ */
+export const domainErrorMappings = new HttpErrorMappingRegistry()
+    // ===== リソースが存在しない =====
+
+    // 送金では、送金元・送金先のどちらが見つからなかったかを side で返す
+    .register(AccountNotFoundException, {
+        status: 404,
+        code: 'ACCOUNT_NOT_FOUND',
+        describe: (error) => ({
+            message: error.side
+                ? `Money transfer failed - ${error.side} account not found`
+                : 'Account not found',
+            details: {
+                accountId: error.accountId.getValue().toString(),
+                side: error.side,
+            },
+        }),
+    })
+    .register(ScheduledTransferNotFoundException, {
+        status: 404,
+        code: 'SCHEDULED_TRANSFER_NOT_FOUND',
+        describe: (error) => ({
+            message: 'Scheduled transfer not found',
+            details: {
+                scheduledTransferId: error.scheduledTransferId,
+            },
+        }),
+    })
+    .register(StandingOrderNotFoundException, {
+        status: 404,
+        code: 'STANDING_ORDER_NOT_FOUND',
+        describe: (error) => ({
+            message: 'Standing order not found',
+            details: {
+                standingOrderId: error.standingOrderId,
+            },
+        }),
+    })
+    .register(TransferNotFoundException, {
+        status: 404,
+        code: 'TRANSFER_NOT_FOUND',
+        describe: (error) => ({
+            message: 'Transfer not found',
+            details: {
+                transferId: error.transferId.toString(),
+            },
+        }),
+    })
+
+    // ===== ビジネスルール違反 =====
+
+    .register(InsufficientBalanceException, {
+        status: 400,
+        code: 'INSUFFICIENT_BALANCE',
+        describe: (error) => ({
+            message: 'Money transfer failed - insufficient balance',
+            details: {
+                accountId: error.accountId.getValue().toString(),
+                attemptedAmount: error.attemptedAmount.toDecimalString(),
+                currentBalance: error.currentBalance.toDecimalString(),
+                availableBalance: error.availableBalance.toDecimalString(),
+                overdraftLimit: error.overdraftLimit.toDecimalString(),
+                currency: error.currentBalance.getCurrency().code,
+            },
+        }),
+    })
+    .register(ThresholdExceededException, {
+        status: 400,
+        code: 'THRESHOLD_EXCEEDED',
+        describe: (error) => ({
+            message: 'Maximum threshold for money transfer exceeded',
+            details: {
+                threshold: error.threshold.toDecimalString(),
+                attempted: error.actual.toDecimalString(),
+                currency: error.threshold.getCurrency().code,
+            },
+        }),
+    })
+    .register(CumulativeLimitExceededException, {
+        status: 400,
+        code: 'CUMULATIVE_LIMIT_EXCEEDED',
+        describe: (error) => ({
+            message: `${error.period === 'DAILY' ? 'Daily' : 'Monthly'} transfer limit exceeded`,
+            details: {
+                accountId: error.accountId.getValue().toString(),
+                period: error.period,
+                windowDays: error.windowDays,
+                limit: error.limit.toDecimalString(),
+                used: error.used.toDecimalString(),
+                remaining: error.remaining.toDecimalString(),
+                currency: error.limit.getCurrency().code,
+            },
+        }),
+    })
+    .register(SameAccountTransferException, {
+        status: 400,
+        code: 'SAME_ACCOUNT_TRANSFER',
+        describe: (error) => ({
+            message: 'Cannot transfer money to the same account',
+            details: {
+                accountId: error.accountId.getValue().toString(),
+            },
+        }),
+    })
+    .register(CurrencyMismatchException, {
+        status: 400,
+        code: 'CURRENCY_MISMATCH',
+        describe: (error) => ({
+            message: 'Money transfer failed - currency does not match the account currency',
+            details: {
+                expected: error.expected.code,
+                actual: error.actual.code,
+            },
+        }),
+    })
+    .register(AccountNotActiveException, {
+        status: 400,
+        code: 'ACCOUNT_NOT_ACTIVE',
+        describe: (error) => ({
+            message: 'Money transfer failed - account is not active',
+            details: {
+                accountId: error.accountId.getValue().toString(),
+                status: error.status,
+            },
+        }),
+    })
+    .register(ExecutionTimeNotInFutureException, {
+        status: 400,
+        code: 'EXECUTION_TIME_NOT_IN_FUTURE',
+        describe: (error) => ({
+            message: 'Scheduled transfer failed - execution time must be in the future',
+            details: {
+                executeAt: error.executeAt.toISOString(),
+                now: error.now.toISOString(),
+            },
+        }),
+    })
+    .register(QuoteNotAllowedForScheduledTransferException, {
+        status: 400,
+        code: 'QUOTE_NOT_ALLOWED_FOR_SCHEDULED_TRANSFER',
+        describe: (error) => ({
+            message: 'Scheduled transfer failed - exchange rate quotes cannot be used for scheduled transfers',
+            details: {
+                quoteId: error.quoteId,
+            },
+        }),
+    })
+    .register(RemittanceNotAllowedForScheduledTransferException, {
+        status: 400,
+        code: 'REMITTANCE_NOT_ALLOWED_FOR_SCHEDULED_TRANSFER',
+        describe: () => ({
+            message: 'Scheduled transfer failed - reference and memo cannot be used for scheduled transfers',
+        }),
+    })
+    .register(InvalidStandingOrderScheduleException, {
+        status: 400,
+        code: 'INVALID_STANDING_ORDER_SCHEDULE',
+        describe: (error) => ({
+            message: 'Standing order failed - invalid schedule',
+            details: {
+                schedule: error.schedule,
+                reason: error.reason,
+            },
+        }),
+    })
+    .register(InvalidTransferReversalException, {
+        status: 400,
+        code: 'INVALID_TRANSFER_REVERSAL',
+        describe: (error) => ({
+            message: 'Transfer reversal failed - activities do not form a reversible transfer',
+            details: {
+                transferId: error.transferId.toString(),
+                reason: error.reason,
+            },
+        }),
+    })
+
+    // ===== 状態の競合 =====
+
+    .register(InvalidAccountStatusTransitionException, {
+        status: 409,
+        code: 'INVALID_ACCOUNT_STATUS_TRANSITION',
+        describe: (error) => ({
+            message: `Account cannot be ${STATUS_TRANSITION_VERBS[error.requestedStatus]} in its current status`,
+            details: {
+                accountId: error.accountId?.toString(),
+                currentStatus: error.currentStatus,
+                requestedStatus: error.requestedStatus,
+            },
+        }),
+    })
+    .register(InvalidScheduledTransferStatusTransitionException, {
+        status: 409,
+        code: 'INVALID_SCHEDULED_TRANSFER_STATUS_TRANSITION',
+        describe: (error) => ({
+            message: `Scheduled transfer cannot be changed to ${error.requestedStatus} in its current status`,
+            details: {
+                scheduledTransferId: error.scheduledTransferId,
+                currentStatus: error.currentStatus,
+                requestedStatus: error.requestedStatus,
+            },
+        }),
+    })
+    .register(InvalidStandingOrderStatusTransitionException, {
+        status: 409,
+        code: 'INVALID_STANDING_ORDER_STATUS_TRANSITION',
+        describe: (error) => ({
+            message: `Standing order cannot be changed to ${error.requestedStatus} in its current status`,
+            details: {
+                standingOrderId: error.standingOrderId,
+                currentStatus: error.currentStatus,
+                requestedStatus: error.requestedStatus,
+            },
+        }),
+    })
+    .register(TransferAlreadyReversedException, {
+        status: 409,
+        code: 'TRANSFER_ALREADY_REVERSED',
+        describe: (error) => ({
+            message: 'Transfer has already been reversed',
+            details: {
+                transferId: error.transferId.toString(),
+            },
+        }),
+    })
+    .register(IdempotencyKeyReusedException, {
+        status: 422,
+        code: 'IDEMPOTENCY_KEY_REUSED',
+        describe: (error) => ({
+            message: 'Idempotency key has already been used with a different request',
+            details: {
+                idempotencyKey: error.key,
+            },
+        }),
+    })
+    .register(InvalidExchangeRateQuoteException, {
+        status: 422,
+        code: 'INVALID_EXCHANGE_RATE_QUOTE',
+        describe: (error) => ({
+            message: 'Exchange rate quote cannot be used, please request a new quote',
+            details: {
+                quoteId: error.quoteId,
+                reason: error.reason,
+            },
+        }),
+    })
+    .register(IdempotencyKeyInProgressException, {
+        status: 409,
+        code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        describe: (error) => ({
+            message: 'A request with this idempotency key is still being processed',
+            details: {
+                idempotencyKey: error.key,
+            },
+        }),
+    })
+
+    // ===== 一時的なエラー =====
+
+    // 再試行すれば成功しうるため 503 を返す（冪等性キーにも保存されない）
+    .register(AccountLockTimeoutException, {
+        status: 503,
+        code: 'ACCOUNT_LOCK_TIMEOUT',
+        describe: (error) => ({
+            message: 'Account is busy with another operation, please retry',
+            details: {
+                accountId: error.accountId.getValue().toString(),
+                timeoutMs: error.timeoutMs,
+            },
+        }),
+    })
+    .register(ExchangeRateUnavailableException, {
+        status: 503,
+        code: 'EXCHANGE_RATE_UNAVAILABLE',
+        describe: (error) => ({
+            message: 'Exchange rate is currently unavailable, please retry',
+            details: {
+                from: error.from.code,
+                to: error.to.code,
+            },
+        }),
+    });
@@ -0,0 +1,69 @@
+import type {Context, ErrorHandler} from 'hono';
+import {HTTPException} from 'hono/http-exception';
+import {domainErrorMappings} from './domainErrorMappings';
+import type {HttpError} from './HttpErrorMappingRegistry';
+import {acceptsProblemJson, PROBLEM_JSON_MEDIA_TYPE, toProblemDetails} from './ProblemDetails';
+
+/**
+ * 例外をHTTPエラーに変換する
+ *
+ * 対応表（domainErrorMappings）に登録されていない例外は、
+ * 予期しないエラー（インフラエラー、バグ等）として 500 INTERNAL_ERROR にする
+ */
+export function toHttpError(error: unknown): HttpError {
+    const mapped = domainErrorMappings.resolve(error);
+    if (mapped) {
+        return mapped;
+    }
+
+    console.error('Unexpected error:', error);
+
+    return {
+        status: 500,
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+}
+
+/**
+ * HTTPエラーをレスポンスに変換する
+ *
+ * - Accept: application/problem+json → RFC 7807 の Problem Details
+ * - それ以外 → 従来の { success: false, message, error: { code, details } } 形式
+ */
+export function renderHttpError(c: Context, error: HttpError): Response {
+    if (acceptsProblemJson(c.req.header('Accept'))) {
+        return c.body(
+            JSON.stringify(toProblemDetails(error, c.req.path)),
+            error.status,
+            {'Content-Type': PROBLEM_JSON_MEDIA_TYPE}
+        );
+    }
+
+    return c.json(
+        {
+            success: false,
+            message: error.message,
+            error: {
+                code: error.code,
+                details: error.details,
+            },
+        },
+        error.status
+    );
+}
+
+/**
+ * アプリケーション全体のエラーハンドラー（app.onError に登録する）
+ *
+ * ルートのハンドラーはドメイン例外をそのまま投げればよく、
+ * 個別に try/catch で変換する必要はない
+ */
+export const errorHandler: ErrorHandler = (error, c) => {
+    // Hono 自身が投げる HTTPException（不正なJSONボディ等）は、そのレスポンスを使う
+    if (error instanceof HTTPException) {
+        return error.getResponse();
+    }
+
+    return renderHttpError(c, toHttpError(error));
+};
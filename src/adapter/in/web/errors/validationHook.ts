@@ -0,0 +1,41 @@
+import type {Context} from 'hono';
+import type {z} from 'zod';
+import {renderHttpError} from './errorHandler';
+
+/**
+ * zValidator のバリデーション失敗時のフック
+ *
+ * zod のエラーをそのまま返すのではなく、他のエラーと同じ形式
+ * （400 VALIDATION_ERROR、Accept に応じて problem+json）で返す
+ *
+ * 使い方: zValidator('json', Schema, validationHook)
+ */
+export function validationHook(
+    result: { success: true } | { success: false; error: z.core.$ZodError },
+    c: Context
+): Response | undefined {
+    if (result.success) {
+        return undefined;
+    }
+
+    return renderValidationError(c, result.error);
+}
+
+/**
+ * zod のバリデーションエラーを 400 VALIDATION_ERROR として返す
+ *
+ * zValidator を使わずに検証するルート（省略可能なボディなど）でも同じ形式にするために使う
+ */
+export function renderValidationError(c: Context, error: z.core.$ZodError): Response {
+    return renderHttpError(c, {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: {
+            errors: error.issues.map((issue) => ({
+                path: issue.path,
+                message: issue.message,
+            })),
+        },
+    });
+}
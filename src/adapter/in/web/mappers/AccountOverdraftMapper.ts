@@ -0,0 +1,40 @@
+import { Money } from '../../../../application/domain/model/Money';
+import type { AccountOverdraftView } from '../../../../application/port/in/AccountOverdraftView';
+import type { AccountOverdraftWebResponse } from '../models/AccountOverdraftWebResponse';
+import type { ChangeOverdraftLimitWebRequest } from '../models/ChangeOverdraftLimitWebRequest';
+import { toCurrency, toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 当座貸越の限度額の変更をWeb層とアプリケーション層の間で変換するマッパー
+ *
+ * 責務：
+ * - Webリクエストの金額（10進数の文字列）をMoneyに変換
+ * - アプリケーション層の読み取りモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * リクエストの限度額をMoneyに変換
+ *
+ * 小数点以下の桁数はスキーマで検証済み
+ */
+export function toOverdraftLimit(request: ChangeOverdraftLimitWebRequest): Money {
+  return Money.parse(request.overdraftLimit, toCurrency(request.currency));
+}
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toAccountOverdraftResponse(view: AccountOverdraftView): AccountOverdraftWebResponse {
+  return {
+    success: true,
+    message: 'Overdraft limit changed successfully',
+    data: {
+      accountId: view.accountId.toString(),
+      currency: toCurrencyCode(view.overdraftLimit.getCurrency()),
+      overdraftLimit: view.overdraftLimit.toDecimalString(),
+      overdraftUsage: view.overdraftUsage.toDecimalString(),
+      balance: view.balance.toDecimalString(),
+      availableBalance: view.availableBalance.toDecimalString(),
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { AccountStatusView } from '../../../../application/port/in/AccountStatusView';
+import type { AccountStatusWebResponse } from '../models/AccountStatusWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * アカウントのライフサイクル操作の結果をWebレスポンスに変換するマッパー
+ *
+ * 責務：
+ * - アプリケーション層の読み取りモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toAccountStatusResponse(
+    message: string,
+    view: AccountStatusView
+): AccountStatusWebResponse {
+  return {
+    success: true,
+    message,
+    data: {
+      accountId: view.accountId.toString(),
+      status: view.status,
+      currency: toCurrencyCode(view.currency),
+    },
+  };
+}
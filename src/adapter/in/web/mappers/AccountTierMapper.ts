@@ -0,0 +1,28 @@
+import type { AccountTierView } from '../../../../application/port/in/AccountTierView';
+import type { AccountTierWebResponse } from '../models/AccountTierWebResponse';
+import { toTransferLimitsWebModel } from './TransferLimitsMapper';
+
+/**
+ * アカウントの区分の照会・変更の結果をWebレスポンスに変換するマッパー
+ *
+ * 責務：
+ * - アプリケーション層の読み取りモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toAccountTierResponse(
+    message: string,
+    view: AccountTierView
+): AccountTierWebResponse {
+  return {
+    success: true,
+    message,
+    data: {
+      accountId: view.accountId.toString(),
+      tier: view.tier,
+      limits: toTransferLimitsWebModel(view.limits),
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { ActivityId } from '../../../../application/domain/model/Activity';
+import type { ActivityCursor } from '../../../../application/port/out/LoadActivitiesPort';
+
+/**
+ * ページングカーソルとWeb用の不透明な文字列を相互変換する
+ *
+ * クライアントにはカーソルの中身（timestamp と id）を意識させず、
+ * レスポンスの nextCursor をそのまま次のリクエストに渡してもらう
+ */
+
+/**
+ * カーソルを base64url 文字列にエンコード
+ */
+export function encodeActivityCursor(cursor: ActivityCursor): string {
+  const json = JSON.stringify({
+    t: cursor.timestamp.toISOString(),
+    id: cursor.activityId.toString(),
+  });
+
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * base64url 文字列をカーソルにデコード
+ *
+ * @returns 不正な文字列の場合は null
+ */
+export function decodeActivityCursor(value: string): ActivityCursor | null {
+  try {
+    const json = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const parsed = JSON.parse(json) as { t?: unknown; id?: unknown };
+
+    if (typeof parsed.t !== 'string' || typeof parsed.id !== 'string' || !/^\d+$/.test(parsed.id)) {
+      return null;
+    }
+
+    const timestamp = new Date(parsed.t);
+    if (Number.isNaN(timestamp.getTime())) {
+      return null;
+    }
+
+    return { timestamp, activityId: new ActivityId(BigInt(parsed.id)) };
+  } catch {
+    return null;
+  }
+}
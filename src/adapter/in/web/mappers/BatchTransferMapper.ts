@@ -0,0 +1,111 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { BatchSendMoneyCommand } from '../../../../application/port/in/BatchSendMoneyCommand';
+import type { BatchTransferItemResult, BatchTransferResult } from '../../../../application/port/in/BatchTransferResult';
+import { toHttpError } from '../errors/errorHandler';
+import type { HttpError } from '../errors/HttpErrorMappingRegistry';
+import type { BatchTransferWebRequest } from '../models/BatchTransferWebRequest';
+import type { BatchTransferItemWebModel, BatchTransferWebResponse } from '../models/BatchTransferWebResponse';
+import type { SendMoneyWebRequest } from '../models/SendMoneyWebRequest';
+import { toCommand, toSentTransfer } from './SendMoneyMapper';
+
+/**
+ * 一括送金APIのWeb層とアプリケーション層の間でモデルを変換するマッパー
+ */
+
+/**
+ * Webリクエストを一括送金コマンドに変換
+ *
+ * 送金1件ごとの変換は送金APIと同じ（SendMoneyMapper.toCommand）
+ * 変換に必要な検証は BatchTransferItemWebRequestSchema で済んでいるため、変換では例外が投げられない
+ * （ビジネスルールで送金できない送金は、例外ではなく送金ごとの結果になる）
+ */
+export function toBatchSendMoneyCommand(request: BatchTransferWebRequest): BatchSendMoneyCommand {
+  return new BatchSendMoneyCommand(request.items.map(toCommand), request.mode);
+}
+
+/**
+ * 一括送金のレスポンス（ステータスコード + レスポンスボディ）
+ */
+export interface BatchTransferHttpResponse {
+  statusCode: ContentfulStatusCode;
+  body: BatchTransferWebResponse;
+}
+
+/**
+ * 一括送金の結果をレスポンスに変換
+ *
+ * - すべての送金を実行した: 200（success = true）
+ * - ALL_OR_NOTHING で送金できない送金があった: 何も送金していないので、エラー（BATCH_TRANSFER_REJECTED）も返す（422）
+ *   ただし、一時的な理由（ロックのタイムアウト・為替レートの取得失敗など 5xx のエラー）で送金できなかった送金があれば、
+ *   そのエラーのステータスとコードを返す（一括送金の内容は正しいので、クライアントには再試行してもらう）
+ * - BEST_EFFORT で送金できない送金があった: 207（success = false。実行した送金は items で分かる）
+ */
+export function toBatchTransferResponse(
+    request: BatchTransferWebRequest,
+    result: BatchTransferResult
+): BatchTransferHttpResponse {
+  // 送金できなかった理由は、送金APIと同じ対応表（domainErrorMappings）でHTTPエラーに変換する
+  const errors = result.items.map((item) => (item.status === 'FAILED' ? toHttpError(item.error) : null));
+  const items = result.items.map((item, index) => toBatchTransferItem(request.items[index], item, errors[index], index));
+  const succeeded = items.filter((item) => item.status === 'SUCCEEDED').length;
+  const failed = items.filter((item) => item.status === 'FAILED').length;
+  const data = { mode: result.mode, succeeded, failed, items };
+
+  if (failed === 0) {
+    return { statusCode: 200, body: { success: true, message: 'Batch transfer completed successfully', data } };
+  }
+
+  if (result.mode === 'BEST_EFFORT') {
+    return { statusCode: 207, body: { success: false, message: 'Batch transfer partially completed', data } };
+  }
+
+  const failedIndexes = items.filter((item) => item.status === 'FAILED').map((item) => item.index);
+  const serverError = errors.find((error) => error !== null && error.status >= 500);
+  if (serverError) {
+    return {
+      statusCode: serverError.status,
+      body: {
+        success: false,
+        message: 'Batch transfer failed - no transfers were executed (temporary error, please retry)',
+        data,
+        error: { code: serverError.code, details: { failedIndexes } },
+      },
+    };
+  }
+
+  return {
+    statusCode: 422,
+    body: {
+      success: false,
+      message: 'Batch transfer rejected - no transfers were executed',
+      data,
+      error: { code: 'BATCH_TRANSFER_REJECTED', details: { failedIndexes } },
+    },
+  };
+}
+
+/**
+ * 送金1件分の結果をWebモデルに変換
+ *
+ * @param error 送金できなかった理由のHTTPエラー（FAILED 以外は null）
+ */
+function toBatchTransferItem(
+    request: SendMoneyWebRequest | undefined,
+    item: BatchTransferItemResult,
+    error: HttpError | null,
+    index: number
+): BatchTransferItemWebModel {
+  switch (item.status) {
+    case 'SUCCEEDED':
+      if (!request) {
+        throw new Error(`Batch transfer request item ${index.toString()} is missing`);
+      }
+      return { index, status: item.status, transfer: toSentTransfer(request, item.transfer) };
+    case 'FAILED': {
+      const { code, message, details } = error ?? toHttpError(item.error);
+      return { index, status: item.status, error: { code, message, details } };
+    }
+    case 'NOT_EXECUTED':
+      return { index, status: item.status };
+  }
+}
@@ -0,0 +1,23 @@
+import { Currency } from '../../../../application/domain/model/Currency';
+import type { CurrencyCode } from '../models/CurrencyCode';
+import { CurrencyCodeSchema } from '../models/CurrencyCode';
+
+/**
+ * Web層の通貨コードとドメインの Currency を相互に変換するマッパー
+ */
+
+/**
+ * 通貨コードを Currency に変換
+ */
+export function toCurrency(code: CurrencyCode): Currency {
+  return Currency.of(code);
+}
+
+/**
+ * Currency をWeb層の通貨コードに変換
+ *
+ * @throws Error Web層で受け付けていない通貨の場合（CurrencyCodeSchema の更新漏れ）
+ */
+export function toCurrencyCode(currency: Currency): CurrencyCode {
+  return CurrencyCodeSchema.parse(currency.code);
+}
@@ -0,0 +1,24 @@
+import type { ExchangeRateQuote } from '../../../../application/domain/model/ExchangeRateQuote';
+import type { ExchangeRateQuoteWebResponse } from '../models/ExchangeRateQuoteWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 為替見積もりをWebレスポンスに変換するマッパー
+ */
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toExchangeRateQuoteResponse(quote: ExchangeRateQuote): ExchangeRateQuoteWebResponse {
+  return {
+    success: true,
+    message: 'Exchange rate quote created successfully',
+    data: {
+      quoteId: quote.id,
+      from: toCurrencyCode(quote.rate.from),
+      to: toCurrencyCode(quote.rate.to),
+      rate: quote.rate.toString(),
+      expiresAt: quote.expiresAt.toISOString(),
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { ActivityDirection } from '../../../../application/domain/model/Activity';
+import { AccountId } from '../../../../application/domain/model/Activity';
+import type { CurrencyConversion } from '../../../../application/domain/model/CurrencyConversion';
+import type {
+  AccountActivitiesPage,
+  AccountActivitiesRequest,
+} from '../../../../application/port/in/GetAccountActivitiesQuery';
+import type { GetAccountActivitiesWebRequest } from '../models/GetAccountActivitiesWebRequest';
+import type { ActivityWebModel, GetAccountActivitiesWebResponse } from '../models/GetAccountActivitiesWebResponse';
+import { decodeActivityCursor, encodeActivityCursor } from './ActivityCursorCodec';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * アクティビティ履歴APIのWeb層とアプリケーション層の間でモデルを変換するマッパー
+ */
+
+/**
+ * パスパラメータとクエリパラメータを照会条件に変換
+ */
+export function toActivitiesRequest(
+    accountId: string,
+    query: GetAccountActivitiesWebRequest
+): AccountActivitiesRequest {
+  return {
+    accountId: new AccountId(BigInt(accountId)),
+    from: query.from ? new Date(query.from) : undefined,
+    to: query.to ? new Date(query.to) : undefined,
+    directions: query.direction
+        ? (query.direction.split(',') as ActivityDirection[])
+        : undefined,
+    cursor: query.cursor ? decodeActivityCursor(query.cursor) ?? undefined : undefined,
+    limit: query.limit,
+  };
+}
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toActivitiesResponse(page: AccountActivitiesPage): GetAccountActivitiesWebResponse {
+  return {
+    success: true,
+    message: 'Account activities retrieved successfully',
+    data: {
+      accountId: page.accountId.toString(),
+      activities: page.entries.map(({ activity, direction }) => ({
+        id: activity.getId()?.toString() ?? '',
+        timestamp: activity.getTimestamp().toISOString(),
+        direction,
+        sourceAccountId: activity.getSourceAccountId()?.toString() ?? null,
+        targetAccountId: activity.getTargetAccountId()?.toString() ?? null,
+        amount: activity.getMoney().toDecimalString(),
+        currency: toCurrencyCode(activity.getMoney().getCurrency()),
+        exchange: toExchange(activity.getConversion()),
+        reversalOf: activity.getReversalOf()?.toString() ?? null,
+        transferId: activity.getTransferId()?.toString() ?? null,
+        reference: activity.getRemittance()?.reference ?? null,
+        memo: activity.getRemittance()?.memo ?? null,
+      })),
+      nextCursor: page.nextCursor ? encodeActivityCursor(page.nextCursor) : null,
+    },
+  };
+}
+
+/**
+ * 換算をレスポンスの exchange に変換（換算なしの場合は null）
+ */
+function toExchange(conversion: CurrencyConversion | null): ActivityWebModel['exchange'] {
+  if (!conversion) {
+    return null;
+  }
+
+  return {
+    rate: conversion.rate.toString(),
+    sourceAmount: conversion.sourceMoney.toDecimalString(),
+    sourceCurrency: toCurrencyCode(conversion.sourceMoney.getCurrency()),
+    targetAmount: conversion.targetMoney.toDecimalString(),
+    targetCurrency: toCurrencyCode(conversion.targetMoney.getCurrency()),
+  };
+}
@@ -0,0 +1,31 @@
+import type { AccountBalance } from '../../../../application/port/in/GetAccountBalanceQuery';
+import type { GetAccountBalanceWebResponse } from '../models/GetAccountBalanceWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 残高照会の結果をWebレスポンスに変換するマッパー
+ *
+ * 責務：
+ * - アプリケーション層の読み取りモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toBalanceResponse(accountBalance: AccountBalance): GetAccountBalanceWebResponse {
+  return {
+    success: true,
+    message: 'Account balance retrieved successfully',
+    data: {
+      accountId: accountBalance.accountId.toString(),
+      balance: accountBalance.balance.toDecimalString(),
+      overdraftLimit: accountBalance.overdraftLimit.toDecimalString(),
+      overdraftUsage: accountBalance.overdraftUsage.toDecimalString(),
+      availableBalance: accountBalance.availableBalance.toDecimalString(),
+      baselineBalance: accountBalance.baselineBalance.toDecimalString(),
+      currency: toCurrencyCode(accountBalance.balance.getCurrency()),
+      baselineDate: accountBalance.baselineDate.toISOString(),
+      asOf: accountBalance.asOf.toISOString(),
+    },
+  };
+}
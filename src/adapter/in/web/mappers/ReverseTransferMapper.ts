@@ -0,0 +1,44 @@
+import { TransferId } from '../../../../application/domain/model/Transfer';
+import type { TransferReversal } from '../../../../application/domain/model/TransferReversal';
+import { ReverseTransferCommand } from '../../../../application/port/in/ReverseTransferCommand';
+import type { ReverseTransferWebRequest } from '../models/ReverseTransferWebRequest';
+import type { ReverseTransferWebResponse } from '../models/ReverseTransferWebResponse';
+
+/**
+ * 送金の取り消しAPIのWeb層とアプリケーション層の間でモデルを変換するマッパー
+ */
+
+/**
+ * パスパラメータとリクエストを取り消しコマンドに変換
+ *
+ * @param force 送金先の残高をチェックせずに取り消すか（管理者向けのAPIだけが true にする）
+ */
+export function toReverseTransferCommand(
+    transferId: string,
+    request: ReverseTransferWebRequest,
+    force: boolean
+): ReverseTransferCommand {
+  return new ReverseTransferCommand(
+      new TransferId(transferId),
+      request.reason,
+      force
+  );
+}
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toReverseTransferResponse(reversal: TransferReversal): ReverseTransferWebResponse {
+  return {
+    success: true,
+    message: 'Transfer reversed successfully',
+    data: {
+      reversalId: reversal.id,
+      transferId: reversal.transferId.toString(),
+      originalActivityIds: reversal.originalActivityIds.map((activityId) => activityId.toString()),
+      reason: reversal.reason,
+      forced: reversal.forced,
+      reversedAt: reversal.reversedAt.toISOString(),
+    },
+  };
+}
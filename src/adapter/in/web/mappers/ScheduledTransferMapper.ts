@@ -0,0 +1,64 @@
+import type { AccountId } from '../../../../application/domain/model/Activity';
+import type { ScheduledTransfer } from '../../../../application/domain/model/ScheduledTransfer';
+import type {
+  ScheduledTransferWebModel,
+  ScheduledTransferWebResponse,
+  ScheduledTransfersWebResponse,
+} from '../models/ScheduledTransferWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 予約送金をWebレスポンスに変換するマッパー
+ *
+ * 責務：
+ * - ドメインモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * 予約送金をWebモデルに変換
+ */
+function toScheduledTransferWebModel(scheduledTransfer: ScheduledTransfer): ScheduledTransferWebModel {
+  return {
+    scheduledTransferId: scheduledTransfer.id,
+    sourceAccountId: scheduledTransfer.sourceAccountId.toString(),
+    targetAccountId: scheduledTransfer.targetAccountId.toString(),
+    amount: scheduledTransfer.money.toDecimalString(),
+    currency: toCurrencyCode(scheduledTransfer.money.getCurrency()),
+    executeAt: scheduledTransfer.executeAt.toISOString(),
+    createdAt: scheduledTransfer.createdAt.toISOString(),
+    status: scheduledTransfer.getStatus(),
+    completedAt: scheduledTransfer.getCompletedAt()?.toISOString() ?? null,
+    failure: scheduledTransfer.getFailure(),
+  };
+}
+
+/**
+ * 予約送金1件の成功レスポンスを作成
+ */
+export function toScheduledTransferResponse(
+    message: string,
+    scheduledTransfer: ScheduledTransfer
+): ScheduledTransferWebResponse {
+  return {
+    success: true,
+    message,
+    data: toScheduledTransferWebModel(scheduledTransfer),
+  };
+}
+
+/**
+ * アカウントの予約送金一覧の成功レスポンスを作成
+ */
+export function toScheduledTransfersResponse(
+    accountId: AccountId,
+    scheduledTransfers: ScheduledTransfer[]
+): ScheduledTransfersWebResponse {
+  return {
+    success: true,
+    message: 'Scheduled transfers retrieved successfully',
+    data: {
+      accountId: accountId.toString(),
+      scheduledTransfers: scheduledTransfers.map(toScheduledTransferWebModel),
+    },
+  };
+}
@@ -1,8 +1,13 @@
 import { AccountId } from '../../../../application/domain/model/Activity';
 import { Money } from '../../../../application/domain/model/Money';
+import { RemittanceInformation } from '../../../../application/domain/model/RemittanceInformation';
+import type { Transfer } from '../../../../application/domain/model/Transfer';
+import type { TransferBreakdown } from '../../../../application/domain/service/SendMoneyDomainService';
 import { SendMoneyCommand } from '../../../../application/port/in/SendMoneyCommand';
+import type { QuoteTransferWebResponse } from '../models/QuoteTransferWebResponse';
 import type { SendMoneyWebRequest } from '../models/SendMoneyWebRequest';
-import type { SendMoneyWebResponse } from '../models/SendMoneyWebResponse';
+import type { SendMoneyWebResponse, SentTransferWebModel, TransferBreakdownWebModel } from '../models/SendMoneyWebResponse';
+import { toCurrency, toCurrencyCode } from './CurrencyMapper';
 
 /**
  * Web層とアプリケーション層の間でモデルを変換するマッパー
@@ -20,28 +25,97 @@ import type { SendMoneyWebResponse } from '../models/SendMoneyWebResponse';
 export function toCommand(request: SendMoneyWebRequest): SendMoneyCommand {
     const sourceAccountId = new AccountId(BigInt(request.sourceAccountId));
     const targetAccountId = new AccountId(BigInt(request.targetAccountId));
-    const money = Money.of(BigInt(request.amount));
+    return new SendMoneyCommand(
+        sourceAccountId,
+        targetAccountId,
+        toMoney(request),
+        request.quoteId ?? null,
+        RemittanceInformation.of(request.reference ?? null, request.memo ?? null)
+    );
+}
+
+/**
+ * リクエストの金額（10進数の文字列）をMoneyに変換
+ *
+ * 小数点以下の桁数はスキーマで検証済み
+ */
+function toMoney(request: SendMoneyWebRequest): Money {
+    return Money.parse(request.amount, toCurrency(request.currency));
+}
+
+/**
+ * リクエスト内容のフィンガープリント（SHA-256の16進文字列）を作成
+ *
+ * 冪等性キーの再利用チェックに使用する。
+ * キーの順序に左右されないよう、フィールド名でソートしてからハッシュ化する。
+ */
+export async function toRequestFingerprint(request: SendMoneyWebRequest): Promise<string> {
+    const canonical = JSON.stringify(request, Object.keys(request).sort());
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(`POST /api/accounts/send\n${canonical}`)
+    );
 
-    return new SendMoneyCommand(sourceAccountId, targetAccountId, money);
+    return [...new Uint8Array(digest)]
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
 
+/**
+ * 送金の内訳をWebモデルに変換
+ */
+function toTransferBreakdown(
+    request: SendMoneyWebRequest,
+    breakdown: TransferBreakdown
+): TransferBreakdownWebModel {
+  return {
+    sourceAccountId: request.sourceAccountId,
+    targetAccountId: request.targetAccountId,
+    amount: breakdown.amount.toDecimalString(),
+    currency: request.currency,
+    fee: breakdown.fee.toDecimalString(),
+    totalDebit: breakdown.totalDebit.toDecimalString(),
+    depositedAmount: breakdown.depositedAmount.toDecimalString(),
+    depositedCurrency: toCurrencyCode(breakdown.depositedAmount.getCurrency()),
+  };
 }
 
 /**
- * 成功レスポンスを作成
+ * 成功レスポンスを作成（送金IDと、手数料を含む内訳を返す）
  */
 export function toSuccessResponse(
     request: SendMoneyWebRequest,
-    timestamp: Date = new Date()
+    transfer: Transfer
 ): SendMoneyWebResponse {
   return {
     success: true,
     message: 'Money transfer completed successfully',
-    data: {
-      sourceAccountId: request.sourceAccountId,
-      targetAccountId: request.targetAccountId,
-      amount: request.amount,
-      timestamp: timestamp.toISOString(),
-    },
+    data: toSentTransfer(request, transfer),
+  };
+}
+
+/**
+ * 実行した送金（送金IDと、手数料を含む内訳）をWebモデルに変換
+ */
+export function toSentTransfer(request: SendMoneyWebRequest, transfer: Transfer): SentTransferWebModel {
+  return {
+    ...toTransferBreakdown(request, transfer),
+    transferId: transfer.id.toString(),
+    timestamp: transfer.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 見積もり（ドライラン）の成功レスポンスを作成
+ */
+export function toQuoteResponse(
+    request: SendMoneyWebRequest,
+    breakdown: TransferBreakdown
+): QuoteTransferWebResponse {
+  return {
+    success: true,
+    message: 'Transfer quote calculated successfully',
+    data: toTransferBreakdown(request, breakdown),
   };
 }
 
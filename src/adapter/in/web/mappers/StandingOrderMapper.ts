@@ -0,0 +1,118 @@
+import type { AccountId } from '../../../../application/domain/model/Activity';
+import { CronSchedule } from '../../../../application/domain/model/CronSchedule';
+import { MonthlySchedule } from '../../../../application/domain/model/MonthlySchedule';
+import type { StandingOrder } from '../../../../application/domain/model/StandingOrder';
+import type { StandingOrderRun } from '../../../../application/domain/model/StandingOrderRun';
+import type { StandingOrderSchedule } from '../../../../application/domain/model/StandingOrderSchedule';
+import type { StandingOrderScheduleWebModel } from '../models/StandingOrderWebRequest';
+import type {
+  StandingOrderDetailWebResponse,
+  StandingOrderRunWebModel,
+  StandingOrderWebModel,
+  StandingOrderWebResponse,
+  StandingOrdersWebResponse,
+} from '../models/StandingOrderWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 定期送金のWebモデルとドメインモデルを変換するマッパー
+ *
+ * 責務：
+ * - リクエストのスケジュールをドメインのスケジュールに変換
+ * - ドメインモデルをプリミティブ型のみのレスポンスに変換
+ */
+
+/**
+ * リクエストのスケジュールをドメインのスケジュールに変換
+ *
+ * @throws InvalidStandingOrderScheduleException Cron 式や時刻が不正な場合
+ */
+export function toStandingOrderSchedule(schedule: StandingOrderScheduleWebModel): StandingOrderSchedule {
+  return schedule.type === 'CRON'
+    ? CronSchedule.parse(schedule.expression)
+    : MonthlySchedule.of(schedule.dayOfMonth, schedule.time);
+}
+
+/**
+ * 定期送金をWebモデルに変換
+ */
+function toStandingOrderWebModel(standingOrder: StandingOrder): StandingOrderWebModel {
+  const { schedule } = standingOrder;
+
+  return {
+    standingOrderId: standingOrder.id,
+    sourceAccountId: standingOrder.sourceAccountId.toString(),
+    targetAccountId: standingOrder.targetAccountId.toString(),
+    amount: standingOrder.money.toDecimalString(),
+    currency: toCurrencyCode(standingOrder.money.getCurrency()),
+    schedule: schedule.type === 'CRON'
+      ? { type: 'CRON', expression: schedule.expression }
+      : { type: 'MONTHLY', dayOfMonth: schedule.dayOfMonth, time: schedule.timeOfDay() },
+    createdAt: standingOrder.createdAt.toISOString(),
+    status: standingOrder.getStatus(),
+    occurrenceAt: standingOrder.getOccurrenceAt().toISOString(),
+    nextRunAt: standingOrder.getNextRunAt().toISOString(),
+    retryCount: standingOrder.getRetryCount(),
+    consecutiveFailures: standingOrder.getConsecutiveFailures(),
+    pauseReason: standingOrder.getPauseReason(),
+  };
+}
+
+/**
+ * 実行記録をWebモデルに変換
+ */
+function toStandingOrderRunWebModel(run: StandingOrderRun): StandingOrderRunWebModel {
+  return {
+    runId: run.id,
+    occurrenceAt: run.occurrenceAt.toISOString(),
+    executedAt: run.executedAt.toISOString(),
+    attempt: run.attempt,
+    outcome: run.outcome,
+    failure: run.failure,
+  };
+}
+
+/**
+ * 定期送金1件の成功レスポンスを作成
+ */
+export function toStandingOrderResponse(message: string, standingOrder: StandingOrder): StandingOrderWebResponse {
+  return {
+    success: true,
+    message,
+    data: toStandingOrderWebModel(standingOrder),
+  };
+}
+
+/**
+ * 定期送金の照会（直近の実行記録付き）の成功レスポンスを作成
+ */
+export function toStandingOrderDetailResponse(
+    standingOrder: StandingOrder,
+    recentRuns: StandingOrderRun[]
+): StandingOrderDetailWebResponse {
+  return {
+    success: true,
+    message: 'Standing order retrieved successfully',
+    data: {
+      ...toStandingOrderWebModel(standingOrder),
+      recentRuns: recentRuns.map(toStandingOrderRunWebModel),
+    },
+  };
+}
+
+/**
+ * アカウントの定期送金一覧の成功レスポンスを作成
+ */
+export function toStandingOrdersResponse(
+    accountId: AccountId,
+    standingOrders: StandingOrder[]
+): StandingOrdersWebResponse {
+  return {
+    success: true,
+    message: 'Standing orders retrieved successfully',
+    data: {
+      accountId: accountId.toString(),
+      standingOrders: standingOrders.map(toStandingOrderWebModel),
+    },
+  };
+}
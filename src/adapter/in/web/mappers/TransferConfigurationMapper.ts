@@ -0,0 +1,32 @@
+import { ACCOUNT_TIERS } from '../../../../application/domain/model/AccountTier';
+import type { TransferConfiguration } from '../../../../application/port/in/GetTransferConfigurationQuery';
+import type { TransferConfigurationWebResponse } from '../models/TransferConfigurationWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+import { toTransferLimitsWebModel } from './TransferLimitsMapper';
+
+/**
+ * 送金設定をWebレスポンスに変換するマッパー
+ */
+
+/**
+ * 成功レスポンスを作成（区分は BASIC → VERIFIED → BUSINESS の順に並べる）
+ */
+export function toTransferConfigurationResponse(
+    configuration: TransferConfiguration
+): TransferConfigurationWebResponse {
+  return {
+    success: true,
+    message: 'Transfer configuration retrieved successfully',
+    data: {
+      baseCurrency: toCurrencyCode(configuration.baseCurrency),
+      tiers: ACCOUNT_TIERS.map((tier) => ({
+        tier,
+        ...toTransferLimitsWebModel(configuration.limitsByTier[tier]),
+      })),
+      fee: {
+        charged: configuration.feeCharged,
+        revenueAccountId: configuration.feeRevenueAccountId?.toString() ?? null,
+      },
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { TransferLimits } from '../../../../application/domain/model/TransferLimits';
+import type { TransferLimitsWebModel } from '../models/TransferLimitsWebModel';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 送金限度額をWebモデルに変換する
+ */
+export function toTransferLimitsWebModel(limits: TransferLimits): TransferLimitsWebModel {
+  return {
+    currency: toCurrencyCode(limits.baseCurrency),
+    maximumTransferAmount: limits.maximumTransferThreshold.toDecimalString(),
+    cumulativeLimits: limits.cumulativeLimits.map(({ period, windowDays, limit }) => ({
+      period,
+      windowDays,
+      limit: limit.toDecimalString(),
+    })),
+  };
+}
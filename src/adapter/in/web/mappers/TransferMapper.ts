@@ -0,0 +1,45 @@
+import type { Activity } from '../../../../application/domain/model/Activity';
+import type { TransferView } from '../../../../application/port/in/TransferView';
+import type { TransferWebModel, TransferWebResponse } from '../models/TransferWebResponse';
+import { toCurrencyCode } from './CurrencyMapper';
+
+/**
+ * 送金の照会APIのWeb層とアプリケーション層の間でモデルを変換するマッパー
+ */
+
+/**
+ * 成功レスポンスを作成
+ */
+export function toTransferResponse({ transfer, activities }: TransferView): TransferWebResponse {
+  return {
+    success: true,
+    message: 'Transfer retrieved successfully',
+    data: {
+      transferId: transfer.id.toString(),
+      status: transfer.getStatus(),
+      sourceAccountId: transfer.sourceAccountId.toString(),
+      targetAccountId: transfer.targetAccountId.toString(),
+      amount: transfer.amount.toDecimalString(),
+      currency: toCurrencyCode(transfer.amount.getCurrency()),
+      fee: transfer.fee.toDecimalString(),
+      totalDebit: transfer.totalDebit.toDecimalString(),
+      depositedAmount: transfer.depositedAmount.toDecimalString(),
+      depositedCurrency: toCurrencyCode(transfer.depositedAmount.getCurrency()),
+      reference: transfer.reference,
+      createdAt: transfer.createdAt.toISOString(),
+      activities: activities.map(toTransferActivity),
+    },
+  };
+}
+
+function toTransferActivity(activity: Activity): TransferWebModel['activities'][number] {
+  return {
+    id: activity.getId()?.toString() ?? '',
+    ownerAccountId: activity.getOwnerAccountId().toString(),
+    sourceAccountId: activity.getSourceAccountId()?.toString() ?? null,
+    targetAccountId: activity.getTargetAccountId()?.toString() ?? null,
+    amount: activity.getMoney().toDecimalString(),
+    currency: toCurrencyCode(activity.getMoney().getCurrency()),
+    timestamp: activity.getTimestamp().toISOString(),
+  };
+}
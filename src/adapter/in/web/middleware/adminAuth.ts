@@ -0,0 +1,52 @@
+import type {MiddlewareHandler} from 'hono';
+import {timingSafeEqual} from 'hono/utils/buffer';
+import type {CloudflareBindings} from '../../../../types/bindings';
+import {renderHttpError} from '../errors/errorHandler';
+import type {ApiErrorSpec} from '../openapi/ApiRouteSpec';
+
+/**
+ * Authorization ヘッダーの Bearer トークンの接頭辞
+ */
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * 管理者向けAPIが返す認証エラー（各ルートの OpenAPI 定義の extraErrors に載せる）
+ */
+export const ADMIN_AUTH_ERRORS: readonly ApiErrorSpec[] = [
+    {status: 401, code: 'UNAUTHORIZED'},
+    {status: 403, code: 'FORBIDDEN'},
+];
+
+/**
+ * 管理者向けAPI（/api/admin/*）の認証ミドルウェア
+ *
+ * `Authorization: Bearer <ADMIN_API_TOKEN>` のリクエストだけを通す
+ * - Authorization ヘッダーがない・Bearer 形式でない → 401 UNAUTHORIZED
+ * - トークンが一致しない → 403 FORBIDDEN
+ * - ADMIN_API_TOKEN が設定されていない → 403 FORBIDDEN（設定し忘れで管理者向けAPIが誰にでも開放されないようにする）
+ *
+ * トークンの比較は、一致した文字数で応答時間が変わらないよう timingSafeEqual で行う
+ */
+export const adminAuth: MiddlewareHandler<{ Bindings: CloudflareBindings }> = async (c, next) => {
+    const authorization = c.req.header('Authorization');
+    if (!authorization?.startsWith(BEARER_PREFIX)) {
+        c.header('WWW-Authenticate', 'Bearer');
+        return renderHttpError(c, {
+            status: 401,
+            code: 'UNAUTHORIZED',
+            message: 'Admin API requires a bearer token',
+        });
+    }
+
+    const adminToken = c.env.ADMIN_API_TOKEN;
+    const token = authorization.slice(BEARER_PREFIX.length);
+    if (!adminToken || !await timingSafeEqual(token, adminToken)) {
+        return renderHttpError(c, {
+            status: 403,
+            code: 'FORBIDDEN',
+            message: 'Invalid admin token',
+        });
+    }
+
+    await next();
+};
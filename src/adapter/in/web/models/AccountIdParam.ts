@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * アカウントIDのパスパラメータ用バリデーションスキーマ
+ * （/accounts/:accountId/... 形式のルートで共通して使用する）
+ */
+export const AccountIdParamSchema = z.object({
+  accountId: z.string().regex(/^\d+$/, 'accountId must be a numeric string'),
+});
+
+export type AccountIdParam = z.infer<typeof AccountIdParamSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 当座貸越の限度額変更API（管理者向け）のWeb層専用レスポンスモデル
+ * 金額はbigintを安全に表現するため文字列で返す（すべてアカウントの通貨）
+ */
+export const AccountOverdraftWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    currency: CurrencyCodeSchema,
+    overdraftLimit: z.string(),
+    overdraftUsage: z.string().meta({ description: '当座貸越の利用額（残高がマイナスの分）' }),
+    balance: z.string(),
+    availableBalance: z.string().meta({ description: '引き出せる金額（残高 + 当座貸越の限度額）' }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type AccountOverdraftWebResponse = z.infer<typeof AccountOverdraftWebResponseSchema>;
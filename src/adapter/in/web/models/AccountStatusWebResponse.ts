@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * アカウントのライフサイクルAPI（開設・凍結・解約）のWeb層専用レスポンスモデル
+ */
+export const AccountStatusWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    status: z.enum(['ACTIVE', 'FROZEN', 'CLOSED']),
+    currency: CurrencyCodeSchema,
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type AccountStatusWebResponse = z.infer<typeof AccountStatusWebResponseSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { TransferLimitsWebModelSchema } from './TransferLimitsWebModel';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * アカウントの区分（送金限度額の区分）
+ */
+export const AccountTierSchema = z.enum(['BASIC', 'VERIFIED', 'BUSINESS']);
+
+/**
+ * アカウントの区分API（管理者向け）のWeb層専用レスポンスモデル
+ */
+export const AccountTierWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    tier: AccountTierSchema,
+    limits: TransferLimitsWebModelSchema,
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type AccountTierWebResponse = z.infer<typeof AccountTierWebResponseSchema>;
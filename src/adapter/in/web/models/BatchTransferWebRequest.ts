@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { SendMoneyWebRequest } from './SendMoneyWebRequest';
+import { checkAmountScale, remittanceRequestShape, transferRequestShape } from './SendMoneyWebRequest';
+
+/**
+ * 1回の一括送金に含められる送金の最大件数
+ */
+export const MAX_BATCH_TRANSFER_ITEMS = 100;
+
+/**
+ * 一括送金の実行方法
+ */
+export const BatchTransferModeSchema = z.enum(['ALL_OR_NOTHING', 'BEST_EFFORT']);
+
+/**
+ * 金額が0より大きいことを確認する
+ *
+ * 0 の金額は送金コマンドを作れない（変換で例外が投げられる）ため、スキーマで拒否する
+ * （1件の変換の失敗で、送金ごとの結果を返せずに一括送金全体が 500 にならないようにする）
+ */
+function checkPositiveAmount(request: { amount: string }, ctx: z.RefinementCtx): void {
+  if (!/[1-9]/.test(request.amount)) {
+    ctx.addIssue({ code: 'custom', path: ['amount'], message: 'amount must be greater than 0' });
+  }
+}
+
+/**
+ * 一括送金に含める送金1件分のバリデーションスキーマ
+ * （送金APIのリクエストから、予約送金の executeAt を除いたもの）
+ *
+ * 送金コマンドへの変換（SendMoneyMapper.toCommand）で例外が投げられないよう、変換に必要な検証はすべてここで行う
+ */
+export const BatchTransferItemWebRequestSchema = z.object({
+  ...transferRequestShape,
+  ...remittanceRequestShape,
+}).superRefine((request, ctx) => {
+  checkAmountScale(request, ctx);
+  checkPositiveAmount(request, ctx);
+});
+
+/**
+ * Web層専用のリクエストモデル
+ */
+export interface BatchTransferWebRequest {
+  mode: z.infer<typeof BatchTransferModeSchema>;
+  items: SendMoneyWebRequest[];
+}
+
+/**
+ * JSONボディ用のバリデーションスキーマ
+ */
+export const BatchTransferWebRequestSchema = z.object({
+  mode: BatchTransferModeSchema
+    .default('ALL_OR_NOTHING')
+    .meta({
+      description: 'ALL_OR_NOTHING: 1件でも送金できなければ何も送金しない（省略時） / '
+        + 'BEST_EFFORT: 送金できない送金を飛ばして、残りの送金を実行する',
+    }),
+  items: z.array(BatchTransferItemWebRequestSchema)
+    .min(1, 'items must not be empty')
+    .max(MAX_BATCH_TRANSFER_ITEMS, `items must contain at most ${MAX_BATCH_TRANSFER_ITEMS.toString()} transfers`)
+    .meta({ description: `送金（最大${MAX_BATCH_TRANSFER_ITEMS.toString()}件。この順番に実行する）` }),
+});
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { BatchTransferModeSchema } from './BatchTransferWebRequest';
+import { SentTransferWebModelSchema } from './SendMoneyWebResponse';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金1件分の結果
+ */
+export const BatchTransferItemStatusSchema = z.enum(['SUCCEEDED', 'FAILED', 'NOT_EXECUTED']);
+
+/**
+ * 送金1件分の結果のWeb層専用モデル
+ */
+export const BatchTransferItemWebModelSchema = z.object({
+  index: z.number().int().meta({ description: 'リクエストの items での位置（0 始まり）' }),
+  status: BatchTransferItemStatusSchema.meta({
+    description: 'SUCCEEDED: 送金した / FAILED: 送金できなかった / '
+      + 'NOT_EXECUTED: 送金できる内容だったが、ALL_OR_NOTHING で他の送金が失敗したため送金しなかった',
+  }),
+  transfer: SentTransferWebModelSchema.optional().meta({ description: '実行した送金（SUCCEEDED の場合）' }),
+  error: WebErrorSchema.extend({ message: z.string() })
+    .optional()
+    .meta({ description: '送金できなかった理由（FAILED の場合）。送金APIのエラーと同じコードと詳細' }),
+});
+
+export type BatchTransferItemWebModel = z.infer<typeof BatchTransferItemWebModelSchema>;
+
+/**
+ * 一括送金APIのWeb層専用レスポンスモデル
+ */
+export const BatchTransferWebResponseSchema = z.object({
+  success: z.boolean().meta({ description: 'すべての送金を実行した場合は true' }),
+  message: z.string(),
+  data: z.object({
+    mode: BatchTransferModeSchema,
+    succeeded: z.number().int().meta({ description: '実行した送金の件数' }),
+    failed: z.number().int().meta({ description: '送金できなかった送金の件数' }),
+    items: z.array(BatchTransferItemWebModelSchema),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type BatchTransferWebResponse = z.infer<typeof BatchTransferWebResponseSchema>;
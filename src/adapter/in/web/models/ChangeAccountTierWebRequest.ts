@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { AccountTierSchema } from './AccountTierWebResponse';
+
+/**
+ * アカウントの区分変更API（管理者向け）のWeb層専用リクエストモデル
+ */
+export const ChangeAccountTierWebRequestSchema = z.object({
+  tier: AccountTierSchema,
+});
+
+export type ChangeAccountTierWebRequest = z.infer<typeof ChangeAccountTierWebRequestSchema>;
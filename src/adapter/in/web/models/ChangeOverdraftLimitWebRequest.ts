@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { DecimalAmountSchema, hasValidScale, scaleErrorMessage } from './DecimalAmount';
+
+/**
+ * 当座貸越の限度額変更API（管理者向け）のWeb層専用リクエストモデル
+ *
+ * 限度額はアカウントの通貨で指定する（異なる通貨は 400 CURRENCY_MISMATCH）
+ */
+export const ChangeOverdraftLimitWebRequestSchema = z.object({
+  overdraftLimit: DecimalAmountSchema.meta({ description: '当座貸越の限度額（"0" で貸越なし）' }),
+  currency: CurrencyCodeSchema.default('JPY'),
+}).superRefine((request, ctx) => {
+  // 補助単位より細かい金額は丸めずにエラーにする
+  if (!hasValidScale(request.overdraftLimit, request.currency)) {
+    ctx.addIssue({ code: 'custom', path: ['overdraftLimit'], message: scaleErrorMessage(request.currency) });
+  }
+});
+
+export type ChangeOverdraftLimitWebRequest = z.infer<typeof ChangeOverdraftLimitWebRequestSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+
+/**
+ * アカウント開設APIのWeb層専用リクエストモデル
+ *
+ * ボディは省略可能（省略時は JPY のアカウントを開設する）
+ */
+export const CreateAccountWebRequestSchema = z.object({
+  currency: CurrencyCodeSchema.default('JPY'),
+});
+
+export type CreateAccountWebRequest = z.infer<typeof CreateAccountWebRequestSchema>;
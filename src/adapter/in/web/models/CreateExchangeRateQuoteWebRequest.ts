@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+
+/**
+ * 為替見積もりAPIのWeb層専用リクエストモデル
+ */
+export const CreateExchangeRateQuoteWebRequestSchema = z.object({
+  from: CurrencyCodeSchema.meta({ description: '換算元の通貨（送金元アカウントの通貨）' }),
+  to: CurrencyCodeSchema.meta({ description: '換算先の通貨（送金先アカウントの通貨）' }),
+});
+
+export type CreateExchangeRateQuoteWebRequest = z.infer<typeof CreateExchangeRateQuoteWebRequestSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+/**
+ * Web層で受け付ける通貨コード（ISO 4217）
+ * ドメインの Currency がサポートしている通貨と一致させること
+ */
+export const CurrencyCodeSchema = z
+  .enum(['JPY', 'USD', 'EUR', 'GBP'])
+  .meta({ description: 'ISO 4217 の通貨コード。金額は通貨の単位での10進数の文字列（USD の 12.34 ドルは "12.34"）で表す' });
+
+export type CurrencyCode = z.infer<typeof CurrencyCodeSchema>;
+
+/**
+ * 通貨ごとの補助単位の桁数（ドメインの Currency.minorUnits と一致させること）
+ *
+ * リクエストの金額の小数点以下の桁数をバリデーションで検証するために使う
+ */
+export const CURRENCY_MINOR_UNITS: Readonly<Record<CurrencyCode, number>> = {
+  JPY: 0,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+};
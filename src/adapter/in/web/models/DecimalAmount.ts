@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import type { CurrencyCode } from './CurrencyCode';
+import { CURRENCY_MINOR_UNITS } from './CurrencyCode';
+
+/**
+ * 金額（通貨の単位での10進数の文字列）のスキーマ
+ *
+ * 例: USD の 12.34 ドルは "12.34"、JPY の 1000円は "1000"
+ * 小数点以下の桁数の検証は通貨が決まってから行う（hasValidScale）
+ */
+export const DecimalAmountSchema = z
+  .string()
+  .regex(/^\d+(\.\d+)?$/, 'amount must be a positive decimal string')
+  .meta({ description: '通貨の単位での金額（例: USD の "12.34"）。小数点以下は通貨の補助単位の桁数まで' });
+
+/**
+ * 金額の小数点以下の桁数が通貨の補助単位の桁数以内かどうか
+ *
+ * 末尾の0は金額が変わらないので数えない（USD の "1.500" は有効、"1.505" は無効）
+ */
+export function hasValidScale(amount: string, currency: CurrencyCode): boolean {
+  const fraction = amount.split('.')[1] ?? '';
+  return fraction.replace(/0+$/, '').length <= CURRENCY_MINOR_UNITS[currency];
+}
+
+/**
+ * 小数点以下の桁数が多すぎる場合のエラーメッセージ
+ */
+export function scaleErrorMessage(currency: CurrencyCode): string {
+  return `amount must have at most ${CURRENCY_MINOR_UNITS[currency].toString()} decimal places for ${currency}`;
+}
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 為替見積もりAPIのWeb層専用レスポンスモデル
+ */
+export const ExchangeRateQuoteWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    quoteId: z.string().meta({ description: '送金リクエストの quoteId に指定する' }),
+    from: CurrencyCodeSchema,
+    to: CurrencyCodeSchema,
+    rate: z.string().meta({ description: 'from 1単位あたりの to の数量（10進数の文字列）' }),
+    expiresAt: z.string().meta({ description: '有効期限（ISO 8601）' }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type ExchangeRateQuoteWebResponse = z.infer<typeof ExchangeRateQuoteWebResponseSchema>;
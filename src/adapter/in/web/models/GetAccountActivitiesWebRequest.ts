@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { decodeActivityCursor } from '../mappers/ActivityCursorCodec';
+
+/**
+ * アクティビティ履歴APIのクエリパラメータ用バリデーションスキーマ
+ *
+ * 例: /api/accounts/1/activities?limit=20&direction=incoming,external&from=2025-01-01T00:00:00Z
+ */
+export const GetAccountActivitiesQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int('limit must be an integer')
+      .min(1, 'limit must be at least 1')
+      .max(100, 'limit must be at most 100')
+      .optional(),
+    cursor: z
+      .string()
+      .refine((value) => decodeActivityCursor(value) !== null, 'cursor is invalid')
+      .optional(),
+    from: z.iso.datetime({ offset: true, message: 'from must be an ISO 8601 datetime' }).optional(),
+    to: z.iso.datetime({ offset: true, message: 'to must be an ISO 8601 datetime' }).optional(),
+    direction: z
+      .string()
+      .regex(
+        /^(incoming|outgoing|external)(,(incoming|outgoing|external))*$/,
+        'direction must be a comma-separated list of incoming, outgoing, external'
+      )
+      .optional(),
+  })
+  .refine(
+    (query) => !query.from || !query.to || new Date(query.from) < new Date(query.to),
+    { message: 'from must be earlier than to', path: ['from'] }
+  );
+
+export type GetAccountActivitiesWebRequest = z.infer<typeof GetAccountActivitiesQuerySchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 通貨をまたぐ送金で適用した換算
+ */
+export const ActivityExchangeWebModelSchema = z.object({
+  rate: z.string().meta({ description: 'sourceCurrency 1単位あたりの targetCurrency の数量' }),
+  sourceAmount: z.string(),
+  sourceCurrency: CurrencyCodeSchema,
+  targetAmount: z.string(),
+  targetCurrency: CurrencyCodeSchema,
+});
+
+/**
+ * アクティビティ1件分のWeb層専用モデル
+ */
+export const ActivityWebModelSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  direction: z.enum(['incoming', 'outgoing', 'external']),
+  sourceAccountId: z.string().nullable(),
+  targetAccountId: z.string().nullable(),
+  amount: z.string(),
+  currency: CurrencyCodeSchema,
+  exchange: ActivityExchangeWebModelSchema.nullable().meta({ description: '同じ通貨同士の送金では null' }),
+  reversalOf: z.string().nullable().meta({ description: '取り消しのアクティビティの場合、取り消した元のアクティビティのID' }),
+  transferId: z.string().nullable().meta({ description: 'アカウント間送金のアクティビティの場合、送金ID' }),
+  reference: z.string().nullable().meta({ description: '送金の参照情報（送金時に指定された場合のみ）' }),
+  memo: z.string().nullable().meta({ description: '送金のメモ（送金時に指定された場合のみ）' }),
+});
+
+export type ActivityWebModel = z.infer<typeof ActivityWebModelSchema>;
+
+/**
+ * アクティビティ履歴APIのWeb層専用レスポンスモデル
+ */
+export const GetAccountActivitiesWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    activities: z.array(ActivityWebModelSchema),
+    nextCursor: z.string().nullable(),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type GetAccountActivitiesWebResponse = z.infer<typeof GetAccountActivitiesWebResponseSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 残高照会APIのWeb層専用レスポンスモデル
+ * 金額はbigintを安全に表現するため文字列で返す
+ */
+export const GetAccountBalanceWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    balance: z.string().meta({ description: '現在の残高（記帳残高。当座貸越を利用中ならマイナス）' }),
+    overdraftLimit: z.string().meta({ description: '当座貸越の限度額（"0" なら貸越なし）' }),
+    overdraftUsage: z.string().meta({ description: '当座貸越の利用額（残高がマイナスの分）' }),
+    availableBalance: z.string().meta({ description: '引き出せる金額（残高 + 当座貸越の限度額）' }),
+    baselineBalance: z.string(),
+    currency: CurrencyCodeSchema,
+    baselineDate: z.string(),
+    asOf: z.string(),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type GetAccountBalanceWebResponse = z.infer<typeof GetAccountBalanceWebResponseSchema>;
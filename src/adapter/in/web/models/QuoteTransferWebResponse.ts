@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { TransferBreakdownWebModelSchema } from './SendMoneyWebResponse';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金の見積もり（ドライラン）APIのWeb層専用レスポンスモデル
+ */
+export const QuoteTransferWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: TransferBreakdownWebModelSchema.optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type QuoteTransferWebResponse = z.infer<typeof QuoteTransferWebResponseSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/**
+ * 取り消しの理由の最大文字数
+ */
+export const MAX_REVERSAL_REASON_LENGTH = 500;
+
+/**
+ * 送金の取り消しAPIのWeb層専用リクエストモデル
+ *
+ * 送金先の残高をチェックしない取り消し（強制取り消し）は管理者向けのAPIでだけ受け付けるため、
+ * このモデルには force を含めない（指定されても無視する）
+ */
+export const ReverseTransferWebRequestSchema = z.object({
+  reason: z.string()
+    .trim()
+    .min(1, 'reason must not be empty')
+    .max(MAX_REVERSAL_REASON_LENGTH, `reason must be at most ${MAX_REVERSAL_REASON_LENGTH.toString()} characters`)
+    .meta({ description: '取り消しの理由（監査用に記録する）' }),
+});
+
+export type ReverseTransferWebRequest = z.infer<typeof ReverseTransferWebRequestSchema>;
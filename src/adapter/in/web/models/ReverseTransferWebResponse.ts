@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金の取り消しAPIのWeb層専用レスポンスモデル
+ */
+export const ReverseTransferWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    reversalId: z.string(),
+    transferId: z.string().meta({ description: '取り消した送金のID' }),
+    originalActivityIds: z.array(z.string()).meta({ description: '取り消した元のアクティビティのID' }),
+    reason: z.string(),
+    forced: z.boolean().meta({ description: '残高のチェックを省略して取り消した場合は true' }),
+    reversedAt: z.string(),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type ReverseTransferWebResponse = z.infer<typeof ReverseTransferWebResponseSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { ScheduledTransferStatusSchema } from './ScheduledTransferWebResponse';
+
+/**
+ * 予約送金IDのパスパラメータ用バリデーションスキーマ
+ */
+export const ScheduledTransferIdParamSchema = z.object({
+  scheduledTransferId: z.uuid('scheduledTransferId must be a UUID'),
+});
+
+/**
+ * 予約送金一覧APIのクエリパラメータ用バリデーションスキーマ
+ *
+ * 例: /api/accounts/1/scheduled-transfers?status=FAILED
+ */
+export const GetScheduledTransfersQuerySchema = z.object({
+  status: ScheduledTransferStatusSchema
+    .optional()
+    .meta({ description: '指定した状態の予約送金だけを返す（省略時はすべて）' }),
+});
+
+export type GetScheduledTransfersWebRequest = z.infer<typeof GetScheduledTransfersQuerySchema>;
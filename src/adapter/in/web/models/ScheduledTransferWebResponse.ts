@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 予約送金の状態
+ */
+export const ScheduledTransferStatusSchema = z.enum(['PENDING', 'PROCESSING', 'EXECUTED', 'FAILED', 'CANCELLED']);
+
+/**
+ * 予約送金（予約・照会・取り消しのレスポンスで共通）
+ */
+export const ScheduledTransferWebModelSchema = z.object({
+  scheduledTransferId: z.string(),
+  sourceAccountId: z.string(),
+  targetAccountId: z.string(),
+  amount: z.string().meta({ description: '送金額（currency の通貨）' }),
+  currency: CurrencyCodeSchema,
+  executeAt: z.string().meta({ description: '実行日時（ISO 8601）' }),
+  createdAt: z.string(),
+  status: ScheduledTransferStatusSchema,
+  completedAt: z.string().nullable().meta({ description: '送金した・失敗した・取り消した日時（PENDING / PROCESSING の間は null）' }),
+  failure: z.object({
+    reason: z.string().meta({ description: '失敗の種類（例: InsufficientBalanceException）' }),
+    message: z.string(),
+  }).nullable().meta({ description: '実行できなかった理由（FAILED 以外は null）' }),
+});
+
+export type ScheduledTransferWebModel = z.infer<typeof ScheduledTransferWebModelSchema>;
+
+/**
+ * 予約送金1件のWeb層専用レスポンスモデル
+ */
+export const ScheduledTransferWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: ScheduledTransferWebModelSchema.optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type ScheduledTransferWebResponse = z.infer<typeof ScheduledTransferWebResponseSchema>;
+
+/**
+ * アカウントの予約送金一覧のWeb層専用レスポンスモデル
+ */
+export const ScheduledTransfersWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    scheduledTransfers: z.array(ScheduledTransferWebModelSchema).meta({ description: '実行日時の昇順' }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type ScheduledTransfersWebResponse = z.infer<typeof ScheduledTransfersWebResponseSchema>;
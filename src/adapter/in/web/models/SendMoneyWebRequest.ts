@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import type { CurrencyCode } from './CurrencyCode';
+import { DecimalAmountSchema, hasValidScale, scaleErrorMessage } from './DecimalAmount';
 
 /**
  * Web層専用のリクエストモデル
@@ -7,16 +10,112 @@ import { z } from 'zod';
 export interface SendMoneyWebRequest {
   sourceAccountId: string;
   targetAccountId: string;
-  amount: string;
+  amount: string;  // 通貨の単位での10進数（例: "12.34"）
+  currency: CurrencyCode;
+  quoteId?: string;
+  executeAt?: string;  // 予約送金の実行日時（ISO 8601、タイムゾーン付き）
+  reference?: string;  // 会計の照合に使う参照情報（請求書番号など）
+  memo?: string;  // 送金先に伝える自由記述のメモ
 }
 
 /**
- * JSONボディ用のバリデーションスキーマ
+ * 参照情報の最大文字数
  */
-export const SendMoneyWebRequestSchema = z.object({
+export const MAX_REFERENCE_LENGTH = 35;
+
+/**
+ * メモの最大文字数
+ */
+export const MAX_MEMO_LENGTH = 140;
+
+/**
+ * 送金・見積もり・定期送金で共通のフィールド
+ */
+export const transferRequestShape = {
   sourceAccountId: z.string().regex(/^\d+$/, 'sourceAccountId must be a numeric string'),
   targetAccountId: z.string().regex(/^\d+$/, 'targetAccountId must be a numeric string'),
-  amount: z.string().regex(/^\d+$/, 'amount must be a positive numeric string'),
+  amount: DecimalAmountSchema,
+  currency: CurrencyCodeSchema.default('JPY'),
+  quoteId: z
+    .string()
+    .min(1)
+    .optional()
+    .meta({ description: '為替見積もりのID（通貨をまたぐ送金で、見積もりのレートを使う場合に指定する）' }),
+};
+
+/**
+ * 送金・一括送金で共通の、参照情報とメモのフィールド
+ */
+export const remittanceRequestShape = {
+  reference: z.string()
+    .min(1, 'reference must not be empty')
+    .max(MAX_REFERENCE_LENGTH, `reference must be at most ${MAX_REFERENCE_LENGTH.toString()} characters`)
+    .regex(/^[A-Za-z0-9/\-?:().,'+ ]+$/, "reference may contain only letters, digits, spaces and / - ? : ( ) . , ' +")
+    .optional()
+    .meta({ description: '会計の照合に使う参照情報（請求書番号など）。送金元と送金先の両方のアクティビティに記録する' }),
+  memo: z.string()
+    .trim()
+    .min(1, 'memo must not be empty')
+    .max(MAX_MEMO_LENGTH, `memo must be at most ${MAX_MEMO_LENGTH.toString()} characters`)
+    .regex(/^\P{Cc}+$/u, 'memo must not contain control characters')
+    .optional()
+    .meta({ description: '送金先に伝える自由記述のメモ（改行などの制御文字は使えない）' }),
+};
+
+/**
+ * 補助単位より細かい金額は丸めずにエラーにする
+ */
+export function checkAmountScale(request: { amount: string; currency: CurrencyCode }, ctx: z.RefinementCtx): void {
+  if (!hasValidScale(request.amount, request.currency)) {
+    ctx.addIssue({ code: 'custom', path: ['amount'], message: scaleErrorMessage(request.currency) });
+  }
+}
+
+/**
+ * JSONボディ用のバリデーションスキーマ
+ */
+export const SendMoneyWebRequestSchema = z.object({
+  ...transferRequestShape,
+  executeAt: z.iso
+    .datetime({ offset: true })
+    .optional()
+    .meta({ description: '予約送金の実行日時（ISO 8601、タイムゾーン付き）。指定すると、この日時以降に送金を実行する' }),
+  ...remittanceRequestShape,
+}).superRefine((request, ctx) => {
+  checkAmountScale(request, ctx);
+
+  // 見積もりには有効期限があるため、予約送金では使えない
+  if (request.executeAt !== undefined && request.quoteId !== undefined) {
+    ctx.addIssue({ code: 'custom', path: ['quoteId'], message: 'quoteId cannot be used with executeAt' });
+  }
+
+  // 予約送金は参照情報とメモを保存しないため、指定できない
+  if (request.executeAt !== undefined && (request.reference !== undefined || request.memo !== undefined)) {
+    const path = request.reference !== undefined ? 'reference' : 'memo';
+    ctx.addIssue({ code: 'custom', path: [path], message: `${path} cannot be used with executeAt` });
+  }
+});
+
+/**
+ * 見積もり（ドライラン）用のバリデーションスキーマ
+ * （送金と同じリクエストから、予約送金の executeAt を除いたもの）
+ */
+export const QuoteTransferWebRequestSchema = z.object(transferRequestShape).superRefine(checkAmountScale);
+
+/**
+ * 冪等性キーとして許可する形式（1〜255文字の印字可能なASCII）
+ */
+export const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+/**
+ * リクエストヘッダーのスキーマ（OpenAPI ドキュメント用。ヘッダーの検証はコントローラーで行う）
+ */
+export const SendMoneyHeadersSchema = z.object({
+  'Idempotency-Key': z
+    .string()
+    .regex(IDEMPOTENCY_KEY_PATTERN)
+    .optional()
+    .meta({ description: '冪等性キー（1〜255文字の印字可能なASCII）。同じキーでのリトライは初回のレスポンスを返す' }),
 });
 
 /**
@@ -26,5 +125,5 @@ export const SendMoneyWebRequestSchema = z.object({
 export const SendMoneyParamSchema = z.object({
   sourceAccountId: z.string().regex(/^\d+$/, 'sourceAccountId must be a numeric string'),
   targetAccountId: z.string().regex(/^\d+$/, 'targetAccountId must be a numeric string'),
-  amount: z.string().regex(/^\d+$/, 'amount must be a positive numeric string'),
+  amount: DecimalAmountSchema,
 });
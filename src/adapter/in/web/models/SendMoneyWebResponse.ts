@@ -1,17 +1,42 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金の内訳（送金・見積もりのレスポンスで共通）
+ */
+export const TransferBreakdownWebModelSchema = z.object({
+  sourceAccountId: z.string(),
+  targetAccountId: z.string(),
+  amount: z.string().meta({ description: '送金額（currency の通貨）' }),
+  currency: CurrencyCodeSchema,
+  fee: z.string().meta({ description: '手数料（currency の通貨）。手数料がかからない場合は 0' }),
+  totalDebit: z.string().meta({ description: '送金元から引き落とす合計（amount + fee）' }),
+  depositedAmount: z.string().meta({ description: '送金先に入金する金額（depositedCurrency の通貨）' }),
+  depositedCurrency: CurrencyCodeSchema,
+});
+
+export type TransferBreakdownWebModel = z.infer<typeof TransferBreakdownWebModelSchema>;
+
+/**
+ * 実行した送金（送金・一括送金のレスポンスで共通）
+ */
+export const SentTransferWebModelSchema = TransferBreakdownWebModelSchema.extend({
+  transferId: z.string().meta({ description: '送金ID（GET /api/transfers/:transferId で照会できる）' }),
+  timestamp: z.string(),
+});
+
+export type SentTransferWebModel = z.infer<typeof SentTransferWebModelSchema>;
+
 /**
  * Web層専用のレスポンスモデル
+ * （OpenAPI ドキュメントの生成にも使うため、zod スキーマから型を導出する）
  */
-export interface SendMoneyWebResponse {
-  success: boolean;
-  message: string;
-  data?: {
-    sourceAccountId: string;
-    targetAccountId: string;
-    amount: string;
-    timestamp: string;
-  };
-  error?: {
-    code: string;
-    details?: Record<string, unknown>;
-  };
-}
+export const SendMoneyWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: SentTransferWebModelSchema.optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type SendMoneyWebResponse = z.infer<typeof SendMoneyWebResponseSchema>;
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { checkAmountScale, transferRequestShape } from './SendMoneyWebRequest';
+import { StandingOrderStatusSchema } from './StandingOrderWebResponse';
+
+/**
+ * 定期送金のスケジュール（Cron 式、または毎月の日付と時刻。どちらも UTC）
+ *
+ * 式の中身（フィールドの範囲や、実行日が一度も来ない式）はドメインで検証し、
+ * 400 INVALID_STANDING_ORDER_SCHEDULE を返す
+ */
+export const StandingOrderScheduleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('CRON'),
+    expression: z
+      .string()
+      .min(1)
+      .meta({ description: '5フィールドの Cron 式（分 時 日 月 曜日、UTC）。例: "0 9 * * 1"（毎週月曜 9:00）' }),
+  }),
+  z.object({
+    type: z.literal('MONTHLY'),
+    dayOfMonth: z
+      .int()
+      .min(1)
+      .max(31)
+      .meta({ description: '実行する日（1〜31）。その月にない日（例: 2月31日）は月末に実行する' }),
+    time: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/, 'time must be in HH:MM format')
+      .default('00:00')
+      .meta({ description: '実行する時刻（HH:MM、UTC）' }),
+  }),
+]);
+
+export type StandingOrderScheduleWebModel = z.infer<typeof StandingOrderScheduleSchema>;
+
+/**
+ * 定期送金の作成リクエストのバリデーションスキーマ
+ * （送金と同じフィールドから、為替見積もりの quoteId を除いたもの）
+ */
+export const CreateStandingOrderWebRequestSchema = z.object(transferRequestShape)
+  .omit({ quoteId: true })
+  .extend({ schedule: StandingOrderScheduleSchema })
+  .superRefine(checkAmountScale);
+
+export type CreateStandingOrderWebRequest = z.infer<typeof CreateStandingOrderWebRequestSchema>;
+
+/**
+ * 定期送金IDのパスパラメータ用バリデーションスキーマ
+ */
+export const StandingOrderIdParamSchema = z.object({
+  standingOrderId: z.uuid('standingOrderId must be a UUID'),
+});
+
+/**
+ * 定期送金一覧APIのクエリパラメータ用バリデーションスキーマ
+ *
+ * 例: /api/accounts/1/standing-orders?status=PAUSED
+ */
+export const GetStandingOrdersQuerySchema = z.object({
+  status: StandingOrderStatusSchema
+    .optional()
+    .meta({ description: '指定した状態の定期送金だけを返す（省略時はすべて）' }),
+});
+
+export type GetStandingOrdersWebRequest = z.infer<typeof GetStandingOrdersQuerySchema>;
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 定期送金の状態
+ */
+export const StandingOrderStatusSchema = z.enum(['ACTIVE', 'RUNNING', 'PAUSED', 'CANCELLED']);
+
+/**
+ * 失敗の理由（実行記録・予約送金で同じ形）
+ */
+const TransferFailureSchema = z.object({
+  reason: z.string().meta({ description: '失敗の種類（例: InsufficientBalanceException）' }),
+  message: z.string(),
+});
+
+/**
+ * 定期送金（作成・照会・停止・再開・取り消しのレスポンスで共通）
+ */
+export const StandingOrderWebModelSchema = z.object({
+  standingOrderId: z.string(),
+  sourceAccountId: z.string(),
+  targetAccountId: z.string(),
+  amount: z.string().meta({ description: '1回の送金額（currency の通貨）' }),
+  currency: CurrencyCodeSchema,
+  schedule: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('CRON'), expression: z.string() }),
+    z.object({ type: z.literal('MONTHLY'), dayOfMonth: z.int(), time: z.string() }),
+  ]).meta({ description: '実行のスケジュール（UTC）' }),
+  createdAt: z.string(),
+  status: StandingOrderStatusSchema,
+  occurrenceAt: z.string().meta({ description: '今待っている実行日時（ISO 8601）' }),
+  nextRunAt: z.string().meta({ description: '次に実行する時刻（再試行を待っている場合は再試行の時刻）' }),
+  retryCount: z.int().meta({ description: '今待っている実行日時の再試行の回数' }),
+  consecutiveFailures: z.int().meta({ description: '続けて失敗した回数（成功すると0に戻る）' }),
+  pauseReason: z
+    .enum(['MANUAL', 'TOO_MANY_FAILURES'])
+    .nullable()
+    .meta({ description: '停止した理由（PAUSED 以外は null）。TOO_MANY_FAILURES は連続で失敗したための自動停止' }),
+});
+
+export type StandingOrderWebModel = z.infer<typeof StandingOrderWebModelSchema>;
+
+/**
+ * 定期送金の実行記録
+ */
+export const StandingOrderRunWebModelSchema = z.object({
+  runId: z.string(),
+  occurrenceAt: z.string().meta({ description: '実行した回の実行日時' }),
+  executedAt: z.string(),
+  attempt: z.int().meta({ description: 'その回の何回目の試行か（1 = 初回）' }),
+  outcome: z.enum(['SUCCEEDED', 'FAILED']),
+  failure: TransferFailureSchema.nullable().meta({ description: '送金できなかった理由（FAILED 以外は null）' }),
+});
+
+export type StandingOrderRunWebModel = z.infer<typeof StandingOrderRunWebModelSchema>;
+
+/**
+ * 定期送金1件のWeb層専用レスポンスモデル
+ */
+export const StandingOrderWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: StandingOrderWebModelSchema.optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type StandingOrderWebResponse = z.infer<typeof StandingOrderWebResponseSchema>;
+
+/**
+ * 定期送金の照会（直近の実行記録付き）のWeb層専用レスポンスモデル
+ */
+export const StandingOrderDetailWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: StandingOrderWebModelSchema.extend({
+    recentRuns: z.array(StandingOrderRunWebModelSchema).meta({ description: '直近の実行記録（新しい順）' }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type StandingOrderDetailWebResponse = z.infer<typeof StandingOrderDetailWebResponseSchema>;
+
+/**
+ * アカウントの定期送金一覧のWeb層専用レスポンスモデル
+ */
+export const StandingOrdersWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    accountId: z.string(),
+    standingOrders: z.array(StandingOrderWebModelSchema).meta({ description: '作成した順' }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type StandingOrdersWebResponse = z.infer<typeof StandingOrdersWebResponseSchema>;
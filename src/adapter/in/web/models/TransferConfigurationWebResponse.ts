@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { AccountTierSchema } from './AccountTierWebResponse';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { TransferLimitsWebModelSchema } from './TransferLimitsWebModel';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金設定API（管理者向け）のWeb層専用レスポンスモデル
+ */
+export const TransferConfigurationWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    baseCurrency: CurrencyCodeSchema,
+    tiers: z.array(TransferLimitsWebModelSchema.extend({
+      tier: AccountTierSchema,
+    })),
+    fee: z.object({
+      charged: z.boolean(),
+      revenueAccountId: z.string().nullable().meta({ description: '手数料を入金するアカウント（請求しない場合は null）' }),
+    }),
+  }).optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type TransferConfigurationWebResponse = z.infer<typeof TransferConfigurationWebResponseSchema>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+
+/**
+ * 送金限度額（アカウントの区分API・送金設定APIのレスポンスで共通）
+ */
+export const TransferLimitsWebModelSchema = z.object({
+  currency: CurrencyCodeSchema.meta({ description: '限度額の通貨（基準通貨）' }),
+  maximumTransferAmount: z.string().meta({ description: '1回の送金の限度額' }),
+  cumulativeLimits: z.array(z.object({
+    period: z.enum(['DAILY', 'MONTHLY']).meta({ description: 'DAILY: 直近24時間、MONTHLY: 直近30日（暦月ではない）' }),
+    windowDays: z.int().meta({ description: '集計期間の長さ（日）。ローリングで集計し、MONTHLY は固定の30日' }),
+    limit: z.string().meta({ description: '期間内の出金合計の上限' }),
+  })),
+});
+
+export type TransferLimitsWebModel = z.infer<typeof TransferLimitsWebModelSchema>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+/**
+ * 送金IDのパスパラメータ用バリデーションスキーマ
+ */
+export const TransferIdParamSchema = z.object({
+  transferId: z.uuid('transferId must be a UUID'),
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './CurrencyCode';
+import { TransferBreakdownWebModelSchema } from './SendMoneyWebResponse';
+import { WebErrorSchema } from './WebErrorModel';
+
+/**
+ * 送金の状態
+ */
+export const TransferStatusSchema = z.enum(['COMPLETED', 'REVERSED']);
+
+/**
+ * 送金にひも付くアクティビティ1件分のWeb層専用モデル
+ */
+export const TransferActivityWebModelSchema = z.object({
+  id: z.string(),
+  ownerAccountId: z.string().meta({ description: 'アクティビティを所有するアカウントのID' }),
+  sourceAccountId: z.string().nullable(),
+  targetAccountId: z.string().nullable(),
+  amount: z.string(),
+  currency: CurrencyCodeSchema,
+  timestamp: z.string(),
+});
+
+/**
+ * 送金のWeb層専用モデル
+ */
+export const TransferWebModelSchema = TransferBreakdownWebModelSchema.extend({
+  transferId: z.string(),
+  status: TransferStatusSchema.meta({ description: 'COMPLETED: 送金した / REVERSED: 取り消した' }),
+  reference: z.string().nullable(),
+  createdAt: z.string(),
+  activities: z.array(TransferActivityWebModelSchema)
+    .meta({ description: '送金のアクティビティ（送金元の出金・送金先の入金・手数料）。取り消しのアクティビティは含まない' }),
+});
+
+export type TransferWebModel = z.infer<typeof TransferWebModelSchema>;
+
+/**
+ * 送金の照会APIのWeb層専用レスポンスモデル
+ */
+export const TransferWebResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: TransferWebModelSchema.optional(),
+  error: WebErrorSchema.optional(),
+});
+
+export type TransferWebResponse = z.infer<typeof TransferWebResponseSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * 各APIのレスポンスに共通するエラー部分のスキーマ
+ * （{ success: false, message, error: { code, details } } の error）
+ */
+export const WebErrorSchema = z.object({
+  code: z.string().meta({ description: 'エラーコード（例: INSUFFICIENT_BALANCE）' }),
+  details: z.record(z.string(), z.unknown()).optional().meta({ description: 'エラーの詳細' }),
+});
+
+/**
+ * エラーレスポンス全体のスキーマ（data を持たない）
+ */
+export const WebErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  error: WebErrorSchema,
+});
+
+export type WebError = z.infer<typeof WebErrorSchema>;
@@ -0,0 +1,70 @@
+import type {z} from 'zod';
+import type {ErrorClass} from '../errors/HttpErrorMappingRegistry';
+
+/**
+ * ドメイン例外以外で返すエラー（バリデーション、ヘッダーの形式違反等）
+ */
+export interface ApiErrorSpec {
+    status: number;
+    code: string;
+}
+
+/**
+ * 成功時のレスポンス
+ */
+export interface ApiSuccessSpec {
+    status: number;
+    description: string;
+    schema: z.ZodType;
+}
+
+/**
+ * 1ルート分の OpenAPI ドキュメントの元になる定義
+ *
+ * 各コントローラーがルートと一緒に定義し、
+ * スキーマはバリデーションに使っている zod スキーマをそのまま参照する
+ * （ドキュメントと実装がずれないようにするため）
+ */
+export interface ApiRouteSpec {
+    /** HTTPメソッド */
+    method: 'get' | 'post' | 'put';
+
+    /** Hono形式のパス（例: /api/accounts/:accountId/balance） */
+    path: string;
+
+    /** OpenAPI の operationId（クライアントの関数名になる） */
+    operationId: string;
+
+    /** 一行の説明 */
+    summary: string;
+
+    /** 詳しい説明 */
+    description?: string;
+
+    /** グループ分け用のタグ */
+    tags: readonly string[];
+
+    /** パスパラメータのスキーマ */
+    params?: z.ZodType;
+
+    /** クエリパラメータのスキーマ */
+    query?: z.ZodType;
+
+    /** リクエストヘッダーのスキーマ */
+    headers?: z.ZodType;
+
+    /** JSONボディのスキーマ */
+    body?: z.ZodType;
+
+    /** 成功時のレスポンス */
+    success: ApiSuccessSpec;
+
+    /** リクエストの内容によって返す、別の成功レスポンス（例: 予約送金の 202） */
+    additionalSuccesses?: readonly ApiSuccessSpec[];
+
+    /** このルートで発生しうるドメイン例外（ステータスとコードは対応表から引く） */
+    errors?: readonly ErrorClass[];
+
+    /** ドメイン例外以外で返すエラー */
+    extraErrors?: readonly ApiErrorSpec[];
+}
@@ -0,0 +1,234 @@
+import {z} from 'zod';
+import type {HttpErrorMappingRegistry} from '../errors/HttpErrorMappingRegistry';
+import {PROBLEM_JSON_MEDIA_TYPE} from '../errors/ProblemDetails';
+import {WebErrorResponseSchema} from '../models/WebErrorModel';
+import type {ApiErrorSpec, ApiRouteSpec, ApiSuccessSpec} from './ApiRouteSpec';
+
+/**
+ * JSON Schema（OpenAPI 3.1 は JSON Schema 2020-12 をそのまま使える）
+ */
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * 生成する OpenAPI ドキュメント（使う部分だけを型付けしている）
+ */
+export interface OpenApiDocument {
+    openapi: '3.1.0';
+    info: { title: string; version: string; description?: string };
+    paths: Record<string, Record<string, unknown>>;
+    components: { schemas: Record<string, JsonSchema> };
+}
+
+/**
+ * すべてのルートで起こりうるエラー
+ */
+const COMMON_ERRORS: readonly ApiErrorSpec[] = [
+    {status: 500, code: 'INTERNAL_ERROR'},
+];
+
+/**
+ * バリデーションを行うルートで起こりうるエラー（validationHook が返す）
+ */
+const VALIDATION_ERRORS: readonly ApiErrorSpec[] = [
+    {status: 400, code: 'VALIDATION_ERROR'},
+];
+
+/**
+ * Problem Details（RFC 7807）のスキーマ
+ */
+const PROBLEM_DETAILS_SCHEMA: JsonSchema = {
+    type: 'object',
+    description: 'Accept: application/problem+json を指定した場合のエラーレスポンス。details の各項目は拡張メンバーとして展開される',
+    properties: {
+        type: {type: 'string'},
+        title: {type: 'string'},
+        status: {type: 'integer'},
+        instance: {type: 'string'},
+        code: {type: 'string'},
+    },
+    required: ['type', 'title', 'status', 'code'],
+    additionalProperties: true,
+};
+
+/**
+ * ルートの定義から OpenAPI 3.1 のドキュメントを生成する
+ *
+ * @param routes ドキュメントに載せるルート
+ * @param errorMappings ドメイン例外とHTTPエラーの対応表（各ルートのエラーレスポンスに使う）
+ */
+export function createOpenApiDocument(
+    routes: readonly ApiRouteSpec[],
+    errorMappings: HttpErrorMappingRegistry
+): OpenApiDocument {
+    const paths: OpenApiDocument['paths'] = {};
+
+    for (const route of routes) {
+        const path = toOpenApiPath(route.path);
+        paths[path] = {
+            ...paths[path],
+            [route.method]: toOperation(route, errorMappings),
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'BuckPal API',
+            version: '1.0.0',
+            description: 'Hexagonal Architecture with Hono + TypeScript',
+        },
+        paths,
+        components: {
+            schemas: {
+                ErrorResponse: toJsonSchema(WebErrorResponseSchema, 'output'),
+                ProblemDetails: PROBLEM_DETAILS_SCHEMA,
+            },
+        },
+    };
+}
+
+/**
+ * 1ルート分の Operation Object を作る
+ */
+function toOperation(route: ApiRouteSpec, errorMappings: HttpErrorMappingRegistry): Record<string, unknown> {
+    const parameters = [
+        ...toParameters(route.params, 'path'),
+        ...toParameters(route.query, 'query'),
+        ...toParameters(route.headers, 'header'),
+    ];
+
+    const domainErrors = (route.errors ?? []).map((errorClass) => {
+        const definition = errorMappings.definitionOf(errorClass);
+        if (!definition) {
+            throw new Error(`No HTTP error mapping registered for ${errorClass.name}`);
+        }
+        return {status: definition.status, code: definition.code};
+    });
+
+    const validates = route.params !== undefined || route.query !== undefined || route.body !== undefined;
+
+    const errors = [
+        ...(validates ? VALIDATION_ERRORS : []),
+        ...domainErrors,
+        ...(route.extraErrors ?? []),
+        ...COMMON_ERRORS,
+    ];
+
+    return {
+        operationId: route.operationId,
+        summary: route.summary,
+        description: route.description,
+        tags: route.tags,
+        parameters: parameters.length > 0 ? parameters : undefined,
+        requestBody: route.body
+            ? {
+                required: true,
+                content: {'application/json': {schema: toJsonSchema(route.body, 'input')}},
+            }
+            : undefined,
+        responses: {
+            ...toSuccessResponses([route.success, ...(route.additionalSuccesses ?? [])]),
+            ...toErrorResponses(errors),
+        },
+    };
+}
+
+/**
+ * オブジェクトのスキーマを Parameter Object の配列に変換する
+ */
+function toParameters(schema: z.ZodType | undefined, location: 'path' | 'query' | 'header'): JsonSchema[] {
+    if (!schema) {
+        return [];
+    }
+
+    const jsonSchema = toJsonSchema(schema, 'input');
+    const properties = (jsonSchema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((jsonSchema.required ?? []) as string[]);
+
+    return Object.entries(properties).map(([name, propertySchema]) => {
+        const {description, ...rest} = propertySchema;
+        return {
+            name,
+            in: location,
+            // パスパラメータは常に必須
+            required: location === 'path' || required.has(name),
+            description,
+            schema: rest,
+        };
+    });
+}
+
+/**
+ * 成功時のレスポンスをステータスコードごとの Response Object にする
+ */
+function toSuccessResponses(successes: readonly ApiSuccessSpec[]): Record<string, unknown> {
+    return Object.fromEntries(successes.map((success) => [
+        success.status.toString(),
+        {
+            description: success.description,
+            content: {'application/json': {schema: toJsonSchema(success.schema, 'output')}},
+        },
+    ]));
+}
+
+/**
+ * エラーをステータスコードごとにまとめて Response Object にする
+ *
+ * 従来の形式（application/json）と problem+json の両方を載せ、
+ * code にはそのステータスで返りうるエラーコードを enum で列挙する
+ */
+function toErrorResponses(errors: readonly ApiErrorSpec[]): Record<string, unknown> {
+    const codesByStatus = new Map<number, string[]>();
+    for (const {status, code} of errors) {
+        const codes = codesByStatus.get(status) ?? [];
+        if (!codes.includes(code)) {
+            codes.push(code);
+        }
+        codesByStatus.set(status, codes);
+    }
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, codes] of [...codesByStatus.entries()].sort(([a], [b]) => a - b)) {
+        const codeSchema = {type: 'string', enum: codes};
+        responses[status.toString()] = {
+            description: codes.join(', '),
+            content: {
+                'application/json': {
+                    schema: {
+                        allOf: [
+                            {$ref: '#/components/schemas/ErrorResponse'},
+                            {type: 'object', properties: {error: {type: 'object', properties: {code: codeSchema}}}},
+                        ],
+                    },
+                },
+                [PROBLEM_JSON_MEDIA_TYPE]: {
+                    schema: {
+                        allOf: [
+                            {$ref: '#/components/schemas/ProblemDetails'},
+                            {type: 'object', properties: {code: codeSchema}},
+                        ],
+                    },
+                },
+            },
+        };
+    }
+
+    return responses;
+}
+
+/**
+ * zod スキーマを JSON Schema に変換する
+ *
+ * refine などの JSON Schema で表現できない検証は無視される（実際の検証は zValidator が行う）
+ */
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+    const {$schema: _, ...jsonSchema} = z.toJSONSchema(schema, {io, unrepresentable: 'any'}) as JsonSchema;
+    return jsonSchema;
+}
+
+/**
+ * Hono形式のパス（:param）を OpenAPI 形式（{param}）に変換する
+ */
+export function toOpenApiPath(path: string): string {
+    return path.replace(/:(\w+)/g, '{$1}');
+}
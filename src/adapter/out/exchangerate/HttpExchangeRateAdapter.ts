@@ -0,0 +1,70 @@
+import {inject, injectable} from 'tsyringe';
+import {z} from 'zod';
+import {ExchangeRateUnavailableException} from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import type {Currency} from '../../../application/domain/model/Currency';
+import {ExchangeRate} from '../../../application/domain/model/ExchangeRate';
+import type {ExchangeRatePort} from '../../../application/port/out/ExchangeRatePort';
+import {ExchangeRateApiConfig, ExchangeRateApiConfigToken} from '../../../config/types';
+
+/**
+ * 為替レートAPIのレスポンス
+ *
+ * レートは誤差を避けるため10進数の文字列で受け取る（例: {"rate": "150.25"}）
+ */
+const ExchangeRateApiResponseSchema = z.object({
+    rate: z.string(),
+});
+
+/**
+ * 外部の為替レートAPI（HTTP）を使う為替レートアダプター
+ *
+ * 【APIの契約】
+ * GET {baseUrl}/rates?from=USD&to=JPY
+ * → 200 {"rate": "150.25"}
+ *
+ * 本番の為替レートサービスの代わりに、ローカルのモックサーバーを
+ * EXCHANGE_RATE_API_URL で指定して使うことを想定している
+ */
+@injectable()
+export class HttpExchangeRateAdapter implements ExchangeRatePort {
+    constructor(
+        @inject(ExchangeRateApiConfigToken) private readonly config: ExchangeRateApiConfig
+    ) {
+    }
+
+    async getRate(from: Currency, to: Currency): Promise<ExchangeRate> {
+        if (from.equals(to)) {
+            return ExchangeRate.identity(from);
+        }
+
+        const url = new URL('/rates', this.config.baseUrl);
+        url.searchParams.set('from', from.code);
+        url.searchParams.set('to', to.code);
+
+        let response: Response;
+        try {
+            response = await fetch(url, {signal: AbortSignal.timeout(this.config.timeoutMs)});
+        } catch (error) {
+            throw new ExchangeRateUnavailableException(
+                from,
+                to,
+                error instanceof Error ? error.message : String(error)
+            );
+        }
+
+        if (!response.ok) {
+            throw new ExchangeRateUnavailableException(from, to, `HTTP ${response.status.toString()}`);
+        }
+
+        const parsed = ExchangeRateApiResponseSchema.safeParse(await response.json().catch(() => null));
+        if (!parsed.success) {
+            throw new ExchangeRateUnavailableException(from, to, 'malformed response');
+        }
+
+        try {
+            return ExchangeRate.of(from, to, parsed.data.rate);
+        } catch {
+            throw new ExchangeRateUnavailableException(from, to, `invalid rate: ${parsed.data.rate}`);
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import { injectable } from 'tsyringe';
+import { ExchangeRateUnavailableException } from '../../../application/domain/exception/ExchangeRateUnavailableException';
+import type { Currency } from '../../../application/domain/model/Currency';
+import { ExchangeRate } from '../../../application/domain/model/ExchangeRate';
+import type { ExchangeRatePort } from '../../../application/port/out/ExchangeRatePort';
+
+/**
+ * 各通貨 1単位の円換算額（× 100）
+ *
+ * 通貨ペアのレートは「from の円換算額 / to の円換算額」で求める
+ * 例: USD → EUR = 15,000 / 16,200
+ */
+const REFERENCE_RATES_IN_JPY_CENTS: ReadonlyMap<string, bigint> = new Map([
+  ['JPY', 100n],
+  ['USD', 15_000n],
+  ['EUR', 16_200n],
+  ['GBP', 19_000n],
+]);
+
+/**
+ * 固定のレート表を使う為替レートアダプター
+ * 開発・テスト用の簡易実装（外部サービスに依存しない）
+ */
+@injectable()
+export class StaticExchangeRateAdapter implements ExchangeRatePort {
+  getRate(from: Currency, to: Currency): Promise<ExchangeRate> {
+    if (from.equals(to)) {
+      return Promise.resolve(ExchangeRate.identity(from));
+    }
+
+    const fromRate = REFERENCE_RATES_IN_JPY_CENTS.get(from.code);
+    const toRate = REFERENCE_RATES_IN_JPY_CENTS.get(to.code);
+    if (fromRate === undefined || toRate === undefined) {
+      return Promise.reject(new ExchangeRateUnavailableException(from, to, 'not in the static rate table'));
+    }
+
+    return Promise.resolve(ExchangeRate.fromRatio(from, to, fromRate, toRate));
+  }
+}
@@ -0,0 +1,22 @@
+import { inject, injectable } from 'tsyringe';
+import type { AccountTier } from '../../../application/domain/model/AccountTier';
+import type { TransferLimits } from '../../../application/domain/model/TransferLimits';
+import type { TransferLimitsPolicyPort } from '../../../application/port/out/TransferLimitsPolicyPort';
+import { TransferLimitsTable, TransferLimitsTableToken } from '../../../config/types';
+
+/**
+ * 設定の限度額表を使う送金限度額アダプター
+ *
+ * 限度額表は起動時に setupContainer で作成する（区分ごとの値は container.ts を参照）
+ */
+@injectable()
+export class StaticTransferLimitsPolicyAdapter implements TransferLimitsPolicyPort {
+  constructor(
+      @inject(TransferLimitsTableToken) private readonly table: TransferLimitsTable
+  ) {
+  }
+
+  getTransferLimits(tier: AccountTier): Promise<TransferLimits> {
+    return Promise.resolve(this.table[tier]);
+  }
+}
@@ -0,0 +1,128 @@
+import {DurableObject} from 'cloudflare:workers';
+
+/**
+ * ストレージに保存するロック保持者の情報
+ */
+interface LockHolder {
+    /** ロックを保持している処理のトークン */
+    token: string;
+
+    /** リース期限（エポックミリ秒）。これを過ぎたロックは解放済みとみなす */
+    expiresAt: number;
+}
+
+const HOLDER_KEY = 'holder';
+
+/**
+ * アカウント単位のロックを管理する Durable Object
+ *
+ * 【仕組み】
+ * - アカウントIDごとに1つのインスタンスが作られる（idFromName(accountId)）
+ * - Durable Object は同じIDに対して世界で1つしか存在しないため、
+ *   複数の Worker インスタンスから来たロック要求を1か所で直列化できる
+ * - ロック保持者はストレージに保存するので、インスタンスが再起動しても失われない
+ *
+ * 【リース】
+ * ロックを取得した Worker が解放前に落ちた場合に備えて、
+ * ロックには有効期限（リース）を付ける。期限切れのロックは次の要求者が引き継ぐ。
+ * 処理が長くかかる保持者は、定期的に renew を呼んでリースを延長する。
+ */
+export class AccountLockDurableObject extends DurableObject {
+    /**
+     * ロックの解放を待っている要求（このインスタンスのメモリ上のみ）
+     */
+    private waiters: (() => void)[] = [];
+
+    /**
+     * ロックを取得する（RPC）
+     *
+     * 1. 保持者がいない、またはリースが切れていればロックを取得
+     * 2. そうでなければ、解放・リース切れ・タイムアウトのいずれかまで待って再試行
+     *
+     * ストレージの読み書きの間は他のリクエストが割り込まない（input gate）ため、
+     * 「確認してから書き込む」処理が競合することはない
+     *
+     * @param token 要求者が発行したロックトークン
+     * @param timeoutMs ロック取得を待つ最大時間（ミリ秒）
+     * @param leaseMs ロックの有効期間（ミリ秒）
+     * @returns ロックを取得できたら true、タイムアウトしたら false
+     */
+    async acquire(token: string, timeoutMs: number, leaseMs: number): Promise<boolean> {
+        const deadline = Date.now() + timeoutMs;
+
+        for (;;) {
+            const holder = await this.ctx.storage.get<LockHolder>(HOLDER_KEY);
+            const now = Date.now();
+
+            if (!holder || holder.expiresAt <= now) {
+                await this.ctx.storage.put<LockHolder>(HOLDER_KEY, {token, expiresAt: now + leaseMs});
+                return true;
+            }
+
+            const remaining = deadline - now;
+            if (remaining <= 0) {
+                return false;
+            }
+
+            await this.waitForRelease(Math.min(remaining, holder.expiresAt - now));
+        }
+    }
+
+    /**
+     * ロックのリースを延長する（RPC）
+     *
+     * トークンが一致すれば、リースが切れていても延長する
+     * （まだ他の要求者が引き継いでいないので、ロックは保持者のまま）
+     *
+     * @param token acquire に渡したロックトークン
+     * @param leaseMs 延長した時点からの有効期間（ミリ秒）
+     * @returns 延長できたら true、他の処理に引き継がれていたら false
+     */
+    async renew(token: string, leaseMs: number): Promise<boolean> {
+        const holder = await this.ctx.storage.get<LockHolder>(HOLDER_KEY);
+        if (holder?.token !== token) {
+            return false;
+        }
+
+        await this.ctx.storage.put<LockHolder>(HOLDER_KEY, {token, expiresAt: Date.now() + leaseMs});
+        return true;
+    }
+
+    /**
+     * ロックを解放する（RPC）
+     *
+     * トークンが一致しない場合（リース切れで他の処理に引き継がれた等）は何もしない
+     *
+     * @param token acquire に渡したロックトークン
+     */
+    async release(token: string): Promise<void> {
+        const holder = await this.ctx.storage.get<LockHolder>(HOLDER_KEY);
+        if (holder?.token !== token) {
+            return;
+        }
+
+        await this.ctx.storage.delete(HOLDER_KEY);
+
+        // 待っている要求をすべて起こす（最初に再試行したものがロックを取得する）
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach((wake) => {
+            wake();
+        });
+    }
+
+    /**
+     * ロックが解放されるか、指定時間が経過するまで待つ
+     */
+    private waitForRelease(waitMs: number): Promise<void> {
+        return new Promise((resolve) => {
+            const wake = () => {
+                clearTimeout(timer);
+                this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, waitMs);
+            this.waiters.push(wake);
+        });
+    }
+}
@@ -0,0 +1,50 @@
+import {inject, injectable} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import type {AccountId} from '../../../application/domain/model/Activity';
+import type {AccountLock, AccountLockOptions, LockToken} from '../../../application/port/out/AccountLock';
+import {DEFAULT_LOCK_TIMEOUT_MS, LOCK_LEASE_MS} from '../../../application/port/out/AccountLock';
+import {AccountLockNamespaceToken} from '../../../config/types';
+import type {AccountLockNamespace} from '../../../config/types';
+
+/**
+ * Durable Object を使った分散アカウントロック
+ *
+ * アカウントIDごとの AccountLockDurableObject に RPC でロックの取得・解放・リースの延長を依頼する。
+ * 複数の Worker インスタンスにまたがって、同じアカウントへの操作を直列化できる。
+ */
+@injectable()
+export class DurableObjectAccountLock implements AccountLock {
+
+    constructor(
+        @inject(AccountLockNamespaceToken)
+        private readonly namespace: AccountLockNamespace
+    ) {
+    }
+
+    async lockAccount(accountId: AccountId, options: AccountLockOptions = {}): Promise<LockToken> {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+        const token = crypto.randomUUID();
+
+        const acquired = await this.stubFor(accountId).acquire(token, timeoutMs, LOCK_LEASE_MS);
+        if (!acquired) {
+            throw new AccountLockTimeoutException(accountId, timeoutMs);
+        }
+
+        return token;
+    }
+
+    async releaseAccount(accountId: AccountId, token: LockToken): Promise<void> {
+        await this.stubFor(accountId).release(token);
+    }
+
+    renewAccount(accountId: AccountId, token: LockToken): Promise<boolean> {
+        return this.stubFor(accountId).renew(token, LOCK_LEASE_MS);
+    }
+
+    /**
+     * アカウントIDに対応する Durable Object のスタブを取得
+     */
+    private stubFor(accountId: AccountId) {
+        return this.namespace.getByName(accountId.getValue().toString());
+    }
+}
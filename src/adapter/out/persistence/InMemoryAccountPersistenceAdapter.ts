@@ -1,16 +1,39 @@
 import { injectable } from 'tsyringe';
+import { AccountNotFoundException } from '../../../application/domain/exception/AccountNotFoundException';
+import { InsufficientBalanceException } from '../../../application/domain/exception/InsufficientBalanceException';
+import { TransferAlreadyReversedException } from '../../../application/domain/exception/TransferAlreadyReversedException';
 import { Account } from '../../../application/domain/model/Account';
+import type { AccountStatus } from '../../../application/domain/model/AccountStatus';
+import type { AccountTier } from '../../../application/domain/model/AccountTier';
 import { AccountId, Activity, ActivityId } from '../../../application/domain/model/Activity';
 import { ActivityWindow } from '../../../application/domain/model/ActivityWindow';
+import { Currency } from '../../../application/domain/model/Currency';
+import type { CurrencyConversion } from '../../../application/domain/model/CurrencyConversion';
 import { Money } from '../../../application/domain/model/Money';
+import type { RemittanceInformation } from '../../../application/domain/model/RemittanceInformation';
+import { Transfer, TransferId } from '../../../application/domain/model/Transfer';
+import type { TransferReversal } from '../../../application/domain/model/TransferReversal';
+import type { TransferStatus } from '../../../application/domain/model/TransferStatus';
+import { CreateAccountPort } from '../../../application/port/out/CreateAccountPort';
 import { LoadAccountPort } from '../../../application/port/out/LoadAccountPort';
+import type { ActivitySearchCriteria, ActivitySlice, LoadActivitiesPort } from '../../../application/port/out/LoadActivitiesPort';
+import { LoadTransferPort } from '../../../application/port/out/LoadTransferPort';
+import { PersistTransferPort } from '../../../application/port/out/PersistTransferPort';
+import { TransferReversalPort } from '../../../application/port/out/TransferReversalPort';
+import { UpdateAccountOverdraftLimitPort } from '../../../application/port/out/UpdateAccountOverdraftLimitPort';
 import { UpdateAccountStatePort } from '../../../application/port/out/UpdateAccountStatePort';
+import { UpdateAccountStatusPort } from '../../../application/port/out/UpdateAccountStatusPort';
+import { UpdateAccountTierPort } from '../../../application/port/out/UpdateAccountTierPort';
 
 /**
  * アカウントデータ（インメモリストア用）
  */
 interface AccountData {
   id: bigint;
+  status: AccountStatus;
+  tier: AccountTier;
+  currency: Currency;
+  overdraftLimit: bigint; // 当座貸越の限度額（補助単位。0 = 貸越なし）
 }
 
 /**
@@ -20,9 +43,29 @@ interface ActivityData {
   id: bigint;
   timestamp: Date;
   ownerAccountId: bigint;
+  sourceAccountId: bigint | null; // null = 外部からの入金
+  targetAccountId: bigint | null; // null = 外部への出金
+  amount: bigint;
+  currency: Currency;
+  conversion: CurrencyConversion | null; // null = 同じ通貨同士の送金
+  reversalOf: bigint | null; // null = 取り消しのアクティビティではない
+  transferId: string | null; // null = 送金にひも付かない（取り消しのアクティビティ・送金IDの導入前の送金）
+  remittance: RemittanceInformation | null; // null = 参照情報もメモも指定されていない
+}
+
+/**
+ * 送金データ（インメモリストア用）
+ */
+interface TransferData {
+  id: string;
   sourceAccountId: bigint;
   targetAccountId: bigint;
-  amount: bigint;
+  amount: Money;
+  fee: Money;
+  depositedAmount: Money;
+  reference: string | null;
+  createdAt: Date;
+  status: TransferStatus;
 }
 
 /**
@@ -31,11 +74,24 @@ interface ActivityData {
  */
 @injectable()
 export class InMemoryAccountPersistenceAdapter
-    implements LoadAccountPort, UpdateAccountStatePort
+    implements
+        LoadAccountPort,
+        UpdateAccountStatePort,
+        LoadActivitiesPort,
+        PersistTransferPort,
+        CreateAccountPort,
+        UpdateAccountStatusPort,
+        UpdateAccountTierPort,
+        UpdateAccountOverdraftLimitPort,
+        TransferReversalPort,
+        LoadTransferPort
 {
   private accounts = new Map<bigint, AccountData>();
   private activities: ActivityData[] = [];
+  private transfers = new Map<string, TransferData>();
+  private reversals: TransferReversal[] = [];
   private nextActivityId = 1n;
+  private nextAccountId = 1n;
 
   constructor() {
     // テストデータを初期化
@@ -47,8 +103,9 @@ export class InMemoryAccountPersistenceAdapter
    */
   private initializeTestData(): void {
     // アカウント1と2を作成
-    this.accounts.set(1n, { id: 1n });
-    this.accounts.set(2n, { id: 2n });
+    this.accounts.set(1n, { id: 1n, status: 'ACTIVE', tier: 'BASIC', currency: Currency.JPY, overdraftLimit: 0n });
+    this.accounts.set(2n, { id: 2n, status: 'ACTIVE', tier: 'BASIC', currency: Currency.JPY, overdraftLimit: 0n });
+    this.nextAccountId = 3n;
 
     // 初期アクティビティを追加
     const now = new Date();
@@ -62,6 +119,11 @@ export class InMemoryAccountPersistenceAdapter
       sourceAccountId: 1n,
       targetAccountId: 2n,
       amount: 500n,
+      currency: Currency.JPY,
+      conversion: null,
+      reversalOf: null,
+      transferId: null,
+      remittance: null,
     });
 
     this.activities.push({
@@ -71,6 +133,11 @@ export class InMemoryAccountPersistenceAdapter
       sourceAccountId: 1n,
       targetAccountId: 2n,
       amount: 500n,
+      currency: Currency.JPY,
+      conversion: null,
+      reversalOf: null,
+      transferId: null,
+      remittance: null,
     });
   }
 
@@ -80,7 +147,7 @@ export class InMemoryAccountPersistenceAdapter
   loadAccount(accountId: AccountId, baselineDate: Date): Promise<Account> {
     const accountData = this.accounts.get(accountId.getValue());
     if (!accountData) {
-      throw new Error(`Account not found: ${accountId.getValue().toString()}`);
+      return Promise.reject(new AccountNotFoundException(accountId));
     }
 
     // baselineDate以降のアクティビティを取得
@@ -110,31 +177,95 @@ export class InMemoryAccountPersistenceAdapter
         .reduce((sum, a) => sum + a.amount, 0n);
 
     const baselineBalance = Money.subtract(
-        Money.of(depositBalance),
-        Money.of(withdrawalBalance)
+        Money.of(depositBalance, accountData.currency),
+        Money.of(withdrawalBalance, accountData.currency)
     );
 
     // アクティビティをドメインモデルに変換
-    const activities = activitiesAfterBaseline.map((a) =>
-        Activity.withId(
-            new ActivityId(a.id),
-            new AccountId(a.ownerAccountId),
-            new AccountId(a.sourceAccountId),
-            new AccountId(a.targetAccountId),
-            a.timestamp,
-            Money.of(a.amount)
-        )
-    );
+    const activities = activitiesAfterBaseline.map((a) => this.toDomainActivity(a));
 
     const account = Account.withId(
         accountId,
         baselineBalance,
-        new ActivityWindow(...activities)
+        new ActivityWindow(...activities),
+        accountData.status,
+        accountData.tier,
+        Money.of(accountData.overdraftLimit, accountData.currency)
     );
 
     return Promise.resolve(account);
   }
 
+  /**
+   * アカウントを新規作成（IDは連番で採番）
+   */
+  createAccount(account: Account): Promise<AccountId> {
+    const id = this.nextAccountId++;
+    this.accounts.set(id, {
+      id,
+      status: account.getStatus(),
+      tier: account.getTier(),
+      currency: account.getCurrency(),
+      overdraftLimit: account.getOverdraftLimit().getAmount(),
+    });
+
+    return Promise.resolve(new AccountId(id));
+  }
+
+  /**
+   * アカウントの状態を保存
+   */
+  updateAccountStatus(account: Account): Promise<void> {
+    const accountId = account.getId();
+    if (!accountId) {
+      return Promise.reject(new Error('Cannot update status of an account without ID'));
+    }
+
+    const accountData = this.accounts.get(accountId.getValue());
+    if (!accountData) {
+      return Promise.reject(new AccountNotFoundException(accountId));
+    }
+
+    accountData.status = account.getStatus();
+    return Promise.resolve();
+  }
+
+  /**
+   * アカウントの区分を保存
+   */
+  updateAccountTier(account: Account): Promise<void> {
+    const accountId = account.getId();
+    if (!accountId) {
+      return Promise.reject(new Error('Cannot update tier of an account without ID'));
+    }
+
+    const accountData = this.accounts.get(accountId.getValue());
+    if (!accountData) {
+      return Promise.reject(new AccountNotFoundException(accountId));
+    }
+
+    accountData.tier = account.getTier();
+    return Promise.resolve();
+  }
+
+  /**
+   * アカウントの当座貸越の限度額を保存
+   */
+  updateAccountOverdraftLimit(account: Account): Promise<void> {
+    const accountId = account.getId();
+    if (!accountId) {
+      return Promise.reject(new Error('Cannot update overdraft limit of an account without ID'));
+    }
+
+    const accountData = this.accounts.get(accountId.getValue());
+    if (!accountData) {
+      return Promise.reject(new AccountNotFoundException(accountId));
+    }
+
+    accountData.overdraftLimit = account.getOverdraftLimit().getAmount();
+    return Promise.resolve();
+  }
+
   /**
    * アカウントのアクティビティを更新
    *
@@ -152,12 +283,265 @@ export class InMemoryAccountPersistenceAdapter
         id: this.nextActivityId++,
         timestamp: activity.getTimestamp(),
         ownerAccountId: activity.getOwnerAccountId().getValue(),
-        sourceAccountId: activity.getSourceAccountId().getValue(),
-        targetAccountId: activity.getTargetAccountId().getValue(),
+        sourceAccountId: activity.getSourceAccountId()?.getValue() ?? null,
+        targetAccountId: activity.getTargetAccountId()?.getValue() ?? null,
         amount: activity.getMoney().getAmount(),
+        currency: activity.getMoney().getCurrency(),
+        conversion: activity.getConversion(),
+        reversalOf: activity.getReversalOf()?.getValue() ?? null,
+        transferId: activity.getTransferId()?.getValue() ?? null,
+        remittance: activity.getRemittance(),
       });
     }
 
     return Promise.resolve();
   }
-}
\ No newline at end of file
+
+  /**
+   * 送金に関係するアカウントの新規アクティビティをまとめて保存
+   *
+   * Supabase版（persist_transfer 関数）と同じく「全部保存するか、何も保存しないか」：
+   * 1. 出金が発生したアカウントの保存後の残高を先に計算する
+   * 2. どれか1つでも当座貸越の限度額を超えてマイナスになるなら、何も保存せずに例外を投げる
+   * 3. すべて問題なければ、送金の記録とアクティビティをまとめてストアに追加する
+   */
+  persistTransfer(transfer: Transfer, accounts: readonly Account[]): Promise<void> {
+    return this.persistTransfers([transfer], accounts);
+  }
+
+  /**
+   * 複数の送金の記録と、送金に関係するアカウントの新規アクティビティをまとめて保存（一括送金用）
+   *
+   * Supabase版（persist_transfers 関数）と同じく、persistTransfer と同じ手順で
+   * すべての送金を反映した後の残高を再チェックしてから、まとめてストアに追加する
+   */
+  persistTransfers(transfers: readonly Transfer[], accounts: readonly Account[]): Promise<void> {
+    return this.persistNewActivities(accounts, true).then(() => {
+      for (const transfer of transfers) {
+        this.transfers.set(transfer.id.getValue(), {
+          id: transfer.id.getValue(),
+          sourceAccountId: transfer.sourceAccountId.getValue(),
+          targetAccountId: transfer.targetAccountId.getValue(),
+          amount: transfer.amount,
+          fee: transfer.fee,
+          depositedAmount: transfer.depositedAmount,
+          reference: transfer.reference,
+          createdAt: transfer.createdAt,
+          status: transfer.getStatus(),
+        });
+      }
+    });
+  }
+
+  /**
+   * 取り消しのアクティビティと取り消しの記録をまとめて保存
+   *
+   * Supabase版（reverse_transfer 関数）と同じく「全部保存するか、何も保存しないか」：
+   * 1. 送金が取り消し済みなら、何も保存せずに例外を投げる（並行する取り消しが先に保存された場合）
+   * 2. 管理者が強制した取り消しでなければ、persistTransfer と同じく残高を再チェックする
+   * 3. アクティビティと記録を保存し、送金を取り消し済みにする
+   */
+  persistReversal(reversal: TransferReversal, accounts: readonly Account[]): Promise<void> {
+    // 1. 二重の取り消しを防ぐ
+    const transferData = this.transfers.get(reversal.transferId.getValue());
+    if (transferData?.status !== 'COMPLETED') {
+      return Promise.reject(new TransferAlreadyReversedException(reversal.transferId));
+    }
+
+    // 2-3. 残高を再チェックして保存
+    return this.persistNewActivities(accounts, !reversal.forced).then(() => {
+      transferData.status = 'REVERSED';
+      this.reversals.push(reversal);
+    });
+  }
+
+  /**
+   * 送金の記録を読み込む
+   */
+  loadTransfer(transferId: TransferId): Promise<Transfer | null> {
+    const data = this.transfers.get(transferId.getValue());
+    if (!data) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(
+        Transfer.restore(
+            new TransferId(data.id),
+            new AccountId(data.sourceAccountId),
+            new AccountId(data.targetAccountId),
+            data.amount,
+            data.fee,
+            data.depositedAmount,
+            data.reference,
+            data.createdAt,
+            data.status
+        )
+    );
+  }
+
+  /**
+   * 送金にひも付くアクティビティを読み込む（ID の昇順）
+   */
+  loadTransferActivities(transferId: TransferId): Promise<Activity[]> {
+    return Promise.resolve(
+        this.activities
+            .filter((a) => a.transferId === transferId.getValue())
+            .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+            .map((a) => this.toDomainActivity(a))
+    );
+  }
+
+  /**
+   * 新規アクティビティをまとめて保存（送金と取り消しで共通）
+   *
+   * @param checkBalance 出金が発生したアカウントの残高を再チェックする場合は true
+   */
+  private persistNewActivities(accounts: readonly Account[], checkBalance: boolean): Promise<void> {
+    const newActivities = accounts.flatMap((account) => account.getNewActivities());
+    const newActivityData = newActivities.map((activity) => ({
+      timestamp: activity.getTimestamp(),
+      ownerAccountId: activity.getOwnerAccountId().getValue(),
+      sourceAccountId: activity.getSourceAccountId()?.getValue() ?? null,
+      targetAccountId: activity.getTargetAccountId()?.getValue() ?? null,
+      amount: activity.getMoney().getAmount(),
+      currency: activity.getMoney().getCurrency(),
+      conversion: activity.getConversion(),
+      reversalOf: activity.getReversalOf()?.getValue() ?? null,
+      transferId: activity.getTransferId()?.getValue() ?? null,
+      remittance: activity.getRemittance(),
+    }));
+
+    // 1-2. 保存後の残高を再チェック
+    for (const account of accounts) {
+      const accountId = account.getId();
+      const attemptedAmount = account.getNewWithdrawalTotal();
+      if (!checkBalance || !accountId || !attemptedAmount.isPositive()) {
+        continue;
+      }
+
+      const balanceAfter = calculateStoredBalance(
+          accountId.getValue(),
+          [...this.activities, ...newActivityData]
+      );
+      // 限度額はストアの値で判定する（Supabase版が accounts.overdraft_limit を使うのと同じ）
+      const overdraftLimit = this.accounts.get(accountId.getValue())?.overdraftLimit ?? 0n;
+
+      if (balanceAfter < -overdraftLimit) {
+        return Promise.reject(
+            new InsufficientBalanceException(
+                accountId,
+                attemptedAmount,
+                Money.of(balanceAfter, account.getCurrency()).plus(attemptedAmount),
+                Money.of(overdraftLimit, account.getCurrency())
+            )
+        );
+      }
+    }
+
+    // 3. まとめて保存
+    for (const data of newActivityData) {
+      this.activities.push({ id: this.nextActivityId++, ...data });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * アクティビティ履歴を1ページ分読み込む
+   *
+   * (timestamp, id) の降順に並べ、カーソルより後ろの要素から limit 件を返す。
+   * 向きの判定はドメインモデル（Activity.getDirectionFor）に任せる。
+   */
+  loadActivities(criteria: ActivitySearchCriteria): Promise<ActivitySlice> {
+    const accountId = criteria.accountId;
+    if (!this.accounts.has(accountId.getValue())) {
+      return Promise.reject(new AccountNotFoundException(accountId));
+    }
+
+    const directions = criteria.directions ?? [];
+    const cursor = criteria.cursor;
+
+    const matched = this.activities
+        .filter(
+            (a) =>
+                a.ownerAccountId === accountId.getValue() &&
+                (!criteria.from || a.timestamp >= criteria.from) &&
+                (!criteria.to || a.timestamp < criteria.to)
+        )
+        .sort((a, b) => compareNewestFirst(a, b))
+        .filter(
+            (a) =>
+                !cursor ||
+                a.timestamp < cursor.timestamp ||
+                (a.timestamp.getTime() === cursor.timestamp.getTime() &&
+                    a.id < cursor.activityId.getValue())
+        )
+        .filter(
+            (a) =>
+                directions.length === 0 ||
+                directions.includes(this.toDomainActivity(a).getDirectionFor(accountId))
+        );
+
+    const page = matched.slice(0, criteria.limit);
+    const last = page.at(-1);
+
+    return Promise.resolve({
+      activities: page.map((a) => this.toDomainActivity(a)),
+      nextCursor: matched.length > criteria.limit && last
+          ? { timestamp: last.timestamp, activityId: new ActivityId(last.id) }
+          : null,
+    });
+  }
+
+  /**
+   * ストアのデータをActivityドメインモデルに変換
+   */
+  private toDomainActivity(a: ActivityData): Activity {
+    return Activity.withId(
+        new ActivityId(a.id),
+        new AccountId(a.ownerAccountId),
+        a.sourceAccountId !== null ? new AccountId(a.sourceAccountId) : null,
+        a.targetAccountId !== null ? new AccountId(a.targetAccountId) : null,
+        a.timestamp,
+        Money.of(a.amount, a.currency),
+        a.conversion,
+        a.reversalOf !== null ? new ActivityId(a.reversalOf) : null,
+        a.transferId !== null ? new TransferId(a.transferId) : null,
+        a.remittance
+    );
+  }
+}
+
+/**
+ * ストア上のアクティビティから残高を計算する
+ * （同一アカウント内の送金は相殺、外部との入出金も含む）
+ */
+function calculateStoredBalance(
+    accountId: bigint,
+    activities: readonly Omit<ActivityData, 'id'>[]
+): bigint {
+  return activities
+      .filter((a) => a.ownerAccountId === accountId)
+      .reduce((sum, a) => {
+        const isTarget = a.targetAccountId === accountId;
+        const isSource = a.sourceAccountId === accountId;
+        if (isTarget && !isSource) {
+          return sum + a.amount;
+        }
+        if (isSource && !isTarget) {
+          return sum - a.amount;
+        }
+        return sum;
+      }, 0n);
+}
+
+/**
+ * (timestamp, id) の降順に並べるための比較関数
+ */
+function compareNewestFirst(a: ActivityData, b: ActivityData): number {
+  const byTimestamp = b.timestamp.getTime() - a.timestamp.getTime();
+  if (byTimestamp !== 0) {
+    return byTimestamp;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
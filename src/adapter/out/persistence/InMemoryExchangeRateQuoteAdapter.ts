@@ -0,0 +1,23 @@
+import { injectable } from 'tsyringe';
+import type { ExchangeRateQuote } from '../../../application/domain/model/ExchangeRateQuote';
+import type { ExchangeRateQuotePort } from '../../../application/port/out/ExchangeRateQuotePort';
+
+/**
+ * インメモリ為替見積もり永続化アダプター
+ * 開発・テスト用の簡易実装
+ *
+ * 期限切れの見積もりも削除せずに残す（期限の判定はアプリケーション層が行う）
+ */
+@injectable()
+export class InMemoryExchangeRateQuoteAdapter implements ExchangeRateQuotePort {
+  private quotes = new Map<string, ExchangeRateQuote>();
+
+  saveQuote(quote: ExchangeRateQuote): Promise<void> {
+    this.quotes.set(quote.id, quote);
+    return Promise.resolve();
+  }
+
+  loadQuote(quoteId: string): Promise<ExchangeRateQuote | null> {
+    return Promise.resolve(this.quotes.get(quoteId) ?? null);
+  }
+}
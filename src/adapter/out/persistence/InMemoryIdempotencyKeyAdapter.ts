@@ -0,0 +1,60 @@
+import { injectable } from 'tsyringe';
+import type { IdempotencyKeyPort, IdempotencyRecord, IdempotentResponse } from '../../../application/port/out/IdempotencyKeyPort';
+
+/**
+ * インメモリ冪等性キー永続化アダプター
+ * 開発・テスト用の簡易実装
+ *
+ * JavaScript はシングルスレッドなので、Map の確認と登録の間に
+ * 他のリクエストが割り込むことはない（予約はアトミックになる）
+ */
+@injectable()
+export class InMemoryIdempotencyKeyAdapter implements IdempotencyKeyPort {
+  private records = new Map<string, IdempotencyRecord>();
+
+  reserveKey(key: string, requestFingerprint: string): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    const now = new Date();
+    this.records.set(key, {
+      key,
+      requestFingerprint,
+      response: null,
+      createdAt: now,
+      reservedAt: now,
+    });
+
+    return Promise.resolve(null);
+  }
+
+  reclaimKey(key: string, staleBefore: Date): Promise<boolean> {
+    const existing = this.records.get(key);
+    if (existing?.response !== null || existing.reservedAt >= staleBefore) {
+      return Promise.resolve(false);
+    }
+
+    this.records.set(key, { ...existing, reservedAt: new Date() });
+
+    return Promise.resolve(true);
+  }
+
+  saveResponse(key: string, response: IdempotentResponse): Promise<void> {
+    const existing = this.records.get(key);
+    if (existing) {
+      this.records.set(key, { ...existing, response });
+    }
+
+    return Promise.resolve();
+  }
+
+  releaseKey(key: string): Promise<void> {
+    if (this.records.get(key)?.response === null) {
+      this.records.delete(key);
+    }
+
+    return Promise.resolve();
+  }
+}
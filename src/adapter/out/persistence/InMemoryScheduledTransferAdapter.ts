@@ -0,0 +1,82 @@
+import { injectable } from 'tsyringe';
+import type { AccountId } from '../../../application/domain/model/Activity';
+import type { ScheduledTransfer } from '../../../application/domain/model/ScheduledTransfer';
+import type { ScheduledTransferStatus } from '../../../application/domain/model/ScheduledTransferStatus';
+import type { ScheduledTransferPort } from '../../../application/port/out/ScheduledTransferPort';
+import type { ScheduledTransferRecord } from './entities/ScheduledTransferRecord';
+import { toScheduledTransfer, toScheduledTransferRecord } from './mappers/ScheduledTransferMapper';
+
+/**
+ * インメモリ予約送金永続化アダプター
+ * 開発・テスト用の簡易実装
+ *
+ * エンティティそのものではなくレコード（値のコピー）を保持する
+ * （呼び出し側がエンティティの状態を変えても、保存するまでストアに反映されないようにするため）
+ */
+@injectable()
+export class InMemoryScheduledTransferAdapter implements ScheduledTransferPort {
+  private records = new Map<string, ScheduledTransferRecord>();
+
+  saveScheduledTransfer(scheduledTransfer: ScheduledTransfer): Promise<void> {
+    this.records.set(scheduledTransfer.id, toScheduledTransferRecord(scheduledTransfer));
+    return Promise.resolve();
+  }
+
+  loadScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer | null> {
+    const record = this.records.get(scheduledTransferId);
+    return Promise.resolve(record ? toScheduledTransfer(record) : null);
+  }
+
+  loadScheduledTransfers(
+      sourceAccountId: AccountId,
+      status: ScheduledTransferStatus | null
+  ): Promise<ScheduledTransfer[]> {
+    return Promise.resolve(
+        this.sortedByExecuteAt()
+            .filter((record) => BigInt(record.source_account_id) === sourceAccountId.getValue())
+            .filter((record) => status === null || record.status === status)
+            .map(toScheduledTransfer)
+    );
+  }
+
+  loadDueScheduledTransfers(now: Date, limit: number): Promise<ScheduledTransfer[]> {
+    return Promise.resolve(
+        this.sortedByExecuteAt()
+            .filter((record) => record.status === 'PENDING' && new Date(record.execute_at) <= now)
+            .slice(0, limit)
+            .map(toScheduledTransfer)
+    );
+  }
+
+  loadStaleProcessingScheduledTransfers(startedBefore: Date, limit: number): Promise<ScheduledTransfer[]> {
+    return Promise.resolve(
+        [...this.records.values()]
+            .filter((record) => record.status === 'PROCESSING'
+                && record.processing_started_at !== null
+                && new Date(record.processing_started_at) < startedBefore)
+            // ISO 8601 の文字列なので、文字列の順序が時刻の順序になる
+            .sort((a, b) => (a.processing_started_at ?? '').localeCompare(b.processing_started_at ?? ''))
+            .slice(0, limit)
+            .map(toScheduledTransfer)
+    );
+  }
+
+  updateScheduledTransfer(
+      scheduledTransfer: ScheduledTransfer,
+      expectedStatus: ScheduledTransferStatus
+  ): Promise<boolean> {
+    const stored = this.records.get(scheduledTransfer.id);
+    if (stored?.status !== expectedStatus) {
+      return Promise.resolve(false);
+    }
+
+    this.records.set(scheduledTransfer.id, toScheduledTransferRecord(scheduledTransfer));
+    return Promise.resolve(true);
+  }
+
+  private sortedByExecuteAt(): ScheduledTransferRecord[] {
+    return [...this.records.values()].sort(
+        (a, b) => new Date(a.execute_at).getTime() - new Date(b.execute_at).getTime()
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { injectable } from 'tsyringe';
+import type { AccountId } from '../../../application/domain/model/Activity';
+import type { StandingOrder } from '../../../application/domain/model/StandingOrder';
+import type { StandingOrderRun } from '../../../application/domain/model/StandingOrderRun';
+import type { StandingOrderStatus } from '../../../application/domain/model/StandingOrderStatus';
+import type { StandingOrderPort } from '../../../application/port/out/StandingOrderPort';
+import type { StandingOrderRecord } from './entities/StandingOrderRecord';
+import type { StandingOrderRunRecord } from './entities/StandingOrderRunRecord';
+import {
+  toStandingOrder,
+  toStandingOrderRecord,
+  toStandingOrderRun,
+  toStandingOrderRunRecord,
+} from './mappers/StandingOrderMapper';
+
+/**
+ * インメモリ定期送金永続化アダプター
+ * 開発・テスト用の簡易実装
+ *
+ * エンティティそのものではなくレコード（値のコピー）を保持する
+ * （呼び出し側がエンティティの状態を変えても、保存するまでストアに反映されないようにするため）
+ */
+@injectable()
+export class InMemoryStandingOrderAdapter implements StandingOrderPort {
+  private records = new Map<string, StandingOrderRecord>();
+  private runRecords: StandingOrderRunRecord[] = [];
+
+  saveStandingOrder(standingOrder: StandingOrder): Promise<void> {
+    this.records.set(standingOrder.id, toStandingOrderRecord(standingOrder));
+    return Promise.resolve();
+  }
+
+  loadStandingOrder(standingOrderId: string): Promise<StandingOrder | null> {
+    const record = this.records.get(standingOrderId);
+    return Promise.resolve(record ? toStandingOrder(record) : null);
+  }
+
+  loadStandingOrders(sourceAccountId: AccountId, status: StandingOrderStatus | null): Promise<StandingOrder[]> {
+    // Map は挿入順を保つので、作成した順になる
+    return Promise.resolve(
+        [...this.records.values()]
+            .filter((record) => BigInt(record.source_account_id) === sourceAccountId.getValue())
+            .filter((record) => status === null || record.status === status)
+            .map(toStandingOrder)
+    );
+  }
+
+  loadDueStandingOrders(now: Date, limit: number): Promise<StandingOrder[]> {
+    return Promise.resolve(
+        [...this.records.values()]
+            .filter((record) => record.status === 'ACTIVE' && new Date(record.next_run_at) <= now)
+            .sort((a, b) => new Date(a.next_run_at).getTime() - new Date(b.next_run_at).getTime())
+            .slice(0, limit)
+            .map(toStandingOrder)
+    );
+  }
+
+  loadStaleRunningStandingOrders(startedBefore: Date, limit: number): Promise<StandingOrder[]> {
+    return Promise.resolve(
+        [...this.records.values()]
+            .filter((record) => record.status === 'RUNNING'
+                && record.run_started_at !== null
+                && new Date(record.run_started_at) < startedBefore)
+            // ISO 8601 の文字列なので、文字列の順序が時刻の順序になる
+            .sort((a, b) => (a.run_started_at ?? '').localeCompare(b.run_started_at ?? ''))
+            .slice(0, limit)
+            .map(toStandingOrder)
+    );
+  }
+
+  updateStandingOrder(standingOrder: StandingOrder, expectedStatus: StandingOrderStatus): Promise<boolean> {
+    const stored = this.records.get(standingOrder.id);
+    if (stored?.status !== expectedStatus) {
+      return Promise.resolve(false);
+    }
+
+    this.records.set(standingOrder.id, toStandingOrderRecord(standingOrder));
+    return Promise.resolve(true);
+  }
+
+  saveStandingOrderRun(run: StandingOrderRun): Promise<void> {
+    this.runRecords.push(toStandingOrderRunRecord(run));
+    return Promise.resolve();
+  }
+
+  loadStandingOrderRuns(standingOrderId: string, limit: number): Promise<StandingOrderRun[]> {
+    // 保存した順に並んでいるので、逆順にすれば新しい順になる
+    return Promise.resolve(
+        this.runRecords
+            .filter((record) => record.standing_order_id === standingOrderId)
+            .reverse()
+            .slice(0, limit)
+            .map(toStandingOrderRun)
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import {injectable} from 'tsyringe';
+import {AccountLockTimeoutException} from '../../../application/domain/exception/AccountLockTimeoutException';
+import type {AccountId} from '../../../application/domain/model/Activity';
+import type {AccountLock, AccountLockOptions, LockToken} from '../../../application/port/out/AccountLock';
+import {DEFAULT_LOCK_TIMEOUT_MS} from '../../../application/port/out/AccountLock';
+
+/**
+ * プロセス内（Worker の1インスタンス内）で完結するアカウントロック
+ *
+ * InMemory モード用。データもメモリ上にしかないため、
+ * 同じインスタンス内の並行リクエストを直列化できれば十分。
+ *
+ * DIコンテナにはシングルトンとして登録すること
+ * （リクエストごとに別インスタンスだとロックが共有されない）
+ */
+@injectable()
+export class InProcessAccountLock implements AccountLock {
+    /**
+     * アカウントIDごとの現在のロックトークン
+     */
+    private readonly holders = new Map<bigint, LockToken>();
+
+    /**
+     * アカウントIDごとの、解放を待っている要求
+     */
+    private readonly waiters = new Map<bigint, (() => void)[]>();
+
+    async lockAccount(accountId: AccountId, options: AccountLockOptions = {}): Promise<LockToken> {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+        const key = accountId.getValue();
+        const deadline = Date.now() + timeoutMs;
+
+        while (this.holders.has(key)) {
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new AccountLockTimeoutException(accountId, timeoutMs);
+            }
+            await this.waitForRelease(key, remaining);
+        }
+
+        const token = crypto.randomUUID();
+        this.holders.set(key, token);
+        return token;
+    }
+
+    releaseAccount(accountId: AccountId, token: LockToken): Promise<void> {
+        const key = accountId.getValue();
+        if (this.holders.get(key) !== token) {
+            return Promise.resolve();
+        }
+
+        this.holders.delete(key);
+
+        // 待っている要求を1つだけ起こす（到着順）
+        this.waiters.get(key)?.shift()?.();
+
+        return Promise.resolve();
+    }
+
+    /**
+     * リースのないロックなので、保持していれば true を返すだけ
+     */
+    renewAccount(accountId: AccountId, token: LockToken): Promise<boolean> {
+        return Promise.resolve(this.holders.get(accountId.getValue()) === token);
+    }
+
+    /**
+     * ロックが解放されるか、指定時間が経過するまで待つ
+     */
+    private waitForRelease(key: bigint, waitMs: number): Promise<void> {
+        return new Promise((resolve) => {
+            const queue = this.waiters.get(key) ?? [];
+            this.waiters.set(key, queue);
+
+            const wake = () => {
+                clearTimeout(timer);
+                const index = queue.indexOf(wake);
+                if (index >= 0) {
+                    queue.splice(index, 1);
+                }
+                if (queue.length === 0) {
+                    this.waiters.delete(key);
+                }
+                resolve();
+            };
+            const timer = setTimeout(wake, waitMs);
+            queue.push(wake);
+        });
+    }
+}
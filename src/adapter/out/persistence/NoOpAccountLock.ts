@@ -1,20 +1,28 @@
 import { injectable } from 'tsyringe';
 import { AccountId } from '../../../application/domain/model/Activity';
-import { AccountLock as AccountLockInterface } from '../../../application/port/out/AccountLock';
+import { AccountLock as AccountLockInterface, LockToken } from '../../../application/port/out/AccountLock';
 
 /**
  * アカウントロックのNo-Op実装
- * 実際のロック処理は行わない（単一インスタンス環境用）
- * 
- * 本番環境では分散ロック（Redis等）を使った実装に置き換える
+ * 実際のロック処理は行わない（ロックが不要なテスト用）
+ *
+ * 本番環境では DurableObjectAccountLock、
+ * InMemory モードでは InProcessAccountLock を使う
  */
 @injectable()
 export class NoOpAccountLock implements AccountLockInterface {
-  lockAccount(_accountId: AccountId): void {
+  lockAccount(_accountId: AccountId): Promise<LockToken> {
     // 何もしない
+    return Promise.resolve('no-op');
   }
 
-  releaseAccount(_accountId: AccountId): void {
+  releaseAccount(_accountId: AccountId, _token: LockToken): Promise<void> {
     // 何もしない
+    return Promise.resolve();
+  }
+
+  renewAccount(_accountId: AccountId, _token: LockToken): Promise<boolean> {
+    // 何もしない
+    return Promise.resolve(true);
   }
 }
@@ -1,11 +1,39 @@
 import {inject, injectable} from 'tsyringe';
+import type {Json} from '../../../../supabase/database';
+import {AccountNotFoundException} from '../../../application/domain/exception/AccountNotFoundException';
+import {InsufficientBalanceException} from '../../../application/domain/exception/InsufficientBalanceException';
+import {TransferAlreadyReversedException} from '../../../application/domain/exception/TransferAlreadyReversedException';
 import {Account} from '../../../application/domain/model/Account';
-import {AccountId} from '../../../application/domain/model/Activity';
+import {AccountId, Activity, ActivityDirection, ActivityId} from '../../../application/domain/model/Activity';
+import {Currency} from '../../../application/domain/model/Currency';
+import {Money} from '../../../application/domain/model/Money';
+import {Transfer, TransferId} from '../../../application/domain/model/Transfer';
+import {TransferReversal} from '../../../application/domain/model/TransferReversal';
+import {CreateAccountPort} from '../../../application/port/out/CreateAccountPort';
 import {LoadAccountPort} from '../../../application/port/out/LoadAccountPort';
+import {ActivitySearchCriteria, ActivitySlice, LoadActivitiesPort} from '../../../application/port/out/LoadActivitiesPort';
+import {LoadTransferPort} from '../../../application/port/out/LoadTransferPort';
+import {PersistTransferPort} from '../../../application/port/out/PersistTransferPort';
+import {TransferReversalPort} from '../../../application/port/out/TransferReversalPort';
+import {UpdateAccountOverdraftLimitPort} from '../../../application/port/out/UpdateAccountOverdraftLimitPort';
 import {UpdateAccountStatePort} from '../../../application/port/out/UpdateAccountStatePort';
+import {UpdateAccountStatusPort} from '../../../application/port/out/UpdateAccountStatusPort';
+import {UpdateAccountTierPort} from '../../../application/port/out/UpdateAccountTierPort';
 import {SupabaseClientToken, TypedSupabaseClient} from '../../../config/types';
 import {AccountAggregateRecord} from './entities/AccountRecord';
-import {toDomain, toActivityRecords, calculateBaselineBalance} from './mappers/AccountMapper';
+import {toDomain, toActivityDomains, toActivityRecords, calculateBaselineBalance} from './mappers/AccountMapper';
+import {toTransfer, toTransferRecord} from './mappers/TransferMapper';
+import {toTransferReversalRecord} from './mappers/TransferReversalMapper';
+
+/**
+ * PostgREST のエラーコード: .single() で1件も見つからなかった
+ */
+const NO_ROWS_ERROR_CODE = 'PGRST116';
+
+/**
+ * PostgreSQL のエラーコード: 一意制約違反
+ */
+const UNIQUE_VIOLATION_ERROR_CODE = '23505';
 
 /**
  * Supabaseを使用したアカウント永続化アダプター（双方向モデル変換版）
@@ -18,7 +46,8 @@ import {toDomain, toActivityRecords, calculateBaselineBalance} from './mappers/A
  * 5. 「何を保存するか」の判断（ビジネスロジック）
  */
 @injectable()
-export class SupabaseAccountPersistenceAdapter implements LoadAccountPort, UpdateAccountStatePort {
+export class SupabaseAccountPersistenceAdapter
+    implements LoadAccountPort, UpdateAccountStatePort, LoadActivitiesPort, PersistTransferPort, CreateAccountPort, UpdateAccountStatusPort, UpdateAccountTierPort, UpdateAccountOverdraftLimitPort, TransferReversalPort, LoadTransferPort {
 
     constructor(
         @inject(SupabaseClientToken) private readonly supabase: TypedSupabaseClient
@@ -36,15 +65,20 @@ export class SupabaseAccountPersistenceAdapter implements LoadAccountPort, Updat
     async loadAccount(accountId: AccountId, baselineDate: Date): Promise<Account> {
         const accountIdNum = Number(accountId.getValue());
 
-        // 1. アカウントの存在確認
-        const {error: accountError} = await this.supabase
+        // 1. アカウントの存在確認（状態・区分・当座貸越の限度額も一緒に取得）
+        const {data: accountRecord, error: accountError} = await this.supabase
             .from('accounts')
-            .select('id')
+            .select('id, status, tier, currency, overdraft_limit')
             .eq('id', accountIdNum)
             .single();
 
         if (accountError) {
-            throw new Error(`Account not found: ${accountId.getValue().toString()}`);
+            // .single() で0件だった場合は PGRST116（アカウントが存在しない）
+            // それ以外は DB 側のエラーなので、不在とは区別する
+            if (accountError.code === NO_ROWS_ERROR_CODE) {
+                throw new AccountNotFoundException(accountId);
+            }
+            throw new Error(`Failed to load account: ${accountError.message}`);
         }
 
         // 2. baselineDate以降のアクティビティを取得
@@ -80,7 +114,7 @@ export class SupabaseAccountPersistenceAdapter implements LoadAccountPort, Updat
 
         // 5. 集約レコードを作成
         const accountAggregateRecord: AccountAggregateRecord = {
-            account: {id: accountIdNum},
+            account: accountRecord,
             activities: activitiesAfterBaseline,
             baselineBalance: Number(baselineBalance),
         };
@@ -120,4 +154,379 @@ export class SupabaseAccountPersistenceAdapter implements LoadAccountPort, Updat
 
         console.log(`✅ Inserted ${activityRecords.length.toString()} new activities`);
     }
-}
\ No newline at end of file
+
+    /**
+     * 送金の記録と、送金に関係するアカウントの新規アクティビティをまとめて保存
+     *
+     * 処理の流れ：
+     * 1. 全アカウントの新規アクティビティを集める
+     * 2. 出金が発生したアカウントを残高チェック対象にする
+     * 3. persist_transfer 関数（RPC）で送金の記録とアクティビティの挿入・残高チェックを1トランザクションで実行
+     * 4. 残高不足なら InsufficientBalanceException に変換
+     */
+    async persistTransfer(transfer: Transfer, accounts: readonly Account[]): Promise<void> {
+        // 1. 新規アクティビティを集める
+        const newActivities = accounts.flatMap((account) => account.getNewActivities());
+
+        if (newActivities.length === 0) {
+            return;
+        }
+
+        // 2. 出金が発生したアカウントを残高チェック対象にする
+        const balanceCheckAccountIds = accounts
+            .filter((account) => account.getNewWithdrawalTotal().isPositive())
+            .map((account) => Number(account.getId()?.getValue()));
+
+        // 3. 1トランザクションで挿入と残高チェックを実行
+        const {error} = await this.supabase.rpc('persist_transfer', {
+            p_transfer: toTransferRecord(transfer) as unknown as Json,
+            p_activities: toActivityRecords(newActivities) as unknown as Json,
+            p_balance_check_account_ids: balanceCheckAccountIds,
+        });
+
+        if (!error) {
+            console.log(`✅ Inserted ${newActivities.length.toString()} new activities in one transaction`);
+            return;
+        }
+
+        // 4. 残高不足をドメイン例外に変換
+        if (error.message === INSUFFICIENT_BALANCE_ERROR) {
+            throw toInsufficientBalanceException(error.details, accounts);
+        }
+
+        throw new Error(`Failed to persist transfer: ${error.message}`);
+    }
+
+    /**
+     * 複数の送金の記録と、送金に関係するアカウントの新規アクティビティをまとめて保存（一括送金用）
+     *
+     * persistTransfer と同じ流れで、persist_transfers 関数（RPC）がすべての送金の記録と
+     * アクティビティの挿入・残高チェックを1トランザクションで実行する
+     */
+    async persistTransfers(transfers: readonly Transfer[], accounts: readonly Account[]): Promise<void> {
+        // 1. 新規アクティビティを集める
+        const newActivities = accounts.flatMap((account) => account.getNewActivities());
+
+        if (newActivities.length === 0) {
+            return;
+        }
+
+        // 2. 出金が発生したアカウントを残高チェック対象にする
+        const balanceCheckAccountIds = accounts
+            .filter((account) => account.getNewWithdrawalTotal().isPositive())
+            .map((account) => Number(account.getId()?.getValue()));
+
+        // 3. 1トランザクションで挿入と残高チェックを実行
+        const {error} = await this.supabase.rpc('persist_transfers', {
+            p_transfers: transfers.map(toTransferRecord) as unknown as Json,
+            p_activities: toActivityRecords(newActivities) as unknown as Json,
+            p_balance_check_account_ids: balanceCheckAccountIds,
+        });
+
+        if (!error) {
+            console.log(`✅ Inserted ${transfers.length.toString()} transfers with ${newActivities.length.toString()} new activities in one transaction`);
+            return;
+        }
+
+        // 4. 残高不足をドメイン例外に変換
+        if (error.message === INSUFFICIENT_BALANCE_ERROR) {
+            throw toInsufficientBalanceException(error.details, accounts);
+        }
+
+        throw new Error(`Failed to persist transfers: ${error.message}`);
+    }
+
+    /**
+     * 取り消しのアクティビティと取り消しの記録をまとめて保存
+     *
+     * 処理の流れ：
+     * 1. 全アカウントの新規アクティビティ（取り消しのアクティビティ）を集める
+     * 2. 管理者が強制した取り消しでなければ、出金が発生したアカウントを残高チェック対象にする
+     * 3. reverse_transfer 関数（RPC）で記録の挿入・アクティビティの挿入・残高チェック・送金の状態の更新を1トランザクションで実行
+     * 4. 取り消し済み（状態の更新の失敗・一意制約違反）と残高不足をドメイン例外に変換
+     */
+    async persistReversal(reversal: TransferReversal, accounts: readonly Account[]): Promise<void> {
+        // 1. 取り消しのアクティビティを集める
+        const newActivities = accounts.flatMap((account) => account.getNewActivities());
+
+        // 2. 強制した取り消しは残高をチェックしない
+        const balanceCheckAccountIds = reversal.forced
+            ? []
+            : accounts
+                .filter((account) => account.getNewWithdrawalTotal().isPositive())
+                .map((account) => Number(account.getId()?.getValue()));
+
+        // 3. 1トランザクションで保存
+        const {error} = await this.supabase.rpc('reverse_transfer', {
+            p_reversal: toTransferReversalRecord(reversal) as unknown as Json,
+            p_activities: toActivityRecords(newActivities) as unknown as Json,
+            p_balance_check_account_ids: balanceCheckAccountIds,
+        });
+
+        if (!error) {
+            console.log(`✅ Reversed transfer ${reversal.transferId.toString()} with ${newActivities.length.toString()} activities`);
+            return;
+        }
+
+        // 4. ドメイン例外に変換
+        // （transfers.status が COMPLETED でなかった場合と、
+        //   activities.reversal_of_activity_id・transfer_reversals.transfer_id の一意制約）
+        if (error.message === TRANSFER_ALREADY_REVERSED_ERROR || error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+            throw new TransferAlreadyReversedException(reversal.transferId);
+        }
+
+        if (error.message === INSUFFICIENT_BALANCE_ERROR) {
+            throw toInsufficientBalanceException(error.details, accounts);
+        }
+
+        throw new Error(`Failed to persist transfer reversal: ${error.message}`);
+    }
+
+    /**
+     * 送金の記録を読み込む
+     */
+    async loadTransfer(transferId: TransferId): Promise<Transfer | null> {
+        const {data, error} = await this.supabase
+            .from('transfers')
+            .select('*')
+            .eq('id', transferId.getValue())
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load transfer: ${error.message}`);
+        }
+
+        return data ? toTransfer(data) : null;
+    }
+
+    /**
+     * 送金にひも付くアクティビティを読み込む（ID の昇順）
+     */
+    async loadTransferActivities(transferId: TransferId): Promise<Activity[]> {
+        const {data, error} = await this.supabase
+            .from('activities')
+            .select('*')
+            .eq('transfer_id', transferId.getValue())
+            .order('id', {ascending: true});
+
+        if (error) {
+            throw new Error(`Failed to load transfer activities: ${error.message}`);
+        }
+
+        return toActivityDomains(data);
+    }
+
+    /**
+     * アカウントを新規作成
+     *
+     * IDは accounts_id_seq で採番される
+     */
+    async createAccount(account: Account): Promise<AccountId> {
+        const {data, error} = await this.supabase
+            .from('accounts')
+            .insert({
+                status: account.getStatus(),
+                tier: account.getTier(),
+                currency: account.getCurrency().code,
+                overdraft_limit: Number(account.getOverdraftLimit().getAmount()),
+            })
+            .select('id')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to create account: ${error.message}`);
+        }
+
+        return new AccountId(BigInt(data.id));
+    }
+
+    /**
+     * アカウントの状態を保存
+     */
+    async updateAccountStatus(account: Account): Promise<void> {
+        const accountId = account.getId();
+        if (!accountId) {
+            throw new Error('Cannot update status of an account without ID');
+        }
+
+        const {error} = await this.supabase
+            .from('accounts')
+            .update({status: account.getStatus()})
+            .eq('id', Number(accountId.getValue()));
+
+        if (error) {
+            throw new Error(`Failed to update account status: ${error.message}`);
+        }
+    }
+
+    /**
+     * アカウントの区分を保存
+     */
+    async updateAccountTier(account: Account): Promise<void> {
+        const accountId = account.getId();
+        if (!accountId) {
+            throw new Error('Cannot update tier of an account without ID');
+        }
+
+        const {error} = await this.supabase
+            .from('accounts')
+            .update({tier: account.getTier()})
+            .eq('id', Number(accountId.getValue()));
+
+        if (error) {
+            throw new Error(`Failed to update account tier: ${error.message}`);
+        }
+    }
+
+    /**
+     * アカウントの当座貸越の限度額を保存
+     */
+    async updateAccountOverdraftLimit(account: Account): Promise<void> {
+        const accountId = account.getId();
+        if (!accountId) {
+            throw new Error('Cannot update overdraft limit of an account without ID');
+        }
+
+        const {error} = await this.supabase
+            .from('accounts')
+            .update({overdraft_limit: Number(account.getOverdraftLimit().getAmount())})
+            .eq('id', Number(accountId.getValue()));
+
+        if (error) {
+            throw new Error(`Failed to update account overdraft limit: ${error.message}`);
+        }
+    }
+
+    /**
+     * アクティビティ履歴を1ページ分読み込む
+     *
+     * 処理の流れ：
+     * 1. owner_account_id と timestamp で絞り込む（idx_activities_owner_timestamp を使用）
+     * 2. 向きとカーソルの条件を PostgREST の or フィルタで追加
+     * 3. (timestamp, id) の降順で limit + 1 件取得し、次ページの有無を判定
+     * 4. Mapperでドメインモデルに変換
+     */
+    async loadActivities(criteria: ActivitySearchCriteria): Promise<ActivitySlice> {
+        const accountIdNum = Number(criteria.accountId.getValue());
+
+        // 1. アカウントの存在確認（存在しないアカウントを空の履歴として返さない）
+        const {error: accountError} = await this.supabase
+            .from('accounts')
+            .select('id')
+            .eq('id', accountIdNum)
+            .single();
+
+        if (accountError) {
+            if (accountError.code === NO_ROWS_ERROR_CODE) {
+                throw new AccountNotFoundException(criteria.accountId);
+            }
+            throw new Error(`Failed to load account: ${accountError.message}`);
+        }
+
+        // 2. 所有者と期間で絞り込む
+        let query = this.supabase
+            .from('activities')
+            .select('*')
+            .eq('owner_account_id', accountIdNum);
+
+        if (criteria.from) {
+            query = query.gte('timestamp', criteria.from.toISOString());
+        }
+
+        if (criteria.to) {
+            query = query.lt('timestamp', criteria.to.toISOString());
+        }
+
+        // 3. 向きとカーソルの条件（複数の or フィルタは AND で結合される）
+        if (criteria.directions && criteria.directions.length > 0) {
+            query = query.or(
+                criteria.directions.map((direction) => toDirectionFilter(direction, accountIdNum)).join(',')
+            );
+        }
+
+        if (criteria.cursor) {
+            const timestamp = criteria.cursor.timestamp.toISOString();
+            const activityId = criteria.cursor.activityId.toString();
+            query = query.or(
+                `timestamp.lt.${timestamp},and(timestamp.eq.${timestamp},id.lt.${activityId})`
+            );
+        }
+
+        // 4. 新しい順に limit + 1 件取得（1件多く取れたら次ページがある）
+        const {data, error} = await query
+            .order('timestamp', {ascending: false})
+            .order('id', {ascending: false})
+            .limit(criteria.limit + 1);
+
+        if (error) {
+            throw new Error(`Failed to load activities: ${error.message}`);
+        }
+
+        const records = data.slice(0, criteria.limit);
+        const last = records.at(-1);
+
+        // 5. Mapperでドメインモデルに変換
+        return {
+            activities: toActivityDomains(records),
+            nextCursor: data.length > criteria.limit && last
+                ? {timestamp: new Date(last.timestamp), activityId: new ActivityId(BigInt(last.id))}
+                : null,
+        };
+    }
+}
+
+/**
+ * persist_transfer 関数が残高不足時に投げる例外のメッセージ
+ */
+const INSUFFICIENT_BALANCE_ERROR = 'insufficient_balance';
+
+/**
+ * reverse_transfer 関数が、送金が取り消し済み（COMPLETED でない）のときに投げる例外のメッセージ
+ */
+const TRANSFER_ALREADY_REVERSED_ERROR = 'transfer_already_reversed';
+
+/**
+ * persist_transfer 関数の残高不足エラーを InsufficientBalanceException に変換
+ *
+ * details には {"account_id": ..., "balance": ..., "overdraft_limit": ...}（保存後の残高と当座貸越の限度額）が入っている。
+ * 保存前の残高 = 保存後の残高 + 今回の出金額 として復元する。
+ */
+function toInsufficientBalanceException(
+    details: string,
+    accounts: readonly Account[]
+): InsufficientBalanceException {
+    const {account_id: accountIdNum, balance, overdraft_limit: overdraftLimit} = JSON.parse(details) as {
+        account_id: number;
+        balance: number;
+        overdraft_limit: number;
+    };
+    const account = accounts.find((a) => a.getId()?.getValue() === BigInt(accountIdNum));
+    const currency = account?.getCurrency() ?? Currency.JPY;
+    const attemptedAmount = account?.getNewWithdrawalTotal() ?? Money.zero(currency);
+
+    return new InsufficientBalanceException(
+        new AccountId(BigInt(accountIdNum)),
+        attemptedAmount,
+        Money.of(BigInt(balance), currency).plus(attemptedAmount),
+        Money.of(BigInt(overdraftLimit), currency)
+    );
+}
+
+/**
+ * アクティビティの向きを PostgREST のフィルタ式に変換
+ *
+ * Activity.getDirectionFor と同じ判定をDB側で行う：
+ * - external: source または target が null（isExternalDeposit / isExternalWithdrawal）
+ * - incoming: target が自分で、source が null でない（isDepositFor）
+ * - outgoing: source が自分で、target が null でない（isWithdrawalFrom）
+ */
+function toDirectionFilter(direction: ActivityDirection, accountId: number): string {
+    switch (direction) {
+        case 'external':
+            return 'source_account_id.is.null,target_account_id.is.null';
+        case 'incoming':
+            return `and(target_account_id.eq.${accountId.toString()},source_account_id.not.is.null)`;
+        case 'outgoing':
+            return `and(source_account_id.eq.${accountId.toString()},target_account_id.not.is.null,target_account_id.neq.${accountId.toString()})`;
+    }
+}
@@ -0,0 +1,49 @@
+import {inject, injectable} from 'tsyringe';
+import type {ExchangeRateQuote} from '../../../application/domain/model/ExchangeRateQuote';
+import type {ExchangeRateQuotePort} from '../../../application/port/out/ExchangeRateQuotePort';
+import {SupabaseClientToken, TypedSupabaseClient} from '../../../config/types';
+import {toExchangeRateQuote, toExchangeRateQuoteRecord} from './mappers/ExchangeRateQuoteMapper';
+
+/**
+ * Supabaseを使用した為替見積もり永続化アダプター
+ *
+ * 見積もりは作成後に変更しないため、挿入と主キーでの取得のみを行う
+ */
+@injectable()
+export class SupabaseExchangeRateQuoteAdapter implements ExchangeRateQuotePort {
+
+    constructor(
+        @inject(SupabaseClientToken) private readonly supabase: TypedSupabaseClient
+    ) {
+    }
+
+    /**
+     * 見積もりを保存する
+     */
+    async saveQuote(quote: ExchangeRateQuote): Promise<void> {
+        const {error} = await this.supabase
+            .from('exchange_rate_quotes')
+            .insert(toExchangeRateQuoteRecord(quote));
+
+        if (error) {
+            throw new Error(`Failed to save exchange rate quote: ${error.message}`);
+        }
+    }
+
+    /**
+     * 見積もりを読み込む（存在しない場合は null）
+     */
+    async loadQuote(quoteId: string): Promise<ExchangeRateQuote | null> {
+        const {data, error} = await this.supabase
+            .from('exchange_rate_quotes')
+            .select('*')
+            .eq('id', quoteId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load exchange rate quote: ${error.message}`);
+        }
+
+        return data ? toExchangeRateQuote(data) : null;
+    }
+}
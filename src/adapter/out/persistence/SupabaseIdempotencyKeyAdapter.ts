@@ -0,0 +1,110 @@
+import {inject, injectable} from 'tsyringe';
+import type {IdempotencyKeyPort, IdempotencyRecord, IdempotentResponse} from '../../../application/port/out/IdempotencyKeyPort';
+import {SupabaseClientToken, TypedSupabaseClient} from '../../../config/types';
+import {toIdempotencyRecord, toResponseColumns} from './mappers/IdempotencyKeyMapper';
+
+/**
+ * 一意制約違反を表すPostgreSQLのエラーコード
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Supabaseを使用した冪等性キー永続化アダプター
+ *
+ * キーの予約は主キーの一意制約に任せることで、
+ * 同時に届いた同じキーのリクエストのうち1つだけが予約に成功する
+ */
+@injectable()
+export class SupabaseIdempotencyKeyAdapter implements IdempotencyKeyPort {
+
+    constructor(
+        @inject(SupabaseClientToken) private readonly supabase: TypedSupabaseClient
+    ) {
+    }
+
+    /**
+     * 冪等性キーを予約する
+     *
+     * 処理の流れ：
+     * 1. レスポンスなし（処理中）のレコードを挿入
+     * 2. 一意制約違反なら既存レコードを取得して返す
+     */
+    async reserveKey(key: string, requestFingerprint: string): Promise<IdempotencyRecord | null> {
+        // 1. 処理中としてレコードを挿入
+        const {error: insertError} = await this.supabase
+            .from('idempotency_keys')
+            .insert({key, request_fingerprint: requestFingerprint});
+
+        if (!insertError) {
+            return null;
+        }
+
+        if (insertError.code !== UNIQUE_VIOLATION) {
+            throw new Error(`Failed to reserve idempotency key: ${insertError.message}`);
+        }
+
+        // 2. 既存レコードを取得
+        const {data, error} = await this.supabase
+            .from('idempotency_keys')
+            .select('*')
+            .eq('key', key)
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to load idempotency key: ${error.message}`);
+        }
+
+        return toIdempotencyRecord(data);
+    }
+
+    /**
+     * 処理中のまま放置された予約を引き継ぐ
+     *
+     * 「レスポンス未保存かつ reserved_at が staleBefore より前」を条件にした1回の UPDATE で引き継ぐため、
+     * 同時に引き継ごうとしたリクエストのうち1つだけが行を更新できる
+     */
+    async reclaimKey(key: string, staleBefore: Date): Promise<boolean> {
+        const {data, error} = await this.supabase
+            .from('idempotency_keys')
+            .update({reserved_at: new Date().toISOString()})
+            .eq('key', key)
+            .is('response_status', null)
+            .lt('reserved_at', staleBefore.toISOString())
+            .select('key');
+
+        if (error) {
+            throw new Error(`Failed to reclaim idempotency key: ${error.message}`);
+        }
+
+        return data.length > 0;
+    }
+
+    /**
+     * 処理結果のレスポンスを保存する
+     */
+    async saveResponse(key: string, response: IdempotentResponse): Promise<void> {
+        const {error} = await this.supabase
+            .from('idempotency_keys')
+            .update(toResponseColumns(response))
+            .eq('key', key);
+
+        if (error) {
+            throw new Error(`Failed to save idempotent response: ${error.message}`);
+        }
+    }
+
+    /**
+     * 予約を取り消す（レスポンス保存済みのレコードは消さない）
+     */
+    async releaseKey(key: string): Promise<void> {
+        const {error} = await this.supabase
+            .from('idempotency_keys')
+            .delete()
+            .eq('key', key)
+            .is('response_status', null);
+
+        if (error) {
+            throw new Error(`Failed to release idempotency key: ${error.message}`);
+        }
+    }
+}
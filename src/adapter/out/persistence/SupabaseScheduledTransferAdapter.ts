@@ -0,0 +1,140 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../../../application/domain/model/Activity';
+import type {ScheduledTransfer} from '../../../application/domain/model/ScheduledTransfer';
+import type {ScheduledTransferStatus} from '../../../application/domain/model/ScheduledTransferStatus';
+import type {ScheduledTransferPort} from '../../../application/port/out/ScheduledTransferPort';
+import {SupabaseClientToken, TypedSupabaseClient} from '../../../config/types';
+import {toScheduledTransfer, toScheduledTransferRecord} from './mappers/ScheduledTransferMapper';
+
+/**
+ * Supabaseを使用した予約送金永続化アダプター
+ *
+ * 状態の更新は「id と変更前の状態」を条件にした UPDATE で行い、
+ * 更新した行があったかどうかで、他の処理と競合したかを判定する
+ */
+@injectable()
+export class SupabaseScheduledTransferAdapter implements ScheduledTransferPort {
+
+    constructor(
+        @inject(SupabaseClientToken) private readonly supabase: TypedSupabaseClient
+    ) {
+    }
+
+    /**
+     * 新しい予約送金を保存する
+     */
+    async saveScheduledTransfer(scheduledTransfer: ScheduledTransfer): Promise<void> {
+        const {error} = await this.supabase
+            .from('scheduled_transfers')
+            .insert(toScheduledTransferRecord(scheduledTransfer));
+
+        if (error) {
+            throw new Error(`Failed to save scheduled transfer: ${error.message}`);
+        }
+    }
+
+    /**
+     * 予約送金を読み込む（存在しない場合は null）
+     */
+    async loadScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer | null> {
+        const {data, error} = await this.supabase
+            .from('scheduled_transfers')
+            .select('*')
+            .eq('id', scheduledTransferId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load scheduled transfer: ${error.message}`);
+        }
+
+        return data ? toScheduledTransfer(data) : null;
+    }
+
+    /**
+     * 送金元のアカウントの予約送金を、実行日時の昇順で読み込む
+     */
+    async loadScheduledTransfers(
+        sourceAccountId: AccountId,
+        status: ScheduledTransferStatus | null
+    ): Promise<ScheduledTransfer[]> {
+        let query = this.supabase
+            .from('scheduled_transfers')
+            .select('*')
+            .eq('source_account_id', Number(sourceAccountId.getValue()));
+
+        if (status !== null) {
+            query = query.eq('status', status);
+        }
+
+        const {data, error} = await query.order('execute_at', {ascending: true});
+
+        if (error) {
+            throw new Error(`Failed to load scheduled transfers: ${error.message}`);
+        }
+
+        return data.map(toScheduledTransfer);
+    }
+
+    /**
+     * 実行日時を過ぎた PENDING の予約送金を、実行日時の昇順で読み込む
+     */
+    async loadDueScheduledTransfers(now: Date, limit: number): Promise<ScheduledTransfer[]> {
+        const {data, error} = await this.supabase
+            .from('scheduled_transfers')
+            .select('*')
+            .eq('status', 'PENDING')
+            .lte('execute_at', now.toISOString())
+            .order('execute_at', {ascending: true})
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load due scheduled transfers: ${error.message}`);
+        }
+
+        return data.map(toScheduledTransfer);
+    }
+
+    /**
+     * 実行を開始した時刻が startedBefore より前の PROCESSING の予約送金を、実行を開始した時刻の昇順で読み込む
+     */
+    async loadStaleProcessingScheduledTransfers(startedBefore: Date, limit: number): Promise<ScheduledTransfer[]> {
+        const {data, error} = await this.supabase
+            .from('scheduled_transfers')
+            .select('*')
+            .eq('status', 'PROCESSING')
+            .lt('processing_started_at', startedBefore.toISOString())
+            .order('processing_started_at', {ascending: true})
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load stale processing scheduled transfers: ${error.message}`);
+        }
+
+        return data.map(toScheduledTransfer);
+    }
+
+    /**
+     * 保存されている状態が expectedStatus のときだけ、予約送金の状態を更新する
+     */
+    async updateScheduledTransfer(
+        scheduledTransfer: ScheduledTransfer,
+        expectedStatus: ScheduledTransferStatus
+    ): Promise<boolean> {
+        const {
+            status, completed_at, failure_reason, failure_message, transfer_id, processing_started_at,
+        } = toScheduledTransferRecord(scheduledTransfer);
+
+        const {data, error} = await this.supabase
+            .from('scheduled_transfers')
+            .update({status, completed_at, failure_reason, failure_message, transfer_id, processing_started_at})
+            .eq('id', scheduledTransfer.id)
+            .eq('status', expectedStatus)
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to update scheduled transfer: ${error.message}`);
+        }
+
+        return data.length > 0;
+    }
+}
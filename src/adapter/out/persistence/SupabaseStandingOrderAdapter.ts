@@ -0,0 +1,190 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../../../application/domain/model/Activity';
+import type {StandingOrder} from '../../../application/domain/model/StandingOrder';
+import type {StandingOrderRun} from '../../../application/domain/model/StandingOrderRun';
+import type {StandingOrderStatus} from '../../../application/domain/model/StandingOrderStatus';
+import type {StandingOrderPort} from '../../../application/port/out/StandingOrderPort';
+import {SupabaseClientToken, TypedSupabaseClient} from '../../../config/types';
+import {
+    toStandingOrder,
+    toStandingOrderRecord,
+    toStandingOrderRun,
+    toStandingOrderRunRecord,
+} from './mappers/StandingOrderMapper';
+
+/**
+ * Supabaseを使用した定期送金永続化アダプター
+ *
+ * 状態の更新は「id と変更前の状態」を条件にした UPDATE で行い、
+ * 更新した行があったかどうかで、他の処理と競合したかを判定する
+ */
+@injectable()
+export class SupabaseStandingOrderAdapter implements StandingOrderPort {
+
+    constructor(
+        @inject(SupabaseClientToken) private readonly supabase: TypedSupabaseClient
+    ) {
+    }
+
+    /**
+     * 新しい定期送金を保存する
+     */
+    async saveStandingOrder(standingOrder: StandingOrder): Promise<void> {
+        const {error} = await this.supabase
+            .from('standing_orders')
+            .insert(toStandingOrderRecord(standingOrder));
+
+        if (error) {
+            throw new Error(`Failed to save standing order: ${error.message}`);
+        }
+    }
+
+    /**
+     * 定期送金を読み込む（存在しない場合は null）
+     */
+    async loadStandingOrder(standingOrderId: string): Promise<StandingOrder | null> {
+        const {data, error} = await this.supabase
+            .from('standing_orders')
+            .select('*')
+            .eq('id', standingOrderId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load standing order: ${error.message}`);
+        }
+
+        return data ? toStandingOrder(data) : null;
+    }
+
+    /**
+     * 送金元のアカウントの定期送金を、作成した順に読み込む
+     */
+    async loadStandingOrders(
+        sourceAccountId: AccountId,
+        status: StandingOrderStatus | null
+    ): Promise<StandingOrder[]> {
+        let query = this.supabase
+            .from('standing_orders')
+            .select('*')
+            .eq('source_account_id', Number(sourceAccountId.getValue()));
+
+        if (status !== null) {
+            query = query.eq('status', status);
+        }
+
+        const {data, error} = await query.order('created_at', {ascending: true});
+
+        if (error) {
+            throw new Error(`Failed to load standing orders: ${error.message}`);
+        }
+
+        return data.map(toStandingOrder);
+    }
+
+    /**
+     * 次の実行時刻を過ぎた ACTIVE の定期送金を、実行時刻の昇順で読み込む
+     */
+    async loadDueStandingOrders(now: Date, limit: number): Promise<StandingOrder[]> {
+        const {data, error} = await this.supabase
+            .from('standing_orders')
+            .select('*')
+            .eq('status', 'ACTIVE')
+            .lte('next_run_at', now.toISOString())
+            .order('next_run_at', {ascending: true})
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load due standing orders: ${error.message}`);
+        }
+
+        return data.map(toStandingOrder);
+    }
+
+    /**
+     * 実行を開始した時刻が startedBefore より前の RUNNING の定期送金を、実行を開始した時刻の昇順で読み込む
+     */
+    async loadStaleRunningStandingOrders(startedBefore: Date, limit: number): Promise<StandingOrder[]> {
+        const {data, error} = await this.supabase
+            .from('standing_orders')
+            .select('*')
+            .eq('status', 'RUNNING')
+            .lt('run_started_at', startedBefore.toISOString())
+            .order('run_started_at', {ascending: true})
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load stale running standing orders: ${error.message}`);
+        }
+
+        return data.map(toStandingOrder);
+    }
+
+    /**
+     * 保存されている状態が expectedStatus のときだけ、定期送金の状態と次の実行時刻を更新する
+     */
+    async updateStandingOrder(standingOrder: StandingOrder, expectedStatus: StandingOrderStatus): Promise<boolean> {
+        const {
+            status,
+            occurrence_at,
+            next_run_at,
+            retry_count,
+            consecutive_failures,
+            pause_reason,
+            run_transfer_id,
+            run_started_at,
+        } = toStandingOrderRecord(standingOrder);
+
+        const {data, error} = await this.supabase
+            .from('standing_orders')
+            .update({
+                status,
+                occurrence_at,
+                next_run_at,
+                retry_count,
+                consecutive_failures,
+                pause_reason,
+                run_transfer_id,
+                run_started_at,
+            })
+            .eq('id', standingOrder.id)
+            .eq('status', expectedStatus)
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to update standing order: ${error.message}`);
+        }
+
+        return data.length > 0;
+    }
+
+    /**
+     * 定期送金の実行記録を保存する
+     */
+    async saveStandingOrderRun(run: StandingOrderRun): Promise<void> {
+        const {error} = await this.supabase
+            .from('standing_order_runs')
+            .insert(toStandingOrderRunRecord(run));
+
+        if (error) {
+            throw new Error(`Failed to save standing order run: ${error.message}`);
+        }
+    }
+
+    /**
+     * 定期送金の実行記録を、新しい順に読み込む
+     */
+    async loadStandingOrderRuns(standingOrderId: string, limit: number): Promise<StandingOrderRun[]> {
+        const {data, error} = await this.supabase
+            .from('standing_order_runs')
+            .select('*')
+            .eq('standing_order_id', standingOrderId)
+            .order('executed_at', {ascending: false})
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load standing order runs: ${error.message}`);
+        }
+
+        return data.map(toStandingOrderRun);
+    }
+}
@@ -5,6 +5,10 @@ import type { PersistedActivityRecord } from './ActivityRecord';
  */
 export interface PersistedAccountRecord {
   id: number;
+  status: string; // 'ACTIVE' | 'FROZEN' | 'CLOSED'（DBのCHECK制約で保証）
+  tier: string; // 'BASIC' | 'VERIFIED' | 'BUSINESS'（DBのCHECK制約で保証）
+  currency: string; // ISO 4217 の通貨コード
+  overdraft_limit: number; // 当座貸越の限度額（アカウントの通貨の補助単位。0 = 貸越なし）
 }
 
 /**
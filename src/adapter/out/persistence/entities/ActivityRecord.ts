@@ -8,6 +8,16 @@ export interface PersistedActivityRecord {
     source_account_id: number | null;  // ← nullable に変更
     target_account_id: number | null;  // ← nullable に変更
     amount: number;
+    currency: string;  // ISO 4217 の通貨コード（amount は補助単位）
+    conversion_rate: string | null;             // 通貨をまたぐ送金のみ（以下同じ）
+    conversion_source_amount: number | null;
+    conversion_source_currency: string | null;
+    conversion_target_amount: number | null;
+    conversion_target_currency: string | null;
+    reversal_of_activity_id: number | null;  // 取り消しのアクティビティのみ（元のアクティビティのID）
+    transfer_id: string | null;  // アカウント間送金のアクティビティのみ（取り消しのアクティビティは null）
+    reference: string | null;  // 送金の参照情報（送金時に指定された場合のみ）
+    memo: string | null;  // 送金のメモ（送金時に指定された場合のみ）
     created_at: string;
 }
 
@@ -20,4 +30,14 @@ export interface ActivityRecord {
     source_account_id: number | null;  // ← nullable に変更
     target_account_id: number | null;  // ← nullable に変更
     amount: number;
+    currency: string;
+    conversion_rate: string | null;
+    conversion_source_amount: number | null;
+    conversion_source_currency: string | null;
+    conversion_target_amount: number | null;
+    conversion_target_currency: string | null;
+    reversal_of_activity_id: number | null;
+    transfer_id: string | null;
+    reference: string | null;
+    memo: string | null;
 }
\ No newline at end of file
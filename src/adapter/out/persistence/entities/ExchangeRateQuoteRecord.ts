@@ -0,0 +1,11 @@
+/**
+ * exchange_rate_quotesテーブルのレコード型
+ */
+export interface ExchangeRateQuoteRecord {
+    id: string;
+    from_currency: string;
+    to_currency: string;
+    rate: string;  // 誤差を避けるため10進数の文字列で保存する
+    created_at: string;
+    expires_at: string;
+}
@@ -0,0 +1,13 @@
+import type { Json } from '../../../../../supabase/database';
+
+/**
+ * idempotency_keysテーブルのレコード型
+ */
+export interface PersistedIdempotencyKeyRecord {
+    key: string;
+    request_fingerprint: string;
+    response_status: number | null;  // 処理中は null
+    response_body: Json | null;      // 処理中は null
+    created_at: string;
+    reserved_at: string;             // 放置された予約を引き継ぐと更新される
+}
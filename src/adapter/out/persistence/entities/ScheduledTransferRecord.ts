@@ -0,0 +1,18 @@
+/**
+ * scheduled_transfersテーブルのレコード型
+ */
+export interface ScheduledTransferRecord {
+    id: string;
+    source_account_id: number;
+    target_account_id: number;
+    amount: number;  // 送金元の通貨の補助単位
+    currency: string;
+    execute_at: string;
+    created_at: string;
+    status: string;  // 'PENDING' | 'PROCESSING' | 'EXECUTED' | 'FAILED' | 'CANCELLED'（DBのCHECK制約で保証）
+    completed_at: string | null;
+    failure_reason: string | null;  // 失敗した場合のみ（例外の名前）
+    failure_message: string | null;
+    transfer_id: string | null;  // 実行を開始したときに採番した送金ID
+    processing_started_at: string | null;  // 実行を開始した時刻（古い PROCESSING の予約を見つけるため）
+}
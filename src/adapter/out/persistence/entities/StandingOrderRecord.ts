@@ -0,0 +1,23 @@
+/**
+ * standing_ordersテーブルのレコード型
+ */
+export interface StandingOrderRecord {
+    id: string;
+    source_account_id: number;
+    target_account_id: number;
+    amount: number;  // 送金元の通貨の補助単位
+    currency: string;
+    schedule_type: string;  // 'CRON' | 'MONTHLY'（DBのCHECK制約で保証）
+    cron_expression: string | null;  // CRON の場合のみ
+    day_of_month: number | null;  // MONTHLY の場合のみ
+    time_of_day: string | null;  // MONTHLY の場合のみ（HH:MM、UTC）
+    created_at: string;
+    status: string;  // 'ACTIVE' | 'RUNNING' | 'PAUSED' | 'CANCELLED'（DBのCHECK制約で保証）
+    occurrence_at: string;
+    next_run_at: string;
+    retry_count: number;
+    consecutive_failures: number;
+    pause_reason: string | null;  // 'MANUAL' | 'TOO_MANY_FAILURES'（PAUSED の場合のみ）
+    run_transfer_id: string | null;  // 実行中の送金に使う送金ID（RUNNING の場合のみ）
+    run_started_at: string | null;  // 実行を開始した時刻（RUNNING の場合のみ。古い RUNNING を見つけるため）
+}
@@ -0,0 +1,13 @@
+/**
+ * standing_order_runsテーブルのレコード型
+ */
+export interface StandingOrderRunRecord {
+    id: string;
+    standing_order_id: string;
+    occurrence_at: string;
+    executed_at: string;
+    attempt: number;
+    outcome: string;  // 'SUCCEEDED' | 'FAILED'（DBのCHECK制約で保証）
+    failure_reason: string | null;  // 失敗した場合のみ（例外の名前）
+    failure_message: string | null;
+}
@@ -0,0 +1,16 @@
+/**
+ * transfersテーブルのレコード型
+ */
+export interface TransferRecord {
+    id: string;
+    source_account_id: number;
+    target_account_id: number;
+    amount: number;  // 送金元の通貨の補助単位
+    currency: string;
+    fee_amount: number;  // 送金元の通貨の補助単位
+    deposited_amount: number;  // 送金先の通貨の補助単位
+    deposited_currency: string;
+    reference: string | null;
+    status: string;  // 'COMPLETED' | 'REVERSED'（DBのCHECK制約で保証）
+    created_at: string;
+}
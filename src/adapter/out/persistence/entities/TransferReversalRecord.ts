@@ -0,0 +1,11 @@
+/**
+ * transfer_reversalsテーブルのレコード型
+ */
+export interface TransferReversalRecord {
+    id: string;
+    transfer_id: string;
+    original_activity_ids: number[];
+    reason: string;
+    forced: boolean;
+    reversed_at: string;
+}
@@ -1,7 +1,16 @@
 import {Account} from '../../../../application/domain/model/Account';
+import type {AccountStatus} from '../../../../application/domain/model/AccountStatus';
+import {isAccountStatus} from '../../../../application/domain/model/AccountStatus';
+import type {AccountTier} from '../../../../application/domain/model/AccountTier';
+import {isAccountTier} from '../../../../application/domain/model/AccountTier';
 import {AccountId, Activity, ActivityId} from '../../../../application/domain/model/Activity';
 import {ActivityWindow} from '../../../../application/domain/model/ActivityWindow';
+import {Currency} from '../../../../application/domain/model/Currency';
+import {CurrencyConversion} from '../../../../application/domain/model/CurrencyConversion';
+import {ExchangeRate} from '../../../../application/domain/model/ExchangeRate';
 import {Money} from '../../../../application/domain/model/Money';
+import {RemittanceInformation} from '../../../../application/domain/model/RemittanceInformation';
+import {TransferId} from '../../../../application/domain/model/Transfer';
 import type {AccountAggregateRecord} from '../entities/AccountRecord';
 import type {ActivityRecord, PersistedActivityRecord} from '../entities/ActivityRecord';
 
@@ -23,14 +32,64 @@ import type {ActivityRecord, PersistedActivityRecord} from '../entities/Activity
  */
 export function toDomain(accountAggregateRecord: AccountAggregateRecord): Account {
     const accountId = new AccountId(BigInt(accountAggregateRecord.account.id));
-    const baselineBalance = Money.of(BigInt(accountAggregateRecord.baselineBalance));
+    const currency = toCurrency(accountAggregateRecord.account.currency);
+    const baselineBalance = Money.of(BigInt(accountAggregateRecord.baselineBalance), currency);
 
     // アクティビティレコードをドメインモデルに変換
     const activities = accountAggregateRecord.activities.map(activityToDomain)
 
     const activityWindow = new ActivityWindow(...activities);
 
-    return Account.withId(accountId, baselineBalance, activityWindow);
+    const status = toAccountStatus(accountAggregateRecord.account.status);
+    const tier = toAccountTier(accountAggregateRecord.account.tier);
+    const overdraftLimit = Money.of(BigInt(accountAggregateRecord.account.overdraft_limit), currency);
+
+    return Account.withId(accountId, baselineBalance, activityWindow, status, tier, overdraftLimit);
+}
+
+/**
+ * DBのstatusカラムの値をドメインの AccountStatus に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+export function toAccountStatus(value: string): AccountStatus {
+    if (!isAccountStatus(value)) {
+        throw new Error(`Unknown account status: ${value}`);
+    }
+    return value;
+}
+
+/**
+ * DBのtierカラムの値をドメインの AccountTier に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+export function toAccountTier(value: string): AccountTier {
+    if (!isAccountTier(value)) {
+        throw new Error(`Unknown account tier: ${value}`);
+    }
+    return value;
+}
+
+/**
+ * DBのcurrencyカラムの値をドメインの Currency に変換
+ *
+ * @throws Error サポートしていない通貨コードの場合
+ */
+export function toCurrency(value: string): Currency {
+    return Currency.of(value);
+}
+
+/**
+ * Activityレコードの配列をActivityドメインモデルの配列に変換
+ *
+ * アクティビティ履歴の読み込みなど、アカウント集約を作らない場合に使用する
+ *
+ * @param activityRecords DBから取得したActivityレコードの配列
+ * @returns Activityドメインモデルの配列
+ */
+export function toActivityDomains(activityRecords: PersistedActivityRecord[]): Activity[] {
+    return activityRecords.map(activityToDomain);
 }
 
 /**
@@ -51,7 +110,42 @@ function activityToDomain(activityRecord: PersistedActivityRecord): Activity {
             ? new AccountId(BigInt(activityRecord.target_account_id))
             : null,  // ← nullable対応
         new Date(activityRecord.timestamp),
-        Money.of(BigInt(activityRecord.amount))
+        Money.of(BigInt(activityRecord.amount), toCurrency(activityRecord.currency)),
+        conversionToDomain(activityRecord),
+        activityRecord.reversal_of_activity_id !== null
+            ? new ActivityId(BigInt(activityRecord.reversal_of_activity_id))
+            : null,
+        activityRecord.transfer_id !== null ? new TransferId(activityRecord.transfer_id) : null,
+        RemittanceInformation.of(activityRecord.reference, activityRecord.memo)
+    );
+}
+
+/**
+ * conversion_* カラムを CurrencyConversion に変換
+ *
+ * 同じ通貨同士の送金ではすべて null（CHECK制約で「全部 null か、全部あり」が保証される）
+ */
+function conversionToDomain(activityRecord: PersistedActivityRecord): CurrencyConversion | null {
+    const {
+        conversion_rate: rate,
+        conversion_source_amount: sourceAmount,
+        conversion_source_currency: sourceCurrency,
+        conversion_target_amount: targetAmount,
+        conversion_target_currency: targetCurrency,
+    } = activityRecord;
+
+    if (rate === null || sourceAmount === null || sourceCurrency === null
+        || targetAmount === null || targetCurrency === null) {
+        return null;
+    }
+
+    const source = toCurrency(sourceCurrency);
+    const target = toCurrency(targetCurrency);
+
+    return CurrencyConversion.of(
+        ExchangeRate.of(source, target, rate),
+        Money.of(BigInt(sourceAmount), source),
+        Money.of(BigInt(targetAmount), target)
     );
 }
 
@@ -86,6 +180,34 @@ function activityToRecord(activity: Activity): ActivityRecord {
             ? Number(activity.getTargetAccountId()?.getValue())
             : null,  // ← nullable対応
         amount: Number(activity.getMoney().getAmount()),
+        currency: activity.getMoney().getCurrency().code,
+        ...conversionToColumns(activity.getConversion()),
+        reversal_of_activity_id: activity.getReversalOf() !== null
+            ? Number(activity.getReversalOf()?.getValue())
+            : null,
+        transfer_id: activity.getTransferId()?.getValue() ?? null,
+        reference: activity.getRemittance()?.reference ?? null,
+        memo: activity.getRemittance()?.memo ?? null,
+    };
+}
+
+/**
+ * CurrencyConversion を conversion_* カラムに変換（換算なしの場合はすべて null）
+ */
+function conversionToColumns(conversion: CurrencyConversion | null): Pick<
+    ActivityRecord,
+    | 'conversion_rate'
+    | 'conversion_source_amount'
+    | 'conversion_source_currency'
+    | 'conversion_target_amount'
+    | 'conversion_target_currency'
+> {
+    return {
+        conversion_rate: conversion?.rate.toString() ?? null,
+        conversion_source_amount: conversion ? Number(conversion.sourceMoney.getAmount()) : null,
+        conversion_source_currency: conversion?.sourceMoney.getCurrency().code ?? null,
+        conversion_target_amount: conversion ? Number(conversion.targetMoney.getAmount()) : null,
+        conversion_target_currency: conversion?.targetMoney.getCurrency().code ?? null,
     };
 }
 
@@ -0,0 +1,34 @@
+import {ExchangeRate} from '../../../../application/domain/model/ExchangeRate';
+import {ExchangeRateQuote} from '../../../../application/domain/model/ExchangeRateQuote';
+import type {ExchangeRateQuoteRecord} from '../entities/ExchangeRateQuoteRecord';
+import {toCurrency} from './AccountMapper';
+
+/**
+ * 為替見積もりのレコードとドメインモデルを変換するマッパー
+ */
+
+/**
+ * DBレコードをExchangeRateQuoteドメインモデルに変換
+ */
+export function toExchangeRateQuote(record: ExchangeRateQuoteRecord): ExchangeRateQuote {
+    return new ExchangeRateQuote(
+        record.id,
+        ExchangeRate.of(toCurrency(record.from_currency), toCurrency(record.to_currency), record.rate),
+        new Date(record.created_at),
+        new Date(record.expires_at)
+    );
+}
+
+/**
+ * ExchangeRateQuoteドメインモデルをDBレコードに変換
+ */
+export function toExchangeRateQuoteRecord(quote: ExchangeRateQuote): ExchangeRateQuoteRecord {
+    return {
+        id: quote.id,
+        from_currency: quote.rate.from.code,
+        to_currency: quote.rate.to.code,
+        rate: quote.rate.toString(),
+        created_at: quote.createdAt.toISOString(),
+        expires_at: quote.expiresAt.toISOString(),
+    };
+}
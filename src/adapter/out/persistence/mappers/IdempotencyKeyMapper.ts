@@ -0,0 +1,37 @@
+import type {Json} from '../../../../../supabase/database';
+import type {IdempotencyRecord, IdempotentResponse} from '../../../../application/port/out/IdempotencyKeyPort';
+import type {PersistedIdempotencyKeyRecord} from '../entities/IdempotencyKeyRecord';
+
+/**
+ * 冪等性キーのレコードとアプリケーション層のモデルを変換するマッパー
+ */
+
+/**
+ * DBレコードをIdempotencyRecordに変換
+ */
+export function toIdempotencyRecord(record: PersistedIdempotencyKeyRecord): IdempotencyRecord {
+    return {
+        key: record.key,
+        requestFingerprint: record.request_fingerprint,
+        response: record.response_status !== null
+            ? {statusCode: record.response_status, body: record.response_body}
+            : null,
+        createdAt: new Date(record.created_at),
+        reservedAt: new Date(record.reserved_at),
+    };
+}
+
+/**
+ * レスポンスをDBの更新用カラムに変換
+ *
+ * ボディはJSONとして保存するため、JSONに変換可能な値である前提
+ */
+export function toResponseColumns(response: IdempotentResponse): {
+    response_status: number;
+    response_body: Json;
+} {
+    return {
+        response_status: response.statusCode,
+        response_body: response.body as Json,
+    };
+}
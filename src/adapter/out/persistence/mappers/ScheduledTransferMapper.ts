@@ -0,0 +1,68 @@
+import {AccountId} from '../../../../application/domain/model/Activity';
+import {Money} from '../../../../application/domain/model/Money';
+import {ScheduledTransfer} from '../../../../application/domain/model/ScheduledTransfer';
+import type {ScheduledTransferStatus} from '../../../../application/domain/model/ScheduledTransferStatus';
+import {isScheduledTransferStatus} from '../../../../application/domain/model/ScheduledTransferStatus';
+import {TransferId} from '../../../../application/domain/model/Transfer';
+import type {ScheduledTransferRecord} from '../entities/ScheduledTransferRecord';
+import {toCurrency} from './AccountMapper';
+
+/**
+ * 予約送金のレコードとドメインモデルを変換するマッパー
+ */
+
+/**
+ * DBレコードをScheduledTransferドメインモデルに変換
+ */
+export function toScheduledTransfer(record: ScheduledTransferRecord): ScheduledTransfer {
+    return ScheduledTransfer.restore(
+        record.id,
+        new AccountId(BigInt(record.source_account_id)),
+        new AccountId(BigInt(record.target_account_id)),
+        Money.of(BigInt(record.amount), toCurrency(record.currency)),
+        new Date(record.execute_at),
+        new Date(record.created_at),
+        toScheduledTransferStatus(record.status),
+        record.completed_at !== null ? new Date(record.completed_at) : null,
+        record.failure_reason !== null
+            ? {reason: record.failure_reason, message: record.failure_message ?? ''}
+            : null,
+        record.transfer_id !== null ? new TransferId(record.transfer_id) : null,
+        record.processing_started_at !== null ? new Date(record.processing_started_at) : null
+    );
+}
+
+/**
+ * ScheduledTransferドメインモデルをDBレコードに変換
+ */
+export function toScheduledTransferRecord(scheduledTransfer: ScheduledTransfer): ScheduledTransferRecord {
+    const failure = scheduledTransfer.getFailure();
+
+    return {
+        id: scheduledTransfer.id,
+        source_account_id: Number(scheduledTransfer.sourceAccountId.getValue()),
+        target_account_id: Number(scheduledTransfer.targetAccountId.getValue()),
+        amount: Number(scheduledTransfer.money.getAmount()),
+        currency: scheduledTransfer.money.getCurrency().code,
+        execute_at: scheduledTransfer.executeAt.toISOString(),
+        created_at: scheduledTransfer.createdAt.toISOString(),
+        status: scheduledTransfer.getStatus(),
+        completed_at: scheduledTransfer.getCompletedAt()?.toISOString() ?? null,
+        failure_reason: failure?.reason ?? null,
+        failure_message: failure?.message ?? null,
+        transfer_id: scheduledTransfer.getTransferId()?.getValue() ?? null,
+        processing_started_at: scheduledTransfer.getProcessingStartedAt()?.toISOString() ?? null,
+    };
+}
+
+/**
+ * DBのstatusカラムの値をドメインの ScheduledTransferStatus に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+function toScheduledTransferStatus(value: string): ScheduledTransferStatus {
+    if (!isScheduledTransferStatus(value)) {
+        throw new Error(`Unknown scheduled transfer status: ${value}`);
+    }
+    return value;
+}
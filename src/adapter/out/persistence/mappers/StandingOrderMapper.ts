@@ -0,0 +1,143 @@
+import {AccountId} from '../../../../application/domain/model/Activity';
+import {CronSchedule} from '../../../../application/domain/model/CronSchedule';
+import {Money} from '../../../../application/domain/model/Money';
+import {MonthlySchedule} from '../../../../application/domain/model/MonthlySchedule';
+import {StandingOrder} from '../../../../application/domain/model/StandingOrder';
+import type {StandingOrderRun} from '../../../../application/domain/model/StandingOrderRun';
+import type {StandingOrderSchedule} from '../../../../application/domain/model/StandingOrderSchedule';
+import type {StandingOrderPauseReason, StandingOrderStatus} from '../../../../application/domain/model/StandingOrderStatus';
+import {isStandingOrderPauseReason, isStandingOrderStatus} from '../../../../application/domain/model/StandingOrderStatus';
+import {TransferId} from '../../../../application/domain/model/Transfer';
+import type {StandingOrderRecord} from '../entities/StandingOrderRecord';
+import type {StandingOrderRunRecord} from '../entities/StandingOrderRunRecord';
+import {toCurrency} from './AccountMapper';
+
+/**
+ * 定期送金と実行記録のレコードとドメインモデルを変換するマッパー
+ */
+
+/**
+ * DBレコードをStandingOrderドメインモデルに変換
+ */
+export function toStandingOrder(record: StandingOrderRecord): StandingOrder {
+    return StandingOrder.restore(
+        record.id,
+        new AccountId(BigInt(record.source_account_id)),
+        new AccountId(BigInt(record.target_account_id)),
+        Money.of(BigInt(record.amount), toCurrency(record.currency)),
+        toSchedule(record),
+        new Date(record.created_at),
+        toStandingOrderStatus(record.status),
+        new Date(record.occurrence_at),
+        new Date(record.next_run_at),
+        record.retry_count,
+        record.consecutive_failures,
+        record.pause_reason !== null ? toPauseReason(record.pause_reason) : null,
+        record.run_transfer_id !== null ? new TransferId(record.run_transfer_id) : null,
+        record.run_started_at !== null ? new Date(record.run_started_at) : null
+    );
+}
+
+/**
+ * StandingOrderドメインモデルをDBレコードに変換
+ */
+export function toStandingOrderRecord(standingOrder: StandingOrder): StandingOrderRecord {
+    const {schedule} = standingOrder;
+
+    return {
+        id: standingOrder.id,
+        source_account_id: Number(standingOrder.sourceAccountId.getValue()),
+        target_account_id: Number(standingOrder.targetAccountId.getValue()),
+        amount: Number(standingOrder.money.getAmount()),
+        currency: standingOrder.money.getCurrency().code,
+        schedule_type: schedule.type,
+        cron_expression: schedule.type === 'CRON' ? schedule.expression : null,
+        day_of_month: schedule.type === 'MONTHLY' ? schedule.dayOfMonth : null,
+        time_of_day: schedule.type === 'MONTHLY' ? schedule.timeOfDay() : null,
+        created_at: standingOrder.createdAt.toISOString(),
+        status: standingOrder.getStatus(),
+        occurrence_at: standingOrder.getOccurrenceAt().toISOString(),
+        next_run_at: standingOrder.getNextRunAt().toISOString(),
+        retry_count: standingOrder.getRetryCount(),
+        consecutive_failures: standingOrder.getConsecutiveFailures(),
+        pause_reason: standingOrder.getPauseReason(),
+        run_transfer_id: standingOrder.getRunTransferId()?.getValue() ?? null,
+        run_started_at: standingOrder.getRunStartedAt()?.toISOString() ?? null,
+    };
+}
+
+/**
+ * DBレコードをStandingOrderRunに変換
+ */
+export function toStandingOrderRun(record: StandingOrderRunRecord): StandingOrderRun {
+    if (record.outcome !== 'SUCCEEDED' && record.outcome !== 'FAILED') {
+        throw new Error(`Unknown standing order run outcome: ${record.outcome}`);
+    }
+
+    return {
+        id: record.id,
+        standingOrderId: record.standing_order_id,
+        occurrenceAt: new Date(record.occurrence_at),
+        executedAt: new Date(record.executed_at),
+        attempt: record.attempt,
+        outcome: record.outcome,
+        failure: record.failure_reason !== null
+            ? {reason: record.failure_reason, message: record.failure_message ?? ''}
+            : null,
+    };
+}
+
+/**
+ * StandingOrderRunをDBレコードに変換
+ */
+export function toStandingOrderRunRecord(run: StandingOrderRun): StandingOrderRunRecord {
+    return {
+        id: run.id,
+        standing_order_id: run.standingOrderId,
+        occurrence_at: run.occurrenceAt.toISOString(),
+        executed_at: run.executedAt.toISOString(),
+        attempt: run.attempt,
+        outcome: run.outcome,
+        failure_reason: run.failure?.reason ?? null,
+        failure_message: run.failure?.message ?? null,
+    };
+}
+
+/**
+ * スケジュールのカラムをドメインのスケジュールに変換
+ *
+ * @throws Error カラムの組み合わせが不正な場合（CHECK制約があるため通常は起きない）
+ */
+function toSchedule(record: StandingOrderRecord): StandingOrderSchedule {
+    if (record.schedule_type === 'CRON' && record.cron_expression !== null) {
+        return CronSchedule.parse(record.cron_expression);
+    }
+    if (record.schedule_type === 'MONTHLY' && record.day_of_month !== null) {
+        return MonthlySchedule.of(record.day_of_month, record.time_of_day ?? undefined);
+    }
+    throw new Error(`Invalid standing order schedule: ${record.schedule_type}`);
+}
+
+/**
+ * DBのstatusカラムの値をドメインの StandingOrderStatus に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+function toStandingOrderStatus(value: string): StandingOrderStatus {
+    if (!isStandingOrderStatus(value)) {
+        throw new Error(`Unknown standing order status: ${value}`);
+    }
+    return value;
+}
+
+/**
+ * DBのpause_reasonカラムの値をドメインの StandingOrderPauseReason に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+function toPauseReason(value: string): StandingOrderPauseReason {
+    if (!isStandingOrderPauseReason(value)) {
+        throw new Error(`Unknown standing order pause reason: ${value}`);
+    }
+    return value;
+}
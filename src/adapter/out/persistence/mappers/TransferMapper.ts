@@ -0,0 +1,61 @@
+import {AccountId} from '../../../../application/domain/model/Activity';
+import {Money} from '../../../../application/domain/model/Money';
+import {Transfer, TransferId} from '../../../../application/domain/model/Transfer';
+import type {TransferStatus} from '../../../../application/domain/model/TransferStatus';
+import {isTransferStatus} from '../../../../application/domain/model/TransferStatus';
+import type {TransferRecord} from '../entities/TransferRecord';
+import {toCurrency} from './AccountMapper';
+
+/**
+ * 送金のレコードとドメインモデルを変換するマッパー
+ */
+
+/**
+ * DBレコードをTransferドメインモデルに変換
+ */
+export function toTransfer(record: TransferRecord): Transfer {
+    const currency = toCurrency(record.currency);
+
+    return Transfer.restore(
+        new TransferId(record.id),
+        new AccountId(BigInt(record.source_account_id)),
+        new AccountId(BigInt(record.target_account_id)),
+        Money.of(BigInt(record.amount), currency),
+        Money.of(BigInt(record.fee_amount), currency),
+        Money.of(BigInt(record.deposited_amount), toCurrency(record.deposited_currency)),
+        record.reference,
+        new Date(record.created_at),
+        toTransferStatus(record.status)
+    );
+}
+
+/**
+ * TransferドメインモデルをDBレコードに変換
+ */
+export function toTransferRecord(transfer: Transfer): TransferRecord {
+    return {
+        id: transfer.id.getValue(),
+        source_account_id: Number(transfer.sourceAccountId.getValue()),
+        target_account_id: Number(transfer.targetAccountId.getValue()),
+        amount: Number(transfer.amount.getAmount()),
+        currency: transfer.amount.getCurrency().code,
+        fee_amount: Number(transfer.fee.getAmount()),
+        deposited_amount: Number(transfer.depositedAmount.getAmount()),
+        deposited_currency: transfer.depositedAmount.getCurrency().code,
+        reference: transfer.reference,
+        status: transfer.getStatus(),
+        created_at: transfer.createdAt.toISOString(),
+    };
+}
+
+/**
+ * DBのstatusカラムの値をドメインの TransferStatus に変換
+ *
+ * @throws Error 未知の値の場合（CHECK制約があるため通常は起きない）
+ */
+function toTransferStatus(value: string): TransferStatus {
+    if (!isTransferStatus(value)) {
+        throw new Error(`Unknown transfer status: ${value}`);
+    }
+    return value;
+}
@@ -0,0 +1,20 @@
+import type {TransferReversal} from '../../../../application/domain/model/TransferReversal';
+import type {TransferReversalRecord} from '../entities/TransferReversalRecord';
+
+/**
+ * 送金の取り消しの記録をDBレコードに変換するマッパー
+ */
+
+/**
+ * TransferReversalドメインモデルをDBレコードに変換
+ */
+export function toTransferReversalRecord(reversal: TransferReversal): TransferReversalRecord {
+    return {
+        id: reversal.id,
+        transfer_id: reversal.transferId.getValue(),
+        original_activity_ids: reversal.originalActivityIds.map((activityId) => Number(activityId.getValue())),
+        reason: reversal.reason,
+        forced: reversal.forced,
+        reversed_at: reversal.reversedAt.toISOString(),
+    };
+}
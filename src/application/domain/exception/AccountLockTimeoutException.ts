@@ -0,0 +1,46 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AccountLockTimeoutException（アカウントロックのタイムアウト例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 同じアカウントに対する別の処理がロックを保持し続けており、
+//   指定時間内にロックを取得できなかった場合に投げられる
+// - 一時的な競合なので、クライアントには再試行してもらう
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {AccountId} from '../model/Activity';
+import {DomainException} from './DomainException';
+
+/**
+ * アカウントロックのタイムアウト例外
+ */
+export class AccountLockTimeoutException extends DomainException {
+    /**
+     * ロックを保持している処理が終われば取得できるため、再試行すれば成功しうる
+     */
+    public override readonly retryable = true;
+
+    /**
+     * ロックを取得できなかったアカウントのID
+     */
+    public readonly accountId: AccountId;
+
+    /**
+     * 待機した時間（ミリ秒）
+     */
+    public readonly timeoutMs: number;
+
+    /**
+     * @param accountId ロックを取得できなかったアカウントのID
+     * @param timeoutMs 待機した時間（ミリ秒）
+     */
+    constructor(accountId: AccountId, timeoutMs: number) {
+        super(`Could not acquire lock for account ${accountId.toString()} within ${timeoutMs.toString()}ms`);
+
+        // エラーの種類を識別する名前
+        this.name = 'AccountLockTimeoutException';
+
+        this.accountId = accountId;
+        this.timeoutMs = timeoutMs;
+    }
+}
@@ -0,0 +1,42 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AccountNotActiveException（アカウント利用不可例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 凍結中（FROZEN）または解約済み（CLOSED）のアカウントが
+//   送金に関わろうとした場合に投げられる
+// - 送金元・送金先のどちらが原因かは accountId で判別できる
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {AccountStatus} from '../model/AccountStatus';
+import type {AccountId} from '../model/Activity';
+import {DomainException} from './DomainException';
+
+/**
+ * アカウント利用不可例外
+ */
+export class AccountNotActiveException extends DomainException {
+    /**
+     * 利用できないアカウントのID
+     */
+    public readonly accountId: AccountId;
+
+    /**
+     * アカウントの現在の状態
+     */
+    public readonly status: AccountStatus;
+
+    /**
+     * @param accountId 利用できないアカウントのID
+     * @param status アカウントの現在の状態
+     */
+    constructor(accountId: AccountId, status: AccountStatus) {
+        super(`Account ${accountId.toString()} is not active (status: ${status})`);
+
+        // エラーの種類を識別する名前
+        this.name = 'AccountNotActiveException';
+
+        this.accountId = accountId;
+        this.status = status;
+    }
+}
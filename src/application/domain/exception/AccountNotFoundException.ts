@@ -0,0 +1,57 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AccountNotFoundException（アカウント不在例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 指定されたIDのアカウントが存在しない場合に投げられる
+// - 永続化アダプター（LoadAccountPort の実装）が投げる
+//
+// 【なぜ汎用の Error ではなく専用の例外？】
+// - 「IDの打ち間違い（404）」と「DB障害（500）」をクライアントが区別できるようにするため
+// - DBのエラー（接続断・タイムアウト等）は、これまで通り汎用の Error として扱う
+//
+// 【side について】
+// - 永続化アダプターは「どのIDが見つからなかったか」しか知らない
+// - 送金ユースケースは、送金元・送金先のどちらが見つからなかったかを side に詰め直す
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {AccountId} from '../model/Activity';
+import {DomainException} from './DomainException';
+
+/**
+ * 送金における役割（送金元 / 送金先）
+ */
+export type TransferSide = 'source' | 'target';
+
+/**
+ * アカウント不在例外
+ */
+export class AccountNotFoundException extends DomainException {
+    /**
+     * 見つからなかったアカウントのID
+     */
+    public readonly accountId: AccountId;
+
+    /**
+     * 送金元・送金先のどちらとして指定されたアカウントか（送金以外では undefined）
+     */
+    public readonly side?: TransferSide;
+
+    /**
+     * @param accountId 見つからなかったアカウントのID
+     * @param side 送金元・送金先のどちらとして指定されたか
+     */
+    constructor(accountId: AccountId, side?: TransferSide) {
+        super(
+            side
+                ? `${side} account not found: ${accountId.getValue().toString()}`
+                : `Account not found: ${accountId.getValue().toString()}`
+        );
+
+        // エラーの種類を識別する名前
+        this.name = 'AccountNotFoundException';
+
+        this.accountId = accountId;
+        this.side = side;
+    }
+}
@@ -0,0 +1,79 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CumulativeLimitExceededException（累積送金限度額超過例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 直近24時間・30日の出金合計が累積送金限度額を超える場合に投げられる例外
+//
+// 【ThresholdExceededException との違い】
+// - ThresholdExceededException: 1回の送金額が限度額を超えている
+// - この例外: 1回ごとは限度額以内でも、期間内の合計が限度額を超える
+//   （小分けにして送金することで1回の限度額を回避するのを防ぐ）
+//
+// 【なぜ残りの枠（remaining）を持つ？】
+// - 利用者に「あといくらまで送金できるか」を伝えられる
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {AccountId} from '../model/Activity';
+import type {CumulativeLimitPeriod} from '../model/CumulativeTransferLimit';
+import {CUMULATIVE_LIMIT_WINDOW_DAYS} from '../model/CumulativeTransferLimit';
+import {Money} from '../model/Money';
+import {DomainException} from './DomainException';
+
+/**
+ * 累積送金限度額超過例外
+ *
+ * 金額はすべて基準通貨
+ */
+export class CumulativeLimitExceededException extends DomainException {
+    /**
+     * 送金元のアカウントID
+     */
+    public readonly accountId: AccountId;
+
+    /**
+     * 超過した限度額の集計期間
+     */
+    public readonly period: CumulativeLimitPeriod;
+
+    /**
+     * 集計期間の長さ（日。MONTHLY は暦月ではなく固定の30日）
+     */
+    public readonly windowDays: number;
+
+    /**
+     * 期間内の出金合計の上限
+     */
+    public readonly limit: Money;
+
+    /**
+     * 期間内に既に出金した合計
+     */
+    public readonly used: Money;
+
+    /**
+     * 残りの枠（limit - used。使い切っている場合は0）
+     */
+    public readonly remaining: Money;
+
+    /**
+     * @param accountId 送金元のアカウントID
+     * @param period 集計期間
+     * @param limit 期間内の出金合計の上限
+     * @param used 期間内に既に出金した合計
+     */
+    constructor(accountId: AccountId, period: CumulativeLimitPeriod, limit: Money, used: Money) {
+        super(
+            `${period} transfer limit exceeded for account ${accountId.toString()}: ` +
+            `limit is ${limit.getAmount().toString()}, already used ${used.getAmount().toString()}`
+        );
+
+        this.name = 'CumulativeLimitExceededException';
+        this.accountId = accountId;
+        this.period = period;
+        this.windowDays = CUMULATIVE_LIMIT_WINDOW_DAYS[period];
+        this.limit = limit;
+        this.used = used;
+        this.remaining = Money.max(limit.minus(used), Money.zero(limit.getCurrency()));
+    }
+}
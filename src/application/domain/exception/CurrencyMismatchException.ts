@@ -0,0 +1,50 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CurrencyMismatchException（通貨不一致例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 異なる通貨の Money 同士を計算・比較しようとした場合に投げられる例外
+// - 「円にドルを足す」ような無意味な計算を防ぐ
+//
+// 【なぜ暗黙に換算しない？】
+// - 為替レートは時刻や取引先によって変わる
+// - 換算は明示的なビジネス操作であり、Money の加算に隠すべきではない
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {Currency} from '../model/Currency';
+import {DomainException} from './DomainException';
+
+/**
+ * 通貨不一致例外
+ *
+ * 【発生条件】
+ * - Money 同士の加算・減算・比較で通貨が異なる
+ * - 送金額の通貨が送金元・送金先アカウントの通貨と異なる
+ *
+ * 【例】
+ * Money.of(100, Currency.JPY).plus(Money.of(100, Currency.USD))
+ * → この例外が投げられる
+ */
+export class CurrencyMismatchException extends DomainException {
+    /**
+     * 期待された通貨（計算の基準になる側）
+     */
+    public readonly expected: Currency;
+
+    /**
+     * 実際に渡された通貨
+     */
+    public readonly actual: Currency;
+
+    /**
+     * @param expected 期待された通貨
+     * @param actual 実際に渡された通貨
+     */
+    constructor(expected: Currency, actual: Currency) {
+        super(`Currency mismatch: expected ${expected.code} but was ${actual.code}`);
+
+        this.name = 'CurrencyMismatchException';
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
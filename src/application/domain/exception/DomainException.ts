@@ -0,0 +1,15 @@
+/**
+ * ドメイン例外の基底クラス
+ *
+ * ビジネスルールや業務上の状態によって処理できなかったことを表す
+ * （残高不足・限度額超過・アカウントが見つからない など）。
+ * ドメイン例外ではない例外（データベースの障害など）は、インフラの障害として扱う
+ */
+export abstract class DomainException extends Error {
+    /**
+     * 時間をおいて再試行すれば成功しうるかどうか
+     *
+     * ロックの競合や為替レートの取得失敗など、一時的な理由で処理できなかった場合は true
+     */
+    public readonly retryable: boolean = false;
+}
@@ -0,0 +1,54 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ExchangeRateUnavailableException（為替レート取得不可例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 通貨ペアの為替レートを取得できなかった場合に投げられる例外
+// - レートの提供元が対応していない通貨ペア、または提供元の障害
+//
+// 【なぜ一時的なエラーとして扱う？】
+// - 外部のレート提供元は一時的に応答しないことがある
+// - 時間をおいて再試行すれば成功する可能性があるため、503 として返す
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {Currency} from '../model/Currency';
+import {DomainException} from './DomainException';
+
+/**
+ * 為替レート取得不可例外
+ *
+ * 【発生条件】
+ * - ExchangeRatePort が通貨ペアのレートを返せなかった
+ */
+export class ExchangeRateUnavailableException extends DomainException {
+    /**
+     * レートの提供元が復旧すれば取得できるため、再試行すれば成功しうる
+     */
+    public override readonly retryable = true;
+
+    /**
+     * 換算元の通貨
+     */
+    public readonly from: Currency;
+
+    /**
+     * 換算先の通貨
+     */
+    public readonly to: Currency;
+
+    /**
+     * @param from 換算元の通貨
+     * @param to 換算先の通貨
+     * @param reason 取得できなかった理由（ログ用）
+     */
+    constructor(from: Currency, to: Currency, reason?: string) {
+        super(
+            `Exchange rate from ${from.code} to ${to.code} is unavailable` +
+            (reason ? `: ${reason}` : '')
+        );
+
+        this.name = 'ExchangeRateUnavailableException';
+        this.from = from;
+        this.to = to;
+    }
+}
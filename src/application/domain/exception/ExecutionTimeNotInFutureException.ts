@@ -0,0 +1,33 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 予約送金の実行日時が未来でない場合の例外
+ *
+ * 過去の日時を指定した予約は、すぐに実行するのではなくエラーにする
+ * （日時の指定ミスで意図しない送金が即時に行われるのを防ぐ）
+ */
+export class ExecutionTimeNotInFutureException extends DomainException {
+    /**
+     * 指定された実行日時
+     */
+    public readonly executeAt: Date;
+
+    /**
+     * 予約を受け付けた時刻
+     */
+    public readonly now: Date;
+
+    /**
+     * @param executeAt 指定された実行日時
+     * @param now 予約を受け付けた時刻
+     */
+    constructor(executeAt: Date, now: Date) {
+        super(`Execution time must be in the future: ${executeAt.toISOString()} (now: ${now.toISOString()})`);
+
+        // エラーの種類を識別する名前
+        this.name = 'ExecutionTimeNotInFutureException';
+
+        this.executeAt = executeAt;
+        this.now = now;
+    }
+}
@@ -0,0 +1,38 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// IdempotencyKeyInProgressException（冪等性キー処理中例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 同じ冪等性キーのリクエストがまだ処理中の場合に投げられる
+// - 初回の処理が終わる前にリトライが届いたケース
+//   （二重に実行しないよう、クライアントには少し待ってから再試行してもらう）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import {DomainException} from './DomainException';
+
+/**
+ * 冪等性キー処理中例外
+ */
+export class IdempotencyKeyInProgressException extends DomainException {
+    /**
+     * 初回の処理が終われば結果を返せるため、再試行すれば成功しうる
+     */
+    public override readonly retryable = true;
+
+    /**
+     * 処理中の冪等性キー
+     */
+    public readonly key: string;
+
+    /**
+     * @param key 処理中の冪等性キー
+     */
+    constructor(key: string) {
+        super(`A request with this idempotency key is still being processed: ${key}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'IdempotencyKeyInProgressException';
+
+        this.key = key;
+    }
+}
@@ -0,0 +1,36 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// IdempotencyKeyReusedException（冪等性キー再利用例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 使用済みの冪等性キーが、異なる内容のリクエストで再利用された場合に投げられる
+// - 「リトライ」ではなく「別の操作」なので、初回のレスポンスを返すのは誤り
+//
+// 【例】
+// 1回目: Idempotency-Key: abc / 1 → 2 へ 500円
+// 2回目: Idempotency-Key: abc / 1 → 2 へ 900円  ← この例外
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import {DomainException} from './DomainException';
+
+/**
+ * 冪等性キー再利用例外
+ */
+export class IdempotencyKeyReusedException extends DomainException {
+    /**
+     * 再利用された冪等性キー
+     */
+    public readonly key: string;
+
+    /**
+     * @param key 再利用された冪等性キー
+     */
+    constructor(key: string) {
+        super(`Idempotency key has already been used with a different request: ${key}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'IdempotencyKeyReusedException';
+
+        this.key = key;
+    }
+}
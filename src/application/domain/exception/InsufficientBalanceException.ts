@@ -20,7 +20,8 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import type {AccountId} from '../model/Activity';
-import type {Money} from '../model/Money';
+import {Money} from '../model/Money';
+import {DomainException} from './DomainException';
 
 /**
  * 残高不足例外
@@ -51,8 +52,10 @@ import type {Money} from '../model/Money';
  *    → try-catch で捕捉できる
  *    → instanceof Error が true になる
  *    → JavaScript のエラー処理の標準に従う
+ *
+ * このクラスは、Error を継承したドメイン例外の基底クラス（DomainException）を継承する
  */
-export class InsufficientBalanceException extends Error {
+export class InsufficientBalanceException extends DomainException {
     /**
      * 【プロパティの説明】
      *
@@ -84,7 +87,7 @@ export class InsufficientBalanceException extends Error {
     public readonly attemptedAmount: Money;
 
     /**
-     * 現在の残高
+     * 現在の残高（記帳残高。当座貸越を利用中ならマイナス）
      *
      * 【なぜ必要？】
      * - 「現在の残高は500円です」というメッセージを作れる
@@ -92,6 +95,20 @@ export class InsufficientBalanceException extends Error {
      */
     public readonly currentBalance: Money;
 
+    /**
+     * 当座貸越の限度額（貸越のないアカウントは0）
+     */
+    public readonly overdraftLimit: Money;
+
+    /**
+     * 引き出せる金額（現在の残高 + 当座貸越の限度額）
+     *
+     * 【なぜ現在の残高と分けている？】
+     * - 当座貸越のあるアカウントでは、残高がマイナスでも引き出せる
+     * - 「あといくら引き出せるか」は、この金額と試行金額を比べるとわかる
+     */
+    public readonly availableBalance: Money;
+
     /**
      * コンストラクタ（インスタンス作成時に呼ばれる）
      *
@@ -105,11 +122,13 @@ export class InsufficientBalanceException extends Error {
      * @param accountId 残高不足が発生したアカウントID
      * @param attemptedAmount 引き出そうとした金額
      * @param currentBalance 現在の残高
+     * @param overdraftLimit 当座貸越の限度額（省略時は貸越なし）
      */
     constructor(
         accountId: AccountId,
         attemptedAmount: Money,
-        currentBalance: Money
+        currentBalance: Money,
+        overdraftLimit: Money = Money.zero(currentBalance.getCurrency())
     ) {
         // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
         // super() の説明
@@ -137,7 +156,10 @@ export class InsufficientBalanceException extends Error {
             // テンプレート文字列（バッククォート）を使って、変数を埋め込む
             `Insufficient balance in account ${accountId.getValue().toString()}: ` +
             `attempted to withdraw ${attemptedAmount.getAmount().toString()}, ` +
-            `but current balance is ${currentBalance.getAmount().toString()}`
+            `but current balance is ${currentBalance.getAmount().toString()}` +
+            (overdraftLimit.isPositive()
+                ? ` (available balance with overdraft is ${currentBalance.plus(overdraftLimit).getAmount().toString()})`
+                : '')
         );
 
         // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -190,6 +212,8 @@ export class InsufficientBalanceException extends Error {
         this.accountId = accountId;
         this.attemptedAmount = attemptedAmount;
         this.currentBalance = currentBalance;
+        this.overdraftLimit = overdraftLimit;
+        this.availableBalance = currentBalance.plus(overdraftLimit);
     }
 }
 
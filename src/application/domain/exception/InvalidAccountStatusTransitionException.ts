@@ -0,0 +1,50 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// InvalidAccountStatusTransitionException（不正な状態遷移例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 許可されていないアカウントの状態遷移を試みた場合に投げられる
+//   例: 解約済みのアカウントを凍結する、凍結中のアカウントを再度凍結する
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type {AccountStatus} from '../model/AccountStatus';
+import type {AccountId} from '../model/Activity';
+import {DomainException} from './DomainException';
+
+/**
+ * 不正なアカウント状態遷移例外
+ */
+export class InvalidAccountStatusTransitionException extends DomainException {
+    /**
+     * 対象のアカウントのID（未保存のアカウントの場合は null）
+     */
+    public readonly accountId: AccountId | null;
+
+    /**
+     * 現在の状態
+     */
+    public readonly currentStatus: AccountStatus;
+
+    /**
+     * 遷移しようとした状態
+     */
+    public readonly requestedStatus: AccountStatus;
+
+    /**
+     * @param accountId 対象のアカウントのID
+     * @param currentStatus 現在の状態
+     * @param requestedStatus 遷移しようとした状態
+     */
+    constructor(accountId: AccountId | null, currentStatus: AccountStatus, requestedStatus: AccountStatus) {
+        super(
+            `Account ${accountId?.toString() ?? '(new)'} cannot change status from ${currentStatus} to ${requestedStatus}`
+        );
+
+        // エラーの種類を識別する名前
+        this.name = 'InvalidAccountStatusTransitionException';
+
+        this.accountId = accountId;
+        this.currentStatus = currentStatus;
+        this.requestedStatus = requestedStatus;
+    }
+}
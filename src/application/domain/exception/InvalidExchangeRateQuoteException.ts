@@ -0,0 +1,50 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// InvalidExchangeRateQuoteException（無効な為替見積もり例外）
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// 【この例外クラスの目的】
+// - 送金リクエストが参照した見積もり（quoteId）を使えない場合に投げられる例外
+//
+// 【なぜ最新のレートで続行しない？】
+// - 利用者は見積もりのレートを見て送金を決めている
+// - 黙って別のレートで送金すると、想定と違う金額が入金されてしまう
+// - 使えない場合は送金せずに知らせ、見積もりを取り直してもらう
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import {DomainException} from './DomainException';
+
+/**
+ * 見積もりを使えない理由
+ *
+ * - NOT_FOUND: 見積もりが存在しない
+ * - EXPIRED: 有効期限が切れている
+ * - CURRENCY_PAIR_MISMATCH: 見積もりの通貨ペアが送金元・送金先の通貨と一致しない
+ */
+export type InvalidExchangeRateQuoteReason = 'NOT_FOUND' | 'EXPIRED' | 'CURRENCY_PAIR_MISMATCH';
+
+/**
+ * 無効な為替見積もり例外
+ */
+export class InvalidExchangeRateQuoteException extends DomainException {
+    /**
+     * 送金リクエストが参照した見積もりのID
+     */
+    public readonly quoteId: string;
+
+    /**
+     * 見積もりを使えない理由
+     */
+    public readonly reason: InvalidExchangeRateQuoteReason;
+
+    /**
+     * @param quoteId 見積もりのID
+     * @param reason 使えない理由
+     */
+    constructor(quoteId: string, reason: InvalidExchangeRateQuoteReason) {
+        super(`Exchange rate quote ${quoteId} cannot be used: ${reason}`);
+
+        this.name = 'InvalidExchangeRateQuoteException';
+        this.quoteId = quoteId;
+        this.reason = reason;
+    }
+}
@@ -0,0 +1,46 @@
+import type {ScheduledTransferStatus} from '../model/ScheduledTransferStatus';
+import {DomainException} from './DomainException';
+
+/**
+ * 不正な予約送金の状態遷移例外
+ *
+ * 実行中・実行済みの予約送金を取り消そうとした場合などに投げられる
+ */
+export class InvalidScheduledTransferStatusTransitionException extends DomainException {
+    /**
+     * 対象の予約送金のID
+     */
+    public readonly scheduledTransferId: string;
+
+    /**
+     * 現在の状態
+     */
+    public readonly currentStatus: ScheduledTransferStatus;
+
+    /**
+     * 遷移しようとした状態
+     */
+    public readonly requestedStatus: ScheduledTransferStatus;
+
+    /**
+     * @param scheduledTransferId 対象の予約送金のID
+     * @param currentStatus 現在の状態
+     * @param requestedStatus 遷移しようとした状態
+     */
+    constructor(
+        scheduledTransferId: string,
+        currentStatus: ScheduledTransferStatus,
+        requestedStatus: ScheduledTransferStatus
+    ) {
+        super(
+            `Scheduled transfer ${scheduledTransferId} cannot change status from ${currentStatus} to ${requestedStatus}`
+        );
+
+        // エラーの種類を識別する名前
+        this.name = 'InvalidScheduledTransferStatusTransitionException';
+
+        this.scheduledTransferId = scheduledTransferId;
+        this.currentStatus = currentStatus;
+        this.requestedStatus = requestedStatus;
+    }
+}
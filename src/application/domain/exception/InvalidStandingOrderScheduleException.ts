@@ -0,0 +1,32 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 定期送金のスケジュールが不正な場合の例外
+ *
+ * Cron 式の構文エラーや、実行日が一度も来ない式（例: 2月30日）の場合に投げられる
+ */
+export class InvalidStandingOrderScheduleException extends DomainException {
+    /**
+     * 指定されたスケジュール（Cron 式、または毎月の実行日と時刻）
+     */
+    public readonly schedule: string;
+
+    /**
+     * 不正な理由
+     */
+    public readonly reason: string;
+
+    /**
+     * @param schedule 指定されたスケジュール
+     * @param reason 不正な理由
+     */
+    constructor(schedule: string, reason: string) {
+        super(`Invalid standing order schedule "${schedule}": ${reason}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'InvalidStandingOrderScheduleException';
+
+        this.schedule = schedule;
+        this.reason = reason;
+    }
+}
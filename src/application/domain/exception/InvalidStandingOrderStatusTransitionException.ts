@@ -0,0 +1,44 @@
+import type {StandingOrderStatus} from '../model/StandingOrderStatus';
+import {DomainException} from './DomainException';
+
+/**
+ * 不正な定期送金の状態遷移例外
+ *
+ * 取り消した定期送金を再開しようとした場合や、実行中の定期送金を停止しようとした場合などに投げられる
+ */
+export class InvalidStandingOrderStatusTransitionException extends DomainException {
+    /**
+     * 対象の定期送金のID
+     */
+    public readonly standingOrderId: string;
+
+    /**
+     * 現在の状態
+     */
+    public readonly currentStatus: StandingOrderStatus;
+
+    /**
+     * 遷移しようとした状態
+     */
+    public readonly requestedStatus: StandingOrderStatus;
+
+    /**
+     * @param standingOrderId 対象の定期送金のID
+     * @param currentStatus 現在の状態
+     * @param requestedStatus 遷移しようとした状態
+     */
+    constructor(
+        standingOrderId: string,
+        currentStatus: StandingOrderStatus,
+        requestedStatus: StandingOrderStatus
+    ) {
+        super(`Standing order ${standingOrderId} cannot change status from ${currentStatus} to ${requestedStatus}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'InvalidStandingOrderStatusTransitionException';
+
+        this.standingOrderId = standingOrderId;
+        this.currentStatus = currentStatus;
+        this.requestedStatus = requestedStatus;
+    }
+}
@@ -0,0 +1,34 @@
+import type {TransferId} from '../model/Transfer';
+import {DomainException} from './DomainException';
+
+/**
+ * 送金のアクティビティが、取り消せる形になっていない場合の例外
+ *
+ * 送金のアクティビティに、送金以外のアクティビティ（外部との入出金・取り消しのアクティビティ）が
+ * 含まれている場合や、出金と入金の組がそろっていない場合に投げられる
+ */
+export class InvalidTransferReversalException extends DomainException {
+    /**
+     * 取り消そうとした送金のID
+     */
+    public readonly transferId: TransferId;
+
+    /**
+     * 取り消せない理由
+     */
+    public readonly reason: string;
+
+    /**
+     * @param transferId 取り消そうとした送金のID
+     * @param reason 取り消せない理由
+     */
+    constructor(transferId: TransferId, reason: string) {
+        super(`Transfer ${transferId.toString()} cannot be reversed: ${reason}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'InvalidTransferReversalException';
+
+        this.transferId = transferId;
+        this.reason = reason;
+    }
+}
@@ -0,0 +1,26 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 予約送金に為替レートの見積もりを指定した場合の例外
+ *
+ * 見積もりは有効期限が短く、実行日時までに期限が切れるため、予約送金には使えない
+ * （実行時点のレートで換算する）
+ */
+export class QuoteNotAllowedForScheduledTransferException extends DomainException {
+    /**
+     * 指定された見積もりID
+     */
+    public readonly quoteId: string;
+
+    /**
+     * @param quoteId 指定された見積もりID
+     */
+    constructor(quoteId: string) {
+        super(`Exchange rate quotes cannot be used for scheduled transfers: ${quoteId}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'QuoteNotAllowedForScheduledTransferException';
+
+        this.quoteId = quoteId;
+    }
+}
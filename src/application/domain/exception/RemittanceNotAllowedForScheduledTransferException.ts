@@ -0,0 +1,16 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 予約送金に参照情報・メモを指定した場合の例外
+ *
+ * 予約送金は参照情報・メモを保存しないため、指定されたまま予約すると
+ * 実行した送金に記録されない（黙って捨てずにエラーにする）
+ */
+export class RemittanceNotAllowedForScheduledTransferException extends DomainException {
+    constructor() {
+        super('Remittance information (reference and memo) cannot be used for scheduled transfers');
+
+        // エラーの種類を識別する名前
+        this.name = 'RemittanceNotAllowedForScheduledTransferException';
+    }
+}
@@ -22,6 +22,7 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import type {AccountId} from '../model/Activity';
+import {DomainException} from './DomainException';
 
 /**
  * 同一アカウント送金例外
@@ -33,7 +34,7 @@ import type {AccountId} from '../model/Activity';
  * アカウント12345 から アカウント12345 へ送金しようとする
  * → この例外が投げられる
  */
-export class SameAccountTransferException extends Error {
+export class SameAccountTransferException extends DomainException {
     /**
      * 送金元と送金先が同じアカウントのID
      *
@@ -0,0 +1,23 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 予約送金不在例外
+ */
+export class ScheduledTransferNotFoundException extends DomainException {
+    /**
+     * 見つからなかった予約送金のID
+     */
+    public readonly scheduledTransferId: string;
+
+    /**
+     * @param scheduledTransferId 見つからなかった予約送金のID
+     */
+    constructor(scheduledTransferId: string) {
+        super(`Scheduled transfer not found: ${scheduledTransferId}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'ScheduledTransferNotFoundException';
+
+        this.scheduledTransferId = scheduledTransferId;
+    }
+}
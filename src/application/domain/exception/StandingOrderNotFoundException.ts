@@ -0,0 +1,23 @@
+import {DomainException} from './DomainException';
+
+/**
+ * 定期送金不在例外
+ */
+export class StandingOrderNotFoundException extends DomainException {
+    /**
+     * 見つからなかった定期送金のID
+     */
+    public readonly standingOrderId: string;
+
+    /**
+     * @param standingOrderId 見つからなかった定期送金のID
+     */
+    constructor(standingOrderId: string) {
+        super(`Standing order not found: ${standingOrderId}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'StandingOrderNotFoundException';
+
+        this.standingOrderId = standingOrderId;
+    }
+}
@@ -17,6 +17,7 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import type {Money} from '../model/Money';
+import {DomainException} from './DomainException';
 
 /**
  * 送金限度額超過例外
@@ -32,7 +33,7 @@ import type {Money} from '../model/Money';
  *   - 残高: 200万円、送金額: 150万円、限度額: 100万円 → 禁止
  *   - お金はあるけど、ルール違反
  */
-export class ThresholdExceededException extends Error {
+export class ThresholdExceededException extends DomainException {
   /**
    * 設定されている限度額
    *
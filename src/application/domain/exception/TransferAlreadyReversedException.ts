@@ -0,0 +1,26 @@
+import type {TransferId} from '../model/Transfer';
+import {DomainException} from './DomainException';
+
+/**
+ * 取り消し済みの送金をもう一度取り消そうとした場合の例外
+ *
+ * 同じお金を2回戻さないようにするため、送金は1回しか取り消せない
+ */
+export class TransferAlreadyReversedException extends DomainException {
+    /**
+     * 取り消そうとした送金のID
+     */
+    public readonly transferId: TransferId;
+
+    /**
+     * @param transferId 取り消そうとした送金のID
+     */
+    constructor(transferId: TransferId) {
+        super(`Transfer has already been reversed: ${transferId.toString()}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'TransferAlreadyReversedException';
+
+        this.transferId = transferId;
+    }
+}
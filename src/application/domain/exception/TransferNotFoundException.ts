@@ -0,0 +1,24 @@
+import type {TransferId} from '../model/Transfer';
+import {DomainException} from './DomainException';
+
+/**
+ * 送金不在例外
+ */
+export class TransferNotFoundException extends DomainException {
+    /**
+     * 見つからなかった送金のID
+     */
+    public readonly transferId: TransferId;
+
+    /**
+     * @param transferId 見つからなかった送金のID
+     */
+    constructor(transferId: TransferId) {
+        super(`Transfer not found: ${transferId.toString()}`);
+
+        // エラーの種類を識別する名前
+        this.name = 'TransferNotFoundException';
+
+        this.transferId = transferId;
+    }
+}
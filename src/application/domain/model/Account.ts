@@ -1,30 +1,68 @@
+import {CurrencyMismatchException} from "../exception/CurrencyMismatchException";
 import {InsufficientBalanceException} from "../exception/InsufficientBalanceException";
+import {InvalidAccountStatusTransitionException} from "../exception/InvalidAccountStatusTransitionException";
+import type {AccountStatus} from './AccountStatus';
+import type {AccountTier} from './AccountTier';
 import type {AccountId} from './Activity';
 import { Activity} from './Activity';
 import type {ActivityWindow} from './ActivityWindow';
-import type {Money} from './Money';
+import type {Currency} from './Currency';
+import type {CurrencyConversion} from './CurrencyConversion';
+import {Money} from './Money';
+import type {RemittanceInformation} from './RemittanceInformation';
+import type {TransferId} from './Transfer';
 
 export class Account {
     private constructor(
         private readonly id: AccountId | null,
         private readonly baselineBalance: Money,
-        private readonly activityWindow: ActivityWindow
+        private readonly activityWindow: ActivityWindow,
+        private status: AccountStatus,
+        private tier: AccountTier,
+        private overdraftLimit: Money
     ) {
+        this.assertValidOverdraftLimit(overdraftLimit);
     }
 
+    /**
+     * @param overdraftLimit 当座貸越の限度額（アカウントの通貨。省略時は貸越なし）
+     */
     static withoutId(
         baselineBalance: Money,
-        activityWindow: ActivityWindow
+        activityWindow: ActivityWindow,
+        status: AccountStatus = 'ACTIVE',
+        tier: AccountTier = 'BASIC',
+        overdraftLimit: Money | null = null
     ): Account {
-        return new Account(null, baselineBalance, activityWindow);
+        return new Account(
+            null,
+            baselineBalance,
+            activityWindow,
+            status,
+            tier,
+            overdraftLimit ?? Money.zero(baselineBalance.getCurrency())
+        );
     }
 
+    /**
+     * @param overdraftLimit 当座貸越の限度額（アカウントの通貨。省略時は貸越なし）
+     */
     static withId(
         accountId: AccountId,
         baselineBalance: Money,
-        activityWindow: ActivityWindow
+        activityWindow: ActivityWindow,
+        status: AccountStatus = 'ACTIVE',
+        tier: AccountTier = 'BASIC',
+        overdraftLimit: Money | null = null
     ): Account {
-        return new Account(accountId, baselineBalance, activityWindow);
+        return new Account(
+            accountId,
+            baselineBalance,
+            activityWindow,
+            status,
+            tier,
+            overdraftLimit ?? Money.zero(baselineBalance.getCurrency())
+        );
     }
 
     getId(): AccountId | null {
@@ -35,10 +73,92 @@ export class Account {
         return this.baselineBalance;
     }
 
+    /**
+     * アカウントの通貨
+     * （アカウントは1つの通貨だけを扱う。ベースライン残高の通貨がアカウントの通貨）
+     */
+    getCurrency(): Currency {
+        return this.baselineBalance.getCurrency();
+    }
+
     getActivityWindow(): ActivityWindow {
         return this.activityWindow;
     }
 
+    getStatus(): AccountStatus {
+        return this.status;
+    }
+
+    /**
+     * アカウントの区分（送金限度額の区分）
+     */
+    getTier(): AccountTier {
+        return this.tier;
+    }
+
+    /**
+     * アカウントの区分を変更する
+     *
+     * 区分は送金限度額を決めるだけなので、どの状態のアカウントでも変更できる
+     */
+    changeTier(tier: AccountTier): void {
+        this.tier = tier;
+    }
+
+    /**
+     * 当座貸越の限度額（残高をマイナスにできる上限。0 なら貸越なし）
+     */
+    getOverdraftLimit(): Money {
+        return this.overdraftLimit;
+    }
+
+    /**
+     * 当座貸越の限度額を変更する
+     *
+     * 限度額を現在の貸越額より小さくしても、既存の貸越はそのまま残る
+     * （以後の出金ができなくなるだけ）
+     *
+     * @throws CurrencyMismatchException アカウントと異なる通貨の場合
+     * @throws Error 限度額が負の場合
+     */
+    changeOverdraftLimit(overdraftLimit: Money): void {
+        this.assertValidOverdraftLimit(overdraftLimit);
+        this.overdraftLimit = overdraftLimit;
+    }
+
+    /**
+     * 入出金・送金ができる状態かどうか
+     */
+    isActive(): boolean {
+        return this.status === 'ACTIVE';
+    }
+
+    /**
+     * アカウントを凍結する（ACTIVE → FROZEN）
+     *
+     * @throws InvalidAccountStatusTransitionException ACTIVE 以外の場合
+     */
+    freeze(): void {
+        if (this.status !== 'ACTIVE') {
+            throw new InvalidAccountStatusTransitionException(this.id, this.status, 'FROZEN');
+        }
+
+        this.status = 'FROZEN';
+    }
+
+    /**
+     * アカウントを解約する（ACTIVE / FROZEN → CLOSED）
+     *
+     * @throws InvalidAccountStatusTransitionException 既に解約済みの場合
+     */
+    close(): void {
+        if (this.status === 'CLOSED') {
+            throw new InvalidAccountStatusTransitionException(this.id, this.status, 'CLOSED');
+        }
+
+        this.status = 'CLOSED';
+    }
+
     /**
      * 新規アクティビティを取得
      *
@@ -57,31 +177,92 @@ export class Account {
             .filter((activity) => !activity.getId());
     }
 
+    /**
+     * 指定した時刻以降の出金の合計（未保存の出金を含み、取り消された送金・取り消しによる出金を除く）
+     *
+     * @param since 集計の開始時刻
+     */
+    calculateWithdrawalTotalSince(since: Date): Money {
+        if (!this.id) {
+            return Money.zero(this.getCurrency());
+        }
+        return this.activityWindow.calculateWithdrawalTotalSince(this.id, since, this.getCurrency());
+    }
+
+    /**
+     * 未保存の出金アクティビティの合計金額
+     *
+     * 永続化アダプターが「どのアカウントの残高を再チェックすべきか」
+     * 「いくら引き出そうとしたか」を判断するために使用する
+     * （残高のための合計なので、取り消しによる出金も含める。累積送金限度額の集計は calculateWithdrawalTotalSince）
+     *
+     * @returns 未保存の出金の合計（出金がなければ0）
+     */
+    getNewWithdrawalTotal(): Money {
+        const id = this.id;
+        if (!id) {
+            return Money.zero(this.getCurrency());
+        }
+
+        return this.getNewActivities()
+            .filter((activity) => activity.isWithdrawalFrom(id) && !activity.isDepositFor(id))
+            .reduce((sum, activity) => sum.plus(activity.getMoney()), Money.zero(this.getCurrency()));
+    }
+
     calculateBalance(): Money {
         if (!this.id) {
             throw new Error('Cannot calculate balance without account ID');
         }
 
         return this.baselineBalance.plus(
-            this.activityWindow.calculateBalance(this.id)
+            this.activityWindow.calculateBalance(this.id, this.getCurrency())
         );
     }
 
+    /**
+     * 引き出せる金額（残高 + 当座貸越の限度額）
+     */
+    calculateAvailableBalance(): Money {
+        return this.calculateBalance().plus(this.overdraftLimit);
+    }
+
+    /**
+     * 当座貸越の利用額（残高がマイナスの分。マイナスでなければ0）
+     */
+    calculateOverdraftUsage(): Money {
+        return Money.min(this.calculateBalance(), Money.zero(this.getCurrency())).abs();
+    }
+
     /**
      * 出金を実行
      *
-     * @throws InsufficientBalanceException 残高不足の場合
+     * @param money 出金額（アカウントの通貨）
+     * @param targetAccountId 送金先のアカウントID
+     * @param conversion 通貨をまたぐ送金で適用した換算（アクティビティに記録する）
+     * @param transferId アクティビティが属する送金のID
+     * @param remittance 送金の参照情報とメモ（アクティビティに記録する）
+     * @throws CurrencyMismatchException アカウントと異なる通貨の場合
+     * @throws InsufficientBalanceException 残高 + 当座貸越の限度額が足りない場合
      */
-    withdraw(money: Money, targetAccountId: AccountId): void {
+    withdraw(
+        money: Money,
+        targetAccountId: AccountId,
+        conversion: CurrencyConversion | null = null,
+        transferId: TransferId | null = null,
+        remittance: RemittanceInformation | null = null
+    ): void {
         if (!this.id) {
             throw new Error('Cannot withdraw without account ID');
         }
 
+        this.assertAccountCurrency(money);
+
         if (!this.mayWithdraw(money)) {
             throw new InsufficientBalanceException(
                 this.id,
                 money,
-                this.calculateBalance()
+                this.calculateBalance(),
+                this.overdraftLimit
             );
         }
 
@@ -90,33 +271,125 @@ export class Account {
             this.id,
             targetAccountId,
             new Date(),
-            money
+            money,
+            conversion,
+            null,
+            transferId,
+            remittance
         );
 
         this.activityWindow.addActivity(withdrawalActivity);
     }
 
+    /**
+     * 当座貸越の限度額まで、残高をマイナスにして引き出せる
+     */
     private mayWithdraw(money: Money): boolean {
-        return this.calculateBalance().minus(money).isPositiveOrZero();
+        return this.calculateAvailableBalance().minus(money).isPositiveOrZero();
     }
 
-    deposit(money: Money, sourceAccountId: AccountId): void {
+    /**
+     * 入金を実行
+     *
+     * @param money 入金額（アカウントの通貨）
+     * @param sourceAccountId 送金元のアカウントID
+     * @param conversion 通貨をまたぐ送金で適用した換算（アクティビティに記録する）
+     * @param transferId アクティビティが属する送金のID
+     * @param remittance 送金の参照情報とメモ（アクティビティに記録する）
+     * @throws CurrencyMismatchException アカウントと異なる通貨の場合
+     */
+    deposit(
+        money: Money,
+        sourceAccountId: AccountId,
+        conversion: CurrencyConversion | null = null,
+        transferId: TransferId | null = null,
+        remittance: RemittanceInformation | null = null
+    ): void {
         if (!this.id) {
             throw new Error('Cannot deposit without account ID');
         }
 
+        this.assertAccountCurrency(money);
+
         const depositActivity = Activity.withoutId(
             this.id,
             sourceAccountId,
             this.id,
             new Date(),
-            money
+            money,
+            conversion,
+            null,
+            transferId,
+            remittance
         );
 
         this.activityWindow.addActivity(depositActivity);
     }
 
+    /**
+     * アクティビティを取り消す（取り消しのアクティビティを追加する）
+     *
+     * 元のアクティビティの送金元と送金先を入れ替え、同じ金額で記録する。
+     * 元のアクティビティが入金なら取り消しは出金になるため、残高をチェックする
+     * （管理者が強制する場合は、当座貸越の限度額を超えてマイナスになってもよい）
+     *
+     * 金額は元のアクティビティと同じ（アカウントの通貨）なので、換算は記録しない
+     *
+     * @param original 取り消す元のアクティビティ（このアカウントが所有する保存済みのアクティビティ）
+     * @param force 残高のチェックを省略する場合は true
+     * @throws InsufficientBalanceException 取り消しの出金に残高 + 当座貸越の限度額が足りない場合
+     * @throws Error 元のアクティビティがこのアカウントのものでない・未保存・送金以外の場合
+     */
+    reverseActivity(original: Activity, force = false): void {
+        if (!this.id) {
+            throw new Error('Cannot reverse an activity without account ID');
+        }
+
+        const originalId = original.getId();
+        const sourceAccountId = original.getSourceAccountId();
+        const targetAccountId = original.getTargetAccountId();
+        if (!originalId || !original.getOwnerAccountId().equals(this.id)) {
+            throw new Error(`Activity is not a stored activity of account ${this.id.toString()}`);
+        }
+        if (!sourceAccountId || !targetAccountId) {
+            throw new Error(`Only transfer activities can be reversed: ${originalId.toString()}`);
+        }
+
+        const money = original.getMoney();
+        this.assertAccountCurrency(money);
+
+        if (original.isDepositFor(this.id) && !force && !this.mayWithdraw(money)) {
+            throw new InsufficientBalanceException(
+                this.id,
+                money,
+                this.calculateBalance(),
+                this.overdraftLimit
+            );
+        }
 
+        const reversalActivity = Activity.withoutId(
+            this.id,
+            targetAccountId,
+            sourceAccountId,
+            new Date(),
+            money,
+            null,
+            originalId
+        );
 
+        this.activityWindow.addActivity(reversalActivity);
+    }
+
+    private assertAccountCurrency(money: Money): void {
+        if (!money.getCurrency().equals(this.getCurrency())) {
+            throw new CurrencyMismatchException(this.getCurrency(), money.getCurrency());
+        }
+    }
 
+    private assertValidOverdraftLimit(overdraftLimit: Money): void {
+        this.assertAccountCurrency(overdraftLimit);
+        if (overdraftLimit.isNegative()) {
+            throw new Error(`Overdraft limit must not be negative: ${overdraftLimit.toString()}`);
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * アカウントの状態
+ *
+ * - ACTIVE: 通常の状態。入出金・送金ができる
+ * - FROZEN: 凍結中。送金の送金元・送金先のどちらにもなれない
+ * - CLOSED: 解約済み。以後どの操作もできない（最終状態）
+ *
+ * 状態遷移：
+ *   ACTIVE ──freeze──→ FROZEN
+ *   ACTIVE ──close───→ CLOSED
+ *   FROZEN ──close───→ CLOSED
+ */
+export type AccountStatus = 'ACTIVE' | 'FROZEN' | 'CLOSED';
+
+/**
+ * すべてのアカウント状態（永続化層からの値の検証などに使用）
+ */
+export const ACCOUNT_STATUSES: readonly AccountStatus[] = ['ACTIVE', 'FROZEN', 'CLOSED'];
+
+/**
+ * 文字列が有効なアカウント状態かどうかを判定する型ガード
+ */
+export function isAccountStatus(value: string): value is AccountStatus {
+    return (ACCOUNT_STATUSES as readonly string[]).includes(value);
+}
@@ -0,0 +1,22 @@
+/**
+ * アカウントの区分（送金限度額の区分）
+ *
+ * - BASIC: 開設直後の個人アカウント
+ * - VERIFIED: 本人確認済みの個人アカウント
+ * - BUSINESS: 法人アカウント
+ *
+ * 区分ごとの限度額は TransferLimitsPolicyPort から取得する
+ */
+export type AccountTier = 'BASIC' | 'VERIFIED' | 'BUSINESS';
+
+/**
+ * すべてのアカウント区分（永続化層からの値の検証などに使用）
+ */
+export const ACCOUNT_TIERS: readonly AccountTier[] = ['BASIC', 'VERIFIED', 'BUSINESS'];
+
+/**
+ * 文字列が有効なアカウント区分かどうかを判定する型ガード
+ */
+export function isAccountTier(value: string): value is AccountTier {
+    return (ACCOUNT_TIERS as readonly string[]).includes(value);
+}
@@ -1,4 +1,7 @@
+import type { CurrencyConversion } from './CurrencyConversion';
 import type { Money } from './Money';
+import type { RemittanceInformation } from './RemittanceInformation';
+import type { TransferId } from './Transfer';
 
 /**
  * アクティビティID（値オブジェクト）
@@ -38,6 +41,15 @@ export class AccountId {
   }
 }
 
+/**
+ * アカウントから見たアクティビティの向き
+ *
+ * - incoming: 他のアカウントからの入金
+ * - outgoing: 他のアカウントへの出金
+ * - external: 外部との入出金（給与、ATM、手数料など）
+ */
+export type ActivityDirection = 'incoming' | 'outgoing' | 'external';
+
 /**
  * アカウント間の送金活動を表すエンティティ
  *
@@ -63,7 +75,11 @@ export class Activity {
       private readonly sourceAccountId: AccountId | null,
       private readonly targetAccountId: AccountId | null,
       private readonly timestamp: Date,
-      private readonly money: Money
+      private readonly money: Money,
+      private readonly conversion: CurrencyConversion | null,
+      private readonly reversalOf: ActivityId | null,
+      private readonly transferId: TransferId | null,
+      private readonly remittance: RemittanceInformation | null
   ) {
     // バリデーション：少なくとも一方は非nullでなければならない
     if (sourceAccountId === null && targetAccountId === null) {
@@ -85,6 +101,10 @@ export class Activity {
    * @param targetAccountId 送金先アカウントID（null=外部への出金）
    * @param timestamp アクティビティのタイムスタンプ
    * @param money 金額
+   * @param conversion 通貨をまたぐ送金で適用した換算（同じ通貨同士なら null）
+   * @param reversalOf 取り消す元のアクティビティのID（取り消しのアクティビティのみ）
+   * @param transferId アクティビティが属する送金のID（送金・手数料のアクティビティのみ）
+   * @param remittance 送金の参照情報とメモ（指定された送金のアクティビティのみ）
    * @returns 新規Activityインスタンス（ID=null）
    */
   static withoutId(
@@ -92,7 +112,11 @@ export class Activity {
       sourceAccountId: AccountId | null,
       targetAccountId: AccountId | null,
       timestamp: Date,
-      money: Money
+      money: Money,
+      conversion: CurrencyConversion | null = null,
+      reversalOf: ActivityId | null = null,
+      transferId: TransferId | null = null,
+      remittance: RemittanceInformation | null = null
   ): Activity {
     return new Activity(
         null,  // ← IDはnull（新規作成）
@@ -100,7 +124,11 @@ export class Activity {
         sourceAccountId,
         targetAccountId,
         timestamp,
-        money
+        money,
+        conversion,
+        reversalOf,
+        transferId,
+        remittance
     );
   }
 
@@ -117,6 +145,10 @@ export class Activity {
    * @param targetAccountId 送金先アカウントID（null=外部への出金）
    * @param timestamp アクティビティのタイムスタンプ
    * @param money 金額
+   * @param conversion 通貨をまたぐ送金で適用した換算（同じ通貨同士なら null）
+   * @param reversalOf 取り消す元のアクティビティのID（取り消しのアクティビティのみ）
+   * @param transferId アクティビティが属する送金のID（送金・手数料のアクティビティのみ）
+   * @param remittance 送金の参照情報とメモ（指定された送金のアクティビティのみ）
    * @returns 既存Activityインスタンス（IDあり）
    */
   static withId(
@@ -125,7 +157,11 @@ export class Activity {
       sourceAccountId: AccountId | null,
       targetAccountId: AccountId | null,
       timestamp: Date,
-      money: Money
+      money: Money,
+      conversion: CurrencyConversion | null = null,
+      reversalOf: ActivityId | null = null,
+      transferId: TransferId | null = null,
+      remittance: RemittanceInformation | null = null
   ): Activity {
     return new Activity(
         id,  // ← IDあり（DB再構成）
@@ -133,7 +169,11 @@ export class Activity {
         sourceAccountId,
         targetAccountId,
         timestamp,
-        money
+        money,
+        conversion,
+        reversalOf,
+        transferId,
+        remittance
     );
   }
 
@@ -165,6 +205,42 @@ export class Activity {
     return this.money;
   }
 
+  /**
+   * 通貨をまたぐ送金で適用した換算を取得
+   *
+   * @returns 換算（同じ通貨同士のアクティビティなら null）
+   */
+  getConversion(): CurrencyConversion | null {
+    return this.conversion;
+  }
+
+  /**
+   * 取り消す元のアクティビティのIDを取得
+   *
+   * @returns 元のアクティビティのID（取り消しのアクティビティでなければ null）
+   */
+  getReversalOf(): ActivityId | null {
+    return this.reversalOf;
+  }
+
+  /**
+   * アクティビティが属する送金のIDを取得
+   *
+   * @returns 送金のID（送金に属さないアクティビティなら null）
+   */
+  getTransferId(): TransferId | null {
+    return this.transferId;
+  }
+
+  /**
+   * 送金の参照情報とメモを取得
+   *
+   * @returns 参照情報とメモ（指定されていない送金や、送金以外のアクティビティなら null）
+   */
+  getRemittance(): RemittanceInformation | null {
+    return this.remittance;
+  }
+
   // ========================================
   // ビジネスロジック（ヘルパーメソッド）
   // ========================================
@@ -205,6 +281,17 @@ export class Activity {
     return this.sourceAccountId !== null && this.targetAccountId !== null;
   }
 
+  /**
+   * 他のアクティビティを取り消すためのアクティビティ（取り消しのアクティビティ）かどうかを判定
+   *
+   * 【パターン】元のアクティビティの source と target を入れ替え、同じ金額で記録したもの
+   *
+   * @returns true if this activity reverses another activity
+   */
+  isReversal(): boolean {
+    return this.reversalOf !== null;
+  }
+
   /**
    * 指定したアカウントへの入金かどうかを判定
    *
@@ -224,4 +311,34 @@ export class Activity {
   isWithdrawalFrom(accountId: AccountId): boolean {
     return this.sourceAccountId?.equals(accountId) ?? false;
   }
-}
\ No newline at end of file
+
+  /**
+   * 指定したアカウントから見たアクティビティの向きを判定
+   *
+   * 【判定順序】
+   * 1. 外部との入出金（isExternalDeposit / isExternalWithdrawal）→ external
+   * 2. 指定アカウントへの入金（isDepositFor）→ incoming
+   * 3. 指定アカウントからの出金（isWithdrawalFrom）→ outgoing
+   *
+   * @param accountId 視点となるアカウントID（通常はアクティビティの所有者）
+   * @returns アクティビティの向き
+   * @throws Error 指定アカウントが送金元・送金先のどちらでもない場合
+   */
+  getDirectionFor(accountId: AccountId): ActivityDirection {
+    if (this.isExternalDeposit() || this.isExternalWithdrawal()) {
+      return 'external';
+    }
+
+    if (this.isDepositFor(accountId)) {
+      return 'incoming';
+    }
+
+    if (this.isWithdrawalFrom(accountId)) {
+      return 'outgoing';
+    }
+
+    throw new Error(
+        `Activity does not involve account ${accountId.toString()}`
+    );
+  }
+}
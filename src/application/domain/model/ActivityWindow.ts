@@ -1,4 +1,5 @@
 import type {AccountId, Activity} from './Activity';
+import {Currency} from './Currency';
 import {Money} from './Money';
 
 /**
@@ -123,8 +124,10 @@ export class ActivityWindow {
     /**
      * 指定されたアカウントIDに対する残高を計算
      * 入金（targetAccountId）はプラス、出金（sourceAccountId）はマイナス
+     *
+     * @param currency 集計する通貨（アカウントの通貨。アクティビティが空でも結果の通貨が決まるように渡す）
      */
-    calculateBalance(accountId: AccountId): Money {
+    calculateBalance(accountId: AccountId, currency: Currency = Currency.JPY): Money {
         /**
          * 【入金の合計を計算】
          *
@@ -167,7 +170,7 @@ export class ActivityWindow {
          */
         const depositBalance = this.activities
             .filter((a) => a.getTargetAccountId()?.equals(accountId))  // 指定されたアカウントが受取人のアクティビティのみ抽出
-            .reduce((sum, a) => sum.plus(a.getMoney()), Money.ZERO);  // 各金額を合計
+            .reduce((sum, a) => sum.plus(a.getMoney()), Money.zero(currency));  // 各金額を合計
 
         /**
          * 【出金の合計を計算】
@@ -205,7 +208,7 @@ export class ActivityWindow {
          */
         const withdrawalBalance = this.activities
             .filter((a) => a.getSourceAccountId()?.equals(accountId))  // 指定されたアカウントが送金元のアクティビティのみ抽出
-            .reduce((sum, a) => sum.plus(a.getMoney()), Money.ZERO);  // 各金額を合計
+            .reduce((sum, a) => sum.plus(a.getMoney()), Money.zero(currency));  // 各金額を合計
 
         /**
          * 【最終的な残高計算】
@@ -222,6 +225,39 @@ export class ActivityWindow {
         return depositBalance.minus(withdrawalBalance);
     }
 
+    /**
+     * 指定した時刻以降の、指定されたアカウントからの出金の合計
+     *
+     * 累積送金限度額（直近24時間・30日）の集計に使う。
+     * ウィンドウに読み込まれていない期間の出金は含まれないため、
+     * 集計期間をカバーするところからアクティビティを読み込んでおく必要がある
+     *
+     * 送金の取り消しは集計から除く
+     * - 取り消された出金（取り消しのアクティビティが元の出金を指している）は、送金がなかったものとして数えない
+     * - 取り消しによる出金（受け取った送金を取り消して返金したもの）は、利用者の送金ではないので数えない
+     * 取り消しは元の出金より後に記録されるため、元の出金がウィンドウにあれば取り消しもウィンドウにある
+     *
+     * @param since 集計の開始時刻（この時刻ちょうどの出金を含む）
+     * @param currency 集計する通貨（アカウントの通貨）
+     */
+    calculateWithdrawalTotalSince(accountId: AccountId, since: Date, currency: Currency = Currency.JPY): Money {
+        const reversedActivityIds = new Set(
+            this.activities
+                .map((a) => a.getReversalOf()?.getValue())
+                .filter((id) => id !== undefined)
+        );
+
+        return this.activities
+            .filter((a) => a.isWithdrawalFrom(accountId) && !a.isDepositFor(accountId))
+            .filter((a) => a.getTimestamp().getTime() >= since.getTime())
+            .filter((a) => !a.isReversal())
+            .filter((a) => {
+                const id = a.getId();
+                return !id || !reversedActivityIds.has(id.getValue());
+            })
+            .reduce((sum, a) => sum.plus(a.getMoney()), Money.zero(currency));
+    }
+
     /**
      * アクティビティを追加
      */
@@ -0,0 +1,219 @@
+import {InvalidStandingOrderScheduleException} from '../exception/InvalidStandingOrderScheduleException';
+
+/**
+ * Cron 式の各フィールドの範囲
+ */
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+}
+
+const MINUTE: CronField = {name: 'minute', min: 0, max: 59};
+const HOUR: CronField = {name: 'hour', min: 0, max: 23};
+const DAY_OF_MONTH: CronField = {name: 'day of month', min: 1, max: 31};
+const MONTH: CronField = {name: 'month', min: 1, max: 12};
+const DAY_OF_WEEK: CronField = {name: 'day of week', min: 0, max: 7}; // 0 と 7 はどちらも日曜日
+
+/**
+ * 次の実行日時を探す日数の上限
+ * （うるう年の2月29日だけに一致する式でも見つかるように、4年分 + 1日を探す）
+ */
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+/**
+ * Cron 式による定期送金のスケジュール（値オブジェクト）
+ *
+ * 標準的な5フィールドの式（分 時 日 月 曜日）を UTC で解釈する
+ * - 各フィールドで *、数値、範囲（1-5）、リスト（1,15）、間隔（*\/15、1-31/2）が使える
+ * - 日と曜日の両方を指定した場合は、どちらかに一致する日に実行する（一般的な cron と同じ）
+ *
+ * 例: "0 9 * * 1-5"（平日の9時）、"30 0 1,15 * *"（毎月1日と15日の0時30分）
+ */
+export class CronSchedule {
+    readonly type = 'CRON';
+
+    private constructor(
+        /** 元の Cron 式 */
+        public readonly expression: string,
+        private readonly minutes: readonly number[],
+        private readonly hours: readonly number[],
+        private readonly daysOfMonth: ReadonlySet<number>,
+        private readonly months: ReadonlySet<number>,
+        private readonly daysOfWeek: ReadonlySet<number>,
+        /** 日・曜日のフィールドが * で始まらない（= 絞り込まれている）か */
+        private readonly restrictsDayOfMonth: boolean,
+        private readonly restrictsDayOfWeek: boolean
+    ) {
+    }
+
+    /**
+     * Cron 式を解析する
+     *
+     * @throws InvalidStandingOrderScheduleException 構文が不正な場合、または一致する日時がない場合（例: "0 0 30 2 *"）
+     */
+    static parse(expression: string): CronSchedule {
+        const fields = expression.trim().split(/\s+/);
+        if (fields.length !== 5) {
+            throw new InvalidStandingOrderScheduleException(
+                expression,
+                'cron expression must have 5 fields (minute hour day-of-month month day-of-week)'
+            );
+        }
+
+        const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+        const daysOfWeek = parseField(expression, dayOfWeek, DAY_OF_WEEK).map((day) => day % 7);
+
+        const schedule = new CronSchedule(
+            fields.join(' '),
+            parseField(expression, minute, MINUTE),
+            parseField(expression, hour, HOUR),
+            new Set(parseField(expression, dayOfMonth, DAY_OF_MONTH)),
+            new Set(parseField(expression, month, MONTH)),
+            new Set(daysOfWeek),
+            !dayOfMonth.startsWith('*'),
+            !dayOfWeek.startsWith('*')
+        );
+
+        if (schedule.findNextAfter(new Date(0)) === null) {
+            throw new InvalidStandingOrderScheduleException(expression, 'cron expression never matches any date');
+        }
+
+        return schedule;
+    }
+
+    /**
+     * 指定した時刻より後の、最初の実行日時
+     */
+    nextAfter(after: Date): Date {
+        const next = this.findNextAfter(after);
+        if (next === null) {
+            // parse で一致する日時があることを確認しているため、通常は起きない
+            throw new Error(`No occurrence found for cron expression: ${this.expression}`);
+        }
+        return next;
+    }
+
+    /**
+     * 文字列表現（Cron 式）
+     */
+    toString(): string {
+        return this.expression;
+    }
+
+    private findNextAfter(after: Date): Date | null {
+        // 次の分の0秒から探す
+        const candidate = new Date(after.getTime());
+        candidate.setUTCSeconds(0, 0);
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+        for (let day = 0; day < MAX_SEARCH_DAYS; day++) {
+            if (this.matchesDay(candidate)) {
+                const time = this.firstTimeFrom(candidate.getUTCHours(), candidate.getUTCMinutes());
+                if (time !== null) {
+                    candidate.setUTCHours(time.hour, time.minute);
+                    return candidate;
+                }
+            }
+            // 翌日の0時0分から探し直す
+            candidate.setUTCHours(24, 0, 0, 0);
+        }
+
+        return null;
+    }
+
+    private matchesDay(date: Date): boolean {
+        if (!this.months.has(date.getUTCMonth() + 1)) {
+            return false;
+        }
+
+        const matchesDayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+        const matchesDayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+
+        // 日と曜日の両方が絞り込まれている場合は、どちらかに一致すればよい
+        if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) {
+            return matchesDayOfMonth || matchesDayOfWeek;
+        }
+        return matchesDayOfMonth && matchesDayOfWeek;
+    }
+
+    /**
+     * その日のうち、指定した時刻以降で最初に一致する時刻
+     */
+    private firstTimeFrom(fromHour: number, fromMinute: number): { hour: number; minute: number } | null {
+        for (const hour of this.hours) {
+            if (hour < fromHour) {
+                continue;
+            }
+            const minute = this.minutes.find((value) => hour > fromHour || value >= fromMinute);
+            if (minute !== undefined) {
+                return {hour, minute};
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Cron 式の1フィールドを、一致する値の昇順の配列に変換する
+ */
+function parseField(expression: string, text: string, field: CronField): number[] {
+    const values = new Set<number>();
+
+    for (const part of text.split(',')) {
+        // "範囲/間隔" に分ける（間隔の中の余分な "/" は数値として不正になる）
+        const slash = part.indexOf('/');
+        const rangeText = slash === -1 ? part : part.slice(0, slash);
+        const stepText = slash === -1 ? null : part.slice(slash + 1);
+        if (rangeText === '') {
+            throw invalidField(expression, field, text);
+        }
+
+        const step = stepText === null ? 1 : parseNumber(expression, field, stepText);
+        if (step === 0) {
+            throw invalidField(expression, field, text);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangeText === '*') {
+            start = field.min;
+            end = field.max;
+        } else if (rangeText.includes('-')) {
+            const [startText, endText, ...extra] = rangeText.split('-');
+            if (extra.length > 0) {
+                throw invalidField(expression, field, text);
+            }
+            start = parseNumber(expression, field, startText);
+            end = parseNumber(expression, field, endText);
+        } else {
+            start = parseNumber(expression, field, rangeText);
+            // "5/15" は "5-最大値/15" と同じ
+            end = stepText === null ? start : field.max;
+        }
+
+        if (start < field.min || end > field.max || start > end) {
+            throw invalidField(expression, field, text);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return [...values].sort((a, b) => a - b);
+}
+
+function parseNumber(expression: string, field: CronField, text: string): number {
+    if (!/^\d+$/.test(text)) {
+        throw invalidField(expression, field, text);
+    }
+    return Number(text);
+}
+
+function invalidField(expression: string, field: CronField, text: string): InvalidStandingOrderScheduleException {
+    return new InvalidStandingOrderScheduleException(
+        expression,
+        `invalid ${field.name} field "${text}" (allowed values: ${field.min.toString()}-${field.max.toString()})`
+    );
+}
@@ -0,0 +1,81 @@
+import type {Money} from './Money';
+
+/**
+ * 累積送金限度額の集計期間
+ *
+ * - DAILY: 直近24時間
+ * - MONTHLY: 直近30日（暦月ではなく、固定の30日 = 720時間。月の日数によって長さが変わらない）
+ */
+export type CumulativeLimitPeriod = 'DAILY' | 'MONTHLY';
+
+/**
+ * 集計期間の長さ（日。1日 = 24時間）
+ */
+export const CUMULATIVE_LIMIT_WINDOW_DAYS: Record<CumulativeLimitPeriod, number> = {
+    DAILY: 1,
+    MONTHLY: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 累積送金限度額（値オブジェクト）
+ *
+ * 1回の送金の限度額（maximumTransferThreshold）とは別に、
+ * 直近の一定期間にアカウントから出金した合計を制限する
+ *
+ * 暦日・暦月で区切らずローリングで集計する
+ * （日付が変わった直後に限度額いっぱいまで再び送金できてしまうのを防ぐ）
+ *
+ * 取り消された送金の出金は集計しない（ActivityWindow.calculateWithdrawalTotalSince を参照）
+ */
+export class CumulativeTransferLimit {
+    private constructor(
+        /** 集計期間 */
+        public readonly period: CumulativeLimitPeriod,
+        /** 期間内の出金合計の上限（基準通貨） */
+        public readonly limit: Money
+    ) {
+        if (!limit.isPositive()) {
+            throw new Error(`Cumulative transfer limit must be positive: ${limit.toString()}`);
+        }
+    }
+
+    /**
+     * 直近24時間の限度額
+     */
+    static daily(limit: Money): CumulativeTransferLimit {
+        return new CumulativeTransferLimit('DAILY', limit);
+    }
+
+    /**
+     * 直近30日の限度額（暦月ではなく、固定の30日のローリングウィンドウ）
+     */
+    static monthly(limit: Money): CumulativeTransferLimit {
+        return new CumulativeTransferLimit('MONTHLY', limit);
+    }
+
+    /**
+     * どの集計期間よりも前の開始時刻（最も長い集計期間の開始時刻）
+     *
+     * アカウントの区分によって適用される限度額が変わるため、
+     * アカウントを読み込む前に、集計に必要なアクティビティの範囲を決めるのに使う
+     */
+    static earliestWindowStart(now: Date): Date {
+        return new Date(now.getTime() - Math.max(...Object.values(CUMULATIVE_LIMIT_WINDOW_DAYS)) * DAY_MS);
+    }
+
+    /**
+     * 集計期間の長さ（日）
+     */
+    get windowDays(): number {
+        return CUMULATIVE_LIMIT_WINDOW_DAYS[this.period];
+    }
+
+    /**
+     * 集計期間の開始時刻（この時刻以降の出金を集計する）
+     */
+    windowStart(now: Date): Date {
+        return new Date(now.getTime() - this.windowDays * DAY_MS);
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * 通貨を表す値オブジェクト（ISO 4217）
+ *
+ * 【minorUnits（補助単位の桁数）とは】
+ * - 1単位の通貨を何桁の補助単位に分けるか
+ * - JPY は 0（1円より小さい単位がない）
+ * - USD / EUR は 2（1ドル = 100セント）
+ *
+ * Money の金額は常に補助単位（最小単位）の整数で保持する
+ * 例: USD 12.34 → 1234（セント）
+ */
+export class Currency {
+  private static readonly registry = new Map<string, Currency>();
+
+  public static readonly JPY = Currency.define('JPY', 0);
+  public static readonly USD = Currency.define('USD', 2);
+  public static readonly EUR = Currency.define('EUR', 2);
+  public static readonly GBP = Currency.define('GBP', 2);
+
+  private constructor(
+      public readonly code: string,
+      public readonly minorUnits: number
+  ) {}
+
+  private static define(code: string, minorUnits: number): Currency {
+    const currency = new Currency(code, minorUnits);
+    Currency.registry.set(code, currency);
+    return currency;
+  }
+
+  /**
+   * 通貨コードから Currency を取得
+   *
+   * @throws Error サポートしていない通貨コードの場合
+   */
+  static of(code: string): Currency {
+    const currency = Currency.registry.get(code);
+    if (!currency) {
+      throw new Error(`Unsupported currency: ${code}`);
+    }
+    return currency;
+  }
+
+  /**
+   * 等価性チェック
+   */
+  equals(other: Currency): boolean {
+    return this.code === other.code;
+  }
+
+  /**
+   * 文字列表現（通貨コード）
+   */
+  toString(): string {
+    return this.code;
+  }
+}
@@ -0,0 +1,46 @@
+import type {ExchangeRate} from './ExchangeRate';
+import type {Money} from './Money';
+
+/**
+ * 通貨をまたぐ送金で適用した換算（値オブジェクト）
+ *
+ * 送金元の出金アクティビティと送金先の入金アクティビティの両方に同じ換算を記録し、
+ * 「いくらを、どのレートで、いくらに換えたか」を後から確認できるようにする
+ */
+export class CurrencyConversion {
+    private constructor(
+        /** 適用したレート（送金元通貨 → 送金先通貨） */
+        public readonly rate: ExchangeRate,
+        /** 送金元の通貨での金額（出金額） */
+        public readonly sourceMoney: Money,
+        /** 送金先の通貨での金額（入金額） */
+        public readonly targetMoney: Money
+    ) {
+    }
+
+    /**
+     * レートを適用して換算する
+     *
+     * @throws CurrencyMismatchException 金額の通貨がレートの from 通貨と異なる場合
+     */
+    static apply(rate: ExchangeRate, sourceMoney: Money): CurrencyConversion {
+        return new CurrencyConversion(rate, sourceMoney, rate.convert(sourceMoney));
+    }
+
+    /**
+     * 記録済みの換算を再構成する（DBから読み込む場合）
+     *
+     * 丸め方が変わっても過去の記録が変わらないよう、換算後の金額は再計算しない
+     *
+     * @throws Error 金額の通貨がレートの通貨ペアと一致しない場合
+     */
+    static of(rate: ExchangeRate, sourceMoney: Money, targetMoney: Money): CurrencyConversion {
+        if (!sourceMoney.getCurrency().equals(rate.from) || !targetMoney.getCurrency().equals(rate.to)) {
+            throw new Error(
+                `Conversion amounts (${sourceMoney.getCurrency().code} → ${targetMoney.getCurrency().code}) ` +
+                `do not match the exchange rate (${rate.from.code} → ${rate.to.code})`
+            );
+        }
+        return new CurrencyConversion(rate, sourceMoney, targetMoney);
+    }
+}
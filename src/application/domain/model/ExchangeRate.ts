@@ -0,0 +1,115 @@
+import {CurrencyMismatchException} from '../exception/CurrencyMismatchException';
+import type {Currency} from './Currency';
+import {Money} from './Money';
+import {divideWithRounding} from './RoundingMode';
+
+/**
+ * レートの小数点以下の桁数
+ */
+const RATE_DECIMALS = 8;
+const RATE_SCALE = 10n ** BigInt(RATE_DECIMALS);
+
+/**
+ * 為替レートを表す値オブジェクト
+ *
+ * 「from 通貨 1単位 = rate × to 通貨」を表す
+ * 例: USD → JPY のレート 150 は「1 USD = 150 JPY」
+ *
+ * 【なぜ number ではなく bigint？】
+ * - 浮動小数点の誤差で換算額が1円ずれるのを防ぐ
+ * - レートは小数点以下8桁までの固定小数点（10^8 倍した整数）で保持する
+ */
+export class ExchangeRate {
+    private constructor(
+        public readonly from: Currency,
+        public readonly to: Currency,
+        private readonly scaledRate: bigint
+    ) {
+        if (scaledRate <= 0n) {
+            throw new Error('Exchange rate must be positive');
+        }
+    }
+
+    /**
+     * 10進数の文字列からレートを生成
+     *
+     * @param rate 小数点以下8桁までの正の10進数（例: "150", "0.00666667"）
+     * @throws Error 形式が不正な場合、または0以下の場合
+     */
+    static of(from: Currency, to: Currency, rate: string): ExchangeRate {
+        const match = /^(\d+)(?:\.(\d{1,8}))?$/.exec(rate);
+        if (!match) {
+            throw new Error(`Invalid exchange rate: ${rate}`);
+        }
+
+        const [, integerPart, fractionPart = ''] = match;
+        const scaledRate =
+            BigInt(integerPart) * RATE_SCALE + BigInt(fractionPart.padEnd(RATE_DECIMALS, '0'));
+
+        return new ExchangeRate(from, to, scaledRate);
+    }
+
+    /**
+     * 比（numerator / denominator）からレートを生成
+     * 小数点以下8桁に四捨五入する
+     */
+    static fromRatio(from: Currency, to: Currency, numerator: bigint, denominator: bigint): ExchangeRate {
+        return new ExchangeRate(from, to, divideWithRounding(numerator * RATE_SCALE, denominator, 'HALF_UP'));
+    }
+
+    /**
+     * 同じ通貨同士のレート（1）
+     */
+    static identity(currency: Currency): ExchangeRate {
+        return new ExchangeRate(currency, currency, RATE_SCALE);
+    }
+
+    /**
+     * 逆向きのレート（to → from）
+     * 小数点以下8桁に四捨五入する
+     */
+    inverse(): ExchangeRate {
+        return ExchangeRate.fromRatio(this.to, this.from, RATE_SCALE, this.scaledRate);
+    }
+
+    /**
+     * from 通貨の金額を to 通貨に換算する
+     *
+     * 補助単位の桁数の違い（USD は2桁、JPY は0桁）も考慮し、
+     * to 通貨の補助単位に四捨五入する
+     *
+     * @throws CurrencyMismatchException 金額の通貨が from 通貨と異なる場合
+     */
+    convert(money: Money): Money {
+        if (!money.getCurrency().equals(this.from)) {
+            throw new CurrencyMismatchException(this.from, money.getCurrency());
+        }
+
+        const numerator = money.getAmount() * this.scaledRate * 10n ** BigInt(this.to.minorUnits);
+        const denominator = RATE_SCALE * 10n ** BigInt(this.from.minorUnits);
+
+        return Money.of(divideWithRounding(numerator, denominator, 'HALF_UP'), this.to);
+    }
+
+    /**
+     * 等価性チェック（通貨ペアとレートの両方が等しい場合のみ true）
+     */
+    equals(other: ExchangeRate): boolean {
+        return this.from.equals(other.from)
+            && this.to.equals(other.to)
+            && this.scaledRate === other.scaledRate;
+    }
+
+    /**
+     * 文字列表現（末尾の0を除いた10進数。例: "150", "0.00666667"）
+     */
+    toString(): string {
+        const integerPart = (this.scaledRate / RATE_SCALE).toString();
+        const fractionPart = (this.scaledRate % RATE_SCALE)
+            .toString()
+            .padStart(RATE_DECIMALS, '0')
+            .replace(/0+$/, '');
+
+        return fractionPart === '' ? integerPart : `${integerPart}.${fractionPart}`;
+    }
+}
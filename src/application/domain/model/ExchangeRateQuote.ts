@@ -0,0 +1,28 @@
+import type {ExchangeRate} from './ExchangeRate';
+
+/**
+ * 為替レートの見積もり（エンティティ）
+ *
+ * 送金前にレートを提示し、有効期限内であれば送金リクエストから
+ * quoteId で参照して「提示したレートのまま」送金できるようにする
+ */
+export class ExchangeRateQuote {
+    constructor(
+        /** 見積もりのID（送金リクエストから参照する） */
+        public readonly id: string,
+        /** 提示したレート */
+        public readonly rate: ExchangeRate,
+        /** 見積もりを作成した時刻 */
+        public readonly createdAt: Date,
+        /** 有効期限（この時刻以降は使えない） */
+        public readonly expiresAt: Date
+    ) {
+    }
+
+    /**
+     * 指定した時刻に有効期限が切れているかどうか
+     */
+    isExpiredAt(now: Date): boolean {
+        return now.getTime() >= this.expiresAt.getTime();
+    }
+}
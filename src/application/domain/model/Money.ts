@@ -1,8 +1,37 @@
+import {CurrencyMismatchException} from '../exception/CurrencyMismatchException';
+import {Currency} from './Currency';
+import type {RoundingMode} from './RoundingMode';
+import {divideWithRounding} from './RoundingMode';
+
+/**
+ * Money.parse が受け付ける10進数の形式（符号は "-" のみ。指数表記・桁区切りは不可）
+ */
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * multiply が受け付ける倍率の形式（number の文字列表現の指数表記も含む）
+ */
+const RATIO_PATTERN = /^(-)?(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * 1ベーシスポイント = 1/10,000（1% = 100bps）
+ */
+const BASIS_POINTS_PER_UNIT = 10_000n;
+
 /**
  * お金を表す値オブジェクト
  * 不変（immutable）で、ビジネスロジックをカプセル化
+ *
+ * 金額は通貨の補助単位（最小単位）の整数で保持する
+ * 例: JPY 1000 → 1000、USD 12.34 → 1234
+ *
+ * 異なる通貨同士の計算・比較は CurrencyMismatchException を投げる
  */
 export class Money {
+  /**
+   * 0円（JPY）
+   * 他の通貨の0が必要な場合は Money.zero(currency) を使う
+   */
   public static readonly ZERO = Money.of(0);
 
   // // 省略なしで書くと...
@@ -15,13 +44,57 @@ export class Money {
   //   // ③プロパティへの代入
   //   this.amount = amount;
   // }
-  private constructor(private readonly amount: bigint) {}
+  private constructor(
+      private readonly amount: bigint,
+      private readonly currency: Currency
+  ) {}
 
   /**
    * 数値からMoneyインスタンスを生成
+   *
+   * @param value 補助単位（最小単位）での金額
+   * @param currency 通貨（省略時は JPY）
+   */
+  static of(value: number | bigint, currency: Currency = Currency.JPY): Money {
+    return new Money(BigInt(value), currency);
+  }
+
+  /**
+   * 10進数の文字列（通貨の単位での金額）からMoneyインスタンスを生成
+   *
+   * 例: Money.parse("1234.50", Currency.USD) → 123450（セント）
+   *
+   * 【丸めない】
+   * 通貨の補助単位より細かい桁（USD の "0.005" など）は、切り捨て・四捨五入せずにエラーにする。
+   * 末尾の0（"1.500" など）は金額が変わらないので受け付ける。
+   *
+   * @param value 10進数の文字列
+   * @param currency 通貨（省略時は JPY）
+   * @throws Error 形式が不正な場合、または補助単位で表せない金額の場合
    */
-  static of(value: number | bigint): Money {
-    return new Money(BigInt(value));
+  static parse(value: string, currency: Currency = Currency.JPY): Money {
+    const match = DECIMAL_PATTERN.exec(value);
+    if (!match) {
+      throw new Error(`Invalid money amount: ${value}`);
+    }
+
+    const [, sign, integerPart, fractionPart = ''] = match;
+    const significantFraction = fractionPart.replace(/0+$/, '');
+    if (significantFraction.length > currency.minorUnits) {
+      throw new Error(
+          `Amount ${value} has more decimal places than ${currency.code} allows (${currency.minorUnits.toString()})`
+      );
+    }
+
+    const amount = BigInt(integerPart + significantFraction.padEnd(currency.minorUnits, '0'));
+    return new Money(sign ? -amount : amount, currency);
+  }
+
+  /**
+   * 指定した通貨の0を生成
+   */
+  static zero(currency: Currency): Money {
+    return new Money(0n, currency);
   }
 
   /**
@@ -49,6 +122,7 @@ export class Money {
    * 他のMoneyより大きいかどうか
    */
   isGreaterThan(other: Money): boolean {
+    this.assertSameCurrency(other);
     return this.amount > other.amount;
   }
 
@@ -56,6 +130,7 @@ export class Money {
    * 他のMoney以上かどうか
    */
   isGreaterThanOrEqualTo(other: Money): boolean {
+    this.assertSameCurrency(other);
     return this.amount >= other.amount;
   }
 
@@ -63,7 +138,8 @@ export class Money {
    * 2つのMoneyを加算
    */
   static add(a: Money, b: Money): Money {
-    return new Money(a.amount + b.amount);
+    a.assertSameCurrency(b);
+    return new Money(a.amount + b.amount, a.currency);
   }
 
   /**
@@ -77,7 +153,8 @@ export class Money {
    * 2つのMoneyを減算
    */
   static subtract(a: Money, b: Money): Money {
-    return new Money(a.amount - b.amount);
+    a.assertSameCurrency(b);
+    return new Money(a.amount - b.amount, a.currency);
   }
 
   /**
@@ -87,11 +164,125 @@ export class Money {
     return Money.subtract(this, other);
   }
 
+  /**
+   * 倍率を掛ける
+   *
+   * 倍率は10進数として正確に扱う（0.1 を 0.1000000000000000055... として計算しない）
+   * 例: Money.of(1000).multiply("1.08", 'HALF_UP') → 1080
+   *
+   * @param ratio 倍率（number の場合は文字列表現の10進数として扱う）
+   * @param roundingMode 補助単位に丸めるときの丸め方
+   * @throws Error 倍率が有限の10進数でない場合
+   */
+  multiply(ratio: number | bigint | string, roundingMode: RoundingMode): Money {
+    const {numerator, denominator} = toFraction(ratio);
+    return new Money(divideWithRounding(this.amount * numerator, denominator, roundingMode), this.currency);
+  }
+
+  /**
+   * ベーシスポイント（1/10,000）で指定した割合の金額
+   *
+   * 例: Money.of(10000).percentage(250) → 250（2.5%）
+   *
+   * @param basisPoints 割合（1% = 100bps）
+   * @param roundingMode 補助単位に丸めるときの丸め方（省略時は四捨五入）
+   * @throws Error basisPoints が整数でない場合
+   */
+  percentage(basisPoints: number | bigint, roundingMode: RoundingMode = 'HALF_UP'): Money {
+    if (typeof basisPoints === 'number' && !Number.isSafeInteger(basisPoints)) {
+      throw new Error(`Basis points must be an integer: ${basisPoints.toString()}`);
+    }
+
+    return new Money(
+        divideWithRounding(this.amount * BigInt(basisPoints), BASIS_POINTS_PER_UNIT, roundingMode),
+        this.currency
+    );
+  }
+
+  /**
+   * 比率に従って金額を分配する
+   *
+   * 分配後の合計は必ず元の金額と等しくなる（補助単位1つも失わない）
+   * 割り切れない端数は、切り捨てで失われた端数が大きい順に1単位ずつ配る（同じなら先頭から）
+   * 例: Money.of(100).allocate([1, 1, 1]) → [34, 33, 33]
+   *
+   * @param ratios 0以上の整数の比率（合計は正であること）
+   * @returns ratios と同じ順序の金額の配列
+   * @throws Error 比率が空、負、整数でない、または合計が0の場合
+   */
+  allocate(ratios: readonly (number | bigint)[]): Money[] {
+    const weights = ratios.map((ratio) => {
+      if (typeof ratio === 'number' && !Number.isSafeInteger(ratio)) {
+        throw new Error(`Allocation ratio must be an integer: ${ratio.toString()}`);
+      }
+      const weight = BigInt(ratio);
+      if (weight < 0n) {
+        throw new Error(`Allocation ratio must not be negative: ${weight.toString()}`);
+      }
+      return weight;
+    });
+
+    const total = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (total === 0n) {
+      throw new Error('Allocation ratios must have a positive total');
+    }
+
+    // 負の金額は絶対値を分配してから符号を戻す（端数の配り方を正負で対称にする）
+    const absolute = this.amount < 0n ? -this.amount : this.amount;
+    const shares = weights.map((weight) => ({
+      amount: (absolute * weight) / total,
+      lostFraction: (absolute * weight) % total,
+    }));
+
+    let remainder = absolute - shares.reduce((sum, share) => sum + share.amount, 0n);
+    const order = shares
+        .map((share, index) => ({share, index}))
+        .sort((a, b) =>
+            a.share.lostFraction === b.share.lostFraction
+                ? a.index - b.index
+                : a.share.lostFraction > b.share.lostFraction ? -1 : 1
+        );
+    for (const {share} of order) {
+      if (remainder === 0n) {
+        break;
+      }
+      share.amount += 1n;
+      remainder -= 1n;
+    }
+
+    return shares.map((share) => new Money(this.amount < 0n ? -share.amount : share.amount, this.currency));
+  }
+
+  /**
+   * 最小のMoneyを返す
+   *
+   * @throws CurrencyMismatchException 通貨が異なるMoneyが含まれる場合
+   */
+  static min(first: Money, ...others: Money[]): Money {
+    return others.reduce((min, money) => (min.isGreaterThan(money) ? money : min), first);
+  }
+
+  /**
+   * 最大のMoneyを返す
+   *
+   * @throws CurrencyMismatchException 通貨が異なるMoneyが含まれる場合
+   */
+  static max(first: Money, ...others: Money[]): Money {
+    return others.reduce((max, money) => (money.isGreaterThan(max) ? money : max), first);
+  }
+
+  /**
+   * 絶対値
+   */
+  abs(): Money {
+    return this.isNegative() ? this.negate() : this;
+  }
+
   /**
    * 符号を反転
    */
   negate(): Money {
-    return new Money(-this.amount);
+    return new Money(-this.amount, this.currency);
   }
 
   /**
@@ -102,16 +293,106 @@ export class Money {
   }
 
   /**
-   * 等価性チェック
+   * 通貨を取得
+   */
+  getCurrency(): Currency {
+    return this.currency;
+  }
+
+  /**
+   * 他のMoneyと同じ通貨かどうか
+   */
+  hasSameCurrencyAs(other: Money): boolean {
+    return this.currency.equals(other.currency);
+  }
+
+  /**
+   * 等価性チェック（金額と通貨の両方が等しい場合のみ true）
    */
   equals(other: Money): boolean {
-    return this.amount === other.amount;
+    return this.amount === other.amount && this.hasSameCurrencyAs(other);
   }
 
   /**
-   * 文字列表現
+   * 文字列表現（補助単位での金額）
    */
   toString(): string {
     return this.amount.toString();
   }
+
+  /**
+   * 通貨の単位での10進数の文字列（Money.parse の逆変換）
+   *
+   * 小数点以下は常に補助単位の桁数で表す
+   * 例: USD 123450 → "1234.50"、JPY 1000 → "1000"
+   */
+  toDecimalString(): string {
+    const minorUnits = this.currency.minorUnits;
+    const sign = this.amount < 0n ? '-' : '';
+    const digits = (this.amount < 0n ? -this.amount : this.amount)
+        .toString()
+        .padStart(minorUnits + 1, '0');
+
+    if (minorUnits === 0) {
+      return sign + digits;
+    }
+    return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+  }
+
+  /**
+   * ロケールに合わせた表示用の文字列（通貨記号・桁区切り付き）
+   *
+   * 例: USD 123450 → "$1,234.50"（en-US）、JPY 1000 → "￥1,000"（ja-JP）
+   * 浮動小数点を経由しないよう、10進数の文字列のまま Intl.NumberFormat に渡す
+   *
+   * @param locale BCP 47 の言語タグ（省略時は実行環境の既定）
+   */
+  format(locale?: string): string {
+    const minorUnits = this.currency.minorUnits;
+    const formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency.code,
+      minimumFractionDigits: minorUnits,
+      maximumFractionDigits: minorUnits,
+    });
+
+    return formatter.format(this.toDecimalString() as Intl.StringNumericLiteral);
+  }
+
+  /**
+   * 通貨が異なる場合は例外を投げる
+   *
+   * @throws CurrencyMismatchException 通貨が異なる場合
+   */
+  private assertSameCurrency(other: Money): void {
+    if (!this.hasSameCurrencyAs(other)) {
+      throw new CurrencyMismatchException(this.currency, other.currency);
+    }
+  }
+}
+
+/**
+ * 倍率を分数（分子 / 分母）に変換する
+ *
+ * @throws Error 有限の10進数でない場合（NaN, Infinity など）
+ */
+function toFraction(ratio: number | bigint | string): { numerator: bigint; denominator: bigint } {
+  if (typeof ratio === 'bigint') {
+    return {numerator: ratio, denominator: 1n};
+  }
+
+  const text = ratio.toString();
+  const match = RATIO_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid ratio: ${text}`);
+  }
+
+  const [, sign, integerPart, fractionPart = '', exponentPart = '0'] = match;
+  const digits = BigInt(integerPart + fractionPart);
+  const exponent = Number(exponentPart) - fractionPart.length;
+  const numerator = sign ? -digits : digits;
+
+  return exponent >= 0
+      ? {numerator: numerator * 10n ** BigInt(exponent), denominator: 1n}
+      : {numerator, denominator: 10n ** BigInt(-exponent)};
 }
@@ -0,0 +1,88 @@
+import {InvalidStandingOrderScheduleException} from '../exception/InvalidStandingOrderScheduleException';
+
+/**
+ * 時刻（HH:MM）の形式
+ */
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * 毎月の決まった日に実行する定期送金のスケジュール（値オブジェクト）
+ *
+ * 日付と時刻は UTC で解釈する
+ * 月末より後の日（例: 31日）を指定した場合、その日がない月は月末に実行する
+ * （家賃・給与のような「毎月末日」の送金を、月ごとに指定し直さずに済むようにするため）
+ */
+export class MonthlySchedule {
+    readonly type = 'MONTHLY';
+
+    private constructor(
+        /** 実行する日（1〜31） */
+        public readonly dayOfMonth: number,
+        /** 実行する時刻（時） */
+        public readonly hour: number,
+        /** 実行する時刻（分） */
+        public readonly minute: number
+    ) {
+    }
+
+    /**
+     * @param dayOfMonth 実行する日（1〜31）
+     * @param timeOfDay 実行する時刻（HH:MM、UTC）
+     * @throws InvalidStandingOrderScheduleException 日または時刻が範囲外の場合
+     */
+    static of(dayOfMonth: number, timeOfDay = '00:00'): MonthlySchedule {
+        const description = `day ${dayOfMonth.toString()} at ${timeOfDay}`;
+
+        if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+            throw new InvalidStandingOrderScheduleException(description, 'day of month must be between 1 and 31');
+        }
+
+        const match = TIME_OF_DAY_PATTERN.exec(timeOfDay);
+        if (!match) {
+            throw new InvalidStandingOrderScheduleException(description, 'time of day must be in HH:MM format');
+        }
+
+        return new MonthlySchedule(dayOfMonth, Number(match[1]), Number(match[2]));
+    }
+
+    /**
+     * 指定した時刻より後の、最初の実行日時
+     */
+    nextAfter(after: Date): Date {
+        let year = after.getUTCFullYear();
+        let month = after.getUTCMonth();
+
+        // 今月の実行日時が過ぎていれば来月（2回で必ず見つかる）
+        for (;;) {
+            const occurrence = this.occurrenceIn(year, month);
+            if (occurrence.getTime() > after.getTime()) {
+                return occurrence;
+            }
+
+            month++;
+            if (month === 12) {
+                month = 0;
+                year++;
+            }
+        }
+    }
+
+    /**
+     * 実行する時刻（HH:MM）
+     */
+    timeOfDay(): string {
+        return `${this.hour.toString().padStart(2, '0')}:${this.minute.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * 文字列表現（例: "monthly on day 25 at 09:00"）
+     */
+    toString(): string {
+        return `monthly on day ${this.dayOfMonth.toString()} at ${this.timeOfDay()}`;
+    }
+
+    private occurrenceIn(year: number, month: number): Date {
+        const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        return new Date(Date.UTC(year, month, Math.min(this.dayOfMonth, lastDay), this.hour, this.minute));
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * 送金の参照情報の最大文字数（ISO 20022 の EndToEndId と同じ）
+ */
+export const MAX_REFERENCE_LENGTH = 35;
+
+/**
+ * 送金のメモの最大文字数（ISO 20022 の非構造化送金情報と同じ）
+ */
+export const MAX_MEMO_LENGTH = 140;
+
+/**
+ * 参照情報に使える文字（英数字と / - ? : ( ) . , ' + 空白）
+ *
+ * 銀行間の送金電文でそのまま使える文字に限定する（照合のために、相手先のシステムでも同じ値になるように）
+ */
+export const REFERENCE_PATTERN = /^[A-Za-z0-9/\-?:().,'+ ]+$/;
+
+/**
+ * メモに使えない文字（改行・タブなどの制御文字）
+ */
+const CONTROL_CHARACTER_PATTERN = /\p{Cc}/u;
+
+/**
+ * 送金の参照情報とメモ（値オブジェクト）
+ *
+ * - reference: 送金元が送金を識別するための構造化された参照（請求書番号など）。会計の照合に使う
+ * - memo: 送金先に伝える自由記述のメモ
+ *
+ * 送金元の出金アクティビティと送金先の入金アクティビティの両方に記録する
+ */
+export class RemittanceInformation {
+    private constructor(
+        /** 参照情報（指定がなければ null） */
+        public readonly reference: string | null,
+        /** メモ（指定がなければ null） */
+        public readonly memo: string | null
+    ) {
+    }
+
+    /**
+     * 参照情報とメモを作成する（どちらも指定がなければ null）
+     *
+     * @throws Error 文字数または文字の種類が不正な場合（Web層で検証済みのため、通常は起きない）
+     */
+    static of(reference: string | null, memo: string | null): RemittanceInformation | null {
+        if (reference === null && memo === null) {
+            return null;
+        }
+
+        if (reference !== null
+            && (reference.length > MAX_REFERENCE_LENGTH || !REFERENCE_PATTERN.test(reference))) {
+            throw new Error(`Invalid remittance reference: ${reference}`);
+        }
+        if (memo !== null
+            && (memo.length === 0 || memo.length > MAX_MEMO_LENGTH || CONTROL_CHARACTER_PATTERN.test(memo))) {
+            throw new Error('Invalid remittance memo');
+        }
+
+        return new RemittanceInformation(reference, memo);
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * 金額を補助単位に丸めるときの丸め方
+ *
+ * - HALF_UP: 四捨五入（0.5 は0から遠い方へ）
+ * - HALF_EVEN: 銀行丸め（0.5 は偶数の方へ）
+ * - DOWN: 切り捨て（0の方へ）
+ * - UP: 切り上げ（0から遠い方へ）
+ * - FLOOR: 負の無限大の方へ
+ * - CEILING: 正の無限大の方へ
+ *
+ * 手数料の計算などで端数の扱いを呼び出し側が明示できるよう、既定値は設けない
+ */
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN' | 'DOWN' | 'UP' | 'FLOOR' | 'CEILING';
+
+/**
+ * bigint の割り算を、指定した丸め方で整数に丸める
+ *
+ * @throws Error 0で割ろうとした場合
+ */
+export function divideWithRounding(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+    if (denominator === 0n) {
+        throw new Error('Division by zero');
+    }
+
+    // 分母を正にそろえる（符号は分子に寄せる）
+    if (denominator < 0n) {
+        numerator = -numerator;
+        denominator = -denominator;
+    }
+
+    const quotient = numerator / denominator;  // 0の方へ切り捨てた商
+    const remainder = numerator % denominator;  // 分子と同じ符号
+    if (remainder === 0n) {
+        return quotient;
+    }
+
+    const negative = numerator < 0n;
+    const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+    const doubledRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+
+    switch (mode) {
+        case 'DOWN':
+            return quotient;
+        case 'UP':
+            return awayFromZero;
+        case 'FLOOR':
+            return negative ? awayFromZero : quotient;
+        case 'CEILING':
+            return negative ? quotient : awayFromZero;
+        case 'HALF_UP':
+            return doubledRemainder >= denominator ? awayFromZero : quotient;
+        case 'HALF_EVEN':
+            if (doubledRemainder === denominator) {
+                return quotient % 2n === 0n ? quotient : awayFromZero;
+            }
+            return doubledRemainder > denominator ? awayFromZero : quotient;
+    }
+}
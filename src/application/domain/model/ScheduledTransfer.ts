@@ -0,0 +1,194 @@
+import {ExecutionTimeNotInFutureException} from '../exception/ExecutionTimeNotInFutureException';
+import {InvalidScheduledTransferStatusTransitionException} from '../exception/InvalidScheduledTransferStatusTransitionException';
+import {SameAccountTransferException} from '../exception/SameAccountTransferException';
+import type {AccountId} from './Activity';
+import type {Money} from './Money';
+import type {ScheduledTransferStatus} from './ScheduledTransferStatus';
+import type {TransferId} from './Transfer';
+import type {TransferFailure} from './TransferFailure';
+
+/**
+ * 予約送金（エンティティ）
+ *
+ * 指定した日時に送金を実行する予約。実行はスケジューラーが行い、
+ * 送金のルール（残高・限度額など）は実行時点の状態で判定する
+ * （予約の時点では残高が足りなくてもよい）
+ */
+export class ScheduledTransfer {
+    private constructor(
+        /** 予約送金のID */
+        public readonly id: string,
+        /** 送金元のアカウントID */
+        public readonly sourceAccountId: AccountId,
+        /** 送金先のアカウントID */
+        public readonly targetAccountId: AccountId,
+        /** 送金額（送金元の通貨） */
+        public readonly money: Money,
+        /** 実行日時（この時刻以降の最初のスケジューラーの実行で送金する） */
+        public readonly executeAt: Date,
+        /** 予約した時刻 */
+        public readonly createdAt: Date,
+        private status: ScheduledTransferStatus,
+        private completedAt: Date | null,
+        private failure: TransferFailure | null,
+        /** 実行に使う送金ID（実行を開始するときに採番する。一度も実行を開始していなければ null） */
+        private transferId: TransferId | null,
+        /** 実行を開始した時刻（PENDING / CANCELLED は null） */
+        private processingStartedAt: Date | null
+    ) {
+    }
+
+    /**
+     * 新しい予約送金を作成する（PENDING）
+     *
+     * @throws SameAccountTransferException 送金元と送金先が同じ場合
+     * @throws ExecutionTimeNotInFutureException 実行日時が現在以前の場合
+     */
+    static schedule(
+        id: string,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        money: Money,
+        executeAt: Date,
+        now: Date
+    ): ScheduledTransfer {
+        if (sourceAccountId.equals(targetAccountId)) {
+            throw new SameAccountTransferException(sourceAccountId);
+        }
+        if (executeAt.getTime() <= now.getTime()) {
+            throw new ExecutionTimeNotInFutureException(executeAt, now);
+        }
+
+        return new ScheduledTransfer(
+            id, sourceAccountId, targetAccountId, money, executeAt, now, 'PENDING', null, null, null, null
+        );
+    }
+
+    /**
+     * 保存済みの予約送金を復元する（永続化アダプター用）
+     */
+    static restore(
+        id: string,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        money: Money,
+        executeAt: Date,
+        createdAt: Date,
+        status: ScheduledTransferStatus,
+        completedAt: Date | null,
+        failure: TransferFailure | null,
+        transferId: TransferId | null,
+        processingStartedAt: Date | null
+    ): ScheduledTransfer {
+        return new ScheduledTransfer(
+            id, sourceAccountId, targetAccountId, money, executeAt, createdAt, status, completedAt, failure,
+            transferId, processingStartedAt
+        );
+    }
+
+    getStatus(): ScheduledTransferStatus {
+        return this.status;
+    }
+
+    /**
+     * 送金した・失敗した・取り消した時刻（PENDING / PROCESSING の間は null）
+     */
+    getCompletedAt(): Date | null {
+        return this.completedAt;
+    }
+
+    /**
+     * 実行できなかった理由（FAILED 以外は null）
+     */
+    getFailure(): TransferFailure | null {
+        return this.failure;
+    }
+
+    /**
+     * 実行に使う送金ID（実行を開始する前は null）
+     */
+    getTransferId(): TransferId | null {
+        return this.transferId;
+    }
+
+    /**
+     * 実行を開始した時刻（実行を開始する前は null）
+     */
+    getProcessingStartedAt(): Date | null {
+        return this.processingStartedAt;
+    }
+
+    /**
+     * 指定した時刻に実行すべきかどうか（PENDING で、実行日時を過ぎている）
+     */
+    isDueAt(now: Date): boolean {
+        return this.status === 'PENDING' && this.executeAt.getTime() <= now.getTime();
+    }
+
+    /**
+     * 実行を開始する（PENDING → PROCESSING）
+     *
+     * 実行中は取り消せない（送金と取り消しが同時に成功しないようにするため）
+     * 送金IDを先に決めておくことで、実行が途中で止まっても、送金したかどうかを後から確かめられる
+     *
+     * @param transferId 送金に使う送金ID
+     * @param now 実行を開始した時刻
+     * @throws InvalidScheduledTransferStatusTransitionException PENDING 以外の場合
+     */
+    startProcessing(transferId: TransferId, now: Date): void {
+        this.transition('PENDING', 'PROCESSING');
+        this.transferId = transferId;
+        this.processingStartedAt = now;
+    }
+
+    /**
+     * 一時的な理由で送金できなかった予約を、次回の実行で再試行できるように戻す（PROCESSING → PENDING）
+     *
+     * 送金IDはそのまま残す（次回の実行でも同じ送金IDを使うので、送金が実は保存されていても二重に送金しない）
+     *
+     * @throws InvalidScheduledTransferStatusTransitionException PROCESSING 以外の場合
+     */
+    returnToPending(): void {
+        this.transition('PROCESSING', 'PENDING');
+        this.processingStartedAt = null;
+    }
+
+    /**
+     * 送金したことを記録する（PROCESSING → EXECUTED）
+     *
+     * @throws InvalidScheduledTransferStatusTransitionException PROCESSING 以外の場合
+     */
+    markExecuted(now: Date): void {
+        this.transition('PROCESSING', 'EXECUTED');
+        this.completedAt = now;
+    }
+
+    /**
+     * 送金できなかったことを理由とともに記録する（PROCESSING → FAILED）
+     *
+     * @throws InvalidScheduledTransferStatusTransitionException PROCESSING 以外の場合
+     */
+    markFailed(failure: TransferFailure, now: Date): void {
+        this.transition('PROCESSING', 'FAILED');
+        this.completedAt = now;
+        this.failure = failure;
+    }
+
+    /**
+     * 予約を取り消す（PENDING → CANCELLED）
+     *
+     * @throws InvalidScheduledTransferStatusTransitionException PENDING 以外の場合
+     */
+    cancel(now: Date): void {
+        this.transition('PENDING', 'CANCELLED');
+        this.completedAt = now;
+    }
+
+    private transition(from: ScheduledTransferStatus, to: ScheduledTransferStatus): void {
+        if (this.status !== from) {
+            throw new InvalidScheduledTransferStatusTransitionException(this.id, this.status, to);
+        }
+
+        this.status = to;
+    }
+}
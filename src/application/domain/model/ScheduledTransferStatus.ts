@@ -0,0 +1,33 @@
+/**
+ * 予約送金の状態
+ *
+ * - PENDING: 実行日時を待っている。取り消せる
+ * - PROCESSING: スケジューラーが実行中（取り消せない）
+ * - EXECUTED: 送金した（最終状態）
+ * - FAILED: 実行日時に送金できなかった。理由を記録する（最終状態）
+ * - CANCELLED: 実行前に取り消した（最終状態）
+ *
+ * 状態遷移：
+ *   PENDING ──startProcessing──→ PROCESSING ──markExecuted──→ EXECUTED
+ *                                           ──markFailed────→ FAILED
+ *   PENDING ──cancel───────────→ CANCELLED
+ */
+export type ScheduledTransferStatus = 'PENDING' | 'PROCESSING' | 'EXECUTED' | 'FAILED' | 'CANCELLED';
+
+/**
+ * すべての予約送金の状態（永続化層からの値の検証などに使用）
+ */
+export const SCHEDULED_TRANSFER_STATUSES: readonly ScheduledTransferStatus[] = [
+    'PENDING',
+    'PROCESSING',
+    'EXECUTED',
+    'FAILED',
+    'CANCELLED',
+];
+
+/**
+ * 文字列が有効な予約送金の状態かどうかを判定する型ガード
+ */
+export function isScheduledTransferStatus(value: string): value is ScheduledTransferStatus {
+    return (SCHEDULED_TRANSFER_STATUSES as readonly string[]).includes(value);
+}
@@ -0,0 +1,299 @@
+import {InvalidStandingOrderStatusTransitionException} from '../exception/InvalidStandingOrderStatusTransitionException';
+import {SameAccountTransferException} from '../exception/SameAccountTransferException';
+import type {AccountId} from './Activity';
+import type {Money} from './Money';
+import type {StandingOrderRetryPolicy} from './StandingOrderRetryPolicy';
+import type {StandingOrderRun} from './StandingOrderRun';
+import type {StandingOrderSchedule} from './StandingOrderSchedule';
+import type {StandingOrderPauseReason, StandingOrderStatus} from './StandingOrderStatus';
+import type {TransferId} from './Transfer';
+import type {TransferFailure} from './TransferFailure';
+
+/**
+ * 定期送金（エンティティ）
+ *
+ * スケジュールに従って、同じ送金を繰り返し実行する。実行はスケジューラーが行い、
+ * 送金のルール（残高・限度額など）は実行のたびに、その時点の状態で判定する
+ *
+ * 【実行日時と次の実行時刻】
+ * - occurrenceAt: 今待っている実行日時（スケジュール上の日時）
+ * - nextRunAt: 次に実行する時刻。通常は occurrenceAt と同じで、
+ *   失敗して再試行を待つ間だけ occurrenceAt より後になる
+ */
+export class StandingOrder {
+    private constructor(
+        /** 定期送金のID */
+        public readonly id: string,
+        /** 送金元のアカウントID */
+        public readonly sourceAccountId: AccountId,
+        /** 送金先のアカウントID */
+        public readonly targetAccountId: AccountId,
+        /** 1回の送金額（送金元の通貨） */
+        public readonly money: Money,
+        /** 実行のスケジュール */
+        public readonly schedule: StandingOrderSchedule,
+        /** 作成した時刻 */
+        public readonly createdAt: Date,
+        private status: StandingOrderStatus,
+        private occurrenceAt: Date,
+        private nextRunAt: Date,
+        private retryCount: number,
+        private consecutiveFailures: number,
+        private pauseReason: StandingOrderPauseReason | null,
+        /** 実行中の送金に使う送金ID（RUNNING 以外は null） */
+        private runTransferId: TransferId | null,
+        /** 実行を開始した時刻（RUNNING 以外は null） */
+        private runStartedAt: Date | null
+    ) {
+    }
+
+    /**
+     * 新しい定期送金を作成する（ACTIVE。最初の実行日時は、作成した時刻より後の最初の日時）
+     *
+     * @throws SameAccountTransferException 送金元と送金先が同じ場合
+     */
+    static create(
+        id: string,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        money: Money,
+        schedule: StandingOrderSchedule,
+        now: Date
+    ): StandingOrder {
+        if (sourceAccountId.equals(targetAccountId)) {
+            throw new SameAccountTransferException(sourceAccountId);
+        }
+
+        const firstOccurrence = schedule.nextAfter(now);
+        return new StandingOrder(
+            id, sourceAccountId, targetAccountId, money, schedule, now,
+            'ACTIVE', firstOccurrence, firstOccurrence, 0, 0, null, null, null
+        );
+    }
+
+    /**
+     * 保存済みの定期送金を復元する（永続化アダプター用）
+     */
+    static restore(
+        id: string,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        money: Money,
+        schedule: StandingOrderSchedule,
+        createdAt: Date,
+        status: StandingOrderStatus,
+        occurrenceAt: Date,
+        nextRunAt: Date,
+        retryCount: number,
+        consecutiveFailures: number,
+        pauseReason: StandingOrderPauseReason | null,
+        runTransferId: TransferId | null,
+        runStartedAt: Date | null
+    ): StandingOrder {
+        return new StandingOrder(
+            id, sourceAccountId, targetAccountId, money, schedule, createdAt,
+            status, occurrenceAt, nextRunAt, retryCount, consecutiveFailures, pauseReason,
+            runTransferId, runStartedAt
+        );
+    }
+
+    getStatus(): StandingOrderStatus {
+        return this.status;
+    }
+
+    /**
+     * 今待っている実行日時
+     */
+    getOccurrenceAt(): Date {
+        return this.occurrenceAt;
+    }
+
+    /**
+     * 次に実行する時刻（再試行を待っている場合は再試行の時刻）
+     */
+    getNextRunAt(): Date {
+        return this.nextRunAt;
+    }
+
+    /**
+     * 今待っている実行日時の再試行の回数
+     */
+    getRetryCount(): number {
+        return this.retryCount;
+    }
+
+    /**
+     * 続けて失敗した回数（成功すると0に戻る）
+     */
+    getConsecutiveFailures(): number {
+        return this.consecutiveFailures;
+    }
+
+    /**
+     * 停止した理由（PAUSED 以外は null）
+     */
+    getPauseReason(): StandingOrderPauseReason | null {
+        return this.pauseReason;
+    }
+
+    /**
+     * 実行中の送金に使う送金ID（RUNNING 以外は null）
+     */
+    getRunTransferId(): TransferId | null {
+        return this.runTransferId;
+    }
+
+    /**
+     * 実行を開始した時刻（RUNNING 以外は null）
+     */
+    getRunStartedAt(): Date | null {
+        return this.runStartedAt;
+    }
+
+    /**
+     * 指定した時刻に実行すべきかどうか（ACTIVE で、次の実行時刻を過ぎている）
+     */
+    isDueAt(now: Date): boolean {
+        return this.status === 'ACTIVE' && this.nextRunAt.getTime() <= now.getTime();
+    }
+
+    /**
+     * 実行を開始する（ACTIVE → RUNNING）
+     *
+     * 実行中は停止・取り消しできない（送金と停止・取り消しが同時に成功しないようにするため）
+     * 送金IDを先に決めておくことで、実行が途中で止まっても、送金したかどうかを後から確かめられる
+     *
+     * @param transferId 送金に使う送金ID
+     * @param now 実行を開始した時刻
+     * @throws InvalidStandingOrderStatusTransitionException ACTIVE 以外の場合
+     */
+    startRun(transferId: TransferId, now: Date): void {
+        this.transition(['ACTIVE'], 'RUNNING');
+        this.runTransferId = transferId;
+        this.runStartedAt = now;
+    }
+
+    /**
+     * 送金できたことを記録し、次の実行日時に進める（RUNNING → ACTIVE）
+     *
+     * @returns 実行記録
+     * @throws InvalidStandingOrderStatusTransitionException RUNNING 以外の場合
+     */
+    recordSuccess(runId: string, now: Date): StandingOrderRun {
+        const run = this.toRun(runId, now, null);
+
+        this.transition(['RUNNING'], 'ACTIVE');
+        this.consecutiveFailures = 0;
+        this.advanceToNextOccurrence(now);
+
+        return run;
+    }
+
+    /**
+     * 送金できなかったことを理由とともに記録する
+     *
+     * - 連続失敗の回数が上限に達したら、自動で停止する（RUNNING → PAUSED）
+     * - そうでなければ、再試行の回数が残っていれば再試行の時刻を、
+     *   残っていなければ次の実行日時を待つ（RUNNING → ACTIVE）
+     *
+     * @returns 実行記録
+     * @throws InvalidStandingOrderStatusTransitionException RUNNING 以外の場合
+     */
+    recordFailure(runId: string, failure: TransferFailure, now: Date, policy: StandingOrderRetryPolicy): StandingOrderRun {
+        const run = this.toRun(runId, now, failure);
+        const consecutiveFailures = this.consecutiveFailures + 1;
+
+        if (consecutiveFailures >= policy.maxConsecutiveFailures) {
+            this.transition(['RUNNING'], 'PAUSED');
+            this.consecutiveFailures = consecutiveFailures;
+            this.pauseReason = 'TOO_MANY_FAILURES';
+            return run;
+        }
+
+        this.transition(['RUNNING'], 'ACTIVE');
+        this.consecutiveFailures = consecutiveFailures;
+
+        // 再試行が次の実行日時より後になる場合は、再試行せずに次の実行日時を待つ
+        const retryAt = policy.retryAt(now);
+        if (this.retryCount < policy.maxRetries && retryAt < this.schedule.nextAfter(this.occurrenceAt)) {
+            this.retryCount++;
+            this.nextRunAt = retryAt;
+        } else {
+            this.advanceToNextOccurrence(now);
+        }
+
+        return run;
+    }
+
+    /**
+     * 定期送金を停止する（ACTIVE → PAUSED）
+     *
+     * @throws InvalidStandingOrderStatusTransitionException ACTIVE 以外の場合
+     */
+    pause(): void {
+        this.transition(['ACTIVE'], 'PAUSED');
+        this.pauseReason = 'MANUAL';
+    }
+
+    /**
+     * 停止した定期送金を再開する（PAUSED → ACTIVE）
+     *
+     * 停止中に過ぎた実行日時の分は送金せず、再開した時刻より後の実行日時から実行する
+     * 連続失敗の回数は0に戻す
+     *
+     * @throws InvalidStandingOrderStatusTransitionException PAUSED 以外の場合
+     */
+    resume(now: Date): void {
+        this.transition(['PAUSED'], 'ACTIVE');
+        this.pauseReason = null;
+        this.consecutiveFailures = 0;
+
+        if (this.nextRunAt.getTime() <= now.getTime()) {
+            this.advanceToNextOccurrence(now);
+        }
+    }
+
+    /**
+     * 定期送金を取り消す（ACTIVE / PAUSED → CANCELLED）
+     *
+     * @throws InvalidStandingOrderStatusTransitionException 実行中・取り消し済みの場合
+     */
+    cancel(): void {
+        this.transition(['ACTIVE', 'PAUSED'], 'CANCELLED');
+        this.pauseReason = null;
+    }
+
+    /**
+     * 今の時刻より後の最初の実行日時に進める（過ぎた実行日時の分はまとめて見送る）
+     */
+    private advanceToNextOccurrence(now: Date): void {
+        const after = this.occurrenceAt.getTime() > now.getTime() ? this.occurrenceAt : now;
+        this.occurrenceAt = this.schedule.nextAfter(after);
+        this.nextRunAt = this.occurrenceAt;
+        this.retryCount = 0;
+    }
+
+    private toRun(runId: string, now: Date, failure: TransferFailure | null): StandingOrderRun {
+        return {
+            id: runId,
+            standingOrderId: this.id,
+            occurrenceAt: this.occurrenceAt,
+            executedAt: now,
+            attempt: this.retryCount + 1,
+            outcome: failure === null ? 'SUCCEEDED' : 'FAILED',
+            failure,
+        };
+    }
+
+    private transition(from: readonly StandingOrderStatus[], to: StandingOrderStatus): void {
+        if (!from.includes(this.status)) {
+            throw new InvalidStandingOrderStatusTransitionException(this.id, this.status, to);
+        }
+
+        this.status = to;
+        if (to !== 'RUNNING') {
+            this.runTransferId = null;
+            this.runStartedAt = null;
+        }
+    }
+}
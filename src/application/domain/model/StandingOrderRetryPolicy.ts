@@ -0,0 +1,42 @@
+/**
+ * 定期送金が失敗したときの再試行と自動停止のルール
+ *
+ * 1回の実行日時につき maxRetries 回まで、retryIntervalMinutes 分ごとに再試行する
+ * （再試行しても送金できなければ、その回は見送って次の実行日時を待つ）。
+ * 再試行を含めて maxConsecutiveFailures 回続けて失敗したら、定期送金を自動で停止する
+ */
+export class StandingOrderRetryPolicy {
+    /**
+     * @param maxRetries 1回の実行日時あたりの再試行の回数（0 = 再試行しない）
+     * @param retryIntervalMinutes 再試行の間隔（分）
+     * @param maxConsecutiveFailures 自動で停止するまでの連続失敗の回数
+     * @throws Error 値が範囲外の場合
+     */
+    constructor(
+        public readonly maxRetries: number,
+        public readonly retryIntervalMinutes: number,
+        public readonly maxConsecutiveFailures: number
+    ) {
+        if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+            throw new Error('maxRetries must be a non-negative integer');
+        }
+        if (!Number.isInteger(retryIntervalMinutes) || retryIntervalMinutes < 1) {
+            throw new Error('retryIntervalMinutes must be a positive integer');
+        }
+        if (!Number.isInteger(maxConsecutiveFailures) || maxConsecutiveFailures < 1) {
+            throw new Error('maxConsecutiveFailures must be a positive integer');
+        }
+    }
+
+    /**
+     * 失敗した時刻から、次に再試行する時刻
+     */
+    retryAt(failedAt: Date): Date {
+        return new Date(failedAt.getTime() + this.retryIntervalMinutes * 60 * 1000);
+    }
+}
+
+/**
+ * DI用のシンボル
+ */
+export const StandingOrderRetryPolicyToken = Symbol('StandingOrderRetryPolicy');
@@ -0,0 +1,34 @@
+import type {TransferFailure} from './TransferFailure';
+
+/**
+ * 定期送金の1回の実行の結果
+ *
+ * - SUCCEEDED: 送金した
+ * - FAILED: 送金できなかった（failure に理由を記録する）
+ */
+export type StandingOrderRunOutcome = 'SUCCEEDED' | 'FAILED';
+
+/**
+ * 定期送金の実行記録（成功・失敗にかかわらず、実行するたびに1件記録する）
+ */
+export interface StandingOrderRun {
+    /** 実行記録のID */
+    id: string;
+
+    /** 定期送金のID */
+    standingOrderId: string;
+
+    /** どの実行日時の分の送金か（再試行でも同じ） */
+    occurrenceAt: Date;
+
+    /** 実行した時刻 */
+    executedAt: Date;
+
+    /** その実行日時の何回目の試行か（1 = 初回、2以降 = 再試行） */
+    attempt: number;
+
+    outcome: StandingOrderRunOutcome;
+
+    /** 送金できなかった理由（SUCCEEDED の場合は null） */
+    failure: TransferFailure | null;
+}
@@ -0,0 +1,12 @@
+import type {CronSchedule} from './CronSchedule';
+import type {MonthlySchedule} from './MonthlySchedule';
+
+/**
+ * 定期送金のスケジュール
+ *
+ * - CRON: Cron 式（分 時 日 月 曜日）
+ * - MONTHLY: 毎月の決まった日（その日がない月は月末）
+ *
+ * どちらも nextAfter(時刻) で、その時刻より後の最初の実行日時を返す（UTC）
+ */
+export type StandingOrderSchedule = CronSchedule | MonthlySchedule;
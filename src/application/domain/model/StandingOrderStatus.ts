@@ -0,0 +1,42 @@
+/**
+ * 定期送金の状態
+ *
+ * - ACTIVE: 次の実行日時を待っている
+ * - RUNNING: スケジューラーが実行中（停止・取り消しはできない）
+ * - PAUSED: 停止中。手動で停止した場合と、連続で失敗して自動停止した場合がある。再開できる
+ * - CANCELLED: 取り消した（最終状態）
+ *
+ * 状態遷移：
+ *   ACTIVE ──startRun──→ RUNNING ──recordSuccess / recordFailure──→ ACTIVE
+ *                                ──recordFailure（連続失敗の上限）──→ PAUSED
+ *   ACTIVE ──pause──→ PAUSED ──resume──→ ACTIVE
+ *   ACTIVE / PAUSED ──cancel──→ CANCELLED
+ */
+export type StandingOrderStatus = 'ACTIVE' | 'RUNNING' | 'PAUSED' | 'CANCELLED';
+
+/**
+ * すべての定期送金の状態（永続化層からの値の検証などに使用）
+ */
+export const STANDING_ORDER_STATUSES: readonly StandingOrderStatus[] = ['ACTIVE', 'RUNNING', 'PAUSED', 'CANCELLED'];
+
+/**
+ * 文字列が有効な定期送金の状態かどうかを判定する型ガード
+ */
+export function isStandingOrderStatus(value: string): value is StandingOrderStatus {
+    return (STANDING_ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * 停止した理由
+ *
+ * - MANUAL: 利用者が停止した
+ * - TOO_MANY_FAILURES: 連続で失敗したため自動で停止した
+ */
+export type StandingOrderPauseReason = 'MANUAL' | 'TOO_MANY_FAILURES';
+
+/**
+ * 文字列が有効な停止の理由かどうかを判定する型ガード
+ */
+export function isStandingOrderPauseReason(value: string): value is StandingOrderPauseReason {
+    return value === 'MANUAL' || value === 'TOO_MANY_FAILURES';
+}
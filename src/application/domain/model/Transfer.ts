@@ -0,0 +1,118 @@
+import {TransferAlreadyReversedException} from '../exception/TransferAlreadyReversedException';
+import type {AccountId} from './Activity';
+import type {Money} from './Money';
+import type {TransferStatus} from './TransferStatus';
+
+/**
+ * 送金ID（値オブジェクト）
+ *
+ * 送金のアクティビティ（送金元の出金・送金先の入金・手数料）はすべて、この ID で送金にひも付く
+ */
+export class TransferId {
+    constructor(private readonly value: string) {}
+
+    getValue(): string {
+        return this.value;
+    }
+
+    equals(other: TransferId): boolean {
+        return this.value === other.value;
+    }
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+/**
+ * 送金（エンティティ）
+ *
+ * 送金のアクティビティをまとめる記録。お金の動きそのものはアクティビティに記録され、
+ * この記録は「どの送金か」を1つの ID で扱うためのもの（サポートでのお問い合わせなど）
+ */
+export class Transfer {
+    /**
+     * 送金元から引き落とした合計（送金額 + 手数料）
+     */
+    public readonly totalDebit: Money;
+
+    private constructor(
+        /** 送金ID */
+        public readonly id: TransferId,
+        /** 送金元のアカウントID */
+        public readonly sourceAccountId: AccountId,
+        /** 送金先のアカウントID */
+        public readonly targetAccountId: AccountId,
+        /** 送金額（送金元の通貨） */
+        public readonly amount: Money,
+        /** 手数料（送金元の通貨） */
+        public readonly fee: Money,
+        /** 送金先に入金した金額（送金先の通貨） */
+        public readonly depositedAmount: Money,
+        /** 送金の参照情報（指定がなければ null） */
+        public readonly reference: string | null,
+        /** 送金した時刻 */
+        public readonly createdAt: Date,
+        private status: TransferStatus
+    ) {
+        this.totalDebit = amount.plus(fee);
+    }
+
+    /**
+     * 送金した記録を作成する（COMPLETED）
+     */
+    static complete(
+        id: TransferId,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        amount: Money,
+        fee: Money,
+        depositedAmount: Money,
+        reference: string | null,
+        createdAt: Date
+    ): Transfer {
+        return new Transfer(
+            id, sourceAccountId, targetAccountId, amount, fee, depositedAmount, reference, createdAt, 'COMPLETED'
+        );
+    }
+
+    /**
+     * 保存済みの送金を復元する（永続化アダプター用）
+     */
+    static restore(
+        id: TransferId,
+        sourceAccountId: AccountId,
+        targetAccountId: AccountId,
+        amount: Money,
+        fee: Money,
+        depositedAmount: Money,
+        reference: string | null,
+        createdAt: Date,
+        status: TransferStatus
+    ): Transfer {
+        return new Transfer(
+            id, sourceAccountId, targetAccountId, amount, fee, depositedAmount, reference, createdAt, status
+        );
+    }
+
+    getStatus(): TransferStatus {
+        return this.status;
+    }
+
+    isReversed(): boolean {
+        return this.status === 'REVERSED';
+    }
+
+    /**
+     * 取り消したことを記録する（COMPLETED → REVERSED）
+     *
+     * @throws TransferAlreadyReversedException 取り消し済みの場合（同じお金を2回戻さない）
+     */
+    markReversed(): void {
+        if (this.status !== 'COMPLETED') {
+            throw new TransferAlreadyReversedException(this.id);
+        }
+
+        this.status = 'REVERSED';
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * 予約送金・定期送金を実行できなかった理由
+ */
+export interface TransferFailure {
+    /** 失敗の種類（送金ユースケースが投げた例外の名前。例: InsufficientBalanceException） */
+    reason: string;
+
+    /** 詳しい説明（例外のメッセージ） */
+    message: string;
+}
+
+/**
+ * 送金ユースケースが投げた例外を、記録する失敗理由に変換する
+ */
+export function toTransferFailure(error: unknown): TransferFailure {
+    if (error instanceof Error) {
+        return {reason: error.name, message: error.message};
+    }
+    return {reason: 'Error', message: String(error)};
+}
@@ -0,0 +1,162 @@
+import {Money} from './Money';
+
+/**
+ * 段階制の手数料の1段
+ */
+export interface TransferFeeTier {
+    /**
+     * この段の上限（この金額以下の送金に適用する。null は上限なし）
+     */
+    upTo: Money | null;
+
+    /**
+     * この段で使う手数料の計算方法
+     */
+    policy: TransferFeePolicy;
+}
+
+/**
+ * 手数料の計算方法
+ */
+type FeeRule =
+    | { kind: 'NONE' }
+    | { kind: 'FLAT'; amount: Money }
+    | { kind: 'BASIS_POINTS'; basisPoints: number }
+    | { kind: 'TIERED'; tiers: readonly TransferFeeTier[] };
+
+/**
+ * 送金手数料の料金体系（値オブジェクト）
+ *
+ * - 定額: 送金額にかかわらず同じ金額
+ * - 定率: 送金額のベーシスポイント（1 bp = 0.01%）
+ * - 段階制: 送金額の帯ごとに定額・定率を切り替える
+ * - 下限・上限: どの計算方法にも付けられる（withCaps）
+ *
+ * 金額（定額・段階の上限・下限・上限）は、送金額と同じ通貨で指定する
+ * （送金ユースケースでは基準通貨に換算した送金額を渡す）
+ */
+export class TransferFeePolicy {
+    private constructor(
+        private readonly rule: FeeRule,
+        private readonly minimum: Money | null = null,
+        private readonly maximum: Money | null = null
+    ) {
+    }
+
+    /**
+     * 手数料なし
+     */
+    static none(): TransferFeePolicy {
+        return new TransferFeePolicy({kind: 'NONE'});
+    }
+
+    /**
+     * 定額の手数料
+     *
+     * @throws Error 金額が負の場合
+     */
+    static flat(amount: Money): TransferFeePolicy {
+        if (amount.isNegative()) {
+            throw new Error(`Flat fee must not be negative: ${amount.toString()}`);
+        }
+        return new TransferFeePolicy({kind: 'FLAT', amount});
+    }
+
+    /**
+     * 定率の手数料（送金額 × basisPoints / 10,000、四捨五入）
+     *
+     * @throws Error 0以上の整数でない場合
+     */
+    static basisPoints(basisPoints: number): TransferFeePolicy {
+        if (!Number.isInteger(basisPoints) || basisPoints < 0) {
+            throw new Error(`Fee basis points must be a non-negative integer: ${basisPoints.toString()}`);
+        }
+        return new TransferFeePolicy({kind: 'BASIS_POINTS', basisPoints});
+    }
+
+    /**
+     * 段階制の手数料
+     *
+     * 上限の昇順に並べ、最後の段は上限なし（upTo: null）にする
+     *
+     * @throws Error 段がない、上限が昇順でない、最後の段に上限がある場合
+     */
+    static tiered(tiers: readonly TransferFeeTier[]): TransferFeePolicy {
+        if (tiers.length === 0) {
+            throw new Error('Tiered fee requires at least one tier');
+        }
+
+        tiers.forEach((tier, index) => {
+            const isLast = index === tiers.length - 1;
+            if (isLast !== (tier.upTo === null)) {
+                throw new Error('Only the last fee tier must have no upper bound');
+            }
+
+            const previousUpTo = index > 0 ? tiers[index - 1].upTo : null;
+            if (tier.upTo && previousUpTo && !tier.upTo.isGreaterThan(previousUpTo)) {
+                throw new Error('Fee tiers must be sorted by their upper bound in ascending order');
+            }
+        });
+
+        return new TransferFeePolicy({kind: 'TIERED', tiers: [...tiers]});
+    }
+
+    /**
+     * 下限・上限を付けた料金体系を返す
+     *
+     * @throws Error 下限が上限より大きい場合
+     */
+    withCaps(caps: { minimum?: Money; maximum?: Money }): TransferFeePolicy {
+        const minimum = caps.minimum ?? null;
+        const maximum = caps.maximum ?? null;
+        if (minimum && maximum && minimum.isGreaterThan(maximum)) {
+            throw new Error('Minimum fee must not be greater than maximum fee');
+        }
+        return new TransferFeePolicy(this.rule, minimum, maximum);
+    }
+
+    /**
+     * 手数料がかからない料金体系かどうか
+     */
+    isFree(): boolean {
+        return this.rule.kind === 'NONE' && this.minimum === null;
+    }
+
+    /**
+     * 送金額に対する手数料を計算する
+     *
+     * @param amount 送金額
+     * @returns 手数料（送金額と同じ通貨）
+     * @throws CurrencyMismatchException 料金体系の金額の通貨が送金額と異なる場合
+     */
+    calculate(amount: Money): Money {
+        let fee = this.calculateWithoutCaps(amount);
+
+        if (this.minimum) {
+            fee = Money.max(fee, this.minimum);
+        }
+        if (this.maximum) {
+            fee = Money.min(fee, this.maximum);
+        }
+        return fee;
+    }
+
+    private calculateWithoutCaps(amount: Money): Money {
+        switch (this.rule.kind) {
+            case 'NONE':
+                return Money.zero(amount.getCurrency());
+            case 'FLAT':
+                // 通貨が異なる場合は加算で CurrencyMismatchException になる
+                return Money.zero(amount.getCurrency()).plus(this.rule.amount);
+            case 'BASIS_POINTS':
+                return amount.percentage(this.rule.basisPoints);
+            case 'TIERED': {
+                const tier = this.rule.tiers.find(
+                    ({upTo}) => upTo === null || !amount.isGreaterThan(upTo)
+                );
+                // 最後の段は上限なしなので、必ず見つかる
+                return tier ? tier.policy.calculate(amount) : Money.zero(amount.getCurrency());
+            }
+        }
+    }
+}
@@ -0,0 +1,36 @@
+import type {CumulativeTransferLimit} from './CumulativeTransferLimit';
+import type {Currency} from './Currency';
+import type {Money} from './Money';
+
+/**
+ * アカウントに適用する送金限度額（値オブジェクト）
+ *
+ * 1回の送金の限度額と累積送金限度額をまとめたもの
+ * 金額はすべて基準通貨で指定する
+ */
+export class TransferLimits {
+    /**
+     * @param maximumTransferThreshold 1回の送金の限度額（この金額の通貨が基準通貨になる）
+     * @param cumulativeLimits 累積送金限度額（直近24時間・30日の出金合計の上限）
+     * @throws Error 累積送金限度額の通貨が基準通貨と異なる場合
+     */
+    constructor(
+        public readonly maximumTransferThreshold: Money,
+        public readonly cumulativeLimits: readonly CumulativeTransferLimit[] = []
+    ) {
+        for (const {limit} of cumulativeLimits) {
+            if (!limit.getCurrency().equals(this.baseCurrency)) {
+                throw new Error(
+                    `Cumulative transfer limit must be in the base currency ${this.baseCurrency.code}: ${limit.toString()}`
+                );
+            }
+        }
+    }
+
+    /**
+     * 限度額の基準通貨
+     */
+    get baseCurrency(): Currency {
+        return this.maximumTransferThreshold.getCurrency();
+    }
+}
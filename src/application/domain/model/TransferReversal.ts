@@ -0,0 +1,32 @@
+import type {ActivityId} from './Activity';
+import type {TransferId} from './Transfer';
+
+/**
+ * 送金の取り消しの記録（監査用）
+ *
+ * 取り消しのアクティビティそのものは各アカウントに記録され、
+ * 元のアクティビティへのリンク（Activity.getReversalOf）を持つ。
+ * この記録は「誰が見ても、なぜ取り消したのか」を残すためのもの
+ */
+export class TransferReversal {
+    /**
+     * @param id 取り消しのID
+     * @param transferId 取り消した送金のID
+     * @param originalActivityIds 取り消した元のアクティビティのID（出金・入金・手数料）
+     * @param reason 取り消しの理由（監査用）
+     * @param forced 管理者が残高のチェックを省略して取り消した場合は true
+     * @param reversedAt 取り消した時刻
+     */
+    constructor(
+        public readonly id: string,
+        public readonly transferId: TransferId,
+        public readonly originalActivityIds: readonly ActivityId[],
+        public readonly reason: string,
+        public readonly forced: boolean,
+        public readonly reversedAt: Date
+    ) {
+        if (reason.trim() === '') {
+            throw new Error('Reversal reason must not be empty');
+        }
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * 送金の状態
+ *
+ * - COMPLETED: 送金した（送金元の出金と送金先の入金が記録されている）
+ * - REVERSED: 取り消した（取り消しのアクティビティが記録されている。最終状態）
+ *
+ * 状態遷移：
+ *   COMPLETED ──markReversed──→ REVERSED
+ */
+export type TransferStatus = 'COMPLETED' | 'REVERSED';
+
+/**
+ * すべての送金の状態（永続化層からの値の検証などに使用）
+ */
+export const TRANSFER_STATUSES: readonly TransferStatus[] = ['COMPLETED', 'REVERSED'];
+
+/**
+ * 文字列が有効な送金の状態かどうかを判定する型ガード
+ */
+export function isTransferStatus(value: string): value is TransferStatus {
+    return (TRANSFER_STATUSES as readonly string[]).includes(value);
+}
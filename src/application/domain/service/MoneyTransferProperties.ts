@@ -1,10 +1,32 @@
-import type { Money } from '../model/Money';
+import type { AccountId } from '../model/Activity';
+import type { Currency } from '../model/Currency';
+import { TransferFeePolicy } from '../model/TransferFeePolicy';
 
 /**
  * 送金ユースケースの設定プロパティ
+ *
+ * 送金限度額（1回・累積）と手数料は基準通貨で設定する
+ * （他の通貨の送金額は、基準通貨に換算してから限度額と比較し、手数料を計算する）
+ *
+ * 送金限度額はアカウントの区分ごとに異なるため、ここでは持たない
+ * （TransferLimitsPolicyPort から取得する）
  */
 export class MoneyTransferProperties {
-  constructor(public readonly maximumTransferThreshold: Money) {}
+  /**
+   * @param baseCurrency 限度額のチェックと手数料の計算に使う基準通貨
+   * @param feePolicy 送金手数料の料金体系
+   * @param feeRevenueAccountId 手数料を入金するアカウント（基準通貨のアカウント）
+   * @throws Error 手数料がかかるのに、手数料を入金するアカウントがない場合
+   */
+  constructor(
+    public readonly baseCurrency: Currency,
+    public readonly feePolicy: TransferFeePolicy = TransferFeePolicy.none(),
+    public readonly feeRevenueAccountId: AccountId | null = null
+  ) {
+    if (!feePolicy.isFree() && feeRevenueAccountId === null) {
+      throw new Error('Fee revenue account is required when transfers are charged a fee');
+    }
+  }
 }
 
 /**
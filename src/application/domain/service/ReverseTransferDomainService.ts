@@ -0,0 +1,146 @@
+import {injectable} from 'tsyringe';
+import {AccountNotActiveException} from '../exception/AccountNotActiveException';
+import {InvalidTransferReversalException} from '../exception/InvalidTransferReversalException';
+import {TransferAlreadyReversedException} from '../exception/TransferAlreadyReversedException';
+import type {Account} from '../model/Account';
+import type {Activity} from '../model/Activity';
+import type {Money} from '../model/Money';
+import type {Transfer, TransferId} from '../model/Transfer';
+
+/**
+ * 送金の取り消しドメインサービス（取り消しのビジネスルールの集約）
+ *
+ * 送金を構成するアクティビティ（送金元の出金・送金先の入金・手数料の出金と入金）を、
+ * 送金元と送金先を入れ替えた同じ金額のアクティビティで打ち消す。
+ * 元のアクティビティは消さない（履歴には、送金と取り消しの両方が残る）
+ */
+@injectable()
+export class ReverseTransferDomainService {
+    /**
+     * 送金を取り消す（元のアクティビティを所有するアカウントに、取り消しのアクティビティを追加する）
+     *
+     * @param transfer 取り消す送金（取り消し済み（REVERSED）になる）
+     * @param originals 送金にひも付く元のアクティビティ
+     * @param accounts 元のアクティビティを所有するアカウント
+     * @param force 管理者が残高のチェックを省略する場合は true
+     * @throws TransferAlreadyReversedException 送金が取り消し済みの場合
+     * @throws InvalidTransferReversalException 送金のアクティビティが出金と入金の組になっていない場合
+     * @throws AccountNotActiveException 関係するアカウントが凍結中または解約済みの場合
+     * @throws InsufficientBalanceException 入金を戻すアカウントの残高（当座貸越の限度額を含む）が足りない場合
+     */
+    reverseTransfer(
+        transfer: Transfer,
+        originals: readonly Activity[],
+        accounts: readonly Account[],
+        force: boolean
+    ): void {
+        // ビジネスルール1: 同じ送金は2回取り消せない（同じお金を2回戻さない）
+        if (transfer.isReversed()) {
+            throw new TransferAlreadyReversedException(transfer.id);
+        }
+
+        // ビジネスルール2: 取り消せるのは、送金元からのアカウント間送金のアクティビティだけ
+        // （外部との入出金や、取り消しのアクティビティそのものは取り消せない）
+        if (originals.length === 0) {
+            throw new InvalidTransferReversalException(transfer.id, 'transfer has no activities');
+        }
+        for (const activity of originals) {
+            if (!activity.isTransfer() || activity.isReversal()) {
+                throw new InvalidTransferReversalException(
+                    transfer.id,
+                    `activity ${describe(activity)} is not a transfer activity`
+                );
+            }
+            if (!activity.getSourceAccountId()?.equals(transfer.sourceAccountId)) {
+                throw new InvalidTransferReversalException(
+                    transfer.id,
+                    `activity ${describe(activity)} does not belong to a transfer from account ${transfer.sourceAccountId.toString()}`
+                );
+            }
+        }
+
+        // ビジネスルール3: 出金と入金は組で取り消す
+        // （片方だけ取り消すと、お金が消えたり増えたりする）
+        assertPaired(transfer.id, originals);
+
+        // ビジネスルール4: 凍結中・解約済みのアカウントは取り消しに関われない
+        for (const account of accounts) {
+            const accountId = account.getId();
+            if (accountId && !account.isActive()) {
+                throw new AccountNotActiveException(accountId, account.getStatus());
+            }
+        }
+
+        // ビジネスルール5: 出金を戻して（入金して）から、入金を戻す（出金する）
+        // （入金を戻すアカウントの残高は、取り消しの出金でチェックされる）
+        const ordered = [...originals].sort(
+            (a, b) => Number(isWithdrawal(b)) - Number(isWithdrawal(a))
+        );
+        for (const activity of ordered) {
+            findOwner(activity, accounts).reverseActivity(activity, force);
+        }
+
+        // ビジネスルール6: 送金を取り消し済みにする
+        transfer.markReversed();
+    }
+}
+
+/**
+ * 送金元が所有する出金アクティビティかどうか（送金先が所有する入金アクティビティなら false）
+ */
+function isWithdrawal(activity: Activity): boolean {
+    return activity.isWithdrawalFrom(activity.getOwnerAccountId());
+}
+
+/**
+ * すべての出金アクティビティに、対応する入金アクティビティがあることを確認する
+ *
+ * 同じ送金元・送金先の組で、入金額が出金額（換算した場合は換算後の金額）と一致するものを対応させる
+ */
+function assertPaired(transferId: TransferId, originals: readonly Activity[]): void {
+    const unmatchedDeposits = originals.filter((activity) => !isWithdrawal(activity));
+
+    for (const withdrawal of originals.filter(isWithdrawal)) {
+        const depositedMoney = withdrawal.getConversion()?.targetMoney ?? withdrawal.getMoney();
+        const index = unmatchedDeposits.findIndex((deposit) => isDepositOf(deposit, withdrawal, depositedMoney));
+        if (index < 0) {
+            throw new InvalidTransferReversalException(
+                transferId,
+                `deposit activity for withdrawal ${describe(withdrawal)} is missing`
+            );
+        }
+        unmatchedDeposits.splice(index, 1);
+    }
+
+    if (unmatchedDeposits.length > 0) {
+        throw new InvalidTransferReversalException(
+            transferId,
+            `withdrawal activity for deposit ${describe(unmatchedDeposits[0])} is missing`
+        );
+    }
+}
+
+function isDepositOf(deposit: Activity, withdrawal: Activity, depositedMoney: Money): boolean {
+    const sourceAccountId = withdrawal.getSourceAccountId();
+    const targetAccountId = withdrawal.getTargetAccountId();
+
+    return sourceAccountId !== null
+        && targetAccountId !== null
+        && deposit.getOwnerAccountId().equals(targetAccountId)
+        && deposit.isWithdrawalFrom(sourceAccountId)
+        && deposit.isDepositFor(targetAccountId)
+        && deposit.getMoney().equals(depositedMoney);
+}
+
+function findOwner(activity: Activity, accounts: readonly Account[]): Account {
+    const ownerAccountId = activity.getOwnerAccountId();
+    const owner = accounts.find((account) => account.getId()?.equals(ownerAccountId));
+    if (!owner) {
+        throw new Error(`Account ${ownerAccountId.toString()} must be loaded to reverse its activities`);
+    }
+    return owner;
+}
+
+function describe(activity: Activity): string {
+    return activity.getId()?.toString() ?? '(new)';
+}
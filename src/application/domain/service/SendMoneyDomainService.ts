@@ -1,8 +1,118 @@
 import {injectable} from 'tsyringe';
+import {AccountNotActiveException} from '../exception/AccountNotActiveException';
+import {CumulativeLimitExceededException} from '../exception/CumulativeLimitExceededException';
+import {CurrencyMismatchException} from '../exception/CurrencyMismatchException';
+import {InsufficientBalanceException} from '../exception/InsufficientBalanceException';
 import {SameAccountTransferException} from '../exception/SameAccountTransferException';
 import {ThresholdExceededException} from '../exception/ThresholdExceededException';
 import {Account} from '../model/Account';
+import type {CumulativeTransferLimit} from '../model/CumulativeTransferLimit';
+import {CurrencyConversion} from '../model/CurrencyConversion';
+import type {ExchangeRate} from '../model/ExchangeRate';
 import {Money} from '../model/Money';
+import type {RemittanceInformation} from '../model/RemittanceInformation';
+import type {TransferId} from '../model/Transfer';
+import type {TransferFeePolicy} from '../model/TransferFeePolicy';
+
+/**
+ * 送金で使う為替レート
+ *
+ * レートの取得（外部サービスや見積もり）はアプリケーションサービスの責務で、
+ * ドメインサービスは渡されたレートを使ってルールを適用するだけ
+ */
+export interface TransferExchangeRates {
+    /**
+     * 送金元の通貨 → 送金先の通貨のレート
+     * （送金元と送金先の通貨が異なる場合は必須）
+     */
+    toTarget?: ExchangeRate;
+
+    /**
+     * 送金額の通貨 → 限度額の通貨（基準通貨）のレート
+     * （送金額の通貨が基準通貨と異なる場合は必須）
+     */
+    toThresholdCurrency?: ExchangeRate;
+}
+
+/**
+ * 送金手数料の請求先
+ *
+ * 手数料を入金するアカウントの読み込みはアプリケーションサービスの責務で、
+ * ドメインサービスは料金体系に従って手数料を計算し、アクティビティを作るだけ
+ */
+export interface TransferFeeCharge {
+    /**
+     * 送金手数料の料金体系（基準通貨）
+     */
+    policy: TransferFeePolicy;
+
+    /**
+     * 手数料を入金するアカウント（基準通貨のアカウント）
+     */
+    revenueAccount: Account;
+}
+
+/**
+ * 送金のオプション
+ */
+export interface TransferOptions {
+    /**
+     * 通貨が異なる場合に使う為替レート
+     */
+    exchangeRates?: TransferExchangeRates;
+
+    /**
+     * 手数料の請求先（省略した場合は手数料なし）
+     */
+    feeCharge?: TransferFeeCharge | null;
+
+    /**
+     * 累積送金限度額（基準通貨）
+     *
+     * 送金元のアクティビティウィンドウは、集計期間をカバーするところから読み込んでおく
+     */
+    cumulativeLimits?: readonly CumulativeTransferLimit[];
+
+    /**
+     * 累積送金限度額の集計の基準時刻（省略した場合は現在時刻）
+     */
+    now?: Date;
+
+    /**
+     * 作成するアクティビティを送金にひも付けるための送金ID（見積もりなど、保存しない場合は省略）
+     */
+    transferId?: TransferId | null;
+
+    /**
+     * 送金元の出金と送金先の入金のアクティビティに記録する参照情報とメモ（手数料のアクティビティには記録しない）
+     */
+    remittance?: RemittanceInformation | null;
+}
+
+/**
+ * 送金の内訳
+ */
+export interface TransferBreakdown {
+    /**
+     * 送金額（送金元の通貨）
+     */
+    amount: Money;
+
+    /**
+     * 手数料（送金元の通貨）
+     */
+    fee: Money;
+
+    /**
+     * 送金元から引き落とす合計（送金額 + 手数料）
+     */
+    totalDebit: Money;
+
+    /**
+     * 送金先に入金する金額（送金先の通貨）
+     */
+    depositedAmount: Money;
+}
 
 /**
  * 送金ドメインサービス（ビジネスルールの集約）
@@ -19,15 +129,26 @@ export class SendMoneyDomainService {
      * 送金トランザクションを実行
      *
      * @throws SameAccountTransferException 同一アカウント送金の場合
+     * @throws AccountNotActiveException 送金元・送金先・手数料を入金するアカウントが凍結中または解約済みの場合
+     * @throws CurrencyMismatchException 送金額の通貨が送金元の通貨と一致しない場合
      * @throws ThresholdExceededException 限度額超過の場合
-     * @throws InsufficientBalanceException 残高不足の場合
+     * @throws CumulativeLimitExceededException 直近24時間・30日の出金合計が累積送金限度額を超える場合
+     * @throws InsufficientBalanceException 残高（当座貸越の限度額を含む）が送金額 + 手数料に足りない場合
+     *
+     * @param money 送金額（送金元の通貨）
+     * @param threshold 送金限度額（基準通貨）
+     * @param options 為替レート・手数料・累積送金限度額
+     * @returns 送金の内訳
      */
     executeTransfer(
         sourceAccount: Account,
         targetAccount: Account,
         money: Money,
-        threshold: Money
-    ): void {
+        threshold: Money,
+        options: TransferOptions = {}
+    ): TransferBreakdown {
+        const {exchangeRates = {}, feeCharge = null, cumulativeLimits = [], now = new Date(), transferId = null, remittance = null} = options;
+
         const sourceAccountId = sourceAccount.getId();
         const targetAccountId = targetAccount.getId();
 
@@ -40,16 +161,172 @@ export class SendMoneyDomainService {
             throw new SameAccountTransferException(sourceAccountId);
         }
 
-        // ビジネスルール2: 送金限度額のチェック
-        if (money.isGreaterThan(threshold)) {
-            throw new ThresholdExceededException(threshold, money);
+        // ビジネスルール2: 凍結中・解約済みのアカウントは送金に関われない（手数料を入金するアカウントも同じ）
+        if (!sourceAccount.isActive()) {
+            throw new AccountNotActiveException(sourceAccountId, sourceAccount.getStatus());
+        }
+        if (!targetAccount.isActive()) {
+            throw new AccountNotActiveException(targetAccountId, targetAccount.getStatus());
+        }
+        const feeRevenueAccountId = feeCharge?.revenueAccount.getId();
+        if (feeCharge && feeRevenueAccountId && !feeCharge.revenueAccount.isActive()) {
+            throw new AccountNotActiveException(feeRevenueAccountId, feeCharge.revenueAccount.getStatus());
+        }
+
+        // ビジネスルール3: 送金額は送金元の通貨で指定する
+        if (!sourceAccount.getCurrency().equals(money.getCurrency())) {
+            throw new CurrencyMismatchException(sourceAccount.getCurrency(), money.getCurrency());
+        }
+
+        // ビジネスルール4: 送金限度額のチェック（基準通貨に換算して比較）
+        const amountInThresholdCurrency = this.toThresholdCurrency(money, threshold, exchangeRates);
+        if (amountInThresholdCurrency.isGreaterThan(threshold)) {
+            throw new ThresholdExceededException(threshold, amountInThresholdCurrency);
+        }
+
+        // ビジネスルール5: 通貨が異なる場合は、送金先の通貨に換算して入金する
+        const conversion = this.toTargetCurrency(money, targetAccount, exchangeRates);
+        const depositMoney = conversion?.targetMoney ?? money;
+
+        // ビジネスルール6: 手数料は基準通貨に換算した送金額から計算し、送金元の通貨で引き落とす
+        const fee = feeCharge
+            ? this.calculateFee(money, amountInThresholdCurrency, feeCharge, exchangeRates)
+            : null;
+        const feeMoney = fee?.inSourceCurrency ?? Money.zero(money.getCurrency());
+        const totalDebit = money.plus(feeMoney);
+
+        // ビジネスルール7: 累積送金限度額のチェック（期間内の出金合計 + 今回の引き落としを基準通貨で比較）
+        const debitInBaseCurrency = amountInThresholdCurrency.plus(
+            fee?.inBaseCurrency ?? Money.zero(threshold.getCurrency())
+        );
+        for (const cumulativeLimit of cumulativeLimits) {
+            const used = this.toThresholdCurrency(
+                sourceAccount.calculateWithdrawalTotalSince(cumulativeLimit.windowStart(now)),
+                threshold,
+                exchangeRates
+            );
+            if (used.plus(debitInBaseCurrency).isGreaterThan(cumulativeLimit.limit)) {
+                throw new CumulativeLimitExceededException(
+                    sourceAccountId,
+                    cumulativeLimit.period,
+                    cumulativeLimit.limit,
+                    used
+                );
+            }
+        }
+
+        // ビジネスルール8: 残高（当座貸越の限度額を含む）は送金額と手数料の合計でチェックする
+        // （送金額だけ引き出してから手数料で残高不足になる、という中途半端な状態を作らない）
+        if (sourceAccount.calculateAvailableBalance().minus(totalDebit).isNegative()) {
+            throw new InsufficientBalanceException(
+                sourceAccountId,
+                totalDebit,
+                sourceAccount.calculateBalance(),
+                sourceAccount.getOverdraftLimit()
+            );
+        }
+
+        // ビジネスルール9: 送金元から引き出し、送金先に入金する
+        // （換算した場合は、同じ換算を両方のアクティビティに記録する。どちらのアクティビティも同じ送金にひも付け、
+        //   参照情報とメモも両方に記録する）
+        sourceAccount.withdraw(money, targetAccountId, conversion, transferId, remittance);
+        targetAccount.deposit(depositMoney, sourceAccountId, conversion, transferId, remittance);
+
+        // ビジネスルール10: 手数料は3つ目のアクティビティとして、手数料を入金するアカウントに入金する
+        if (feeCharge && fee && feeMoney.isPositive()) {
+            const revenueAccountId = feeCharge.revenueAccount.getId();
+            if (!revenueAccountId) {
+                throw new Error('Fee revenue account ID must not be empty');
+            }
+
+            sourceAccount.withdraw(feeMoney, revenueAccountId, fee.conversion, transferId);
+            feeCharge.revenueAccount.deposit(fee.inBaseCurrency, sourceAccountId, fee.conversion, transferId);
+        }
+
+        return {amount: money, fee: feeMoney, totalDebit, depositedAmount: depositMoney};
+    }
+
+    /**
+     * 手数料を計算する
+     *
+     * 料金体系は基準通貨で設定されているため、基準通貨に換算した送金額で計算し、
+     * 限度額チェックと同じレートの逆数で送金元の通貨に換算する
+     */
+    private calculateFee(
+        money: Money,
+        amountInBaseCurrency: Money,
+        feeCharge: TransferFeeCharge,
+        exchangeRates: TransferExchangeRates
+    ): { inSourceCurrency: Money; inBaseCurrency: Money; conversion: CurrencyConversion | null } {
+        const baseCurrency = amountInBaseCurrency.getCurrency();
+        if (!feeCharge.revenueAccount.getCurrency().equals(baseCurrency)) {
+            throw new Error(
+                `Fee revenue account must hold the base currency ${baseCurrency.code}, ` +
+                `but holds ${feeCharge.revenueAccount.getCurrency().code}`
+            );
+        }
+
+        const inBaseCurrency = feeCharge.policy.calculate(amountInBaseCurrency);
+        if (money.hasSameCurrencyAs(amountInBaseCurrency)) {
+            return {inSourceCurrency: inBaseCurrency, inBaseCurrency, conversion: null};
+        }
+
+        const rate = exchangeRates.toThresholdCurrency;
+        if (!rate) {
+            throw new Error(`Exchange rate from ${money.getCurrency().code} to ${baseCurrency.code} is required`);
+        }
+
+        // 手数料のアクティビティには「送金元の通貨 → 基準通貨」の換算として記録する
+        const inSourceCurrency = rate.inverse().convert(inBaseCurrency);
+        return {
+            inSourceCurrency,
+            inBaseCurrency,
+            conversion: CurrencyConversion.of(rate, inSourceCurrency, inBaseCurrency),
+        };
+    }
+
+    /**
+     * 送金額を限度額の通貨（基準通貨）に換算する
+     */
+    private toThresholdCurrency(
+        money: Money,
+        threshold: Money,
+        exchangeRates: TransferExchangeRates
+    ): Money {
+        if (money.hasSameCurrencyAs(threshold)) {
+            return money;
+        }
+
+        const rate = exchangeRates.toThresholdCurrency;
+        if (!rate) {
+            throw new Error(
+                `Exchange rate from ${money.getCurrency().code} to ${threshold.getCurrency().code} is required`
+            );
         }
+        return rate.convert(money);
+    }
 
-        // ビジネスルール3: 送金元から引き出し（残高チェック含む）
-        sourceAccount.withdraw(money, targetAccountId);
+    /**
+     * 送金額を送金先の通貨に換算する
+     *
+     * @returns 適用した換算（送金先が同じ通貨なら null）
+     */
+    private toTargetCurrency(
+        money: Money,
+        targetAccount: Account,
+        exchangeRates: TransferExchangeRates
+    ): CurrencyConversion | null {
+        if (targetAccount.getCurrency().equals(money.getCurrency())) {
+            return null;
+        }
 
-        // ビジネスルール4: 送金先に入金
-        targetAccount.deposit(money, sourceAccountId);
+        const rate = exchangeRates.toTarget;
+        if (!rate) {
+            throw new Error(
+                `Exchange rate from ${money.getCurrency().code} to ${targetAccount.getCurrency().code} is required`
+            );
+        }
+        return CurrencyConversion.apply(rate, money);
     }
 }
 
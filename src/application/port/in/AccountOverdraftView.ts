@@ -0,0 +1,24 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {Money} from '../../domain/model/Money';
+
+/**
+ * アカウントの当座貸越の状況（読み取り専用モデル）
+ *
+ * 金額はすべてアカウントの通貨
+ */
+export interface AccountOverdraftView {
+    /** 対象のアカウントのID */
+    accountId: AccountId;
+
+    /** 当座貸越の限度額（0 なら貸越なし） */
+    overdraftLimit: Money;
+
+    /** 当座貸越の利用額（残高がマイナスの分） */
+    overdraftUsage: Money;
+
+    /** 現在の残高（記帳残高） */
+    balance: Money;
+
+    /** 引き出せる金額（残高 + 当座貸越の限度額） */
+    availableBalance: Money;
+}
@@ -0,0 +1,20 @@
+import type {AccountStatus} from '../../domain/model/AccountStatus';
+import type {AccountId} from '../../domain/model/Activity';
+import type {Currency} from '../../domain/model/Currency';
+
+/**
+ * アカウントのライフサイクル操作（開設・凍結・解約）の結果（読み取り専用モデル）
+ *
+ * ドメインモデル（Account）そのものは外に出さず、
+ * アダプター層が必要とする値だけを渡す
+ */
+export interface AccountStatusView {
+    /** 対象のアカウントのID */
+    accountId: AccountId;
+
+    /** 操作後のアカウントの状態 */
+    status: AccountStatus;
+
+    /** アカウントの通貨 */
+    currency: Currency;
+}
@@ -0,0 +1,17 @@
+import type {AccountTier} from '../../domain/model/AccountTier';
+import type {AccountId} from '../../domain/model/Activity';
+import type {TransferLimits} from '../../domain/model/TransferLimits';
+
+/**
+ * アカウントの区分と、その区分に適用される送金限度額（読み取り専用モデル）
+ */
+export interface AccountTierView {
+    /** 対象のアカウントのID */
+    accountId: AccountId;
+
+    /** アカウントの区分 */
+    tier: AccountTier;
+
+    /** 区分に適用される送金限度額（基準通貨） */
+    limits: TransferLimits;
+}
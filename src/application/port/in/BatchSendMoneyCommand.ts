@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { SendMoneyCommand } from './SendMoneyCommand';
+
+/**
+ * 一括送金の実行方法
+ *
+ * - ALL_OR_NOTHING: すべての送金をビジネスルールで検証し、1件でも失敗したら何も送金しない（全件をまとめて保存する）
+ * - BEST_EFFORT: 送金を1件ずつ実行し、失敗した送金があっても残りの送金は実行する
+ */
+export type BatchTransferMode = 'ALL_OR_NOTHING' | 'BEST_EFFORT';
+
+/**
+ * 1回の一括送金に含められる送金の最大件数
+ *
+ * 関係するすべてのアカウントのロックを1つの期限内で取得するため、件数に上限を設ける
+ */
+export const MAX_BATCH_TRANSFER_ITEMS = 100;
+
+/**
+ * 一括送金コマンドのバリデーションスキーマ
+ */
+const BatchSendMoneyCommandSchema = z.object({
+  items: z
+      .array(z.custom<SendMoneyCommand>((val) => val instanceof SendMoneyCommand, {
+        message: 'items must be SendMoneyCommand instances',
+      }))
+      .min(1, 'items must not be empty')
+      .max(MAX_BATCH_TRANSFER_ITEMS, `items must contain at most ${MAX_BATCH_TRANSFER_ITEMS.toString()} transfers`),
+  mode: z.enum(['ALL_OR_NOTHING', 'BEST_EFFORT']),
+});
+
+/**
+ * 一括送金コマンド
+ * 不変オブジェクトとして実装
+ */
+export class BatchSendMoneyCommand {
+  constructor(
+      /** 送金（リクエストの順番に実行する） */
+      public readonly items: readonly SendMoneyCommand[],
+      /** 実行方法 */
+      public readonly mode: BatchTransferMode
+  ) {
+    const result = BatchSendMoneyCommandSchema.safeParse({
+      items,
+      mode,
+    });
+
+    if (!result.success) {
+      throw new Error(
+          `Invalid BatchSendMoneyCommand: ${result.error.issues.map((e) => e.message).join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import type {BatchSendMoneyCommand} from './BatchSendMoneyCommand';
+import type {BatchTransferResult} from './BatchTransferResult';
+
+/**
+ * 一括送金ユースケースのインターフェース（入力ポート）
+ */
+export interface BatchSendMoneyUseCase {
+    /**
+     * 複数の送金をまとめて実行する
+     *
+     * 関係するすべてのアカウントのロックを取得してから、送金をコマンドの順番に実行する。
+     * 各送金には1件ずつの送金と同じビジネスルールを適用し、ビジネスルールの違反は例外ではなく送金ごとの結果で返す
+     *
+     * @param command 一括送金コマンド
+     * @returns 送金ごとの結果
+     * @throws AccountLockTimeoutException ロックを時間内に取得できなかった場合（何も送金しない）
+     * @throws InsufficientBalanceException ALL_OR_NOTHING で、保存直前の残高の再チェックに失敗した場合（何も送金しない）
+     * @throws Error ALL_OR_NOTHING で、送金の検証中にドメイン例外以外のエラーが発生した場合（何も送金しない）
+     */
+    sendMoneyBatch(command: BatchSendMoneyCommand): Promise<BatchTransferResult>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const BatchSendMoneyUseCaseToken = Symbol('BatchSendMoneyUseCase');
@@ -0,0 +1,25 @@
+import type {Transfer} from '../../domain/model/Transfer';
+import type {BatchTransferMode} from './BatchSendMoneyCommand';
+
+/**
+ * 一括送金に含まれる送金1件分の結果
+ *
+ * - SUCCEEDED: 送金した
+ * - FAILED: 送金できなかった（error は送金を1件ずつ実行した場合と同じ例外）
+ * - NOT_EXECUTED: 送金できる内容だったが、ALL_OR_NOTHING で他の送金が失敗したため送金しなかった
+ */
+export type BatchTransferItemResult =
+    | { status: 'SUCCEEDED'; transfer: Transfer }
+    | { status: 'FAILED'; error: unknown }
+    | { status: 'NOT_EXECUTED' };
+
+/**
+ * 一括送金の結果（読み取り専用モデル）
+ */
+export interface BatchTransferResult {
+    /** 実行方法 */
+    mode: BatchTransferMode;
+
+    /** 送金ごとの結果（コマンドの items と同じ順番） */
+    items: BatchTransferItemResult[];
+}
@@ -0,0 +1,20 @@
+import type {ScheduledTransfer} from '../../domain/model/ScheduledTransfer';
+
+/**
+ * 予約送金の取り消しユースケースのインターフェース（入力ポート）
+ */
+export interface CancelScheduledTransferUseCase {
+    /**
+     * 実行前（PENDING）の予約送金を取り消す
+     *
+     * @returns 取り消した予約送金（CANCELLED）
+     * @throws ScheduledTransferNotFoundException 予約送金が存在しない場合
+     * @throws InvalidScheduledTransferStatusTransitionException 実行中・実行済み・取り消し済みの場合
+     */
+    cancelScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CancelScheduledTransferUseCaseToken = Symbol('CancelScheduledTransferUseCase');
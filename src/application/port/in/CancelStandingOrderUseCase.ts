@@ -0,0 +1,20 @@
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+
+/**
+ * 定期送金の取り消しユースケースのインターフェース（入力ポート）
+ */
+export interface CancelStandingOrderUseCase {
+    /**
+     * 定期送金を取り消す（ACTIVE / PAUSED → CANCELLED）
+     *
+     * @returns 取り消した定期送金（CANCELLED）
+     * @throws StandingOrderNotFoundException 定期送金が存在しない場合
+     * @throws InvalidStandingOrderStatusTransitionException 実行中・取り消し済みの場合
+     */
+    cancelStandingOrder(standingOrderId: string): Promise<StandingOrder>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CancelStandingOrderUseCaseToken = Symbol('CancelStandingOrderUseCase');
@@ -0,0 +1,25 @@
+import type {AccountTier} from '../../domain/model/AccountTier';
+import type {AccountId} from '../../domain/model/Activity';
+import type {AccountTierView} from './AccountTierView';
+
+/**
+ * アカウントの区分変更ユースケースのインターフェース（入力ポート）
+ */
+export interface ChangeAccountTierUseCase {
+    /**
+     * アカウントの区分を変更する（管理者向け）
+     *
+     * 以後の送金には、変更後の区分の限度額が適用される
+     *
+     * @param accountId 対象のアカウントのID
+     * @param tier 変更後の区分
+     * @returns 変更後の区分と送金限度額
+     * @throws AccountNotFoundException アカウントが存在しない場合
+     */
+    changeAccountTier(accountId: AccountId, tier: AccountTier): Promise<AccountTierView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ChangeAccountTierUseCaseToken = Symbol('ChangeAccountTierUseCase');
@@ -0,0 +1,26 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {Money} from '../../domain/model/Money';
+import type {AccountOverdraftView} from './AccountOverdraftView';
+
+/**
+ * 当座貸越の限度額の変更ユースケースのインターフェース（入力ポート）
+ */
+export interface ChangeOverdraftLimitUseCase {
+    /**
+     * アカウントの当座貸越の限度額を変更する（管理者向け）
+     *
+     * 0 を指定すると貸越なしに戻る（利用中の貸越はそのまま残る）
+     *
+     * @param accountId 対象のアカウントのID
+     * @param overdraftLimit 変更後の限度額（アカウントの通貨）
+     * @returns 変更後の当座貸越の状況
+     * @throws AccountNotFoundException アカウントが存在しない場合
+     * @throws CurrencyMismatchException 限度額の通貨がアカウントの通貨と異なる場合
+     */
+    changeOverdraftLimit(accountId: AccountId, overdraftLimit: Money): Promise<AccountOverdraftView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ChangeOverdraftLimitUseCaseToken = Symbol('ChangeOverdraftLimitUseCase');
@@ -0,0 +1,23 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {AccountStatusView} from './AccountStatusView';
+
+/**
+ * アカウント解約ユースケースのインターフェース（入力ポート）
+ */
+export interface CloseAccountUseCase {
+    /**
+     * アカウントを解約する（ACTIVE / FROZEN → CLOSED）
+     *
+     * 解約は最終状態で、元に戻すことはできない
+     *
+     * @param accountId 解約するアカウントのID
+     * @returns 解約後のアカウントの状態
+     * @throws InvalidAccountStatusTransitionException 既に解約済みの場合
+     */
+    closeAccount(accountId: AccountId): Promise<AccountStatusView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CloseAccountUseCaseToken = Symbol('CloseAccountUseCase');
@@ -0,0 +1,23 @@
+import type {Currency} from '../../domain/model/Currency';
+import type {AccountStatusView} from './AccountStatusView';
+
+/**
+ * アカウント開設ユースケースのインターフェース（入力ポート）
+ */
+export interface CreateAccountUseCase {
+    /**
+     * 新しいアカウントを開設する
+     *
+     * 開設直後のアカウントは残高0、状態は ACTIVE
+     * アカウントの通貨は開設後に変更できない
+     *
+     * @param currency アカウントの通貨
+     * @returns 採番されたアカウントIDと状態
+     */
+    createAccount(currency: Currency): Promise<AccountStatusView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CreateAccountUseCaseToken = Symbol('CreateAccountUseCase');
@@ -0,0 +1,31 @@
+import type {Currency} from '../../domain/model/Currency';
+import type {ExchangeRateQuote} from '../../domain/model/ExchangeRateQuote';
+
+/**
+ * 見積もりの有効期間（ミリ秒）
+ *
+ * レートは刻々と変わるため、短い期間だけ保証する
+ */
+export const EXCHANGE_RATE_QUOTE_TTL_MS = 60_000;
+
+/**
+ * 為替レートの見積もりユースケースのインターフェース（入力ポート）
+ */
+export interface CreateExchangeRateQuoteUseCase {
+    /**
+     * 現在のレートで見積もりを作成する
+     *
+     * 有効期限内であれば、送金リクエストから quoteId で参照して同じレートで送金できる
+     *
+     * @param from 換算元の通貨（送金元の通貨）
+     * @param to 換算先の通貨（送金先の通貨）
+     * @returns 作成した見積もり
+     * @throws ExchangeRateUnavailableException レートを取得できなかった場合
+     */
+    createQuote(from: Currency, to: Currency): Promise<ExchangeRateQuote>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CreateExchangeRateQuoteUseCaseToken = Symbol('CreateExchangeRateQuoteUseCase');
@@ -0,0 +1,26 @@
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+import type {StandingOrderSchedule} from '../../domain/model/StandingOrderSchedule';
+import type {SendMoneyCommand} from './SendMoneyCommand';
+
+/**
+ * 定期送金の作成ユースケースのインターフェース（入力ポート）
+ */
+export interface CreateStandingOrderUseCase {
+    /**
+     * スケジュールに従って繰り返し実行する送金を登録する
+     *
+     * 残高・限度額などの送金のルールは実行のたびに判定する（登録の時点では判定しない）
+     *
+     * @param command 1回分の送金コマンド（見積もりは期限が切れるため、quoteId は指定できない）
+     * @param schedule 実行のスケジュール
+     * @returns 登録した定期送金（ACTIVE）
+     * @throws AccountNotFoundException 送金元・送金先のアカウントが存在しない場合（side 付き）
+     * @throws SameAccountTransferException 送金元と送金先が同じ場合
+     */
+    createStandingOrder(command: SendMoneyCommand, schedule: StandingOrderSchedule): Promise<StandingOrder>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CreateStandingOrderUseCaseToken = Symbol('CreateStandingOrderUseCase');
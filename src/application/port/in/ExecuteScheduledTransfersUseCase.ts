@@ -0,0 +1,42 @@
+/**
+ * スケジューラーの1回の実行結果
+ */
+export interface ScheduledTransfersRunResult {
+    /** 送金した予約の数 */
+    executed: number;
+
+    /** 送金できなかった（FAILED にした）予約の数 */
+    failed: number;
+
+    /** ロックの競合・データベースの障害など一時的な理由で送金できず、PENDING に戻した予約の数（次回の実行で再試行する） */
+    retried: number;
+
+    /** 取り消しと競合したなどで、実行しなかった予約の数 */
+    skipped: number;
+
+    /** 状態の保存に失敗したなどで、処理を中断した予約の数（ほかの予約の処理は続ける） */
+    errored: number;
+}
+
+/**
+ * 実行日時を過ぎた予約送金を実行するユースケースのインターフェース（入力ポート）
+ *
+ * Cloudflare Workers の Cron Trigger（scheduled ハンドラー）から呼ばれる
+ */
+export interface ExecuteScheduledTransfersUseCase {
+    /**
+     * 実行日時を過ぎた PENDING の予約送金を、実行日時の古い順に実行する
+     *
+     * 送金に失敗した予約は、理由とともに FAILED として記録する（例外は投げない）
+     * 一時的な理由で送金できなかった予約は PENDING に戻し、次回の実行で再試行する
+     * 先に、実行中にワーカーが落ちて PROCESSING のまま残った予約を、送金したかどうかに応じて EXECUTED か FAILED にする
+     *
+     * @param now 基準の時刻（Cron Trigger の scheduledTime）
+     */
+    executeDueTransfers(now: Date): Promise<ScheduledTransfersRunResult>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ExecuteScheduledTransfersUseCaseToken = Symbol('ExecuteScheduledTransfersUseCase');
@@ -0,0 +1,41 @@
+/**
+ * 定期送金のスケジューラーの1回の実行結果
+ */
+export interface StandingOrdersRunResult {
+    /** 送金した定期送金の数 */
+    executed: number;
+
+    /** 送金できなかった定期送金の数（自動で停止したものを含む） */
+    failed: number;
+
+    /** 連続で失敗したため、自動で停止した定期送金の数 */
+    paused: number;
+
+    /** 停止・取り消しと競合したなどで、実行しなかった定期送金の数 */
+    skipped: number;
+
+    /** 状態の保存に失敗したなどで、処理を中断した定期送金の数（ほかの定期送金の処理は続ける） */
+    errored: number;
+}
+
+/**
+ * 次の実行時刻を過ぎた定期送金を実行するユースケースのインターフェース（入力ポート）
+ *
+ * Cloudflare Workers の Cron Trigger（scheduled ハンドラー）から呼ばれる
+ */
+export interface ExecuteStandingOrdersUseCase {
+    /**
+     * 次の実行時刻を過ぎた ACTIVE の定期送金を、実行時刻の古い順に実行する
+     *
+     * 成功・失敗にかかわらず実行記録を残す。失敗した場合は再試行と自動停止のルールに従う（例外は投げない）
+     * 先に、実行中にワーカーが落ちて RUNNING のまま残った定期送金を、送金したかどうかに応じて成功か失敗として記録する
+     *
+     * @param now 基準の時刻（Cron Trigger の scheduledTime）
+     */
+    executeDueStandingOrders(now: Date): Promise<StandingOrdersRunResult>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ExecuteStandingOrdersUseCaseToken = Symbol('ExecuteStandingOrdersUseCase');
@@ -0,0 +1,23 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {AccountStatusView} from './AccountStatusView';
+
+/**
+ * アカウント凍結ユースケースのインターフェース（入力ポート）
+ */
+export interface FreezeAccountUseCase {
+    /**
+     * アカウントを凍結する（ACTIVE → FROZEN）
+     *
+     * 凍結中のアカウントは送金の送金元・送金先のどちらにもなれない
+     *
+     * @param accountId 凍結するアカウントのID
+     * @returns 凍結後のアカウントの状態
+     * @throws InvalidAccountStatusTransitionException ACTIVE 以外のアカウントの場合
+     */
+    freezeAccount(accountId: AccountId): Promise<AccountStatusView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const FreezeAccountUseCaseToken = Symbol('FreezeAccountUseCase');
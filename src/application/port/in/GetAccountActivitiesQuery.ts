@@ -0,0 +1,56 @@
+import type {AccountId, Activity, ActivityDirection} from '../../domain/model/Activity';
+import type {ActivityCursor} from '../out/LoadActivitiesPort';
+
+/**
+ * アクティビティ履歴の照会条件
+ */
+export interface AccountActivitiesRequest {
+    accountId: AccountId;
+    from?: Date;
+    to?: Date;
+    directions?: readonly ActivityDirection[];
+    cursor?: ActivityCursor;
+    limit?: number;
+}
+
+/**
+ * 履歴の1件分（アクティビティ + 照会アカウントから見た向き）
+ */
+export interface AccountActivityEntry {
+    activity: Activity;
+    direction: ActivityDirection;
+}
+
+/**
+ * アクティビティ履歴の1ページ分
+ */
+export interface AccountActivitiesPage {
+    accountId: AccountId;
+    entries: AccountActivityEntry[];
+    nextCursor: ActivityCursor | null;
+}
+
+/**
+ * アクティビティ履歴照会ユースケースのインターフェース（入力ポート）
+ */
+export interface GetAccountActivitiesQuery {
+    /**
+     * アカウントのアクティビティ履歴を新しい順に取得
+     *
+     * @param request 照会条件
+     * @returns 履歴の1ページ分
+     * @throws AccountNotFoundException アカウントが存在しない場合
+     */
+    getAccountActivities(request: AccountActivitiesRequest): Promise<AccountActivitiesPage>;
+}
+
+/**
+ * 1ページあたりの件数の既定値と上限
+ */
+export const DEFAULT_ACTIVITIES_PAGE_SIZE = 20;
+export const MAX_ACTIVITIES_PAGE_SIZE = 100;
+
+/**
+ * DI用のシンボル
+ */
+export const GetAccountActivitiesQueryToken = Symbol('GetAccountActivitiesQuery');
@@ -0,0 +1,55 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {Money} from '../../domain/model/Money';
+
+/**
+ * 残高照会の結果（読み取り専用モデル）
+ *
+ * 【責務】
+ * - クエリの結果をアダプター層に渡すためのデータ構造
+ * - ドメインモデル（Account）そのものは外に出さない
+ */
+export interface AccountBalance {
+    /** 照会したアカウントのID */
+    accountId: AccountId;
+
+    /** 現在の残高（ベースライン残高 + ウィンドウ内のアクティビティ） */
+    balance: Money;
+
+    /** 当座貸越の限度額（0 なら貸越なし） */
+    overdraftLimit: Money;
+
+    /** 当座貸越の利用額（残高がマイナスの分） */
+    overdraftUsage: Money;
+
+    /** 引き出せる金額（残高 + 当座貸越の限度額） */
+    availableBalance: Money;
+
+    /** 基準日時点の残高 */
+    baselineBalance: Money;
+
+    /** ベースライン残高の基準日 */
+    baselineDate: Date;
+
+    /** 残高を計算した時刻 */
+    asOf: Date;
+}
+
+/**
+ * 残高照会ユースケースのインターフェース（入力ポート）
+ *
+ * 状態を変更しない「クエリ」なので、Command ではなく Query と命名している
+ */
+export interface GetAccountBalanceQuery {
+    /**
+     * アカウントの残高を取得
+     *
+     * @param accountId 照会するアカウントのID
+     * @returns 残高照会の結果
+     */
+    getAccountBalance(accountId: AccountId): Promise<AccountBalance>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetAccountBalanceQueryToken = Symbol('GetAccountBalanceQuery');
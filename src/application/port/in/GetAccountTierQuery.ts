@@ -0,0 +1,21 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {AccountTierView} from './AccountTierView';
+
+/**
+ * アカウントの区分照会クエリのインターフェース（入力ポート）
+ */
+export interface GetAccountTierQuery {
+    /**
+     * アカウントの区分と、送金に適用される限度額を取得する
+     *
+     * @param accountId 対象のアカウントのID
+     * @returns アカウントの区分と送金限度額
+     * @throws AccountNotFoundException アカウントが存在しない場合
+     */
+    getAccountTier(accountId: AccountId): Promise<AccountTierView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetAccountTierQueryToken = Symbol('GetAccountTierQuery');
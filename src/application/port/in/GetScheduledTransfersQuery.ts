@@ -0,0 +1,31 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {ScheduledTransfer} from '../../domain/model/ScheduledTransfer';
+import type {ScheduledTransferStatus} from '../../domain/model/ScheduledTransferStatus';
+
+/**
+ * 予約送金の照会ユースケースのインターフェース（入力ポート）
+ */
+export interface GetScheduledTransfersQuery {
+    /**
+     * 予約送金を1件取得する
+     *
+     * @throws ScheduledTransferNotFoundException 予約送金が存在しない場合
+     */
+    getScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer>;
+
+    /**
+     * 送金元のアカウントの予約送金を、実行日時の昇順で取得する
+     *
+     * @param sourceAccountId 送金元のアカウントID
+     * @param status 絞り込む状態（null ならすべて。失敗した予約の確認には FAILED を指定する）
+     */
+    getScheduledTransfers(
+        sourceAccountId: AccountId,
+        status: ScheduledTransferStatus | null
+    ): Promise<ScheduledTransfer[]>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetScheduledTransfersQueryToken = Symbol('GetScheduledTransfersQuery');
@@ -0,0 +1,37 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+import type {StandingOrderRun} from '../../domain/model/StandingOrderRun';
+import type {StandingOrderStatus} from '../../domain/model/StandingOrderStatus';
+
+/**
+ * 定期送金の照会ユースケースのインターフェース（入力ポート）
+ */
+export interface GetStandingOrdersQuery {
+    /**
+     * 定期送金を1件取得する
+     *
+     * @throws StandingOrderNotFoundException 定期送金が存在しない場合
+     */
+    getStandingOrder(standingOrderId: string): Promise<StandingOrder>;
+
+    /**
+     * 送金元のアカウントの定期送金を、作成した順に取得する
+     *
+     * @param sourceAccountId 送金元のアカウントID
+     * @param status 絞り込む状態（null ならすべて）
+     */
+    getStandingOrders(sourceAccountId: AccountId, status: StandingOrderStatus | null): Promise<StandingOrder[]>;
+
+    /**
+     * 定期送金の実行記録を、新しい順に取得する
+     *
+     * @param standingOrderId 定期送金のID
+     * @param limit 最大件数
+     */
+    getStandingOrderRuns(standingOrderId: string, limit: number): Promise<StandingOrderRun[]>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetStandingOrdersQueryToken = Symbol('GetStandingOrdersQuery');
@@ -0,0 +1,41 @@
+import type {AccountTier} from '../../domain/model/AccountTier';
+import type {AccountId} from '../../domain/model/Activity';
+import type {Currency} from '../../domain/model/Currency';
+import type {TransferLimits} from '../../domain/model/TransferLimits';
+
+/**
+ * 送金に適用されている設定（読み取り専用モデル）
+ *
+ * 環境変数の値ではなく、アプリケーションが実際に使っている値を返す
+ * （未設定の変数に使われた既定値も含まれる）
+ */
+export interface TransferConfiguration {
+    /** 限度額のチェックと手数料の計算に使う基準通貨 */
+    baseCurrency: Currency;
+
+    /** アカウントの区分ごとの送金限度額 */
+    limitsByTier: Readonly<Record<AccountTier, TransferLimits>>;
+
+    /** 送金手数料を請求するかどうか */
+    feeCharged: boolean;
+
+    /** 手数料を入金するアカウント（手数料を請求しない場合は null） */
+    feeRevenueAccountId: AccountId | null;
+}
+
+/**
+ * 送金設定の照会クエリのインターフェース（入力ポート）
+ */
+export interface GetTransferConfigurationQuery {
+    /**
+     * 送金に適用されている設定を取得する（管理者向け）
+     *
+     * @returns 基準通貨・区分ごとの限度額・手数料の設定
+     */
+    getTransferConfiguration(): Promise<TransferConfiguration>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetTransferConfigurationQueryToken = Symbol('GetTransferConfigurationQuery');
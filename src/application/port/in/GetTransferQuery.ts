@@ -0,0 +1,19 @@
+import type {TransferId} from '../../domain/model/Transfer';
+import type {TransferView} from './TransferView';
+
+/**
+ * 送金の照会ユースケースのインターフェース（入力ポート）
+ */
+export interface GetTransferQuery {
+    /**
+     * 送金を、送金にひも付くアクティビティとともに取得する
+     *
+     * @throws TransferNotFoundException 送金が存在しない場合
+     */
+    getTransfer(transferId: TransferId): Promise<TransferView>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const GetTransferQueryToken = Symbol('GetTransferQuery');
@@ -0,0 +1,50 @@
+import type {IdempotentResponse} from '../out/IdempotencyKeyPort';
+
+/**
+ * 冪等なリクエスト実行の結果
+ */
+export interface IdempotentResult {
+    /** 返却するレスポンス */
+    response: IdempotentResponse;
+
+    /** 保存済みのレスポンスを再送した場合は true */
+    replayed: boolean;
+}
+
+/**
+ * 冪等性キー付きリクエストを実行するユースケースのインターフェース（入力ポート）
+ *
+ * 同じキーでのリトライに対しては処理を再実行せず、初回のレスポンスを返す
+ */
+export interface IdempotentRequestUseCase {
+    /**
+     * 冪等性キー付きでリクエストを処理する
+     *
+     * @param key クライアントが指定した冪等性キー
+     * @param requestFingerprint リクエスト内容のフィンガープリント
+     * @param handler 初回のみ実行される処理（レスポンスを返す）
+     * @returns レスポンスと、再送かどうかのフラグ
+     * @throws IdempotencyKeyReusedException 同じキーで異なる内容のリクエストが送られた場合
+     * @throws IdempotencyKeyInProgressException 同じキーのリクエストがまだ処理中の場合
+     *   （IDEMPOTENCY_RESERVATION_TIMEOUT_MS を過ぎた予約は放置されたものとみなし、引き継いで処理する）
+     */
+    execute(
+        key: string,
+        requestFingerprint: string,
+        handler: () => Promise<IdempotentResponse>
+    ): Promise<IdempotentResult>;
+}
+
+/**
+ * 処理中の予約の有効期限（ミリ秒）
+ *
+ * 処理中にワーカーが落ちるとレスポンスが保存されず、予約が残り続ける。
+ * これより古い処理中の予約は放置されたものとみなし、リトライで引き継げるようにする。
+ * 通常の処理（ロックのリース30秒を含む）より十分長くしておく。
+ */
+export const IDEMPOTENCY_RESERVATION_TIMEOUT_MS = 60_000;
+
+/**
+ * DI用のシンボル
+ */
+export const IdempotentRequestUseCaseToken = Symbol('IdempotentRequestUseCase');
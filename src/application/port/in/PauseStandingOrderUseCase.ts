@@ -0,0 +1,20 @@
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+
+/**
+ * 定期送金の停止ユースケースのインターフェース（入力ポート）
+ */
+export interface PauseStandingOrderUseCase {
+    /**
+     * 定期送金を停止する（ACTIVE → PAUSED）
+     *
+     * @returns 停止した定期送金（PAUSED）
+     * @throws StandingOrderNotFoundException 定期送金が存在しない場合
+     * @throws InvalidStandingOrderStatusTransitionException 実行中・停止中・取り消し済みの場合
+     */
+    pauseStandingOrder(standingOrderId: string): Promise<StandingOrder>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const PauseStandingOrderUseCaseToken = Symbol('PauseStandingOrderUseCase');
@@ -0,0 +1,22 @@
+import type {TransferBreakdown} from '../../domain/service/SendMoneyDomainService';
+import type {SendMoneyCommand} from './SendMoneyCommand';
+
+/**
+ * 送金の見積もり（ドライラン）ユースケースのインターフェース（入力ポート）
+ */
+export interface QuoteTransferUseCase {
+    /**
+     * 送金と同じルールを適用して内訳を計算する（お金は動かさない）
+     *
+     * 送金を実行した場合と同じ例外（残高不足・限度額超過など）が投げられる
+     *
+     * @param command 送金コマンド
+     * @returns 送金の内訳（送金額・手数料・引き落とし合計・入金額）
+     */
+    quoteTransfer(command: SendMoneyCommand): Promise<TransferBreakdown>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const QuoteTransferUseCaseToken = Symbol('QuoteTransferUseCase');
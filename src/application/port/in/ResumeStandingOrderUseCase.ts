@@ -0,0 +1,20 @@
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+
+/**
+ * 定期送金の再開ユースケースのインターフェース（入力ポート）
+ */
+export interface ResumeStandingOrderUseCase {
+    /**
+     * 定期送金を再開する（PAUSED → ACTIVE）。停止中に過ぎた実行日時の分は送金しない
+     *
+     * @returns 再開した定期送金（ACTIVE）
+     * @throws StandingOrderNotFoundException 定期送金が存在しない場合
+     * @throws InvalidStandingOrderStatusTransitionException 停止中でない場合
+     */
+    resumeStandingOrder(standingOrderId: string): Promise<StandingOrder>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ResumeStandingOrderUseCaseToken = Symbol('ResumeStandingOrderUseCase');
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { TransferId } from '../../domain/model/Transfer';
+
+/**
+ * 送金の取り消しコマンドのバリデーションスキーマ
+ */
+const ReverseTransferCommandSchema = z.object({
+  transferId: z.custom<TransferId>((val) => val instanceof TransferId, {
+    message: 'transferId must be a TransferId instance',
+  }),
+  reason: z.string().trim().min(1, 'reason must not be empty'),
+  force: z.boolean(),
+});
+
+/**
+ * 送金の取り消しコマンド
+ * 不変オブジェクトとして実装
+ */
+export class ReverseTransferCommand {
+  constructor(
+      /** 取り消す送金のID */
+      public readonly transferId: TransferId,
+      /** 取り消しの理由（監査用） */
+      public readonly reason: string,
+      /** 管理者が残高のチェックを省略して取り消す場合は true */
+      public readonly force = false
+  ) {
+    const result = ReverseTransferCommandSchema.safeParse({
+      transferId,
+      reason,
+      force,
+    });
+
+    if (!result.success) {
+      throw new Error(
+          `Invalid ReverseTransferCommand: ${result.error.issues.map((e) => e.message).join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type {TransferReversal} from '../../domain/model/TransferReversal';
+import type {ReverseTransferCommand} from './ReverseTransferCommand';
+
+/**
+ * 送金の取り消しユースケースのインターフェース（入力ポート）
+ */
+export interface ReverseTransferUseCase {
+    /**
+     * 送金を取り消す（送金元と送金先を入れ替えた同じ金額のアクティビティを記録する）
+     *
+     * 元のアクティビティは残したまま、取り消しのアクティビティから元のアクティビティにリンクする。
+     * 同じ送金は2回取り消せない
+     *
+     * @param command 取り消しコマンド
+     * @returns 取り消しの記録
+     * @throws TransferNotFoundException 送金が存在しない場合
+     * @throws TransferAlreadyReversedException 送金が取り消し済みの場合
+     * @throws InvalidTransferReversalException 送金のアクティビティが出金と入金の組になっていない場合
+     * @throws AccountNotActiveException 関係するアカウントが凍結中または解約済みの場合
+     * @throws InsufficientBalanceException 送金先の残高が足りない場合（force の場合はチェックしない）
+     * @throws AccountLockTimeoutException ロックを時間内に取得できなかった場合
+     */
+    reverseTransfer(command: ReverseTransferCommand): Promise<TransferReversal>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ReverseTransferUseCaseToken = Symbol('ReverseTransferUseCase');
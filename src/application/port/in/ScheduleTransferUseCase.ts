@@ -0,0 +1,29 @@
+import type {ScheduledTransfer} from '../../domain/model/ScheduledTransfer';
+import type {SendMoneyCommand} from './SendMoneyCommand';
+
+/**
+ * 送金の予約ユースケースのインターフェース（入力ポート）
+ */
+export interface ScheduleTransferUseCase {
+    /**
+     * 指定した日時に実行する送金を予約する
+     *
+     * 残高・限度額などの送金のルールは実行時に判定する（予約の時点では判定しない）
+     *
+     * @param command 送金コマンド（見積もりは実行日時までに期限が切れるため、quoteId は指定できない。
+     *                参照情報・メモは保存しないため、remittance も指定できない）
+     * @param executeAt 実行日時（現在より後）
+     * @returns 予約した送金（PENDING）
+     * @throws AccountNotFoundException 送金元・送金先のアカウントが存在しない場合（side 付き）
+     * @throws SameAccountTransferException 送金元と送金先が同じ場合
+     * @throws ExecutionTimeNotInFutureException 実行日時が現在以前の場合
+     * @throws QuoteNotAllowedForScheduledTransferException quoteId を指定した場合
+     * @throws RemittanceNotAllowedForScheduledTransferException 参照情報・メモを指定した場合
+     */
+    scheduleTransfer(command: SendMoneyCommand, executeAt: Date): Promise<ScheduledTransfer>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ScheduleTransferUseCaseToken = Symbol('ScheduleTransferUseCase');
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { AccountId } from '../../domain/model/Activity';
 import { Money } from '../../domain/model/Money';
+import { RemittanceInformation } from '../../domain/model/RemittanceInformation';
+import { TransferId } from '../../domain/model/Transfer';
 
 /**
  * 送金コマンドのバリデーションスキーマ
@@ -19,6 +21,13 @@ const SendMoneyCommandSchema = z.object({
       .refine((money) => money.isPositive(), {
         message: 'money must be positive',
       }),
+  quoteId: z.string().min(1, 'quoteId must not be empty').nullable(),
+  remittance: z.custom<RemittanceInformation>((val) => val instanceof RemittanceInformation, {
+    message: 'remittance must be a RemittanceInformation instance',
+  }).nullable(),
+  transferId: z.custom<TransferId>((val) => val instanceof TransferId, {
+    message: 'transferId must be a TransferId instance',
+  }).nullable(),
 });
 
 /**
@@ -33,13 +42,25 @@ export class SendMoneyCommand {
   constructor(
       public readonly sourceAccountId: AccountId,
       public readonly targetAccountId: AccountId,
-      public readonly money: Money
+      public readonly money: Money,
+      /** 為替レートの見積もりID（通貨をまたぐ送金で、見積もりのレートを使う場合に指定） */
+      public readonly quoteId: string | null = null,
+      /** 送金の参照情報とメモ（指定がなければ null） */
+      public readonly remittance: RemittanceInformation | null = null,
+      /**
+       * 送金に使う送金ID（null なら送金のときに採番する）
+       * 予約送金・定期送金の実行で、送金したかどうかを後から確かめられるように、事前に採番して渡す
+       */
+      public readonly transferId: TransferId | null = null
   ) {
     // データ構造の妥当性を検証
     const result = SendMoneyCommandSchema.safeParse({
       sourceAccountId,
       targetAccountId,
       money,
+      quoteId,
+      remittance,
+      transferId,
     });
 
     if (!result.success) {
@@ -1,3 +1,4 @@
+import type {Transfer} from '../../domain/model/Transfer';
 import type {SendMoneyCommand} from './SendMoneyCommand';
 
 /**
@@ -13,9 +14,9 @@ export interface SendMoneyUseCase {
      * 送金を実行
      *
      * @param command 送金コマンド
-     * @returns 送金が成功したかどうか
+     * @returns 送金の記録（送金ID・送金額・手数料・引き落とし合計・入金額）
      */
-    sendMoney(command: SendMoneyCommand): Promise<void>;
+    sendMoney(command: SendMoneyCommand): Promise<Transfer>;
 }
 
 /**
@@ -0,0 +1,13 @@
+import type {Activity} from '../../domain/model/Activity';
+import type {Transfer} from '../../domain/model/Transfer';
+
+/**
+ * 送金と、送金にひも付くアクティビティ（読み取り専用モデル）
+ */
+export interface TransferView {
+    /** 送金の記録 */
+    transfer: Transfer;
+
+    /** 送金にひも付くアクティビティ（送金元の出金・送金先の入金・手数料。ID の昇順） */
+    activities: Activity[];
+}
@@ -1,23 +1,83 @@
 import type { AccountId } from '../../domain/model/Activity';
 
+/**
+ * ロック取得時に発行されるトークン
+ *
+ * 解放時に同じトークンを渡すことで、
+ * 「自分が取得したロックだけを解放する」ことを保証する
+ * （タイムアウトで他の処理に奪われたロックを誤って解放しない）
+ */
+export type LockToken = string;
+
+/**
+ * ロック取得のオプション
+ */
+export interface AccountLockOptions {
+  /**
+   * ロックを取得できるまで待つ最大時間（ミリ秒）
+   * 省略時は DEFAULT_LOCK_TIMEOUT_MS
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * ロック取得の待ち時間のデフォルト値（ミリ秒）
+ */
+export const DEFAULT_LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * ロックのリース期間（ミリ秒）
+ *
+ * 分散ロックでは、ロックを取得した Worker が解放せずに落ちても、この時間が経てば他の処理が取得できる。
+ * 取得・延長した時点から、少なくともこの時間はロックが保持される。
+ */
+export const LOCK_LEASE_MS = 30_000;
+
+/**
+ * ロックを保持している間、リースを延長する間隔（ミリ秒）
+ *
+ * 一括送金のように処理がリース期間より長くかかっても、ロックが期限切れで他の処理に奪われないようにする。
+ * 延長の呼び出しが1回遅れても期限が切れないように、リース期間より十分に短くする。
+ */
+export const LOCK_RENEWAL_INTERVAL_MS = LOCK_LEASE_MS / 3;
+
 /**
  * アカウントのロック/アンロックを行う出力ポート
  * 並行処理時の競合を防ぐために使用
+ *
+ * 実装は非同期：
+ * - 分散ロック（Durable Object 等）では、ロックの取得にネットワーク越しの待ちが発生する
+ * - 既に他の処理がロックしている場合は、解放されるかタイムアウトするまで待つ
  */
 export interface AccountLock {
   /**
    * アカウントをロック
-   * 
+   *
    * @param accountId ロックするアカウントのID
+   * @param options タイムアウトなどのオプション
+   * @returns 解放時に使用するロックトークン
+   * @throws AccountLockTimeoutException タイムアウトまでにロックを取得できなかった場合
    */
-  lockAccount(accountId: AccountId): void;
+  lockAccount(accountId: AccountId, options?: AccountLockOptions): Promise<LockToken>;
 
   /**
    * アカウントのロックを解放
-   * 
+   *
+   * トークンが現在のロックと一致しない場合（既に解放済み等）は何もしない
+   *
    * @param accountId アンロックするアカウントのID
+   * @param token lockAccount で発行されたトークン
+   */
+  releaseAccount(accountId: AccountId, token: LockToken): Promise<void>;
+
+  /**
+   * 保持しているロックのリースを延長する（延長した時点から LOCK_LEASE_MS）
+   *
+   * @param accountId ロックしているアカウントのID
+   * @param token lockAccount で発行されたトークン
+   * @returns 延長できた場合は true（リース切れで他の処理に奪われていた場合などは false）
    */
-  releaseAccount(accountId: AccountId): void;
+  renewAccount(accountId: AccountId, token: LockToken): Promise<boolean>;
 }
 
 /**
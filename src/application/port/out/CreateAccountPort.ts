@@ -0,0 +1,30 @@
+import type {Account} from '../../domain/model/Account';
+import type {AccountId} from '../../domain/model/Activity';
+
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+//     ↓ 依存
+// ドメイン層のエンティティ（application/domain/model）
+
+/**
+ * アカウントを新規作成するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface CreateAccountPort {
+    /**
+     * IDを持たないアカウントを保存し、採番されたIDを返す
+     *
+     * @param account 保存するアカウント（Account.withoutId で作成したもの）
+     * @returns 採番されたアカウントID
+     */
+    createAccount(account: Account): Promise<AccountId>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const CreateAccountPortToken = Symbol('CreateAccountPort');
@@ -0,0 +1,26 @@
+import type {Currency} from '../../domain/model/Currency';
+import type {ExchangeRate} from '../../domain/model/ExchangeRate';
+
+/**
+ * 為替レートを取得するための出力ポート
+ *
+ * 実装は差し替え可能：
+ * - 固定のレート表（開発・テスト用）
+ * - 外部の為替レートAPI（HTTP）
+ */
+export interface ExchangeRatePort {
+    /**
+     * 現在の為替レートを取得
+     *
+     * @param from 換算元の通貨
+     * @param to 換算先の通貨
+     * @returns from 通貨 1単位あたりの to 通貨のレート
+     * @throws ExchangeRateUnavailableException レートを取得できなかった場合
+     */
+    getRate(from: Currency, to: Currency): Promise<ExchangeRate>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ExchangeRatePortToken = Symbol('ExchangeRatePort');
@@ -0,0 +1,29 @@
+import type {ExchangeRateQuote} from '../../domain/model/ExchangeRateQuote';
+
+/**
+ * 為替レートの見積もりを永続化するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface ExchangeRateQuotePort {
+    /**
+     * 見積もりを保存する
+     *
+     * @param quote 保存する見積もり
+     */
+    saveQuote(quote: ExchangeRateQuote): Promise<void>;
+
+    /**
+     * 見積もりを読み込む
+     *
+     * 有効期限の判定は呼び出し側（アプリケーションサービス）で行う
+     *
+     * @param quoteId 見積もりのID
+     * @returns 見積もり（存在しない場合は null）
+     */
+    loadQuote(quoteId: string): Promise<ExchangeRateQuote | null>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ExchangeRateQuotePortToken = Symbol('ExchangeRateQuotePort');
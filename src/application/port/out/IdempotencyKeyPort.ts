@@ -0,0 +1,86 @@
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+
+/**
+ * 保存されたレスポンス
+ * リトライ時にそのまま再送するため、ステータスコードとボディを保持する
+ */
+export interface IdempotentResponse {
+    statusCode: number;
+    body: unknown;
+}
+
+/**
+ * 冪等性キーのレコード
+ */
+export interface IdempotencyRecord {
+    /** クライアントが指定した冪等性キー */
+    key: string;
+
+    /** リクエスト内容のフィンガープリント（同じキーで別の内容が送られていないかの判定に使う） */
+    requestFingerprint: string;
+
+    /** 保存されたレスポンス（処理中の場合は null） */
+    response: IdempotentResponse | null;
+
+    /** キーを最初に予約した日時 */
+    createdAt: Date;
+
+    /** 処理中の予約を最後に取得した日時（放置された予約を引き継ぐと更新される） */
+    reservedAt: Date;
+}
+
+/**
+ * 冪等性キーを永続化するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface IdempotencyKeyPort {
+    /**
+     * 冪等性キーを予約する
+     *
+     * キーがまだ存在しなければ「処理中」として登録し null を返す。
+     * 既に存在する場合は登録せず、既存のレコードを返す。
+     * この判定はアトミックに行われなければならない（同時リクエスト対策）。
+     *
+     * @param key 冪等性キー
+     * @param requestFingerprint リクエスト内容のフィンガープリント
+     * @returns 既存のレコード（新規に予約できた場合は null）
+     */
+    reserveKey(key: string, requestFingerprint: string): Promise<IdempotencyRecord | null>;
+
+    /**
+     * 処理中のまま放置された予約を引き継ぐ
+     *
+     * レスポンスが未保存で、予約日時が staleBefore より前の場合のみ、予約日時を現在時刻に更新して true を返す。
+     * この判定と更新はアトミックに行われなければならない（同時に引き継げるのは1リクエストだけ）。
+     *
+     * @param key 冪等性キー
+     * @param staleBefore この日時より前に予約されたものを放置された予約とみなす
+     * @returns 引き継げた場合は true
+     */
+    reclaimKey(key: string, staleBefore: Date): Promise<boolean>;
+
+    /**
+     * 処理結果のレスポンスを保存する
+     *
+     * @param key 予約済みの冪等性キー
+     * @param response 保存するレスポンス
+     */
+    saveResponse(key: string, response: IdempotentResponse): Promise<void>;
+
+    /**
+     * 予約を取り消す（リトライ可能なエラーで処理が中断した場合に使用）
+     *
+     * @param key 予約済みの冪等性キー
+     */
+    releaseKey(key: string): Promise<void>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const IdempotencyKeyPortToken = Symbol('IdempotencyKeyPort');
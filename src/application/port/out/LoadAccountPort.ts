@@ -22,6 +22,7 @@ export interface LoadAccountPort {
      * @param accountId ロードするアカウントのID
      * @param baselineDate 基準日（この日付以降のアクティビティをロード）
      * @returns アカウントエンティティ
+     * @throws AccountNotFoundException アカウントが存在しない場合
      */
     loadAccount(accountId: AccountId, baselineDate: Date): Promise<Account>;
 }
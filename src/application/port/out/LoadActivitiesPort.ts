@@ -0,0 +1,73 @@
+import type {AccountId, Activity, ActivityDirection, ActivityId} from '../../domain/model/Activity';
+
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+
+/**
+ * ページングの位置を表すカーソル
+ *
+ * アクティビティは (timestamp, id) の降順で並ぶため、
+ * 前ページの最後の要素の timestamp と id を保持すれば次ページを一意に特定できる
+ */
+export interface ActivityCursor {
+    timestamp: Date;
+    activityId: ActivityId;
+}
+
+/**
+ * アクティビティの検索条件
+ */
+export interface ActivitySearchCriteria {
+    /** アクティビティの所有者アカウント */
+    accountId: AccountId;
+
+    /** この日時以降のアクティビティ（含む） */
+    from?: Date;
+
+    /** この日時より前のアクティビティ（含まない） */
+    to?: Date;
+
+    /** 絞り込む向き（未指定または空の場合はすべて） */
+    directions?: readonly ActivityDirection[];
+
+    /** 前ページの続きから取得する場合のカーソル */
+    cursor?: ActivityCursor;
+
+    /** 1ページあたりの最大件数 */
+    limit: number;
+}
+
+/**
+ * 検索結果の1ページ分
+ */
+export interface ActivitySlice {
+    /** (timestamp, id) の降順に並んだアクティビティ */
+    activities: Activity[];
+
+    /** 次ページのカーソル（次ページがない場合は null） */
+    nextCursor: ActivityCursor | null;
+}
+
+/**
+ * アクティビティ履歴を読み込むための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface LoadActivitiesPort {
+    /**
+     * 条件に一致するアクティビティを新しい順に1ページ分読み込む
+     *
+     * @param criteria 検索条件
+     * @returns アクティビティと次ページのカーソル
+     * @throws AccountNotFoundException アカウントが存在しない場合
+     */
+    loadActivities(criteria: ActivitySearchCriteria): Promise<ActivitySlice>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const LoadActivitiesPortToken = Symbol('LoadActivitiesPort');
@@ -0,0 +1,29 @@
+import type {Activity} from '../../domain/model/Activity';
+import type {Transfer, TransferId} from '../../domain/model/Transfer';
+
+/**
+ * 送金の記録と、送金にひも付くアクティビティを読み込むための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface LoadTransferPort {
+    /**
+     * 送金の記録を読み込む
+     *
+     * @returns 送金の記録（存在しない場合は null）
+     */
+    loadTransfer(transferId: TransferId): Promise<Transfer | null>;
+
+    /**
+     * 送金にひも付くアクティビティ（送金元の出金・送金先の入金・手数料）を読み込む
+     *
+     * 取り消しのアクティビティは送金にひも付かないため含まれない
+     *
+     * @returns アクティビティ（ID の昇順）
+     */
+    loadTransferActivities(transferId: TransferId): Promise<Activity[]>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const LoadTransferPortToken = Symbol('LoadTransferPort');
@@ -0,0 +1,51 @@
+import type {Account} from '../../domain/model/Account';
+import type {Transfer} from '../../domain/model/Transfer';
+
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+
+/**
+ * 送金結果をアトミックに永続化するための出力ポート
+ * 永続化アダプターが実装する
+ *
+ * 【UpdateAccountStatePort との違い】
+ * UpdateAccountStatePort はアカウントごとに保存するため、
+ * 2回目の保存が失敗すると「出金だけ記録されて入金がない」状態が残りうる。
+ * このポートは、関係するすべてのアカウントの新規アクティビティを
+ * 1つのトランザクションで保存する（全部成功するか、何も保存されないか）。
+ * 送金の記録（Transfer）も同じトランザクションで保存する。
+ */
+export interface PersistTransferPort {
+    /**
+     * 送金の記録と、送金に関係するアカウントの新規アクティビティをまとめて保存
+     *
+     * 新たに出金が発生したアカウントについては、保存と同じトランザクション内で
+     * 残高を再チェックする（並行する送金によって残高が不足した場合に備える）
+     *
+     * @param transfer 送金の記録（新規アクティビティは、この送金のIDを持つ）
+     * @param accounts 送金に関係するアカウント（送金元・送金先など）
+     * @throws InsufficientBalanceException 再チェックで残高が不足していた場合（何も保存されない）
+     */
+    persistTransfer(transfer: Transfer, accounts: readonly Account[]): Promise<void>;
+
+    /**
+     * 複数の送金の記録と、送金に関係するアカウントの新規アクティビティを1つのトランザクションでまとめて保存
+     * （一括送金の ALL_OR_NOTHING 用。全部の送金が保存されるか、何も保存されないか）
+     *
+     * 残高の再チェックは persistTransfer と同じく、すべての送金を反映した後の残高で行う
+     *
+     * @param transfers 送金の記録（新規アクティビティは、いずれかの送金のIDを持つ）
+     * @param accounts 送金に関係するアカウント（同じアカウントは1回だけ渡す）
+     * @throws InsufficientBalanceException 再チェックで残高が不足していた場合（何も保存されない）
+     */
+    persistTransfers(transfers: readonly Transfer[], accounts: readonly Account[]): Promise<void>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const PersistTransferPortToken = Symbol('PersistTransferPort');
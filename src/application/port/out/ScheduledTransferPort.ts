@@ -0,0 +1,72 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {ScheduledTransfer} from '../../domain/model/ScheduledTransfer';
+import type {ScheduledTransferStatus} from '../../domain/model/ScheduledTransferStatus';
+
+/**
+ * 予約送金を永続化するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface ScheduledTransferPort {
+    /**
+     * 新しい予約送金を保存する
+     *
+     * @param scheduledTransfer 保存する予約送金（PENDING）
+     */
+    saveScheduledTransfer(scheduledTransfer: ScheduledTransfer): Promise<void>;
+
+    /**
+     * 予約送金を読み込む
+     *
+     * @param scheduledTransferId 予約送金のID
+     * @returns 予約送金（存在しない場合は null）
+     */
+    loadScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer | null>;
+
+    /**
+     * 送金元のアカウントの予約送金を、実行日時の昇順で読み込む
+     *
+     * @param sourceAccountId 送金元のアカウントID
+     * @param status 絞り込む状態（null ならすべて）
+     */
+    loadScheduledTransfers(
+        sourceAccountId: AccountId,
+        status: ScheduledTransferStatus | null
+    ): Promise<ScheduledTransfer[]>;
+
+    /**
+     * 実行日時を過ぎた PENDING の予約送金を、実行日時の昇順で読み込む
+     *
+     * @param now 基準の時刻
+     * @param limit 最大件数
+     */
+    loadDueScheduledTransfers(now: Date, limit: number): Promise<ScheduledTransfer[]>;
+
+    /**
+     * 実行を開始した時刻が startedBefore より前の PROCESSING の予約送金を、実行を開始した時刻の昇順で読み込む
+     * （実行中にワーカーが落ちて、PROCESSING のまま残った予約）
+     *
+     * @param startedBefore この時刻より前に実行を開始したものが対象
+     * @param limit 最大件数
+     */
+    loadStaleProcessingScheduledTransfers(startedBefore: Date, limit: number): Promise<ScheduledTransfer[]>;
+
+    /**
+     * 予約送金の状態を保存する
+     *
+     * 保存されている状態が expectedStatus のときだけ更新する
+     * （スケジューラーの実行と取り消しが同時に起きても、片方だけが成功する）
+     *
+     * @param scheduledTransfer 状態を変更した予約送金
+     * @param expectedStatus 変更前の状態
+     * @returns 更新できた場合は true（他の処理が先に状態を変えていた場合は false）
+     */
+    updateScheduledTransfer(
+        scheduledTransfer: ScheduledTransfer,
+        expectedStatus: ScheduledTransferStatus
+    ): Promise<boolean>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const ScheduledTransferPortToken = Symbol('ScheduledTransferPort');
@@ -0,0 +1,80 @@
+import type {AccountId} from '../../domain/model/Activity';
+import type {StandingOrder} from '../../domain/model/StandingOrder';
+import type {StandingOrderRun} from '../../domain/model/StandingOrderRun';
+import type {StandingOrderStatus} from '../../domain/model/StandingOrderStatus';
+
+/**
+ * 定期送金と、その実行記録を永続化するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface StandingOrderPort {
+    /**
+     * 新しい定期送金を保存する
+     *
+     * @param standingOrder 保存する定期送金（ACTIVE）
+     */
+    saveStandingOrder(standingOrder: StandingOrder): Promise<void>;
+
+    /**
+     * 定期送金を読み込む
+     *
+     * @param standingOrderId 定期送金のID
+     * @returns 定期送金（存在しない場合は null）
+     */
+    loadStandingOrder(standingOrderId: string): Promise<StandingOrder | null>;
+
+    /**
+     * 送金元のアカウントの定期送金を、作成した順に読み込む
+     *
+     * @param sourceAccountId 送金元のアカウントID
+     * @param status 絞り込む状態（null ならすべて）
+     */
+    loadStandingOrders(sourceAccountId: AccountId, status: StandingOrderStatus | null): Promise<StandingOrder[]>;
+
+    /**
+     * 次の実行時刻を過ぎた ACTIVE の定期送金を、次の実行時刻の昇順で読み込む
+     *
+     * @param now 基準の時刻
+     * @param limit 最大件数
+     */
+    loadDueStandingOrders(now: Date, limit: number): Promise<StandingOrder[]>;
+
+    /**
+     * 実行を開始した時刻が startedBefore より前の RUNNING の定期送金を、実行を開始した時刻の昇順で読み込む
+     * （実行中にワーカーが落ちて、RUNNING のまま残った定期送金）
+     *
+     * @param startedBefore この時刻より前に実行を開始したものが対象
+     * @param limit 最大件数
+     */
+    loadStaleRunningStandingOrders(startedBefore: Date, limit: number): Promise<StandingOrder[]>;
+
+    /**
+     * 定期送金の状態（次の実行時刻・失敗の回数などを含む）を保存する
+     *
+     * 保存されている状態が expectedStatus のときだけ更新する
+     * （スケジューラーの実行と停止・取り消しが同時に起きても、片方だけが成功する）
+     *
+     * @param standingOrder 状態を変更した定期送金
+     * @param expectedStatus 変更前の状態
+     * @returns 更新できた場合は true（他の処理が先に状態を変えていた場合は false）
+     */
+    updateStandingOrder(standingOrder: StandingOrder, expectedStatus: StandingOrderStatus): Promise<boolean>;
+
+    /**
+     * 実行記録を保存する
+     */
+    saveStandingOrderRun(run: StandingOrderRun): Promise<void>;
+
+    /**
+     * 定期送金の実行記録を、新しい順に読み込む
+     *
+     * @param standingOrderId 定期送金のID
+     * @param limit 最大件数
+     */
+    loadStandingOrderRuns(standingOrderId: string, limit: number): Promise<StandingOrderRun[]>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const StandingOrderPortToken = Symbol('StandingOrderPort');
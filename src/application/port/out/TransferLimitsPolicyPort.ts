@@ -0,0 +1,22 @@
+import type {AccountTier} from '../../domain/model/AccountTier';
+import type {TransferLimits} from '../../domain/model/TransferLimits';
+
+/**
+ * アカウントの区分ごとの送金限度額を取得するための出力ポート
+ *
+ * 限度額の表をどこに持つか（設定・DB・外部サービス）はアダプターが決める
+ */
+export interface TransferLimitsPolicyPort {
+    /**
+     * アカウントの区分に適用する送金限度額を取得
+     *
+     * @param tier アカウントの区分
+     * @returns 送金限度額（金額はすべて基準通貨）
+     */
+    getTransferLimits(tier: AccountTier): Promise<TransferLimits>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const TransferLimitsPolicyPortToken = Symbol('TransferLimitsPolicyPort');
@@ -0,0 +1,27 @@
+import type {Account} from '../../domain/model/Account';
+import type {TransferReversal} from '../../domain/model/TransferReversal';
+
+/**
+ * 送金の取り消しのための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface TransferReversalPort {
+    /**
+     * 取り消しのアクティビティと取り消しの記録をまとめて保存し、送金を取り消し済み（REVERSED）にする
+     *
+     * PersistTransferPort と同じく「全部保存するか、何も保存しないか」。
+     * 取り消しで出金が発生したアカウントは、保存と同じトランザクション内で残高を再チェックする
+     * （管理者が強制した取り消しではチェックしない）
+     *
+     * @param reversal 取り消しの記録
+     * @param accounts 取り消しのアクティビティを追加したアカウント
+     * @throws TransferAlreadyReversedException 並行する取り消しが先に保存されていた場合（何も保存されない）
+     * @throws InsufficientBalanceException 再チェックで残高が不足していた場合（何も保存されない）
+     */
+    persistReversal(reversal: TransferReversal, accounts: readonly Account[]): Promise<void>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const TransferReversalPortToken = Symbol('TransferReversalPort');
@@ -0,0 +1,28 @@
+import type {Account} from '../../domain/model/Account';
+
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+//     ↓ 依存
+// ドメイン層のエンティティ（application/domain/model）
+
+/**
+ * アカウントの当座貸越の限度額を保存するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface UpdateAccountOverdraftLimitPort {
+    /**
+     * アカウントの現在の当座貸越の限度額をDBに保存
+     *
+     * @param account 当座貸越の限度額を変更したアカウント
+     */
+    updateAccountOverdraftLimit(account: Account): Promise<void>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const UpdateAccountOverdraftLimitPortToken = Symbol('UpdateAccountOverdraftLimitPort');
@@ -0,0 +1,28 @@
+import type {Account} from '../../domain/model/Account';
+
+// 依存関係の向き(永続化層がアプリケーション層に依存する)
+// 永続化層（adapter/out/persistence）
+//     ↓ 依存(実装)
+// アプリケーション層のポート（application/port/out）(ここ)
+//     ↑ 依存
+// アプリケーション層のサービス（application/service）
+//     ↓ 依存
+// ドメイン層のエンティティ（application/domain/model）
+
+/**
+ * アカウントの状態（ACTIVE / FROZEN / CLOSED）を保存するための出力ポート
+ * 永続化アダプターが実装する
+ */
+export interface UpdateAccountStatusPort {
+    /**
+     * アカウントの現在の状態をDBに保存
+     *
+     * @param account 状態を変更したアカウント
+     */
+    updateAccountStatus(account: Account): Promise<void>;
+}
+
+/**
+ * DI用のシンボル
+ */
+export const UpdateAccountStatusPortToken = Symbol('UpdateAccountStatusPort');
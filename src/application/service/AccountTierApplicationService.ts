@@ -0,0 +1,63 @@
+import {inject, injectable} from 'tsyringe';
+import type {Account} from '../domain/model/Account';
+import type {AccountTier} from '../domain/model/AccountTier';
+import type {AccountId} from '../domain/model/Activity';
+import type {AccountTierView} from '../port/in/AccountTierView';
+import type {ChangeAccountTierUseCase} from '../port/in/ChangeAccountTierUseCase';
+import type {GetAccountTierQuery} from '../port/in/GetAccountTierQuery';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {TransferLimitsPolicyPort, TransferLimitsPolicyPortToken} from '../port/out/TransferLimitsPolicyPort';
+import {UpdateAccountTierPort, UpdateAccountTierPortToken} from '../port/out/UpdateAccountTierPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
+
+/**
+ * アカウント区分アプリケーションサービス
+ *
+ * 役割: アカウントの区分の照会・変更（管理者向け）
+ * - 区分の変更は送金と同じアカウントロックを取得してから行う
+ *   （送金の途中で限度額が変わらないようにするため）
+ * - 区分ごとの限度額は TransferLimitsPolicyPort から取得する
+ */
+@injectable()
+export class AccountTierApplicationService implements GetAccountTierQuery, ChangeAccountTierUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(UpdateAccountTierPortToken)
+        private readonly updateAccountTierPort: UpdateAccountTierPort,
+        @inject(TransferLimitsPolicyPortToken)
+        private readonly transferLimitsPolicyPort: TransferLimitsPolicyPort,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker
+    ) {
+    }
+
+    async getAccountTier(accountId: AccountId): Promise<AccountTierView> {
+        // 区分の照会だけなので、アクティビティは読み込まない（基準日 = 現在）
+        const account = await this.loadAccountPort.loadAccount(accountId, new Date());
+
+        return this.toView(accountId, account);
+    }
+
+    async changeAccountTier(accountId: AccountId, tier: AccountTier): Promise<AccountTierView> {
+        return this.accountLocker.withLocks([accountId], async () => {
+            const account = await this.loadAccountPort.loadAccount(accountId, new Date());
+
+            account.changeTier(tier);
+
+            await this.updateAccountTierPort.updateAccountTier(account);
+
+            return this.toView(accountId, account);
+        });
+    }
+
+    private async toView(accountId: AccountId, account: Account): Promise<AccountTierView> {
+        const tier = account.getTier();
+
+        return {
+            accountId,
+            tier,
+            limits: await this.transferLimitsPolicyPort.getTransferLimits(tier),
+        };
+    }
+}
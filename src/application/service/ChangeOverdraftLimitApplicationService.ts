@@ -0,0 +1,51 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../domain/model/Activity';
+import type {Money} from '../domain/model/Money';
+import type {AccountOverdraftView} from '../port/in/AccountOverdraftView';
+import type {ChangeOverdraftLimitUseCase} from '../port/in/ChangeOverdraftLimitUseCase';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {
+    UpdateAccountOverdraftLimitPort,
+    UpdateAccountOverdraftLimitPortToken
+} from '../port/out/UpdateAccountOverdraftLimitPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
+
+/**
+ * 当座貸越の限度額変更アプリケーションサービス
+ *
+ * 役割: 当座貸越の限度額の変更（管理者向け）
+ * - 送金と同じアカウントロックを取得してから変更する
+ *   （送金の残高チェックの途中で限度額が変わらないようにするため）
+ * - 通貨の検証はドメインモデル（Account.changeOverdraftLimit）に委譲する
+ */
+@injectable()
+export class ChangeOverdraftLimitApplicationService implements ChangeOverdraftLimitUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(UpdateAccountOverdraftLimitPortToken)
+        private readonly updateAccountOverdraftLimitPort: UpdateAccountOverdraftLimitPort,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker
+    ) {
+    }
+
+    async changeOverdraftLimit(accountId: AccountId, overdraftLimit: Money): Promise<AccountOverdraftView> {
+        return this.accountLocker.withLocks([accountId], async () => {
+            // 残高だけが必要なので、アクティビティはすべてベースライン残高に集約する（基準日 = 現在）
+            const account = await this.loadAccountPort.loadAccount(accountId, new Date());
+
+            account.changeOverdraftLimit(overdraftLimit);
+
+            await this.updateAccountOverdraftLimitPort.updateAccountOverdraftLimit(account);
+
+            return {
+                accountId,
+                overdraftLimit: account.getOverdraftLimit(),
+                overdraftUsage: account.calculateOverdraftUsage(),
+                balance: account.calculateBalance(),
+                availableBalance: account.calculateAvailableBalance(),
+            };
+        });
+    }
+}
@@ -0,0 +1,45 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../domain/model/Activity';
+import type {AccountStatusView} from '../port/in/AccountStatusView';
+import type {CloseAccountUseCase} from '../port/in/CloseAccountUseCase';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {UpdateAccountStatusPort, UpdateAccountStatusPortToken} from '../port/out/UpdateAccountStatusPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
+
+/**
+ * アカウント解約アプリケーションサービス
+ *
+ * 役割: アカウント解約ユースケースの実装（ACTIVE / FROZEN → CLOSED）
+ * - 送金と同じアカウントロックを取得してから状態を変更する
+ *   （送金の途中で状態が変わらないようにするため）
+ * - 状態遷移のルールはドメインモデル（Account.close）に委譲する
+ */
+@injectable()
+export class CloseAccountApplicationService implements CloseAccountUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(UpdateAccountStatusPortToken)
+        private readonly updateAccountStatusPort: UpdateAccountStatusPort,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker
+    ) {
+    }
+
+    async closeAccount(accountId: AccountId): Promise<AccountStatusView> {
+        return this.accountLocker.withLocks([accountId], async () => {
+            // 状態の変更だけなので、アクティビティは読み込まない（基準日 = 現在）
+            const account = await this.loadAccountPort.loadAccount(accountId, new Date());
+
+            account.close();
+
+            await this.updateAccountStatusPort.updateAccountStatus(account);
+
+            return {
+                accountId,
+                status: account.getStatus(),
+                currency: account.getCurrency(),
+            };
+        });
+    }
+}
@@ -0,0 +1,36 @@
+import {inject, injectable} from 'tsyringe';
+import {Account} from '../domain/model/Account';
+import {ActivityWindow} from '../domain/model/ActivityWindow';
+import type {Currency} from '../domain/model/Currency';
+import {Money} from '../domain/model/Money';
+import type {AccountStatusView} from '../port/in/AccountStatusView';
+import type {CreateAccountUseCase} from '../port/in/CreateAccountUseCase';
+import {CreateAccountPort, CreateAccountPortToken} from '../port/out/CreateAccountPort';
+
+/**
+ * アカウント開設アプリケーションサービス
+ *
+ * 役割: アカウント開設ユースケースの実装
+ * - 残高0・アクティビティなし・ACTIVE のアカウントをドメインモデルとして作る
+ * - IDの採番は永続化アダプター（CreateAccountPort）に任せる
+ */
+@injectable()
+export class CreateAccountApplicationService implements CreateAccountUseCase {
+    constructor(
+        @inject(CreateAccountPortToken)
+        private readonly createAccountPort: CreateAccountPort
+    ) {
+    }
+
+    async createAccount(currency: Currency): Promise<AccountStatusView> {
+        const account = Account.withoutId(Money.zero(currency), new ActivityWindow());
+
+        const accountId = await this.createAccountPort.createAccount(account);
+
+        return {
+            accountId,
+            status: account.getStatus(),
+            currency: account.getCurrency(),
+        };
+    }
+}
@@ -0,0 +1,42 @@
+import {inject, injectable} from 'tsyringe';
+import type {Currency} from '../domain/model/Currency';
+import {ExchangeRateQuote} from '../domain/model/ExchangeRateQuote';
+import type {CreateExchangeRateQuoteUseCase} from '../port/in/CreateExchangeRateQuoteUseCase';
+import {EXCHANGE_RATE_QUOTE_TTL_MS} from '../port/in/CreateExchangeRateQuoteUseCase';
+import {ExchangeRatePort, ExchangeRatePortToken} from '../port/out/ExchangeRatePort';
+import {ExchangeRateQuotePort, ExchangeRateQuotePortToken} from '../port/out/ExchangeRateQuotePort';
+
+/**
+ * 為替レートの見積もりアプリケーションサービス
+ *
+ * 役割: 見積もりユースケースの実装
+ * - ExchangeRatePort から現在のレートを取得する
+ * - 有効期限を付けて ExchangeRateQuotePort に保存する
+ * - 見積もりの利用（期限・通貨ペアの確認）は送金ユースケース側で行う
+ */
+@injectable()
+export class CreateExchangeRateQuoteApplicationService implements CreateExchangeRateQuoteUseCase {
+    constructor(
+        @inject(ExchangeRatePortToken)
+        private readonly exchangeRatePort: ExchangeRatePort,
+        @inject(ExchangeRateQuotePortToken)
+        private readonly exchangeRateQuotePort: ExchangeRateQuotePort
+    ) {
+    }
+
+    async createQuote(from: Currency, to: Currency): Promise<ExchangeRateQuote> {
+        const rate = await this.exchangeRatePort.getRate(from, to);
+
+        const createdAt = new Date();
+        const quote = new ExchangeRateQuote(
+            crypto.randomUUID(),
+            rate,
+            createdAt,
+            new Date(createdAt.getTime() + EXCHANGE_RATE_QUOTE_TTL_MS)
+        );
+
+        await this.exchangeRateQuotePort.saveQuote(quote);
+
+        return quote;
+    }
+}
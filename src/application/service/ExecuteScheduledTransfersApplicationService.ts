@@ -0,0 +1,178 @@
+import {inject, injectable} from 'tsyringe';
+import {DomainException} from '../domain/exception/DomainException';
+import type {ScheduledTransfer} from '../domain/model/ScheduledTransfer';
+import {TransferId} from '../domain/model/Transfer';
+import {toTransferFailure} from '../domain/model/TransferFailure';
+import type {ExecuteScheduledTransfersUseCase, ScheduledTransfersRunResult} from '../port/in/ExecuteScheduledTransfersUseCase';
+import {SendMoneyCommand} from '../port/in/SendMoneyCommand';
+import {SendMoneyUseCase, SendMoneyUseCaseToken} from '../port/in/SendMoneyUseCase';
+import {LoadTransferPort, LoadTransferPortToken} from '../port/out/LoadTransferPort';
+import {ScheduledTransferPort, ScheduledTransferPortToken} from '../port/out/ScheduledTransferPort';
+
+/**
+ * 1回の実行で処理する予約送金の上限
+ * （Workers の実行時間の制限に収めるため。残りは次回の実行で処理する）
+ */
+const MAX_TRANSFERS_PER_RUN = 50;
+
+/**
+ * 実行を開始してからこの時間が過ぎても PROCESSING のままの予約は、実行中にワーカーが落ちたとみなす（ミリ秒）
+ *
+ * Cron Trigger の実行時間の上限（15分）より長くする
+ * （まだ実行中のワーカーが送金を保存する前に、送金していないと判定しないようにするため）
+ */
+export const PROCESSING_TIMEOUT_MS = 15 * 60_000;
+
+/**
+ * 予約送金の実行アプリケーションサービス
+ *
+ * 役割: 実行日時を過ぎた予約送金の実行
+ * - 送金そのものは送金ユースケース（SendMoneyUseCase）に委譲する
+ *   （残高・限度額・手数料・ロックは即時の送金と同じ）
+ * - 実行前に PROCESSING にしてから送金する（取り消しと同時に成功しないようにするため）
+ * - 送金の失敗は例外として投げず、理由とともに FAILED として記録する
+ *   （ロックの競合・データベースの障害など一時的な理由の場合は PENDING に戻し、次回の実行で再試行する）
+ * - PROCESSING のまま残った予約は、採番しておいた送金IDの送金があるかどうかで EXECUTED か FAILED にする
+ */
+@injectable()
+export class ExecuteScheduledTransfersApplicationService implements ExecuteScheduledTransfersUseCase {
+    constructor(
+        @inject(ScheduledTransferPortToken)
+        private readonly scheduledTransferPort: ScheduledTransferPort,
+        @inject(SendMoneyUseCaseToken)
+        private readonly sendMoneyUseCase: SendMoneyUseCase,
+        @inject(LoadTransferPortToken)
+        private readonly loadTransferPort: LoadTransferPort
+    ) {
+    }
+
+    async executeDueTransfers(now: Date): Promise<ScheduledTransfersRunResult> {
+        const result: ScheduledTransfersRunResult = {executed: 0, failed: 0, retried: 0, skipped: 0, errored: 0};
+
+        // 1. 実行中にワーカーが落ちて PROCESSING のまま残った予約を片付ける
+        const staleTransfers = await this.scheduledTransferPort.loadStaleProcessingScheduledTransfers(
+            new Date(now.getTime() - PROCESSING_TIMEOUT_MS),
+            MAX_TRANSFERS_PER_RUN
+        );
+        for (const scheduledTransfer of staleTransfers) {
+            result[await this.runSafely(scheduledTransfer, () => this.recover(scheduledTransfer))]++;
+        }
+
+        // 2. 実行日時を過ぎた予約を実行する
+        // 同じアカウントの予約は実行日時の順に送金したいので、1件ずつ順番に実行する
+        const dueTransfers = await this.scheduledTransferPort.loadDueScheduledTransfers(now, MAX_TRANSFERS_PER_RUN);
+        for (const scheduledTransfer of dueTransfers) {
+            result[await this.runSafely(scheduledTransfer, () => this.execute(scheduledTransfer))]++;
+        }
+
+        return result;
+    }
+
+    /**
+     * 1件の処理で投げられた例外（状態の保存の失敗など）を記録して、残りの予約の処理を続ける
+     *
+     * 途中で止まった予約は PENDING か PROCESSING のまま残り、次回以降の実行で処理される
+     */
+    private async runSafely(
+        scheduledTransfer: ScheduledTransfer,
+        run: () => Promise<keyof ScheduledTransfersRunResult>
+    ): Promise<keyof ScheduledTransfersRunResult> {
+        try {
+            return await run();
+        } catch (error) {
+            console.error(`Failed to process scheduled transfer ${scheduledTransfer.id}:`, error);
+            return 'errored';
+        }
+    }
+
+    private async execute(scheduledTransfer: ScheduledTransfer): Promise<keyof ScheduledTransfersRunResult> {
+        // 1. 送金IDを採番して PROCESSING にする（取り消しが先に成功していたら実行しない）
+        // 再試行の場合は前回と同じ送金IDを使う（前回の送金が保存されていたら、二重に保存されずに失敗する）
+        const transferId = scheduledTransfer.getTransferId() ?? new TransferId(crypto.randomUUID());
+        scheduledTransfer.startProcessing(transferId, new Date());
+        if (!await this.scheduledTransferPort.updateScheduledTransfer(scheduledTransfer, 'PENDING')) {
+            return 'skipped';
+        }
+
+        // 2. 即時の送金と同じルールで、採番した送金IDを使って送金する
+        let outcome: 'executed' | 'failed' | 'retried';
+        try {
+            await this.sendMoneyUseCase.sendMoney(new SendMoneyCommand(
+                scheduledTransfer.sourceAccountId,
+                scheduledTransfer.targetAccountId,
+                scheduledTransfer.money,
+                null,
+                null,
+                transferId
+            ));
+            scheduledTransfer.markExecuted(new Date());
+            outcome = 'executed';
+        } catch (error) {
+            outcome = await this.handleSendFailure(scheduledTransfer, transferId, error);
+        }
+
+        // 3. 結果を記録する
+        await this.scheduledTransferPort.updateScheduledTransfer(scheduledTransfer, 'PROCESSING');
+
+        return outcome;
+    }
+
+    /**
+     * 送金ユースケースが投げた例外に応じて、予約の状態を変える
+     *
+     * - 送金を保存した後に例外が投げられた（応答の読み取りに失敗したなど）場合は、送金済みなので EXECUTED にする
+     * - 一時的な理由（ロックの競合・為替レートの取得失敗・データベースの障害など）の場合は、PENDING に戻して次回の実行で再試行する
+     * - ビジネスルールで送金できなかった場合は、理由とともに FAILED にする
+     */
+    private async handleSendFailure(
+        scheduledTransfer: ScheduledTransfer,
+        transferId: TransferId,
+        error: unknown
+    ): Promise<'executed' | 'failed' | 'retried'> {
+        const transfer = await this.loadTransferPort.loadTransfer(transferId);
+        if (transfer) {
+            scheduledTransfer.markExecuted(transfer.createdAt);
+            return 'executed';
+        }
+
+        if (!(error instanceof DomainException) || error.retryable) {
+            console.warn(`Scheduled transfer ${scheduledTransfer.id} will be retried:`, error);
+            scheduledTransfer.returnToPending();
+            return 'retried';
+        }
+
+        scheduledTransfer.markFailed(toTransferFailure(error), new Date());
+        return 'failed';
+    }
+
+    /**
+     * PROCESSING のまま残った予約を、送金したかどうかに応じて EXECUTED か FAILED にする
+     *
+     * 送金と送金の記録は1つのトランザクションで保存されるため、
+     * 採番しておいた送金IDの記録があれば送金済み、なければ送金していない
+     * （送金していない予約は、実行日時から時間が経っているため再実行せず FAILED にする）
+     */
+    private async recover(scheduledTransfer: ScheduledTransfer): Promise<keyof ScheduledTransfersRunResult> {
+        const transferId = scheduledTransfer.getTransferId();
+        const transfer = transferId !== null ? await this.loadTransferPort.loadTransfer(transferId) : null;
+
+        let outcome: 'executed' | 'failed';
+        if (transfer) {
+            scheduledTransfer.markExecuted(transfer.createdAt);
+            outcome = 'executed';
+        } else {
+            scheduledTransfer.markFailed({
+                reason: 'ProcessingTimeout',
+                message: `Processing did not complete within ${(PROCESSING_TIMEOUT_MS / 60_000).toString()} minutes`,
+            }, new Date());
+            outcome = 'failed';
+        }
+
+        // 同時に動いた別の実行が先に記録していたら、何もしない
+        if (!await this.scheduledTransferPort.updateScheduledTransfer(scheduledTransfer, 'PROCESSING')) {
+            return 'skipped';
+        }
+
+        return outcome;
+    }
+}
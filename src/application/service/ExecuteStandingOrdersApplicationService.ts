@@ -0,0 +1,170 @@
+import {inject, injectable} from 'tsyringe';
+import type {StandingOrder} from '../domain/model/StandingOrder';
+import {StandingOrderRetryPolicy, StandingOrderRetryPolicyToken} from '../domain/model/StandingOrderRetryPolicy';
+import type {StandingOrderRun} from '../domain/model/StandingOrderRun';
+import {TransferId} from '../domain/model/Transfer';
+import {toTransferFailure} from '../domain/model/TransferFailure';
+import type {ExecuteStandingOrdersUseCase, StandingOrdersRunResult} from '../port/in/ExecuteStandingOrdersUseCase';
+import {SendMoneyCommand} from '../port/in/SendMoneyCommand';
+import {SendMoneyUseCase, SendMoneyUseCaseToken} from '../port/in/SendMoneyUseCase';
+import {LoadTransferPort, LoadTransferPortToken} from '../port/out/LoadTransferPort';
+import {StandingOrderPort, StandingOrderPortToken} from '../port/out/StandingOrderPort';
+
+/**
+ * 1回の実行で処理する定期送金の上限
+ * （Workers の実行時間の制限に収めるため。残りは次回の実行で処理する）
+ */
+const MAX_STANDING_ORDERS_PER_RUN = 50;
+
+/**
+ * 実行を開始してからこの時間が過ぎても RUNNING のままの定期送金は、実行中にワーカーが落ちたとみなす（ミリ秒）
+ *
+ * 予約送金の PROCESSING_TIMEOUT_MS と同じく、Cron Trigger の実行時間の上限（15分）より長くする
+ */
+export const RUN_TIMEOUT_MS = 15 * 60_000;
+
+type StandingOrderOutcome = 'executed' | 'failed' | 'skipped' | 'errored';
+
+/**
+ * 定期送金の実行アプリケーションサービス
+ *
+ * 役割: 次の実行時刻を過ぎた定期送金の実行
+ * - 送金そのものは送金ユースケース（SendMoneyUseCase）に委譲する
+ *   （残高・限度額・手数料・ロックは即時の送金と同じ）
+ * - 実行前に RUNNING にしてから送金する（停止・取り消しと同時に成功しないようにするため）
+ * - 成功・失敗にかかわらず実行記録を残す。失敗した場合の再試行・自動停止は StandingOrderRetryPolicy に従う
+ * - RUNNING のまま残った定期送金は、採番しておいた送金IDの送金があるかどうかで成功か失敗として記録する
+ */
+@injectable()
+export class ExecuteStandingOrdersApplicationService implements ExecuteStandingOrdersUseCase {
+    constructor(
+        @inject(StandingOrderPortToken)
+        private readonly standingOrderPort: StandingOrderPort,
+        @inject(SendMoneyUseCaseToken)
+        private readonly sendMoneyUseCase: SendMoneyUseCase,
+        @inject(StandingOrderRetryPolicyToken)
+        private readonly retryPolicy: StandingOrderRetryPolicy,
+        @inject(LoadTransferPortToken)
+        private readonly loadTransferPort: LoadTransferPort
+    ) {
+    }
+
+    async executeDueStandingOrders(now: Date): Promise<StandingOrdersRunResult> {
+        const result: StandingOrdersRunResult = {executed: 0, failed: 0, paused: 0, skipped: 0, errored: 0};
+        const count = (standingOrder: StandingOrder, outcome: StandingOrderOutcome): void => {
+            result[outcome]++;
+            if (outcome === 'failed' && standingOrder.getStatus() === 'PAUSED') {
+                result.paused++;
+            }
+        };
+
+        // 1. 実行中にワーカーが落ちて RUNNING のまま残った定期送金を片付ける
+        const staleOrders = await this.standingOrderPort.loadStaleRunningStandingOrders(
+            new Date(now.getTime() - RUN_TIMEOUT_MS),
+            MAX_STANDING_ORDERS_PER_RUN
+        );
+        for (const standingOrder of staleOrders) {
+            count(standingOrder, await this.runSafely(standingOrder, () => this.recover(standingOrder)));
+        }
+
+        // 2. 次の実行時刻を過ぎた定期送金を実行する
+        // 同じアカウントの定期送金は実行時刻の順に送金したいので、1件ずつ順番に実行する
+        const dueOrders = await this.standingOrderPort.loadDueStandingOrders(now, MAX_STANDING_ORDERS_PER_RUN);
+        for (const standingOrder of dueOrders) {
+            count(standingOrder, await this.runSafely(standingOrder, () => this.execute(standingOrder)));
+        }
+
+        return result;
+    }
+
+    /**
+     * 1件の処理で投げられた例外（状態の保存の失敗など）を記録して、残りの定期送金の処理を続ける
+     *
+     * 途中で止まった定期送金は ACTIVE か RUNNING のまま残り、次回以降の実行で処理される
+     */
+    private async runSafely(
+        standingOrder: StandingOrder,
+        run: () => Promise<StandingOrderOutcome>
+    ): Promise<StandingOrderOutcome> {
+        try {
+            return await run();
+        } catch (error) {
+            console.error(`Failed to process standing order ${standingOrder.id}:`, error);
+            return 'errored';
+        }
+    }
+
+    private async execute(standingOrder: StandingOrder): Promise<StandingOrderOutcome> {
+        // 1. 送金IDを採番して RUNNING にする（停止・取り消しが先に成功していたら実行しない）
+        const transferId = new TransferId(crypto.randomUUID());
+        standingOrder.startRun(transferId, new Date());
+        if (!await this.standingOrderPort.updateStandingOrder(standingOrder, 'ACTIVE')) {
+            return 'skipped';
+        }
+
+        // 2. 即時の送金と同じルールで、採番した送金IDを使って送金する
+        let run: StandingOrderRun;
+        try {
+            await this.sendMoneyUseCase.sendMoney(new SendMoneyCommand(
+                standingOrder.sourceAccountId,
+                standingOrder.targetAccountId,
+                standingOrder.money,
+                null,
+                null,
+                transferId
+            ));
+            run = standingOrder.recordSuccess(crypto.randomUUID(), new Date());
+        } catch (error) {
+            run = standingOrder.recordFailure(
+                crypto.randomUUID(),
+                toTransferFailure(error),
+                new Date(),
+                this.retryPolicy
+            );
+        }
+
+        // 3. 次の実行時刻・失敗の回数と、実行記録を保存する
+        return this.saveResult(standingOrder, run);
+    }
+
+    /**
+     * RUNNING のまま残った定期送金を、送金したかどうかに応じて成功か失敗として記録する
+     *
+     * 送金と送金の記録は1つのトランザクションで保存されるため、
+     * 採番しておいた送金IDの記録があれば送金済み、なければ送金していない
+     * （送金していない場合は、送金の失敗と同じく再試行・自動停止のルールに従う）
+     */
+    private async recover(standingOrder: StandingOrder): Promise<StandingOrderOutcome> {
+        const transferId = standingOrder.getRunTransferId();
+        const transfer = transferId !== null ? await this.loadTransferPort.loadTransfer(transferId) : null;
+
+        const run = transfer
+            ? standingOrder.recordSuccess(crypto.randomUUID(), new Date())
+            : standingOrder.recordFailure(
+                crypto.randomUUID(),
+                {
+                    reason: 'ProcessingTimeout',
+                    message: `Run did not complete within ${(RUN_TIMEOUT_MS / 60_000).toString()} minutes`,
+                },
+                new Date(),
+                this.retryPolicy
+            );
+
+        return this.saveResult(standingOrder, run);
+    }
+
+    /**
+     * RUNNING から変えた状態を保存し、保存できた場合だけ実行記録を保存する
+     *
+     * 状態を先に保存するため、実行記録の保存に失敗しても RUNNING のまま残らない
+     * （同時に動いた別の実行が先に記録していた場合は、実行記録を二重に残さない）
+     */
+    private async saveResult(standingOrder: StandingOrder, run: StandingOrderRun): Promise<StandingOrderOutcome> {
+        if (!await this.standingOrderPort.updateStandingOrder(standingOrder, 'RUNNING')) {
+            return 'skipped';
+        }
+        await this.standingOrderPort.saveStandingOrderRun(run);
+
+        return run.outcome === 'SUCCEEDED' ? 'executed' : 'failed';
+    }
+}
@@ -0,0 +1,45 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../domain/model/Activity';
+import type {AccountStatusView} from '../port/in/AccountStatusView';
+import type {FreezeAccountUseCase} from '../port/in/FreezeAccountUseCase';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {UpdateAccountStatusPort, UpdateAccountStatusPortToken} from '../port/out/UpdateAccountStatusPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
+
+/**
+ * アカウント凍結アプリケーションサービス
+ *
+ * 役割: アカウント凍結ユースケースの実装（ACTIVE → FROZEN）
+ * - 送金と同じアカウントロックを取得してから状態を変更する
+ *   （送金の途中で状態が変わらないようにするため）
+ * - 状態遷移のルールはドメインモデル（Account.freeze）に委譲する
+ */
+@injectable()
+export class FreezeAccountApplicationService implements FreezeAccountUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(UpdateAccountStatusPortToken)
+        private readonly updateAccountStatusPort: UpdateAccountStatusPort,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker
+    ) {
+    }
+
+    async freezeAccount(accountId: AccountId): Promise<AccountStatusView> {
+        return this.accountLocker.withLocks([accountId], async () => {
+            // 状態の変更だけなので、アクティビティは読み込まない（基準日 = 現在）
+            const account = await this.loadAccountPort.loadAccount(accountId, new Date());
+
+            account.freeze();
+
+            await this.updateAccountStatusPort.updateAccountStatus(account);
+
+            return {
+                accountId,
+                status: account.getStatus(),
+                currency: account.getCurrency(),
+            };
+        });
+    }
+}
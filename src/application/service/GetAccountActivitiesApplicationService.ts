@@ -0,0 +1,55 @@
+import {inject, injectable} from 'tsyringe';
+import {
+    AccountActivitiesPage,
+    AccountActivitiesRequest,
+    DEFAULT_ACTIVITIES_PAGE_SIZE,
+    GetAccountActivitiesQuery,
+    MAX_ACTIVITIES_PAGE_SIZE,
+} from '../port/in/GetAccountActivitiesQuery';
+import {LoadActivitiesPort, LoadActivitiesPortToken} from '../port/out/LoadActivitiesPort';
+
+/**
+ * アクティビティ履歴照会アプリケーションサービス
+ *
+ * 役割: 履歴照会クエリの実装
+ * - ページサイズを許容範囲に収める
+ * - 検索そのもの（アカウントの存在確認を含む）は LoadActivitiesPort に委譲する
+ * - 各アクティビティの向きはドメインモデル（Activity.getDirectionFor）で判定する
+ */
+@injectable()
+export class GetAccountActivitiesApplicationService implements GetAccountActivitiesQuery {
+    constructor(
+        @inject(LoadActivitiesPortToken)
+        private readonly loadActivitiesPort: LoadActivitiesPort
+    ) {
+    }
+
+    async getAccountActivities(request: AccountActivitiesRequest): Promise<AccountActivitiesPage> {
+        if (request.from && request.to && request.from >= request.to) {
+            throw new Error('from must be earlier than to');
+        }
+
+        const limit = Math.min(
+            Math.max(request.limit ?? DEFAULT_ACTIVITIES_PAGE_SIZE, 1),
+            MAX_ACTIVITIES_PAGE_SIZE
+        );
+
+        const slice = await this.loadActivitiesPort.loadActivities({
+            accountId: request.accountId,
+            from: request.from,
+            to: request.to,
+            directions: request.directions,
+            cursor: request.cursor,
+            limit,
+        });
+
+        return {
+            accountId: request.accountId,
+            entries: slice.activities.map((activity) => ({
+                activity,
+                direction: activity.getDirectionFor(request.accountId),
+            })),
+            nextCursor: slice.nextCursor,
+        };
+    }
+}
@@ -0,0 +1,42 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountId} from '../domain/model/Activity';
+import type {AccountBalance, GetAccountBalanceQuery} from '../port/in/GetAccountBalanceQuery';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+
+/**
+ * 残高照会アプリケーションサービス
+ *
+ * 役割: 残高照会クエリの実装
+ * - LoadAccountPort でアカウントを読み込む
+ * - 残高・当座貸越の計算はドメインモデル（Account）に委譲する
+ * - 状態を変更しないため、ロックや永続化は行わない
+ */
+@injectable()
+export class GetAccountBalanceApplicationService implements GetAccountBalanceQuery {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort
+    ) {
+    }
+
+    async getAccountBalance(accountId: AccountId): Promise<AccountBalance> {
+        // 送金ユースケースと同じく、直近10日分のアクティビティをウィンドウとして読み込む
+        // （それ以前のアクティビティはベースライン残高に集約される）
+        const asOf = new Date();
+        const baselineDate = new Date(asOf);
+        baselineDate.setDate(baselineDate.getDate() - 10);
+
+        const account = await this.loadAccountPort.loadAccount(accountId, baselineDate);
+
+        return {
+            accountId,
+            balance: account.calculateBalance(),
+            overdraftLimit: account.getOverdraftLimit(),
+            overdraftUsage: account.calculateOverdraftUsage(),
+            availableBalance: account.calculateAvailableBalance(),
+            baselineBalance: account.getBaselineBalance(),
+            baselineDate,
+            asOf,
+        };
+    }
+}
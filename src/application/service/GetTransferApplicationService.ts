@@ -0,0 +1,31 @@
+import {inject, injectable} from 'tsyringe';
+import {TransferNotFoundException} from '../domain/exception/TransferNotFoundException';
+import type {TransferId} from '../domain/model/Transfer';
+import type {GetTransferQuery} from '../port/in/GetTransferQuery';
+import type {TransferView} from '../port/in/TransferView';
+import {LoadTransferPort, LoadTransferPortToken} from '../port/out/LoadTransferPort';
+
+/**
+ * 送金の照会アプリケーションサービス
+ *
+ * 役割: 送金IDから、送金の記録と送金にひも付くアクティビティを取得する
+ */
+@injectable()
+export class GetTransferApplicationService implements GetTransferQuery {
+    constructor(
+        @inject(LoadTransferPortToken)
+        private readonly loadTransferPort: LoadTransferPort
+    ) {
+    }
+
+    async getTransfer(transferId: TransferId): Promise<TransferView> {
+        const transfer = await this.loadTransferPort.loadTransfer(transferId);
+        if (!transfer) {
+            throw new TransferNotFoundException(transferId);
+        }
+
+        const activities = await this.loadTransferPort.loadTransferActivities(transferId);
+
+        return {transfer, activities};
+    }
+}
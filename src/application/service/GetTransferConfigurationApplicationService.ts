@@ -0,0 +1,40 @@
+import {inject, injectable} from 'tsyringe';
+import type {AccountTier} from '../domain/model/AccountTier';
+import {ACCOUNT_TIERS} from '../domain/model/AccountTier';
+import type {TransferLimits} from '../domain/model/TransferLimits';
+import {MoneyTransferProperties, MoneyTransferPropertiesToken} from '../domain/service/MoneyTransferProperties';
+import type {GetTransferConfigurationQuery, TransferConfiguration} from '../port/in/GetTransferConfigurationQuery';
+import {TransferLimitsPolicyPort, TransferLimitsPolicyPortToken} from '../port/out/TransferLimitsPolicyPort';
+
+/**
+ * 送金設定の照会アプリケーションサービス
+ *
+ * 役割: 送金ユースケースと同じ MoneyTransferProperties・TransferLimitsPolicyPort から
+ * 実際に適用される設定を集める（設定の読み込み元とずれないようにするため）
+ */
+@injectable()
+export class GetTransferConfigurationApplicationService implements GetTransferConfigurationQuery {
+    constructor(
+        @inject(MoneyTransferPropertiesToken)
+        private readonly moneyTransferProperties: MoneyTransferProperties,
+        @inject(TransferLimitsPolicyPortToken)
+        private readonly transferLimitsPolicyPort: TransferLimitsPolicyPort
+    ) {
+    }
+
+    async getTransferConfiguration(): Promise<TransferConfiguration> {
+        const entries = await Promise.all(
+            ACCOUNT_TIERS.map(async (tier) =>
+                [tier, await this.transferLimitsPolicyPort.getTransferLimits(tier)] as const
+            )
+        );
+        const {baseCurrency, feePolicy, feeRevenueAccountId} = this.moneyTransferProperties;
+
+        return {
+            baseCurrency,
+            limitsByTier: Object.fromEntries(entries) as Record<AccountTier, TransferLimits>,
+            feeCharged: !feePolicy.isFree(),
+            feeRevenueAccountId,
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import {inject, injectable} from 'tsyringe';
+import {IdempotencyKeyInProgressException} from '../domain/exception/IdempotencyKeyInProgressException';
+import {IdempotencyKeyReusedException} from '../domain/exception/IdempotencyKeyReusedException';
+import {
+    IDEMPOTENCY_RESERVATION_TIMEOUT_MS,
+    IdempotentRequestUseCase,
+    IdempotentResult,
+} from '../port/in/IdempotentRequestUseCase';
+import {IdempotencyKeyPort, IdempotencyKeyPortToken, IdempotentResponse} from '../port/out/IdempotencyKeyPort';
+
+/**
+ * 冪等なリクエスト実行のアプリケーションサービス
+ *
+ * 処理の流れ：
+ * 1. キーを予約する（既に存在すれば既存レコードを取得）
+ * 2. 既存レコードがあれば、内容の一致を確認して保存済みレスポンスを返す
+ *    （処理中のまま有効期限を過ぎた予約は引き継ぐ）
+ * 3. 新規予約できた（または引き継げた）場合のみ処理を実行し、レスポンスを保存する
+ *
+ * 【5xxレスポンスを保存しない理由】
+ * インフラ障害などの一時的なエラーは、リトライで成功する可能性がある。
+ * 保存してしまうと、リトライしても永遠に同じエラーが返ってしまう。
+ */
+@injectable()
+export class IdempotentRequestApplicationService implements IdempotentRequestUseCase {
+    constructor(
+        @inject(IdempotencyKeyPortToken)
+        private readonly idempotencyKeyPort: IdempotencyKeyPort
+    ) {
+    }
+
+    async execute(
+        key: string,
+        requestFingerprint: string,
+        handler: () => Promise<IdempotentResponse>
+    ): Promise<IdempotentResult> {
+        // 1. キーを予約する
+        const existing = await this.idempotencyKeyPort.reserveKey(key, requestFingerprint);
+
+        // 2. 既に使われているキーの場合
+        if (existing) {
+            if (existing.requestFingerprint !== requestFingerprint) {
+                throw new IdempotencyKeyReusedException(key);
+            }
+
+            if (existing.response) {
+                return {response: existing.response, replayed: true};
+            }
+
+            // 処理中の予約。有効期限を過ぎていれば、初回の処理が落ちたものとみなして引き継ぐ
+            const staleBefore = new Date(Date.now() - IDEMPOTENCY_RESERVATION_TIMEOUT_MS);
+            if (existing.reservedAt >= staleBefore
+                || !(await this.idempotencyKeyPort.reclaimKey(key, staleBefore))) {
+                throw new IdempotencyKeyInProgressException(key);
+            }
+        }
+
+        // 3. 初回のリクエストなので処理を実行する
+        let response: IdempotentResponse;
+        try {
+            response = await handler();
+        } catch (error) {
+            await this.idempotencyKeyPort.releaseKey(key);
+            throw error;
+        }
+
+        if (response.statusCode >= 500) {
+            await this.idempotencyKeyPort.releaseKey(key);
+        } else {
+            await this.idempotencyKeyPort.saveResponse(key, response);
+        }
+
+        return {response, replayed: false};
+    }
+}
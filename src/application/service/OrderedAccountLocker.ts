@@ -0,0 +1,167 @@
+import {inject, injectable} from 'tsyringe';
+import {AccountLockTimeoutException} from '../domain/exception/AccountLockTimeoutException';
+import type {AccountId} from '../domain/model/Activity';
+import type {AccountLockOptions, LockToken} from '../port/out/AccountLock';
+import {AccountLock, AccountLockToken, DEFAULT_LOCK_TIMEOUT_MS, LOCK_RENEWAL_INTERVAL_MS} from '../port/out/AccountLock';
+
+/**
+ * 取得済みのロックの組
+ */
+export interface AcquiredAccountLocks {
+    /**
+     * ロックを取得したアカウントID（取得した順番）
+     */
+    readonly accountIds: readonly AccountId[];
+
+    /**
+     * すべてのロックを取得と逆の順番で解放する
+     */
+    release(): Promise<void>;
+}
+
+/**
+ * 複数アカウントのロックをデッドロックなしで取得するためのヘルパー
+ *
+ * 【なぜ必要か】
+ * A→B の送金が「A→B」の順、B→A の送金が「B→A」の順でロックすると、
+ * 互いに相手が持っているロックを待ち続けてしまう（デッドロック）。
+ *
+ * 【どう防ぐか】
+ * - ロックする順番を AccountId の昇順に固定する（どの処理も同じ順番で取得する）
+ * - すべてのロックを1つの期限（デッドライン）内で取得する
+ * - 途中で失敗したら、取得済みのロックを逆順で解放してから例外を投げる
+ *
+ * 【長い処理】
+ * 一括送金のように処理がロックのリース期間より長くかかっても他の処理にロックを奪われないように、
+ * 解放するまで LOCK_RENEWAL_INTERVAL_MS ごとにすべてのロックのリースを延長する
+ *
+ * 複数のアカウントをロックするユースケースは、AccountLock を直接使わずにこのクラスを使うこと
+ */
+@injectable()
+export class OrderedAccountLocker {
+    constructor(
+        @inject(AccountLockToken)
+        private readonly accountLock: AccountLock
+    ) {
+    }
+
+    /**
+     * 複数のアカウントのロックを順番に取得する
+     *
+     * 同じアカウントIDが複数含まれていても、ロックは1回だけ取得する
+     *
+     * @param accountIds ロックするアカウントのID（順不同）
+     * @param options timeoutMs はすべてのロックを取得するまでの合計の待ち時間
+     * @returns 取得済みのロック（処理が終わったら必ず release すること）
+     * @throws AccountLockTimeoutException 期限内にすべてのロックを取得できなかった場合
+     */
+    async lockAll(
+        accountIds: readonly AccountId[],
+        options: AccountLockOptions = {}
+    ): Promise<AcquiredAccountLocks> {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+        const deadline = Date.now() + timeoutMs;
+        const acquired: { accountId: AccountId; token: LockToken }[] = [];
+
+        try {
+            for (const accountId of toLockOrder(accountIds)) {
+                const remaining = deadline - Date.now();
+                if (remaining <= 0) {
+                    throw new AccountLockTimeoutException(accountId, timeoutMs);
+                }
+
+                const token = await this.accountLock.lockAccount(accountId, {timeoutMs: remaining});
+                acquired.push({accountId, token});
+            }
+        } catch (error) {
+            await this.releaseInReverse(acquired);
+            throw error;
+        }
+
+        const renewal = setInterval(() => {
+            void this.renewAll(acquired);
+        }, LOCK_RENEWAL_INTERVAL_MS);
+
+        return {
+            accountIds: acquired.map(({accountId}) => accountId),
+            release: () => {
+                clearInterval(renewal);
+                return this.releaseInReverse(acquired);
+            },
+        };
+    }
+
+    /**
+     * ロックを取得してから処理を実行し、終わったら（失敗しても）ロックを解放する
+     *
+     * @param accountIds ロックするアカウントのID（順不同）
+     * @param action ロック中に実行する処理
+     * @param options ロック取得のオプション
+     * @returns action の戻り値
+     */
+    async withLocks<T>(
+        accountIds: readonly AccountId[],
+        action: () => Promise<T>,
+        options: AccountLockOptions = {}
+    ): Promise<T> {
+        const locks = await this.lockAll(accountIds, options);
+        try {
+            return await action();
+        } finally {
+            await locks.release();
+        }
+    }
+
+    /**
+     * 取得済みのすべてのロックのリースを延長する
+     *
+     * 延長できなかったロックは記録するだけで、処理は止めない
+     * （残高は保存するトランザクションの中でも再チェックされる）
+     */
+    private async renewAll(
+        acquired: readonly { accountId: AccountId; token: LockToken }[]
+    ): Promise<void> {
+        await Promise.all(acquired.map(async ({accountId, token}) => {
+            try {
+                if (!await this.accountLock.renewAccount(accountId, token)) {
+                    console.error(`Lost lock for account ${accountId.toString()} before release`);
+                }
+            } catch (error) {
+                console.error(`Failed to renew lock for account ${accountId.toString()}:`, error);
+            }
+        }));
+    }
+
+    /**
+     * 取得と逆の順番でロックを解放する
+     *
+     * 1つの解放に失敗しても、残りのロックは解放を試みる
+     * （解放できなかったロックは、実装側のリース期限で自然に解放される）
+     */
+    private async releaseInReverse(
+        acquired: readonly { accountId: AccountId; token: LockToken }[]
+    ): Promise<void> {
+        for (const {accountId, token} of [...acquired].reverse()) {
+            try {
+                await this.accountLock.releaseAccount(accountId, token);
+            } catch (error) {
+                console.error(`Failed to release lock for account ${accountId.toString()}:`, error);
+            }
+        }
+    }
+}
+
+/**
+ * ロックを取得する順番（AccountId の昇順、重複なし）に並べ替える
+ */
+function toLockOrder(accountIds: readonly AccountId[]): AccountId[] {
+    const unique = new Map<bigint, AccountId>();
+    for (const accountId of accountIds) {
+        unique.set(accountId.getValue(), accountId);
+    }
+
+    return [...unique.values()].sort((a, b) => {
+        const diff = a.getValue() - b.getValue();
+        return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+    });
+}
@@ -0,0 +1,88 @@
+import {inject, injectable} from 'tsyringe';
+import {TransferNotFoundException} from '../domain/exception/TransferNotFoundException';
+import type {AccountId} from '../domain/model/Activity';
+import {TransferReversal} from '../domain/model/TransferReversal';
+import {ReverseTransferDomainService} from '../domain/service/ReverseTransferDomainService';
+import type {ReverseTransferCommand} from '../port/in/ReverseTransferCommand';
+import type {ReverseTransferUseCase} from '../port/in/ReverseTransferUseCase';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {LoadTransferPort, LoadTransferPortToken} from '../port/out/LoadTransferPort';
+import {TransferReversalPort, TransferReversalPortToken} from '../port/out/TransferReversalPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
+
+/**
+ * 送金の取り消しアプリケーションサービス
+ *
+ * 役割: 送金の取り消しユースケースの実装
+ * - 送金と、送金にひも付くアクティビティを読み込み、関係するアカウントのロックを取得する
+ * - 取り消しのルール（取り消し済みか・組になっているか・残高など）はドメインサービスに委譲する
+ * - 取り消しのアクティビティと監査用の記録をまとめて保存する
+ */
+@injectable()
+export class ReverseTransferApplicationService implements ReverseTransferUseCase {
+    constructor(
+        @inject(ReverseTransferDomainService)
+        private readonly domainService: ReverseTransferDomainService,
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(LoadTransferPortToken)
+        private readonly loadTransferPort: LoadTransferPort,
+        @inject(TransferReversalPortToken)
+        private readonly transferReversalPort: TransferReversalPort,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker
+    ) {
+    }
+
+    async reverseTransfer(command: ReverseTransferCommand): Promise<TransferReversal> {
+        // 1. 送金にひも付く元のアクティビティを読み込む（アクティビティは変更されないので、ロックの前に読み込める）
+        if (!await this.loadTransferPort.loadTransfer(command.transferId)) {
+            throw new TransferNotFoundException(command.transferId);
+        }
+        const originals = await this.loadTransferPort.loadTransferActivities(command.transferId);
+
+        // 2. 元のアクティビティを所有するアカウント（送金元・送金先・手数料を入金したアカウント）をロックする
+        const ownerAccountIds = originals.map((activity) => activity.getOwnerAccountId());
+
+        return this.accountLocker.withLocks(ownerAccountIds, async () => {
+            // 3. 送金の状態（取り消し済みかどうか）は、ロックを取得してから読み込み直す
+            const transfer = await this.loadTransferPort.loadTransfer(command.transferId);
+            if (!transfer) {
+                throw new TransferNotFoundException(command.transferId);
+            }
+
+            // 4. 残高の計算だけなので、アクティビティは読み込まない（基準日 = 現在）
+            const now = new Date();
+            const accounts = await Promise.all(
+                uniqueAccountIds(ownerAccountIds).map((accountId) => this.loadAccountPort.loadAccount(accountId, now))
+            );
+
+            // 5. ビジネスルールを適用して、取り消しのアクティビティを追加する（例外が throw される）
+            this.domainService.reverseTransfer(transfer, originals, accounts, command.force);
+
+            // 6. 取り消しのアクティビティと記録をアトミックに保存する
+            const reversal = new TransferReversal(
+                crypto.randomUUID(),
+                transfer.id,
+                originals.flatMap((activity) => activity.getId() ?? []),
+                command.reason.trim(),
+                command.force,
+                now
+            );
+            await this.transferReversalPort.persistReversal(reversal, accounts);
+
+            return reversal;
+        });
+    }
+}
+
+/**
+ * 重複を除いたアカウントID
+ */
+function uniqueAccountIds(accountIds: readonly AccountId[]): AccountId[] {
+    const unique = new Map<bigint, AccountId>();
+    for (const accountId of accountIds) {
+        unique.set(accountId.getValue(), accountId);
+    }
+    return [...unique.values()];
+}
@@ -0,0 +1,114 @@
+import {inject, injectable} from 'tsyringe';
+import type {TransferSide} from '../domain/exception/AccountNotFoundException';
+import {AccountNotFoundException} from '../domain/exception/AccountNotFoundException';
+import {InvalidScheduledTransferStatusTransitionException} from '../domain/exception/InvalidScheduledTransferStatusTransitionException';
+import {QuoteNotAllowedForScheduledTransferException} from '../domain/exception/QuoteNotAllowedForScheduledTransferException';
+import {RemittanceNotAllowedForScheduledTransferException} from '../domain/exception/RemittanceNotAllowedForScheduledTransferException';
+import {ScheduledTransferNotFoundException} from '../domain/exception/ScheduledTransferNotFoundException';
+import type {AccountId} from '../domain/model/Activity';
+import {ScheduledTransfer} from '../domain/model/ScheduledTransfer';
+import type {ScheduledTransferStatus} from '../domain/model/ScheduledTransferStatus';
+import type {CancelScheduledTransferUseCase} from '../port/in/CancelScheduledTransferUseCase';
+import type {GetScheduledTransfersQuery} from '../port/in/GetScheduledTransfersQuery';
+import type {ScheduleTransferUseCase} from '../port/in/ScheduleTransferUseCase';
+import type {SendMoneyCommand} from '../port/in/SendMoneyCommand';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {ScheduledTransferPort, ScheduledTransferPortToken} from '../port/out/ScheduledTransferPort';
+
+/**
+ * 予約送金アプリケーションサービス
+ *
+ * 役割: 予約送金の作成・照会・取り消し
+ * - 予約の時点では、アカウントの存在と送金元・送金先の組み合わせだけを確認する
+ *   （残高・限度額などは実行時に送金ユースケースが判定する）
+ * - 実行は ExecuteScheduledTransfersApplicationService が行う
+ */
+@injectable()
+export class ScheduledTransferApplicationService
+    implements ScheduleTransferUseCase, GetScheduledTransfersQuery, CancelScheduledTransferUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(ScheduledTransferPortToken)
+        private readonly scheduledTransferPort: ScheduledTransferPort
+    ) {
+    }
+
+    async scheduleTransfer(command: SendMoneyCommand, executeAt: Date): Promise<ScheduledTransfer> {
+        if (command.quoteId !== null) {
+            throw new QuoteNotAllowedForScheduledTransferException(command.quoteId);
+        }
+        if (command.remittance !== null) {
+            throw new RemittanceNotAllowedForScheduledTransferException();
+        }
+
+        const now = new Date();
+        const scheduledTransfer = ScheduledTransfer.schedule(
+            crypto.randomUUID(),
+            command.sourceAccountId,
+            command.targetAccountId,
+            command.money,
+            executeAt,
+            now
+        );
+
+        await this.assertAccountExists(command.sourceAccountId, 'source', now);
+        await this.assertAccountExists(command.targetAccountId, 'target', now);
+
+        await this.scheduledTransferPort.saveScheduledTransfer(scheduledTransfer);
+
+        return scheduledTransfer;
+    }
+
+    async getScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer> {
+        const scheduledTransfer = await this.scheduledTransferPort.loadScheduledTransfer(scheduledTransferId);
+        if (!scheduledTransfer) {
+            throw new ScheduledTransferNotFoundException(scheduledTransferId);
+        }
+
+        return scheduledTransfer;
+    }
+
+    getScheduledTransfers(
+        sourceAccountId: AccountId,
+        status: ScheduledTransferStatus | null
+    ): Promise<ScheduledTransfer[]> {
+        return this.scheduledTransferPort.loadScheduledTransfers(sourceAccountId, status);
+    }
+
+    async cancelScheduledTransfer(scheduledTransferId: string): Promise<ScheduledTransfer> {
+        const scheduledTransfer = await this.getScheduledTransfer(scheduledTransferId);
+
+        scheduledTransfer.cancel(new Date());
+
+        // スケジューラーが先に実行を始めていた場合は、取り消さずに現在の状態を知らせる
+        const updated = await this.scheduledTransferPort.updateScheduledTransfer(scheduledTransfer, 'PENDING');
+        if (!updated) {
+            const current = await this.getScheduledTransfer(scheduledTransferId);
+            throw new InvalidScheduledTransferStatusTransitionException(
+                scheduledTransferId,
+                current.getStatus(),
+                'CANCELLED'
+            );
+        }
+
+        return scheduledTransfer;
+    }
+
+    /**
+     * アカウントが存在することを確認する
+     *
+     * 存在しない場合は、どちらとして指定されたか（side）を付けた AccountNotFoundException を投げる
+     */
+    private async assertAccountExists(accountId: AccountId, side: TransferSide, now: Date): Promise<void> {
+        try {
+            // 存在の確認だけなので、アクティビティは読み込まない（基準日 = 現在）
+            await this.loadAccountPort.loadAccount(accountId, now);
+        } catch (error) {
+            if (error instanceof AccountNotFoundException) {
+                throw new AccountNotFoundException(accountId, side);
+            }
+            throw error;
+        }
+    }
+}
@@ -1,11 +1,27 @@
 import {inject, injectable} from 'tsyringe';
+import {AccountNotFoundException, TransferSide} from '../domain/exception/AccountNotFoundException';
+import {DomainException} from '../domain/exception/DomainException';
+import {InvalidExchangeRateQuoteException} from '../domain/exception/InvalidExchangeRateQuoteException';
+import type {Account} from '../domain/model/Account';
+import type {AccountId} from '../domain/model/Activity';
+import {CumulativeTransferLimit} from '../domain/model/CumulativeTransferLimit';
+import type {ExchangeRate} from '../domain/model/ExchangeRate';
+import {Transfer, TransferId} from '../domain/model/Transfer';
 import {MoneyTransferProperties, MoneyTransferPropertiesToken} from '../domain/service/MoneyTransferProperties';
 import {SendMoneyDomainService} from '../domain/service/SendMoneyDomainService';
+import type {TransferBreakdown, TransferExchangeRates, TransferFeeCharge} from '../domain/service/SendMoneyDomainService';
+import type {BatchSendMoneyCommand} from '../port/in/BatchSendMoneyCommand';
+import type {BatchSendMoneyUseCase} from '../port/in/BatchSendMoneyUseCase';
+import type {BatchTransferItemResult, BatchTransferResult} from '../port/in/BatchTransferResult';
+import {QuoteTransferUseCase} from '../port/in/QuoteTransferUseCase';
 import {SendMoneyCommand} from '../port/in/SendMoneyCommand';
 import {SendMoneyUseCase} from '../port/in/SendMoneyUseCase';
-import {AccountLock, AccountLockToken} from '../port/out/AccountLock';
+import {ExchangeRatePort, ExchangeRatePortToken} from '../port/out/ExchangeRatePort';
+import {ExchangeRateQuotePort, ExchangeRateQuotePortToken} from '../port/out/ExchangeRateQuotePort';
 import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
-import {UpdateAccountStatePort, UpdateAccountStatePortToken} from '../port/out/UpdateAccountStatePort';
+import {PersistTransferPort, PersistTransferPortToken} from '../port/out/PersistTransferPort';
+import {TransferLimitsPolicyPort, TransferLimitsPolicyPortToken} from '../port/out/TransferLimitsPolicyPort';
+import {OrderedAccountLocker} from './OrderedAccountLocker';
 
 /**
  * 送金アプリケーションサービス
@@ -62,7 +78,7 @@ import {UpdateAccountStatePort, UpdateAccountStatePortToken} from '../port/out/U
  * - 自動的にインスタンスを作れない
  */
 @injectable()
-export class SendMoneyApplicationService implements SendMoneyUseCase {
+export class SendMoneyApplicationService implements SendMoneyUseCase, QuoteTransferUseCase, BatchSendMoneyUseCase {
     /**
      * コンストラクタ（依存性注入の受け口）
      *
@@ -331,7 +347,11 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
         private readonly loadAccountPort: LoadAccountPort,
 
         /**
-         * 【依存3】UpdateAccountStatePort（更新ポート）
+         * 【依存3】PersistTransferPort（送金の永続化ポート）
+         *
+         * 送金元・送金先の新規アクティビティを1回の呼び出しでアトミックに保存する。
+         * （以前は UpdateAccountStatePort.updateActivities を2回呼んでいたため、
+         *   2回目で失敗すると片側だけ保存される可能性があった）
          *
          * ========================================
          * 同じインスタンスの共有：
@@ -342,13 +362,13 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * container.register(LoadAccountPortToken, {
          *   useToken: SupabaseAccountPersistenceAdapter,
          * });
-         * container.register(UpdateAccountStatePortToken, {
+         * container.register(PersistTransferPortToken, {
          *   useToken: SupabaseAccountPersistenceAdapter,
          * });
          * ```
          *
          * 結果：
-         * this.loadAccountPort === this.updateAccountStatePort // true
+         * this.loadAccountPort === this.persistTransferPort // true
          *
          * つまり、両方とも同じ SupabaseAccountPersistenceAdapter インスタンスを指している。
          *
@@ -359,7 +379,7 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * 1. 1つのアダプターが複数のポートを実装している
          *    ```typescript
          *    class SupabaseAccountPersistenceAdapter
-         *      implements LoadAccountPort, UpdateAccountStatePort {
+         *      implements LoadAccountPort, PersistTransferPort {
          *      // 両方のメソッドを実装
          *    }
          *    ```
@@ -382,11 +402,17 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          *
          * これがカプセル化の利点！
          */
-        @inject(UpdateAccountStatePortToken)
-        private readonly updateAccountStatePort: UpdateAccountStatePort,
+        @inject(PersistTransferPortToken)
+        private readonly persistTransferPort: PersistTransferPort,
 
         /**
-         * 【依存4】AccountLock（アカウントロック機構）
+         * 【依存4】OrderedAccountLocker（複数アカウントのロック）
+         *
+         * AccountLock（ポート）をラップし、複数のアカウントを
+         * AccountId の昇順で取得する。A→B と B→A の送金が同時に来ても
+         * 取得順が同じなのでデッドロックしない。
+         *
+         * 中で使う AccountLock の実装は container.ts で切り替える：
          *
          * ========================================
          * 実装の切り替え可能性：
@@ -394,23 +420,17 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          *
          * 現在の登録（container.ts）：
          * ```typescript
-         * container.register(AccountLockToken, {
-         *   useClass: NoOpAccountLock,
-         * });
+         * // ACCOUNT_LOCK バインディングがある場合
+         * container.registerSingleton(AccountLockToken, DurableObjectAccountLock);
+         *
+         * // ない場合（InMemory モードなど）
+         * container.registerSingleton(AccountLockToken, InProcessAccountLock);
          * ```
-         * → NoOpAccountLock（何もしない実装）が注入される
          *
          * 将来の拡張例：
          * ```typescript
          * // Redis を使った分散ロック
-         * container.register(AccountLockToken, {
-         *   useClass: RedisAccountLock,
-         * });
-         *
-         * // データベースロック
-         * container.register(AccountLockToken, {
-         *   useClass: DatabaseAccountLock,
-         * });
+         * container.registerSingleton(AccountLockToken, RedisAccountLock);
          * ```
          *
          * ========================================
@@ -419,19 +439,19 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          *
          * どの実装が注入されても：
          * ```typescript
-         * this.accountLock.lockAccount(accountId);
+         * const locks = await this.accountLocker.lockAll([sourceId, targetId]);
          * // ↑ このコードは変わらない
          * ```
          *
+         * - DurableObjectAccountLock: Durable Object でロック
+         * - InProcessAccountLock: プロセス内のミューテックスでロック
          * - NoOpAccountLock: 何もしない
-         * - RedisAccountLock: Redis でロック
-         * - DatabaseAccountLock: DB でロック
          *
          * 全て同じインターフェース（AccountLock）を実装しているので、
          * 使う側は実装の違いを意識する必要がない！
          */
-        @inject(AccountLockToken)
-        private readonly accountLock: AccountLock,
+        @inject(OrderedAccountLocker)
+        private readonly accountLocker: OrderedAccountLocker,
 
         /**
          * 【依存5】MoneyTransferProperties（送金設定）
@@ -442,8 +462,8 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          *
          * container.ts での登録：
          * ```typescript
-         * const transferThreshold = Money.of(1_000_000);
-         * const properties = new MoneyTransferProperties(transferThreshold);
+         * const baseCurrency = Currency.of(env.BASE_CURRENCY ?? 'JPY');
+         * const properties = new MoneyTransferProperties(baseCurrency);
          *
          * container.register(MoneyTransferPropertiesToken, {
          *   useValue: properties,  // ← 既に作成済みのインスタンス
@@ -459,7 +479,7 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * なぜ事前に作るのか：
          * ========================================
          *
-         * 送金上限などの設定値は：
+         * 基準通貨・手数料などの設定値は：
          * - 環境変数から読み込む
          * - 複雑な初期化ロジックがある
          * - 全てのサービスで共有したい
@@ -470,7 +490,17 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * 3. 全てのサービスで同じ設定を参照できる
          */
         @inject(MoneyTransferPropertiesToken)
-        private readonly moneyTransferProperties: MoneyTransferProperties
+        private readonly moneyTransferProperties: MoneyTransferProperties,
+
+        // 通貨をまたぐ送金・基準通貨での限度額チェックに使うレート
+        @inject(ExchangeRatePortToken)
+        private readonly exchangeRatePort: ExchangeRatePort,
+        @inject(ExchangeRateQuotePortToken)
+        private readonly exchangeRateQuotePort: ExchangeRateQuotePort,
+
+        // 送金元アカウントの区分に応じた送金限度額（1回・累積）の取得元
+        @inject(TransferLimitsPolicyPortToken)
+        private readonly transferLimitsPolicyPort: TransferLimitsPolicyPort
     ) {
         /**
          * ========================================
@@ -491,8 +521,8 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * // 以下が自動的に実行済み（書かなくてOK）
          * this.domainService = [注入されたインスタンス];
          * this.loadAccountPort = [注入されたインスタンス];
-         * this.updateAccountStatePort = [注入されたインスタンス];
-         * this.accountLock = [注入されたインスタンス];
+         * this.persistTransferPort = [注入されたインスタンス];
+         * this.accountLocker = [注入されたインスタンス];
          * this.moneyTransferProperties = [注入されたインスタンス];
          * ```
          *
@@ -568,13 +598,233 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
      *
      * @throws SameAccountTransferException 同一アカウント送金の場合
      * @throws ThresholdExceededException 限度額超過の場合
-     * @throws InsufficientBalanceException 残高不足の場合
+     * @throws CumulativeLimitExceededException 累積送金限度額（直近24時間・30日）超過の場合
+     * @throws InsufficientBalanceException 残高（当座貸越の限度額を含む）が送金額 + 手数料に足りない場合
+     * @throws AccountLockTimeoutException ロックを時間内に取得できなかった場合
+     * @throws AccountNotFoundException 送金元・送金先のアカウントが存在しない場合（side 付き）
      * @throws Error その他のエラー
      */
-    async sendMoney(command: SendMoneyCommand): Promise<void> {
-        // ① データ取得: アカウントをロード
-        const baselineDate = new Date();
-        baselineDate.setDate(baselineDate.getDate() - 10);
+    async sendMoney(command: SendMoneyCommand): Promise<Transfer> {
+        // ① リソースロック
+        /**
+         * accountLocker を使用
+         *
+         * アカウントを読み込む「前に」ロックを取得する。
+         * 読み込んでからロックすると、同じ送金元からの並行送金が
+         * どちらも古い残高で残高チェックを通過してしまう。
+         *
+         * - ロックは AccountId の昇順で取得される（送金元・送金先の順ではない）
+         * - 同一アカウント間の送金（ドメインサービスで拒否される）でも、ロックは1回だけ
+         * - 手数料がかかる設定では、手数料を入金するアカウントもロックする
+         * - 期限内に取得できなければ AccountLockTimeoutException が投げられる
+         *   （その場合、取得済みのロックは解放済み）
+         */
+        const locks = await this.accountLocker.lockAll(this.accountIdsToLock([command]));
+
+        try {
+            // ②③④ データ取得・ビジネスロジック実行・永続化
+            return await this.executeTransfer(command);
+        } finally {
+            // ⑤ リソース解放（必ず実行）
+            /**
+             * 取得時と逆の順番で、発行されたトークンを使って解放する。
+             */
+            await locks.release();
+        }
+    }
+
+    /**
+     * 複数の送金をまとめて実行する（一括送金）
+     *
+     * 関係するすべてのアカウント（送金元・送金先・手数料を入金するアカウント）のロックを、送金と同じ OrderedAccountLocker で
+     * 1回でまとめて取得する。AccountId の昇順で取得するため、同時に実行される送金・一括送金とも
+     * デッドロックしない（送金ごとにロックを取り直すと、一括送金の途中で他の処理が割り込める）
+     *
+     * - ALL_OR_NOTHING: すべての送金をメモリ上で順番に適用して検証し、全部成功した場合だけまとめて保存する
+     * - BEST_EFFORT: 送金を1件ずつ実行して保存する（失敗した送金は飛ばす）
+     *
+     * @throws AccountLockTimeoutException ロックを時間内に取得できなかった場合（何も送金しない）
+     * @throws InsufficientBalanceException ALL_OR_NOTHING で、保存直前の残高の再チェックに失敗した場合（何も送金しない）
+     * @throws Error ALL_OR_NOTHING で、送金の検証中にドメイン例外以外のエラーが発生した場合（何も送金しない）
+     */
+    async sendMoneyBatch(command: BatchSendMoneyCommand): Promise<BatchTransferResult> {
+        const items = await this.accountLocker.withLocks(this.accountIdsToLock(command.items), () =>
+            command.mode === 'ALL_OR_NOTHING'
+                ? this.executeAllOrNothing(command.items)
+                : this.executeBestEffort(command.items)
+        );
+
+        return {mode: command.mode, items};
+    }
+
+    /**
+     * 送金でロックするアカウント
+     *
+     * 送金元・送金先に加えて、手数料がかかる設定では手数料を入金するアカウントもロックする
+     * （送金の途中で手数料を入金するアカウントが凍結・解約されても、入金してしまわないようにする）
+     */
+    private accountIdsToLock(commands: readonly SendMoneyCommand[]): AccountId[] {
+        const accountIds = commands.flatMap((command) => [command.sourceAccountId, command.targetAccountId]);
+
+        const {feePolicy, feeRevenueAccountId} = this.moneyTransferProperties;
+        if (feePolicy.isFree() || feeRevenueAccountId === null) {
+            return accountIds;
+        }
+
+        return [...accountIds, feeRevenueAccountId];
+    }
+
+    /**
+     * 送金を1件実行して保存する（ロックは呼び出し側で取得済み）
+     */
+    private async executeTransfer(command: SendMoneyCommand): Promise<Transfer> {
+        const {transfer, accounts} = await this.prepareCompletedTransfer(command, null);
+
+        // ④ 永続化: 送金に関わるアカウントのアクティビティをアトミックに保存
+        /**
+         * persistTransferPort を使用
+         *
+         * DIにより注入されたインスタンスを使う。
+         * 実際は SupabaseAccountPersistenceAdapter かもしれないし、
+         * InMemoryAccountPersistenceAdapter かもしれない。
+         *
+         * このクラスは知らなくてOK。
+         * Port のメソッドを呼べばちゃんと動く！
+         *
+         * 手数料がかかる場合は、手数料を入金するアカウントのアクティビティも一緒に保存する。
+         * 送金の記録（Transfer）も同じトランザクションで保存する。
+         * 保存は「全部成功するか、何も保存されないか」のどちらか。
+         * 保存直前の残高再チェックに失敗した場合は
+         * InsufficientBalanceException が投げられる。
+         */
+        await this.persistTransferPort.persistTransfer(transfer, accounts);
+
+        // ✅ 成功時は送金の記録（送金IDと、手数料を含む内訳）を返す
+        return transfer;
+    }
+
+    /**
+     * すべての送金を検証し、全部成功した場合だけまとめて保存する（ALL_OR_NOTHING）
+     *
+     * 読み込んだアカウントは送金をまたいで使い回すため、後の送金は前の送金を反映した残高・累積送金額で検証される。
+     * ドメインサービスはすべてのビジネスルールを検証してからアカウントを変更するため、
+     * 失敗した送金はアカウントに何も反映されない（失敗した送金があっても、残りの送金の検証は続ける）
+     *
+     * 送金ごとの結果にするのはドメイン例外だけ。それ以外のエラー（アカウントの読み込みの失敗など）は
+     * 途中までの状態を信用できないため、残りの送金を検証せずにそのまま投げる（何も保存しない）
+     */
+    private async executeAllOrNothing(commands: readonly SendMoneyCommand[]): Promise<BatchTransferItemResult[]> {
+        const loadedAccounts = new Map<bigint, Account>();
+        const results: BatchTransferItemResult[] = [];
+
+        for (const command of commands) {
+            try {
+                const {transfer} = await this.prepareCompletedTransfer(command, loadedAccounts);
+                results.push({status: 'SUCCEEDED', transfer});
+            } catch (error) {
+                if (!(error instanceof DomainException)) {
+                    throw error;
+                }
+                results.push({status: 'FAILED', error});
+            }
+        }
+
+        // 1件でも失敗したら、何も保存しない
+        if (results.some((result) => result.status === 'FAILED')) {
+            return results.map((result) => (result.status === 'SUCCEEDED' ? {status: 'NOT_EXECUTED'} : result));
+        }
+
+        const transfers = results.flatMap((result) => (result.status === 'SUCCEEDED' ? [result.transfer] : []));
+        await this.persistTransferPort.persistTransfers(transfers, [...loadedAccounts.values()]);
+
+        return results;
+    }
+
+    /**
+     * 送金を1件ずつ実行して保存する（BEST_EFFORT）
+     *
+     * 送金ごとにアカウントを読み込み直すため、後の送金は前の送金が保存された後の残高で検証される
+     */
+    private async executeBestEffort(commands: readonly SendMoneyCommand[]): Promise<BatchTransferItemResult[]> {
+        const results: BatchTransferItemResult[] = [];
+
+        for (const command of commands) {
+            try {
+                results.push({status: 'SUCCEEDED', transfer: await this.executeTransfer(command)});
+            } catch (error) {
+                results.push({status: 'FAILED', error});
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * 送金の記録を作成し、送金のアクティビティをアカウントに追加する（保存はしない）
+     *
+     * @param loadedAccounts 読み込み済みのアカウント（一括送金で送金をまたいで使い回す。使い回さない場合は null）
+     * @returns 送金の記録と、保存が必要なアカウント
+     */
+    private async prepareCompletedTransfer(
+        command: SendMoneyCommand,
+        loadedAccounts: Map<bigint, Account> | null
+    ): Promise<{ transfer: Transfer; accounts: Account[] }> {
+        // ②③ データ取得とビジネスロジック実行（例外が throw される）
+        // 作成するアクティビティは、すべてこの送金IDにひも付ける（コマンドで指定されていればその ID を使う）
+        const transferId = command.transferId ?? new TransferId(crypto.randomUUID());
+        const {breakdown, accounts, now} = await this.prepareTransfer(command, transferId, loadedAccounts);
+        const transfer = Transfer.complete(
+            transferId,
+            command.sourceAccountId,
+            command.targetAccountId,
+            breakdown.amount,
+            breakdown.fee,
+            breakdown.depositedAmount,
+            command.remittance?.reference ?? null,
+            now
+        );
+
+        return {transfer, accounts};
+    }
+
+    /**
+     * 送金の内訳を見積もる（ドライラン）
+     *
+     * 送金と同じくアカウントを読み込んでビジネスルールを適用するが、
+     * 読み込んだアカウントは保存せずに捨てるので、お金は動かない。
+     * 保存しないため、ロックも取得しない（見積もりの後に残高が変わることはありうる）
+     *
+     * @throws SameAccountTransferException 同一アカウント送金の場合
+     * @throws ThresholdExceededException 限度額超過の場合
+     * @throws CumulativeLimitExceededException 累積送金限度額（直近24時間・30日）超過の場合
+     * @throws InsufficientBalanceException 残高（当座貸越の限度額を含む）が送金額 + 手数料に足りない場合
+     * @throws AccountNotFoundException 送金元・送金先のアカウントが存在しない場合（side 付き）
+     */
+    async quoteTransfer(command: SendMoneyCommand): Promise<TransferBreakdown> {
+        const {breakdown} = await this.prepareTransfer(command, null);
+        return breakdown;
+    }
+
+    /**
+     * 送金に必要なアカウントとレートを読み込み、ビジネスルールを適用する
+     *
+     * 送金（sendMoney）・一括送金（sendMoneyBatch）と見積もり（quoteTransfer）で共通の処理。
+     * アカウントの変更はメモリ上のみで、保存は呼び出し側が行う
+     *
+     * @param transferId 作成するアクティビティをひも付ける送金ID（見積もりでは null）
+     * @param loadedAccounts 読み込み済みのアカウント（ここにあるアカウントは読み込まずに使い、読み込んだアカウントは追加する）
+     * @returns 送金の内訳と、保存が必要なアカウントと、ルールを適用した時刻
+     */
+    private async prepareTransfer(
+        command: SendMoneyCommand,
+        transferId: TransferId | null,
+        loadedAccounts: Map<bigint, Account> | null = null
+    ): Promise<{ breakdown: TransferBreakdown; accounts: Account[]; now: Date }> {
+        // ② データ取得: アカウントをロード
+        // （累積送金限度額の集計期間をカバーするところから読み込む）
+        // 限度額は送金元の区分で決まるため、どの区分の集計期間もカバーできる基準日を使う
+        const now = new Date();
+        const baselineDate = this.activityBaselineDate(now);
 
         /**
          * loadAccountPort を使用
@@ -589,81 +839,205 @@ export class SendMoneyApplicationService implements SendMoneyUseCase {
          * readonly により：
          * - このメソッド内で誤って再代入することもない
          */
-        const sourceAccount = await this.loadAccountPort.loadAccount(
+        const sourceAccount = await this.loadTransferAccount(
             command.sourceAccountId,
-            baselineDate
+            'source',
+            baselineDate,
+            loadedAccounts
         );
 
-        const targetAccount = await this.loadAccountPort.loadAccount(
+        const targetAccount = await this.loadTransferAccount(
             command.targetAccountId,
-            baselineDate
+            'target',
+            baselineDate,
+            loadedAccounts
         );
 
-        const sourceAccountId = sourceAccount.getId();
-        const targetAccountId = targetAccount.getId();
-
-        if (!sourceAccountId || !targetAccountId) {
+        if (!sourceAccount.getId() || !targetAccount.getId()) {
             throw new Error('Expected account ID not to be empty');
         }
 
-        // ② リソースロック
+        // 送金元アカウントの区分に応じた送金限度額を取得する
+        const limits = await this.transferLimitsPolicyPort.getTransferLimits(sourceAccount.getTier());
+
+        // 通貨が異なる場合に使うレートを用意する（レートの取得は技術的な関心事なので、ここで行う）
+        const exchangeRates = await this.resolveExchangeRates(command, sourceAccount, targetAccount);
+
+        // 手数料がかかる場合は、手数料を入金するアカウントを用意する
+        const feeCharge = await this.loadFeeCharge(sourceAccount, targetAccount, baselineDate, loadedAccounts);
+
+        // ③ ビジネスロジック実行（例外が throw される）
         /**
-         * accountLock を使用
-         *
-         * 現在は NoOpAccountLock（何もしない）が注入されているが、
-         * 将来 Redis ロックなどに変更しても、このコードは変わらない。
+         * domainService と moneyTransferProperties を使用
          *
-         * private readonly により：
-         * - 外部から触られない + 再代入されない = 安全
+         * 両方とも：
+         * - DIにより注入されたインスタンス
+         * - private readonly で保護されている
+         * - 外部から触られることも、誤って再代入されることもない
          */
-        this.accountLock.lockAccount(sourceAccountId);
-        this.accountLock.lockAccount(targetAccountId);
+        const breakdown = this.domainService.executeTransfer(
+            sourceAccount,
+            targetAccount,
+            command.money,
+            limits.maximumTransferThreshold,
+            {
+                exchangeRates,
+                feeCharge,
+                cumulativeLimits: limits.cumulativeLimits,
+                now,
+                transferId,
+                remittance: command.remittance,
+            }
+        );
+
+        // 手数料を入金するアカウントが送金元・送金先と同じ場合は、重複して保存しない
+        const accounts = [...new Set([sourceAccount, targetAccount, feeCharge?.revenueAccount])]
+            .filter((account): account is Account => account !== undefined);
+
+        return {breakdown, accounts, now};
+    }
+
+    /**
+     * アクティビティを読み込む基準日
+     *
+     * 通常は10日前から読み込むが、累積送金限度額の集計期間（直近30日など）の方が長い場合は、
+     * 集計期間の開始から読み込む（読み込んでいない期間の出金は集計できないため）
+     */
+    private activityBaselineDate(now: Date): Date {
+        const baselineDate = new Date(now);
+        baselineDate.setDate(baselineDate.getDate() - 10);
+
+        const earliestWindowStart = CumulativeTransferLimit.earliestWindowStart(now);
+        return earliestWindowStart < baselineDate ? earliestWindowStart : baselineDate;
+    }
+
+    /**
+     * 手数料の請求先を用意する
+     *
+     * 手数料を入金するアカウントは、送金元・送金先と同じならそのアカウントを使い、
+     * それ以外は読み込む（一括送金で読み込み済みなら使い回す）。
+     * ロックは送金元・送金先と一緒に取得済み（accountIdsToLock）で、状態（ACTIVE か）はドメインサービスがチェックする
+     *
+     * @returns 手数料がかからない設定の場合は null
+     * @throws Error 手数料を入金するアカウントが存在しない場合（設定の誤り）
+     */
+    private async loadFeeCharge(
+        sourceAccount: Account,
+        targetAccount: Account,
+        baselineDate: Date,
+        loadedAccounts: Map<bigint, Account> | null
+    ): Promise<TransferFeeCharge | null> {
+        const {feePolicy, feeRevenueAccountId} = this.moneyTransferProperties;
+        if (feePolicy.isFree() || feeRevenueAccountId === null) {
+            return null;
+        }
+
+        const loadedAccount = [sourceAccount, targetAccount]
+            .find((account) => account.getId()?.equals(feeRevenueAccountId))
+            ?? loadedAccounts?.get(feeRevenueAccountId.getValue());
+        if (loadedAccount) {
+            return {policy: feePolicy, revenueAccount: loadedAccount};
+        }
 
         try {
-            // ③ ビジネスロジック実行（例外が throw される）
-            /**
-             * domainService と moneyTransferProperties を使用
-             *
-             * 両方とも：
-             * - DIにより注入されたインスタンス
-             * - private readonly で保護されている
-             * - 外部から触られることも、誤って再代入されることもない
-             */
-            this.domainService.executeTransfer(
-                sourceAccount,
-                targetAccount,
-                command.money,
-                this.moneyTransferProperties.maximumTransferThreshold
-            );
-
-            // ④ 永続化: アカウント状態を更新
-            /**
-             * updateAccountStatePort を使用
-             *
-             * DIにより注入されたインスタンスを使う。
-             * 実際は SupabaseAccountPersistenceAdapter かもしれないし、
-             * InMemoryAccountPersistenceAdapter かもしれない。
-             *
-             * このクラスは知らなくてOK。
-             * Port のメソッドを呼べばちゃんと動く！
-             *
-             * private readonly により保護されている。
-             */
-            await this.updateAccountStatePort.updateActivities(sourceAccount);
-            await this.updateAccountStatePort.updateActivities(targetAccount);
+            const revenueAccount = await this.loadAccountPort.loadAccount(feeRevenueAccountId, baselineDate);
+            loadedAccounts?.set(feeRevenueAccountId.getValue(), revenueAccount);
+            return {policy: feePolicy, revenueAccount};
+        } catch (error) {
+            if (error instanceof AccountNotFoundException) {
+                throw new Error(`Fee revenue account ${feeRevenueAccountId.toString()} does not exist`);
+            }
+            throw error;
+        }
+    }
 
-            // ✅ 成功時は何も返さない（void）
-        } finally {
-            // ⑤ リソース解放（必ず実行）
-            /**
-             * accountLock を使用
-             *
-             * 注入されたロック実装を使ってリソースを解放。
-             * private readonly により保護されている。
-             */
-            this.accountLock.releaseAccount(sourceAccountId);
-            this.accountLock.releaseAccount(targetAccountId);
+    /**
+     * 送金元・送金先のアカウントをロードする
+     *
+     * アカウントが存在しない場合は、どちらとして指定されたか（side）を
+     * 付けた AccountNotFoundException に詰め直す
+     */
+    private async loadTransferAccount(
+        accountId: AccountId,
+        side: TransferSide,
+        baselineDate: Date,
+        loadedAccounts: Map<bigint, Account> | null
+    ): Promise<Account> {
+        const loadedAccount = loadedAccounts?.get(accountId.getValue());
+        if (loadedAccount) {
+            return loadedAccount;
+        }
+
+        try {
+            const account = await this.loadAccountPort.loadAccount(accountId, baselineDate);
+            loadedAccounts?.set(accountId.getValue(), account);
+            return account;
+        } catch (error) {
+            if (error instanceof AccountNotFoundException) {
+                throw new AccountNotFoundException(accountId, side);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 送金に必要な為替レートを用意する
+     *
+     * - 送金元 → 送金先: 見積もり（quoteId）があればそのレート、なければ現在のレート
+     * - 送金額 → 基準通貨: 限度額チェック用に、常に現在のレート
+     *
+     * @throws InvalidExchangeRateQuoteException 見積もりが存在しない・期限切れ・通貨ペアが異なる場合
+     * @throws ExchangeRateUnavailableException レートを取得できなかった場合
+     */
+    private async resolveExchangeRates(
+        command: SendMoneyCommand,
+        sourceAccount: Account,
+        targetAccount: Account
+    ): Promise<TransferExchangeRates> {
+        const exchangeRates: TransferExchangeRates = {};
+
+        const sourceCurrency = sourceAccount.getCurrency();
+        const targetCurrency = targetAccount.getCurrency();
+        if (!command.money.getCurrency().equals(sourceCurrency)) {
+            // 送金額の通貨が送金元と異なる場合はドメインサービスが CurrencyMismatchException を投げるので、
+            // レートを取得しない（レートの取得失敗で本来のエラーが隠れないようにする）
+            return exchangeRates;
+        }
+
+        if (command.quoteId !== null) {
+            exchangeRates.toTarget = await this.loadQuotedRate(command.quoteId, sourceAccount, targetAccount);
+        } else if (!sourceCurrency.equals(targetCurrency)) {
+            exchangeRates.toTarget = await this.exchangeRatePort.getRate(sourceCurrency, targetCurrency);
+        }
+
+        const moneyCurrency = command.money.getCurrency();
+        const baseCurrency = this.moneyTransferProperties.baseCurrency;
+        if (!moneyCurrency.equals(baseCurrency)) {
+            exchangeRates.toThresholdCurrency = await this.exchangeRatePort.getRate(moneyCurrency, baseCurrency);
+        }
+
+        return exchangeRates;
+    }
+
+    /**
+     * 見積もりを読み込み、この送金に使えるレートか確認する
+     */
+    private async loadQuotedRate(
+        quoteId: string,
+        sourceAccount: Account,
+        targetAccount: Account
+    ): Promise<ExchangeRate> {
+        const quote = await this.exchangeRateQuotePort.loadQuote(quoteId);
+        if (!quote) {
+            throw new InvalidExchangeRateQuoteException(quoteId, 'NOT_FOUND');
+        }
+        if (quote.isExpiredAt(new Date())) {
+            throw new InvalidExchangeRateQuoteException(quoteId, 'EXPIRED');
+        }
+        if (!quote.rate.from.equals(sourceAccount.getCurrency()) || !quote.rate.to.equals(targetAccount.getCurrency())) {
+            throw new InvalidExchangeRateQuoteException(quoteId, 'CURRENCY_PAIR_MISMATCH');
         }
+        return quote.rate;
     }
 }
 
@@ -0,0 +1,150 @@
+import {inject, injectable} from 'tsyringe';
+import type {TransferSide} from '../domain/exception/AccountNotFoundException';
+import {AccountNotFoundException} from '../domain/exception/AccountNotFoundException';
+import {InvalidStandingOrderStatusTransitionException} from '../domain/exception/InvalidStandingOrderStatusTransitionException';
+import {StandingOrderNotFoundException} from '../domain/exception/StandingOrderNotFoundException';
+import type {AccountId} from '../domain/model/Activity';
+import {StandingOrder} from '../domain/model/StandingOrder';
+import type {StandingOrderRun} from '../domain/model/StandingOrderRun';
+import type {StandingOrderSchedule} from '../domain/model/StandingOrderSchedule';
+import type {StandingOrderStatus} from '../domain/model/StandingOrderStatus';
+import type {CancelStandingOrderUseCase} from '../port/in/CancelStandingOrderUseCase';
+import type {CreateStandingOrderUseCase} from '../port/in/CreateStandingOrderUseCase';
+import type {GetStandingOrdersQuery} from '../port/in/GetStandingOrdersQuery';
+import type {PauseStandingOrderUseCase} from '../port/in/PauseStandingOrderUseCase';
+import type {ResumeStandingOrderUseCase} from '../port/in/ResumeStandingOrderUseCase';
+import type {SendMoneyCommand} from '../port/in/SendMoneyCommand';
+import {LoadAccountPort, LoadAccountPortToken} from '../port/out/LoadAccountPort';
+import {StandingOrderPort, StandingOrderPortToken} from '../port/out/StandingOrderPort';
+
+/**
+ * 定期送金アプリケーションサービス
+ *
+ * 役割: 定期送金の作成・照会・停止・再開・取り消し
+ * - 作成の時点では、アカウントの存在と送金元・送金先の組み合わせだけを確認する
+ *   （残高・限度額などは実行のたびに送金ユースケースが判定する）
+ * - 実行は ExecuteStandingOrdersApplicationService が行う
+ * - 状態の変更は、変更前の状態を条件に保存する（スケジューラーが先に実行を始めていたら 409 にする）
+ */
+@injectable()
+export class StandingOrderApplicationService implements
+    CreateStandingOrderUseCase,
+    GetStandingOrdersQuery,
+    PauseStandingOrderUseCase,
+    ResumeStandingOrderUseCase,
+    CancelStandingOrderUseCase {
+    constructor(
+        @inject(LoadAccountPortToken)
+        private readonly loadAccountPort: LoadAccountPort,
+        @inject(StandingOrderPortToken)
+        private readonly standingOrderPort: StandingOrderPort
+    ) {
+    }
+
+    async createStandingOrder(command: SendMoneyCommand, schedule: StandingOrderSchedule): Promise<StandingOrder> {
+        if (command.quoteId !== null) {
+            throw new Error('Exchange rate quotes cannot be used for standing orders');
+        }
+
+        const now = new Date();
+        const standingOrder = StandingOrder.create(
+            crypto.randomUUID(),
+            command.sourceAccountId,
+            command.targetAccountId,
+            command.money,
+            schedule,
+            now
+        );
+
+        await this.assertAccountExists(command.sourceAccountId, 'source', now);
+        await this.assertAccountExists(command.targetAccountId, 'target', now);
+
+        await this.standingOrderPort.saveStandingOrder(standingOrder);
+
+        return standingOrder;
+    }
+
+    async getStandingOrder(standingOrderId: string): Promise<StandingOrder> {
+        const standingOrder = await this.standingOrderPort.loadStandingOrder(standingOrderId);
+        if (!standingOrder) {
+            throw new StandingOrderNotFoundException(standingOrderId);
+        }
+
+        return standingOrder;
+    }
+
+    getStandingOrders(sourceAccountId: AccountId, status: StandingOrderStatus | null): Promise<StandingOrder[]> {
+        return this.standingOrderPort.loadStandingOrders(sourceAccountId, status);
+    }
+
+    async getStandingOrderRuns(standingOrderId: string, limit: number): Promise<StandingOrderRun[]> {
+        // 存在しない定期送金は、実行記録が空ではなく 404 にする
+        await this.getStandingOrder(standingOrderId);
+
+        return this.standingOrderPort.loadStandingOrderRuns(standingOrderId, limit);
+    }
+
+    pauseStandingOrder(standingOrderId: string): Promise<StandingOrder> {
+        return this.changeStatus(standingOrderId, 'PAUSED', (standingOrder) => {
+            standingOrder.pause();
+        });
+    }
+
+    resumeStandingOrder(standingOrderId: string): Promise<StandingOrder> {
+        return this.changeStatus(standingOrderId, 'ACTIVE', (standingOrder) => {
+            standingOrder.resume(new Date());
+        });
+    }
+
+    cancelStandingOrder(standingOrderId: string): Promise<StandingOrder> {
+        return this.changeStatus(standingOrderId, 'CANCELLED', (standingOrder) => {
+            standingOrder.cancel();
+        });
+    }
+
+    /**
+     * 定期送金の状態を変更して保存する
+     *
+     * 読み込んでから保存するまでに、スケジューラーが実行を始めていた場合などは
+     * 変更せずに、現在の状態を付けた状態遷移エラーにする
+     */
+    private async changeStatus(
+        standingOrderId: string,
+        requestedStatus: StandingOrderStatus,
+        change: (standingOrder: StandingOrder) => void
+    ): Promise<StandingOrder> {
+        const standingOrder = await this.getStandingOrder(standingOrderId);
+        const expectedStatus = standingOrder.getStatus();
+
+        change(standingOrder);
+
+        const updated = await this.standingOrderPort.updateStandingOrder(standingOrder, expectedStatus);
+        if (!updated) {
+            const current = await this.getStandingOrder(standingOrderId);
+            throw new InvalidStandingOrderStatusTransitionException(
+                standingOrderId,
+                current.getStatus(),
+                requestedStatus
+            );
+        }
+
+        return standingOrder;
+    }
+
+    /**
+     * アカウントが存在することを確認する
+     *
+     * 存在しない場合は、どちらとして指定されたか（side）を付けた AccountNotFoundException を投げる
+     */
+    private async assertAccountExists(accountId: AccountId, side: TransferSide, now: Date): Promise<void> {
+        try {
+            // 存在の確認だけなので、アクティビティは読み込まない（基準日 = 現在）
+            await this.loadAccountPort.loadAccount(accountId, now);
+        } catch (error) {
+            if (error instanceof AccountNotFoundException) {
+                throw new AccountNotFoundException(accountId, side);
+            }
+            throw error;
+        }
+    }
+}
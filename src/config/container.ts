@@ -30,20 +30,101 @@ import 'reflect-metadata'; // tsyringe が必要とするメタデータ機能
 import { createClient } from '@supabase/supabase-js';
 import { container } from 'tsyringe';
 import type {Database} from "../../supabase/database";
+import { HttpExchangeRateAdapter } from '../adapter/out/exchangerate/HttpExchangeRateAdapter';
+import { StaticExchangeRateAdapter } from '../adapter/out/exchangerate/StaticExchangeRateAdapter';
+import { StaticTransferLimitsPolicyAdapter } from '../adapter/out/limits/StaticTransferLimitsPolicyAdapter';
+import { DurableObjectAccountLock } from '../adapter/out/persistence/DurableObjectAccountLock';
 import { InMemoryAccountPersistenceAdapter } from '../adapter/out/persistence/InMemoryAccountPersistenceAdapter';
-import { NoOpAccountLock } from '../adapter/out/persistence/NoOpAccountLock';
+import { InMemoryExchangeRateQuoteAdapter } from '../adapter/out/persistence/InMemoryExchangeRateQuoteAdapter';
+import { InMemoryIdempotencyKeyAdapter } from '../adapter/out/persistence/InMemoryIdempotencyKeyAdapter';
+import { InMemoryScheduledTransferAdapter } from '../adapter/out/persistence/InMemoryScheduledTransferAdapter';
+import { InMemoryStandingOrderAdapter } from '../adapter/out/persistence/InMemoryStandingOrderAdapter';
+import { InProcessAccountLock } from '../adapter/out/persistence/InProcessAccountLock';
 import { SupabaseAccountPersistenceAdapter } from '../adapter/out/persistence/SupabaseAccountPersistenceAdapter';
-import { Money } from '../application/domain/model/Money';
+import { SupabaseExchangeRateQuoteAdapter } from '../adapter/out/persistence/SupabaseExchangeRateQuoteAdapter';
+import { SupabaseIdempotencyKeyAdapter } from '../adapter/out/persistence/SupabaseIdempotencyKeyAdapter';
+import { SupabaseScheduledTransferAdapter } from '../adapter/out/persistence/SupabaseScheduledTransferAdapter';
+import { SupabaseStandingOrderAdapter } from '../adapter/out/persistence/SupabaseStandingOrderAdapter';
+import { StandingOrderRetryPolicyToken } from '../application/domain/model/StandingOrderRetryPolicy';
 import { MoneyTransferProperties, MoneyTransferPropertiesToken } from '../application/domain/service/MoneyTransferProperties';
+import { ReverseTransferDomainService } from '../application/domain/service/ReverseTransferDomainService';
 import { SendMoneyDomainService } from '../application/domain/service/SendMoneyDomainService';
+import { BatchSendMoneyUseCaseToken } from '../application/port/in/BatchSendMoneyUseCase';
+import { CancelScheduledTransferUseCaseToken } from '../application/port/in/CancelScheduledTransferUseCase';
+import { CancelStandingOrderUseCaseToken } from '../application/port/in/CancelStandingOrderUseCase';
+import { ChangeAccountTierUseCaseToken } from '../application/port/in/ChangeAccountTierUseCase';
+import { ChangeOverdraftLimitUseCaseToken } from '../application/port/in/ChangeOverdraftLimitUseCase';
+import { CloseAccountUseCaseToken } from '../application/port/in/CloseAccountUseCase';
+import { CreateAccountUseCaseToken } from '../application/port/in/CreateAccountUseCase';
+import { CreateExchangeRateQuoteUseCaseToken } from '../application/port/in/CreateExchangeRateQuoteUseCase';
+import { CreateStandingOrderUseCaseToken } from '../application/port/in/CreateStandingOrderUseCase';
+import { ExecuteScheduledTransfersUseCaseToken } from '../application/port/in/ExecuteScheduledTransfersUseCase';
+import { ExecuteStandingOrdersUseCaseToken } from '../application/port/in/ExecuteStandingOrdersUseCase';
+import { FreezeAccountUseCaseToken } from '../application/port/in/FreezeAccountUseCase';
+import { GetAccountActivitiesQueryToken } from '../application/port/in/GetAccountActivitiesQuery';
+import { GetAccountBalanceQueryToken } from '../application/port/in/GetAccountBalanceQuery';
+import { GetAccountTierQueryToken } from '../application/port/in/GetAccountTierQuery';
+import { GetScheduledTransfersQueryToken } from '../application/port/in/GetScheduledTransfersQuery';
+import { GetStandingOrdersQueryToken } from '../application/port/in/GetStandingOrdersQuery';
+import { GetTransferConfigurationQueryToken } from '../application/port/in/GetTransferConfigurationQuery';
+import { GetTransferQueryToken } from '../application/port/in/GetTransferQuery';
+import { IdempotentRequestUseCaseToken } from '../application/port/in/IdempotentRequestUseCase';
+import { PauseStandingOrderUseCaseToken } from '../application/port/in/PauseStandingOrderUseCase';
+import { QuoteTransferUseCaseToken } from '../application/port/in/QuoteTransferUseCase';
+import { ResumeStandingOrderUseCaseToken } from '../application/port/in/ResumeStandingOrderUseCase';
+import { ReverseTransferUseCaseToken } from '../application/port/in/ReverseTransferUseCase';
+import { ScheduleTransferUseCaseToken } from '../application/port/in/ScheduleTransferUseCase';
 import { SendMoneyUseCaseToken } from '../application/port/in/SendMoneyUseCase';
 import { AccountLockToken } from '../application/port/out/AccountLock';
+import { CreateAccountPortToken } from '../application/port/out/CreateAccountPort';
+import { ExchangeRatePortToken } from '../application/port/out/ExchangeRatePort';
+import { ExchangeRateQuotePortToken } from '../application/port/out/ExchangeRateQuotePort';
+import { IdempotencyKeyPortToken } from '../application/port/out/IdempotencyKeyPort';
 import { LoadAccountPortToken } from '../application/port/out/LoadAccountPort';
+import { LoadActivitiesPortToken } from '../application/port/out/LoadActivitiesPort';
+import { LoadTransferPortToken } from '../application/port/out/LoadTransferPort';
+import { PersistTransferPortToken } from '../application/port/out/PersistTransferPort';
+import { ScheduledTransferPortToken } from '../application/port/out/ScheduledTransferPort';
+import { StandingOrderPortToken } from '../application/port/out/StandingOrderPort';
+import { TransferLimitsPolicyPortToken } from '../application/port/out/TransferLimitsPolicyPort';
+import { TransferReversalPortToken } from '../application/port/out/TransferReversalPort';
+import { UpdateAccountOverdraftLimitPortToken } from '../application/port/out/UpdateAccountOverdraftLimitPort';
 import { UpdateAccountStatePortToken } from '../application/port/out/UpdateAccountStatePort';
+import { UpdateAccountStatusPortToken } from '../application/port/out/UpdateAccountStatusPort';
+import { UpdateAccountTierPortToken } from '../application/port/out/UpdateAccountTierPort';
+import { AccountTierApplicationService } from '../application/service/AccountTierApplicationService';
+import { ChangeOverdraftLimitApplicationService } from '../application/service/ChangeOverdraftLimitApplicationService';
+import { CloseAccountApplicationService } from '../application/service/CloseAccountApplicationService';
+import { CreateAccountApplicationService } from '../application/service/CreateAccountApplicationService';
+import { CreateExchangeRateQuoteApplicationService } from '../application/service/CreateExchangeRateQuoteApplicationService';
+import { ExecuteScheduledTransfersApplicationService } from '../application/service/ExecuteScheduledTransfersApplicationService';
+import { ExecuteStandingOrdersApplicationService } from '../application/service/ExecuteStandingOrdersApplicationService';
+import { FreezeAccountApplicationService } from '../application/service/FreezeAccountApplicationService';
+import { GetAccountActivitiesApplicationService } from '../application/service/GetAccountActivitiesApplicationService';
+import { GetAccountBalanceApplicationService } from '../application/service/GetAccountBalanceApplicationService';
+import { GetTransferApplicationService } from '../application/service/GetTransferApplicationService';
+import { GetTransferConfigurationApplicationService } from '../application/service/GetTransferConfigurationApplicationService';
+import { IdempotentRequestApplicationService } from '../application/service/IdempotentRequestApplicationService';
+import { OrderedAccountLocker } from '../application/service/OrderedAccountLocker';
+import { ReverseTransferApplicationService } from '../application/service/ReverseTransferApplicationService';
+import { ScheduledTransferApplicationService } from '../application/service/ScheduledTransferApplicationService';
 import { SendMoneyApplicationService } from '../application/service/SendMoneyApplicationService';
+import { StandingOrderApplicationService } from '../application/service/StandingOrderApplicationService';
 import type { CloudflareBindings } from '../types/bindings';
-import type { DatabaseConfig, TypedSupabaseClient } from './types';
-import { DatabaseConfigToken, SupabaseClientToken } from './types';
+import { parseTransferRules } from './transferRules';
+import type { DatabaseConfig, ExchangeRateApiConfig, TypedSupabaseClient } from './types';
+import {
+    AccountLockNamespaceToken,
+    DatabaseConfigToken,
+    ExchangeRateApiConfigToken,
+    SupabaseClientToken,
+    TransferLimitsTableToken,
+} from './types';
+
+/**
+ * 外部の為替レートAPIへの1回のリクエストのタイムアウト（ミリ秒）
+ */
+const EXCHANGE_RATE_API_TIMEOUT_MS = 3_000;
 
 // 初期化済みフラグ（複数回初期化を防ぐ）
 let isInitialized = false;
@@ -54,11 +135,12 @@ let isInitialized = false;
  * このファイルの最も重要な関数。アプリケーション起動時に一度だけ実行される。
  *
  * 【処理の流れ】
- * 1. 設定オブジェクト（MoneyTransferProperties）の登録
+ * 1. 設定オブジェクト（MoneyTransferProperties・区分ごとの送金限度額）の登録
  * 2. 永続化アダプター（InMemory または Supabase）の登録
  * 3. アカウントロックの登録
- * 4. ドメインサービスの登録
- * 5. アプリケーションサービス（UseCase実装）の登録
+ * 4. 為替レートの取得元の登録
+ * 5. ドメインサービスの登録
+ * 6. アプリケーションサービス（UseCase実装）の登録
  *
  * @param env Cloudflare Workers の環境変数（SUPABASE_URL など）
  */
@@ -75,20 +157,59 @@ export function setupContainer(env: CloudflareBindings): void {
     // ========================================
 
     /**
-     * MoneyTransferProperties: 送金の業務ルール（閾値など）を保持
+     * MoneyTransferProperties: 送金の業務ルール（基準通貨・手数料）を保持
      *
      * 【useValue とは？】
      * 既存のオブジェクトインスタンスをそのまま登録する方法。
      * container.resolve(MoneyTransferPropertiesToken) を呼ぶと、
      * この properties インスタンスが返される。
+     *
+     * 送金上限は基準通貨（BASE_CURRENCY）で設定する。
+     * 他の通貨の送金額は、基準通貨に換算してから上限と比較される。
+     *
+     * 送金ルールの環境変数（BASE_CURRENCY・TRANSFER_MAX_AMOUNT など）は最初に検証し、
+     * 不正な変数があれば何も登録せずにエラーにする（不正な変数はまとめて列挙される）。
      */
-    const transferThreshold = Money.of(1_000_000); // 送金上限: 100万円
-    const properties = new MoneyTransferProperties(transferThreshold);
+    const transferRules = parseTransferRules(env);
+    const baseCurrency = transferRules.baseCurrency;
+
+    /**
+     * 送金手数料は、手数料を入金するアカウント（TRANSFER_FEE_REVENUE_ACCOUNT_ID）が
+     * 設定されている場合のみ請求する。アカウントは基準通貨で開設しておく。
+     * 料金体系は基準通貨ごとの既定値を TRANSFER_FEE_* の環境変数で上書きできる（transferRules.ts を参照）
+     */
+    const properties = transferRules.feeRevenueAccountId
+        ? new MoneyTransferProperties(
+            baseCurrency,
+            transferRules.feePolicy,
+            transferRules.feeRevenueAccountId
+        )
+        : new MoneyTransferProperties(baseCurrency);
 
     container.register(MoneyTransferPropertiesToken, {
         useValue: properties, // この具体的なインスタンスを使う
     });
 
+    /**
+     * 送金限度額（1回・累積）はアカウントの区分ごとに決める
+     * （累積送金限度額は、アカウントごとの出金合計の上限。ローリングで集計する）
+     * 区分ごとの値は環境変数で上書きできる（既定値は transferRules.ts を参照）
+     *
+     * 送金ユースケースは TransferLimitsPolicyPort を通じて、送金元の区分の限度額を取得する
+     */
+    container.register(TransferLimitsTableToken, {
+        useValue: transferRules.limits,
+    });
+    container.registerSingleton(TransferLimitsPolicyPortToken, StaticTransferLimitsPolicyAdapter);
+
+    /**
+     * 定期送金が失敗したときの再試行と自動停止のルール
+     * （STANDING_ORDER_MAX_RETRIES などの環境変数で上書きできる）
+     */
+    container.register(StandingOrderRetryPolicyToken, {
+        useValue: transferRules.standingOrderRetryPolicy,
+    });
+
     // ========================================
     // 2. 出力アダプター（永続化層）の登録
     // ========================================
@@ -197,6 +318,58 @@ export function setupContainer(env: CloudflareBindings): void {
         container.register(UpdateAccountStatePortToken, {
             useToken: SupabaseAccountPersistenceAdapter,
         });
+
+        container.register(LoadActivitiesPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(PersistTransferPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(CreateAccountPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountStatusPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountTierPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountOverdraftLimitPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(TransferReversalPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        container.register(LoadTransferPortToken, {
+            useToken: SupabaseAccountPersistenceAdapter,
+        });
+
+        /**
+         * 冪等性キーの永続化（idempotency_keys テーブル）
+         */
+        container.registerSingleton(IdempotencyKeyPortToken, SupabaseIdempotencyKeyAdapter);
+
+        /**
+         * 為替見積もりの永続化（exchange_rate_quotes テーブル）
+         */
+        container.registerSingleton(ExchangeRateQuotePortToken, SupabaseExchangeRateQuoteAdapter);
+
+        /**
+         * 予約送金の永続化（scheduled_transfers テーブル）
+         */
+        container.registerSingleton(ScheduledTransferPortToken, SupabaseScheduledTransferAdapter);
+
+        /**
+         * 定期送金と実行記録の永続化（standing_orders・standing_order_runs テーブル）
+         */
+        container.registerSingleton(StandingOrderPortToken, SupabaseStandingOrderAdapter);
     } else {
         console.log('💾 Using InMemory adapter');
 
@@ -223,6 +396,46 @@ export function setupContainer(env: CloudflareBindings): void {
         container.register(UpdateAccountStatePortToken, {
             useToken: InMemoryAccountPersistenceAdapter,
         });
+
+        container.register(LoadActivitiesPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(PersistTransferPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(CreateAccountPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountStatusPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountTierPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(UpdateAccountOverdraftLimitPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(TransferReversalPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.register(LoadTransferPortToken, {
+            useToken: InMemoryAccountPersistenceAdapter,
+        });
+
+        container.registerSingleton(IdempotencyKeyPortToken, InMemoryIdempotencyKeyAdapter);
+
+        container.registerSingleton(ExchangeRateQuotePortToken, InMemoryExchangeRateQuoteAdapter);
+
+        container.registerSingleton(ScheduledTransferPortToken, InMemoryScheduledTransferAdapter);
+
+        container.registerSingleton(StandingOrderPortToken, InMemoryStandingOrderAdapter);
     }
 
     // ========================================
@@ -232,19 +445,65 @@ export function setupContainer(env: CloudflareBindings): void {
     /**
      * AccountLock: 並行処理時のデータ競合を防ぐための機構
      *
-     * 【useClass とは？】
-     * クラスを指定して登録する方法。resolve時に毎回新しいインスタンスが作成される。
-     * （registerSingleton と違い、呼ぶたびに新規作成）
+     * - ACCOUNT_LOCK バインディングがある → DurableObjectAccountLock（分散ロック）
+     *   複数の Worker インスタンスにまたがって、同じアカウントへの送金を直列化する
+     * - バインディングがない → InProcessAccountLock（プロセス内ロック）
+     *   InMemory モードではデータも同じインスタンス内にしかないので、これで十分
      *
-     * ここでは NoOpAccountLock（何もしない実装）を使用。
-     * 本番環境では Redis などを使った実装に切り替えることができる。
+     * どちらもロックの状態を共有する必要があるため、シングルトンとして登録する。
+     */
+    if (env.ACCOUNT_LOCK) {
+        console.log('🔒 Using Durable Object account lock');
+
+        container.register(AccountLockNamespaceToken, {
+            useValue: env.ACCOUNT_LOCK,
+        });
+        container.registerSingleton(AccountLockToken, DurableObjectAccountLock);
+    } else {
+        console.log('🔒 Using in-process account lock');
+
+        container.registerSingleton(AccountLockToken, InProcessAccountLock);
+    }
+
+    /**
+     * OrderedAccountLocker: 複数アカウントのロックを AccountId の昇順で取得するヘルパー
+     * 上で登録した AccountLock を使う。状態を持たないので毎回新規作成でよい。
      */
-    container.register(AccountLockToken, {
-        useClass: NoOpAccountLock,
+    container.register(OrderedAccountLocker, {
+        useClass: OrderedAccountLocker,
     });
 
     // ========================================
-    // 4. ドメインサービスの登録
+    // 4. 為替レートの取得元の登録
+    // ========================================
+
+    /**
+     * ExchangeRatePort: 通貨をまたぐ送金と見積もりで使うレートの取得元
+     *
+     * - EXCHANGE_RATE_API_URL がある → HttpExchangeRateAdapter（外部APIから取得）
+     *   ローカル開発ではモックサーバーのURLを指定できる
+     * - ない → StaticExchangeRateAdapter（固定のレート表）
+     */
+    if (env.EXCHANGE_RATE_API_URL) {
+        console.log(`💱 Using exchange rate API: ${env.EXCHANGE_RATE_API_URL}`);
+
+        const exchangeRateApiConfig: ExchangeRateApiConfig = {
+            baseUrl: env.EXCHANGE_RATE_API_URL,
+            timeoutMs: EXCHANGE_RATE_API_TIMEOUT_MS,
+        };
+
+        container.register(ExchangeRateApiConfigToken, {
+            useValue: exchangeRateApiConfig,
+        });
+        container.registerSingleton(ExchangeRatePortToken, HttpExchangeRateAdapter);
+    } else {
+        console.log('💱 Using static exchange rate table');
+
+        container.registerSingleton(ExchangeRatePortToken, StaticExchangeRateAdapter);
+    }
+
+    // ========================================
+    // 5. ドメインサービスの登録
     // ========================================
 
     /**
@@ -255,8 +514,13 @@ export function setupContainer(env: CloudflareBindings): void {
      */
     container.registerSingleton(SendMoneyDomainService, SendMoneyDomainService);
 
+    /**
+     * ReverseTransferDomainService: 送金の取り消しのビジネスルール
+     */
+    container.registerSingleton(ReverseTransferDomainService, ReverseTransferDomainService);
+
     // ========================================
-    // 5. アプリケーションサービスの登録
+    // 6. アプリケーションサービスの登録
     // ========================================
 
     /**
@@ -280,6 +544,181 @@ export function setupContainer(env: CloudflareBindings): void {
         useClass: SendMoneyApplicationService,
     });
 
+    /**
+     * 送金の見積もり（ドライラン）も SendMoneyApplicationService が実装する
+     * （送金と同じ読み込み・ビジネスルールを使い、保存だけしない）
+     */
+    container.register(QuoteTransferUseCaseToken, {
+        useClass: SendMoneyApplicationService,
+    });
+
+    /**
+     * 一括送金も SendMoneyApplicationService が実装する
+     * （送金と同じ読み込み・ビジネスルール・ロックを使い、関係するすべてのアカウントのロックをまとめて取得する）
+     */
+    container.register(BatchSendMoneyUseCaseToken, {
+        useClass: SendMoneyApplicationService,
+    });
+
+    /**
+     * ReverseTransferApplicationService: 送金の取り消し
+     *
+     * 送金と同じ OrderedAccountLocker で、元のアクティビティを所有するアカウントのロックを取得してから取り消す
+     */
+    container.register(ReverseTransferUseCaseToken, {
+        useClass: ReverseTransferApplicationService,
+    });
+
+    /**
+     * GetTransferApplicationService: 送金の照会（送金の記録と、送金にひも付くアクティビティ）
+     */
+    container.register(GetTransferQueryToken, {
+        useClass: GetTransferApplicationService,
+    });
+
+    /**
+     * GetAccountBalanceApplicationService: 残高照会クエリの実装
+     *
+     * LoadAccountPort のみに依存する読み取り専用のサービス。
+     * 送金ユースケースと同じ永続化アダプターが注入される。
+     */
+    container.register(GetAccountBalanceQueryToken, {
+        useClass: GetAccountBalanceApplicationService,
+    });
+
+    /**
+     * GetAccountActivitiesApplicationService: アクティビティ履歴照会クエリの実装
+     */
+    container.register(GetAccountActivitiesQueryToken, {
+        useClass: GetAccountActivitiesApplicationService,
+    });
+
+    /**
+     * IdempotentRequestApplicationService: 冪等性キー付きリクエストの実行
+     *
+     * 送金APIの Idempotency-Key ヘッダーの処理で使用する
+     */
+    container.register(IdempotentRequestUseCaseToken, {
+        useClass: IdempotentRequestApplicationService,
+    });
+
+    /**
+     * アカウントのライフサイクル（開設・凍結・解約）
+     *
+     * 凍結・解約は送金と同じ OrderedAccountLocker でロックを取得してから状態を変更する
+     */
+    container.register(CreateAccountUseCaseToken, {
+        useClass: CreateAccountApplicationService,
+    });
+
+    container.register(FreezeAccountUseCaseToken, {
+        useClass: FreezeAccountApplicationService,
+    });
+
+    container.register(CloseAccountUseCaseToken, {
+        useClass: CloseAccountApplicationService,
+    });
+
+    /**
+     * アカウントの区分（送金限度額の区分）の照会・変更（管理者向け）
+     *
+     * 変更は凍結・解約と同じく、アカウントのロックを取得してから行う
+     */
+    container.register(GetAccountTierQueryToken, {
+        useClass: AccountTierApplicationService,
+    });
+
+    container.register(ChangeAccountTierUseCaseToken, {
+        useClass: AccountTierApplicationService,
+    });
+
+    /**
+     * ChangeOverdraftLimitApplicationService: 当座貸越の限度額の変更（管理者向け）
+     *
+     * 区分の変更と同じく、アカウントのロックを取得してから行う
+     */
+    container.register(ChangeOverdraftLimitUseCaseToken, {
+        useClass: ChangeOverdraftLimitApplicationService,
+    });
+
+    /**
+     * GetTransferConfigurationApplicationService: 送金に適用されている設定の照会（管理者向け）
+     *
+     * 送金ユースケースと同じ MoneyTransferProperties と TransferLimitsPolicyPort から値を集める
+     */
+    container.register(GetTransferConfigurationQueryToken, {
+        useClass: GetTransferConfigurationApplicationService,
+    });
+
+    /**
+     * CreateExchangeRateQuoteApplicationService: 為替見積もりの作成
+     *
+     * 見積もりの ID を送金リクエストに指定すると、見積もりのレートで送金できる
+     */
+    container.register(CreateExchangeRateQuoteUseCaseToken, {
+        useClass: CreateExchangeRateQuoteApplicationService,
+    });
+
+    /**
+     * 予約送金の登録・照会・取り消し
+     *
+     * 予約の時点では送金のルール（残高・限度額など）を判定しない（実行時に判定する）
+     */
+    container.register(ScheduleTransferUseCaseToken, {
+        useClass: ScheduledTransferApplicationService,
+    });
+
+    container.register(GetScheduledTransfersQueryToken, {
+        useClass: ScheduledTransferApplicationService,
+    });
+
+    container.register(CancelScheduledTransferUseCaseToken, {
+        useClass: ScheduledTransferApplicationService,
+    });
+
+    /**
+     * ExecuteScheduledTransfersApplicationService: 実行日時を過ぎた予約送金の実行
+     *
+     * Cloudflare Workers の scheduled ハンドラー（Cron Trigger）から呼ばれる。
+     * 送金そのものは SendMoneyUseCase に任せる（Web からの送金と同じルール・ロックで実行される）
+     */
+    container.register(ExecuteScheduledTransfersUseCaseToken, {
+        useClass: ExecuteScheduledTransfersApplicationService,
+    });
+
+    /**
+     * 定期送金の登録・照会・停止・再開・取り消し
+     */
+    container.register(CreateStandingOrderUseCaseToken, {
+        useClass: StandingOrderApplicationService,
+    });
+
+    container.register(GetStandingOrdersQueryToken, {
+        useClass: StandingOrderApplicationService,
+    });
+
+    container.register(PauseStandingOrderUseCaseToken, {
+        useClass: StandingOrderApplicationService,
+    });
+
+    container.register(ResumeStandingOrderUseCaseToken, {
+        useClass: StandingOrderApplicationService,
+    });
+
+    container.register(CancelStandingOrderUseCaseToken, {
+        useClass: StandingOrderApplicationService,
+    });
+
+    /**
+     * ExecuteStandingOrdersApplicationService: 次の実行時刻を過ぎた定期送金の実行
+     *
+     * 予約送金と同じ scheduled ハンドラーから呼ばれ、送金は SendMoneyUseCase に任せる。
+     * 失敗した場合は StandingOrderRetryPolicy に従って再試行・自動停止する
+     */
+    container.register(ExecuteStandingOrdersUseCaseToken, {
+        useClass: ExecuteStandingOrdersApplicationService,
+    });
+
     isInitialized = true;
     console.log(`✅ DI container initialized (Supabase: ${useSupabase ? 'enabled' : 'disabled'})`);
 }
@@ -0,0 +1,394 @@
+import {z} from 'zod';
+import type {AccountTier} from '../application/domain/model/AccountTier';
+import {ACCOUNT_TIERS} from '../application/domain/model/AccountTier';
+import {AccountId} from '../application/domain/model/Activity';
+import {CumulativeTransferLimit} from '../application/domain/model/CumulativeTransferLimit';
+import {Currency} from '../application/domain/model/Currency';
+import {Money} from '../application/domain/model/Money';
+import {StandingOrderRetryPolicy} from '../application/domain/model/StandingOrderRetryPolicy';
+import {TransferFeePolicy} from '../application/domain/model/TransferFeePolicy';
+import {TransferLimits} from '../application/domain/model/TransferLimits';
+import type {CloudflareBindings} from '../types/bindings';
+import type {TransferLimitsTable} from './types';
+
+/**
+ * 環境変数から読み込んだ送金ルール（起動時に一度だけ作成する）
+ */
+export interface TransferRules {
+    /** 限度額のチェックと手数料の計算に使う基準通貨 */
+    baseCurrency: Currency;
+
+    /** アカウントの区分ごとの送金限度額（基準通貨） */
+    limits: TransferLimitsTable;
+
+    /** 手数料を入金するアカウント（null の場合は手数料を請求しない） */
+    feeRevenueAccountId: AccountId | null;
+
+    /** 送金手数料の料金体系（基準通貨。feeRevenueAccountId が null の場合は使わない） */
+    feePolicy: TransferFeePolicy;
+
+    /** 定期送金が失敗したときの再試行と自動停止のルール */
+    standingOrderRetryPolicy: StandingOrderRetryPolicy;
+}
+
+/**
+ * 送金ルールの環境変数が不正な場合に起動時に投げるエラー
+ *
+ * 不正な変数をまとめて列挙する（1つずつ直してはデプロイし直す手間を省くため）
+ */
+export class InvalidTransferConfigurationError extends Error {
+    /**
+     * @param issues 不正な変数ごとのメッセージ（例: "TRANSFER_MAX_AMOUNT: must be a positive decimal amount"）
+     */
+    constructor(public readonly issues: readonly string[]) {
+        super(`Invalid transfer configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+
+        this.name = 'InvalidTransferConfigurationError';
+    }
+}
+
+/**
+ * 送金限度額の環境変数名
+ */
+type LimitVariable =
+    | 'TRANSFER_MAX_AMOUNT'
+    | 'TRANSFER_DAILY_LIMIT'
+    | 'TRANSFER_MONTHLY_LIMIT'
+    | 'TRANSFER_MAX_AMOUNT_VERIFIED'
+    | 'TRANSFER_DAILY_LIMIT_VERIFIED'
+    | 'TRANSFER_MONTHLY_LIMIT_VERIFIED'
+    | 'TRANSFER_MAX_AMOUNT_BUSINESS'
+    | 'TRANSFER_DAILY_LIMIT_BUSINESS'
+    | 'TRANSFER_MONTHLY_LIMIT_BUSINESS';
+
+/**
+ * 区分ごとの限度額（1回・直近24時間・直近30日）
+ *
+ * 「直近30日」は暦月ではなく、送金時刻から遡った固定の30日（CumulativeTransferLimit.monthly）
+ */
+interface TierLimitValues<T> {
+    maxAmount: T;
+    daily: T;
+    monthly: T;
+}
+
+/**
+ * 区分ごとの限度額を設定する環境変数
+ */
+const LIMIT_VARIABLES: Record<AccountTier, TierLimitValues<LimitVariable>> = {
+    BASIC: {
+        maxAmount: 'TRANSFER_MAX_AMOUNT',
+        daily: 'TRANSFER_DAILY_LIMIT',
+        monthly: 'TRANSFER_MONTHLY_LIMIT',
+    },
+    VERIFIED: {
+        maxAmount: 'TRANSFER_MAX_AMOUNT_VERIFIED',
+        daily: 'TRANSFER_DAILY_LIMIT_VERIFIED',
+        monthly: 'TRANSFER_MONTHLY_LIMIT_VERIFIED',
+    },
+    BUSINESS: {
+        maxAmount: 'TRANSFER_MAX_AMOUNT_BUSINESS',
+        daily: 'TRANSFER_DAILY_LIMIT_BUSINESS',
+        monthly: 'TRANSFER_MONTHLY_LIMIT_BUSINESS',
+    },
+};
+
+/**
+ * 環境変数が未設定の場合の限度額（基準通貨の補助単位）
+ *
+ * | 区分     | 1回        | 直近24時間  | 直近30日     |
+ * |----------|------------|-------------|--------------|
+ * | BASIC    | 100万円    | 300万円     | 1,000万円    |
+ * | VERIFIED | 500万円    | 1,000万円   | 3,000万円    |
+ * | BUSINESS | 5,000万円  | 1億円       | 3億円        |
+ */
+const DEFAULT_LIMITS_IN_MINOR_UNITS: Record<AccountTier, TierLimitValues<number>> = {
+    BASIC: {maxAmount: 1_000_000, daily: 3_000_000, monthly: 10_000_000},
+    VERIFIED: {maxAmount: 5_000_000, daily: 10_000_000, monthly: 30_000_000},
+    BUSINESS: {maxAmount: 50_000_000, daily: 100_000_000, monthly: 300_000_000},
+};
+
+/**
+ * 送金手数料の料金体系の値
+ *
+ * - flatUpTo 以下の送金: 定額 flatAmount
+ * - flatUpTo 超の送金: 送金額の basisPoints（1 bp = 0.01%）、下限 minimum・上限 maximum
+ */
+interface FeeScheduleValues<T> {
+    flatUpTo: T;
+    flatAmount: T;
+    basisPoints: number;
+    minimum: T;
+    maximum: T;
+}
+
+/**
+ * 送金手数料の料金体系を設定する環境変数（basisPoints 以外は基準通貨の金額）
+ */
+const FEE_AMOUNT_VARIABLES = {
+    flatUpTo: 'TRANSFER_FEE_FLAT_UP_TO',
+    flatAmount: 'TRANSFER_FEE_FLAT_AMOUNT',
+    minimum: 'TRANSFER_FEE_MINIMUM',
+    maximum: 'TRANSFER_FEE_MAXIMUM',
+} as const;
+
+type FeeAmountKey = keyof typeof FEE_AMOUNT_VARIABLES;
+type FeeAmountVariable = (typeof FEE_AMOUNT_VARIABLES)[FeeAmountKey];
+
+/**
+ * 環境変数が未設定の場合の手数料の料金体系（基準通貨ごと、金額は補助単位）
+ *
+ * 手数料は通貨ごとに金額の水準が違うため、限度額と違って補助単位の値を使い回さない
+ *
+ * | 基準通貨 | 定額の上限 | 定額     | 定率 | 下限     | 上限      |
+ * |----------|------------|----------|------|----------|-----------|
+ * | JPY      | 30,000円   | 110円    | 0.1% | 330円    | 1,100円   |
+ * | USD      | 200.00     | 1.00     | 0.1% | 3.00     | 10.00     |
+ * | EUR      | 200.00     | 1.00     | 0.1% | 3.00     | 10.00     |
+ * | GBP      | 200.00     | 0.80     | 0.1% | 2.50     | 8.50      |
+ */
+const DEFAULT_FEE_SCHEDULES_IN_MINOR_UNITS: Record<string, FeeScheduleValues<number>> = {
+    JPY: {flatUpTo: 30_000, flatAmount: 110, basisPoints: 10, minimum: 330, maximum: 1_100},
+    USD: {flatUpTo: 20_000, flatAmount: 100, basisPoints: 10, minimum: 300, maximum: 1_000},
+    EUR: {flatUpTo: 20_000, flatAmount: 100, basisPoints: 10, minimum: 300, maximum: 1_000},
+    GBP: {flatUpTo: 20_000, flatAmount: 80, basisPoints: 10, minimum: 250, maximum: 850},
+};
+
+/**
+ * 環境変数が未設定の場合の、定期送金の再試行と自動停止のルール
+ */
+const DEFAULT_STANDING_ORDER_MAX_RETRIES = 2;
+const DEFAULT_STANDING_ORDER_RETRY_INTERVAL_MINUTES = 60;
+const DEFAULT_STANDING_ORDER_PAUSE_AFTER_FAILURES = 5;
+
+/**
+ * 空文字列は未設定として扱う（wrangler の vars で "" を指定した場合など）
+ */
+function optionalVariable<T extends z.ZodType>(schema: T) {
+    return z.preprocess((value) => (value === '' ? undefined : value), schema.optional());
+}
+
+/**
+ * 金額の環境変数の形式（基準通貨の単位での10進数。例: JPY の "1000000"、USD の "10000.00"）
+ */
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+const AmountVariableSchema = optionalVariable(
+    z.string().regex(AMOUNT_PATTERN, 'must be a positive decimal amount in the base currency (e.g. "1000000")')
+);
+
+const limitVariableShape = Object.fromEntries(
+    Object.values(LIMIT_VARIABLES)
+        .flatMap((variables) => [variables.maxAmount, variables.daily, variables.monthly])
+        .map((name) => [name, AmountVariableSchema])
+) as Record<LimitVariable, typeof AmountVariableSchema>;
+
+const feeAmountVariableShape = Object.fromEntries(
+    Object.values(FEE_AMOUNT_VARIABLES).map((name) => [name, AmountVariableSchema])
+) as Record<FeeAmountVariable, typeof AmountVariableSchema>;
+
+const NonNegativeIntegerVariableSchema = optionalVariable(
+    z.string().regex(/^\d+$/, 'must be a non-negative integer').transform(Number)
+);
+
+const PositiveIntegerVariableSchema = optionalVariable(
+    z.string().regex(/^[1-9]\d*$/, 'must be a positive integer').transform(Number)
+);
+
+/**
+ * 送金ルールの環境変数のスキーマ
+ *
+ * 個々の変数の形式に加えて、通貨の補助単位の桁数と
+ * 「1回 ≦ 直近24時間 ≦ 直近30日」「手数料の下限 ≦ 上限」の大小関係を検証する
+ */
+const TransferEnvironmentSchema = z
+    .object({
+        BASE_CURRENCY: optionalVariable(
+            z.string().refine(isSupportedCurrency, 'must be a supported currency code (JPY, USD, EUR, GBP)')
+        ),
+        TRANSFER_FEE_REVENUE_ACCOUNT_ID: optionalVariable(
+            z.string().regex(/^\d+$/, 'must be a numeric account ID')
+        ),
+        TRANSFER_FEE_RATE_BASIS_POINTS: NonNegativeIntegerVariableSchema,
+        STANDING_ORDER_MAX_RETRIES: NonNegativeIntegerVariableSchema,
+        STANDING_ORDER_RETRY_INTERVAL_MINUTES: PositiveIntegerVariableSchema,
+        STANDING_ORDER_PAUSE_AFTER_FAILURES: PositiveIntegerVariableSchema,
+        ...limitVariableShape,
+        ...feeAmountVariableShape,
+    })
+    .superRefine((variables, ctx) => {
+        // 基準通貨が不正な場合は、金額の桁数を検証できない（基準通貨のエラーだけを報告する）
+        const baseCurrencyCode = variables.BASE_CURRENCY ?? 'JPY';
+        if (!isSupportedCurrency(baseCurrencyCode)) {
+            return;
+        }
+        const baseCurrency = Currency.of(baseCurrencyCode);
+
+        for (const tier of ACCOUNT_TIERS) {
+            const names = LIMIT_VARIABLES[tier];
+            const amounts: Partial<TierLimitValues<Money>> = {};
+
+            for (const key of ['maxAmount', 'daily', 'monthly'] as const) {
+                const value = variables[names[key]];
+                if (value === undefined) {
+                    amounts[key] = Money.of(DEFAULT_LIMITS_IN_MINOR_UNITS[tier][key], baseCurrency);
+                    continue;
+                }
+                if (!AMOUNT_PATTERN.test(value)) {
+                    // 形式のエラーは変数のスキーマで報告済み
+                    continue;
+                }
+
+                const amount = parseAmount(value, baseCurrency);
+                if (amount === null) {
+                    ctx.addIssue({
+                        code: 'custom',
+                        path: [names[key]],
+                        message: `must have at most ${baseCurrency.minorUnits.toString()} decimal places for ${baseCurrency.code}`,
+                    });
+                } else if (!amount.isPositive()) {
+                    ctx.addIssue({code: 'custom', path: [names[key]], message: 'must be greater than 0'});
+                } else {
+                    amounts[key] = amount;
+                }
+            }
+
+            const {maxAmount, daily, monthly} = amounts;
+            if (maxAmount && daily && maxAmount.isGreaterThan(daily)) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: [names.maxAmount],
+                    message: `must not be greater than the daily limit (${daily.toDecimalString()} ${baseCurrency.code})`,
+                });
+            }
+            if (daily && monthly && daily.isGreaterThan(monthly)) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: [names.daily],
+                    message: `must not be greater than the monthly limit (${monthly.toDecimalString()} ${baseCurrency.code})`,
+                });
+            }
+        }
+
+        // 手数料の金額（定額の上限だけは0より大きく、それ以外は0でもよい）
+        const feeAmounts: Partial<Record<FeeAmountKey, Money>> = {};
+        for (const key of Object.keys(FEE_AMOUNT_VARIABLES) as FeeAmountKey[]) {
+            const name = FEE_AMOUNT_VARIABLES[key];
+            const value = variables[name];
+            if (value === undefined) {
+                feeAmounts[key] = Money.of(DEFAULT_FEE_SCHEDULES_IN_MINOR_UNITS[baseCurrency.code][key], baseCurrency);
+                continue;
+            }
+            if (!AMOUNT_PATTERN.test(value)) {
+                continue;
+            }
+
+            const amount = parseAmount(value, baseCurrency);
+            if (amount === null) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: [name],
+                    message: `must have at most ${baseCurrency.minorUnits.toString()} decimal places for ${baseCurrency.code}`,
+                });
+            } else if (key === 'flatUpTo' && !amount.isPositive()) {
+                ctx.addIssue({code: 'custom', path: [name], message: 'must be greater than 0'});
+            } else {
+                feeAmounts[key] = amount;
+            }
+        }
+
+        const {minimum, maximum} = feeAmounts;
+        if (minimum && maximum && minimum.isGreaterThan(maximum)) {
+            ctx.addIssue({
+                code: 'custom',
+                path: [FEE_AMOUNT_VARIABLES.minimum],
+                message: `must not be greater than the maximum fee (${maximum.toDecimalString()} ${baseCurrency.code})`,
+            });
+        }
+    });
+
+/**
+ * 環境変数から送金ルールを読み込む
+ *
+ * 未設定の変数には既定値を使う。不正な変数が1つでもあれば、起動を止める
+ *
+ * @throws InvalidTransferConfigurationError 不正な環境変数がある場合（不正な変数をすべて列挙する）
+ */
+export function parseTransferRules(env: CloudflareBindings): TransferRules {
+    const result = TransferEnvironmentSchema.safeParse(env);
+    if (!result.success) {
+        throw new InvalidTransferConfigurationError(
+            result.error.issues.map((issue) => `${issue.path.map(String).join('.')}: ${issue.message}`)
+        );
+    }
+
+    const variables = result.data;
+    const baseCurrency = Currency.of(variables.BASE_CURRENCY ?? 'JPY');
+
+    const amountOf = (tier: AccountTier, key: keyof TierLimitValues<unknown>): Money => {
+        const value = variables[LIMIT_VARIABLES[tier][key]];
+        return value === undefined
+            ? Money.of(DEFAULT_LIMITS_IN_MINOR_UNITS[tier][key], baseCurrency)
+            : Money.parse(value, baseCurrency);
+    };
+
+    const defaultFeeSchedule = DEFAULT_FEE_SCHEDULES_IN_MINOR_UNITS[baseCurrency.code];
+    const feeAmountOf = (key: FeeAmountKey): Money => {
+        const value = variables[FEE_AMOUNT_VARIABLES[key]];
+        return value === undefined
+            ? Money.of(defaultFeeSchedule[key], baseCurrency)
+            : Money.parse(value, baseCurrency);
+    };
+
+    const limitsOf = (tier: AccountTier): TransferLimits =>
+        new TransferLimits(amountOf(tier, 'maxAmount'), [
+            CumulativeTransferLimit.daily(amountOf(tier, 'daily')),
+            CumulativeTransferLimit.monthly(amountOf(tier, 'monthly')),
+        ]);
+
+    return {
+        baseCurrency,
+        limits: {
+            BASIC: limitsOf('BASIC'),
+            VERIFIED: limitsOf('VERIFIED'),
+            BUSINESS: limitsOf('BUSINESS'),
+        },
+        feeRevenueAccountId: variables.TRANSFER_FEE_REVENUE_ACCOUNT_ID !== undefined
+            ? new AccountId(BigInt(variables.TRANSFER_FEE_REVENUE_ACCOUNT_ID))
+            : null,
+        feePolicy: TransferFeePolicy.tiered([
+            {upTo: feeAmountOf('flatUpTo'), policy: TransferFeePolicy.flat(feeAmountOf('flatAmount'))},
+            {
+                upTo: null,
+                policy: TransferFeePolicy
+                    .basisPoints(variables.TRANSFER_FEE_RATE_BASIS_POINTS ?? defaultFeeSchedule.basisPoints)
+                    .withCaps({minimum: feeAmountOf('minimum'), maximum: feeAmountOf('maximum')}),
+            },
+        ]),
+        standingOrderRetryPolicy: new StandingOrderRetryPolicy(
+            variables.STANDING_ORDER_MAX_RETRIES ?? DEFAULT_STANDING_ORDER_MAX_RETRIES,
+            variables.STANDING_ORDER_RETRY_INTERVAL_MINUTES ?? DEFAULT_STANDING_ORDER_RETRY_INTERVAL_MINUTES,
+            variables.STANDING_ORDER_PAUSE_AFTER_FAILURES ?? DEFAULT_STANDING_ORDER_PAUSE_AFTER_FAILURES
+        ),
+    };
+}
+
+function isSupportedCurrency(code: string): boolean {
+    try {
+        Currency.of(code);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 基準通貨の金額として読み込む（小数点以下の桁数が多すぎる場合は null）
+ */
+function parseAmount(value: string, currency: Currency): Money | null {
+    try {
+        return Money.parse(value, currency);
+    } catch {
+        return null;
+    }
+}
@@ -1,5 +1,8 @@
 import type {SupabaseClient} from '@supabase/supabase-js';
 import type {Database} from '../../supabase/database';
+import type {AccountLockDurableObject} from '../adapter/out/persistence/AccountLockDurableObject';
+import type {AccountTier} from '../application/domain/model/AccountTier';
+import type {TransferLimits} from '../application/domain/model/TransferLimits';
 
 /**
  * データベース接続設定
@@ -9,13 +12,36 @@ export interface DatabaseConfig {
     key: string;
 }
 
+/**
+ * 外部の為替レートAPIの接続設定
+ */
+export interface ExchangeRateApiConfig {
+    /** APIのベースURL（例: http://localhost:8788） */
+    baseUrl: string;
+    /** 1回のリクエストのタイムアウト（ミリ秒） */
+    timeoutMs: number;
+}
+
+/**
+ * アカウントの区分ごとの送金限度額の表
+ */
+export type TransferLimitsTable = Readonly<Record<AccountTier, TransferLimits>>;
+
 /**
  * 型付きSupabaseClient
  */
 export type TypedSupabaseClient = SupabaseClient<Database>;
 
+/**
+ * アカウントロック用 Durable Object の名前空間（ACCOUNT_LOCK バインディング）
+ */
+export type AccountLockNamespace = DurableObjectNamespace<AccountLockDurableObject>;
+
 /**
  * DI用のトークン
  */
 export const DatabaseConfigToken = Symbol('DatabaseConfig');
-export const SupabaseClientToken = Symbol('SupabaseClient');
\ No newline at end of file
+export const SupabaseClientToken = Symbol('SupabaseClient');
+export const AccountLockNamespaceToken = Symbol('AccountLockNamespace');
+export const ExchangeRateApiConfigToken = Symbol('ExchangeRateApiConfig');
+export const TransferLimitsTableToken = Symbol('TransferLimitsTable');
@@ -1,6 +1,34 @@
 import 'reflect-metadata';
 import {Hono} from 'hono';
 import {container} from "tsyringe";
+import {scheduledHandler} from "./adapter/in/scheduler/scheduledHandler";
+import {batchTransferRouter} from "./adapter/in/web/BatchTransferController";
+import {cancelScheduledTransferRouter} from "./adapter/in/web/CancelScheduledTransferController";
+import {cancelStandingOrderRouter} from "./adapter/in/web/CancelStandingOrderController";
+import {changeAccountTierRouter} from "./adapter/in/web/ChangeAccountTierController";
+import {changeOverdraftLimitRouter} from "./adapter/in/web/ChangeOverdraftLimitController";
+import {closeAccountRouter} from "./adapter/in/web/CloseAccountController";
+import {createAccountRouter} from "./adapter/in/web/CreateAccountController";
+import {createExchangeRateQuoteRouter} from "./adapter/in/web/CreateExchangeRateQuoteController";
+import {createStandingOrderRouter} from "./adapter/in/web/CreateStandingOrderController";
+import {errorHandler} from "./adapter/in/web/errors/errorHandler";
+import {forceReverseTransferRouter} from "./adapter/in/web/ForceReverseTransferController";
+import {freezeAccountRouter} from "./adapter/in/web/FreezeAccountController";
+import {getAccountActivitiesRouter} from "./adapter/in/web/GetAccountActivitiesController";
+import {getAccountBalanceRouter} from "./adapter/in/web/GetAccountBalanceController";
+import {getAccountScheduledTransfersRouter} from "./adapter/in/web/GetAccountScheduledTransfersController";
+import {getAccountStandingOrdersRouter} from "./adapter/in/web/GetAccountStandingOrdersController";
+import {getAccountTierRouter} from "./adapter/in/web/GetAccountTierController";
+import {getScheduledTransferRouter} from "./adapter/in/web/GetScheduledTransferController";
+import {getStandingOrderRouter} from "./adapter/in/web/GetStandingOrderController";
+import {getTransferConfigurationRouter} from "./adapter/in/web/GetTransferConfigurationController";
+import {getTransferRouter} from "./adapter/in/web/GetTransferController";
+import {adminAuth} from "./adapter/in/web/middleware/adminAuth";
+import {openApiRouter} from "./adapter/in/web/OpenApiController";
+import {pauseStandingOrderRouter} from "./adapter/in/web/PauseStandingOrderController";
+import {quoteTransferRouter} from "./adapter/in/web/QuoteTransferController";
+import {resumeStandingOrderRouter} from "./adapter/in/web/ResumeStandingOrderController";
+import {reverseTransferRouter} from "./adapter/in/web/ReverseTransferController";
 import {sendMoneyRouter} from "./adapter/in/web/SendMoneyController";
 import {setupContainer} from './config/container';
 import type {DatabaseConfig} from "./config/types";
@@ -8,7 +36,7 @@ import {DatabaseConfigToken} from "./config/types";
 import type {CloudflareBindings} from './types/bindings';
 
 // Honoアプリケーションに型を適用
-const app = new Hono<{ Bindings: CloudflareBindings }>();
+export const app = new Hono<{ Bindings: CloudflareBindings }>();
 
 // ルートエンドポイント
 app.get('/', (c) => {
@@ -17,7 +45,34 @@ app.get('/', (c) => {
         version: '1.0.0',
         endpoints: {
             sendMoney: 'POST /api/accounts/send/:sourceAccountId/:targetAccountId/:amount',
-            getBalance: 'GET /api/accounts/:accountId/balance (coming soon)',
+            quoteTransfer: 'POST /api/transfers/quote',
+            batchTransfer: 'POST /api/transfers/batch',
+            getTransfer: 'GET /api/transfers/:transferId',
+            reverseTransfer: 'POST /api/transfers/:transferId/reverse',
+            getBalance: 'GET /api/accounts/:accountId/balance',
+            getActivities: 'GET /api/accounts/:accountId/activities',
+            createAccount: 'POST /api/accounts',
+            freezeAccount: 'POST /api/accounts/:accountId/freeze',
+            closeAccount: 'POST /api/accounts/:accountId/close',
+            createExchangeRateQuote: 'POST /api/exchange-rates/quotes',
+            getAccountTier: 'GET /api/admin/accounts/:accountId/tier',
+            changeAccountTier: 'PUT /api/admin/accounts/:accountId/tier',
+            changeOverdraftLimit: 'PUT /api/admin/accounts/:accountId/overdraft-limit',
+            getTransferConfiguration: 'GET /api/admin/transfer-config',
+            forceReverseTransfer: 'POST /api/admin/transfers/:transferId/force-reverse',
+            getScheduledTransfer: 'GET /api/scheduled-transfers/:scheduledTransferId',
+            getAccountScheduledTransfers: 'GET /api/accounts/:accountId/scheduled-transfers',
+            cancelScheduledTransfer: 'POST /api/scheduled-transfers/:scheduledTransferId/cancel',
+            createStandingOrder: 'POST /api/standing-orders',
+            getStandingOrder: 'GET /api/standing-orders/:standingOrderId',
+            getAccountStandingOrders: 'GET /api/accounts/:accountId/standing-orders',
+            pauseStandingOrder: 'POST /api/standing-orders/:standingOrderId/pause',
+            resumeStandingOrder: 'POST /api/standing-orders/:standingOrderId/resume',
+            cancelStandingOrder: 'POST /api/standing-orders/:standingOrderId/cancel',
+        },
+        docs: {
+            openApi: 'GET /openapi.json',
+            reference: 'GET /docs',
         },
     });
 });
@@ -30,8 +85,42 @@ app.use('*', async (c, next) => {
     await next();
 });
 
+// 管理者向けAPIは、ルーターをマウントする前に認証する（ADMIN_API_TOKEN の Bearer トークンが必要）
+app.use('/api/admin/*', adminAuth);
+
 // APIルーターをマウント
 app.route('/api', sendMoneyRouter);
+app.route('/api', quoteTransferRouter);
+app.route('/api', batchTransferRouter);
+app.route('/api', getTransferRouter);
+app.route('/api', reverseTransferRouter);
+app.route('/api', getAccountBalanceRouter);
+app.route('/api', getAccountActivitiesRouter);
+app.route('/api', createAccountRouter);
+app.route('/api', freezeAccountRouter);
+app.route('/api', closeAccountRouter);
+app.route('/api', createExchangeRateQuoteRouter);
+app.route('/api', getAccountTierRouter);
+app.route('/api', changeAccountTierRouter);
+app.route('/api', changeOverdraftLimitRouter);
+app.route('/api', getTransferConfigurationRouter);
+app.route('/api', forceReverseTransferRouter);
+app.route('/api', getScheduledTransferRouter);
+app.route('/api', getAccountScheduledTransfersRouter);
+app.route('/api', cancelScheduledTransferRouter);
+app.route('/api', createStandingOrderRouter);
+app.route('/api', getStandingOrderRouter);
+app.route('/api', getAccountStandingOrdersRouter);
+app.route('/api', pauseStandingOrderRouter);
+app.route('/api', resumeStandingOrderRouter);
+app.route('/api', cancelStandingOrderRouter);
+
+// APIドキュメント（OpenAPI 3.1 と Scalar のリファレンスUI）
+app.route('/', openApiRouter);
+
+// ルートで投げられた例外をHTTPレスポンスに変換する
+// （ドメイン例外 → ステータスコード・エラーコードの対応は domainErrorMappings に集約）
+app.onError(errorHandler);
 
 // ヘルスチェックエンドポイント
 app.get('/health', (c) => {
@@ -45,4 +134,13 @@ app.get('/health', (c) => {
     });
 });
 
-export default app;
\ No newline at end of file
+// Durable Object クラスは Worker のメインモジュールからエクスポートする必要がある
+// （wrangler.jsonc の durable_objects.bindings で参照される）
+export {AccountLockDurableObject} from './adapter/out/persistence/AccountLockDurableObject';
+
+// HTTPリクエストは Hono のアプリ、Cron Trigger は予約送金・定期送金のハンドラーで処理する
+// （Cron の間隔は wrangler.jsonc の triggers.crons で設定する）
+export default {
+    fetch: app.fetch,
+    scheduled: scheduledHandler,
+} satisfies ExportedHandler<CloudflareBindings>;
@@ -1,3 +1,5 @@
+import type {AccountLockNamespace} from '../config/types';
+
 /**
  * Cloudflare Workers の環境変数とバインディングの型定義
  */
@@ -6,4 +8,56 @@ export interface CloudflareBindings {
     USE_SUPABASE: string;
     SUPABASE_URL: string;
     SUPABASE_PUBLISHABLE_KEY: string;
-}
\ No newline at end of file
+
+    // 送金限度額の基準通貨（ISO 4217、未設定の場合は JPY）
+    BASE_CURRENCY?: string;
+
+    // 送金手数料を入金するアカウントのID（基準通貨のアカウント）
+    // （未設定の場合は手数料を請求しない）
+    TRANSFER_FEE_REVENUE_ACCOUNT_ID?: string;
+
+    // 送金限度額（基準通貨の単位での10進数。例: JPY の "1000000"、USD の "10000.00"）
+    // 接尾辞なしは BASIC、_VERIFIED / _BUSINESS はそれぞれの区分の限度額
+    // DAILY は直近24時間、MONTHLY は直近30日（暦月ではなく固定の30日）の出金合計の上限
+    // （未設定の場合は既定値。起動時に src/config/transferRules.ts で検証する）
+    TRANSFER_MAX_AMOUNT?: string;
+    TRANSFER_DAILY_LIMIT?: string;
+    TRANSFER_MONTHLY_LIMIT?: string;
+    TRANSFER_MAX_AMOUNT_VERIFIED?: string;
+    TRANSFER_DAILY_LIMIT_VERIFIED?: string;
+    TRANSFER_MONTHLY_LIMIT_VERIFIED?: string;
+    TRANSFER_MAX_AMOUNT_BUSINESS?: string;
+    TRANSFER_DAILY_LIMIT_BUSINESS?: string;
+    TRANSFER_MONTHLY_LIMIT_BUSINESS?: string;
+
+    // 送金手数料の料金体系（TRANSFER_FEE_REVENUE_ACCOUNT_ID を設定した場合のみ使う。未設定の場合は基準通貨ごとの既定値）
+    // - TRANSFER_FEE_FLAT_UP_TO: この金額以下の送金は定額（基準通貨の金額）
+    // - TRANSFER_FEE_FLAT_AMOUNT: 定額の手数料（基準通貨の金額）
+    // - TRANSFER_FEE_RATE_BASIS_POINTS: 定額の上限を超える送金の手数料率（1 bp = 0.01%、0以上の整数）
+    // - TRANSFER_FEE_MINIMUM / TRANSFER_FEE_MAXIMUM: 定率の手数料の下限・上限（基準通貨の金額）
+    TRANSFER_FEE_FLAT_UP_TO?: string;
+    TRANSFER_FEE_FLAT_AMOUNT?: string;
+    TRANSFER_FEE_RATE_BASIS_POINTS?: string;
+    TRANSFER_FEE_MINIMUM?: string;
+    TRANSFER_FEE_MAXIMUM?: string;
+
+    // 定期送金が失敗したときの再試行と自動停止（0以上の整数。未設定の場合は既定値）
+    // - STANDING_ORDER_MAX_RETRIES: 1回の実行日時あたりの再試行の回数（既定値: 2）
+    // - STANDING_ORDER_RETRY_INTERVAL_MINUTES: 再試行の間隔（分、既定値: 60）
+    // - STANDING_ORDER_PAUSE_AFTER_FAILURES: 自動で停止するまでの連続失敗の回数（既定値: 5）
+    STANDING_ORDER_MAX_RETRIES?: string;
+    STANDING_ORDER_RETRY_INTERVAL_MINUTES?: string;
+    STANDING_ORDER_PAUSE_AFTER_FAILURES?: string;
+
+    // 外部の為替レートAPIのベースURL
+    // （未設定の場合は固定レート表にフォールバックする）
+    EXCHANGE_RATE_API_URL?: string;
+
+    // 管理者向けAPI（/api/admin/*）のトークン（Authorization: Bearer <トークン> で送る）
+    // 本番では `wrangler secret put ADMIN_API_TOKEN` で設定する（未設定の場合は管理者向けAPIをすべて 403 で拒否する）
+    ADMIN_API_TOKEN?: string;
+
+    // Durable Object バインディング
+    // （未設定の場合はプロセス内ロックにフォールバックする）
+    ACCOUNT_LOCK?: AccountLockNamespace;
+}
@@ -12,45 +12,87 @@ export type Database = {
       accounts: {
         Row: {
           created_at: string
+          currency: string
           id: number
+          overdraft_limit: number
+          status: string
+          tier: string
         }
         Insert: {
           created_at?: string
-          id: number
+          currency?: string
+          id?: number
+          overdraft_limit?: number
+          status?: string
+          tier?: string
         }
         Update: {
           created_at?: string
+          currency?: string
           id?: number
+          overdraft_limit?: number
+          status?: string
+          tier?: string
         }
         Relationships: []
       }
       activities: {
         Row: {
           amount: number
+          conversion_rate: string | null
+          conversion_source_amount: number | null
+          conversion_source_currency: string | null
+          conversion_target_amount: number | null
+          conversion_target_currency: string | null
           created_at: string
+          currency: string
           id: number
+          memo: string | null
           owner_account_id: number
+          reference: string | null
+          reversal_of_activity_id: number | null
           source_account_id: number | null
           target_account_id: number | null
           timestamp: string
+          transfer_id: string | null
         }
         Insert: {
           amount: number
+          conversion_rate?: string | null
+          conversion_source_amount?: number | null
+          conversion_source_currency?: string | null
+          conversion_target_amount?: number | null
+          conversion_target_currency?: string | null
           created_at?: string
+          currency?: string
           id?: number
+          memo?: string | null
           owner_account_id: number
+          reference?: string | null
+          reversal_of_activity_id?: number | null
           source_account_id?: number | null
           target_account_id?: number | null
           timestamp: string
+          transfer_id?: string | null
         }
         Update: {
           amount?: number
+          conversion_rate?: string | null
+          conversion_source_amount?: number | null
+          conversion_source_currency?: string | null
+          conversion_target_amount?: number | null
+          conversion_target_currency?: string | null
           created_at?: string
+          currency?: string
           id?: number
+          memo?: string | null
           owner_account_id?: number
+          reference?: string | null
+          reversal_of_activity_id?: number | null
           source_account_id?: number | null
           target_account_id?: number | null
           timestamp?: string
+          transfer_id?: string | null
         }
         Relationships: [
           {
@@ -60,6 +102,13 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_reversal_of_activity_id_fkey"
+            columns: ["reversal_of_activity_id"]
+            isOneToOne: true
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "activities_source_account_id_fkey"
             columns: ["source_account_id"]
@@ -74,6 +123,351 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          created_at: string
+          key: string
+          request_fingerprint: string
+          reserved_at: string
+          response_body: Json | null
+          response_status: number | null
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          request_fingerprint: string
+          reserved_at?: string
+          response_body?: Json | null
+          response_status?: number | null
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          request_fingerprint?: string
+          reserved_at?: string
+          response_body?: Json | null
+          response_status?: number | null
+        }
+        Relationships: []
+      }
+      exchange_rate_quotes: {
+        Row: {
+          created_at: string
+          expires_at: string
+          from_currency: string
+          id: string
+          rate: string
+          to_currency: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          from_currency: string
+          id: string
+          rate: string
+          to_currency: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          from_currency?: string
+          id?: string
+          rate?: string
+          to_currency?: string
+        }
+        Relationships: []
+      }
+      scheduled_transfers: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          currency: string
+          execute_at: string
+          failure_message: string | null
+          failure_reason: string | null
+          id: string
+          processing_started_at: string | null
+          source_account_id: number
+          status: string
+          target_account_id: number
+          transfer_id: string | null
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          created_at?: string
+          currency: string
+          execute_at: string
+          failure_message?: string | null
+          failure_reason?: string | null
+          id: string
+          processing_started_at?: string | null
+          source_account_id: number
+          status?: string
+          target_account_id: number
+          transfer_id?: string | null
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          execute_at?: string
+          failure_message?: string | null
+          failure_reason?: string | null
+          id?: string
+          processing_started_at?: string | null
+          source_account_id?: number
+          status?: string
+          target_account_id?: number
+          transfer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_transfers_source_account_id_fkey"
+            columns: ["source_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transfers_target_account_id_fkey"
+            columns: ["target_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      standing_order_runs: {
+        Row: {
+          attempt: number
+          executed_at: string
+          failure_message: string | null
+          failure_reason: string | null
+          id: string
+          occurrence_at: string
+          outcome: string
+          standing_order_id: string
+        }
+        Insert: {
+          attempt: number
+          executed_at: string
+          failure_message?: string | null
+          failure_reason?: string | null
+          id: string
+          occurrence_at: string
+          outcome: string
+          standing_order_id: string
+        }
+        Update: {
+          attempt?: number
+          executed_at?: string
+          failure_message?: string | null
+          failure_reason?: string | null
+          id?: string
+          occurrence_at?: string
+          outcome?: string
+          standing_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standing_order_runs_standing_order_id_fkey"
+            columns: ["standing_order_id"]
+            isOneToOne: false
+            referencedRelation: "standing_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      standing_orders: {
+        Row: {
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          cron_expression: string | null
+          currency: string
+          day_of_month: number | null
+          id: string
+          next_run_at: string
+          occurrence_at: string
+          pause_reason: string | null
+          retry_count: number
+          run_started_at: string | null
+          run_transfer_id: string | null
+          schedule_type: string
+          source_account_id: number
+          status: string
+          target_account_id: number
+          time_of_day: string | null
+        }
+        Insert: {
+          amount: number
+          consecutive_failures?: number
+          created_at?: string
+          cron_expression?: string | null
+          currency: string
+          day_of_month?: number | null
+          id: string
+          next_run_at: string
+          occurrence_at: string
+          pause_reason?: string | null
+          retry_count?: number
+          run_started_at?: string | null
+          run_transfer_id?: string | null
+          schedule_type: string
+          source_account_id: number
+          status?: string
+          target_account_id: number
+          time_of_day?: string | null
+        }
+        Update: {
+          amount?: number
+          consecutive_failures?: number
+          created_at?: string
+          cron_expression?: string | null
+          currency?: string
+          day_of_month?: number | null
+          id?: string
+          next_run_at?: string
+          occurrence_at?: string
+          pause_reason?: string | null
+          retry_count?: number
+          run_started_at?: string | null
+          run_transfer_id?: string | null
+          schedule_type?: string
+          source_account_id?: number
+          status?: string
+          target_account_id?: number
+          time_of_day?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standing_orders_source_account_id_fkey"
+            columns: ["source_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standing_orders_target_account_id_fkey"
+            columns: ["target_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfer_reversals: {
+        Row: {
+          forced: boolean
+          id: string
+          original_activity_ids: number[]
+          reason: string
+          reversed_at: string
+          transfer_activity_id: number | null
+          transfer_id: string | null
+        }
+        Insert: {
+          forced?: boolean
+          id: string
+          original_activity_ids: number[]
+          reason: string
+          reversed_at: string
+          transfer_activity_id?: number | null
+          transfer_id?: string | null
+        }
+        Update: {
+          forced?: boolean
+          id?: string
+          original_activity_ids?: number[]
+          reason?: string
+          reversed_at?: string
+          transfer_activity_id?: number | null
+          transfer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfer_reversals_transfer_activity_id_fkey"
+            columns: ["transfer_activity_id"]
+            isOneToOne: true
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfer_reversals_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: true
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          deposited_amount: number
+          deposited_currency: string
+          fee_amount: number
+          id: string
+          reference: string | null
+          source_account_id: number
+          status: string
+          target_account_id: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          deposited_amount: number
+          deposited_currency: string
+          fee_amount?: number
+          id: string
+          reference?: string | null
+          source_account_id: number
+          status?: string
+          target_account_id: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          deposited_amount?: number
+          deposited_currency?: string
+          fee_amount?: number
+          id?: string
+          reference?: string | null
+          source_account_id?: number
+          status?: string
+          target_account_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_source_account_id_fkey"
+            columns: ["source_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_target_account_id_fkey"
+            columns: ["target_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -81,7 +475,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      persist_transfer: {
+        Args: {
+          p_activities: Json
+          p_balance_check_account_ids: number[]
+          p_transfer: Json
+        }
+        Returns: undefined
+      }
+      persist_transfers: {
+        Args: {
+          p_activities: Json
+          p_balance_check_account_ids: number[]
+          p_transfers: Json
+        }
+        Returns: undefined
+      }
+      reverse_transfer: {
+        Args: {
+          p_activities: Json
+          p_balance_check_account_ids: number[]
+          p_reversal: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,40 @@
+create table "public"."idempotency_keys" (
+    "key" text not null,
+    "request_fingerprint" text not null,
+    "response_status" integer,
+    "response_body" jsonb,
+    "created_at" timestamp with time zone not null default now()
+);
+
+
+CREATE UNIQUE INDEX idempotency_keys_pkey ON public.idempotency_keys USING btree (key);
+
+alter table "public"."idempotency_keys" add constraint "idempotency_keys_pkey" PRIMARY KEY using index "idempotency_keys_pkey";
+
+alter table "public"."idempotency_keys" add constraint "idempotency_keys_response_check" CHECK (((response_status IS NULL) = (response_body IS NULL))) not valid;
+
+alter table "public"."idempotency_keys" validate constraint "idempotency_keys_response_check";
+
+grant delete on table "public"."idempotency_keys" to "anon";
+
+grant insert on table "public"."idempotency_keys" to "anon";
+
+grant select on table "public"."idempotency_keys" to "anon";
+
+grant update on table "public"."idempotency_keys" to "anon";
+
+grant delete on table "public"."idempotency_keys" to "authenticated";
+
+grant insert on table "public"."idempotency_keys" to "authenticated";
+
+grant select on table "public"."idempotency_keys" to "authenticated";
+
+grant update on table "public"."idempotency_keys" to "authenticated";
+
+grant delete on table "public"."idempotency_keys" to "service_role";
+
+grant insert on table "public"."idempotency_keys" to "service_role";
+
+grant select on table "public"."idempotency_keys" to "service_role";
+
+grant update on table "public"."idempotency_keys" to "service_role";
@@ -0,0 +1,64 @@
+-- 送金で発生したアクティビティを1つのトランザクションで保存する関数
+--
+-- p_activities:                 挿入するアクティビティ（activities テーブルの列と同じキーを持つJSON配列）
+-- p_balance_check_account_ids:  挿入後に残高が0以上であることを確認するアカウント
+--
+-- 残高が不足した場合は 'insufficient_balance' 例外を投げ、すべての挿入がロールバックされる。
+-- detail には {"account_id": ..., "balance": ...}（不足が判明した時点の残高）を格納する。
+create or replace function "public"."persist_transfer"(
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    insert into "public"."activities" ("timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount")
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        if v_balance < 0 then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object('account_id', v_account_id, 'balance', v_balance)::text;
+        end if;
+    end loop;
+end;
+$$;
+
+grant execute on function "public"."persist_transfer"(jsonb, bigint[]) to "anon";
+
+grant execute on function "public"."persist_transfer"(jsonb, bigint[]) to "authenticated";
+
+grant execute on function "public"."persist_transfer"(jsonb, bigint[]) to "service_role";
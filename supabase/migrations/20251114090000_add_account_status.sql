@@ -0,0 +1,14 @@
+create sequence "public"."accounts_id_seq";
+
+alter table "public"."accounts" add column "status" text not null default 'ACTIVE'::text;
+
+alter sequence "public"."accounts_id_seq" owned by "public"."accounts"."id";
+
+-- 既存のアカウント（手動で挿入されたID）の次の番号から採番する
+select setval('public.accounts_id_seq', coalesce((select max(id) from public.accounts), 0) + 1, false);
+
+alter table "public"."accounts" alter column "id" set default nextval('accounts_id_seq'::regclass);
+
+alter table "public"."accounts" add constraint "accounts_status_check" CHECK ((status = ANY (ARRAY['ACTIVE'::text, 'FROZEN'::text, 'CLOSED'::text]))) not valid;
+
+alter table "public"."accounts" validate constraint "accounts_status_check";
@@ -0,0 +1,70 @@
+-- アカウントとアクティビティに通貨（ISO 4217 の通貨コード）を追加する
+--
+-- 既存の行はすべて日本円として扱う。
+-- amount は通貨の補助単位（JPY は円、USD はセント）で保持する。
+alter table "public"."accounts" add column "currency" text not null default 'JPY'::text;
+
+alter table "public"."accounts" add constraint "accounts_currency_check" CHECK ((currency ~ '^[A-Z]{3}$'::text)) not valid;
+
+alter table "public"."accounts" validate constraint "accounts_currency_check";
+
+alter table "public"."activities" add column "currency" text not null default 'JPY'::text;
+
+alter table "public"."activities" add constraint "activities_currency_check" CHECK ((currency ~ '^[A-Z]{3}$'::text)) not valid;
+
+alter table "public"."activities" validate constraint "activities_currency_check";
+
+-- persist_transfer が通貨も挿入するように更新する（シグネチャは変更しない）
+create or replace function "public"."persist_transfer"(
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    insert into "public"."activities" ("timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency")
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY')
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- アカウントは1つの通貨だけを扱うため、通貨ごとの集計は不要
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        if v_balance < 0 then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object('account_id', v_account_id, 'balance', v_balance)::text;
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,116 @@
+-- 通貨をまたぐ送金の換算を記録する
+--
+-- 送金元の出金アクティビティと送金先の入金アクティビティの両方に、
+-- 適用したレートと換算前後の金額（補助単位）を記録する。
+-- 同じ通貨同士の送金ではすべて null。
+-- レートは誤差を避けるため10進数の文字列で保存する。
+alter table "public"."activities" add column "conversion_rate" text;
+
+alter table "public"."activities" add column "conversion_source_amount" bigint;
+
+alter table "public"."activities" add column "conversion_source_currency" text;
+
+alter table "public"."activities" add column "conversion_target_amount" bigint;
+
+alter table "public"."activities" add column "conversion_target_currency" text;
+
+alter table "public"."activities" add constraint "activities_conversion_check" CHECK ((
+    (conversion_rate IS NULL) = (conversion_source_amount IS NULL)
+    AND (conversion_rate IS NULL) = (conversion_source_currency IS NULL)
+    AND (conversion_rate IS NULL) = (conversion_target_amount IS NULL)
+    AND (conversion_rate IS NULL) = (conversion_target_currency IS NULL)
+)) not valid;
+
+alter table "public"."activities" validate constraint "activities_conversion_check";
+
+-- 為替レートの見積もり（有効期限内であれば送金リクエストから参照できる）
+create table "public"."exchange_rate_quotes" (
+    "id" text not null,
+    "from_currency" text not null,
+    "to_currency" text not null,
+    "rate" text not null,
+    "created_at" timestamp with time zone not null default now(),
+    "expires_at" timestamp with time zone not null
+);
+
+CREATE UNIQUE INDEX exchange_rate_quotes_pkey ON public.exchange_rate_quotes USING btree (id);
+
+alter table "public"."exchange_rate_quotes" add constraint "exchange_rate_quotes_pkey" PRIMARY KEY using index "exchange_rate_quotes_pkey";
+
+grant insert on table "public"."exchange_rate_quotes" to "anon";
+
+grant select on table "public"."exchange_rate_quotes" to "anon";
+
+grant insert on table "public"."exchange_rate_quotes" to "authenticated";
+
+grant select on table "public"."exchange_rate_quotes" to "authenticated";
+
+grant insert on table "public"."exchange_rate_quotes" to "service_role";
+
+grant select on table "public"."exchange_rate_quotes" to "service_role";
+
+-- persist_transfer が換算も挿入するように更新する（シグネチャは変更しない）
+create or replace function "public"."persist_transfer"(
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    insert into "public"."activities" (
+        "timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency",
+        "conversion_rate", "conversion_source_amount", "conversion_source_currency",
+        "conversion_target_amount", "conversion_target_currency"
+    )
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY'),
+           r."conversion_rate", r."conversion_source_amount", r."conversion_source_currency",
+           r."conversion_target_amount", r."conversion_target_currency"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text,
+        "conversion_rate" text,
+        "conversion_source_amount" bigint,
+        "conversion_source_currency" text,
+        "conversion_target_amount" bigint,
+        "conversion_target_currency" text
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- amount は常にアクティビティの所有者の通貨なので、そのまま合計できる
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        if v_balance < 0 then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object('account_id', v_account_id, 'balance', v_balance)::text;
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,13 @@
+-- アカウントの区分（送金限度額の区分）
+--
+-- BASIC: 開設直後の個人アカウント
+-- VERIFIED: 本人確認済みの個人アカウント
+-- BUSINESS: 法人アカウント
+--
+-- 区分ごとの限度額はアプリケーションの設定で管理する。
+-- 既存のアカウントは BASIC になる。
+alter table "public"."accounts" add column "tier" text not null default 'BASIC'::text;
+
+alter table "public"."accounts" add constraint "accounts_tier_check" CHECK ((tier = ANY (ARRAY['BASIC'::text, 'VERIFIED'::text, 'BUSINESS'::text]))) not valid;
+
+alter table "public"."accounts" validate constraint "accounts_tier_check";
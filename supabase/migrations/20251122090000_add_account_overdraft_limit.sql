@@ -0,0 +1,87 @@
+-- アカウントの当座貸越の限度額
+--
+-- アカウントの通貨の補助単位で保持する（0 = 貸越なし）。
+-- 既存のアカウントは貸越なしになる。
+alter table "public"."accounts" add column "overdraft_limit" bigint not null default 0;
+
+alter table "public"."accounts" add constraint "accounts_overdraft_limit_check" CHECK ((overdraft_limit >= 0)) not valid;
+
+alter table "public"."accounts" validate constraint "accounts_overdraft_limit_check";
+
+-- persist_transfer が当座貸越の限度額まで残高のマイナスを許すように更新する（シグネチャは変更しない）
+-- 残高不足の detail に overdraft_limit を追加する
+create or replace function "public"."persist_transfer"(
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+    v_overdraft_limit bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    insert into "public"."activities" (
+        "timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency",
+        "conversion_rate", "conversion_source_amount", "conversion_source_currency",
+        "conversion_target_amount", "conversion_target_currency"
+    )
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY'),
+           r."conversion_rate", r."conversion_source_amount", r."conversion_source_currency",
+           r."conversion_target_amount", r."conversion_target_currency"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text,
+        "conversion_rate" text,
+        "conversion_source_amount" bigint,
+        "conversion_source_currency" text,
+        "conversion_target_amount" bigint,
+        "conversion_target_currency" text
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- amount は常にアクティビティの所有者の通貨なので、そのまま合計できる
+    -- 当座貸越のあるアカウントは、限度額までマイナスを許す
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        select coalesce(max(ac.overdraft_limit), 0)
+        into v_overdraft_limit
+        from "public"."accounts" ac
+        where ac.id = v_account_id;
+
+        if v_balance < -v_overdraft_limit then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object(
+                          'account_id', v_account_id,
+                          'balance', v_balance,
+                          'overdraft_limit', v_overdraft_limit
+                      )::text;
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,55 @@
+-- 予約送金（実行日時以降に Cron Trigger の scheduled ハンドラーが送金する）
+--
+-- 金額は送金元の通貨の補助単位で保存する。
+-- 実行できなかった場合は、失敗の種類（例外の名前）とメッセージを記録する。
+create table "public"."scheduled_transfers" (
+    "id" text not null,
+    "source_account_id" bigint not null,
+    "target_account_id" bigint not null,
+    "amount" bigint not null,
+    "currency" text not null,
+    "execute_at" timestamp with time zone not null,
+    "created_at" timestamp with time zone not null default now(),
+    "status" text not null default 'PENDING',
+    "completed_at" timestamp with time zone,
+    "failure_reason" text,
+    "failure_message" text
+);
+
+CREATE UNIQUE INDEX scheduled_transfers_pkey ON public.scheduled_transfers USING btree (id);
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_pkey" PRIMARY KEY using index "scheduled_transfers_pkey";
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_source_account_id_fkey" FOREIGN KEY (source_account_id) REFERENCES accounts(id);
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_target_account_id_fkey" FOREIGN KEY (target_account_id) REFERENCES accounts(id);
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_status_check" CHECK ((status = ANY (ARRAY['PENDING'::text, 'PROCESSING'::text, 'EXECUTED'::text, 'FAILED'::text, 'CANCELLED'::text])));
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_amount_check" CHECK ((amount > 0));
+
+alter table "public"."scheduled_transfers" add constraint "scheduled_transfers_failure_check" CHECK (((status = 'FAILED'::text) = (failure_reason IS NOT NULL)));
+
+-- スケジューラーが実行日時を過ぎた PENDING の予約を探すためのインデックス
+CREATE INDEX scheduled_transfers_status_execute_at_idx ON public.scheduled_transfers USING btree (status, execute_at);
+
+-- アカウントの予約送金一覧のためのインデックス
+CREATE INDEX scheduled_transfers_source_account_id_idx ON public.scheduled_transfers USING btree (source_account_id, execute_at);
+
+grant insert on table "public"."scheduled_transfers" to "anon";
+
+grant select on table "public"."scheduled_transfers" to "anon";
+
+grant update on table "public"."scheduled_transfers" to "anon";
+
+grant insert on table "public"."scheduled_transfers" to "authenticated";
+
+grant select on table "public"."scheduled_transfers" to "authenticated";
+
+grant update on table "public"."scheduled_transfers" to "authenticated";
+
+grant insert on table "public"."scheduled_transfers" to "service_role";
+
+grant select on table "public"."scheduled_transfers" to "service_role";
+
+grant update on table "public"."scheduled_transfers" to "service_role";
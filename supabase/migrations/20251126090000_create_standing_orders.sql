@@ -0,0 +1,106 @@
+-- 定期送金（スケジュールに従って Cron Trigger の scheduled ハンドラーが繰り返し送金する）
+--
+-- 金額は送金元の通貨の補助単位で保存する。
+-- スケジュールは cron 式（CRON）か、毎月の日付と時刻（MONTHLY、UTC）のどちらか。
+-- occurrence_at は今待っている実行日時、next_run_at は次に実行する時刻（再試行を待つ間は occurrence_at より後）。
+create table "public"."standing_orders" (
+    "id" text not null,
+    "source_account_id" bigint not null,
+    "target_account_id" bigint not null,
+    "amount" bigint not null,
+    "currency" text not null,
+    "schedule_type" text not null,
+    "cron_expression" text,
+    "day_of_month" integer,
+    "time_of_day" text,
+    "created_at" timestamp with time zone not null default now(),
+    "status" text not null default 'ACTIVE',
+    "occurrence_at" timestamp with time zone not null,
+    "next_run_at" timestamp with time zone not null,
+    "retry_count" integer not null default 0,
+    "consecutive_failures" integer not null default 0,
+    "pause_reason" text
+);
+
+CREATE UNIQUE INDEX standing_orders_pkey ON public.standing_orders USING btree (id);
+
+alter table "public"."standing_orders" add constraint "standing_orders_pkey" PRIMARY KEY using index "standing_orders_pkey";
+
+alter table "public"."standing_orders" add constraint "standing_orders_source_account_id_fkey" FOREIGN KEY (source_account_id) REFERENCES accounts(id);
+
+alter table "public"."standing_orders" add constraint "standing_orders_target_account_id_fkey" FOREIGN KEY (target_account_id) REFERENCES accounts(id);
+
+alter table "public"."standing_orders" add constraint "standing_orders_status_check" CHECK ((status = ANY (ARRAY['ACTIVE'::text, 'RUNNING'::text, 'PAUSED'::text, 'CANCELLED'::text])));
+
+alter table "public"."standing_orders" add constraint "standing_orders_amount_check" CHECK ((amount > 0));
+
+alter table "public"."standing_orders" add constraint "standing_orders_schedule_check" CHECK ((((schedule_type = 'CRON'::text) AND (cron_expression IS NOT NULL) AND (day_of_month IS NULL) AND (time_of_day IS NULL)) OR ((schedule_type = 'MONTHLY'::text) AND (cron_expression IS NULL) AND (day_of_month BETWEEN 1 AND 31) AND (time_of_day IS NOT NULL))));
+
+alter table "public"."standing_orders" add constraint "standing_orders_counts_check" CHECK (((retry_count >= 0) AND (consecutive_failures >= 0)));
+
+alter table "public"."standing_orders" add constraint "standing_orders_pause_reason_check" CHECK ((((status = 'PAUSED'::text) = (pause_reason IS NOT NULL)) AND ((pause_reason IS NULL) OR (pause_reason = ANY (ARRAY['MANUAL'::text, 'TOO_MANY_FAILURES'::text])))));
+
+-- スケジューラーが次の実行時刻を過ぎた ACTIVE の定期送金を探すためのインデックス
+CREATE INDEX standing_orders_status_next_run_at_idx ON public.standing_orders USING btree (status, next_run_at);
+
+-- アカウントの定期送金一覧のためのインデックス
+CREATE INDEX standing_orders_source_account_id_idx ON public.standing_orders USING btree (source_account_id, created_at);
+
+grant insert on table "public"."standing_orders" to "anon";
+
+grant select on table "public"."standing_orders" to "anon";
+
+grant update on table "public"."standing_orders" to "anon";
+
+grant insert on table "public"."standing_orders" to "authenticated";
+
+grant select on table "public"."standing_orders" to "authenticated";
+
+grant update on table "public"."standing_orders" to "authenticated";
+
+grant insert on table "public"."standing_orders" to "service_role";
+
+grant select on table "public"."standing_orders" to "service_role";
+
+grant update on table "public"."standing_orders" to "service_role";
+
+-- 定期送金の実行記録（成功・失敗にかかわらず、実行するたびに1行追加する）
+--
+-- 失敗した場合は、失敗の種類（例外の名前）とメッセージを記録する。
+create table "public"."standing_order_runs" (
+    "id" text not null,
+    "standing_order_id" text not null,
+    "occurrence_at" timestamp with time zone not null,
+    "executed_at" timestamp with time zone not null,
+    "attempt" integer not null,
+    "outcome" text not null,
+    "failure_reason" text,
+    "failure_message" text
+);
+
+CREATE UNIQUE INDEX standing_order_runs_pkey ON public.standing_order_runs USING btree (id);
+
+alter table "public"."standing_order_runs" add constraint "standing_order_runs_pkey" PRIMARY KEY using index "standing_order_runs_pkey";
+
+alter table "public"."standing_order_runs" add constraint "standing_order_runs_standing_order_id_fkey" FOREIGN KEY (standing_order_id) REFERENCES standing_orders(id);
+
+alter table "public"."standing_order_runs" add constraint "standing_order_runs_outcome_check" CHECK ((outcome = ANY (ARRAY['SUCCEEDED'::text, 'FAILED'::text])));
+
+alter table "public"."standing_order_runs" add constraint "standing_order_runs_attempt_check" CHECK ((attempt >= 1));
+
+alter table "public"."standing_order_runs" add constraint "standing_order_runs_failure_check" CHECK (((outcome = 'FAILED'::text) = (failure_reason IS NOT NULL)));
+
+-- 定期送金ごとの実行記録を新しい順に読むためのインデックス
+CREATE INDEX standing_order_runs_standing_order_id_idx ON public.standing_order_runs USING btree (standing_order_id, executed_at DESC);
+
+grant insert on table "public"."standing_order_runs" to "anon";
+
+grant select on table "public"."standing_order_runs" to "anon";
+
+grant insert on table "public"."standing_order_runs" to "authenticated";
+
+grant select on table "public"."standing_order_runs" to "authenticated";
+
+grant insert on table "public"."standing_order_runs" to "service_role";
+
+grant select on table "public"."standing_order_runs" to "service_role";
@@ -0,0 +1,153 @@
+-- 送金の取り消し
+--
+-- 取り消しのアクティビティは、元のアクティビティの source と target を入れ替えた同じ金額のアクティビティで、
+-- reversal_of_activity_id に元のアクティビティの ID を記録する。
+-- 一意制約により、同じアクティビティは1回しか取り消せない（二重の取り消しを防ぐ）。
+alter table "public"."activities" add column "reversal_of_activity_id" bigint;
+
+alter table "public"."activities" add constraint "activities_reversal_of_activity_id_fkey" FOREIGN KEY (reversal_of_activity_id) REFERENCES public.activities(id) not valid;
+
+alter table "public"."activities" validate constraint "activities_reversal_of_activity_id_fkey";
+
+CREATE UNIQUE INDEX activities_reversal_of_activity_id_key ON public.activities USING btree (reversal_of_activity_id);
+
+alter table "public"."activities" add constraint "activities_reversal_of_activity_id_key" UNIQUE using index "activities_reversal_of_activity_id_key";
+
+-- 取り消しの記録（監査用: 理由と、管理者が残高のチェックを省略したかどうか）
+-- 送金は送金元の出金アクティビティの ID（transfer_activity_id）で識別する
+create table "public"."transfer_reversals" (
+    "id" uuid not null,
+    "transfer_activity_id" bigint not null,
+    "original_activity_ids" bigint[] not null,
+    "reason" text not null,
+    "forced" boolean not null default false,
+    "reversed_at" timestamp with time zone not null
+);
+
+CREATE UNIQUE INDEX transfer_reversals_pkey ON public.transfer_reversals USING btree (id);
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_pkey" PRIMARY KEY using index "transfer_reversals_pkey";
+
+CREATE UNIQUE INDEX transfer_reversals_transfer_activity_id_key ON public.transfer_reversals USING btree (transfer_activity_id);
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_transfer_activity_id_key" UNIQUE using index "transfer_reversals_transfer_activity_id_key";
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_transfer_activity_id_fkey" FOREIGN KEY (transfer_activity_id) REFERENCES public.activities(id) not valid;
+
+alter table "public"."transfer_reversals" validate constraint "transfer_reversals_transfer_activity_id_fkey";
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_reason_check" CHECK ((length(btrim(reason)) > 0)) not valid;
+
+alter table "public"."transfer_reversals" validate constraint "transfer_reversals_reason_check";
+
+grant insert on table "public"."transfer_reversals" to "anon";
+
+grant select on table "public"."transfer_reversals" to "anon";
+
+grant insert on table "public"."transfer_reversals" to "authenticated";
+
+grant select on table "public"."transfer_reversals" to "authenticated";
+
+grant insert on table "public"."transfer_reversals" to "service_role";
+
+grant select on table "public"."transfer_reversals" to "service_role";
+
+-- persist_transfer が reversal_of_activity_id も挿入するように更新する（シグネチャは変更しない）
+create or replace function "public"."persist_transfer"(
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+    v_overdraft_limit bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    insert into "public"."activities" (
+        "timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency",
+        "conversion_rate", "conversion_source_amount", "conversion_source_currency",
+        "conversion_target_amount", "conversion_target_currency", "reversal_of_activity_id"
+    )
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY'),
+           r."conversion_rate", r."conversion_source_amount", r."conversion_source_currency",
+           r."conversion_target_amount", r."conversion_target_currency", r."reversal_of_activity_id"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text,
+        "conversion_rate" text,
+        "conversion_source_amount" bigint,
+        "conversion_source_currency" text,
+        "conversion_target_amount" bigint,
+        "conversion_target_currency" text,
+        "reversal_of_activity_id" bigint
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- amount は常にアクティビティの所有者の通貨なので、そのまま合計できる
+    -- 当座貸越のあるアカウントは、限度額までマイナスを許す
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        select coalesce(max(ac.overdraft_limit), 0)
+        into v_overdraft_limit
+        from "public"."accounts" ac
+        where ac.id = v_account_id;
+
+        if v_balance < -v_overdraft_limit then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object(
+                          'account_id', v_account_id,
+                          'balance', v_balance,
+                          'overdraft_limit', v_overdraft_limit
+                      )::text;
+        end if;
+    end loop;
+end;
+$$;
+
+-- 取り消しの記録と取り消しのアクティビティを1つのトランザクションで保存する
+-- 取り消し済みの場合は一意制約違反（23505）、残高不足の場合は persist_transfer と同じ例外になる
+-- （管理者が強制した取り消しでは、p_balance_check_account_ids を空にして残高をチェックしない）
+create or replace function "public"."reverse_transfer"(
+    "p_reversal" jsonb,
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+begin
+    insert into "public"."transfer_reversals" (
+        "id", "transfer_activity_id", "original_activity_ids", "reason", "forced", "reversed_at"
+    )
+    select r."id", r."transfer_activity_id", r."original_activity_ids", r."reason", r."forced", r."reversed_at"
+    from jsonb_populate_record(null::"public"."transfer_reversals", p_reversal) as r;
+
+    perform "public"."persist_transfer"(p_activities, p_balance_check_account_ids);
+end;
+$$;
@@ -0,0 +1,200 @@
+-- 送金の記録（送金ID）
+--
+-- 送金のアクティビティ（送金元の出金・送金先の入金・手数料）は、transfer_id で送金にひも付く。
+-- 金額は補助単位で保存する（amount と fee_amount は送金元の通貨、deposited_amount は送金先の通貨）。
+-- この migration より前の送金には記録がない（アクティビティの transfer_id は null のまま）。
+create table "public"."transfers" (
+    "id" uuid not null,
+    "source_account_id" bigint not null,
+    "target_account_id" bigint not null,
+    "amount" bigint not null,
+    "currency" text not null,
+    "fee_amount" bigint not null default 0,
+    "deposited_amount" bigint not null,
+    "deposited_currency" text not null,
+    "reference" text,
+    "status" text not null default 'COMPLETED',
+    "created_at" timestamp with time zone not null default now()
+);
+
+CREATE UNIQUE INDEX transfers_pkey ON public.transfers USING btree (id);
+
+alter table "public"."transfers" add constraint "transfers_pkey" PRIMARY KEY using index "transfers_pkey";
+
+alter table "public"."transfers" add constraint "transfers_source_account_id_fkey" FOREIGN KEY (source_account_id) REFERENCES accounts(id);
+
+alter table "public"."transfers" add constraint "transfers_target_account_id_fkey" FOREIGN KEY (target_account_id) REFERENCES accounts(id);
+
+alter table "public"."transfers" add constraint "transfers_status_check" CHECK ((status = ANY (ARRAY['COMPLETED'::text, 'REVERSED'::text])));
+
+alter table "public"."transfers" add constraint "transfers_amount_check" CHECK ((amount > 0));
+
+alter table "public"."transfers" add constraint "transfers_fee_amount_check" CHECK ((fee_amount >= 0));
+
+grant insert on table "public"."transfers" to "anon";
+
+grant select on table "public"."transfers" to "anon";
+
+grant update on table "public"."transfers" to "anon";
+
+grant insert on table "public"."transfers" to "authenticated";
+
+grant select on table "public"."transfers" to "authenticated";
+
+grant update on table "public"."transfers" to "authenticated";
+
+grant insert on table "public"."transfers" to "service_role";
+
+grant select on table "public"."transfers" to "service_role";
+
+grant update on table "public"."transfers" to "service_role";
+
+-- アクティビティから送金へのリンク（取り消しのアクティビティは reversal_of_activity_id でリンクするので null）
+alter table "public"."activities" add column "transfer_id" uuid;
+
+alter table "public"."activities" add constraint "activities_transfer_id_fkey" FOREIGN KEY (transfer_id) REFERENCES public.transfers(id) not valid;
+
+alter table "public"."activities" validate constraint "activities_transfer_id_fkey";
+
+-- 送金のアクティビティを読み込むためのインデックス
+CREATE INDEX activities_transfer_id_idx ON public.activities USING btree (transfer_id);
+
+-- 取り消しの記録は送金ID で送金を識別する
+-- （transfer_activity_id はこの migration より前の記録のために残す）
+alter table "public"."transfer_reversals" add column "transfer_id" uuid;
+
+alter table "public"."transfer_reversals" alter column "transfer_activity_id" drop not null;
+
+CREATE UNIQUE INDEX transfer_reversals_transfer_id_key ON public.transfer_reversals USING btree (transfer_id);
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_transfer_id_key" UNIQUE using index "transfer_reversals_transfer_id_key";
+
+alter table "public"."transfer_reversals" add constraint "transfer_reversals_transfer_id_fkey" FOREIGN KEY (transfer_id) REFERENCES public.transfers(id) not valid;
+
+alter table "public"."transfer_reversals" validate constraint "transfer_reversals_transfer_id_fkey";
+
+-- persist_transfer が送金の記録も挿入するように更新する（p_transfer を追加するため、作り直す）
+-- 取り消しのアクティビティを保存する場合は、p_transfer を null にする
+drop function "public"."persist_transfer"(jsonb, bigint[]);
+
+create or replace function "public"."persist_transfer"(
+    "p_transfer" jsonb,
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+    v_overdraft_limit bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    if p_transfer is not null then
+        insert into "public"."transfers" (
+            "id", "source_account_id", "target_account_id", "amount", "currency", "fee_amount",
+            "deposited_amount", "deposited_currency", "reference", "status", "created_at"
+        )
+        select t."id", t."source_account_id", t."target_account_id", t."amount", t."currency", t."fee_amount",
+               t."deposited_amount", t."deposited_currency", t."reference", t."status", t."created_at"
+        from jsonb_populate_record(null::"public"."transfers", p_transfer) as t;
+    end if;
+
+    insert into "public"."activities" (
+        "timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency",
+        "conversion_rate", "conversion_source_amount", "conversion_source_currency",
+        "conversion_target_amount", "conversion_target_currency", "reversal_of_activity_id", "transfer_id"
+    )
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY'),
+           r."conversion_rate", r."conversion_source_amount", r."conversion_source_currency",
+           r."conversion_target_amount", r."conversion_target_currency", r."reversal_of_activity_id", r."transfer_id"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text,
+        "conversion_rate" text,
+        "conversion_source_amount" bigint,
+        "conversion_source_currency" text,
+        "conversion_target_amount" bigint,
+        "conversion_target_currency" text,
+        "reversal_of_activity_id" bigint,
+        "transfer_id" uuid
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- amount は常にアクティビティの所有者の通貨なので、そのまま合計できる
+    -- 当座貸越のあるアカウントは、限度額までマイナスを許す
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        select coalesce(max(ac.overdraft_limit), 0)
+        into v_overdraft_limit
+        from "public"."accounts" ac
+        where ac.id = v_account_id;
+
+        if v_balance < -v_overdraft_limit then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object(
+                          'account_id', v_account_id,
+                          'balance', v_balance,
+                          'overdraft_limit', v_overdraft_limit
+                      )::text;
+        end if;
+    end loop;
+end;
+$$;
+
+-- 取り消しの記録と取り消しのアクティビティを1つのトランザクションで保存し、送金を取り消し済みにする
+-- 取り消し済みの場合は 'transfer_already_reversed'（一意制約違反（23505）になる場合もある）、
+-- 残高不足の場合は persist_transfer と同じ例外になる
+-- （管理者が強制した取り消しでは、p_balance_check_account_ids を空にして残高をチェックしない）
+create or replace function "public"."reverse_transfer"(
+    "p_reversal" jsonb,
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+begin
+    update "public"."transfers"
+    set "status" = 'REVERSED'
+    where "id" = (p_reversal ->> 'transfer_id')::uuid
+      and "status" = 'COMPLETED';
+
+    if not found then
+        raise exception 'transfer_already_reversed'
+            using errcode = 'P0001';
+    end if;
+
+    insert into "public"."transfer_reversals" (
+        "id", "transfer_id", "original_activity_ids", "reason", "forced", "reversed_at"
+    )
+    select r."id", r."transfer_id", r."original_activity_ids", r."reason", r."forced", r."reversed_at"
+    from jsonb_populate_record(null::"public"."transfer_reversals", p_reversal) as r;
+
+    perform "public"."persist_transfer"(null, p_activities, p_balance_check_account_ids);
+end;
+$$;
@@ -0,0 +1,110 @@
+-- 送金の参照情報とメモ
+--
+-- reference: 会計の照合に使う参照情報（最大35文字。英数字と / - ? : ( ) . , ' + 空白）
+-- memo: 送金先に伝える自由記述のメモ（最大140文字）
+-- 送金元の出金と送金先の入金のアクティビティの両方に記録する（手数料のアクティビティには記録しない）。
+alter table "public"."activities" add column "reference" text;
+
+alter table "public"."activities" add column "memo" text;
+
+alter table "public"."activities" add constraint "activities_reference_check" CHECK (((reference IS NULL) OR ((length(reference) <= 35) AND (reference ~ '^[A-Za-z0-9/?:().,''+ -]+$'::text)))) not valid;
+
+alter table "public"."activities" validate constraint "activities_reference_check";
+
+alter table "public"."activities" add constraint "activities_memo_check" CHECK (((memo IS NULL) OR ((length(memo) >= 1) AND (length(memo) <= 140)))) not valid;
+
+alter table "public"."activities" validate constraint "activities_memo_check";
+
+-- persist_transfer が reference と memo も挿入するように更新する（シグネチャは変更しない）
+create or replace function "public"."persist_transfer"(
+    "p_transfer" jsonb,
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_account_id bigint;
+    v_balance bigint;
+    v_overdraft_limit bigint;
+begin
+    -- 残高チェック対象のアカウントを昇順にロックする（順序を固定してデッドロックを防ぐ）
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        perform pg_advisory_xact_lock(v_account_id);
+    end loop;
+
+    if p_transfer is not null then
+        insert into "public"."transfers" (
+            "id", "source_account_id", "target_account_id", "amount", "currency", "fee_amount",
+            "deposited_amount", "deposited_currency", "reference", "status", "created_at"
+        )
+        select t."id", t."source_account_id", t."target_account_id", t."amount", t."currency", t."fee_amount",
+               t."deposited_amount", t."deposited_currency", t."reference", t."status", t."created_at"
+        from jsonb_populate_record(null::"public"."transfers", p_transfer) as t;
+    end if;
+
+    insert into "public"."activities" (
+        "timestamp", "owner_account_id", "source_account_id", "target_account_id", "amount", "currency",
+        "conversion_rate", "conversion_source_amount", "conversion_source_currency",
+        "conversion_target_amount", "conversion_target_currency", "reversal_of_activity_id", "transfer_id",
+        "reference", "memo"
+    )
+    select r."timestamp", r."owner_account_id", r."source_account_id", r."target_account_id", r."amount", coalesce(r."currency", 'JPY'),
+           r."conversion_rate", r."conversion_source_amount", r."conversion_source_currency",
+           r."conversion_target_amount", r."conversion_target_currency", r."reversal_of_activity_id", r."transfer_id",
+           r."reference", r."memo"
+    from jsonb_to_recordset(p_activities) as r(
+        "timestamp" timestamp with time zone,
+        "owner_account_id" bigint,
+        "source_account_id" bigint,
+        "target_account_id" bigint,
+        "amount" bigint,
+        "currency" text,
+        "conversion_rate" text,
+        "conversion_source_amount" bigint,
+        "conversion_source_currency" text,
+        "conversion_target_amount" bigint,
+        "conversion_target_currency" text,
+        "reversal_of_activity_id" bigint,
+        "transfer_id" uuid,
+        "reference" text,
+        "memo" text
+    );
+
+    -- 挿入後の残高を再計算する（同一アカウント内の送金は相殺）
+    -- amount は常にアクティビティの所有者の通貨なので、そのまま合計できる
+    -- 当座貸越のあるアカウントは、限度額までマイナスを許す
+    for v_account_id in
+        select distinct account_id from unnest(p_balance_check_account_ids) as account_id order by account_id
+    loop
+        select coalesce(sum(
+            case
+                when a.target_account_id = v_account_id and a.source_account_id is distinct from v_account_id then a.amount
+                when a.source_account_id = v_account_id and a.target_account_id is distinct from v_account_id then -a.amount
+                else 0
+            end
+        ), 0)
+        into v_balance
+        from "public"."activities" a
+        where a.owner_account_id = v_account_id;
+
+        select coalesce(max(ac.overdraft_limit), 0)
+        into v_overdraft_limit
+        from "public"."accounts" ac
+        where ac.id = v_account_id;
+
+        if v_balance < -v_overdraft_limit then
+            raise exception 'insufficient_balance'
+                using errcode = 'P0001',
+                      detail = json_build_object(
+                          'account_id', v_account_id,
+                          'balance', v_balance,
+                          'overdraft_limit', v_overdraft_limit
+                      )::text;
+        end if;
+    end loop;
+end;
+$$;
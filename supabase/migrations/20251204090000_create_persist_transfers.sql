@@ -0,0 +1,33 @@
+-- 一括送金（ALL_OR_NOTHING）の保存
+--
+-- 複数の送金の記録と、すべての送金のアクティビティを1つのトランザクションで保存し、
+-- 出金が発生したアカウントの残高をすべての送金を反映した後の残高でチェックする
+-- （全部の送金が保存されるか、何も保存されないか）。
+-- アクティビティの挿入と残高チェックは persist_transfer と同じ処理を使い、残高不足の場合も同じ例外になる
+create or replace function "public"."persist_transfers"(
+    "p_transfers" jsonb,
+    "p_activities" jsonb,
+    "p_balance_check_account_ids" bigint[]
+)
+returns void
+language plpgsql
+as $$
+begin
+    -- アクティビティが送金IDで送金の記録を参照するため、送金の記録を先に挿入する
+    insert into "public"."transfers" (
+        "id", "source_account_id", "target_account_id", "amount", "currency", "fee_amount",
+        "deposited_amount", "deposited_currency", "reference", "status", "created_at"
+    )
+    select t."id", t."source_account_id", t."target_account_id", t."amount", t."currency", t."fee_amount",
+           t."deposited_amount", t."deposited_currency", t."reference", t."status", t."created_at"
+    from jsonb_populate_recordset(null::"public"."transfers", p_transfers) as t;
+
+    perform "public"."persist_transfer"(null, p_activities, p_balance_check_account_ids);
+end;
+$$;
+
+grant execute on function "public"."persist_transfers"(jsonb, jsonb, bigint[]) to "anon";
+
+grant execute on function "public"."persist_transfers"(jsonb, jsonb, bigint[]) to "authenticated";
+
+grant execute on function "public"."persist_transfers"(jsonb, jsonb, bigint[]) to "service_role";
@@ -0,0 +1,8 @@
+-- 冪等性キーの予約日時
+--
+-- 処理中にワーカーが落ちると、レスポンス未保存の予約が残り続け、リトライが永遠に 409 になる。
+-- reserved_at が古い処理中の予約は、リトライ時に引き継げるようにする（引き継ぐと reserved_at を更新する）。
+
+alter table "public"."idempotency_keys" add column "reserved_at" timestamp with time zone not null default now();
+
+update "public"."idempotency_keys" set "reserved_at" = "created_at";
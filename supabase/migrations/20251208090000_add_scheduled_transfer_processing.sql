@@ -0,0 +1,13 @@
+-- 予約送金の実行状況（送金ID・実行を開始した時刻）
+--
+-- 実行中（PROCESSING）にワーカーが落ちると、予約が PROCESSING のまま残り続ける。
+-- 実行を開始するときに送金IDを採番して記録し、processing_started_at が古い PROCESSING の予約は、
+-- 次のスケジューラーの実行で transfers にその送金IDがあるかを確かめて、EXECUTED か FAILED にする。
+-- 既存の PROCESSING の予約は送金IDがないため対象外（手動で確認する）。
+
+alter table "public"."scheduled_transfers" add column "transfer_id" text;
+
+alter table "public"."scheduled_transfers" add column "processing_started_at" timestamp with time zone;
+
+-- スケジューラーが古い PROCESSING の予約を探すためのインデックス
+CREATE INDEX scheduled_transfers_status_processing_started_at_idx ON public.scheduled_transfers USING btree (status, processing_started_at);
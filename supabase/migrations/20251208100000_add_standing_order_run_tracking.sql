@@ -0,0 +1,13 @@
+-- 定期送金の実行状況（実行中の送金ID・実行を開始した時刻）
+--
+-- 実行中（RUNNING）にワーカーが落ちると、定期送金が RUNNING のまま残り続け、以降の実行も停止もできなくなる。
+-- 実行を開始するときに送金IDを採番して記録し、run_started_at が古い RUNNING の定期送金は、
+-- 次のスケジューラーの実行で transfers にその送金IDがあるかを確かめて、成功か失敗として記録する。
+-- 既存の RUNNING の定期送金は送金IDがないため対象外（手動で確認する）。
+
+alter table "public"."standing_orders" add column "run_transfer_id" text;
+
+alter table "public"."standing_orders" add column "run_started_at" timestamp with time zone;
+
+-- スケジューラーが古い RUNNING の定期送金を探すためのインデックス
+CREATE INDEX standing_orders_status_run_started_at_idx ON public.standing_orders USING btree (status, run_started_at);
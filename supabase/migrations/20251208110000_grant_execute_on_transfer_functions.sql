@@ -0,0 +1,18 @@
+-- 送金・取り消しの関数の実行権限
+--
+-- persist_transfer は 20251130090000_create_transfers.sql で引数を変えて作り直したため、
+-- 20251112090000_create_persist_transfer_function.sql で付与した実行権限が引き継がれていない。
+-- reverse_transfer（20251128090000_create_transfer_reversals.sql）には実行権限を付与していなかった。
+-- 適用済みのマイグレーションは変更せず、現在の引数の関数に改めて付与する。
+
+grant execute on function "public"."persist_transfer"(jsonb, jsonb, bigint[]) to "anon";
+
+grant execute on function "public"."persist_transfer"(jsonb, jsonb, bigint[]) to "authenticated";
+
+grant execute on function "public"."persist_transfer"(jsonb, jsonb, bigint[]) to "service_role";
+
+grant execute on function "public"."reverse_transfer"(jsonb, jsonb, bigint[]) to "anon";
+
+grant execute on function "public"."reverse_transfer"(jsonb, jsonb, bigint[]) to "authenticated";
+
+grant execute on function "public"."reverse_transfer"(jsonb, jsonb, bigint[]) to "service_role";
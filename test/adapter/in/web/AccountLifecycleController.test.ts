@@ -0,0 +1,214 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {AccountStatusWebResponse} from "../../../../src/adapter/in/web/models/AccountStatusWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * アカウントのライフサイクルAPI（開設・凍結・解約）の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【テスト戦略】
+ * - SELF.fetch() で実際のHTTPリクエストをシミュレート
+ * - 永続化には InMemoryAccountPersistenceAdapter を使用
+ *   → 初期データ: アカウント1, 2（どちらも ACTIVE）。新規アカウントのIDは3から採番される
+ */
+describe("アカウントのライフサイクルAPI（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false", // ← InMemoryアダプターを使用
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const post = (path: string, body?: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com${path}`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+    it("POST /api/accounts で ACTIVE のアカウントが作成される", async () => {
+        const response = await post("/api/accounts");
+
+        expect(response.status).toBe(201);
+        expect(response.headers.get("Location")).toBe("/api/accounts/3/balance");
+        expect(await response.json()).toEqual({
+            success: true,
+            message: "Account created successfully",
+            data: {accountId: "3", status: "ACTIVE", currency: "JPY"},
+        });
+
+        // 作成したアカウントの残高は0
+        const balance = await SELF.fetch("http://example.com/api/accounts/3/balance");
+        expect(balance.status).toBe(200);
+    });
+
+    it("凍結したアカウントは再度凍結できず、送金にも使えない", async () => {
+        // 凍結
+        const frozen = await post("/api/accounts/1/freeze");
+        expect(frozen.status).toBe(200);
+        expect(((await frozen.json()) as AccountStatusWebResponse).data).toEqual({
+            accountId: "1",
+            status: "FROZEN",
+            currency: "JPY",
+        });
+
+        // 再度の凍結は 409
+        const again = await post("/api/accounts/1/freeze");
+        expect(again.status).toBe(409);
+        const againBody = (await again.json()) as AccountStatusWebResponse;
+        expect(againBody.error?.code).toBe("INVALID_ACCOUNT_STATUS_TRANSITION");
+        expect(againBody.error?.details).toEqual({
+            accountId: "1",
+            currentStatus: "FROZEN",
+            requestedStatus: "FROZEN",
+        });
+
+        // 凍結中のアカウントへの送金は 400
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+        });
+        expect(send.status).toBe(400);
+        const sendBody = (await send.json()) as SendMoneyWebResponse;
+        expect(sendBody.error?.code).toBe("ACCOUNT_NOT_ACTIVE");
+        expect(sendBody.error?.details).toEqual({accountId: "1", status: "FROZEN"});
+    });
+
+    it("解約したアカウントは再度解約できない", async () => {
+        const closed = await post("/api/accounts/2/close");
+        expect(closed.status).toBe(200);
+        expect(((await closed.json()) as AccountStatusWebResponse).data?.status).toBe("CLOSED");
+
+        const again = await post("/api/accounts/2/close");
+        expect(again.status).toBe(409);
+        expect(((await again.json()) as AccountStatusWebResponse).error?.code).toBe("INVALID_ACCOUNT_STATUS_TRANSITION");
+    });
+
+    it("存在しないアカウントは凍結・解約できず、404エラーになる", async () => {
+        const freeze = await post("/api/accounts/99999/freeze");
+        expect(freeze.status).toBe(404);
+        expect(((await freeze.json()) as AccountStatusWebResponse).error).toEqual({
+            code: "ACCOUNT_NOT_FOUND",
+            details: {accountId: "99999"},
+        });
+
+        const close = await post("/api/accounts/99999/close");
+        expect(close.status).toBe(404);
+    });
+
+    it("開設前のアカウントは送金に使えず、開設後は送金先にできる", async () => {
+        // 開設前: 送金元として指定すると side = source の404
+        const beforeCreate = await post("/api/accounts/send", {
+            sourceAccountId: "3",
+            targetAccountId: "2",
+            amount: "100",
+        });
+        expect(beforeCreate.status).toBe(404);
+        expect(((await beforeCreate.json()) as SendMoneyWebResponse).error).toEqual({
+            code: "ACCOUNT_NOT_FOUND",
+            details: {accountId: "3", side: "source"},
+        });
+
+        // 開設後: 送金先として指定できる
+        expect((await post("/api/accounts")).status).toBe(201);
+        const afterCreate = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "3",
+            amount: "100",
+        });
+        expect(afterCreate.status).toBe(200);
+    });
+
+    it("通貨を指定してアカウントを開設でき、送金元と異なる通貨の送金額は 400 CURRENCY_MISMATCH になる", async () => {
+        // USD のアカウントを開設
+        const created = await post("/api/accounts", {currency: "USD"});
+        expect(created.status).toBe(201);
+        expect(((await created.json()) as AccountStatusWebResponse).data).toEqual({
+            accountId: "3",
+            status: "ACTIVE",
+            currency: "USD",
+        });
+
+        const balance = await SELF.fetch("http://example.com/api/accounts/3/balance");
+        expect(((await balance.json()) as {data: {currency: string}}).data.currency).toBe("USD");
+
+        // JPY のアカウントから USD の金額で送金しようとすると、送金元の通貨と一致しない
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "3",
+            amount: "100",
+            currency: "USD",
+        });
+        expect(send.status).toBe(400);
+        expect(((await send.json()) as SendMoneyWebResponse).error).toEqual({
+            code: "CURRENCY_MISMATCH",
+            details: {expected: "JPY", actual: "USD"},
+        });
+    });
+
+    it("未対応の通貨コードは 400 VALIDATION_ERROR になる", async () => {
+        const created = await post("/api/accounts", {currency: "XYZ"});
+        expect(created.status).toBe(400);
+        expect(((await created.json()) as AccountStatusWebResponse).error?.code).toBe("VALIDATION_ERROR");
+
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            currency: "XYZ",
+        });
+        expect(send.status).toBe(400);
+        expect(((await send.json()) as SendMoneyWebResponse).error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("金額は通貨の単位の10進数で指定し、補助単位より細かい金額は丸めずに 400 VALIDATION_ERROR になる", async () => {
+        expect((await post("/api/accounts", {currency: "USD"})).status).toBe(201);
+
+        // 1.005 USD はセントで表せない
+        const tooPrecise = await post("/api/accounts/send", {
+            sourceAccountId: "3",
+            targetAccountId: "1",
+            amount: "1.005",
+            currency: "USD",
+        });
+        expect(tooPrecise.status).toBe(400);
+        expect(await tooPrecise.json()).toMatchObject({
+            error: {
+                code: "VALIDATION_ERROR",
+                details: {
+                    errors: [{path: ["amount"], message: "amount must have at most 2 decimal places for USD"}],
+                },
+            },
+        });
+
+        // 円に小数点以下はない
+        const fractionalYen = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100.5",
+        });
+        expect(fractionalYen.status).toBe(400);
+
+        // 末尾の0は受け付け、レスポンスの金額は補助単位の桁数にそろえる
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100.00",
+        });
+        expect(send.status).toBe(200);
+        expect(((await send.json()) as SendMoneyWebResponse).data?.amount).toBe("100");
+    });
+});
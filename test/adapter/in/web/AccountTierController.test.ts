@@ -0,0 +1,107 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {AccountTierWebResponse} from "../../../../src/adapter/in/web/models/AccountTierWebResponse";
+import type {QuoteTransferWebResponse} from "../../../../src/adapter/in/web/models/QuoteTransferWebResponse";
+
+/**
+ * アカウントの区分API（管理者向け）の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - 初期データ: アカウント1, 2（JPY、区分は BASIC）。アカウント2の残高は500円
+ * - 区分ごとの送金限度額は setupContainer の設定（BASIC: 1回100万円、BUSINESS: 1回5,000万円）
+ */
+describe("アカウントの区分API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    // 管理者向けAPI（/api/admin/*）の認証（vitest.config.ts で設定した ADMIN_API_TOKEN）
+    const adminAuthorization = {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`};
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const putTier = (accountId: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com/api/admin/accounts/${accountId}/tier`, {
+            method: "PUT",
+            headers: {"Content-Type": "application/json", ...adminAuthorization},
+            body: JSON.stringify(body),
+        });
+
+    const quote = (amount: string): Promise<Response> =>
+        SELF.fetch("http://example.com/api/transfers/quote", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount}),
+        });
+
+    it("GET /api/admin/accounts/:accountId/tier は区分と送金限度額を返す", async () => {
+        const response = await SELF.fetch("http://example.com/api/admin/accounts/1/tier", {headers: adminAuthorization});
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            success: true,
+            message: "Account tier retrieved successfully",
+            data: {
+                accountId: "1",
+                tier: "BASIC",
+                limits: {
+                    currency: "JPY",
+                    maximumTransferAmount: "1000000",
+                    cumulativeLimits: [
+                        {period: "DAILY", windowDays: 1, limit: "3000000"},
+                        {period: "MONTHLY", windowDays: 30, limit: "10000000"},
+                    ],
+                },
+            },
+        });
+    });
+
+    it("PUT で区分を変更すると、以後の照会と送金に変更後の区分の限度額が適用される", async () => {
+        // BASIC では100万円を超える送金は限度額超過
+        const before = await quote("2000000");
+        expect(before.status).toBe(400);
+        expect(((await before.json()) as QuoteTransferWebResponse).error?.code).toBe("THRESHOLD_EXCEEDED");
+
+        // BUSINESS に変更
+        const changed = await putTier("2", {tier: "BUSINESS"});
+        expect(changed.status).toBe(200);
+        const body = (await changed.json()) as AccountTierWebResponse;
+        expect(body.data?.tier).toBe("BUSINESS");
+        expect(body.data?.limits.maximumTransferAmount).toBe("50000000");
+
+        const retrieved = await SELF.fetch("http://example.com/api/admin/accounts/2/tier", {headers: adminAuthorization});
+        expect(((await retrieved.json()) as AccountTierWebResponse).data?.tier).toBe("BUSINESS");
+
+        // 限度額のチェックは通り、残高不足で失敗する
+        const after = await quote("2000000");
+        expect(after.status).toBe(400);
+        expect(((await after.json()) as QuoteTransferWebResponse).error?.code).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    it("未知の区分は 400 VALIDATION_ERROR になる", async () => {
+        const response = await putTier("1", {tier: "PLATINUM"});
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as AccountTierWebResponse).error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("存在しないアカウントは 404 ACCOUNT_NOT_FOUND になる", async () => {
+        const response = await putTier("999", {tier: "VERIFIED"});
+
+        expect(response.status).toBe(404);
+        expect(((await response.json()) as AccountTierWebResponse).error?.code).toBe("ACCOUNT_NOT_FOUND");
+    });
+});
@@ -0,0 +1,111 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {Hono} from "hono";
+import {adminAuth} from "../../../../src/adapter/in/web/middleware/adminAuth";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 管理者向けAPI（/api/admin/*）の認証の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【検証ポイント】
+ * - Authorization ヘッダーがなければ 401、トークンが違えば 403 で、ルートの処理は実行されない
+ * - 区分・当座貸越・送金設定・強制取り消しのすべての管理者向けAPIが対象
+ * - ADMIN_API_TOKEN が設定されていなければ、どのトークンでも 403
+ */
+describe("管理者向けAPIの認証（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const adminRoutes: readonly { method: string; path: string; body?: unknown }[] = [
+        {method: "GET", path: "/api/admin/accounts/1/tier"},
+        {method: "PUT", path: "/api/admin/accounts/1/tier", body: {tier: "BUSINESS"}},
+        {method: "PUT", path: "/api/admin/accounts/2/overdraft-limit", body: {overdraftLimit: "1000"}},
+        {method: "GET", path: "/api/admin/transfer-config"},
+        {method: "POST", path: "/api/admin/transfers/0b6f3c1e-8a2d-4f5b-9c7e-2d4a6b8c0e13/force-reverse", body: {}},
+    ];
+
+    const request = (
+        route: { method: string; path: string; body?: unknown },
+        headers: Record<string, string> = {}
+    ): Promise<Response> =>
+        SELF.fetch(`http://example.com${route.path}`, {
+            method: route.method,
+            headers: {"Content-Type": "application/json", ...headers},
+            body: route.body !== undefined ? JSON.stringify(route.body) : undefined,
+        });
+
+    it.each(adminRoutes)("$method $path は Authorization ヘッダーがなければ 401 UNAUTHORIZED", async (route) => {
+        const response = await request(route);
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+        expect(((await response.json()) as SendMoneyWebResponse).error?.code).toBe("UNAUTHORIZED");
+    });
+
+    it.each(adminRoutes)("$method $path はトークンが違えば 403 FORBIDDEN", async (route) => {
+        const response = await request(route, {Authorization: "Bearer someone-else"});
+
+        expect(response.status).toBe(403);
+        expect(((await response.json()) as SendMoneyWebResponse).error?.code).toBe("FORBIDDEN");
+    });
+
+    it("トークンのない強制取り消しは拒否され、送金は取り消されない", async () => {
+        // Arrange: アカウント2からアカウント1に100円送金する
+        const sent = await SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount: "100"}),
+        });
+        const transferId = ((await sent.json()) as SendMoneyWebResponse).data?.transferId ?? "";
+
+        // Act
+        const response = await request(
+            {method: "POST", path: `/api/admin/transfers/${transferId}/force-reverse`, body: {reason: "誤送金のため"}}
+        );
+
+        // Assert
+        expect(response.status).toBe(401);
+        const balance = await SELF.fetch("http://example.com/api/accounts/2/balance");
+        expect(((await balance.json()) as GetAccountBalanceWebResponse).data?.balance).toBe("400");
+    });
+
+    it("正しいトークンなら管理者向けAPIを実行できる", async () => {
+        const response = await request(adminRoutes[0], {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`});
+
+        expect(response.status).toBe(200);
+    });
+
+    it("ADMIN_API_TOKEN が設定されていなければ、どのトークンでも 403 FORBIDDEN", async () => {
+        // Arrange: ADMIN_API_TOKEN のない環境で、ミドルウェアだけを動かす
+        const app = new Hono<{ Bindings: CloudflareBindings }>();
+        app.use("/api/admin/*", adminAuth);
+        app.get("/api/admin/ping", (c) => c.text("pong"));
+
+        // Act
+        const response = await app.request(
+            "/api/admin/ping",
+            {headers: {Authorization: "Bearer any-token"}},
+            mockEnv
+        );
+
+        // Assert
+        expect(response.status).toBe(403);
+    });
+});
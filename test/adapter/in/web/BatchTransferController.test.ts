@@ -0,0 +1,193 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {BatchTransferWebResponse} from "../../../../src/adapter/in/web/models/BatchTransferWebResponse";
+import type {TransferWebResponse} from "../../../../src/adapter/in/web/models/TransferWebResponse";
+
+/**
+ * 一括送金APIの統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提となる初期データ】
+ * アカウント2の残高は500円（アカウント1からの送金）。アカウント3は各テストで開設する（残高0円）
+ */
+describe("一括送金API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(async () => {
+        resetContainer();
+        setupContainer(mockEnv);
+
+        const opened = await SELF.fetch("http://example.com/api/accounts", {method: "POST"});
+        expect(opened.status).toBe(201);
+    });
+
+    afterEach(() => {
+        resetContainer();
+        vi.unstubAllGlobals();
+    });
+
+    const batch = (body: unknown): Promise<Response> =>
+        SELF.fetch("http://example.com/api/transfers/batch", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify(body),
+        });
+
+    const balanceOf = async (accountId: string): Promise<string | undefined> => {
+        const response = await SELF.fetch(`http://example.com/api/accounts/${accountId}/balance`);
+        const body = (await response.json()) as { data?: { balance: string } };
+        return body.data?.balance;
+    };
+
+    it("ALL_OR_NOTHING: すべての送金を実行し、送金ごとの送金IDを返す", async () => {
+        const response = await batch({
+            mode: "ALL_OR_NOTHING",
+            items: [
+                {sourceAccountId: "2", targetAccountId: "1", amount: "200", reference: "PAYROLL-2025-11"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "200", memo: "11月分の給与"},
+            ],
+        });
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as BatchTransferWebResponse;
+        expect(body.success).toBe(true);
+        expect(body.data).toMatchObject({mode: "ALL_OR_NOTHING", succeeded: 2, failed: 0});
+        expect(body.data?.items.map((item) => [item.index, item.status, item.transfer?.targetAccountId])).toEqual([
+            [0, "SUCCEEDED", "1"],
+            [1, "SUCCEEDED", "3"],
+        ]);
+        expect(await balanceOf("2")).toBe("100");
+
+        // 送金は1件ずつ送金IDで照会できる
+        const transfer = await SELF.fetch(`http://example.com/api/transfers/${body.data?.items[0]?.transfer?.transferId ?? ""}`);
+        const transferBody = (await transfer.json()) as TransferWebResponse;
+        expect(transferBody.data).toMatchObject({amount: "200", reference: "PAYROLL-2025-11"});
+    });
+
+    it("ALL_OR_NOTHING: 1件でも送金できなければ何も送金せず、422 と送金ごとの理由を返す", async () => {
+        // 1件目の後の残高（200円）では、2件目の300円は送金できない
+        const response = await batch({
+            mode: "ALL_OR_NOTHING",
+            items: [
+                {sourceAccountId: "2", targetAccountId: "1", amount: "300"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "300"},
+            ],
+        });
+
+        expect(response.status).toBe(422);
+        const body = (await response.json()) as BatchTransferWebResponse;
+        expect(body.success).toBe(false);
+        expect(body.error).toEqual({code: "BATCH_TRANSFER_REJECTED", details: {failedIndexes: [1]}});
+        expect(body.data?.items.map((item) => [item.status, item.error?.code])).toEqual([
+            ["NOT_EXECUTED", undefined],
+            ["FAILED", "INSUFFICIENT_BALANCE"],
+        ]);
+        expect(await balanceOf("2")).toBe("500");
+        expect(await balanceOf("3")).toBe("0");
+    });
+
+    it("BEST_EFFORT: 送金できない送金を飛ばして残りを実行し、207 を返す", async () => {
+        const response = await batch({
+            mode: "BEST_EFFORT",
+            items: [
+                {sourceAccountId: "2", targetAccountId: "1", amount: "300"},
+                {sourceAccountId: "2", targetAccountId: "2", amount: "100"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "300"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "200"},
+            ],
+        });
+
+        expect(response.status).toBe(207);
+        const body = (await response.json()) as BatchTransferWebResponse;
+        expect(body.data).toMatchObject({mode: "BEST_EFFORT", succeeded: 2, failed: 2});
+        expect(body.data?.items.map((item) => [item.index, item.status, item.error?.code])).toEqual([
+            [0, "SUCCEEDED", undefined],
+            [1, "FAILED", "SAME_ACCOUNT_TRANSFER"],
+            [2, "FAILED", "INSUFFICIENT_BALANCE"],
+            [3, "SUCCEEDED", undefined],
+        ]);
+        expect(await balanceOf("2")).toBe("0");
+        expect(await balanceOf("3")).toBe("200");
+    });
+
+    it("mode を省略すると ALL_OR_NOTHING になる", async () => {
+        const response = await batch({
+            items: [{sourceAccountId: "2", targetAccountId: "3", amount: "600"}],
+        });
+
+        expect(response.status).toBe(422);
+        const body = (await response.json()) as BatchTransferWebResponse;
+        expect(body.data?.mode).toBe("ALL_OR_NOTHING");
+    });
+
+    it("空の items・上限を超える件数・不正な送金は400エラーになる", async () => {
+        const item = {sourceAccountId: "2", targetAccountId: "1", amount: "1"};
+
+        const empty = await batch({mode: "BEST_EFFORT", items: []});
+        const tooMany = await batch({mode: "BEST_EFFORT", items: Array.from({length: 101}, () => item)});
+        const invalidItem = await batch({mode: "BEST_EFFORT", items: [item, {...item, amount: "-1"}]});
+        const invalidMode = await batch({mode: "SOMETIMES", items: [item]});
+
+        expect(empty.status).toBe(400);
+        expect(tooMany.status).toBe(400);
+        expect(invalidItem.status).toBe(400);
+        expect(invalidMode.status).toBe(400);
+        expect(await balanceOf("2")).toBe("500");
+    });
+
+    it("金額が0の送金は、一括送金全体を 500 にせず 400 VALIDATION_ERROR で位置を返す", async () => {
+        const response = await batch({
+            mode: "BEST_EFFORT",
+            items: [
+                {sourceAccountId: "2", targetAccountId: "1", amount: "100"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "0.00"},
+            ],
+        });
+
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as { error?: { code: string; details?: { errors: { path: unknown[] }[] } } };
+        expect(body.error?.code).toBe("VALIDATION_ERROR");
+        expect(body.error?.details?.errors.map(({path}) => path)).toEqual([["items", 1, "amount"]]);
+        expect(await balanceOf("2")).toBe("500");
+    });
+    it("ALL_OR_NOTHING: 一時的なエラーで送金できなかった場合は 422 ではなく、そのエラーのステータス（503）を返す", async () => {
+        // Arrange: レートAPIに接続できない環境で、USD のアカウント3を開設し直す
+        resetContainer();
+        setupContainer({...mockEnv, EXCHANGE_RATE_API_URL: "http://rates.example.com"});
+        vi.stubGlobal("fetch", vi.fn(() => Promise.reject(new Error("connection refused"))));
+        const opened = await SELF.fetch("http://example.com/api/accounts", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({currency: "USD"}),
+        });
+        expect(opened.status).toBe(201);
+
+        // Act: 2件目は通貨が異なるため、為替レートを取得できずに失敗する
+        const response = await batch({
+            mode: "ALL_OR_NOTHING",
+            items: [
+                {sourceAccountId: "2", targetAccountId: "1", amount: "100"},
+                {sourceAccountId: "2", targetAccountId: "3", amount: "100"},
+            ],
+        });
+
+        // Assert
+        expect(response.status).toBe(503);
+        const body = (await response.json()) as BatchTransferWebResponse;
+        expect(body.success).toBe(false);
+        expect(body.error?.code).toBe("EXCHANGE_RATE_UNAVAILABLE");
+        expect(body.error?.details).toEqual({failedIndexes: [1]});
+        expect(body.data?.items.map((item) => [item.index, item.status])).toEqual([
+            [0, "NOT_EXECUTED"],
+            [1, "FAILED"],
+        ]);
+        expect(await balanceOf("2")).toBe("500");
+    });
+});
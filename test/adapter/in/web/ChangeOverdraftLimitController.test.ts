@@ -0,0 +1,112 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {AccountOverdraftWebResponse} from "../../../../src/adapter/in/web/models/AccountOverdraftWebResponse";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 当座貸越API（管理者向け）の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - 初期データ: アカウント1, 2（JPY、貸越なし）。アカウント2の残高は500円
+ */
+describe("当座貸越API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    // 管理者向けAPI（/api/admin/*）の認証（vitest.config.ts で設定した ADMIN_API_TOKEN）
+    const adminAuthorization = {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`};
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const putOverdraftLimit = (accountId: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com/api/admin/accounts/${accountId}/overdraft-limit`, {
+            method: "PUT",
+            headers: {"Content-Type": "application/json", ...adminAuthorization},
+            body: JSON.stringify(body),
+        });
+
+    const send = (amount: string): Promise<Response> =>
+        SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount}),
+        });
+
+    it("PUT /api/admin/accounts/:accountId/overdraft-limit で限度額を設定すると、引き出せる金額が増える", async () => {
+        const response = await putOverdraftLimit("2", {overdraftLimit: "1000"});
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as AccountOverdraftWebResponse;
+        expect(body.data).toEqual({
+            accountId: "2",
+            currency: "JPY",
+            overdraftLimit: "1000",
+            overdraftUsage: "0",
+            balance: "500",
+            availableBalance: "1500",
+        });
+    });
+
+    it("限度額まで残高を超えて送金でき、残高照会に貸越の利用額が出る", async () => {
+        expect((await putOverdraftLimit("2", {overdraftLimit: "1000"})).status).toBe(200);
+
+        expect((await send("1200")).status).toBe(200);
+
+        const response = await SELF.fetch("http://example.com/api/accounts/2/balance");
+        const body = (await response.json()) as GetAccountBalanceWebResponse;
+        expect(body.data).toMatchObject({
+            balance: "-700",
+            overdraftLimit: "1000",
+            overdraftUsage: "700",
+            availableBalance: "300",
+        });
+    });
+
+    it("限度額を超える送金は 400 INSUFFICIENT_BALANCE になり、記帳残高と引き出せる金額を返す", async () => {
+        expect((await putOverdraftLimit("2", {overdraftLimit: "1000"})).status).toBe(200);
+        expect((await send("1200")).status).toBe(200);
+
+        const response = await send("400");
+
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as SendMoneyWebResponse;
+        expect(body.error?.code).toBe("INSUFFICIENT_BALANCE");
+        expect(body.error?.details).toMatchObject({
+            attemptedAmount: "400",
+            currentBalance: "-700",
+            availableBalance: "300",
+            overdraftLimit: "1000",
+        });
+    });
+
+    it("アカウントと異なる通貨の限度額は 400 CURRENCY_MISMATCH になる", async () => {
+        const response = await putOverdraftLimit("2", {overdraftLimit: "100", currency: "USD"});
+
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as AccountOverdraftWebResponse;
+        expect(body.error?.code).toBe("CURRENCY_MISMATCH");
+    });
+
+    it("存在しないアカウントは 404 ACCOUNT_NOT_FOUND になる", async () => {
+        const response = await putOverdraftLimit("99999", {overdraftLimit: "1000"});
+
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as AccountOverdraftWebResponse;
+        expect(body.error?.code).toBe("ACCOUNT_NOT_FOUND");
+    });
+});
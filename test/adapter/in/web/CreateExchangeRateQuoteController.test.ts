@@ -0,0 +1,117 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {ExchangeRateQuoteWebResponse} from "../../../../src/adapter/in/web/models/ExchangeRateQuoteWebResponse";
+import type {GetAccountActivitiesWebResponse} from "../../../../src/adapter/in/web/models/GetAccountActivitiesWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 為替見積もりAPIと通貨をまたぐ送金の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - EXCHANGE_RATE_API_URL を設定しないので、固定のレート表（StaticExchangeRateAdapter）を使う
+ *   → JPY → USD = 100 / 15,000 = 0.00666667
+ * - 初期データ: アカウント1, 2（JPY）。アカウント2の残高は500円
+ */
+describe("為替見積もりAPI（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const post = (path: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com${path}`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify(body),
+        });
+
+    it("POST /api/exchange-rates/quotes で有効期限付きの見積もりが作成される", async () => {
+        const response = await post("/api/exchange-rates/quotes", {from: "JPY", to: "USD"});
+
+        expect(response.status).toBe(201);
+        const body = (await response.json()) as ExchangeRateQuoteWebResponse;
+        expect(body.data).toEqual({
+            quoteId: expect.any(String) as string,
+            from: "JPY",
+            to: "USD",
+            rate: "0.00666667",
+            expiresAt: expect.any(String) as string,
+        });
+        expect(Date.parse(body.data?.expiresAt ?? "")).toBeGreaterThan(Date.now());
+    });
+
+    it("未対応の通貨コードは 400 VALIDATION_ERROR になる", async () => {
+        const response = await post("/api/exchange-rates/quotes", {from: "JPY", to: "XYZ"});
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as ExchangeRateQuoteWebResponse).error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("見積もりを指定して USD のアカウントに送金すると、見積もりのレートで換算した金額が入金される", async () => {
+        // Arrange: USD のアカウント3を開設し、見積もりを取得
+        expect((await post("/api/accounts", {currency: "USD"})).status).toBe(201);
+        const quote = (await (await post("/api/exchange-rates/quotes", {from: "JPY", to: "USD"})).json()) as ExchangeRateQuoteWebResponse;
+
+        // Act: 300円を送金（300 × 0.00666667 = 2.00 USD）
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "3",
+            amount: "300",
+            quoteId: quote.data?.quoteId,
+        });
+
+        // Assert
+        expect(send.status).toBe(200);
+
+        const balance = await SELF.fetch("http://example.com/api/accounts/3/balance");
+        expect(((await balance.json()) as {data: {balance: string; currency: string}}).data).toMatchObject({
+            balance: "2.00",
+            currency: "USD",
+        });
+
+        // 送金元・送金先の両方のアクティビティに換算が記録される
+        const expectedExchange = {
+            rate: "0.00666667",
+            sourceAmount: "300",
+            sourceCurrency: "JPY",
+            targetAmount: "2.00",
+            targetCurrency: "USD",
+        };
+        for (const accountId of ["2", "3"]) {
+            const activities = await SELF.fetch(`http://example.com/api/accounts/${accountId}/activities`);
+            const body = (await activities.json()) as GetAccountActivitiesWebResponse;
+            expect(body.data?.activities[0]?.exchange).toEqual(expectedExchange);
+        }
+    });
+
+    it("存在しない見積もりを指定すると 422 INVALID_EXCHANGE_RATE_QUOTE になる", async () => {
+        expect((await post("/api/accounts", {currency: "USD"})).status).toBe(201);
+
+        const send = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "3",
+            amount: "300",
+            quoteId: "unknown-quote",
+        });
+
+        expect(send.status).toBe(422);
+        expect(((await send.json()) as SendMoneyWebResponse).error).toEqual({
+            code: "INVALID_EXCHANGE_RATE_QUOTE",
+            details: {quoteId: "unknown-quote", reason: "NOT_FOUND"},
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 共通エラーハンドラー（app.onError + domainErrorMappings）の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【検証ポイント】
+ * - Accept ヘッダーがなければ従来の { success, message, error } 形式
+ * - Accept: application/problem+json なら RFC 7807 の Problem Details
+ */
+describe("共通エラーハンドラー（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    function send(body: Record<string, string>, headers: Record<string, string> = {}): Promise<Response> {
+        return SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json", ...headers},
+            body: JSON.stringify(body),
+        });
+    }
+
+    // アカウント2の残高は500円
+    const insufficient = {sourceAccountId: "2", targetAccountId: "1", amount: "10000"};
+
+    it("Accept の指定がなければ、従来の形式でエラーを返す", async () => {
+        const response = await send(insufficient);
+
+        expect(response.status).toBe(400);
+        expect(response.headers.get("Content-Type")).toContain("application/json");
+        expect(await response.json()).toEqual({
+            success: false,
+            message: "Money transfer failed - insufficient balance",
+            error: {
+                code: "INSUFFICIENT_BALANCE",
+                details: {
+                    accountId: "2",
+                    attemptedAmount: "10000",
+                    currentBalance: "500",
+                    availableBalance: "500",
+                    overdraftLimit: "0",
+                    currency: "JPY",
+                },
+            },
+        });
+    });
+
+    it("Accept: application/problem+json なら Problem Details を返す", async () => {
+        const response = await send(insufficient, {Accept: "application/problem+json"});
+
+        expect(response.status).toBe(400);
+        expect(response.headers.get("Content-Type")).toBe("application/problem+json");
+        expect(await response.json()).toEqual({
+            type: "urn:buckpal:problem:INSUFFICIENT_BALANCE",
+            title: "Money transfer failed - insufficient balance",
+            status: 400,
+            instance: "/api/accounts/send",
+            code: "INSUFFICIENT_BALANCE",
+            accountId: "2",
+            attemptedAmount: "10000",
+            currentBalance: "500",
+            availableBalance: "500",
+            overdraftLimit: "0",
+            currency: "JPY",
+        });
+    });
+
+    it("バリデーションエラーも同じ形式（400 VALIDATION_ERROR）で返す", async () => {
+        const response = await send({sourceAccountId: "abc", targetAccountId: "1", amount: "100"});
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            success: false,
+            message: "Invalid request data",
+            error: {
+                code: "VALIDATION_ERROR",
+                details: {
+                    errors: [{path: ["sourceAccountId"], message: "sourceAccountId must be a numeric string"}],
+                },
+            },
+        });
+    });
+
+    it("送金以外のルートの例外も onError で変換される", async () => {
+        const response = await SELF.fetch("http://example.com/api/accounts/99999/balance", {
+            headers: {Accept: "application/problem+json"},
+        });
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({
+            type: "urn:buckpal:problem:ACCOUNT_NOT_FOUND",
+            title: "Account not found",
+            status: 404,
+            instance: "/api/accounts/99999/balance",
+            code: "ACCOUNT_NOT_FOUND",
+            accountId: "99999",
+        });
+    });
+
+    it("冪等性キーの再利用も共通のエラーハンドラーで422になる", async () => {
+        await send({sourceAccountId: "2", targetAccountId: "1", amount: "100"}, {"Idempotency-Key": "reused"});
+        const response = await send(
+            {sourceAccountId: "2", targetAccountId: "1", amount: "200"},
+            {"Idempotency-Key": "reused"}
+        );
+
+        expect(response.status).toBe(422);
+        const body = (await response.json()) as SendMoneyWebResponse;
+        expect(body.error).toEqual({
+            code: "IDEMPOTENCY_KEY_REUSED",
+            details: {idempotencyKey: "reused"},
+        });
+    });
+
+    it("保存済みのエラーレスポンスも、再送時に problem+json で返せる", async () => {
+        await send(insufficient, {"Idempotency-Key": "replay-problem"});
+        const retry = await send(insufficient, {
+            "Idempotency-Key": "replay-problem",
+            Accept: "application/problem+json",
+        });
+
+        expect(retry.status).toBe(400);
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(retry.headers.get("Content-Type")).toBe("application/problem+json");
+        expect(((await retry.json()) as { code: string }).code).toBe("INSUFFICIENT_BALANCE");
+    });
+});
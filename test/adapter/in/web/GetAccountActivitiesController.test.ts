@@ -0,0 +1,188 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+
+/**
+ * GetAccountActivitiesController の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提となる初期データ】
+ * InMemoryAccountPersistenceAdapter は、アカウント1からアカウント2への
+ * 500円の送金（昨日）を初期データとして持つ
+ */
+describe("GetAccountActivitiesController（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        resetContainer();
+    });
+
+    /**
+     * 送金APIを呼び出してアクティビティを追加する
+     */
+    async function sendMoney(amount: string): Promise<void> {
+        const response = await SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount}),
+        });
+        expect(response.status).toBe(200);
+    }
+
+    it("アクティビティ履歴を新しい順に返す", async () => {
+        await sendMoney("100");
+
+        const response = await SELF.fetch("http://example.com/api/accounts/2/activities");
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as { data: { activities: Array<{ direction: string; amount: string }>; nextCursor: string | null } };
+        expect(body.data.activities.map((a) => [a.direction, a.amount])).toEqual([
+            ["outgoing", "100"],
+            ["incoming", "500"],
+        ]);
+        expect(body.data.nextCursor).toBeNull();
+    });
+
+    it("direction で絞り込める", async () => {
+        await sendMoney("100");
+
+        const response = await SELF.fetch("http://example.com/api/accounts/2/activities?direction=incoming");
+
+        const body = (await response.json()) as { data: { activities: Array<{ direction: string }> } };
+        expect(body.data.activities.map((a) => a.direction)).toEqual(["incoming"]);
+    });
+
+    it("nextCursor を使って次のページを取得できる", async () => {
+        await sendMoney("100");
+        await sendMoney("50");
+
+        const first = await SELF.fetch("http://example.com/api/accounts/2/activities?limit=2");
+        const firstBody = (await first.json()) as { data: { activities: Array<{ id: string }>; nextCursor: string | null } };
+
+        expect(firstBody.data.activities).toHaveLength(2);
+        expect(firstBody.data.nextCursor).not.toBeNull();
+
+        const second = await SELF.fetch(
+            `http://example.com/api/accounts/2/activities?limit=2&cursor=${firstBody.data.nextCursor ?? ""}`
+        );
+        const secondBody = (await second.json()) as { data: { activities: Array<{ id: string }>; nextCursor: string | null } };
+
+        expect(secondBody.data.activities).toHaveLength(1);
+        expect(secondBody.data.nextCursor).toBeNull();
+
+        const ids = [...firstBody.data.activities, ...secondBody.data.activities].map((a) => a.id);
+        expect(new Set(ids).size).toBe(3);
+    });
+
+    it("同じ timestamp のアクティビティが並んでいても、ページをまたいで重複・欠落なく取得できる", async () => {
+        // 時刻を止めて、3件の送金を同じ timestamp（ミリ秒まで同じ）で記録する
+        vi.useFakeTimers({toFake: ["Date"]});
+        vi.setSystemTime(new Date());
+        const batch = await SELF.fetch("http://example.com/api/transfers/batch", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({
+                items: [10, 20, 30].map((amount) => ({sourceAccountId: "2", targetAccountId: "1", amount: String(amount)})),
+            }),
+        });
+        vi.useRealTimers();
+        expect(batch.status).toBe(200);
+
+        type ActivitiesBody = { data: { activities: Array<{ id: string; timestamp: string; amount: string }>; nextCursor: string | null } };
+        const pages: ActivitiesBody["data"][] = [];
+        let cursor: string | null = null;
+        do {
+            const query: string = cursor ? `limit=1&cursor=${cursor}` : "limit=1";
+            const response = await SELF.fetch(`http://example.com/api/accounts/2/activities?${query}`);
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as ActivitiesBody;
+            pages.push(body.data);
+            cursor = body.data.nextCursor;
+        } while (cursor && pages.length < 10);
+
+        const activities = pages.flatMap((page) => page.activities);
+        const outgoing = activities.slice(0, 3);
+
+        expect(new Set(outgoing.map((a) => a.timestamp)).size).toBe(1);
+        expect(activities.map((a) => a.amount)).toEqual(["30", "20", "10", "500"]);
+        expect(new Set(activities.map((a) => a.id)).size).toBe(4);
+    });
+
+    it("存在しないアカウントは404エラーになる", async () => {
+        const response = await SELF.fetch("http://example.com/api/accounts/999/activities");
+
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as { error: { code: string } };
+        expect(body.error.code).toBe("ACCOUNT_NOT_FOUND");
+    });
+
+    it("送金時の参照情報とメモを送金元と送金先の両方の履歴に返す", async () => {
+        const send = await SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({
+                sourceAccountId: "2",
+                targetAccountId: "1",
+                amount: "100",
+                reference: "INV-2025/001",
+                memo: "11月分の家賃",
+            }),
+        });
+        expect(send.status).toBe(200);
+
+        type ActivitiesBody = { data: { activities: Array<{ amount: string; reference: string | null; memo: string | null }> } };
+        const source = (await (await SELF.fetch("http://example.com/api/accounts/2/activities")).json()) as ActivitiesBody;
+        const target = (await (await SELF.fetch("http://example.com/api/accounts/1/activities")).json()) as ActivitiesBody;
+
+        expect(source.data.activities.map((a) => [a.amount, a.reference, a.memo])).toEqual([
+            ["100", "INV-2025/001", "11月分の家賃"],
+            ["500", null, null],
+        ]);
+        expect(target.data.activities[0]).toMatchObject({amount: "100", reference: "INV-2025/001", memo: "11月分の家賃"});
+    });
+
+    it("不正な参照情報・メモは送金時に400エラーになる", async () => {
+        const send = (extra: Record<string, string>) =>
+            SELF.fetch("http://example.com/api/accounts/send", {
+                method: "POST",
+                headers: {"Content-Type": "application/json"},
+                body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount: "100", ...extra}),
+            });
+
+        const invalidCharset = await send({reference: "請求書#1"});
+        const tooLongReference = await send({reference: "A".repeat(36)});
+        const tooLongMemo = await send({memo: "あ".repeat(141)});
+        const memoWithNewline = await send({memo: "1行目\n2行目"});
+        const scheduled = await send({reference: "INV-1", executeAt: "2099-01-01T00:00:00Z"});
+
+        expect(invalidCharset.status).toBe(400);
+        expect(tooLongReference.status).toBe(400);
+        expect(tooLongMemo.status).toBe(400);
+        expect(memoWithNewline.status).toBe(400);
+        expect(scheduled.status).toBe(400);
+    });
+
+    it("不正なクエリパラメータは400エラーになる", async () => {
+        const invalidDirection = await SELF.fetch("http://example.com/api/accounts/2/activities?direction=sideways");
+        const invalidCursor = await SELF.fetch("http://example.com/api/accounts/2/activities?cursor=not-a-cursor");
+        const invalidRange = await SELF.fetch(
+            "http://example.com/api/accounts/2/activities?from=2025-01-02T00:00:00Z&to=2025-01-01T00:00:00Z"
+        );
+
+        expect(invalidDirection.status).toBe(400);
+        expect(invalidCursor.status).toBe(400);
+        expect(invalidRange.status).toBe(400);
+    });
+});
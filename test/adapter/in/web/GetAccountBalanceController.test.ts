@@ -0,0 +1,72 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+
+/**
+ * GetAccountBalanceController の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【テスト戦略】
+ * - SELF.fetch() で実際のHTTPリクエストをシミュレート
+ * - 永続化には InMemoryAccountPersistenceAdapter を使用
+ *   → 初期データ: アカウント1からアカウント2へ500円の送金（昨日）
+ */
+describe("GetAccountBalanceController（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false", // ← InMemoryアダプターを使用
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    it("アカウントの残高を返す", async () => {
+        const response = await SELF.fetch("http://example.com/api/accounts/2/balance");
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            success: true,
+            message: "Account balance retrieved successfully",
+            data: {
+                accountId: "2",
+                balance: "500",
+                overdraftLimit: "0",
+                overdraftUsage: "0",
+                availableBalance: "500",
+                baselineBalance: "0",
+                currency: "JPY",
+                baselineDate: expect.any(String),
+                asOf: expect.any(String),
+            },
+        });
+    });
+
+    it("存在しないアカウントの場合、404エラーになる", async () => {
+        const response = await SELF.fetch("http://example.com/api/accounts/99999/balance");
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({
+            success: false,
+            message: "Account not found",
+            error: {
+                code: "ACCOUNT_NOT_FOUND",
+                details: {accountId: "99999"},
+            },
+        });
+    });
+
+    it("accountId が数値以外の場合、400エラーになる", async () => {
+        const response = await SELF.fetch("http://example.com/api/accounts/abc/balance");
+
+        expect(response.status).toBe(400);
+    });
+});
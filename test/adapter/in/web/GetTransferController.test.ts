@@ -0,0 +1,97 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+import type {TransferWebResponse} from "../../../../src/adapter/in/web/models/TransferWebResponse";
+
+/**
+ * 送金の照会APIの統合テスト（Webアダプタ層 + InMemoryアダプター）
+ */
+describe("送金の照会API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    // 管理者向けAPI（/api/admin/*）の認証（vitest.config.ts で設定した ADMIN_API_TOKEN）
+    const adminAuthorization = {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`};
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const send = async (): Promise<SendMoneyWebResponse> => {
+        const response = await SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount: "100"}),
+        });
+        expect(response.status).toBe(200);
+        return (await response.json()) as SendMoneyWebResponse;
+    };
+
+    it("送金APIのレスポンスの transferId で、送金と送金にひも付くアクティビティを照会できる", async () => {
+        const sent = await send();
+        const transferId = sent.data?.transferId ?? "";
+        expect(transferId).toMatch(/^[0-9a-f-]{36}$/);
+
+        const response = await SELF.fetch(`http://example.com/api/transfers/${transferId}`);
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as TransferWebResponse;
+        expect(body.data).toMatchObject({
+            transferId,
+            status: "COMPLETED",
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            currency: "JPY",
+            fee: "0",
+            totalDebit: "100",
+            depositedAmount: "100",
+            depositedCurrency: "JPY",
+            reference: null,
+            createdAt: sent.data?.timestamp,
+        });
+        expect(body.data?.activities.map((a) => [a.ownerAccountId, a.sourceAccountId, a.targetAccountId, a.amount]))
+            .toEqual([
+                ["2", "2", "1", "100"],
+                ["1", "2", "1", "100"],
+            ]);
+    });
+
+    it("取り消した送金は REVERSED になる（取り消しのアクティビティは含まない）", async () => {
+        const transferId = (await send()).data?.transferId ?? "";
+        const reversed = await SELF.fetch(`http://example.com/api/admin/transfers/${transferId}/force-reverse`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json", ...adminAuthorization},
+            body: JSON.stringify({reason: "誤送金のため"}),
+        });
+        expect(reversed.status).toBe(200);
+
+        const response = await SELF.fetch(`http://example.com/api/transfers/${transferId}`);
+
+        const body = (await response.json()) as TransferWebResponse;
+        expect(body.data?.status).toBe("REVERSED");
+        expect(body.data?.activities).toHaveLength(2);
+    });
+
+    it("存在しない送金は 404 TRANSFER_NOT_FOUND になる", async () => {
+        const transferId = crypto.randomUUID();
+
+        const response = await SELF.fetch(`http://example.com/api/transfers/${transferId}`);
+
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as TransferWebResponse;
+        expect(body.error).toMatchObject({code: "TRANSFER_NOT_FOUND", details: {transferId}});
+    });
+});
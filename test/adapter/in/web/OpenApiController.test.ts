@@ -0,0 +1,106 @@
+import "reflect-metadata";
+
+import {describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {app} from "../../../../src/index";
+import {toOpenApiPath} from "../../../../src/adapter/in/web/openapi/createOpenApiDocument";
+import type {OpenApiDocument} from "../../../../src/adapter/in/web/openapi/createOpenApiDocument";
+
+/**
+ * OpenAPI ドキュメント（/openapi.json）と Scalar のリファレンスUI（/docs）のテスト
+ *
+ * 【検証ポイント】
+ * - アプリに登録されている /api 配下のルートが、すべてドキュメントに載っている（ドキュメントの漏れ検知）
+ * - 各ルートのエラーレスポンスに、ドメイン例外のエラーコードが載っている
+ */
+describe("OpenApiController", () => {
+    type Operation = {
+        parameters?: { name: string; in: string; required: boolean }[];
+        requestBody?: unknown;
+        responses: Record<string, { content: Record<string, { schema: unknown }> }>;
+    };
+
+    async function fetchDocument(): Promise<OpenApiDocument> {
+        const response = await SELF.fetch("http://example.com/openapi.json");
+        expect(response.status).toBe(200);
+        return (await response.json()) as OpenApiDocument;
+    }
+
+    function operationOf(document: OpenApiDocument, method: string, path: string): Operation {
+        return document.paths[path][method] as Operation;
+    }
+
+    function errorCodesOf(operation: Operation, status: string): string[] {
+        const schema = operation.responses[status].content["application/problem+json"].schema as {
+            allOf: [unknown, { properties: { code: { enum: string[] } } }];
+        };
+        return schema.allOf[1].properties.code.enum;
+    }
+
+    it("OpenAPI 3.1 のドキュメントを返す", async () => {
+        const document = await fetchDocument();
+
+        expect(document.openapi).toBe("3.1.0");
+        expect(document.info.title).toBe("BuckPal API");
+        expect(Object.keys(document.components.schemas)).toEqual(["ErrorResponse", "ProblemDetails"]);
+    });
+
+    it("/api 配下のすべてのルートがドキュメントに載っている", async () => {
+        const document = await fetchDocument();
+
+        const apiRoutes = app.routes.filter((route) => route.path.startsWith("/api/") && route.method !== "ALL");
+        expect(apiRoutes.length).toBeGreaterThan(0);
+
+        for (const route of apiRoutes) {
+            const path = toOpenApiPath(route.path);
+            expect(document.paths[path]?.[route.method.toLowerCase()], `${route.method} ${route.path}`).toBeDefined();
+        }
+    });
+
+    it("送金APIのエラーレスポンスに、ドメイン例外のエラーコードが載っている", async () => {
+        const operation = operationOf(await fetchDocument(), "post", "/api/accounts/send");
+
+        expect(errorCodesOf(operation, "400")).toEqual(expect.arrayContaining([
+            "VALIDATION_ERROR",
+            "INSUFFICIENT_BALANCE",
+            "THRESHOLD_EXCEEDED",
+            "CUMULATIVE_LIMIT_EXCEEDED",
+            "SAME_ACCOUNT_TRANSFER",
+            "ACCOUNT_NOT_ACTIVE",
+            "INVALID_IDEMPOTENCY_KEY",
+        ]));
+        expect(errorCodesOf(operation, "404")).toEqual(["ACCOUNT_NOT_FOUND"]);
+        expect(errorCodesOf(operation, "422")).toEqual(["INVALID_EXCHANGE_RATE_QUOTE", "IDEMPOTENCY_KEY_REUSED"]);
+        expect(errorCodesOf(operation, "503")).toEqual(["ACCOUNT_LOCK_TIMEOUT", "EXCHANGE_RATE_UNAVAILABLE"]);
+        expect(errorCodesOf(operation, "500")).toEqual(["INTERNAL_ERROR"]);
+
+        // リクエストボディとヘッダーは zod スキーマから生成される
+        expect(operation.requestBody).toMatchObject({
+            content: {
+                "application/json": {
+                    schema: {required: ["sourceAccountId", "targetAccountId", "amount"]},
+                },
+            },
+        });
+        expect(operation.parameters).toEqual([
+            expect.objectContaining({name: "Idempotency-Key", in: "header", required: false}),
+        ]);
+    });
+
+    it("パスパラメータは OpenAPI 形式のパスと必須のパラメータになる", async () => {
+        const operation = operationOf(await fetchDocument(), "post", "/api/accounts/{accountId}/freeze");
+
+        expect(operation.parameters).toEqual([
+            expect.objectContaining({name: "accountId", in: "path", required: true}),
+        ]);
+        expect(errorCodesOf(operation, "409")).toEqual(["INVALID_ACCOUNT_STATUS_TRANSITION"]);
+    });
+
+    it("/docs で Scalar のリファレンスUIを返す", async () => {
+        const response = await SELF.fetch("http://example.com/docs");
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("Content-Type")).toContain("text/html");
+        expect(await response.text()).toContain("/openapi.json");
+    });
+});
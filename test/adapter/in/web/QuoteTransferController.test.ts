@@ -0,0 +1,101 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {QuoteTransferWebResponse} from "../../../../src/adapter/in/web/models/QuoteTransferWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 送金手数料と見積もり（ドライラン）APIの統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - TRANSFER_FEE_REVENUE_ACCOUNT_ID=3 で手数料を請求する（3万円以下は定額110円）
+ * - 初期データ: アカウント1, 2（JPY）。アカウント2の残高は500円
+ * - 手数料を入金するアカウント3は、各テストの最初に開設する
+ */
+describe("送金手数料と見積もりAPI（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+        TRANSFER_FEE_REVENUE_ACCOUNT_ID: "3",
+    };
+
+    beforeEach(async () => {
+        resetContainer();
+        setupContainer(mockEnv);
+        expect((await post("/api/accounts", {})).status).toBe(201);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const post = (path: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com${path}`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify(body),
+        });
+
+    const balanceOf = async (accountId: number): Promise<string | undefined> => {
+        const response = await SELF.fetch(`http://example.com/api/accounts/${accountId.toString()}/balance`);
+        return ((await response.json()) as GetAccountBalanceWebResponse).data?.balance;
+    };
+
+    it("POST /api/transfers/quote は手数料を含む内訳を返し、お金は動かさない", async () => {
+        const response = await post("/api/transfers/quote", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+        });
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as QuoteTransferWebResponse;
+        expect(body.data).toEqual({
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            currency: "JPY",
+            fee: "110",
+            totalDebit: "210",
+            depositedAmount: "100",
+            depositedCurrency: "JPY",
+        });
+
+        expect(await balanceOf(2)).toBe("500");
+        expect(await balanceOf(3)).toBe("0");
+    });
+
+    it("送金すると送金元から送金額 + 手数料が引き落とされ、手数料はアカウント3に入金される", async () => {
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+        });
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as SendMoneyWebResponse;
+        expect(body.data?.fee).toBe("110");
+        expect(body.data?.totalDebit).toBe("210");
+
+        expect(await balanceOf(2)).toBe("290");
+        expect(await balanceOf(3)).toBe("110");
+    });
+
+    it("残高が送金額 + 手数料に足りない場合、見積もりでも 400 INSUFFICIENT_BALANCE になる", async () => {
+        const response = await post("/api/transfers/quote", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "400",
+        });
+
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as QuoteTransferWebResponse;
+        expect(body.error?.code).toBe("INSUFFICIENT_BALANCE");
+        expect(body.error?.details).toMatchObject({attemptedAmount: "510", currentBalance: "500"});
+    });
+});
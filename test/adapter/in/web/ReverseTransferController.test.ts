@@ -0,0 +1,165 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {GetAccountActivitiesWebResponse} from "../../../../src/adapter/in/web/models/GetAccountActivitiesWebResponse";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {ReverseTransferWebResponse} from "../../../../src/adapter/in/web/models/ReverseTransferWebResponse";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
+
+/**
+ * 送金の取り消しAPIの統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - 初期データ: アカウント1の残高 -500円、アカウント2の残高 500円（送金IDのない送金）
+ * - 各テストで、アカウント2からアカウント1に送金し、レスポンスの送金IDで取り消す
+ */
+describe("送金の取り消しAPI（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    // 管理者向けAPI（/api/admin/*）の認証（vitest.config.ts で設定した ADMIN_API_TOKEN）
+    const adminAuthorization = {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`};
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const send = async (amount: string): Promise<string> => {
+        const response = await SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount}),
+        });
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as SendMoneyWebResponse;
+        return body.data?.transferId ?? "";
+    };
+
+    const reverse = (transferId: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com/api/transfers/${transferId}/reverse`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify(body),
+        });
+
+    const forceReverse = (transferId: string, body: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com/api/admin/transfers/${transferId}/force-reverse`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json", ...adminAuthorization},
+            body: JSON.stringify(body),
+        });
+
+    // アカウント1は残高がマイナスなので、取り消しの出金には当座貸越が必要
+    const allowOverdraftOfAccount1 = async (): Promise<void> => {
+        const response = await SELF.fetch("http://example.com/api/admin/accounts/1/overdraft-limit", {
+            method: "PUT",
+            headers: {"Content-Type": "application/json", ...adminAuthorization},
+            body: JSON.stringify({overdraftLimit: "1000"}),
+        });
+        expect(response.status).toBe(200);
+    };
+
+    const balanceOf = async (accountId: string): Promise<string | undefined> => {
+        const response = await SELF.fetch(`http://example.com/api/accounts/${accountId}/balance`);
+        const body = (await response.json()) as GetAccountBalanceWebResponse;
+        return body.data?.balance;
+    };
+
+    it("POST /api/transfers/:transferId/reverse で送金を取り消すと、両方の残高が元に戻り、理由が記録される", async () => {
+        await allowOverdraftOfAccount1();
+        const transferId = await send("100");
+
+        const response = await reverse(transferId, {reason: "誤送金のため"});
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as ReverseTransferWebResponse;
+        expect(body.data).toMatchObject({
+            transferId,
+            reason: "誤送金のため",
+            forced: false,
+        });
+        expect(body.data?.originalActivityIds).toHaveLength(2);
+        expect(await balanceOf("2")).toBe("500");
+        expect(await balanceOf("1")).toBe("-500");
+    });
+
+    it("取り消しのアクティビティは、元のアクティビティにリンクされて履歴に出る", async () => {
+        await allowOverdraftOfAccount1();
+        const transferId = await send("100");
+        expect((await reverse(transferId, {reason: "誤送金のため"})).status).toBe(200);
+
+        const response = await SELF.fetch("http://example.com/api/accounts/1/activities");
+        const body = (await response.json()) as GetAccountActivitiesWebResponse;
+        const [reversal, original] = body.data?.activities ?? [];
+        expect(reversal).toMatchObject({direction: "outgoing", amount: "100", reversalOf: original.id, transferId: null});
+        expect(original).toMatchObject({direction: "incoming", amount: "100", reversalOf: null, transferId});
+    });
+
+    it("同じ送金をもう一度取り消すと 409 TRANSFER_ALREADY_REVERSED になる", async () => {
+        await allowOverdraftOfAccount1();
+        const transferId = await send("100");
+        expect((await reverse(transferId, {reason: "誤送金のため"})).status).toBe(200);
+
+        const response = await reverse(transferId, {reason: "もう一度"});
+
+        expect(response.status).toBe(409);
+        const body = (await response.json()) as ReverseTransferWebResponse;
+        expect(body.error).toMatchObject({code: "TRANSFER_ALREADY_REVERSED", details: {transferId}});
+        expect(await balanceOf("2")).toBe("500");
+    });
+
+    it("送金先の残高が足りなければ 400 INSUFFICIENT_BALANCE になり、管理者向けの force-reverse なら取り消せる", async () => {
+        const transferId = await send("100");
+
+        const rejected = await reverse(transferId, {reason: "誤送金のため"});
+        expect(rejected.status).toBe(400);
+        expect(((await rejected.json()) as ReverseTransferWebResponse).error?.code).toBe("INSUFFICIENT_BALANCE");
+        expect(await balanceOf("1")).toBe("-400");
+
+        const forced = await forceReverse(transferId, {reason: "管理者判断"});
+        expect(forced.status).toBe(200);
+        expect(((await forced.json()) as ReverseTransferWebResponse).data?.forced).toBe(true);
+        expect(await balanceOf("1")).toBe("-500");
+    });
+
+    it("通常の取り消しAPIでは force を指定しても、送金先の残高をチェックする", async () => {
+        const transferId = await send("100");
+
+        const response = await reverse(transferId, {reason: "誤送金のため", force: true});
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as ReverseTransferWebResponse).error?.code).toBe("INSUFFICIENT_BALANCE");
+        expect(await balanceOf("1")).toBe("-400");
+    });
+
+    it("存在しない送金を指定すると 404 TRANSFER_NOT_FOUND になる", async () => {
+        const transferId = crypto.randomUUID();
+
+        const response = await reverse(transferId, {reason: "誤送金のため"});
+
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as ReverseTransferWebResponse;
+        expect(body.error).toMatchObject({code: "TRANSFER_NOT_FOUND", details: {transferId}});
+    });
+
+    it("送金IDが UUID でない場合や、理由が空の場合は 400 VALIDATION_ERROR になる", async () => {
+        const byActivityId = await reverse("1", {reason: "誤送金のため"});
+        expect(byActivityId.status).toBe(400);
+        expect(((await byActivityId.json()) as ReverseTransferWebResponse).error?.code).toBe("VALIDATION_ERROR");
+
+        const withoutReason = await reverse(crypto.randomUUID(), {reason: "  "});
+        expect(withoutReason.status).toBe(400);
+        expect(((await withoutReason.json()) as ReverseTransferWebResponse).error?.code).toBe("VALIDATION_ERROR");
+    });
+});
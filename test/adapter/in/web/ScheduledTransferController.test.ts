@@ -0,0 +1,229 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {createScheduledController, SELF} from "cloudflare:test";
+import {runScheduledTransfers} from "../../../../src/adapter/in/scheduler/ScheduledTransferHandler";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {
+    ScheduledTransferWebResponse,
+    ScheduledTransfersWebResponse,
+} from "../../../../src/adapter/in/web/models/ScheduledTransferWebResponse";
+
+/**
+ * 予約送金の統合テスト（Webアダプタ層 + scheduled ハンドラー + InMemoryアダプター）
+ *
+ * 【テスト戦略】
+ * - POST /api/accounts/send に executeAt を指定して予約する
+ * - Cron Trigger の代わりに、scheduled ハンドラーの処理（runScheduledTransfers）を直接呼ぶ
+ *   （scheduledTime に実行日時より後の時刻を渡す）
+ * - 初期データ: アカウント1, 2（JPY）。アカウント2の残高は500円
+ */
+describe("予約送金API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    const executeAt = new Date(Date.now() + 60 * 60 * 1000);
+    const afterExecuteAt = executeAt.getTime() + 60 * 1000;
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const post = (path: string, body?: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com${path}`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+    const get = (path: string): Promise<Response> => SELF.fetch(`http://example.com${path}`);
+
+    const schedule = async (amount: string): Promise<string> => {
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount,
+            executeAt: executeAt.toISOString(),
+        });
+        expect(response.status).toBe(202);
+        return ((await response.json()) as ScheduledTransferWebResponse).data?.scheduledTransferId ?? "";
+    };
+
+    const scheduledTransferOf = async (id: string): Promise<ScheduledTransferWebResponse> =>
+        (await (await get(`/api/scheduled-transfers/${id}`)).json()) as ScheduledTransferWebResponse;
+
+    const balanceOf = async (accountId: number): Promise<string | undefined> => {
+        const response = await get(`/api/accounts/${accountId.toString()}/balance`);
+        return ((await response.json()) as GetAccountBalanceWebResponse).data?.balance;
+    };
+
+    const runScheduler = () =>
+        runScheduledTransfers(createScheduledController({scheduledTime: afterExecuteAt, cron: "* * * * *"}), mockEnv);
+
+    it("executeAt を指定すると 202 で予約され、実行日時まではお金が動かない", async () => {
+        // ===== Act =====
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            executeAt: executeAt.toISOString(),
+        });
+
+        // ===== Assert =====
+        expect(response.status).toBe(202);
+        const body = (await response.json()) as ScheduledTransferWebResponse;
+        expect(body.data).toMatchObject({
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            currency: "JPY",
+            executeAt: executeAt.toISOString(),
+            status: "PENDING",
+            completedAt: null,
+            failure: null,
+        });
+
+        expect(await balanceOf(2)).toBe("500");
+    });
+
+    it("scheduled ハンドラーが実行日時を過ぎた予約を送金し、EXECUTED になる", async () => {
+        // ===== Arrange =====
+        const id = await schedule("100");
+
+        // ===== Act =====
+        const result = await runScheduler();
+
+        // ===== Assert =====
+        expect(result).toEqual({executed: 1, failed: 0, retried: 0, skipped: 0, errored: 0});
+        expect(await balanceOf(2)).toBe("400");
+        expect((await scheduledTransferOf(id)).data?.status).toBe("EXECUTED");
+
+        // 実行済みの予約は、次の実行で再び送金されない
+        expect(await runScheduler()).toEqual({executed: 0, failed: 0, retried: 0, skipped: 0, errored: 0});
+    });
+
+    it("実行時に残高が足りない場合は FAILED になり、理由を照会できる", async () => {
+        // ===== Arrange =====
+        const id = await schedule("600");
+
+        // ===== Act =====
+        const result = await runScheduler();
+
+        // ===== Assert =====
+        expect(result).toEqual({executed: 0, failed: 1, retried: 0, skipped: 0, errored: 0});
+        expect(await balanceOf(2)).toBe("500");
+
+        const body = await scheduledTransferOf(id);
+        expect(body.data?.status).toBe("FAILED");
+        expect(body.data?.failure?.reason).toBe("InsufficientBalanceException");
+        expect(body.data?.completedAt).not.toBeNull();
+
+        const list = (await (await get("/api/accounts/2/scheduled-transfers?status=FAILED")).json()) as ScheduledTransfersWebResponse;
+        expect(list.data?.scheduledTransfers.map((transfer) => transfer.scheduledTransferId)).toEqual([id]);
+    });
+
+    it("GET /api/accounts/:accountId/scheduled-transfers は送金元の予約を状態で絞り込める", async () => {
+        // ===== Arrange =====
+        const first = await schedule("100");
+        const second = await schedule("200");
+        expect((await post(`/api/scheduled-transfers/${second}/cancel`)).status).toBe(200);
+
+        // ===== Act =====
+        const all = (await (await get("/api/accounts/2/scheduled-transfers")).json()) as ScheduledTransfersWebResponse;
+        const pending = (await (await get("/api/accounts/2/scheduled-transfers?status=PENDING")).json()) as ScheduledTransfersWebResponse;
+        const ofTarget = (await (await get("/api/accounts/1/scheduled-transfers")).json()) as ScheduledTransfersWebResponse;
+
+        // ===== Assert =====
+        expect(all.data?.scheduledTransfers).toHaveLength(2);
+        expect(pending.data?.scheduledTransfers.map((transfer) => transfer.scheduledTransferId)).toEqual([first]);
+        expect(ofTarget.data?.scheduledTransfers).toEqual([]);
+    });
+
+    it("取り消した予約は実行されず、もう一度取り消すと 409 になる", async () => {
+        // ===== Arrange =====
+        const id = await schedule("100");
+
+        // ===== Act =====
+        const response = await post(`/api/scheduled-transfers/${id}/cancel`);
+
+        // ===== Assert =====
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as ScheduledTransferWebResponse).data?.status).toBe("CANCELLED");
+
+        expect(await runScheduler()).toEqual({executed: 0, failed: 0, retried: 0, skipped: 0, errored: 0});
+        expect(await balanceOf(2)).toBe("500");
+
+        const again = await post(`/api/scheduled-transfers/${id}/cancel`);
+        expect(again.status).toBe(409);
+        const body = (await again.json()) as ScheduledTransferWebResponse;
+        expect(body.error?.code).toBe("INVALID_SCHEDULED_TRANSFER_STATUS_TRANSITION");
+        expect(body.error?.details).toMatchObject({currentStatus: "CANCELLED", requestedStatus: "CANCELLED"});
+    });
+
+    it("実行日時が過去の場合は 400 EXECUTION_TIME_NOT_IN_FUTURE", async () => {
+        // ===== Act =====
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            executeAt: "2020-01-01T00:00:00Z",
+        });
+
+        // ===== Assert =====
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as ScheduledTransferWebResponse;
+        expect(body.error?.code).toBe("EXECUTION_TIME_NOT_IN_FUTURE");
+    });
+
+    it("存在しないアカウントへの予約は 404 ACCOUNT_NOT_FOUND", async () => {
+        // ===== Act =====
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "99",
+            amount: "100",
+            executeAt: executeAt.toISOString(),
+        });
+
+        // ===== Assert =====
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as ScheduledTransferWebResponse;
+        expect(body.error?.code).toBe("ACCOUNT_NOT_FOUND");
+        expect(body.error?.details).toMatchObject({accountId: "99", side: "target"});
+    });
+
+    it("executeAt と quoteId を同時に指定するとバリデーションエラーになる", async () => {
+        // ===== Act =====
+        const response = await post("/api/accounts/send", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            executeAt: executeAt.toISOString(),
+            quoteId: "quote-1",
+        });
+
+        // ===== Assert =====
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as ScheduledTransferWebResponse;
+        expect(body.error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("存在しない予約送金は 404 SCHEDULED_TRANSFER_NOT_FOUND", async () => {
+        // ===== Act =====
+        const response = await get(`/api/scheduled-transfers/${crypto.randomUUID()}`);
+
+        // ===== Assert =====
+        expect(response.status).toBe(404);
+        const body = (await response.json()) as ScheduledTransferWebResponse;
+        expect(body.error?.code).toBe("SCHEDULED_TRANSFER_NOT_FOUND");
+    });
+});
@@ -6,6 +6,7 @@ import {createClient} from "@supabase/supabase-js";
 import {resetContainer, setupContainer} from "../../../../src/config/container";
 import type {Database} from "../../../../supabase/database";
 import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {SendMoneyWebResponse} from "../../../../src/adapter/in/web/models/SendMoneyWebResponse";
 
 /**
  * SendMoneyController の統合テスト（Webアダプタ層 + ローカルSupabase DB）
@@ -367,7 +368,7 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             expect(response.status).toBe(200);
 
             // 2. レスポンスボディの構造を検証
-            const responseBody = await response.json();
+            const responseBody = (await response.json()) as SendMoneyWebResponse;
 
             // toEqual() を使う理由:
             // - responseBody は毎回新しいオブジェクトとして生成される
@@ -380,6 +381,11 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
                     sourceAccountId: TEST_ACCOUNT_SOURCE.toString(),
                     targetAccountId: TEST_ACCOUNT_TARGET.toString(),
                     amount: "500",
+                    currency: "JPY",
+                    fee: "0",
+                    totalDebit: "500",
+                    depositedAmount: "500",
+                    depositedCurrency: "JPY",
                     timestamp: expect.any(String),
                 },
             });
@@ -450,9 +456,9 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             // ===== Assert =====
             expect(response.status).toBe(200);
 
-            const responseBody = await response.json();
+            const responseBody = (await response.json()) as SendMoneyWebResponse;
             expect(responseBody.success).toBe(true);
-            expect(responseBody.data.amount).toBe("999999");
+            expect(responseBody.data?.amount).toBe("999999");
 
             // DB確認: 送金元の残高が正しく減っているか
             // 2,000,000 - 999,999 = 1,000,001
@@ -575,9 +581,9 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             // ===== Assert =====
             expect(response.status).toBe(500);
 
-            const errorBody = await response.json();
+            const errorBody = (await response.json()) as SendMoneyWebResponse;
             expect(errorBody.success).toBe(false);
-            expect(errorBody.error.code).toBe("INTERNAL_ERROR");
+            expect(errorBody.error?.code).toBe("INTERNAL_ERROR");
         });
     });
 
@@ -621,10 +627,10 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             expect(response.status).toBe(400);
 
             // 2. エラーレスポンスの内容を確認
-            const errorBody = await response.json();
+            const errorBody = (await response.json()) as SendMoneyWebResponse;
             expect(errorBody.success).toBe(false);
             expect(errorBody.message).toBe("Money transfer failed - insufficient balance");
-            expect(errorBody.error.code).toBe("INSUFFICIENT_BALANCE");
+            expect(errorBody.error?.code).toBe("INSUFFICIENT_BALANCE");
 
             // 3. DBを確認して、残高が変わっていないことを検証
             const {data: sourceActivities} = await supabase
@@ -674,14 +680,15 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             expect(response.status).toBe(400);
 
             // 2. エラーレスポンスの内容を確認
-            const errorBody = await response.json();
+            const errorBody = (await response.json()) as SendMoneyWebResponse;
             expect(errorBody.success).toBe(false);
-            expect(errorBody.error.code).toBe("THRESHOLD_EXCEEDED");
+            expect(errorBody.error?.code).toBe("THRESHOLD_EXCEEDED");
 
             // 3. エラーの詳細情報が含まれている
-            expect(errorBody.error.details).toEqual({
+            expect(errorBody.error?.details).toEqual({
                 threshold: "1000000",
                 attempted: "2000000",
+                currency: "JPY",
             });
 
             // 4. エラーメッセージが適切
@@ -702,9 +709,9 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
          *
          * 【シナリオ】
          * - 送金先アカウントがDBに存在しない
-         * - 期待結果: 500 Internal Server Error
+         * - 期待結果: 404 Not Found（どちらのアカウントが原因かを side で返す）
          */
-        it("存在しないアカウントへの送金でエラーになる", async () => {
+        it("存在しないアカウントへの送金は404エラーになる", async () => {
             // ===== Arrange =====
 
             // 送金元に残高を設定
@@ -727,13 +734,13 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
 
             // ===== Assert =====
 
-            // 500 Internal Server Error
-            expect(response.status).toBe(500);
+            // 404 Not Found
+            expect(response.status).toBe(404);
 
-            const errorBody = await response.json();
+            const errorBody = (await response.json()) as SendMoneyWebResponse;
             expect(errorBody.success).toBe(false);
-            expect(errorBody.error.code).toBe("INTERNAL_ERROR");
-            expect(errorBody.message).toContain("Account not found");
+            expect(errorBody.error?.code).toBe("ACCOUNT_NOT_FOUND");
+            expect(errorBody.error?.details).toEqual({accountId: "99999", side: "target"});
         });
     });
 
@@ -773,9 +780,9 @@ describe("SendMoneyController（Webアダプタ統合テスト + ローカルSup
             expect(response.status).toBe(400);
 
             // 2. エラーレスポンスの内容を確認
-            const errorBody = await response.json();
+            const errorBody = (await response.json()) as SendMoneyWebResponse;
             expect(errorBody.success).toBe(false);
-            expect(errorBody.error.code).toBe("SAME_ACCOUNT_TRANSFER");
+            expect(errorBody.error?.code).toBe("SAME_ACCOUNT_TRANSFER");
             expect(errorBody.message).toContain("Cannot transfer money to the same account");
 
             // 3. DBを確認して、送金が実行されていないことを検証
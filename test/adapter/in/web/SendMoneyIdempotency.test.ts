@@ -0,0 +1,100 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+
+/**
+ * 送金APIの Idempotency-Key ヘッダーの統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提となる初期データ】
+ * アカウント2は500円の残高を持つ
+ */
+describe("SendMoneyController Idempotency-Key（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    function send(body: Record<string, string>, idempotencyKey?: string): Promise<Response> {
+        return SELF.fetch("http://example.com/api/accounts/send", {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(idempotencyKey ? {"Idempotency-Key": idempotencyKey} : {}),
+            },
+            body: JSON.stringify(body),
+        });
+    }
+
+    async function balanceOf(accountId: string): Promise<string> {
+        const response = await SELF.fetch(`http://example.com/api/accounts/${accountId}/balance`);
+        const body = (await response.json()) as { data: { balance: string } };
+        return body.data.balance;
+    }
+
+    const request = {sourceAccountId: "2", targetAccountId: "1", amount: "100"};
+
+    it("同じキーでのリトライは送金を再実行せず、初回のレスポンスを返す", async () => {
+        const first = await send(request, "key-1");
+        const firstBody: unknown = await first.json();
+
+        const retry = await send(request, "key-1");
+        const retryBody: unknown = await retry.json();
+
+        expect(first.status).toBe(200);
+        expect(retry.status).toBe(200);
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+        expect(retryBody).toEqual(firstBody);
+
+        // 送金は1回だけ実行されている（500 - 100 = 400）
+        expect(await balanceOf("2")).toBe("400");
+    });
+
+    it("フィールドの順序が違っても同じリクエストとして扱う", async () => {
+        await send(request, "key-2");
+
+        const retry = await send({amount: "100", targetAccountId: "1", sourceAccountId: "2"}, "key-2");
+
+        expect(retry.status).toBe(200);
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    });
+
+    it("同じキーを異なる内容で再利用すると422エラーになる", async () => {
+        await send(request, "key-3");
+
+        const reused = await send({...request, amount: "200"}, "key-3");
+
+        expect(reused.status).toBe(422);
+        const body = (await reused.json()) as { error: { code: string } };
+        expect(body.error.code).toBe("IDEMPOTENCY_KEY_REUSED");
+        expect(await balanceOf("2")).toBe("400");
+    });
+
+    it("ビジネスエラーのレスポンスも再送される", async () => {
+        const first = await send({...request, amount: "10000"}, "key-4");
+        const retry = await send({...request, amount: "10000"}, "key-4");
+
+        expect(first.status).toBe(400);
+        expect(retry.status).toBe(400);
+        expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    });
+
+    it("キーがなければ従来どおり毎回送金する", async () => {
+        await send(request);
+        await send(request);
+
+        expect(await balanceOf("2")).toBe("300");
+    });
+});
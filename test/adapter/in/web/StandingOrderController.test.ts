@@ -0,0 +1,220 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {createExecutionContext, createScheduledController, SELF, waitOnExecutionContext} from "cloudflare:test";
+import {scheduledHandler} from "../../../../src/adapter/in/scheduler/scheduledHandler";
+import {runStandingOrders} from "../../../../src/adapter/in/scheduler/StandingOrderHandler";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {GetAccountBalanceWebResponse} from "../../../../src/adapter/in/web/models/GetAccountBalanceWebResponse";
+import type {
+    StandingOrderDetailWebResponse,
+    StandingOrdersWebResponse,
+    StandingOrderWebResponse,
+} from "../../../../src/adapter/in/web/models/StandingOrderWebResponse";
+
+/**
+ * 定期送金の統合テスト（Webアダプタ層 + scheduled ハンドラー + InMemoryアダプター）
+ *
+ * 【テスト戦略】
+ * - 毎分実行する Cron 式（"* * * * *"）の定期送金を作成する
+ * - Cron Trigger の代わりに、scheduled ハンドラーの処理（runStandingOrders）を直接呼ぶ
+ *   （scheduledTime に次の実行時刻より後の時刻を渡す）
+ * - 再試行しない・2回続けて失敗したら自動停止する設定で起動する
+ * - 初期データ: アカウント1, 2（JPY）。アカウント2の残高は500円
+ */
+describe("定期送金API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+        STANDING_ORDER_MAX_RETRIES: "0",
+        STANDING_ORDER_PAUSE_AFTER_FAILURES: "2",
+    };
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    const post = (path: string, body?: unknown): Promise<Response> =>
+        SELF.fetch(`http://example.com${path}`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+    const get = (path: string): Promise<Response> => SELF.fetch(`http://example.com${path}`);
+
+    const create = async (amount: string): Promise<string> => {
+        const response = await post("/api/standing-orders", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount,
+            schedule: {type: "CRON", expression: "* * * * *"},
+        });
+        expect(response.status).toBe(201);
+        return ((await response.json()) as StandingOrderWebResponse).data?.standingOrderId ?? "";
+    };
+
+    const standingOrderOf = async (id: string): Promise<StandingOrderDetailWebResponse> =>
+        (await (await get(`/api/standing-orders/${id}`)).json()) as StandingOrderDetailWebResponse;
+
+    const balanceOf = async (accountId: number): Promise<string | undefined> => {
+        const response = await get(`/api/accounts/${accountId.toString()}/balance`);
+        return ((await response.json()) as GetAccountBalanceWebResponse).data?.balance;
+    };
+
+    /**
+     * 指定した分数だけ先の時刻を scheduledTime にしてスケジューラーを実行する
+     */
+    const runSchedulerAfter = (minutes: number) =>
+        runStandingOrders(
+            createScheduledController({scheduledTime: Date.now() + minutes * 60 * 1000, cron: "* * * * *"}),
+            mockEnv
+        );
+
+    it("POST /api/standing-orders は 201 と Location を返し、アカウントの一覧に含まれる", async () => {
+        // ===== Act =====
+        const response = await post("/api/standing-orders", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            schedule: {type: "MONTHLY", dayOfMonth: 25, time: "09:00"},
+        });
+
+        // ===== Assert =====
+        expect(response.status).toBe(201);
+        const body = (await response.json()) as StandingOrderWebResponse;
+        expect(body.data).toMatchObject({
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            currency: "JPY",
+            schedule: {type: "MONTHLY", dayOfMonth: 25, time: "09:00"},
+            status: "ACTIVE",
+            consecutiveFailures: 0,
+            pauseReason: null,
+        });
+        expect(body.data?.nextRunAt).toMatch(/-25T09:00:00\.000Z$/);
+        expect(response.headers.get("Location")).toBe(`/api/standing-orders/${body.data?.standingOrderId ?? ""}`);
+
+        const list = (await (await get("/api/accounts/2/standing-orders?status=ACTIVE")).json()) as StandingOrdersWebResponse;
+        expect(list.data?.standingOrders.map((order) => order.standingOrderId)).toEqual([body.data?.standingOrderId]);
+        expect(await balanceOf(2)).toBe("500");
+    });
+
+    it("スケジューラーが次の実行時刻を過ぎた定期送金を送金し、実行記録を残して次の実行時刻に進める", async () => {
+        // ===== Arrange =====
+        const id = await create("100");
+        const before = await standingOrderOf(id);
+
+        // ===== Act =====
+        const result = await runSchedulerAfter(2);
+
+        // ===== Assert =====
+        expect(result).toEqual({executed: 1, failed: 0, paused: 0, skipped: 0, errored: 0});
+        expect(await balanceOf(2)).toBe("400");
+
+        const after = await standingOrderOf(id);
+        expect(after.data?.status).toBe("ACTIVE");
+        expect(after.data?.recentRuns).toEqual([
+            expect.objectContaining({occurrenceAt: before.data?.nextRunAt, attempt: 1, outcome: "SUCCEEDED", failure: null}),
+        ]);
+        expect(new Date(after.data?.nextRunAt ?? 0).getTime())
+            .toBeGreaterThan(new Date(before.data?.nextRunAt ?? 0).getTime());
+    });
+
+    it("送金できない実行は例外の名前を記録し、続けて失敗すると自動で停止する（再開すると ACTIVE に戻る）", async () => {
+        // ===== Arrange =====
+        const id = await create("1000");
+
+        // ===== Act =====
+        await runSchedulerAfter(2);
+        const second = await runSchedulerAfter(5);
+
+        // ===== Assert =====
+        expect(second).toEqual({executed: 0, failed: 1, paused: 1, skipped: 0, errored: 0});
+        const paused = await standingOrderOf(id);
+        expect(paused.data).toMatchObject({status: "PAUSED", pauseReason: "TOO_MANY_FAILURES", consecutiveFailures: 2});
+        expect(paused.data?.recentRuns.map((run) => run.failure?.reason)).toEqual([
+            "InsufficientBalanceException",
+            "InsufficientBalanceException",
+        ]);
+        expect(await balanceOf(2)).toBe("500");
+
+        // 停止中は実行しない
+        expect(await runSchedulerAfter(10)).toEqual({executed: 0, failed: 0, paused: 0, skipped: 0, errored: 0});
+
+        const resumed = await post(`/api/standing-orders/${id}/resume`);
+        expect(resumed.status).toBe(200);
+        const body = (await resumed.json()) as StandingOrderWebResponse;
+        expect(body.data).toMatchObject({status: "ACTIVE", pauseReason: null, consecutiveFailures: 0});
+    });
+
+    it("停止した定期送金は実行されず、取り消した定期送金の再開は 409 になる", async () => {
+        // ===== Arrange =====
+        const id = await create("100");
+
+        // ===== Act & Assert =====
+        expect((await post(`/api/standing-orders/${id}/pause`)).status).toBe(200);
+        expect(await runSchedulerAfter(2)).toMatchObject({executed: 0});
+        expect(await balanceOf(2)).toBe("500");
+
+        expect((await post(`/api/standing-orders/${id}/cancel`)).status).toBe(200);
+        const response = await post(`/api/standing-orders/${id}/resume`);
+        expect(response.status).toBe(409);
+        const body = (await response.json()) as StandingOrderWebResponse;
+        expect(body.error?.code).toBe("INVALID_STANDING_ORDER_STATUS_TRANSITION");
+        expect(body.error?.details).toMatchObject({currentStatus: "CANCELLED", requestedStatus: "ACTIVE"});
+    });
+
+    it("一致する日時がない Cron 式は 400 INVALID_STANDING_ORDER_SCHEDULE、範囲外の日は 400 VALIDATION_ERROR", async () => {
+        // ===== Act =====
+        const invalidCron = await post("/api/standing-orders", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            schedule: {type: "CRON", expression: "0 0 30 2 *"},
+        });
+        const invalidDay = await post("/api/standing-orders", {
+            sourceAccountId: "2",
+            targetAccountId: "1",
+            amount: "100",
+            schedule: {type: "MONTHLY", dayOfMonth: 32},
+        });
+
+        // ===== Assert =====
+        expect(invalidCron.status).toBe(400);
+        expect(((await invalidCron.json()) as StandingOrderWebResponse).error?.code).toBe("INVALID_STANDING_ORDER_SCHEDULE");
+        expect(invalidDay.status).toBe(400);
+        expect(((await invalidDay.json()) as StandingOrderWebResponse).error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("存在しない定期送金は 404 STANDING_ORDER_NOT_FOUND", async () => {
+        // ===== Act =====
+        const response = await get("/api/standing-orders/00000000-0000-4000-8000-000000000000");
+
+        // ===== Assert =====
+        expect(response.status).toBe(404);
+        expect(((await response.json()) as StandingOrderWebResponse).error?.code).toBe("STANDING_ORDER_NOT_FOUND");
+    });
+
+    it("Worker の scheduled ハンドラーは、予約送金に続けて定期送金を実行する", async () => {
+        // ===== Arrange =====
+        await create("100");
+        const controller = createScheduledController({scheduledTime: Date.now() + 2 * 60 * 1000, cron: "* * * * *"});
+        const ctx = createExecutionContext();
+
+        // ===== Act =====
+        scheduledHandler(controller, mockEnv, ctx);
+        await waitOnExecutionContext(ctx);
+
+        // ===== Assert =====
+        expect(await balanceOf(2)).toBe("400");
+    });
+});
@@ -0,0 +1,75 @@
+import "reflect-metadata";
+
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {env, SELF} from "cloudflare:test";
+import {resetContainer, setupContainer} from "../../../../src/config/container";
+import {InvalidTransferConfigurationError} from "../../../../src/config/transferRules";
+import type {CloudflareBindings} from "../../../../src/types/bindings";
+import type {QuoteTransferWebResponse} from "../../../../src/adapter/in/web/models/QuoteTransferWebResponse";
+import type {TransferConfigurationWebResponse} from "../../../../src/adapter/in/web/models/TransferConfigurationWebResponse";
+
+/**
+ * 送金設定API（管理者向け）の統合テスト（Webアダプタ層 + InMemoryアダプター）
+ *
+ * 【前提】
+ * - TRANSFER_MAX_AMOUNT=400 で BASIC の1回の限度額を400円に下げる（他は既定値）
+ * - 初期データ: アカウント1, 2（JPY、区分は BASIC）。アカウント2の残高は500円
+ */
+describe("送金設定API（Webアダプタ統合テスト + InMemory）", () => {
+    const mockEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+        TRANSFER_MAX_AMOUNT: "400",
+    };
+
+    // 管理者向けAPI（/api/admin/*）の認証（vitest.config.ts で設定した ADMIN_API_TOKEN）
+    const adminAuthorization = {Authorization: `Bearer ${env.ADMIN_API_TOKEN}`};
+
+    beforeEach(() => {
+        resetContainer();
+        setupContainer(mockEnv);
+    });
+
+    afterEach(() => {
+        resetContainer();
+    });
+
+    it("GET /api/admin/transfer-config は環境変数を反映した実際の設定を返す", async () => {
+        const response = await SELF.fetch("http://example.com/api/admin/transfer-config", {headers: adminAuthorization});
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as TransferConfigurationWebResponse;
+        expect(body.data?.baseCurrency).toBe("JPY");
+        expect(body.data?.tiers.map(({tier}) => tier)).toEqual(["BASIC", "VERIFIED", "BUSINESS"]);
+        expect(body.data?.tiers[0]).toEqual({
+            tier: "BASIC",
+            currency: "JPY",
+            maximumTransferAmount: "400",
+            cumulativeLimits: [
+                {period: "DAILY", windowDays: 1, limit: "3000000"},
+                {period: "MONTHLY", windowDays: 30, limit: "10000000"},
+            ],
+        });
+        expect(body.data?.fee).toEqual({charged: false, revenueAccountId: null});
+    });
+
+    it("設定した1回の限度額を超える送金は 400 THRESHOLD_EXCEEDED になる", async () => {
+        const response = await SELF.fetch("http://example.com/api/transfers/quote", {
+            method: "POST",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({sourceAccountId: "2", targetAccountId: "1", amount: "401"}),
+        });
+
+        expect(response.status).toBe(400);
+        const body = (await response.json()) as QuoteTransferWebResponse;
+        expect(body.error?.code).toBe("THRESHOLD_EXCEEDED");
+    });
+
+    it("不正な環境変数がある場合は、コンテナの初期化時にエラーになる", () => {
+        resetContainer();
+
+        expect(() => setupContainer({...mockEnv, TRANSFER_DAILY_LIMIT: "300"}))
+            .toThrow(InvalidTransferConfigurationError);
+    });
+});
@@ -0,0 +1,88 @@
+import {describe, expect, it} from "vitest";
+import {HttpErrorMappingRegistry} from "../../../../../src/adapter/in/web/errors/HttpErrorMappingRegistry";
+import {acceptsProblemJson, toProblemDetails} from "../../../../../src/adapter/in/web/errors/ProblemDetails";
+
+class ParentException extends Error {
+    constructor(public readonly value: string) {
+        super(`parent: ${value}`);
+    }
+}
+
+class ChildException extends ParentException {}
+
+class OverriddenChildException extends ParentException {}
+
+describe("HttpErrorMappingRegistry", () => {
+    const registry = new HttpErrorMappingRegistry()
+        .register(ParentException, {
+            status: 400,
+            code: "PARENT",
+            describe: (error) => ({message: "parent", details: {value: error.value}}),
+        })
+        .register(OverriddenChildException, {
+            status: 409,
+            code: "OVERRIDDEN_CHILD",
+            describe: () => ({message: "overridden child"}),
+        });
+
+    it("登録した例外クラスをHTTPエラーに変換する", () => {
+        expect(registry.resolve(new ParentException("a"))).toEqual({
+            status: 400,
+            code: "PARENT",
+            message: "parent",
+            details: {value: "a"},
+        });
+    });
+
+    it("サブクラスは登録されていなければ親クラスの変換を使う", () => {
+        expect(registry.resolve(new ChildException("b"))?.code).toBe("PARENT");
+    });
+
+    it("サブクラスが登録されていれば、そちらを優先する", () => {
+        expect(registry.resolve(new OverriddenChildException("c"))?.code).toBe("OVERRIDDEN_CHILD");
+    });
+
+    it("インスタンスがなくても、例外クラスからステータスとコードを引ける", () => {
+        expect(registry.definitionOf(ChildException)).toMatchObject({status: 400, code: "PARENT"});
+        expect(registry.definitionOf(Error)).toBeUndefined();
+    });
+
+    it("登録されていない例外や Error 以外の値は undefined を返す", () => {
+        expect(registry.resolve(new Error("unknown"))).toBeUndefined();
+        expect(registry.resolve("not an error")).toBeUndefined();
+    });
+});
+
+describe("ProblemDetails", () => {
+    it.each([
+        ["application/problem+json", true],
+        ["application/json, application/problem+json;q=0.9", true],
+        ["Application/Problem+JSON", true],
+        ["application/json", false],
+        ["*/*", false],
+        [undefined, false],
+    ])("Accept: %s → %s", (accept, expected) => {
+        expect(acceptsProblemJson(accept)).toBe(expected);
+    });
+
+    it("details は拡張メンバーになり、標準のメンバーを上書きしない", () => {
+        const problem = toProblemDetails(
+            {
+                status: 400,
+                code: "INSUFFICIENT_BALANCE",
+                message: "Money transfer failed - insufficient balance",
+                details: {accountId: "1", status: "should not override"},
+            },
+            "/api/accounts/send"
+        );
+
+        expect(problem).toEqual({
+            type: "urn:buckpal:problem:INSUFFICIENT_BALANCE",
+            title: "Money transfer failed - insufficient balance",
+            status: 400,
+            instance: "/api/accounts/send",
+            code: "INSUFFICIENT_BALANCE",
+            accountId: "1",
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import "reflect-metadata";
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {HttpExchangeRateAdapter} from "../../../../src/adapter/out/exchangerate/HttpExchangeRateAdapter";
+import {ExchangeRateUnavailableException} from "../../../../src/application/domain/exception/ExchangeRateUnavailableException";
+import {Currency} from "../../../../src/application/domain/model/Currency";
+import {ExchangeRate} from "../../../../src/application/domain/model/ExchangeRate";
+
+/**
+ * HttpExchangeRateAdapter のテスト
+ *
+ * 【検証すること】
+ * - GET {baseUrl}/rates?from=&to= のレスポンスからレートを作る
+ * - 通信エラー・エラーステータス・不正なレスポンスは ExchangeRateUnavailableException
+ * - 同じ通貨同士は API を呼ばない
+ *
+ * fetch はスタブに差し替える（外部のレートAPIやモックサーバーには接続しない）
+ */
+describe("HttpExchangeRateAdapter", () => {
+    const adapter = new HttpExchangeRateAdapter({baseUrl: "http://rates.example.com", timeoutMs: 1000});
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const stubFetch = (response: Response | Error) => {
+        const fetchMock = vi.fn(() =>
+            response instanceof Error ? Promise.reject(response) : Promise.resolve(response)
+        );
+        vi.stubGlobal("fetch", fetchMock);
+        return fetchMock;
+    };
+
+    it("APIのレスポンスからレートを作成する", async () => {
+        // Arrange
+        const fetchMock = stubFetch(Response.json({rate: "150.25"}));
+
+        // Act
+        const rate = await adapter.getRate(Currency.USD, Currency.JPY);
+
+        // Assert
+        expect(rate.equals(ExchangeRate.of(Currency.USD, Currency.JPY, "150.25"))).toBe(true);
+        const [url] = fetchMock.mock.calls[0] as unknown as [URL];
+        expect(url.toString()).toBe("http://rates.example.com/rates?from=USD&to=JPY");
+    });
+
+    it("同じ通貨同士の場合は API を呼ばずに 1 を返す", async () => {
+        // Arrange
+        const fetchMock = stubFetch(Response.json({rate: "2"}));
+
+        // Act
+        const rate = await adapter.getRate(Currency.EUR, Currency.EUR);
+
+        // Assert
+        expect(rate.toString()).toBe("1");
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ["通信エラー", new Error("connection refused")],
+        ["エラーステータス", new Response("unavailable", {status: 503})],
+        ["レートのないレスポンス", Response.json({price: 150})],
+        ["不正なレート", Response.json({rate: "-1"})],
+    ])("%sの場合は ExchangeRateUnavailableException になる", async (_, response) => {
+        // Arrange
+        stubFetch(response);
+
+        // Act & Assert
+        const error = await adapter.getRate(Currency.USD, Currency.JPY).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(ExchangeRateUnavailableException);
+        expect((error as ExchangeRateUnavailableException).from).toBe(Currency.USD);
+        expect((error as ExchangeRateUnavailableException).to).toBe(Currency.JPY);
+    });
+});
@@ -0,0 +1,94 @@
+import "reflect-metadata";
+import {env} from "cloudflare:test";
+import {describe, expect, it} from "vitest";
+import {DurableObjectAccountLock} from "../../../../src/adapter/out/persistence/DurableObjectAccountLock";
+import {AccountLockTimeoutException} from "../../../../src/application/domain/exception/AccountLockTimeoutException";
+import {AccountId} from "../../../../src/application/domain/model/Activity";
+
+/**
+ * DurableObjectAccountLock の統合テスト
+ *
+ * wrangler.jsonc の ACCOUNT_LOCK バインディング（AccountLockDurableObject）を
+ * Miniflare 上で実際に動かして検証する
+ */
+describe("DurableObjectAccountLock（統合テスト - Durable Object）", () => {
+    const accountId = new AccountId(101n);
+    const otherAccountId = new AccountId(102n);
+
+    it("ロック中のアカウントは、解放されるまで待ってから取得できる", async () => {
+        // Arrange
+        const lock = new DurableObjectAccountLock(env.ACCOUNT_LOCK);
+        const events: string[] = [];
+        const firstToken = await lock.lockAccount(accountId);
+
+        // Act
+        const second = lock.lockAccount(accountId).then((token) => {
+            events.push("second acquired");
+            return token;
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        events.push("first released");
+        await lock.releaseAccount(accountId, firstToken);
+
+        const secondToken = await second;
+        await lock.releaseAccount(accountId, secondToken);
+
+        // Assert
+        expect(events).toEqual(["first released", "second acquired"]);
+        expect(secondToken).not.toBe(firstToken);
+    });
+
+    it("別の Worker インスタンスからのロックも直列化される（タイムアウト）", async () => {
+        // Arrange: 同じ名前空間を使う2つのアダプター（別インスタンスを想定）
+        const lockA = new DurableObjectAccountLock(env.ACCOUNT_LOCK);
+        const lockB = new DurableObjectAccountLock(env.ACCOUNT_LOCK);
+        const token = await lockA.lockAccount(accountId);
+
+        // Act & Assert
+        await expect(
+            lockB.lockAccount(accountId, {timeoutMs: 30})
+        ).rejects.toThrow(AccountLockTimeoutException);
+
+        await lockA.releaseAccount(accountId, token);
+    });
+
+    it("異なるトークンでは解放されず、異なるアカウントには影響しない", async () => {
+        // Arrange
+        const lock = new DurableObjectAccountLock(env.ACCOUNT_LOCK);
+        const token = await lock.lockAccount(accountId);
+
+        // Act
+        await lock.releaseAccount(accountId, "someone-else");
+
+        // Assert
+        await expect(
+            lock.lockAccount(accountId, {timeoutMs: 10})
+        ).rejects.toThrow(AccountLockTimeoutException);
+
+        const otherToken = await lock.lockAccount(otherAccountId, {timeoutMs: 10});
+        await lock.releaseAccount(otherAccountId, otherToken);
+        await lock.releaseAccount(accountId, token);
+    });
+
+    it("延長したロックは元のリース期間を過ぎても保持され、他のトークンでは延長できない", async () => {
+        // Arrange: 短いリースで直接取得する
+        const lockAccountId = new AccountId(103n);
+        const stub = env.ACCOUNT_LOCK.getByName(lockAccountId.getValue().toString());
+        const lock = new DurableObjectAccountLock(env.ACCOUNT_LOCK);
+        await expect(stub.acquire("holder", 0, 50)).resolves.toBe(true);
+
+        // Act: 元のリースが切れる前に延長し、元のリース期間を過ぎるまで待つ
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await expect(lock.renewAccount(lockAccountId, "holder")).resolves.toBe(true);
+        await new Promise((resolve) => setTimeout(resolve, 60));
+
+        // Assert
+        await expect(lock.renewAccount(lockAccountId, "someone-else")).resolves.toBe(false);
+        await expect(
+            lock.lockAccount(lockAccountId, {timeoutMs: 10})
+        ).rejects.toThrow(AccountLockTimeoutException);
+
+        await lock.releaseAccount(lockAccountId, "holder");
+    });
+});
@@ -0,0 +1,129 @@
+import "reflect-metadata";
+import {describe, expect, it} from "vitest";
+import {InProcessAccountLock} from "../../../../src/adapter/out/persistence/InProcessAccountLock";
+import {AccountLockTimeoutException} from "../../../../src/application/domain/exception/AccountLockTimeoutException";
+import {AccountId} from "../../../../src/application/domain/model/Activity";
+
+/**
+ * InProcessAccountLock のテスト
+ *
+ * 【検証すること】
+ * - 同じアカウントのロックは同時に1つしか取得できない
+ * - 解放されると、待っていた要求が到着順にロックを取得する
+ * - 時間内に取得できなければ AccountLockTimeoutException
+ * - 異なるアカウントのロックは互いに影響しない
+ */
+describe("InProcessAccountLock", () => {
+    const accountId = new AccountId(1n);
+    const otherAccountId = new AccountId(2n);
+
+    it("ロックを取得するとトークンが発行される", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+
+        // Act
+        const token = await lock.lockAccount(accountId);
+
+        // Assert
+        expect(token).toEqual(expect.any(String));
+        expect(token.length).toBeGreaterThan(0);
+    });
+
+    it("ロック中のアカウントは、解放されるまで待ってから取得できる", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        const events: string[] = [];
+        const firstToken = await lock.lockAccount(accountId);
+
+        // Act
+        const second = lock.lockAccount(accountId).then((token) => {
+            events.push("second acquired");
+            return token;
+        });
+
+        // 解放前は取得できていない
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push("first released");
+        await lock.releaseAccount(accountId, firstToken);
+
+        const secondToken = await second;
+
+        // Assert
+        expect(events).toEqual(["first released", "second acquired"]);
+        expect(secondToken).not.toBe(firstToken);
+    });
+
+    it("待っている要求は到着順にロックを取得する", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        const order: number[] = [];
+        const firstToken = await lock.lockAccount(accountId);
+
+        const waiters = [1, 2, 3].map((n) =>
+            lock.lockAccount(accountId).then(async (token) => {
+                order.push(n);
+                await lock.releaseAccount(accountId, token);
+            })
+        );
+
+        // Act
+        await lock.releaseAccount(accountId, firstToken);
+        await Promise.all(waiters);
+
+        // Assert
+        expect(order).toEqual([1, 2, 3]);
+    });
+
+    it("時間内に取得できなければ AccountLockTimeoutException を投げる", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        await lock.lockAccount(accountId);
+
+        // Act & Assert
+        await expect(
+            lock.lockAccount(accountId, {timeoutMs: 20})
+        ).rejects.toThrow(AccountLockTimeoutException);
+    });
+
+    it("タイムアウトした要求は、その後の解放でロックを取得しない", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        const firstToken = await lock.lockAccount(accountId);
+        await expect(
+            lock.lockAccount(accountId, {timeoutMs: 10})
+        ).rejects.toThrow(AccountLockTimeoutException);
+
+        // Act
+        await lock.releaseAccount(accountId, firstToken);
+
+        // Assert: ロックは空いているので、すぐに取得できる
+        await expect(
+            lock.lockAccount(accountId, {timeoutMs: 0})
+        ).resolves.toEqual(expect.any(String));
+    });
+
+    it("異なるトークンでは解放されない", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        await lock.lockAccount(accountId);
+
+        // Act
+        await lock.releaseAccount(accountId, "someone-else");
+
+        // Assert
+        await expect(
+            lock.lockAccount(accountId, {timeoutMs: 10})
+        ).rejects.toThrow(AccountLockTimeoutException);
+    });
+
+    it("異なるアカウントのロックは互いに影響しない", async () => {
+        // Arrange
+        const lock = new InProcessAccountLock();
+        await lock.lockAccount(accountId);
+
+        // Act & Assert
+        await expect(
+            lock.lockAccount(otherAccountId, {timeoutMs: 0})
+        ).resolves.toEqual(expect.any(String));
+    });
+});
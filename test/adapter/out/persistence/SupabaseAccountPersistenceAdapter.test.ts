@@ -18,7 +18,9 @@ import {
 // テスト対象: アカウントデータをSupabaseに保存/読み込みするアダプター
 // これがヘキサゴナルアーキテクチャの「アウトバウンドアダプター」です
 import {AccountId} from "../../../../src/application/domain/model/Activity";
+import {AccountNotFoundException} from "../../../../src/application/domain/exception/AccountNotFoundException";
 import {Money} from "../../../../src/application/domain/model/Money";
+import {Transfer, TransferId} from "../../../../src/application/domain/model/Transfer";
 // ドメインモデル: ビジネスロジックの中心となるクラス
 import type {Database} from "../../../../supabase/database";
 import {InsufficientBalanceException} from "../../../../src/application/domain/exception/InsufficientBalanceException";
@@ -166,13 +168,37 @@ describe("SupabaseAccountPersistenceAdapter（統合テスト - ローカルDB
             .in("owner_account_id", [Number(TEST_ACCOUNT_1), Number(TEST_ACCOUNT_2)]);
         // .in() で「TEST_ACCOUNT_1 または TEST_ACCOUNT_2 のどちらか」という条件
 
-        // ===== 2. アカウントを削除 =====
+        // ===== 2. 送金の記録を削除（アクティビティから参照されているため、アクティビティの後に削除）=====
+        await supabase
+            .from("transfers")
+            .delete()
+            .in("source_account_id", [Number(TEST_ACCOUNT_1), Number(TEST_ACCOUNT_2)]);
+
+        // ===== 3. アカウントを削除 =====
         await supabase
             .from("accounts")
             .delete()
             .in("id", [Number(TEST_ACCOUNT_1), Number(TEST_ACCOUNT_2)]);
     }
 
+    /**
+     * TEST_ACCOUNT_1 から TEST_ACCOUNT_2 への送金の記録を作成するヘルパー関数
+     *
+     * @param amount 送金額（円）
+     */
+    function newTransfer(amount: number): Transfer {
+        return Transfer.complete(
+            new TransferId(crypto.randomUUID()),
+            new AccountId(TEST_ACCOUNT_1),
+            new AccountId(TEST_ACCOUNT_2),
+            Money.of(amount),
+            Money.of(0),
+            Money.of(amount),
+            null,
+            new Date()
+        );
+    }
+
     /**
      * テスト用アカウントに初期残高を設定するヘルパー関数
      *
@@ -390,7 +416,7 @@ describe("SupabaseAccountPersistenceAdapter（統合テスト - ローカルDB
          *
          * 【検証内容】
          * - 存在しないアカウントIDを指定すると例外がスローされるか
-         * - エラーメッセージが適切か
+         * - DBエラーではなく AccountNotFoundException になるか（PGRST116 の判定）
          */
         it("存在しないアカウントを読み込むとエラー", async () => {
             // ===== Arrange =====
@@ -401,7 +427,7 @@ describe("SupabaseAccountPersistenceAdapter（統合テスト - ローカルDB
             // loadAccountを実行すると例外がスローされることを期待
             await expect(
                 adapter.loadAccount(nonExistentId, baselineDate)
-            ).rejects.toThrow("Account not found");
+            ).rejects.toThrow(AccountNotFoundException);
             // .rejects.toThrow() = 「この非同期処理がエラーを投げることを期待」
         });
     });
@@ -615,6 +641,142 @@ describe("SupabaseAccountPersistenceAdapter（統合テスト - ローカルDB
         });
     });
 
+    describe("persistTransfer", () => {
+        /**
+         * 送金元・送金先の両方のアクティビティが1回の呼び出しで保存される
+         */
+        it("送金元と送金先のアクティビティをまとめて保存できる", async () => {
+            // ===== Arrange =====
+            const sourceAccountId = new AccountId(TEST_ACCOUNT_1);
+            const targetAccountId = new AccountId(TEST_ACCOUNT_2);
+            const baselineDate = new Date("2025-01-01");
+
+            await setupInitialBalance(TEST_ACCOUNT_1, 1000);
+
+            const sourceAccount = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const targetAccount = await adapter.loadAccount(targetAccountId, baselineDate);
+
+            sourceAccount.withdraw(Money.of(300), targetAccountId);
+            targetAccount.deposit(Money.of(300), sourceAccountId);
+
+            // ===== Act =====
+            await adapter.persistTransfer(newTransfer(300), [sourceAccount, targetAccount]);
+
+            // ===== Assert =====
+            const reloadedSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const reloadedTarget = await adapter.loadAccount(targetAccountId, baselineDate);
+
+            expect(reloadedSource.calculateBalance().getAmount()).toBe(700n);
+            expect(reloadedTarget.calculateBalance().getAmount()).toBe(300n);
+        });
+
+        /**
+         * 読み込み後に別の送金で残高が減っていた場合、
+         * 保存直前の再チェックで拒否され、どちらの側も保存されない
+         */
+        it("保存直前に残高が不足していた場合、何も保存せずに InsufficientBalanceException を投げる", async () => {
+            // ===== Arrange =====
+            const sourceAccountId = new AccountId(TEST_ACCOUNT_1);
+            const targetAccountId = new AccountId(TEST_ACCOUNT_2);
+            const baselineDate = new Date("2025-01-01");
+
+            await setupInitialBalance(TEST_ACCOUNT_1, 500);
+
+            // 2つの送金が同じ残高（500円）を読み込む
+            const firstSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const secondSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const secondTarget = await adapter.loadAccount(targetAccountId, baselineDate);
+
+            // 1つ目の送金（400円）が先に保存される
+            firstSource.withdraw(Money.of(400), targetAccountId);
+            await adapter.persistTransfer(newTransfer(400), [firstSource]);
+
+            // ===== Act & Assert =====
+            // 2つ目の送金（300円）は読み込み時点では成功するが、保存時には残高が100円しかない
+            secondSource.withdraw(Money.of(300), targetAccountId);
+            secondTarget.deposit(Money.of(300), sourceAccountId);
+
+            await expect(
+                adapter.persistTransfer(newTransfer(300), [secondSource, secondTarget])
+            ).rejects.toThrow(InsufficientBalanceException);
+
+            // 送金先にもアクティビティが保存されていない
+            const {data: targetActivities} = await supabase
+                .from("activities")
+                .select("*")
+                .eq("owner_account_id", Number(TEST_ACCOUNT_2))
+                .gte("timestamp", baselineDate.toISOString());
+
+            expect(targetActivities).toHaveLength(0);
+
+            const reloadedSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            expect(reloadedSource.calculateBalance().getAmount()).toBe(100n);
+        });
+    });
+
+    describe("persistTransfers", () => {
+        it("複数の送金の記録とアクティビティを1回でまとめて保存できる", async () => {
+            // ===== Arrange =====
+            const sourceAccountId = new AccountId(TEST_ACCOUNT_1);
+            const targetAccountId = new AccountId(TEST_ACCOUNT_2);
+            const baselineDate = new Date("2025-01-01");
+
+            await setupInitialBalance(TEST_ACCOUNT_1, 1000);
+
+            const sourceAccount = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const targetAccount = await adapter.loadAccount(targetAccountId, baselineDate);
+            const transfers = [newTransfer(300), newTransfer(200)];
+
+            for (const transfer of transfers) {
+                sourceAccount.withdraw(transfer.amount, targetAccountId, null, transfer.id);
+                targetAccount.deposit(transfer.amount, sourceAccountId, null, transfer.id);
+            }
+
+            // ===== Act =====
+            await adapter.persistTransfers(transfers, [sourceAccount, targetAccount]);
+
+            // ===== Assert =====
+            const reloadedSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            expect(reloadedSource.calculateBalance().getAmount()).toBe(500n);
+
+            for (const transfer of transfers) {
+                expect(await adapter.loadTransfer(transfer.id)).not.toBeNull();
+                expect(await adapter.loadTransferActivities(transfer.id)).toHaveLength(2);
+            }
+        });
+
+        it("すべての送金を反映した残高が不足する場合、どの送金も保存しない", async () => {
+            // ===== Arrange =====
+            const sourceAccountId = new AccountId(TEST_ACCOUNT_1);
+            const targetAccountId = new AccountId(TEST_ACCOUNT_2);
+            const baselineDate = new Date("2025-01-01");
+
+            await setupInitialBalance(TEST_ACCOUNT_1, 500);
+
+            // 読み込んだ後に、別の送金（400円）が先に保存される
+            const sourceAccount = await adapter.loadAccount(sourceAccountId, baselineDate);
+            const concurrentSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            concurrentSource.withdraw(Money.of(400), targetAccountId);
+            await adapter.persistTransfer(newTransfer(400), [concurrentSource]);
+
+            const transfers = [newTransfer(100), newTransfer(100)];
+            for (const transfer of transfers) {
+                sourceAccount.withdraw(transfer.amount, targetAccountId, null, transfer.id);
+            }
+
+            // ===== Act & Assert =====
+            await expect(
+                adapter.persistTransfers(transfers, [sourceAccount])
+            ).rejects.toThrow(InsufficientBalanceException);
+
+            for (const transfer of transfers) {
+                expect(await adapter.loadTransfer(transfer.id)).toBeNull();
+            }
+            const reloadedSource = await adapter.loadAccount(sourceAccountId, baselineDate);
+            expect(reloadedSource.calculateBalance().getAmount()).toBe(100n);
+        });
+    });
+
     // ========================================
     // エンドツーエンドシナリオ
     // 【目的】実際のアプリケーションで起こりうるシナリオをテスト
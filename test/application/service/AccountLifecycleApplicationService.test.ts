@@ -0,0 +1,133 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { CreateAccountApplicationService } from "../../../src/application/service/CreateAccountApplicationService";
+import { FreezeAccountApplicationService } from "../../../src/application/service/FreezeAccountApplicationService";
+import { CloseAccountApplicationService } from "../../../src/application/service/CloseAccountApplicationService";
+import { CreateAccountPort, CreateAccountPortToken } from "../../../src/application/port/out/CreateAccountPort";
+import { LoadAccountPort, LoadAccountPortToken } from "../../../src/application/port/out/LoadAccountPort";
+import { UpdateAccountStatusPort, UpdateAccountStatusPortToken } from "../../../src/application/port/out/UpdateAccountStatusPort";
+import { AccountLock, AccountLockToken } from "../../../src/application/port/out/AccountLock";
+import { Account } from "../../../src/application/domain/model/Account";
+import { AccountId } from "../../../src/application/domain/model/Activity";
+import { ActivityWindow } from "../../../src/application/domain/model/ActivityWindow";
+import { Currency } from "../../../src/application/domain/model/Currency";
+import { Money } from "../../../src/application/domain/model/Money";
+import { InvalidAccountStatusTransitionException } from "../../../src/application/domain/exception/InvalidAccountStatusTransitionException";
+
+/**
+ * アカウントのライフサイクル（開設・凍結・解約）のアプリケーションサービスのテスト
+ *
+ * 【テスト戦略】
+ * - ポート（CreateAccountPort, LoadAccountPort, UpdateAccountStatusPort, AccountLock）はモック
+ * - 状態遷移のルールは実物のドメインモデル（Account）で検証する
+ */
+describe("アカウントのライフサイクル（アプリケーションサービス）", () => {
+    let mockCreateAccountPort: CreateAccountPort;
+    let mockLoadAccountPort: LoadAccountPort;
+    let mockUpdateAccountStatusPort: UpdateAccountStatusPort;
+    let mockAccountLock: AccountLock;
+
+    const accountId = new AccountId(1n);
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockCreateAccountPort = {
+            createAccount: vi.fn().mockResolvedValue(new AccountId(3n)),
+        };
+        mockLoadAccountPort = {
+            loadAccount: vi.fn(),
+        };
+        mockUpdateAccountStatusPort = {
+            updateAccountStatus: vi.fn().mockResolvedValue(undefined),
+        };
+        mockAccountLock = {
+            lockAccount: vi.fn().mockResolvedValue("token"),
+            releaseAccount: vi.fn().mockResolvedValue(undefined),
+            renewAccount: vi.fn().mockResolvedValue(true),
+        };
+
+        container.register(CreateAccountPortToken, { useValue: mockCreateAccountPort });
+        container.register(LoadAccountPortToken, { useValue: mockLoadAccountPort });
+        container.register(UpdateAccountStatusPortToken, { useValue: mockUpdateAccountStatusPort });
+        container.register(AccountLockToken, { useValue: mockAccountLock });
+    });
+
+    describe("CreateAccountApplicationService", () => {
+        it("残高0・ACTIVE のアカウントを作成し、採番されたIDを返す", async () => {
+            // ===== Arrange =====
+            const service = container.resolve(CreateAccountApplicationService);
+
+            // ===== Act =====
+            const result = await service.createAccount(Currency.JPY);
+
+            // ===== Assert =====
+            expect(result.accountId.getValue()).toBe(3n);
+            expect(result.status).toBe("ACTIVE");
+
+            const created = vi.mocked(mockCreateAccountPort.createAccount).mock.calls[0][0];
+            expect(created.getId()).toBeNull();
+            expect(created.getBaselineBalance().getAmount()).toBe(0n);
+            expect(created.getStatus()).toBe("ACTIVE");
+        });
+    });
+
+    describe("FreezeAccountApplicationService", () => {
+        it("ACTIVE のアカウントを凍結し、ロックを解放する", async () => {
+            // ===== Arrange =====
+            const account = Account.withId(accountId, Money.of(1000), new ActivityWindow());
+            vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+            const service = container.resolve(FreezeAccountApplicationService);
+
+            // ===== Act =====
+            const result = await service.freezeAccount(accountId);
+
+            // ===== Assert =====
+            expect(result).toEqual({ accountId, status: "FROZEN", currency: Currency.JPY });
+            expect(mockUpdateAccountStatusPort.updateAccountStatus).toHaveBeenCalledWith(account);
+            expect(mockAccountLock.lockAccount).toHaveBeenCalledTimes(1);
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(accountId, "token");
+        });
+
+        it("凍結済みのアカウントは凍結できず、状態は保存されない", async () => {
+            // ===== Arrange =====
+            const account = Account.withId(accountId, Money.of(1000), new ActivityWindow(), "FROZEN");
+            vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+            const service = container.resolve(FreezeAccountApplicationService);
+
+            // ===== Act & Assert =====
+            await expect(service.freezeAccount(accountId)).rejects.toThrow(InvalidAccountStatusTransitionException);
+            expect(mockUpdateAccountStatusPort.updateAccountStatus).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("CloseAccountApplicationService", () => {
+        it("凍結中のアカウントを解約できる", async () => {
+            // ===== Arrange =====
+            const account = Account.withId(accountId, Money.of(1000), new ActivityWindow(), "FROZEN");
+            vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+            const service = container.resolve(CloseAccountApplicationService);
+
+            // ===== Act =====
+            const result = await service.closeAccount(accountId);
+
+            // ===== Assert =====
+            expect(result).toEqual({ accountId, status: "CLOSED", currency: Currency.JPY });
+            expect(mockUpdateAccountStatusPort.updateAccountStatus).toHaveBeenCalledWith(account);
+        });
+
+        it("解約済みのアカウントは解約できない", async () => {
+            // ===== Arrange =====
+            const account = Account.withId(accountId, Money.of(1000), new ActivityWindow(), "CLOSED");
+            vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+            const service = container.resolve(CloseAccountApplicationService);
+
+            // ===== Act & Assert =====
+            await expect(service.closeAccount(accountId)).rejects.toThrow(InvalidAccountStatusTransitionException);
+            expect(mockUpdateAccountStatusPort.updateAccountStatus).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,250 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { ExecuteScheduledTransfersApplicationService, PROCESSING_TIMEOUT_MS } from "../../../src/application/service/ExecuteScheduledTransfersApplicationService";
+import { ScheduledTransferPort, ScheduledTransferPortToken } from "../../../src/application/port/out/ScheduledTransferPort";
+import { SendMoneyUseCase, SendMoneyUseCaseToken } from "../../../src/application/port/in/SendMoneyUseCase";
+import { LoadTransferPort, LoadTransferPortToken } from "../../../src/application/port/out/LoadTransferPort";
+import { ScheduledTransfer } from "../../../src/application/domain/model/ScheduledTransfer";
+import { AccountId } from "../../../src/application/domain/model/Activity";
+import { Money } from "../../../src/application/domain/model/Money";
+import { Transfer, TransferId } from "../../../src/application/domain/model/Transfer";
+import { InsufficientBalanceException } from "../../../src/application/domain/exception/InsufficientBalanceException";
+import { AccountLockTimeoutException } from "../../../src/application/domain/exception/AccountLockTimeoutException";
+
+/**
+ * 予約送金の実行（アプリケーションサービス）のテスト
+ *
+ * 【テスト戦略】
+ * - ScheduledTransferPort・SendMoneyUseCase・LoadTransferPort はモック
+ * - 状態遷移は実物のドメインモデル（ScheduledTransfer）で検証する
+ */
+describe("ExecuteScheduledTransfersApplicationService", () => {
+    let mockScheduledTransferPort: ScheduledTransferPort;
+    let mockSendMoneyUseCase: SendMoneyUseCase;
+    let mockLoadTransferPort: LoadTransferPort;
+
+    const createdAt = new Date("2025-11-24T09:00:00Z");
+    const now = new Date("2025-11-25T09:00:00Z");
+
+    const pendingTransfer = (id: string): ScheduledTransfer =>
+        ScheduledTransfer.schedule(
+            id, new AccountId(1n), new AccountId(2n), Money.of(100), new Date("2025-11-25T08:00:00Z"), createdAt
+        );
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockScheduledTransferPort = {
+            saveScheduledTransfer: vi.fn(),
+            loadScheduledTransfer: vi.fn(),
+            loadScheduledTransfers: vi.fn(),
+            loadDueScheduledTransfers: vi.fn().mockResolvedValue([]),
+            loadStaleProcessingScheduledTransfers: vi.fn().mockResolvedValue([]),
+            updateScheduledTransfer: vi.fn().mockResolvedValue(true),
+        };
+        mockSendMoneyUseCase = {
+            sendMoney: vi.fn(),
+        };
+        mockLoadTransferPort = {
+            loadTransfer: vi.fn().mockResolvedValue(null),
+            loadTransferActivities: vi.fn(),
+        };
+
+        container.register(ScheduledTransferPortToken, { useValue: mockScheduledTransferPort });
+        container.register(SendMoneyUseCaseToken, { useValue: mockSendMoneyUseCase });
+        container.register(LoadTransferPortToken, { useValue: mockLoadTransferPort });
+    });
+
+    it("実行日時を過ぎた予約を送金ユースケースで送金し、EXECUTED として記録する", async () => {
+        // ===== Arrange =====
+        const scheduledTransfer = pendingTransfer("st-1");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers).mockResolvedValueOnce([scheduledTransfer]);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 0, errored: 0 });
+        expect(mockScheduledTransferPort.loadDueScheduledTransfers).toHaveBeenCalledWith(now, 50);
+
+        const command = vi.mocked(mockSendMoneyUseCase.sendMoney).mock.calls[0][0];
+        expect(command.sourceAccountId.getValue()).toBe(1n);
+        expect(command.targetAccountId.getValue()).toBe(2n);
+        expect(command.money.getAmount()).toBe(100n);
+        expect(command.quoteId).toBeNull();
+        // 実行を開始するときに採番した送金IDで送金する（途中で止まっても、送金したかを後から確かめられる）
+        expect(command.transferId).not.toBeNull();
+        expect(command.transferId).toEqual(scheduledTransfer.getTransferId());
+
+        // PENDING → PROCESSING、PROCESSING → EXECUTED の順に、変更前の状態を条件に更新する
+        const updates = vi.mocked(mockScheduledTransferPort.updateScheduledTransfer).mock.calls;
+        expect(updates.map(([, expectedStatus]) => expectedStatus)).toEqual(["PENDING", "PROCESSING"]);
+        expect(scheduledTransfer.getStatus()).toBe("EXECUTED");
+    });
+
+    it("送金ユースケースが例外を投げた場合は、例外の名前とメッセージを理由として FAILED に記録する", async () => {
+        // ===== Arrange =====
+        const scheduledTransfer = pendingTransfer("st-1");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers).mockResolvedValueOnce([scheduledTransfer]);
+        const error = new InsufficientBalanceException(new AccountId(1n), Money.of(100), Money.of(50));
+        vi.mocked(mockSendMoneyUseCase.sendMoney).mockRejectedValueOnce(error);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 0, failed: 1, retried: 0, skipped: 0, errored: 0 });
+        expect(scheduledTransfer.getStatus()).toBe("FAILED");
+        expect(scheduledTransfer.getFailure()).toEqual({
+            reason: "InsufficientBalanceException",
+            message: error.message,
+        });
+        expect(mockScheduledTransferPort.updateScheduledTransfer).toHaveBeenLastCalledWith(scheduledTransfer, "PROCESSING");
+    });
+
+    it("PROCESSING への更新が競合した（先に取り消された）予約は送金しない", async () => {
+        // ===== Arrange =====
+        const cancelled = pendingTransfer("st-1");
+        const executed = pendingTransfer("st-2");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers).mockResolvedValueOnce([cancelled, executed]);
+        vi.mocked(mockScheduledTransferPort.updateScheduledTransfer).mockResolvedValueOnce(false);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 1, errored: 0 });
+        expect(mockSendMoneyUseCase.sendMoney).toHaveBeenCalledTimes(1);
+        expect(executed.getStatus()).toBe("EXECUTED");
+    });
+
+    // ===== 送金ユースケースの例外 =====
+
+    it("送金を保存した後に例外が投げられた場合は、採番した送金IDの送金があるので EXECUTED にする", async () => {
+        // ===== Arrange =====
+        const scheduledTransfer = pendingTransfer("st-1");
+        const sentAt = new Date("2025-11-25T09:00:01Z");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers).mockResolvedValueOnce([scheduledTransfer]);
+        vi.mocked(mockSendMoneyUseCase.sendMoney).mockRejectedValueOnce(new Error("Failed to read response: connection reset"));
+        vi.mocked(mockLoadTransferPort.loadTransfer).mockImplementationOnce((transferId) => Promise.resolve(Transfer.complete(
+            transferId, new AccountId(1n), new AccountId(2n), Money.of(100), Money.of(0), Money.of(100), null, sentAt
+        )));
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 0, errored: 0 });
+        expect(mockLoadTransferPort.loadTransfer).toHaveBeenCalledWith(scheduledTransfer.getTransferId());
+        expect(scheduledTransfer.getStatus()).toBe("EXECUTED");
+        expect(scheduledTransfer.getCompletedAt()).toEqual(sentAt);
+    });
+
+    it.each([
+        ["ロックのタイムアウト", new AccountLockTimeoutException(new AccountId(1n), 5000)],
+        ["データベースの障害", new Error("Failed to load account: connection refused")],
+    ])("%sで送金できなかった場合は、FAILED にせず PENDING に戻して次回の実行で同じ送金IDで再試行する", async (_, error) => {
+        // ===== Arrange =====
+        const scheduledTransfer = pendingTransfer("st-1");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers)
+            .mockResolvedValueOnce([scheduledTransfer])
+            .mockResolvedValueOnce([scheduledTransfer]);
+        vi.mocked(mockSendMoneyUseCase.sendMoney).mockRejectedValueOnce(error);
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const firstResult = await service.executeDueTransfers(now);
+        const transferId = scheduledTransfer.getTransferId();
+        const statusAfterFirstRun = scheduledTransfer.getStatus();
+        const secondResult = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(firstResult).toEqual({ executed: 0, failed: 0, retried: 1, skipped: 0, errored: 0 });
+        expect(statusAfterFirstRun).toBe("PENDING");
+        expect(secondResult).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 0, errored: 0 });
+        expect(scheduledTransfer.getStatus()).toBe("EXECUTED");
+
+        const commands = vi.mocked(mockSendMoneyUseCase.sendMoney).mock.calls.map(([command]) => command);
+        expect(commands.map((command) => command.transferId)).toEqual([transferId, transferId]);
+        const updates = vi.mocked(mockScheduledTransferPort.updateScheduledTransfer).mock.calls;
+        expect(updates.map(([, expectedStatus]) => expectedStatus)).toEqual(["PENDING", "PROCESSING", "PENDING", "PROCESSING"]);
+    });
+
+    // ===== 1件ごとのエラー =====
+
+    it("状態の保存で例外が投げられても、残りの予約の処理を続ける", async () => {
+        // ===== Arrange =====
+        const broken = pendingTransfer("st-1");
+        const executed = pendingTransfer("st-2");
+        vi.mocked(mockScheduledTransferPort.loadDueScheduledTransfers).mockResolvedValueOnce([broken, executed]);
+        vi.mocked(mockScheduledTransferPort.updateScheduledTransfer)
+            .mockRejectedValueOnce(new Error("Failed to update scheduled transfer: connection reset"));
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 0, errored: 1 });
+        expect(mockSendMoneyUseCase.sendMoney).toHaveBeenCalledTimes(1);
+        expect(executed.getStatus()).toBe("EXECUTED");
+    });
+
+    // ===== PROCESSING のまま残った予約 =====
+
+    const staleTransfer = (id: string, transferId: TransferId): ScheduledTransfer => {
+        const scheduledTransfer = pendingTransfer(id);
+        scheduledTransfer.startProcessing(transferId, new Date("2025-11-25T08:00:00Z"));
+        return scheduledTransfer;
+    };
+
+    it("実行を開始してから時間が経った PROCESSING の予約を、送金の記録があれば EXECUTED にする（送金し直さない）", async () => {
+        // ===== Arrange =====
+        const transferId = new TransferId("transfer-1");
+        const scheduledTransfer = staleTransfer("st-1", transferId);
+        const sentAt = new Date("2025-11-25T08:00:01Z");
+        vi.mocked(mockScheduledTransferPort.loadStaleProcessingScheduledTransfers).mockResolvedValueOnce([scheduledTransfer]);
+        vi.mocked(mockLoadTransferPort.loadTransfer).mockResolvedValueOnce(Transfer.complete(
+            transferId, new AccountId(1n), new AccountId(2n), Money.of(100), Money.of(0), Money.of(100), null, sentAt
+        ));
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, retried: 0, skipped: 0, errored: 0 });
+        expect(mockScheduledTransferPort.loadStaleProcessingScheduledTransfers).toHaveBeenCalledWith(
+            new Date(now.getTime() - PROCESSING_TIMEOUT_MS), 50
+        );
+        expect(mockLoadTransferPort.loadTransfer).toHaveBeenCalledWith(transferId);
+        expect(mockSendMoneyUseCase.sendMoney).not.toHaveBeenCalled();
+        expect(scheduledTransfer.getStatus()).toBe("EXECUTED");
+        expect(scheduledTransfer.getCompletedAt()).toEqual(sentAt);
+        expect(mockScheduledTransferPort.updateScheduledTransfer).toHaveBeenCalledWith(scheduledTransfer, "PROCESSING");
+    });
+
+    it("実行を開始してから時間が経った PROCESSING の予約を、送金の記録がなければ FAILED にする", async () => {
+        // ===== Arrange =====
+        const scheduledTransfer = staleTransfer("st-1", new TransferId("transfer-1"));
+        vi.mocked(mockScheduledTransferPort.loadStaleProcessingScheduledTransfers).mockResolvedValueOnce([scheduledTransfer]);
+        const service = container.resolve(ExecuteScheduledTransfersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueTransfers(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 0, failed: 1, retried: 0, skipped: 0, errored: 0 });
+        expect(mockSendMoneyUseCase.sendMoney).not.toHaveBeenCalled();
+        expect(scheduledTransfer.getStatus()).toBe("FAILED");
+        expect(scheduledTransfer.getFailure()?.reason).toBe("ProcessingTimeout");
+    });
+});
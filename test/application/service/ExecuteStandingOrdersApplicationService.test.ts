@@ -0,0 +1,214 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { ExecuteStandingOrdersApplicationService, RUN_TIMEOUT_MS } from "../../../src/application/service/ExecuteStandingOrdersApplicationService";
+import { StandingOrderPort, StandingOrderPortToken } from "../../../src/application/port/out/StandingOrderPort";
+import { SendMoneyUseCase, SendMoneyUseCaseToken } from "../../../src/application/port/in/SendMoneyUseCase";
+import { LoadTransferPort, LoadTransferPortToken } from "../../../src/application/port/out/LoadTransferPort";
+import { StandingOrder } from "../../../src/application/domain/model/StandingOrder";
+import { StandingOrderRetryPolicy, StandingOrderRetryPolicyToken } from "../../../src/application/domain/model/StandingOrderRetryPolicy";
+import { CronSchedule } from "../../../src/application/domain/model/CronSchedule";
+import { AccountId } from "../../../src/application/domain/model/Activity";
+import { Money } from "../../../src/application/domain/model/Money";
+import { Transfer, TransferId } from "../../../src/application/domain/model/Transfer";
+import { InsufficientBalanceException } from "../../../src/application/domain/exception/InsufficientBalanceException";
+
+/**
+ * 定期送金の実行（アプリケーションサービス）のテスト
+ *
+ * 【テスト戦略】
+ * - StandingOrderPort・SendMoneyUseCase・LoadTransferPort はモック
+ * - 状態遷移と再試行・自動停止は実物のドメインモデル（StandingOrder）で検証する
+ */
+describe("ExecuteStandingOrdersApplicationService", () => {
+    let mockStandingOrderPort: StandingOrderPort;
+    let mockSendMoneyUseCase: SendMoneyUseCase;
+    let mockLoadTransferPort: LoadTransferPort;
+
+    const createdAt = new Date("2025-11-24T08:30:00Z");
+    const now = new Date("2025-11-24T09:00:00Z");
+
+    // 毎時0分に実行する定期送金（最初の実行日時は 2025-11-24T09:00:00Z）
+    const activeOrder = (id: string): StandingOrder =>
+        StandingOrder.create(
+            id, new AccountId(1n), new AccountId(2n), Money.of(100), CronSchedule.parse("0 * * * *"), createdAt
+        );
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockStandingOrderPort = {
+            saveStandingOrder: vi.fn(),
+            loadStandingOrder: vi.fn(),
+            loadStandingOrders: vi.fn(),
+            loadDueStandingOrders: vi.fn().mockResolvedValue([]),
+            loadStaleRunningStandingOrders: vi.fn().mockResolvedValue([]),
+            updateStandingOrder: vi.fn().mockResolvedValue(true),
+            saveStandingOrderRun: vi.fn(),
+            loadStandingOrderRuns: vi.fn(),
+        };
+        mockSendMoneyUseCase = {
+            sendMoney: vi.fn(),
+        };
+        mockLoadTransferPort = {
+            loadTransfer: vi.fn().mockResolvedValue(null),
+            loadTransferActivities: vi.fn(),
+        };
+
+        container.register(StandingOrderPortToken, { useValue: mockStandingOrderPort });
+        container.register(SendMoneyUseCaseToken, { useValue: mockSendMoneyUseCase });
+        container.register(LoadTransferPortToken, { useValue: mockLoadTransferPort });
+        // 再試行しない、1回失敗したら自動停止
+        container.register(StandingOrderRetryPolicyToken, { useValue: new StandingOrderRetryPolicy(0, 60, 1) });
+    });
+
+    it("実行時刻を過ぎた定期送金を送金ユースケースで送金し、実行記録を保存して次の実行日時に進める", async () => {
+        // ===== Arrange =====
+        const standingOrder = activeOrder("so-1");
+        vi.mocked(mockStandingOrderPort.loadDueStandingOrders).mockResolvedValueOnce([standingOrder]);
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, paused: 0, skipped: 0, errored: 0 });
+        expect(mockStandingOrderPort.loadDueStandingOrders).toHaveBeenCalledWith(now, 50);
+
+        const command = vi.mocked(mockSendMoneyUseCase.sendMoney).mock.calls[0][0];
+        expect(command.sourceAccountId.getValue()).toBe(1n);
+        expect(command.money.getAmount()).toBe(100n);
+        // 実行を開始するときに採番した送金IDで送金する（途中で止まっても、送金したかを後から確かめられる）
+        expect(command.transferId).not.toBeNull();
+
+        expect(mockStandingOrderPort.saveStandingOrderRun).toHaveBeenCalledWith(
+            expect.objectContaining({ standingOrderId: "so-1", outcome: "SUCCEEDED", attempt: 1 })
+        );
+
+        // ACTIVE → RUNNING、RUNNING → ACTIVE の順に、変更前の状態を条件に更新する
+        const updates = vi.mocked(mockStandingOrderPort.updateStandingOrder).mock.calls;
+        expect(updates.map(([, expectedStatus]) => expectedStatus)).toEqual(["ACTIVE", "RUNNING"]);
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        // 次の実行日時は、送金し終えた時刻より後の最初の日時（過ぎた実行日時はまとめて見送る）
+        expect(standingOrder.getNextRunAt().getTime()).toBeGreaterThan(now.getTime());
+        expect(standingOrder.getNextRunAt().getUTCMinutes()).toBe(0);
+    });
+
+    it("送金ユースケースが例外を投げた場合は、例外の名前を実行記録に残し、ルールに従って自動停止する", async () => {
+        // ===== Arrange =====
+        const standingOrder = activeOrder("so-1");
+        vi.mocked(mockStandingOrderPort.loadDueStandingOrders).mockResolvedValueOnce([standingOrder]);
+        const error = new InsufficientBalanceException(new AccountId(1n), Money.of(100), Money.of(50));
+        vi.mocked(mockSendMoneyUseCase.sendMoney).mockRejectedValueOnce(error);
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 0, failed: 1, paused: 1, skipped: 0, errored: 0 });
+        expect(mockStandingOrderPort.saveStandingOrderRun).toHaveBeenCalledWith(expect.objectContaining({
+            outcome: "FAILED",
+            failure: { reason: "InsufficientBalanceException", message: error.message },
+        }));
+        expect(standingOrder.getStatus()).toBe("PAUSED");
+        expect(standingOrder.getPauseReason()).toBe("TOO_MANY_FAILURES");
+        expect(mockStandingOrderPort.updateStandingOrder).toHaveBeenLastCalledWith(standingOrder, "RUNNING");
+    });
+
+    it("RUNNING への更新が競合した（先に停止・取り消しされた）定期送金は送金しない", async () => {
+        // ===== Arrange =====
+        const paused = activeOrder("so-1");
+        const executed = activeOrder("so-2");
+        vi.mocked(mockStandingOrderPort.loadDueStandingOrders).mockResolvedValueOnce([paused, executed]);
+        vi.mocked(mockStandingOrderPort.updateStandingOrder).mockResolvedValueOnce(false);
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, paused: 0, skipped: 1, errored: 0 });
+        expect(mockSendMoneyUseCase.sendMoney).toHaveBeenCalledTimes(1);
+        expect(mockStandingOrderPort.saveStandingOrderRun).toHaveBeenCalledTimes(1);
+    });
+
+    // ===== 1件ごとのエラー =====
+
+    it("実行記録の保存で例外が投げられても RUNNING のまま残さず、残りの定期送金の処理を続ける", async () => {
+        // ===== Arrange =====
+        const broken = activeOrder("so-1");
+        const executed = activeOrder("so-2");
+        vi.mocked(mockStandingOrderPort.loadDueStandingOrders).mockResolvedValueOnce([broken, executed]);
+        vi.mocked(mockStandingOrderPort.saveStandingOrderRun)
+            .mockRejectedValueOnce(new Error("Failed to save standing order run: connection reset"));
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, paused: 0, skipped: 0, errored: 1 });
+        expect(mockSendMoneyUseCase.sendMoney).toHaveBeenCalledTimes(2);
+        // 状態は実行記録より先に保存しているので、どちらも ACTIVE に戻っている
+        expect(mockStandingOrderPort.updateStandingOrder).toHaveBeenCalledWith(broken, "RUNNING");
+        expect(broken.getStatus()).toBe("ACTIVE");
+        expect(executed.getStatus()).toBe("ACTIVE");
+    });
+
+    // ===== RUNNING のまま残った定期送金 =====
+
+    const staleOrder = (id: string, transferId: TransferId): StandingOrder => {
+        const standingOrder = activeOrder(id);
+        standingOrder.startRun(transferId, new Date("2025-11-24T08:00:00Z"));
+        return standingOrder;
+    };
+
+    it("実行を開始してから時間が経った RUNNING の定期送金を、送金の記録があれば成功として記録する（送金し直さない）", async () => {
+        // ===== Arrange =====
+        const transferId = new TransferId("transfer-1");
+        const standingOrder = staleOrder("so-1", transferId);
+        vi.mocked(mockStandingOrderPort.loadStaleRunningStandingOrders).mockResolvedValueOnce([standingOrder]);
+        vi.mocked(mockLoadTransferPort.loadTransfer).mockResolvedValueOnce(Transfer.complete(
+            transferId, new AccountId(1n), new AccountId(2n), Money.of(100), Money.of(0), Money.of(100), null,
+            new Date("2025-11-24T08:00:01Z")
+        ));
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 1, failed: 0, paused: 0, skipped: 0, errored: 0 });
+        expect(mockStandingOrderPort.loadStaleRunningStandingOrders).toHaveBeenCalledWith(
+            new Date(now.getTime() - RUN_TIMEOUT_MS), 50
+        );
+        expect(mockLoadTransferPort.loadTransfer).toHaveBeenCalledWith(transferId);
+        expect(mockSendMoneyUseCase.sendMoney).not.toHaveBeenCalled();
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        expect(mockStandingOrderPort.saveStandingOrderRun).toHaveBeenCalledWith(
+            expect.objectContaining({ standingOrderId: "so-1", outcome: "SUCCEEDED" })
+        );
+    });
+
+    it("実行を開始してから時間が経った RUNNING の定期送金を、送金の記録がなければ失敗としてルールに従って記録する", async () => {
+        // ===== Arrange =====
+        const standingOrder = staleOrder("so-1", new TransferId("transfer-1"));
+        vi.mocked(mockStandingOrderPort.loadStaleRunningStandingOrders).mockResolvedValueOnce([standingOrder]);
+        const service = container.resolve(ExecuteStandingOrdersApplicationService);
+
+        // ===== Act =====
+        const result = await service.executeDueStandingOrders(now);
+
+        // ===== Assert =====
+        expect(result).toEqual({ executed: 0, failed: 1, paused: 1, skipped: 0, errored: 0 });
+        expect(mockSendMoneyUseCase.sendMoney).not.toHaveBeenCalled();
+        expect(mockStandingOrderPort.saveStandingOrderRun).toHaveBeenCalledWith(expect.objectContaining({
+            outcome: "FAILED",
+            failure: expect.objectContaining({ reason: "ProcessingTimeout" }),
+        }));
+        expect(standingOrder.getStatus()).toBe("PAUSED");
+    });
+});
@@ -0,0 +1,97 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { GetAccountActivitiesApplicationService } from "../../../src/application/service/GetAccountActivitiesApplicationService";
+import { LoadActivitiesPort, LoadActivitiesPortToken } from "../../../src/application/port/out/LoadActivitiesPort";
+import { AccountId, Activity, ActivityId } from "../../../src/application/domain/model/Activity";
+import { Money } from "../../../src/application/domain/model/Money";
+
+/**
+ * GetAccountActivitiesApplicationService のテスト
+ *
+ * 【テスト戦略】
+ * - LoadActivitiesPort はモック
+ * - 向きの判定は実物のドメインモデル（Activity）で行う
+ */
+describe("GetAccountActivitiesApplicationService", () => {
+    let mockLoadActivitiesPort: LoadActivitiesPort;
+    let service: GetAccountActivitiesApplicationService;
+
+    const accountId = new AccountId(1n);
+    const otherAccountId = new AccountId(2n);
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockLoadActivitiesPort = {
+            loadActivities: vi.fn().mockResolvedValue({ activities: [], nextCursor: null }),
+        };
+
+        container.register(LoadActivitiesPortToken, {
+            useValue: mockLoadActivitiesPort,
+        });
+
+        service = container.resolve(GetAccountActivitiesApplicationService);
+    });
+
+    it("各アクティビティに照会アカウントから見た向きを付与する", async () => {
+        // ===== Arrange =====
+        const timestamp = new Date("2024-12-01T00:00:00Z");
+        const incoming = Activity.withId(new ActivityId(3n), accountId, otherAccountId, accountId, timestamp, Money.of(300));
+        const outgoing = Activity.withId(new ActivityId(2n), accountId, accountId, otherAccountId, timestamp, Money.of(200));
+        const external = Activity.withId(new ActivityId(1n), accountId, null, accountId, timestamp, Money.of(100));
+        const nextCursor = { timestamp, activityId: new ActivityId(1n) };
+
+        vi.mocked(mockLoadActivitiesPort.loadActivities).mockResolvedValueOnce({
+            activities: [incoming, outgoing, external],
+            nextCursor,
+        });
+
+        // ===== Act =====
+        const page = await service.getAccountActivities({ accountId });
+
+        // ===== Assert =====
+        expect(page.entries.map((entry) => entry.direction)).toEqual(["incoming", "outgoing", "external"]);
+        expect(page.nextCursor).toBe(nextCursor);
+    });
+
+    it("検索条件をそのままポートに渡し、件数の既定値は20件になる", async () => {
+        // ===== Arrange =====
+        const from = new Date("2024-12-01T00:00:00Z");
+        const to = new Date("2024-12-31T00:00:00Z");
+
+        // ===== Act =====
+        await service.getAccountActivities({ accountId, from, to, directions: ["incoming"] });
+
+        // ===== Assert =====
+        expect(mockLoadActivitiesPort.loadActivities).toHaveBeenCalledWith({
+            accountId,
+            from,
+            to,
+            directions: ["incoming"],
+            cursor: undefined,
+            limit: 20,
+        });
+    });
+
+    it("件数は1〜100件の範囲に丸められる", async () => {
+        // ===== Act =====
+        await service.getAccountActivities({ accountId, limit: 1000 });
+        await service.getAccountActivities({ accountId, limit: 0 });
+
+        // ===== Assert =====
+        expect(vi.mocked(mockLoadActivitiesPort.loadActivities).mock.calls[0][0].limit).toBe(100);
+        expect(vi.mocked(mockLoadActivitiesPort.loadActivities).mock.calls[1][0].limit).toBe(1);
+    });
+
+    it("from が to 以降の場合はエラーになる", async () => {
+        // ===== Arrange =====
+        const from = new Date("2024-12-31T00:00:00Z");
+        const to = new Date("2024-12-01T00:00:00Z");
+
+        // ===== Act & Assert =====
+        await expect(service.getAccountActivities({ accountId, from, to })).rejects.toThrow();
+        expect(mockLoadActivitiesPort.loadActivities).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,87 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { GetAccountBalanceApplicationService } from "../../../src/application/service/GetAccountBalanceApplicationService";
+import { LoadAccountPort, LoadAccountPortToken } from "../../../src/application/port/out/LoadAccountPort";
+import { Account } from "../../../src/application/domain/model/Account";
+import { AccountId, Activity } from "../../../src/application/domain/model/Activity";
+import { ActivityWindow } from "../../../src/application/domain/model/ActivityWindow";
+import { Money } from "../../../src/application/domain/model/Money";
+
+/**
+ * GetAccountBalanceApplicationService のテスト
+ *
+ * 【テスト戦略】
+ * - LoadAccountPort はモック（DBに依存しない）
+ * - 残高計算は実物のドメインモデル（Account）で行う
+ */
+describe("GetAccountBalanceApplicationService", () => {
+    let mockLoadAccountPort: LoadAccountPort;
+    let service: GetAccountBalanceApplicationService;
+
+    const accountId = new AccountId(1n);
+    const otherAccountId = new AccountId(2n);
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockLoadAccountPort = {
+            loadAccount: vi.fn(),
+        };
+
+        container.register(LoadAccountPortToken, {
+            useValue: mockLoadAccountPort,
+        });
+
+        service = container.resolve(GetAccountBalanceApplicationService);
+    });
+
+    it("ベースライン残高とウィンドウ内のアクティビティから残高を計算する", async () => {
+        // ===== Arrange =====
+        // ベースライン残高1000円 + 入金300円 - 出金100円 = 1200円
+        const account = Account.withId(
+            accountId,
+            Money.of(1000),
+            new ActivityWindow(
+                Activity.withoutId(accountId, otherAccountId, accountId, new Date(), Money.of(300)),
+                Activity.withoutId(accountId, accountId, otherAccountId, new Date(), Money.of(100))
+            )
+        );
+        vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+
+        // ===== Act =====
+        const result = await service.getAccountBalance(accountId);
+
+        // ===== Assert =====
+        expect(result.accountId).toBe(accountId);
+        expect(result.balance.getAmount()).toBe(1200n);
+        expect(result.baselineBalance.getAmount()).toBe(1000n);
+    });
+
+    it("基準日は照会時刻の10日前になる", async () => {
+        // ===== Arrange =====
+        const account = Account.withId(accountId, Money.of(0), new ActivityWindow());
+        vi.mocked(mockLoadAccountPort.loadAccount).mockResolvedValueOnce(account);
+
+        // ===== Act =====
+        const result = await service.getAccountBalance(accountId);
+
+        // ===== Assert =====
+        expect(mockLoadAccountPort.loadAccount).toHaveBeenCalledWith(accountId, result.baselineDate);
+
+        const expectedBaseline = new Date(result.asOf);
+        expectedBaseline.setDate(expectedBaseline.getDate() - 10);
+        expect(result.baselineDate.getTime()).toBe(expectedBaseline.getTime());
+    });
+
+    it("アカウントの読み込みに失敗した場合、エラーをそのまま伝播する", async () => {
+        // ===== Arrange =====
+        vi.mocked(mockLoadAccountPort.loadAccount).mockRejectedValueOnce(
+            new Error("Account not found: 1")
+        );
+
+        // ===== Act & Assert =====
+        await expect(service.getAccountBalance(accountId)).rejects.toThrow("Account not found: 1");
+    });
+});
@@ -0,0 +1,165 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { IdempotentRequestApplicationService } from "../../../src/application/service/IdempotentRequestApplicationService";
+import { IDEMPOTENCY_RESERVATION_TIMEOUT_MS } from "../../../src/application/port/in/IdempotentRequestUseCase";
+import { IdempotencyKeyPort, IdempotencyKeyPortToken } from "../../../src/application/port/out/IdempotencyKeyPort";
+import { IdempotencyKeyReusedException } from "../../../src/application/domain/exception/IdempotencyKeyReusedException";
+import { IdempotencyKeyInProgressException } from "../../../src/application/domain/exception/IdempotencyKeyInProgressException";
+
+/**
+ * IdempotentRequestApplicationService のテスト
+ *
+ * 【テスト戦略】
+ * - IdempotencyKeyPort はモック
+ * - 「初回は実行・リトライは再送・内容違いは拒否」の流れを検証
+ */
+describe("IdempotentRequestApplicationService", () => {
+    let mockIdempotencyKeyPort: IdempotencyKeyPort;
+    let service: IdempotentRequestApplicationService;
+
+    const key = "retry-key-1";
+    const fingerprint = "fingerprint-a";
+    const okResponse = { statusCode: 200, body: { success: true } };
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockIdempotencyKeyPort = {
+            reserveKey: vi.fn().mockResolvedValue(null),
+            saveResponse: vi.fn().mockResolvedValue(undefined),
+            releaseKey: vi.fn().mockResolvedValue(undefined),
+            reclaimKey: vi.fn().mockResolvedValue(true),
+        };
+
+        container.register(IdempotencyKeyPortToken, {
+            useValue: mockIdempotencyKeyPort,
+        });
+
+        service = container.resolve(IdempotentRequestApplicationService);
+    });
+
+    it("初回のリクエストでは処理を実行し、レスポンスを保存する", async () => {
+        const handler = vi.fn().mockResolvedValue(okResponse);
+
+        const result = await service.execute(key, fingerprint, handler);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ response: okResponse, replayed: false });
+        expect(mockIdempotencyKeyPort.saveResponse).toHaveBeenCalledWith(key, okResponse);
+    });
+
+    it("ビジネスエラー（4xx）のレスポンスも保存される", async () => {
+        const errorResponse = { statusCode: 400, body: { success: false } };
+
+        await service.execute(key, fingerprint, vi.fn().mockResolvedValue(errorResponse));
+
+        expect(mockIdempotencyKeyPort.saveResponse).toHaveBeenCalledWith(key, errorResponse);
+        expect(mockIdempotencyKeyPort.releaseKey).not.toHaveBeenCalled();
+    });
+
+    it("リトライでは処理を実行せず、保存済みのレスポンスを返す", async () => {
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: fingerprint,
+            response: okResponse,
+            createdAt: new Date(),
+            reservedAt: new Date(),
+        });
+        const handler = vi.fn();
+
+        const result = await service.execute(key, fingerprint, handler);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(result).toEqual({ response: okResponse, replayed: true });
+    });
+
+    it("同じキーで異なる内容のリクエストは IdempotencyKeyReusedException になる", async () => {
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: "fingerprint-b",
+            response: okResponse,
+            createdAt: new Date(),
+            reservedAt: new Date(),
+        });
+        const handler = vi.fn();
+
+        await expect(service.execute(key, fingerprint, handler)).rejects.toThrow(IdempotencyKeyReusedException);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("処理中のキーへのリトライは IdempotencyKeyInProgressException になる", async () => {
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: fingerprint,
+            response: null,
+            createdAt: new Date(),
+            reservedAt: new Date(),
+        });
+
+        await expect(service.execute(key, fingerprint, vi.fn())).rejects.toThrow(IdempotencyKeyInProgressException);
+    });
+
+    it("有効期限を過ぎた処理中のキーは引き継いで処理を実行する", async () => {
+        const reservedAt = new Date(Date.now() - IDEMPOTENCY_RESERVATION_TIMEOUT_MS - 1_000);
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: fingerprint,
+            response: null,
+            createdAt: reservedAt,
+            reservedAt,
+        });
+        const handler = vi.fn().mockResolvedValue(okResponse);
+
+        const result = await service.execute(key, fingerprint, handler);
+
+        expect(mockIdempotencyKeyPort.reclaimKey).toHaveBeenCalledWith(key, expect.any(Date));
+        const staleBefore = vi.mocked(mockIdempotencyKeyPort.reclaimKey).mock.calls[0][1];
+        expect(staleBefore.getTime()).toBeGreaterThan(reservedAt.getTime());
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ response: okResponse, replayed: false });
+        expect(mockIdempotencyKeyPort.saveResponse).toHaveBeenCalledWith(key, okResponse);
+    });
+
+    it("有効期限内の処理中のキーは引き継がない", async () => {
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: fingerprint,
+            response: null,
+            createdAt: new Date(),
+            reservedAt: new Date(Date.now() - IDEMPOTENCY_RESERVATION_TIMEOUT_MS + 10_000),
+        });
+
+        await expect(service.execute(key, fingerprint, vi.fn())).rejects.toThrow(IdempotencyKeyInProgressException);
+        expect(mockIdempotencyKeyPort.reclaimKey).not.toHaveBeenCalled();
+    });
+
+    it("他のリトライが先に引き継いだ場合は IdempotencyKeyInProgressException になる", async () => {
+        const reservedAt = new Date(Date.now() - IDEMPOTENCY_RESERVATION_TIMEOUT_MS - 1_000);
+        vi.mocked(mockIdempotencyKeyPort.reserveKey).mockResolvedValueOnce({
+            key,
+            requestFingerprint: fingerprint,
+            response: null,
+            createdAt: reservedAt,
+            reservedAt,
+        });
+        vi.mocked(mockIdempotencyKeyPort.reclaimKey).mockResolvedValueOnce(false);
+        const handler = vi.fn();
+
+        await expect(service.execute(key, fingerprint, handler)).rejects.toThrow(IdempotencyKeyInProgressException);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("5xxレスポンスや例外の場合は保存せず、予約を取り消す", async () => {
+        const serverError = { statusCode: 500, body: { success: false } };
+
+        await service.execute(key, fingerprint, vi.fn().mockResolvedValue(serverError));
+        await expect(
+            service.execute(key, fingerprint, vi.fn().mockRejectedValue(new Error("boom")))
+        ).rejects.toThrow("boom");
+
+        expect(mockIdempotencyKeyPort.saveResponse).not.toHaveBeenCalled();
+        expect(mockIdempotencyKeyPort.releaseKey).toHaveBeenCalledTimes(2);
+    });
+});
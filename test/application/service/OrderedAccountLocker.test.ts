@@ -0,0 +1,227 @@
+import "reflect-metadata";
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {container} from "tsyringe";
+import {OrderedAccountLocker} from "../../../src/application/service/OrderedAccountLocker";
+import {AccountLock, AccountLockToken, LOCK_LEASE_MS, LOCK_RENEWAL_INTERVAL_MS} from "../../../src/application/port/out/AccountLock";
+import {AccountLockTimeoutException} from "../../../src/application/domain/exception/AccountLockTimeoutException";
+import {AccountId} from "../../../src/application/domain/model/Activity";
+import {InProcessAccountLock} from "../../../src/adapter/out/persistence/InProcessAccountLock";
+
+/**
+ * OrderedAccountLocker のテスト
+ *
+ * 【検証すること】
+ * - ロックは AccountId の昇順で取得され、逆順で解放される
+ * - 途中で失敗したら、取得済みのロックを解放してから例外を投げる
+ * - 待ち時間はすべてのロックで共有される（デッドライン）
+ * - 保持している間はリースを延長し続け、解放したら延長をやめる
+ * - 逆向きの送金が同時に来てもデッドロックしない（競合のシミュレーション）
+ */
+describe("OrderedAccountLocker", () => {
+    const account1 = new AccountId(1n);
+    const account2 = new AccountId(2n);
+    const account3 = new AccountId(3n);
+
+    let mockAccountLock: AccountLock;
+    let locker: OrderedAccountLocker;
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockAccountLock = {
+            lockAccount: vi.fn().mockImplementation(
+                (accountId: AccountId) => Promise.resolve(`token-${accountId.getValue()}`)
+            ),
+            releaseAccount: vi.fn().mockResolvedValue(undefined),
+            renewAccount: vi.fn().mockResolvedValue(true),
+        };
+
+        container.register(AccountLockToken, {useValue: mockAccountLock});
+        locker = container.resolve(OrderedAccountLocker);
+    });
+
+    describe("lockAll", () => {
+        it("渡した順番に関係なく、AccountId の昇順でロックを取得する", async () => {
+            // Act
+            const locks = await locker.lockAll([account3, account1, account2]);
+
+            // Assert
+            const lockedIds = vi.mocked(mockAccountLock.lockAccount).mock.calls.map(([id]) => id.getValue());
+            expect(lockedIds).toEqual([1n, 2n, 3n]);
+            expect(locks.accountIds.map((id) => id.getValue())).toEqual([1n, 2n, 3n]);
+        });
+
+        it("release すると、取得と逆の順番でトークンを使って解放する", async () => {
+            // Arrange
+            const locks = await locker.lockAll([account2, account1]);
+
+            // Act
+            await locks.release();
+
+            // Assert
+            expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(1, account2, "token-2");
+            expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(2, account1, "token-1");
+        });
+
+        it("同じアカウントが重複していても、ロックは1回だけ取得する", async () => {
+            // Act
+            await locker.lockAll([account1, new AccountId(1n)]);
+
+            // Assert
+            expect(mockAccountLock.lockAccount).toHaveBeenCalledTimes(1);
+        });
+
+        it("途中でタイムアウトしたら、取得済みのロックを逆順で解放して例外を投げる", async () => {
+            // Arrange: 3番目のロックでタイムアウト
+            vi.mocked(mockAccountLock.lockAccount)
+                .mockResolvedValueOnce("token-1")
+                .mockResolvedValueOnce("token-2")
+                .mockRejectedValueOnce(new AccountLockTimeoutException(account3, 100));
+
+            // Act & Assert
+            await expect(
+                locker.lockAll([account1, account2, account3])
+            ).rejects.toThrow(AccountLockTimeoutException);
+
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+            expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(1, account2, "token-2");
+            expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(2, account1, "token-1");
+        });
+
+        it("待ち時間はすべてのロックで共有される（残り時間を渡す）", async () => {
+            // Arrange: 1つ目のロックに 30ms かかる
+            vi.mocked(mockAccountLock.lockAccount)
+                .mockImplementationOnce(() => new Promise((resolve) => setTimeout(() => { resolve("token-1"); }, 30)));
+
+            // Act
+            await locker.lockAll([account1, account2], {timeoutMs: 1000});
+
+            // Assert
+            const [, firstOptions] = vi.mocked(mockAccountLock.lockAccount).mock.calls[0];
+            const [, secondOptions] = vi.mocked(mockAccountLock.lockAccount).mock.calls[1];
+            expect(firstOptions?.timeoutMs).toBe(1000);
+            expect(secondOptions?.timeoutMs).toBeLessThanOrEqual(1000 - 25);
+        });
+
+        it("解放に失敗しても、残りのロックの解放は続ける", async () => {
+            // Arrange
+            vi.mocked(mockAccountLock.releaseAccount)
+                .mockRejectedValueOnce(new Error("network error"));
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+            const locks = await locker.lockAll([account1, account2]);
+
+            // Act
+            await locks.release();
+
+            // Assert
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+            expect(mockAccountLock.releaseAccount).toHaveBeenLastCalledWith(account1, "token-1");
+            consoleError.mockRestore();
+        });
+    });
+
+    describe("withLocks", () => {
+        it("処理が失敗しても、ロックは解放される", async () => {
+            // Act & Assert
+            await expect(
+                locker.withLocks([account1, account2], () => Promise.reject(new Error("boom")))
+            ).rejects.toThrow("boom");
+
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("リースの延長", () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("リース期間より長く保持すると、解放するまで各ロックのリースを定期的に延長する", async () => {
+            // Arrange
+            const held = await locker.lockAll([account1, account2]);
+
+            // Act: リース期間の2倍だけ保持する
+            await vi.advanceTimersByTimeAsync(LOCK_LEASE_MS * 2);
+            await held.release();
+            await vi.advanceTimersByTimeAsync(LOCK_LEASE_MS * 2);
+
+            // Assert: 間隔ごとに、取得したときのトークンで延長している（解放後は延長しない）
+            const renewals = (LOCK_LEASE_MS * 2) / LOCK_RENEWAL_INTERVAL_MS;
+            expect(mockAccountLock.renewAccount).toHaveBeenCalledTimes(renewals * 2);
+            expect(mockAccountLock.renewAccount).toHaveBeenCalledWith(account1, "token-1");
+            expect(mockAccountLock.renewAccount).toHaveBeenCalledWith(account2, "token-2");
+        });
+
+        it("延長に失敗しても、記録して処理を続ける", async () => {
+            // Arrange
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+            vi.mocked(mockAccountLock.renewAccount)
+                .mockResolvedValueOnce(false)
+                .mockRejectedValueOnce(new Error("network"));
+
+            try {
+                // Act
+                await locker.withLocks([account1, account2], () => vi.advanceTimersByTimeAsync(LOCK_RENEWAL_INTERVAL_MS));
+
+                // Assert
+                expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("Lost lock for account 1"));
+                expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("Failed to renew lock for account 2"), expect.any(Error));
+                expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+            } finally {
+                consoleError.mockRestore();
+            }
+        });
+    });
+
+    /**
+     * 競合のシミュレーション
+     *
+     * 実際のロック実装（InProcessAccountLock）を使って、
+     * 逆向きの操作を同時に実行してもデッドロックしないことを確認する
+     */
+    describe("競合のシミュレーション", () => {
+        it("A→B と B→A を同時に実行してもデッドロックせず、両方とも完了する", async () => {
+            // Arrange
+            const realLocker = new OrderedAccountLocker(new InProcessAccountLock());
+            const events: string[] = [];
+
+            const transfer = (name: string, from: AccountId, to: AccountId) =>
+                realLocker.withLocks([from, to], async () => {
+                    events.push(`${name} start`);
+                    // ロックを保持したまま少し待つ（他方の処理が割り込む余地を作る）
+                    await new Promise((resolve) => setTimeout(resolve, 20));
+                    events.push(`${name} end`);
+                }, {timeoutMs: 1000});
+
+            // Act
+            await Promise.all([
+                transfer("A→B", account1, account2),
+                transfer("B→A", account2, account1),
+            ]);
+
+            // Assert: 一方が終わってから他方が始まる（直列化されている）
+            expect(events).toEqual(["A→B start", "A→B end", "B→A start", "B→A end"]);
+        });
+
+        it("ロックを保持し続ける処理がいると、期限内に取得できずタイムアウトする", async () => {
+            // Arrange
+            const lock = new InProcessAccountLock();
+            const realLocker = new OrderedAccountLocker(lock);
+            const heldToken = await lock.lockAccount(account2);
+
+            // Act & Assert
+            await expect(
+                realLocker.lockAll([account1, account2], {timeoutMs: 30})
+            ).rejects.toThrow(AccountLockTimeoutException);
+
+            // 先に取得できた account1 のロックは解放されている
+            await expect(lock.lockAccount(account1, {timeoutMs: 0})).resolves.toEqual(expect.any(String));
+
+            await lock.releaseAccount(account2, heldToken);
+        });
+    });
+});
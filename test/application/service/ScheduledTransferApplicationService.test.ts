@@ -0,0 +1,70 @@
+import "reflect-metadata"
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { container } from "tsyringe";
+import { ScheduledTransferApplicationService } from "../../../src/application/service/ScheduledTransferApplicationService";
+import { ScheduledTransferPort, ScheduledTransferPortToken } from "../../../src/application/port/out/ScheduledTransferPort";
+import { LoadAccountPort, LoadAccountPortToken } from "../../../src/application/port/out/LoadAccountPort";
+import { SendMoneyCommand } from "../../../src/application/port/in/SendMoneyCommand";
+import { AccountId } from "../../../src/application/domain/model/Activity";
+import { Money } from "../../../src/application/domain/model/Money";
+import { RemittanceInformation } from "../../../src/application/domain/model/RemittanceInformation";
+import { QuoteNotAllowedForScheduledTransferException } from "../../../src/application/domain/exception/QuoteNotAllowedForScheduledTransferException";
+import { RemittanceNotAllowedForScheduledTransferException } from "../../../src/application/domain/exception/RemittanceNotAllowedForScheduledTransferException";
+
+/**
+ * 予約送金（アプリケーションサービス）のテスト
+ *
+ * 【テスト戦略】
+ * - LoadAccountPort と ScheduledTransferPort はモック
+ */
+describe("ScheduledTransferApplicationService", () => {
+    let mockLoadAccountPort: LoadAccountPort;
+    let mockScheduledTransferPort: ScheduledTransferPort;
+
+    beforeEach(() => {
+        container.clearInstances();
+
+        mockLoadAccountPort = {
+            loadAccount: vi.fn(),
+        };
+        mockScheduledTransferPort = {
+            saveScheduledTransfer: vi.fn(),
+            loadScheduledTransfer: vi.fn(),
+            loadScheduledTransfers: vi.fn(),
+            loadDueScheduledTransfers: vi.fn(),
+            loadStaleProcessingScheduledTransfers: vi.fn(),
+            updateScheduledTransfer: vi.fn(),
+        };
+
+        container.register(LoadAccountPortToken, { useValue: mockLoadAccountPort });
+        container.register(ScheduledTransferPortToken, { useValue: mockScheduledTransferPort });
+    });
+
+    it("見積もりを指定した予約は QuoteNotAllowedForScheduledTransferException で拒否し、保存しない", async () => {
+        // ===== Arrange =====
+        const service = container.resolve(ScheduledTransferApplicationService);
+        const command = new SendMoneyCommand(new AccountId(1n), new AccountId(2n), Money.of(100), "quote-1");
+
+        // ===== Act & Assert =====
+        const promise = service.scheduleTransfer(command, new Date(Date.now() + 60_000));
+        await expect(promise).rejects.toThrow(QuoteNotAllowedForScheduledTransferException);
+        await expect(promise).rejects.toMatchObject({ quoteId: "quote-1" });
+        expect(mockScheduledTransferPort.saveScheduledTransfer).not.toHaveBeenCalled();
+    });
+
+    it("参照情報・メモを指定した予約は RemittanceNotAllowedForScheduledTransferException で拒否し、保存しない", async () => {
+        // ===== Arrange =====
+        // 予約送金は参照情報・メモを保存しないため、受け付けると実行した送金に記録されない
+        const service = container.resolve(ScheduledTransferApplicationService);
+        const command = new SendMoneyCommand(
+            new AccountId(1n), new AccountId(2n), Money.of(100), null, RemittanceInformation.of("INV-1", "11月分")
+        );
+
+        // ===== Act & Assert =====
+        await expect(
+            service.scheduleTransfer(command, new Date(Date.now() + 60_000))
+        ).rejects.toThrow(RemittanceNotAllowedForScheduledTransferException);
+        expect(mockScheduledTransferPort.saveScheduledTransfer).not.toHaveBeenCalled();
+    });
+});
@@ -4,18 +4,36 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { container } from "tsyringe";
 import { SendMoneyApplicationService } from "../../../src/application/service/SendMoneyApplicationService";
 import { SendMoneyCommand } from "../../../src/application/port/in/SendMoneyCommand";
+import { BatchSendMoneyCommand } from "../../../src/application/port/in/BatchSendMoneyCommand";
 import { SendMoneyUseCaseToken } from "../../../src/application/port/in/SendMoneyUseCase";
 import { LoadAccountPort, LoadAccountPortToken } from "../../../src/application/port/out/LoadAccountPort";
-import { UpdateAccountStatePort, UpdateAccountStatePortToken } from "../../../src/application/port/out/UpdateAccountStatePort";
-import { AccountLock, AccountLockToken } from "../../../src/application/port/out/AccountLock";
+import { PersistTransferPort, PersistTransferPortToken } from "../../../src/application/port/out/PersistTransferPort";
+import { AccountLock, AccountLockToken, LOCK_LEASE_MS } from "../../../src/application/port/out/AccountLock";
+import { ExchangeRatePort, ExchangeRatePortToken } from "../../../src/application/port/out/ExchangeRatePort";
+import { ExchangeRateQuotePort, ExchangeRateQuotePortToken } from "../../../src/application/port/out/ExchangeRateQuotePort";
+import { TransferLimitsPolicyPort, TransferLimitsPolicyPortToken } from "../../../src/application/port/out/TransferLimitsPolicyPort";
 import { MoneyTransferProperties, MoneyTransferPropertiesToken } from "../../../src/application/domain/service/MoneyTransferProperties";
 import { SendMoneyDomainService } from "../../../src/application/domain/service/SendMoneyDomainService";
 import { ThresholdExceededException } from "../../../src/application/domain/exception/ThresholdExceededException";
 import { Account } from "../../../src/application/domain/model/Account";
-import { AccountId } from "../../../src/application/domain/model/Activity";
+import { AccountId, Activity } from "../../../src/application/domain/model/Activity";
+import { CumulativeTransferLimit } from "../../../src/application/domain/model/CumulativeTransferLimit";
 import { ActivityWindow } from "../../../src/application/domain/model/ActivityWindow";
 import { Money } from "../../../src/application/domain/model/Money";
+import { Currency } from "../../../src/application/domain/model/Currency";
+import { ExchangeRate } from "../../../src/application/domain/model/ExchangeRate";
+import { ExchangeRateQuote } from "../../../src/application/domain/model/ExchangeRateQuote";
+import { Transfer } from "../../../src/application/domain/model/Transfer";
+import { TransferFeePolicy } from "../../../src/application/domain/model/TransferFeePolicy";
+import { TransferLimits } from "../../../src/application/domain/model/TransferLimits";
 import {InsufficientBalanceException} from "../../../src/application/domain/exception/InsufficientBalanceException";
+import {AccountLockTimeoutException} from "../../../src/application/domain/exception/AccountLockTimeoutException";
+import {SameAccountTransferException} from "../../../src/application/domain/exception/SameAccountTransferException";
+import {AccountNotActiveException} from "../../../src/application/domain/exception/AccountNotActiveException";
+import {AccountNotFoundException} from "../../../src/application/domain/exception/AccountNotFoundException";
+import {CurrencyMismatchException} from "../../../src/application/domain/exception/CurrencyMismatchException";
+import {InvalidExchangeRateQuoteException} from "../../../src/application/domain/exception/InvalidExchangeRateQuoteException";
+import {CumulativeLimitExceededException} from "../../../src/application/domain/exception/CumulativeLimitExceededException";
 
 /**
  * SendMoneyApplicationService の統合テスト
@@ -26,7 +44,7 @@ import {InsufficientBalanceException} from "../../../src/application/domain/exce
  * - ポート（外部依存）をモック化して、アプリケーション層のロジックに集中
  *
  * 【テスト戦略】
- * - ポート（LoadAccountPort, UpdateAccountStatePort, AccountLock）はモック
+ * - ポート（LoadAccountPort, PersistTransferPort, AccountLock）はモック
  *   → 外部システム（DB、ロック機構）の影響を受けずにテストできる
  * - ドメインサービス（SendMoneyDomainService）は実物を使用
  *   → 実際のビジネスロジックが正しく実行されることを保証
@@ -44,9 +62,12 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
     // テストで使用するモックオブジェクトの変数を定義
     // これらは beforeEach で毎回新しいインスタンスが作成される
     let mockLoadAccountPort: LoadAccountPort;
-    let mockUpdateAccountStatePort: UpdateAccountStatePort;
+    let mockPersistTransferPort: PersistTransferPort;
     let mockAccountLock: AccountLock;
     let mockMoneyTransferProperties: MoneyTransferProperties;
+    let mockExchangeRatePort: ExchangeRatePort;
+    let mockExchangeRateQuotePort: ExchangeRateQuotePort;
+    let mockTransferLimitsPolicyPort: TransferLimitsPolicyPort;
 
     // ===== テスト対象のサービス =====
     // 実際にテストする SendMoneyApplicationService のインスタンス
@@ -81,27 +102,46 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             loadAccount: vi.fn(),
         };
 
-        // UpdateAccountStatePort のモック
-        // 【役割】アカウントの状態（残高、アクティビティ）をDBに保存するポート
+        // PersistTransferPort のモック
+        // 【役割】送金元・送金先のアクティビティをアトミックにDBへ保存するポート
         // 【デフォルトの振る舞い】成功を表すPromise<void>を返す
-        mockUpdateAccountStatePort = {
-            updateActivities: vi.fn().mockResolvedValue(undefined),
+        mockPersistTransferPort = {
+            persistTransfer: vi.fn().mockResolvedValue(undefined),
+            persistTransfers: vi.fn().mockResolvedValue(undefined),
         };
 
         // AccountLock のモック
         // 【役割】並行処理時のアカウントロック機構
         // 【重要性】複数の送金が同時に発生しても、データ不整合を防ぐ
+        // 【デフォルトの振る舞い】アカウントIDごとのトークンを返してロック成功
         mockAccountLock = {
-            lockAccount: vi.fn(),
-            releaseAccount: vi.fn(),
+            lockAccount: vi.fn().mockImplementation(
+                (accountId: AccountId) => Promise.resolve(`token-${accountId.getValue()}`)
+            ),
+            releaseAccount: vi.fn().mockResolvedValue(undefined),
+            renewAccount: vi.fn().mockResolvedValue(true),
         };
 
-        // MoneyTransferProperties のモック（限度額: 100万円）
-        // 【役割】送金の上限額を定義するビジネスルール
-        // 【設定値の意味】1回の送金で最大100万円まで送金可能
-        mockMoneyTransferProperties = new MoneyTransferProperties(
-            Money.of(1000000)
-        );
+        // MoneyTransferProperties のモック（基準通貨: JPY、手数料なし）
+        mockMoneyTransferProperties = new MoneyTransferProperties(Currency.JPY);
+
+        // TransferLimitsPolicyPort のモック（限度額: 100万円）
+        // 【役割】送金元アカウントの区分に応じた送金の上限額を返す
+        // 【設定値の意味】どの区分でも1回の送金で最大100万円まで送金可能（累積の限度額なし）
+        mockTransferLimitsPolicyPort = {
+            getTransferLimits: vi.fn().mockResolvedValue(new TransferLimits(Money.of(1000000))),
+        };
+
+        // ExchangeRatePort / ExchangeRateQuotePort のモック
+        // 【役割】通貨をまたぐ送金・基準通貨での限度額チェックに使うレートの取得元
+        // 【デフォルトの振る舞い】円同士の送金では呼ばれないので、テストごとに設定する
+        mockExchangeRatePort = {
+            getRate: vi.fn(),
+        };
+        mockExchangeRateQuotePort = {
+            saveQuote: vi.fn().mockResolvedValue(undefined),
+            loadQuote: vi.fn().mockResolvedValue(null),
+        };
 
         // ===== DIコンテナにモックとサービスを登録 =====
         // tsyringeのDIコンテナに、各トークン（シンボル）とモックを関連付ける
@@ -111,9 +151,9 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             useValue: mockLoadAccountPort,
         });
 
-        // UpdateAccountStatePortToken でモックを注入
-        container.register(UpdateAccountStatePortToken, {
-            useValue: mockUpdateAccountStatePort,
+        // PersistTransferPortToken でモックを注入
+        container.register(PersistTransferPortToken, {
+            useValue: mockPersistTransferPort,
         });
 
         // AccountLockToken でモックを注入
@@ -126,6 +166,18 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             useValue: mockMoneyTransferProperties,
         });
 
+        container.register(ExchangeRatePortToken, {
+            useValue: mockExchangeRatePort,
+        });
+
+        container.register(ExchangeRateQuotePortToken, {
+            useValue: mockExchangeRateQuotePort,
+        });
+
+        container.register(TransferLimitsPolicyPortToken, {
+            useValue: mockTransferLimitsPolicyPort,
+        });
+
         // SendMoneyDomainService は実物を使う（統合テストのポイント）
         // 【重要】ドメインサービスはモック化せず、実際のビジネスロジックを実行
         // これにより「ドメインロジックが正しく動作するか」を検証できる
@@ -210,7 +262,7 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
 
             // ===== Act（実行）=====
             // テスト対象のメソッドを実行
-            await sendMoneyService.sendMoney(command);
+            const transfer = await sendMoneyService.sendMoney(command);
 
             // ===== Assert（検証）=====
             // 実行結果が期待通りか検証
@@ -235,18 +287,21 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
 
             // 3. アカウントがロックされたか
             // 【重要】並行処理時のデータ競合を防ぐため、両方のアカウントをロック
+            // （AccountId の昇順。このテストでは送金元(1) → 送金先(2) の順）
             expect(mockAccountLock.lockAccount).toHaveBeenCalledTimes(2);
 
             // 送金元アカウントがロックされたか
             expect(mockAccountLock.lockAccount).toHaveBeenNthCalledWith(
                 1,
-                sourceAccountId
+                sourceAccountId,
+                {timeoutMs: expect.any(Number) as number}
             );
 
             // 送金先アカウントがロックされたか
             expect(mockAccountLock.lockAccount).toHaveBeenNthCalledWith(
                 2,
-                targetAccountId
+                targetAccountId,
+                {timeoutMs: expect.any(Number) as number}
             );
 
             // 4. ドメインロジックが正しく実行されたか（残高の変化を確認）
@@ -254,38 +309,42 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             expect(sourceAccount.calculateBalance().getAmount()).toBe(500n); // 1000 - 500
             expect(targetAccount.calculateBalance().getAmount()).toBe(1000n); // 500 + 500
 
-            // 5. updateActivities が2回呼ばれたか
-            // 【目的】送金元と送金先の両方の取引履歴をDBに保存
-            expect(mockUpdateAccountStatePort.updateActivities).toHaveBeenCalledTimes(2);
+            // 5. persistTransfer が1回だけ呼ばれたか
+            // 【目的】送金元と送金先の両方の取引履歴を1回の呼び出しでアトミックに保存
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledTimes(1);
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledWith(transfer, [
+                sourceAccount,
+                targetAccount,
+            ]);
 
-            // 1回目: 送金元アカウントの更新
-            expect(mockUpdateAccountStatePort.updateActivities).toHaveBeenNthCalledWith(
-                1,
-                sourceAccount
-            );
-
-            // 2回目: 送金先アカウントの更新
-            expect(mockUpdateAccountStatePort.updateActivities).toHaveBeenNthCalledWith(
-                2,
-                targetAccount
-            );
+            // 送金の記録が作成され、両方のアクティビティが送金IDでひも付く
+            expect(transfer.getStatus()).toBe('COMPLETED');
+            expect(transfer.amount.equals(transferAmount)).toBe(true);
+            expect(sourceAccount.getNewActivities()[0]?.getTransferId()?.equals(transfer.id)).toBe(true);
+            expect(targetAccount.getNewActivities()[0]?.getTransferId()?.equals(transfer.id)).toBe(true);
 
             // 6. ロックが解放されたか（finally句で実行される）
             // 【重要】エラーが発生しても必ずロックを解放することを保証
             expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
 
-            // 送金元アカウントのロック解放
+            // 取得と逆の順番で、発行されたトークンを使って解放する
             expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(
                 1,
-                sourceAccountId
+                targetAccountId,
+                `token-${targetAccountId.getValue()}`
             );
-
-            // 送金先アカウントのロック解放
             expect(mockAccountLock.releaseAccount).toHaveBeenNthCalledWith(
                 2,
-                targetAccountId
+                sourceAccountId,
+                `token-${sourceAccountId.getValue()}`
             );
 
+            // ロックはアカウントの読み込みより前に取得されている
+            // 【理由】読み込み後にロックすると、並行送金が古い残高でチェックを通過してしまう
+            const lastLockOrder = Math.max(...vi.mocked(mockAccountLock.lockAccount).mock.invocationCallOrder);
+            const firstLoadOrder = Math.min(...vi.mocked(mockLoadAccountPort.loadAccount).mock.invocationCallOrder);
+            expect(lastLockOrder).toBeLessThan(firstLoadOrder);
+
             // 7. 新しいアクティビティが作成されたか
             // 【検証ポイント】送金の記録（Activity）が両方のアカウントに追加される
             // getNewActivities(): 未保存の新しいアクティビティを取得
@@ -405,9 +464,9 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
 
             // 1. 送金が失敗したか
 
-            // 2. updateActivities は呼ばれない（送金失敗のため）
+            // 2. persistTransfer は呼ばれない（送金失敗のため）
             // 【重要】DBに不正なデータが書き込まれないことを保証
-            expect(mockUpdateAccountStatePort.updateActivities).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
 
             // 3. ロックは取得・解放される（失敗しても必ず実行）
             // 【検証ポイント】失敗時もリソースリークが発生しない
@@ -461,8 +520,8 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             expect(mockLoadAccountPort.loadAccount).toHaveBeenCalledTimes(2);
             expect(mockAccountLock.lockAccount).toHaveBeenCalledTimes(2);
 
-            // エラーが発生したため、updateActivities は呼ばれない
-            expect(mockUpdateAccountStatePort.updateActivities).not.toHaveBeenCalled();
+            // エラーが発生したため、persistTransfer は呼ばれない
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
 
             // ✅ 追加: finally句でロックは必ず解放される
             expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
@@ -517,6 +576,561 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
     // 異常系テスト: データ不整合
     // ========================================
 
+    /**
+     * 凍結・解約済みアカウントが関わる送金のテスト
+     *
+     * 【検証ポイント】
+     * - 送金元・送金先のどちらかが ACTIVE でなければ AccountNotActiveException
+     * - 残高が十分でも送金されず、何も永続化されない
+     */
+    describe("❌ 異常系: ACTIVE でないアカウント", () => {
+        it("送金元が凍結されている場合、AccountNotActiveExceptionが発生する", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(
+                sourceAccountId,
+                Money.of(1000),
+                new ActivityWindow(),
+                "FROZEN"
+            );
+            const targetAccount = Account.withId(
+                targetAccountId,
+                Money.of(500),
+                new ActivityWindow()
+            );
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(AccountNotActiveException);
+            expect((error as AccountNotActiveException).accountId).toBe(sourceAccountId);
+            expect((error as AccountNotActiveException).status).toBe("FROZEN");
+
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+        });
+
+        it("送金先が解約済みの場合、AccountNotActiveExceptionが発生する", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(
+                sourceAccountId,
+                Money.of(1000),
+                new ActivityWindow()
+            );
+            const targetAccount = Account.withId(
+                targetAccountId,
+                Money.of(500),
+                new ActivityWindow(),
+                "CLOSED"
+            );
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(AccountNotActiveException);
+            expect((error as AccountNotActiveException).accountId).toBe(targetAccountId);
+            expect((error as AccountNotActiveException).status).toBe("CLOSED");
+
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(sourceAccount.getNewActivities()).toHaveLength(0);
+        });
+    });
+
+    describe("💱 通貨", () => {
+        const usdToJpy = ExchangeRate.of(Currency.USD, Currency.JPY, "150");
+        const jpyToUsd = ExchangeRate.of(Currency.JPY, Currency.USD, "0.0066");
+
+        it("USD のアカウント間では、基準通貨（JPY）に換算した金額で限度額をチェックして送金できる", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(2000000, Currency.USD), new ActivityWindow());
+            const targetAccount = Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+            vi.mocked(mockExchangeRatePort.getRate).mockResolvedValueOnce(usdToJpy);
+
+            // 6,000.00 USD = 900,000 円（限度額以内）
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(600000, Currency.USD));
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(command);
+
+            // ===== Assert =====
+            expect(mockExchangeRatePort.getRate).toHaveBeenCalledExactlyOnceWith(Currency.USD, Currency.JPY);
+            expect(sourceAccount.calculateBalance().equals(Money.of(1400000, Currency.USD))).toBe(true);
+            expect(targetAccount.calculateBalance().equals(Money.of(600000, Currency.USD))).toBe(true);
+            expect(sourceAccount.getNewActivities()[0]?.getConversion()).toBeNull();
+        });
+
+        it("基準通貨に換算した金額が限度額を超える場合、換算後の金額で ThresholdExceededException が発生する", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(2000000, Currency.USD), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow()));
+            vi.mocked(mockExchangeRatePort.getRate).mockResolvedValueOnce(usdToJpy);
+
+            // 7,000.00 USD = 1,050,000 円
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(700000, Currency.USD));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(ThresholdExceededException);
+            expect((error as ThresholdExceededException).threshold.equals(Money.of(1000000))).toBe(true);
+            expect((error as ThresholdExceededException).actual.equals(Money.of(1050000))).toBe(true);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("送金先の通貨が異なる場合、現在のレートで換算して入金し、両方のアクティビティに換算を記録する", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(100000), new ActivityWindow());
+            const targetAccount = Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+            vi.mocked(mockExchangeRatePort.getRate).mockResolvedValueOnce(jpyToUsd);
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(15000));
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(command);
+
+            // ===== Assert =====
+            // 15,000 円 × 0.0066 = 99.00 USD
+            expect(mockExchangeRatePort.getRate).toHaveBeenCalledExactlyOnceWith(Currency.JPY, Currency.USD);
+            expect(sourceAccount.calculateBalance().equals(Money.of(85000))).toBe(true);
+            expect(targetAccount.calculateBalance().equals(Money.of(9900, Currency.USD))).toBe(true);
+
+            const withdrawal = sourceAccount.getNewActivities()[0];
+            const deposit = targetAccount.getNewActivities()[0];
+            expect(withdrawal?.getConversion()?.rate.equals(jpyToUsd)).toBe(true);
+            expect(withdrawal?.getConversion()?.targetMoney.equals(Money.of(9900, Currency.USD))).toBe(true);
+            expect(deposit?.getConversion()).toBe(withdrawal?.getConversion());
+        });
+
+        it("有効な見積もりを指定した場合、現在のレートではなく見積もりのレートで換算する", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(100000), new ActivityWindow());
+            const targetAccount = Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+            vi.mocked(mockExchangeRateQuotePort.loadQuote).mockResolvedValueOnce(
+                new ExchangeRateQuote(
+                    "quote-1",
+                    ExchangeRate.of(Currency.JPY, Currency.USD, "0.007"),
+                    new Date(Date.now() - 10_000),
+                    new Date(Date.now() + 50_000)
+                )
+            );
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(15000), "quote-1");
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(command);
+
+            // ===== Assert =====
+            // 15,000 円 × 0.007 = 105.00 USD
+            expect(mockExchangeRatePort.getRate).not.toHaveBeenCalled();
+            expect(targetAccount.calculateBalance().equals(Money.of(10500, Currency.USD))).toBe(true);
+        });
+
+        it.each([
+            {
+                reason: "NOT_FOUND",
+                quote: null,
+            },
+            {
+                reason: "EXPIRED",
+                quote: new ExchangeRateQuote(
+                    "quote-1",
+                    ExchangeRate.of(Currency.JPY, Currency.USD, "0.007"),
+                    new Date(Date.now() - 120_000),
+                    new Date(Date.now() - 60_000)
+                ),
+            },
+            {
+                reason: "CURRENCY_PAIR_MISMATCH",
+                quote: new ExchangeRateQuote(
+                    "quote-1",
+                    ExchangeRate.of(Currency.JPY, Currency.EUR, "0.006"),
+                    new Date(Date.now() - 10_000),
+                    new Date(Date.now() + 50_000)
+                ),
+            },
+        ])("見積もりを使えない場合（$reason）、InvalidExchangeRateQuoteException が発生して送金しない", async ({ reason, quote }) => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(100000), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow()));
+            vi.mocked(mockExchangeRateQuotePort.loadQuote).mockResolvedValueOnce(quote);
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(15000), "quote-1");
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(InvalidExchangeRateQuoteException);
+            expect((error as InvalidExchangeRateQuoteException).reason).toBe(reason);
+
+            expect(sourceAccount.getNewActivities()).toHaveLength(0);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+        });
+
+        it("送金額と送金元アカウントの通貨が異なる場合、レートを取得せずに CurrencyMismatchException が発生する", async () => {
+            // ===== Arrange =====
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(100000, Currency.USD), new ActivityWindow());
+            const targetAccount = Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(CurrencyMismatchException);
+            expect((error as CurrencyMismatchException).expected).toBe(Currency.USD);
+            expect((error as CurrencyMismatchException).actual).toBe(Currency.JPY);
+
+            expect(mockExchangeRatePort.getRate).not.toHaveBeenCalled();
+            expect(sourceAccount.getNewActivities()).toHaveLength(0);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("💴 手数料", () => {
+        const feeRevenueAccountId = new AccountId(3n);
+
+        /**
+         * 手数料を請求する設定でサービスを作り直す
+         */
+        function useFeePolicy(policy: TransferFeePolicy): void {
+            container.register(MoneyTransferPropertiesToken, {
+                useValue: new MoneyTransferProperties(Currency.JPY, policy, feeRevenueAccountId),
+            });
+            sendMoneyService = container.resolve(SendMoneyApplicationService);
+        }
+
+        it("手数料を送金元から引き落とし、手数料を入金するアカウントへの3つ目のアクティビティとして保存する", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(110)));
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow());
+            const targetAccount = Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow());
+            const feeRevenueAccount = Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount)
+                .mockResolvedValueOnce(feeRevenueAccount);
+
+            // ===== Act =====
+            const breakdown = await sendMoneyService.sendMoney(
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500))
+            );
+
+            // ===== Assert =====
+            expect(breakdown.fee.equals(Money.of(110))).toBe(true);
+            expect(breakdown.totalDebit.equals(Money.of(610))).toBe(true);
+            expect(breakdown.depositedAmount.equals(Money.of(500))).toBe(true);
+
+            expect(sourceAccount.calculateBalance().equals(Money.of(390))).toBe(true);
+            expect(targetAccount.calculateBalance().equals(Money.of(500))).toBe(true);
+            expect(feeRevenueAccount.calculateBalance().equals(Money.of(110))).toBe(true);
+            expect(sourceAccount.getNewActivities()[1]?.getTargetAccountId()?.equals(feeRevenueAccountId)).toBe(true);
+
+            // 手数料を入金するアカウントも一緒にロックし、保存は3アカウントまとめて行う
+            expect(vi.mocked(mockAccountLock.lockAccount).mock.calls.map(([accountId]) => accountId.getValue()))
+                .toEqual([1n, 2n, 3n]);
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledExactlyOnceWith(
+                breakdown,
+                [sourceAccount, targetAccount, feeRevenueAccount]
+            );
+        });
+
+        it("手数料を入金するアカウントが凍結中の場合は AccountNotActiveException が発生し、何も保存しない", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(110)));
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()))
+                .mockResolvedValueOnce(
+                    Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow(), 'FROZEN')
+                );
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService
+                .sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500)))
+                .catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(AccountNotActiveException);
+            expect((error as AccountNotActiveException).accountId.equals(feeRevenueAccountId)).toBe(true);
+
+            expect(sourceAccount.getNewActivities()).toHaveLength(0);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(3);
+        });
+
+        it("残高が送金額以上でも、送金額 + 手数料に足りなければ InsufficientBalanceException が発生する", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(110)));
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(600), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService
+                .sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500)))
+                .catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(InsufficientBalanceException);
+            expect((error as InsufficientBalanceException).attemptedAmount.equals(Money.of(610))).toBe(true);
+            expect((error as InsufficientBalanceException).currentBalance.equals(Money.of(600))).toBe(true);
+
+            expect(sourceAccount.getNewActivities()).toHaveLength(0);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("送金元の通貨が基準通貨と異なる場合、基準通貨で計算した手数料を送金元の通貨に換算して引き落とす", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(150)));
+            const usdToJpy = ExchangeRate.of(Currency.USD, Currency.JPY, "150");
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(100000, Currency.USD), new ActivityWindow());
+            const feeRevenueAccount = Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.USD), new ActivityWindow()))
+                .mockResolvedValueOnce(feeRevenueAccount);
+            vi.mocked(mockExchangeRatePort.getRate).mockResolvedValueOnce(usdToJpy);
+
+            // ===== Act =====
+            const breakdown = await sendMoneyService.sendMoney(
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(10000, Currency.USD))
+            );
+
+            // ===== Assert =====
+            // 150 円 ÷ 150 = 1.00 USD
+            expect(breakdown.fee.equals(Money.of(100, Currency.USD))).toBe(true);
+            expect(sourceAccount.calculateBalance().equals(Money.of(89900, Currency.USD))).toBe(true);
+            expect(feeRevenueAccount.calculateBalance().equals(Money.of(150))).toBe(true);
+
+            const feeConversion = feeRevenueAccount.getNewActivities()[0]?.getConversion();
+            expect(feeConversion?.rate.equals(usdToJpy)).toBe(true);
+            expect(feeConversion?.sourceMoney.equals(Money.of(100, Currency.USD))).toBe(true);
+        });
+
+        it("手数料を入金するアカウントが送金先の場合は、読み込み済みの送金先に入金する", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(110)));
+            const sourceAccount = Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow());
+            const targetAccount = Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow());
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(targetAccount);
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(new SendMoneyCommand(sourceAccountId, feeRevenueAccountId, Money.of(500)));
+
+            // ===== Assert =====
+            expect(mockLoadAccountPort.loadAccount).toHaveBeenCalledTimes(2);
+            expect(targetAccount.calculateBalance().equals(Money.of(610))).toBe(true);
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledExactlyOnceWith(
+                expect.any(Transfer),
+                [sourceAccount, targetAccount]
+            );
+        });
+
+        it("見積もり（ドライラン）では内訳を返すだけで、ロックも保存もしない", async () => {
+            // ===== Arrange =====
+            useFeePolicy(TransferFeePolicy.flat(Money.of(110)));
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(feeRevenueAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act =====
+            const breakdown = await sendMoneyService.quoteTransfer(
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500))
+            );
+
+            // ===== Assert =====
+            expect(breakdown.fee.equals(Money.of(110))).toBe(true);
+            expect(breakdown.totalDebit.equals(Money.of(610))).toBe(true);
+            expect(mockAccountLock.lockAccount).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("手数料なしの設定では、手数料を入金するアカウントを読み込まず、手数料 0 の内訳を返す", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act =====
+            const breakdown = await sendMoneyService.sendMoney(
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500))
+            );
+
+            // ===== Assert =====
+            expect(breakdown.fee.equals(Money.zero(Currency.JPY))).toBe(true);
+            expect(breakdown.totalDebit.equals(Money.of(500))).toBe(true);
+            expect(mockLoadAccountPort.loadAccount).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("📅 累積送金限度額", () => {
+        const HOUR_MS = 60 * 60 * 1000;
+
+        /**
+         * 累積送金限度額を設定する
+         */
+        function useCumulativeLimits(...limits: CumulativeTransferLimit[]): void {
+            vi.mocked(mockTransferLimitsPolicyPort.getTransferLimits)
+                .mockResolvedValue(new TransferLimits(Money.of(1000000), limits));
+        }
+
+        /**
+         * 1時間前に 700円、25時間前に 500円を出金した送金元アカウント（残高10,000円）
+         */
+        function sourceAccountWithWithdrawals(): Account {
+            return Account.withId(
+                sourceAccountId,
+                Money.of(11200),
+                new ActivityWindow(
+                    Activity.withoutId(sourceAccountId, sourceAccountId, targetAccountId, new Date(Date.now() - HOUR_MS), Money.of(700)),
+                    Activity.withoutId(sourceAccountId, sourceAccountId, targetAccountId, new Date(Date.now() - 25 * HOUR_MS), Money.of(500))
+                )
+            );
+        }
+
+        it("直近24時間の出金合計 + 送金額が日次の限度額を超える場合、CumulativeLimitExceededException が発生する", async () => {
+            // ===== Arrange =====
+            useCumulativeLimits(CumulativeTransferLimit.daily(Money.of(1000)));
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccountWithWithdrawals())
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act & Assert =====
+            // 直近24時間の出金は 700円（25時間前の 500円は含まない）。残りの枠は 300円
+            const error = await sendMoneyService
+                .sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(301)))
+                .catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(CumulativeLimitExceededException);
+            const exceeded = error as CumulativeLimitExceededException;
+            expect(exceeded.period).toBe("DAILY");
+            expect(exceeded.limit.equals(Money.of(1000))).toBe(true);
+            expect(exceeded.used.equals(Money.of(700))).toBe(true);
+            expect(exceeded.remaining.equals(Money.of(300))).toBe(true);
+
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("残りの枠ちょうどの金額なら送金できる", async () => {
+            // ===== Arrange =====
+            useCumulativeLimits(CumulativeTransferLimit.daily(Money.of(1000)));
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccountWithWithdrawals())
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act & Assert =====
+            await sendMoneyService.sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(300)));
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledOnce();
+        });
+
+        it("月次の限度額は直近30日の出金で判定し、アクティビティは30日前から読み込む", async () => {
+            // ===== Arrange =====
+            useCumulativeLimits(
+                CumulativeTransferLimit.daily(Money.of(100000)),
+                CumulativeTransferLimit.monthly(Money.of(1500))
+            );
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccountWithWithdrawals())
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act =====
+            // 直近30日の出金は 1,200円。残りの枠は 300円
+            const error = await sendMoneyService
+                .sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(301)))
+                .catch((e: unknown) => e);
+
+            // ===== Assert =====
+            expect(error).toBeInstanceOf(CumulativeLimitExceededException);
+            expect((error as CumulativeLimitExceededException).period).toBe("MONTHLY");
+            expect((error as CumulativeLimitExceededException).remaining.equals(Money.of(300))).toBe(true);
+
+            const baselineDate = vi.mocked(mockLoadAccountPort.loadAccount).mock.calls[0]?.[1];
+            expect(baselineDate?.getTime()).toBeLessThanOrEqual(Date.now() - 30 * 24 * HOUR_MS);
+        });
+    });
+
+    describe("🏷️ アカウントの区分ごとの送金限度額", () => {
+        it("送金元アカウントの区分の限度額を使う（BUSINESS なら 100万円を超える送金ができる）", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockTransferLimitsPolicyPort.getTransferLimits).mockImplementation((tier) =>
+                Promise.resolve(new TransferLimits(Money.of(tier === "BUSINESS" ? 50000000 : 1000000)))
+            );
+
+            const sourceAccount = Account.withId(
+                sourceAccountId,
+                Money.of(5000000),
+                new ActivityWindow(),
+                "ACTIVE",
+                "BUSINESS"
+            );
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(sourceAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(2000000)));
+
+            // ===== Assert =====
+            expect(mockTransferLimitsPolicyPort.getTransferLimits).toHaveBeenCalledWith("BUSINESS");
+            expect(sourceAccount.calculateBalance().equals(Money.of(3000000))).toBe(true);
+        });
+
+        it("BASIC のアカウントには BASIC の限度額が適用され、ThresholdExceededException が発生する", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockTransferLimitsPolicyPort.getTransferLimits).mockImplementation((tier) =>
+                Promise.resolve(new TransferLimits(Money.of(tier === "BUSINESS" ? 50000000 : 1000000)))
+            );
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(5000000), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.zero(Currency.JPY), new ActivityWindow()));
+
+            // ===== Act & Assert =====
+            await expect(
+                sendMoneyService.sendMoney(new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(2000000)))
+            ).rejects.toThrow(ThresholdExceededException);
+            expect(mockTransferLimitsPolicyPort.getTransferLimits).toHaveBeenCalledWith("BASIC");
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+    });
+
     /**
      * 異常系テスト: データ不整合
      *
@@ -558,8 +1172,34 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
 
             // エラーが発生したため、以降の処理は実行されない
             // 【検証ポイント】エラー発生時に不要な処理が実行されない
-            expect(mockAccountLock.lockAccount).not.toHaveBeenCalled();
-            expect(mockUpdateAccountStatePort.updateActivities).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+
+            // ロックは読み込み前に取得済みなので、必ず解放される
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
+        });
+
+        /**
+         * テストケース: 送金先が存在しない場合、side = target の AccountNotFoundException になる
+         *
+         * 【検証ポイント】
+         * - 永続化アダプターは side を知らないので、サービスが詰め直す
+         */
+        it("送金先アカウントが存在しない場合、side が target の AccountNotFoundException になる", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow()))
+                .mockRejectedValueOnce(new AccountNotFoundException(targetAccountId));
+
+            const command = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500));
+
+            // ===== Act & Assert =====
+            const error = await sendMoneyService.sendMoney(command).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(AccountNotFoundException);
+            expect((error as AccountNotFoundException).accountId).toBe(targetAccountId);
+            expect((error as AccountNotFoundException).side).toBe("target");
+
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
         });
 
         /**
@@ -605,9 +1245,9 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
                 sendMoneyService.sendMoney(command)
             ).rejects.toThrow("Expected account ID not to be empty");
 
-            // ロックは取得されない
-            // 【理由】IDチェックはロック取得前に行われる
-            expect(mockAccountLock.lockAccount).not.toHaveBeenCalled();
+            // 保存は行われず、取得済みのロックは解放される
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
         });
     });
 
@@ -628,14 +1268,14 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
      */
     describe("❌ 異常系: インフラエラー（ロック解放の保証）", () => {
         /**
-         * テストケース: updateActivities がエラーを投げても、ロックは解放される
+         * テストケース: persistTransfer がエラーを投げても、ロックは解放される
          *
          * 【シナリオ】
          * - 送金処理は成功
          * - DB更新時にエラー発生（ネットワーク障害等）
          * - 期待結果: エラーはスローされるが、ロックは必ず解放される
          */
-        it("updateActivities がエラーを投げても、ロックは解放される", async () => {
+        it("persistTransfer がエラーを投げても、ロックは解放される", async () => {
             // ===== Arrange =====
             const transferAmount = Money.of(500);
 
@@ -655,9 +1295,9 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
                 .mockResolvedValueOnce(sourceAccount)
                 .mockResolvedValueOnce(targetAccount);
 
-            // updateActivities でエラーを発生させる
+            // persistTransfer でエラーを発生させる
             // 【シミュレーション】DB接続エラー
-            vi.mocked(mockUpdateAccountStatePort.updateActivities)
+            vi.mocked(mockPersistTransferPort.persistTransfer)
                 .mockRejectedValue(new Error("Database connection failed"));
 
             const command = new SendMoneyCommand(
@@ -674,18 +1314,19 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             // ロックは必ず解放される（finally句の動作確認）
             // 【重要】エラーが発生しても、finally句は必ず実行される
             expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(2);
-            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(sourceAccountId);
-            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(targetAccountId);
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(sourceAccountId, `token-${sourceAccountId.getValue()}`);
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(targetAccountId, `token-${targetAccountId.getValue()}`);
         });
 
         /**
-         * テストケース: 1回目のupdateActivitiesで失敗しても、ロックは解放される
+         * テストケース: 保存直前の残高再チェックで失敗しても、ロックは解放される
          *
-         * 【目的】
-         * - 複数回のDB更新のうち、途中で失敗した場合の動作を検証
-         * - 部分的な成功状態でのリソース管理を確認
+         * 【シナリオ】
+         * - 読み込み時点では残高が足りていた
+         * - 保存までの間に別の送金で残高が減り、persistTransfer が再チェックで拒否
+         * - 期待結果: InsufficientBalanceException がそのまま伝わり、ロックは解放される
          */
-        it("1回目のupdateActivitiesで失敗しても、ロックは解放される", async () => {
+        it("保存直前の残高再チェックで失敗しても、ロックは解放される", async () => {
             // ===== Arrange =====
             const transferAmount = Money.of(500);
 
@@ -705,10 +1346,11 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
                 .mockResolvedValueOnce(sourceAccount)
                 .mockResolvedValueOnce(targetAccount);
 
-            // 1回目の呼び出しで失敗
-            // 【検証ポイント】2回目は呼ばれないが、ロックは解放される
-            vi.mocked(mockUpdateAccountStatePort.updateActivities)
-                .mockRejectedValueOnce(new Error("Network timeout"));
+            // 保存時の再チェックで残高不足（他の送金で残高が 300 に減っていた）
+            vi.mocked(mockPersistTransferPort.persistTransfer)
+                .mockRejectedValueOnce(
+                    new InsufficientBalanceException(sourceAccountId, transferAmount, Money.of(300))
+                );
 
             const command = new SendMoneyCommand(
                 sourceAccountId,
@@ -719,11 +1361,10 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
             // ===== Act & Assert =====
             await expect(
                 sendMoneyService.sendMoney(command)
-            ).rejects.toThrow("Network timeout");
+            ).rejects.toThrow(InsufficientBalanceException);
 
-            // updateActivities は1回だけ呼ばれる（2回目は呼ばれない）
-            // 【理由】1回目でエラーが発生したため、2回目の更新は試行されない
-            expect(mockUpdateAccountStatePort.updateActivities).toHaveBeenCalledTimes(1);
+            // 保存は1回の呼び出しのみ（部分的な保存は発生しない）
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledTimes(1);
 
             // ロックは解放される
             // 【検証ポイント】途中でエラーが発生しても、リソースは確実に解放される
@@ -731,6 +1372,289 @@ describe("SendMoneyApplicationService（統合テスト）", () => {
         });
     });
 
+    /**
+     * 異常系テスト: ロックの取得失敗
+     *
+     * 【テストの目的】
+     * - 他の送金がロックを保持し続けてタイムアウトした場合の動作を検証
+     * - 取得済みのロックが取り残されないことを保証
+     */
+    describe("🔒 ロックの取得", () => {
+        it("送金先のロックがタイムアウトした場合、送金元のロックを解放して例外を投げる", async () => {
+            // ===== Arrange =====
+            vi.mocked(mockAccountLock.lockAccount)
+                .mockResolvedValueOnce("source-token")
+                .mockRejectedValueOnce(new AccountLockTimeoutException(targetAccountId, 5000));
+
+            const command = new SendMoneyCommand(
+                sourceAccountId,
+                targetAccountId,
+                Money.of(500)
+            );
+
+            // ===== Act & Assert =====
+            await expect(
+                sendMoneyService.sendMoney(command)
+            ).rejects.toThrow(AccountLockTimeoutException);
+
+            // 送金元のロックだけが解放される
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(1);
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledWith(sourceAccountId, "source-token");
+
+            // ロックを取得できなかったので、読み込みも保存も行われない
+            expect(mockLoadAccountPort.loadAccount).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("送金元のIDが大きい場合でも、ロックは AccountId の昇順で取得する", async () => {
+            // ===== Arrange =====
+            // 送金元(2) → 送金先(1)
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(Account.withId(targetAccountId, Money.of(1000), new ActivityWindow()))
+                .mockResolvedValueOnce(Account.withId(sourceAccountId, Money.of(0), new ActivityWindow()));
+
+            const command = new SendMoneyCommand(
+                targetAccountId,
+                sourceAccountId,
+                Money.of(500)
+            );
+
+            // ===== Act =====
+            await sendMoneyService.sendMoney(command);
+
+            // ===== Assert =====
+            // 逆向きの送金と同じ順番（1 → 2）で取得するため、デッドロックしない
+            const lockedIds = vi.mocked(mockAccountLock.lockAccount).mock.calls.map(([id]) => id.getValue());
+            expect(lockedIds).toEqual([1n, 2n]);
+        });
+
+        it("同一アカウント間の送金では、ロックを1回だけ取得する", async () => {
+            // ===== Arrange =====
+            const account = Account.withId(
+                sourceAccountId,
+                Money.of(1000),
+                new ActivityWindow()
+            );
+
+            vi.mocked(mockLoadAccountPort.loadAccount)
+                .mockResolvedValueOnce(account)
+                .mockResolvedValueOnce(account);
+
+            const command = new SendMoneyCommand(
+                sourceAccountId,
+                sourceAccountId,
+                Money.of(500)
+            );
+
+            // ===== Act & Assert =====
+            // 自分自身のロックを待ち続けることなく、ドメインルールで拒否される
+            await expect(
+                sendMoneyService.sendMoney(command)
+            ).rejects.toThrow(SameAccountTransferException);
+
+            expect(mockAccountLock.lockAccount).toHaveBeenCalledTimes(1);
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("📦 一括送金", () => {
+        const thirdAccountId = new AccountId(3n);
+
+        /**
+         * 送金元(1) 残高1000円、送金先(2)(3) 残高0円のアカウントを、IDで読み込めるようにする
+         */
+        function givenAccounts(): Map<bigint, Account> {
+            const accounts = new Map<bigint, Account>([
+                [1n, Account.withId(sourceAccountId, Money.of(1000), new ActivityWindow())],
+                [2n, Account.withId(targetAccountId, Money.of(0), new ActivityWindow())],
+                [3n, Account.withId(thirdAccountId, Money.of(0), new ActivityWindow())],
+            ]);
+            vi.mocked(mockLoadAccountPort.loadAccount).mockImplementation((accountId: AccountId) => {
+                const account = accounts.get(accountId.getValue());
+                return account
+                    ? Promise.resolve(account)
+                    : Promise.reject(new AccountNotFoundException(accountId));
+            });
+            return accounts;
+        }
+
+        it("ALL_OR_NOTHING: すべての送金を検証してから、1回でまとめて保存する", async () => {
+            // ===== Arrange =====
+            const accounts = givenAccounts();
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(300)),
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(300)),
+            ], 'ALL_OR_NOTHING');
+
+            // ===== Act =====
+            const result = await sendMoneyService.sendMoneyBatch(command);
+
+            // ===== Assert =====
+            expect(result.items.map((item) => item.status)).toEqual(['SUCCEEDED', 'SUCCEEDED']);
+
+            // 送金元は1回だけ読み込み、2件目は1件目を反映した残高で検証する
+            expect(mockLoadAccountPort.loadAccount).toHaveBeenCalledTimes(3);
+            expect(accounts.get(1n)?.calculateBalance().getAmount()).toBe(400n);
+
+            const transfers = result.items.flatMap((item) => (item.status === 'SUCCEEDED' ? [item.transfer] : []));
+            expect(mockPersistTransferPort.persistTransfers).toHaveBeenCalledTimes(1);
+            expect(mockPersistTransferPort.persistTransfers).toHaveBeenCalledWith(transfers, [
+                accounts.get(1n),
+                accounts.get(3n),
+                accounts.get(2n),
+            ]);
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("ALL_OR_NOTHING: 1件でも失敗したら何も保存せず、他の送金は NOT_EXECUTED になる", async () => {
+            // ===== Arrange =====
+            givenAccounts();
+            // 2件目は、1件目の後の残高（400円）では足りない
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(600)),
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(600)),
+                new SendMoneyCommand(sourceAccountId, new AccountId(99n), Money.of(100)),
+            ], 'ALL_OR_NOTHING');
+
+            // ===== Act =====
+            const result = await sendMoneyService.sendMoneyBatch(command);
+
+            // ===== Assert =====
+            // 失敗した送金があっても、残りの送金の検証は続ける
+            expect(result.items.map((item) => item.status)).toEqual(['NOT_EXECUTED', 'FAILED', 'FAILED']);
+            const [, insufficient, notFound] = result.items;
+            expect(insufficient?.status === 'FAILED' && insufficient.error).toBeInstanceOf(InsufficientBalanceException);
+            expect(notFound?.status === 'FAILED' && notFound.error).toBeInstanceOf(AccountNotFoundException);
+
+            expect(mockPersistTransferPort.persistTransfers).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(4);
+        });
+
+        it("ALL_OR_NOTHING: ドメイン例外以外のエラーは送金ごとの結果にせず、何も保存せずにそのまま投げる", async () => {
+            // ===== Arrange =====
+            // 2件目の送金先の読み込みで、データベースのエラーが発生する
+            const databaseError = new Error("connection reset");
+            vi.mocked(mockLoadAccountPort.loadAccount).mockImplementation((accountId: AccountId) =>
+                accountId.getValue() === 3n
+                    ? Promise.reject(databaseError)
+                    : Promise.resolve(Account.withId(accountId, Money.of(1000), new ActivityWindow()))
+            );
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100)),
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(100)),
+            ], 'ALL_OR_NOTHING');
+
+            // ===== Act & Assert =====
+            await expect(sendMoneyService.sendMoneyBatch(command)).rejects.toBe(databaseError);
+
+            expect(mockPersistTransferPort.persistTransfers).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+            // エラーで抜けても、ロックは解放する
+            expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(3);
+        });
+
+        it("BEST_EFFORT: 失敗した送金を飛ばして、残りの送金を1件ずつ保存する", async () => {
+            // ===== Arrange =====
+            givenAccounts();
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(500)),
+                new SendMoneyCommand(sourceAccountId, sourceAccountId, Money.of(100)),
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(500)),
+            ], 'BEST_EFFORT');
+
+            // ===== Act =====
+            const result = await sendMoneyService.sendMoneyBatch(command);
+
+            // ===== Assert =====
+            expect(result.mode).toBe('BEST_EFFORT');
+            expect(result.items.map((item) => item.status)).toEqual(['SUCCEEDED', 'FAILED', 'SUCCEEDED']);
+            const failed = result.items[1];
+            expect(failed?.status === 'FAILED' && failed.error).toBeInstanceOf(SameAccountTransferException);
+
+            expect(mockPersistTransferPort.persistTransfer).toHaveBeenCalledTimes(2);
+            expect(mockPersistTransferPort.persistTransfers).not.toHaveBeenCalled();
+        });
+
+        it("関係するすべてのアカウントのロックを、AccountId の昇順で1回ずつ取得する", async () => {
+            // ===== Arrange =====
+            givenAccounts();
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(thirdAccountId, sourceAccountId, Money.of(100)),
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100)),
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(100)),
+            ], 'BEST_EFFORT');
+
+            // ===== Act =====
+            await sendMoneyService.sendMoneyBatch(command);
+
+            // ===== Assert =====
+            const lockedIds = vi.mocked(mockAccountLock.lockAccount).mock.calls.map(([id]) => id.getValue());
+            expect(lockedIds).toEqual([1n, 2n, 3n]);
+            const releasedIds = vi.mocked(mockAccountLock.releaseAccount).mock.calls.map(([id]) => id.getValue());
+            expect(releasedIds).toEqual([3n, 2n, 1n]);
+        });
+
+        it("ロックのリース期間より長くかかる一括送金でも、解放するまでリースを延長し続ける", async () => {
+            // ===== Arrange =====
+            givenAccounts();
+            vi.useFakeTimers();
+            // 保存にリース期間の2倍かかる
+            let renewalsBeforeRelease: bigint[] = [];
+            vi.mocked(mockPersistTransferPort.persistTransfers).mockImplementationOnce(async () => {
+                await vi.advanceTimersByTimeAsync(LOCK_LEASE_MS * 2);
+                renewalsBeforeRelease = vi.mocked(mockAccountLock.renewAccount).mock.calls.map(([id]) => id.getValue());
+            });
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100)),
+                new SendMoneyCommand(sourceAccountId, thirdAccountId, Money.of(100)),
+            ], 'ALL_OR_NOTHING');
+
+            try {
+                // ===== Act =====
+                const result = await sendMoneyService.sendMoneyBatch(command);
+                await vi.advanceTimersByTimeAsync(LOCK_LEASE_MS * 2);
+
+                // ===== Assert =====
+                expect(result.items.map((item) => item.status)).toEqual(['SUCCEEDED', 'SUCCEEDED']);
+                // リース期間の 1/3 ごとに、すべてのロックを自分のトークンで延長する（リース期間の2倍 → 6回）
+                expect(renewalsBeforeRelease.filter((id) => id === 1n)).toHaveLength(6);
+                expect(new Set(renewalsBeforeRelease)).toEqual(new Set([1n, 2n, 3n]));
+                expect(mockAccountLock.renewAccount).toHaveBeenCalledWith(sourceAccountId, "token-1");
+                // 解放した後は延長しない
+                expect(mockAccountLock.renewAccount).toHaveBeenCalledTimes(renewalsBeforeRelease.length);
+                expect(mockAccountLock.releaseAccount).toHaveBeenCalledTimes(3);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it("ロックを取得できなかった場合は、何も送金せずに例外を投げる", async () => {
+            // ===== Arrange =====
+            givenAccounts();
+            vi.mocked(mockAccountLock.lockAccount)
+                .mockResolvedValueOnce("token-1")
+                .mockRejectedValueOnce(new AccountLockTimeoutException(targetAccountId, 5000));
+            const command = new BatchSendMoneyCommand([
+                new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100)),
+            ], 'BEST_EFFORT');
+
+            // ===== Act & Assert =====
+            await expect(sendMoneyService.sendMoneyBatch(command)).rejects.toThrow(AccountLockTimeoutException);
+
+            expect(mockLoadAccountPort.loadAccount).not.toHaveBeenCalled();
+            expect(mockPersistTransferPort.persistTransfer).not.toHaveBeenCalled();
+        });
+
+        it("空の一括送金や、上限を超える件数はコマンドの作成時にエラーになる", () => {
+            const item = new SendMoneyCommand(sourceAccountId, targetAccountId, Money.of(100));
+
+            expect(() => new BatchSendMoneyCommand([], 'ALL_OR_NOTHING')).toThrow(/items must not be empty/);
+            expect(() => new BatchSendMoneyCommand(Array<SendMoneyCommand>(101).fill(item), 'BEST_EFFORT'))
+                .toThrow(/at most 100/);
+        });
+    });
+
     // ========================================
     // エッジケーステスト
     // ========================================
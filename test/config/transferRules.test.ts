@@ -0,0 +1,180 @@
+import {describe, expect, it} from "vitest";
+import {InvalidTransferConfigurationError, parseTransferRules} from "../../src/config/transferRules";
+import {Currency} from "../../src/application/domain/model/Currency";
+import {Money} from "../../src/application/domain/model/Money";
+import type {CloudflareBindings} from "../../src/types/bindings";
+
+/**
+ * 送金ルールの環境変数の読み込みのテスト
+ */
+describe("parseTransferRules", () => {
+    const baseEnv: CloudflareBindings = {
+        SUPABASE_URL: "",
+        SUPABASE_PUBLISHABLE_KEY: "",
+        USE_SUPABASE: "false",
+    };
+
+    /**
+     * 不正な環境変数で読み込み、エラーの一覧を返す
+     */
+    function issuesOf(env: Partial<CloudflareBindings>): readonly string[] {
+        try {
+            parseTransferRules({...baseEnv, ...env});
+        } catch (error) {
+            expect(error).toBeInstanceOf(InvalidTransferConfigurationError);
+            return (error as InvalidTransferConfigurationError).issues;
+        }
+        throw new Error("Expected InvalidTransferConfigurationError");
+    }
+
+    it("環境変数が未設定の場合は既定値（JPY、BASIC は1回100万円・24時間300万円・30日1,000万円、手数料なし）を使う", () => {
+        // Act
+        const rules = parseTransferRules(baseEnv);
+
+        // Assert
+        expect(rules.baseCurrency).toBe(Currency.JPY);
+        expect(rules.limits.BASIC.maximumTransferThreshold.equals(Money.of(1000000))).toBe(true);
+        expect(rules.limits.BASIC.cumulativeLimits.map(({period, limit}) => [period, limit.toDecimalString()]))
+            .toEqual([["DAILY", "3000000"], ["MONTHLY", "10000000"]]);
+        expect(rules.limits.BUSINESS.maximumTransferThreshold.equals(Money.of(50000000))).toBe(true);
+        expect(rules.feeRevenueAccountId).toBeNull();
+    });
+
+    it("限度額は基準通貨の単位で指定し、指定しなかった区分・期間は既定値のまま", () => {
+        // Act
+        const rules = parseTransferRules({
+            ...baseEnv,
+            BASE_CURRENCY: "USD",
+            TRANSFER_MAX_AMOUNT: "2500.50",
+            TRANSFER_DAILY_LIMIT_VERIFIED: "80000",
+            TRANSFER_FEE_REVENUE_ACCOUNT_ID: "3",
+        });
+
+        // Assert
+        expect(rules.baseCurrency).toBe(Currency.USD);
+        expect(rules.limits.BASIC.maximumTransferThreshold.equals(Money.of(250050, Currency.USD))).toBe(true);
+        expect(rules.limits.VERIFIED.cumulativeLimits[0]?.limit.equals(Money.of(8000000, Currency.USD))).toBe(true);
+        // 既定値は補助単位で定義されている（10,000.00 USD）
+        expect(rules.limits.VERIFIED.maximumTransferThreshold.equals(Money.of(5000000, Currency.USD))).toBe(true);
+        expect(rules.feeRevenueAccountId?.getValue()).toBe(3n);
+    });
+
+    it("空文字列の変数は未設定として扱う", () => {
+        // Act
+        const rules = parseTransferRules({...baseEnv, TRANSFER_MAX_AMOUNT: "", TRANSFER_FEE_REVENUE_ACCOUNT_ID: ""});
+
+        // Assert
+        expect(rules.limits.BASIC.maximumTransferThreshold.equals(Money.of(1000000))).toBe(true);
+        expect(rules.feeRevenueAccountId).toBeNull();
+    });
+
+    it("不正な変数をすべて列挙してエラーにする", () => {
+        // Act
+        const issues = issuesOf({
+            TRANSFER_MAX_AMOUNT: "1e6",
+            TRANSFER_MONTHLY_LIMIT_BUSINESS: "0",
+            TRANSFER_FEE_REVENUE_ACCOUNT_ID: "abc",
+        });
+
+        // Assert
+        expect(issues).toHaveLength(3);
+        expect(issues).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^TRANSFER_MAX_AMOUNT: must be a positive decimal amount/),
+            expect.stringMatching(/^TRANSFER_MONTHLY_LIMIT_BUSINESS: must be greater than 0/),
+            expect.stringMatching(/^TRANSFER_FEE_REVENUE_ACCOUNT_ID: must be a numeric account ID/),
+        ]));
+    });
+
+    it("基準通貨の補助単位より細かい金額はエラーになる", () => {
+        expect(issuesOf({TRANSFER_MAX_AMOUNT: "1000.5"})).toEqual([
+            "TRANSFER_MAX_AMOUNT: must have at most 0 decimal places for JPY",
+        ]);
+    });
+
+    it("1回の限度額が24時間の限度額を超える、24時間の限度額が30日の限度額を超える場合はエラーになる", () => {
+        expect(issuesOf({TRANSFER_MAX_AMOUNT: "5000000", TRANSFER_DAILY_LIMIT_VERIFIED: "40000000"})).toEqual([
+            "TRANSFER_MAX_AMOUNT: must not be greater than the daily limit (3000000 JPY)",
+            "TRANSFER_DAILY_LIMIT_VERIFIED: must not be greater than the monthly limit (30000000 JPY)",
+        ]);
+    });
+
+    it("未対応の基準通貨はエラーになる", () => {
+        expect(issuesOf({BASE_CURRENCY: "XYZ", TRANSFER_MAX_AMOUNT: "100.123"})).toEqual([
+            "BASE_CURRENCY: must be a supported currency code (JPY, USD, EUR, GBP)",
+        ]);
+    });
+
+    it("手数料の料金体系は、未設定なら基準通貨ごとの既定値を使う", () => {
+        // Act
+        const jpy = parseTransferRules(baseEnv).feePolicy;
+        const usd = parseTransferRules({...baseEnv, BASE_CURRENCY: "USD"}).feePolicy;
+
+        // Assert
+        // JPY: 3万円以下は定額110円、3万円超は0.1%（下限330円・上限1,100円）
+        expect(jpy.calculate(Money.of(30000)).toDecimalString()).toBe("110");
+        expect(jpy.calculate(Money.of(100000)).toDecimalString()).toBe("330");
+        expect(jpy.calculate(Money.of(5000000)).toDecimalString()).toBe("1100");
+        // USD: 200.00 以下は定額1.00、200.00 超は0.1%（下限3.00・上限10.00）
+        expect(usd.calculate(Money.of(20000, Currency.USD)).toDecimalString()).toBe("1.00");
+        expect(usd.calculate(Money.of(500000, Currency.USD)).toDecimalString()).toBe("5.00");
+        expect(usd.calculate(Money.of(5000000, Currency.USD)).toDecimalString()).toBe("10.00");
+    });
+
+    it("手数料の料金体系は環境変数で上書きでき、指定しなかった値は既定値のまま", () => {
+        // Act
+        const policy = parseTransferRules({
+            ...baseEnv,
+            BASE_CURRENCY: "EUR",
+            TRANSFER_FEE_FLAT_UP_TO: "100",
+            TRANSFER_FEE_FLAT_AMOUNT: "0",
+            TRANSFER_FEE_RATE_BASIS_POINTS: "25",
+        }).feePolicy;
+
+        // Assert
+        expect(policy.calculate(Money.of(10000, Currency.EUR)).toDecimalString()).toBe("0.00");
+        // 2,000.00 × 0.25% = 5.00（下限3.00・上限10.00 は既定値）
+        expect(policy.calculate(Money.of(200000, Currency.EUR)).toDecimalString()).toBe("5.00");
+        expect(policy.calculate(Money.of(10000000, Currency.EUR)).toDecimalString()).toBe("10.00");
+    });
+
+    it("手数料の金額の桁数・定額の上限・下限と上限の大小関係が不正な場合はエラーになる", () => {
+        expect(issuesOf({
+            TRANSFER_FEE_FLAT_UP_TO: "0",
+            TRANSFER_FEE_FLAT_AMOUNT: "110.5",
+            TRANSFER_FEE_RATE_BASIS_POINTS: "0.1",
+            TRANSFER_FEE_MINIMUM: "2000",
+        })).toEqual([
+            "TRANSFER_FEE_RATE_BASIS_POINTS: must be a non-negative integer",
+            "TRANSFER_FEE_FLAT_UP_TO: must be greater than 0",
+            "TRANSFER_FEE_FLAT_AMOUNT: must have at most 0 decimal places for JPY",
+            "TRANSFER_FEE_MINIMUM: must not be greater than the maximum fee (1100 JPY)",
+        ]);
+    });
+
+    it("定期送金の再試行と自動停止は、未設定なら既定値（再試行2回・60分ごと・5回連続で停止）を使う", () => {
+        // Act
+        const defaults = parseTransferRules(baseEnv).standingOrderRetryPolicy;
+        const configured = parseTransferRules({
+            ...baseEnv,
+            STANDING_ORDER_MAX_RETRIES: "0",
+            STANDING_ORDER_RETRY_INTERVAL_MINUTES: "15",
+            STANDING_ORDER_PAUSE_AFTER_FAILURES: "3",
+        }).standingOrderRetryPolicy;
+
+        // Assert
+        expect([defaults.maxRetries, defaults.retryIntervalMinutes, defaults.maxConsecutiveFailures]).toEqual([2, 60, 5]);
+        expect([configured.maxRetries, configured.retryIntervalMinutes, configured.maxConsecutiveFailures]).toEqual([0, 15, 3]);
+    });
+
+    it("定期送金の再試行の間隔と自動停止の回数は1以上でなければエラーになる", () => {
+        expect(issuesOf({
+            STANDING_ORDER_MAX_RETRIES: "-1",
+            STANDING_ORDER_RETRY_INTERVAL_MINUTES: "0",
+            STANDING_ORDER_PAUSE_AFTER_FAILURES: "1.5",
+        })).toEqual([
+            "STANDING_ORDER_MAX_RETRIES: must be a non-negative integer",
+            "STANDING_ORDER_RETRY_INTERVAL_MINUTES: must be a positive integer",
+            "STANDING_ORDER_PAUSE_AFTER_FAILURES: must be a positive integer",
+        ]);
+    });
+});
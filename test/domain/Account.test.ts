@@ -1,9 +1,12 @@
 import { describe, it, expect } from "vitest";
-import {AccountId, Activity} from "../../src/application/domain/model/Activity";
+import {AccountId, Activity, ActivityId} from "../../src/application/domain/model/Activity";
 import {Money} from "../../src/application/domain/model/Money";
+import {Currency} from "../../src/application/domain/model/Currency";
 import {ActivityWindow} from "../../src/application/domain/model/ActivityWindow";
 import {Account} from "../../src/application/domain/model/Account";
 import {InsufficientBalanceException} from "../../src/application/domain/exception/InsufficientBalanceException";
+import {InvalidAccountStatusTransitionException} from "../../src/application/domain/exception/InvalidAccountStatusTransitionException";
+import {CurrencyMismatchException} from "../../src/application/domain/exception/CurrencyMismatchException";
 
 
 describe("Account", () => {
@@ -206,6 +209,42 @@ describe("Account", () => {
     // 【新規追加】nullable対応のテスト
     // ========================================
 
+    it("未保存の出金の合計を取得できる（保存済み・入金は含まない）", () => {
+        // Arrange
+        const savedWithdrawal = Activity.withId(
+            new ActivityId(1n),
+            accountId,
+            accountId,
+            targetAccountId,
+            new Date(),
+            Money.of(999)
+        );
+        const account = Account.withId(
+            accountId,
+            Money.of(2000),
+            new ActivityWindow(savedWithdrawal)
+        );
+
+        // Act
+        account.withdraw(Money.of(300), targetAccountId);
+        account.withdraw(Money.of(200), targetAccountId);
+        account.deposit(Money.of(50), sourceAccountId);
+
+        // Assert
+        expect(account.getNewWithdrawalTotal().getAmount()).toBe(500n);
+    });
+
+    it("未保存の出金がない場合、出金合計は0", () => {
+        // Arrange
+        const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+        // Act
+        account.deposit(Money.of(50), sourceAccountId);
+
+        // Assert
+        expect(account.getNewWithdrawalTotal().getAmount()).toBe(0n);
+    });
+
     describe("外部入金・外部出金のテスト", () => {
         it("外部からの入金（source=null）を処理できる", () => {
             // Arrange
@@ -331,4 +370,257 @@ describe("Account", () => {
             expect(balance.getAmount()).toBe(1100n);
         });
     });
-});
\ No newline at end of file
+
+    describe("アカウントの状態（ACTIVE / FROZEN / CLOSED）", () => {
+        it("状態を指定せずに生成すると ACTIVE になる", () => {
+            // Act
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Assert
+            expect(account.getStatus()).toBe("ACTIVE");
+            expect(account.isActive()).toBe(true);
+        });
+
+        it("ACTIVE のアカウントを凍結できる", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Act
+            account.freeze();
+
+            // Assert
+            expect(account.getStatus()).toBe("FROZEN");
+            expect(account.isActive()).toBe(false);
+        });
+
+        it("FROZEN のアカウントは凍結できない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow(), "FROZEN");
+
+            // Act & Assert
+            expect(() => { account.freeze(); }).toThrow(InvalidAccountStatusTransitionException);
+            expect(account.getStatus()).toBe("FROZEN");
+        });
+
+        it("ACTIVE / FROZEN のアカウントを解約できる", () => {
+            // Arrange
+            const active = Account.withId(accountId, Money.of(100), new ActivityWindow());
+            const frozen = Account.withId(targetAccountId, Money.of(100), new ActivityWindow(), "FROZEN");
+
+            // Act
+            active.close();
+            frozen.close();
+
+            // Assert
+            expect(active.getStatus()).toBe("CLOSED");
+            expect(frozen.getStatus()).toBe("CLOSED");
+        });
+
+        it("CLOSED のアカウントは凍結も解約もできない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow(), "CLOSED");
+
+            // Act & Assert
+            expect(() => { account.freeze(); }).toThrow(InvalidAccountStatusTransitionException);
+            expect(() => { account.close(); }).toThrow(InvalidAccountStatusTransitionException);
+            expect(account.getStatus()).toBe("CLOSED");
+        });
+    });
+
+    describe("アカウントの区分（BASIC / VERIFIED / BUSINESS）", () => {
+        it("区分を指定せずに生成すると BASIC になる", () => {
+            // Act
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Assert
+            expect(account.getTier()).toBe("BASIC");
+        });
+
+        it("区分を変更できる（状態は変わらない）", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow(), "FROZEN");
+
+            // Act
+            account.changeTier("BUSINESS");
+
+            // Assert
+            expect(account.getTier()).toBe("BUSINESS");
+            expect(account.getStatus()).toBe("FROZEN");
+        });
+    });
+
+    describe("当座貸越", () => {
+        it("限度額を指定せずに生成すると貸越なし（限度額0）になる", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Act & Assert
+            expect(account.getOverdraftLimit().equals(Money.of(0))).toBe(true);
+            expect(account.calculateAvailableBalance().equals(Money.of(100))).toBe(true);
+            expect(() => { account.withdraw(Money.of(101), targetAccountId); })
+                .toThrow(InsufficientBalanceException);
+        });
+
+        it("限度額まで残高をマイナスにして出金でき、利用額は残高のマイナス分になる", () => {
+            // Arrange
+            const account = Account.withId(
+                accountId, Money.of(100), new ActivityWindow(), "ACTIVE", "BUSINESS", Money.of(500)
+            );
+
+            // Act
+            account.withdraw(Money.of(600), targetAccountId);
+
+            // Assert
+            expect(account.calculateBalance().equals(Money.of(-500))).toBe(true);
+            expect(account.calculateOverdraftUsage().equals(Money.of(500))).toBe(true);
+            expect(account.calculateAvailableBalance().equals(Money.of(0))).toBe(true);
+        });
+
+        it("限度額を超える出金は、記帳残高と引き出せる金額を持つ InsufficientBalanceException になる", () => {
+            // Arrange
+            const account = Account.withId(
+                accountId, Money.of(100), new ActivityWindow(), "ACTIVE", "BUSINESS", Money.of(500)
+            );
+
+            // Act
+            let thrown: unknown;
+            try {
+                account.withdraw(Money.of(601), targetAccountId);
+            } catch (error) {
+                thrown = error;
+            }
+
+            // Assert
+            expect(thrown).toBeInstanceOf(InsufficientBalanceException);
+            const exception = thrown as InsufficientBalanceException;
+            expect(exception.currentBalance.equals(Money.of(100))).toBe(true);
+            expect(exception.overdraftLimit.equals(Money.of(500))).toBe(true);
+            expect(exception.availableBalance.equals(Money.of(600))).toBe(true);
+            expect(account.getNewActivities()).toHaveLength(0);
+        });
+
+        it("限度額を下げても利用中の貸越は残り、それ以上は出金できない", () => {
+            // Arrange
+            const account = Account.withId(
+                accountId, Money.of(-300), new ActivityWindow(), "ACTIVE", "BUSINESS", Money.of(500)
+            );
+
+            // Act
+            account.changeOverdraftLimit(Money.of(100));
+
+            // Assert
+            expect(account.calculateOverdraftUsage().equals(Money.of(300))).toBe(true);
+            expect(account.calculateAvailableBalance().equals(Money.of(-200))).toBe(true);
+            expect(() => { account.withdraw(Money.of(1), targetAccountId); })
+                .toThrow(InsufficientBalanceException);
+        });
+
+        it("負の限度額や、アカウントと異なる通貨の限度額は設定できない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Act & Assert
+            expect(() => { account.changeOverdraftLimit(Money.of(-1)); }).toThrow("must not be negative");
+            expect(() => { account.changeOverdraftLimit(Money.of(100, Currency.USD)); })
+                .toThrow(CurrencyMismatchException);
+            expect(account.getOverdraftLimit().equals(Money.of(0))).toBe(true);
+        });
+    });
+
+    describe("取り消し", () => {
+        const deposit = Activity.withId(
+            new ActivityId(10n), accountId, sourceAccountId, accountId, new Date(), Money.of(300)
+        );
+
+        it("入金を取り消すと、送金元と送金先を入れ替えた同じ金額の出金が元のアクティビティにリンクされる", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(500), new ActivityWindow());
+
+            // Act
+            account.reverseActivity(deposit);
+
+            // Assert
+            const [reversal] = account.getNewActivities();
+            expect(reversal.getSourceAccountId()).toEqual(accountId);
+            expect(reversal.getTargetAccountId()).toEqual(sourceAccountId);
+            expect(reversal.getMoney().equals(Money.of(300))).toBe(true);
+            expect(reversal.getReversalOf()).toEqual(new ActivityId(10n));
+            expect(reversal.isReversal()).toBe(true);
+            expect(account.calculateBalance().equals(Money.of(200))).toBe(true);
+        });
+
+        it("入金を取り消す残高が足りなければ InsufficientBalanceException になり、force なら残高をチェックしない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(100), new ActivityWindow());
+
+            // Act & Assert
+            expect(() => { account.reverseActivity(deposit); }).toThrow(InsufficientBalanceException);
+            expect(account.getNewActivities()).toHaveLength(0);
+
+            account.reverseActivity(deposit, true);
+            expect(account.calculateBalance().equals(Money.of(-200))).toBe(true);
+        });
+
+        it("出金の取り消しは入金になるので、残高が足りなくても取り消せる", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(0), new ActivityWindow());
+            const withdrawal = Activity.withId(
+                new ActivityId(11n), accountId, accountId, targetAccountId, new Date(), Money.of(300)
+            );
+
+            // Act
+            account.reverseActivity(withdrawal);
+
+            // Assert
+            expect(account.calculateBalance().equals(Money.of(300))).toBe(true);
+        });
+
+        it("他のアカウントのアクティビティや、外部との入出金は取り消せない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(500), new ActivityWindow());
+            const othersActivity = Activity.withId(
+                new ActivityId(12n), targetAccountId, accountId, targetAccountId, new Date(), Money.of(300)
+            );
+            const externalDeposit = Activity.withId(
+                new ActivityId(13n), accountId, null, accountId, new Date(), Money.of(300)
+            );
+
+            // Act & Assert
+            expect(() => { account.reverseActivity(othersActivity); }).toThrow("is not a stored activity");
+            expect(() => { account.reverseActivity(externalDeposit); }).toThrow("Only transfer activities");
+        });
+    });
+
+    describe("通貨", () => {
+        it("アカウントの通貨はベースライン残高の通貨になる", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(1000, Currency.USD), new ActivityWindow());
+
+            // Act & Assert
+            expect(account.getCurrency()).toBe(Currency.USD);
+            expect(account.calculateBalance().equals(Money.of(1000, Currency.USD))).toBe(true);
+        });
+
+        it("アクティビティがなくても、残高と出金合計はアカウントの通貨で返す", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.zero(Currency.EUR), new ActivityWindow());
+
+            // Act & Assert
+            expect(account.calculateBalance().getCurrency()).toBe(Currency.EUR);
+            expect(account.getNewWithdrawalTotal().getCurrency()).toBe(Currency.EUR);
+        });
+
+        it("アカウントと異なる通貨では入金・出金できない", () => {
+            // Arrange
+            const account = Account.withId(accountId, Money.of(1000), new ActivityWindow());
+
+            // Act & Assert
+            expect(() => { account.withdraw(Money.of(100, Currency.USD), targetAccountId); })
+                .toThrow(CurrencyMismatchException);
+            expect(() => { account.deposit(Money.of(100, Currency.USD), sourceAccountId); })
+                .toThrow(CurrencyMismatchException);
+            expect(account.getNewActivities()).toHaveLength(0);
+        });
+    });
+});
+
@@ -110,4 +110,36 @@ describe("Activity", () => {
         expect(activity.getTimestamp()).toBe(timestamp);
         expect(activity.getMoney()).toBe(money);
     });
-});
\ No newline at end of file
+});
+describe("Activity.getDirectionFor", () => {
+    const accountId = new AccountId(1n);
+    const otherAccountId = new AccountId(2n);
+    const timestamp = new Date("2024-01-15T10:00:00Z");
+    const money = Money.of(100);
+
+    it("他のアカウントからの入金は incoming になる", () => {
+        const activity = Activity.withoutId(accountId, otherAccountId, accountId, timestamp, money);
+
+        expect(activity.getDirectionFor(accountId)).toBe("incoming");
+    });
+
+    it("他のアカウントへの出金は outgoing になる", () => {
+        const activity = Activity.withoutId(accountId, accountId, otherAccountId, timestamp, money);
+
+        expect(activity.getDirectionFor(accountId)).toBe("outgoing");
+    });
+
+    it("外部からの入金・外部への出金は external になる", () => {
+        const deposit = Activity.withoutId(accountId, null, accountId, timestamp, money);
+        const withdrawal = Activity.withoutId(accountId, accountId, null, timestamp, money);
+
+        expect(deposit.getDirectionFor(accountId)).toBe("external");
+        expect(withdrawal.getDirectionFor(accountId)).toBe("external");
+    });
+
+    it("指定アカウントが関与しないアクティビティはエラーになる", () => {
+        const activity = Activity.withoutId(otherAccountId, otherAccountId, new AccountId(3n), timestamp, money);
+
+        expect(() => activity.getDirectionFor(accountId)).toThrow();
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import {AccountId, Activity} from "../../src/application/domain/model/Activity";
+import {AccountId, Activity, ActivityId} from "../../src/application/domain/model/Activity";
 import {ActivityWindow} from "../../src/application/domain/model/ActivityWindow";
 import {Money} from "../../src/application/domain/model/Money";
 
@@ -233,4 +233,45 @@ describe("ActivityWindow", () => {
         // Assert
         expect(balance.getAmount()).toBe(120n); // (100 + 50) - 30 = 120
     });
-});
\ No newline at end of file
+
+    it("指定した時刻以降の出金の合計を計算できる（入金と、それより前の出金は含まない）", () => {
+        // Arrange
+        const since = new Date("2025-01-10T00:00:00Z");
+        const window = new ActivityWindow(
+            Activity.withoutId(accountId1, accountId1, accountId2, new Date("2025-01-09T23:59:59Z"), Money.of(1000)),
+            Activity.withoutId(accountId1, accountId1, accountId2, since, Money.of(30)),
+            Activity.withoutId(accountId1, accountId2, accountId1, new Date("2025-01-11"), Money.of(500)),
+            Activity.withoutId(accountId1, accountId1, accountId2, new Date("2025-01-12"), Money.of(70))
+        );
+
+        // Act
+        const total = window.calculateWithdrawalTotalSince(accountId1, since);
+
+        // Assert
+        expect(total.getAmount()).toBe(100n); // 30 + 70（開始時刻ちょうどの出金を含む）
+    });
+
+    it("取り消された出金と、取り消しによる出金は出金の合計に含めない", () => {
+        // Arrange
+        const since = new Date("2025-01-10T00:00:00Z");
+        const reversedWithdrawalId = new ActivityId(2n);
+        const reversedDepositId = new ActivityId(3n);
+        const window = new ActivityWindow(
+            Activity.withId(new ActivityId(1n), accountId1, accountId1, accountId2, new Date("2025-01-11"), Money.of(30)),
+            // 取り消された出金と、その取り消し（送金元への返金）
+            Activity.withId(reversedWithdrawalId, accountId1, accountId1, accountId2, new Date("2025-01-11"), Money.of(1000)),
+            Activity.withId(new ActivityId(4n), accountId1, accountId2, accountId1, new Date("2025-01-12"), Money.of(1000), null, reversedWithdrawalId),
+            // 受け取った送金の取り消し（送金元への返金として出金される）
+            Activity.withId(reversedDepositId, accountId1, accountId2, accountId1, new Date("2025-01-11"), Money.of(500)),
+            Activity.withId(new ActivityId(5n), accountId1, accountId1, accountId2, new Date("2025-01-12"), Money.of(500), null, reversedDepositId)
+        );
+
+        // Act
+        const total = window.calculateWithdrawalTotalSince(accountId1, since);
+
+        // Assert
+        expect(total.getAmount()).toBe(30n);
+        // 残高は取り消しも含めて計算する: -30 - 1000 + 1000 + 500 - 500
+        expect(window.calculateBalance(accountId1).getAmount()).toBe(-30n);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {ExchangeRate} from "../../src/application/domain/model/ExchangeRate";
+import {Money} from "../../src/application/domain/model/Money";
+import {Currency} from "../../src/application/domain/model/Currency";
+import {CurrencyMismatchException} from "../../src/application/domain/exception/CurrencyMismatchException";
+
+
+describe("ExchangeRate", () => {
+    // ===== 生成 =====
+
+    it("10進数の文字列からレートを生成できる", () => {
+        // Arrange & Act
+        const rate = ExchangeRate.of(Currency.USD, Currency.JPY, "150.25");
+
+        // Assert
+        expect(rate.from).toBe(Currency.USD);
+        expect(rate.to).toBe(Currency.JPY);
+        expect(rate.toString()).toBe("150.25");
+    });
+
+    it.each(["", "abc", "-1", "1.123456789", "1e3"])("不正な形式（%s）はエラーになる", (value) => {
+        // Act & Assert
+        expect(() => ExchangeRate.of(Currency.USD, Currency.JPY, value)).toThrow();
+    });
+
+    it("0のレートはエラーになる", () => {
+        // Act & Assert
+        expect(() => ExchangeRate.of(Currency.USD, Currency.JPY, "0")).toThrow("Exchange rate must be positive");
+    });
+
+    it("比からレートを生成すると、小数点以下8桁に四捨五入される", () => {
+        // Arrange & Act
+        const rate = ExchangeRate.fromRatio(Currency.JPY, Currency.USD, 100n, 15_000n);
+
+        // Assert
+        expect(rate.toString()).toBe("0.00666667");
+    });
+
+    it("逆向きのレートは通貨ペアが入れ替わり、小数点以下8桁に四捨五入される", () => {
+        // Arrange & Act
+        const rate = ExchangeRate.of(Currency.USD, Currency.JPY, "150").inverse();
+
+        // Assert
+        expect(rate.from).toBe(Currency.JPY);
+        expect(rate.to).toBe(Currency.USD);
+        expect(rate.toString()).toBe("0.00666667");
+    });
+
+    // ===== 換算 =====
+
+    it("補助単位の桁数が異なる通貨に換算できる（USD → JPY）", () => {
+        // Arrange
+        const rate = ExchangeRate.of(Currency.USD, Currency.JPY, "150");
+
+        // Act（12.34 USD）
+        const result = rate.convert(Money.of(1234, Currency.USD));
+
+        // Assert（12.34 × 150 = 1,851 円）
+        expect(result.equals(Money.of(1851))).toBe(true);
+    });
+
+    it("換算後の金額は換算先の補助単位に四捨五入される（JPY → USD）", () => {
+        // Arrange
+        const rate = ExchangeRate.of(Currency.JPY, Currency.USD, "0.00666667");
+
+        // Act
+        const roundedDown = rate.convert(Money.of(100));  // 0.666667 USD
+        const roundedUp = rate.convert(Money.of(75));     // 0.50000025 USD
+
+        // Assert
+        expect(roundedDown.equals(Money.of(67, Currency.USD))).toBe(true);
+        expect(roundedUp.equals(Money.of(50, Currency.USD))).toBe(true);
+    });
+
+    it("from 通貨と異なる通貨の金額を換算しようとすると CurrencyMismatchException が発生する", () => {
+        // Arrange
+        const rate = ExchangeRate.of(Currency.USD, Currency.JPY, "150");
+
+        // Act & Assert
+        expect(() => rate.convert(Money.of(100))).toThrow(CurrencyMismatchException);
+    });
+
+    it("同じ通貨同士のレートは金額を変えない", () => {
+        // Arrange
+        const rate = ExchangeRate.identity(Currency.EUR);
+
+        // Act & Assert
+        expect(rate.toString()).toBe("1");
+        expect(rate.convert(Money.of(999, Currency.EUR)).equals(Money.of(999, Currency.EUR))).toBe(true);
+    });
+
+    // ===== 等価性 =====
+
+    it("通貨ペアとレートが等しい場合のみ等価", () => {
+        // Arrange
+        const rate = ExchangeRate.of(Currency.USD, Currency.JPY, "150");
+
+        // Act & Assert
+        expect(rate.equals(ExchangeRate.of(Currency.USD, Currency.JPY, "150.0"))).toBe(true);
+        expect(rate.equals(ExchangeRate.of(Currency.USD, Currency.JPY, "150.01"))).toBe(false);
+        expect(rate.equals(ExchangeRate.of(Currency.EUR, Currency.JPY, "150"))).toBe(false);
+    });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {Money} from "../../src/application/domain/model/Money";
+import {Currency} from "../../src/application/domain/model/Currency";
+import {CurrencyMismatchException} from "../../src/application/domain/exception/CurrencyMismatchException";
+import type {RoundingMode} from "../../src/application/domain/model/RoundingMode";
 
 
 describe("Money", () => {
@@ -210,4 +213,304 @@ describe("Money", () => {
         // Assert
         expect(str).toBe("100");
     });
-});
\ No newline at end of file
+
+    // ===== 通貨 =====
+
+    describe("通貨", () => {
+        it("通貨を省略するとJPYになる", () => {
+            // Act & Assert
+            expect(Money.of(100).getCurrency()).toBe(Currency.JPY);
+            expect(Money.ZERO.getCurrency()).toBe(Currency.JPY);
+        });
+
+        it("通貨を指定して生成でき、金額は補助単位で保持される", () => {
+            // Arrange & Act: 12.34 USD = 1234 セント
+            const money = Money.of(1234, Currency.USD);
+
+            // Assert
+            expect(money.getAmount()).toBe(1234n);
+            expect(money.getCurrency().code).toBe("USD");
+            expect(money.getCurrency().minorUnits).toBe(2);
+        });
+
+        it("zero()で指定した通貨の0を生成できる", () => {
+            // Act
+            const zero = Money.zero(Currency.EUR);
+
+            // Assert
+            expect(zero.getAmount()).toBe(0n);
+            expect(zero.getCurrency()).toBe(Currency.EUR);
+        });
+
+        it("同じ通貨同士の計算結果は通貨を引き継ぐ", () => {
+            // Arrange
+            const a = Money.of(100, Currency.USD);
+            const b = Money.of(30, Currency.USD);
+
+            // Act & Assert
+            expect(a.plus(b).getCurrency()).toBe(Currency.USD);
+            expect(a.minus(b).getCurrency()).toBe(Currency.USD);
+            expect(a.negate().getCurrency()).toBe(Currency.USD);
+        });
+
+        it("異なる通貨同士の加算・減算・比較は CurrencyMismatchException を投げる", () => {
+            // Arrange
+            const yen = Money.of(100);
+            const dollar = Money.of(100, Currency.USD);
+
+            // Act & Assert
+            expect(() => yen.plus(dollar)).toThrow(CurrencyMismatchException);
+            expect(() => yen.minus(dollar)).toThrow(CurrencyMismatchException);
+            expect(() => yen.isGreaterThan(dollar)).toThrow(CurrencyMismatchException);
+            expect(() => yen.isGreaterThanOrEqualTo(dollar)).toThrow(CurrencyMismatchException);
+        });
+
+        it("CurrencyMismatchException は期待された通貨と実際の通貨を持つ", () => {
+            // Act
+            let caught: unknown;
+            try {
+                Money.of(100).plus(Money.of(100, Currency.USD));
+            } catch (error) {
+                caught = error;
+            }
+
+            // Assert
+            expect(caught).toBeInstanceOf(CurrencyMismatchException);
+            expect((caught as CurrencyMismatchException).expected).toBe(Currency.JPY);
+            expect((caught as CurrencyMismatchException).actual).toBe(Currency.USD);
+        });
+
+        it("金額が同じでも通貨が異なれば等しくない", () => {
+            // Act & Assert
+            expect(Money.of(100).equals(Money.of(100, Currency.USD))).toBe(false);
+            expect(Money.of(100, Currency.USD).equals(Money.of(100, Currency.USD))).toBe(true);
+        });
+
+        it("通貨コードから Currency を取得でき、未対応の通貨コードはエラーになる", () => {
+            // Act & Assert
+            expect(Currency.of("USD")).toBe(Currency.USD);
+            expect(Currency.of("JPY").minorUnits).toBe(0);
+            expect(() => Currency.of("XYZ")).toThrow("Unsupported currency: XYZ");
+        });
+    });
+
+    describe("10進数の文字列との変換", () => {
+        it.each([
+            ["1234.50", Currency.USD, 123450n],
+            ["1234.5", Currency.USD, 123450n],
+            ["0.01", Currency.USD, 1n],
+            ["1000", Currency.JPY, 1000n],
+            ["12", Currency.EUR, 1200n],
+            ["-3.25", Currency.GBP, -325n],
+        ])("parse(\"%s\", %s) は補助単位の %s になる", (value, currency, expected) => {
+            // Act
+            const money = Money.parse(value, currency);
+
+            // Assert
+            expect(money.getAmount()).toBe(expected);
+            expect(money.getCurrency()).toBe(currency);
+        });
+
+        it("通貨を省略すると JPY として解釈する", () => {
+            // Act & Assert
+            expect(Money.parse("500").equals(Money.of(500))).toBe(true);
+        });
+
+        it("補助単位より細かい桁は丸めずにエラーにする", () => {
+            // Act & Assert
+            expect(() => Money.parse("1234.505", Currency.USD)).toThrow("more decimal places than USD allows (2)");
+            expect(() => Money.parse("100.5", Currency.JPY)).toThrow("more decimal places than JPY allows (0)");
+        });
+
+        it("末尾の0は金額が変わらないので受け付ける", () => {
+            // Act & Assert
+            expect(Money.parse("1.500", Currency.USD).getAmount()).toBe(150n);
+            expect(Money.parse("100.0", Currency.JPY).getAmount()).toBe(100n);
+        });
+
+        it.each(["", "abc", "1.", ".5", "1,000", "1e3", "+1", " 1"])("不正な形式（\"%s\"）はエラーになる", (value) => {
+            // Act & Assert
+            expect(() => Money.parse(value, Currency.USD)).toThrow("Invalid money amount");
+        });
+
+        it("toDecimalString() は補助単位の桁数で10進数の文字列にする", () => {
+            // Act & Assert
+            expect(Money.of(123450, Currency.USD).toDecimalString()).toBe("1234.50");
+            expect(Money.of(5, Currency.USD).toDecimalString()).toBe("0.05");
+            expect(Money.of(-325, Currency.GBP).toDecimalString()).toBe("-3.25");
+            expect(Money.of(1000).toDecimalString()).toBe("1000");
+        });
+
+        it("parse と toDecimalString は往復で同じ金額になる", () => {
+            // Arrange
+            const money = Money.of(987654321, Currency.EUR);
+
+            // Act & Assert
+            expect(Money.parse(money.toDecimalString(), Currency.EUR).equals(money)).toBe(true);
+        });
+
+        it("format() はロケールに合わせて通貨記号と桁区切りを付ける", () => {
+            // Act & Assert
+            expect(Money.of(123450, Currency.USD).format("en-US")).toBe("$1,234.50");
+            expect(Money.of(123450, Currency.EUR).format("de-DE")).toBe("1.234,50\u00a0€");
+            expect(Money.of(1000).format("en-US")).toBe("¥1,000");
+        });
+
+        it("format() は浮動小数点の誤差なく大きな金額を表示する", () => {
+            // Act & Assert（Number.MAX_SAFE_INTEGER を超える金額）
+            expect(Money.of(12345678901234567n, Currency.USD).format("en-US")).toBe("$123,456,789,012,345.67");
+        });
+    });
+
+    describe("倍率・割合", () => {
+        it("倍率を掛けられる（10進数として正確に計算する）", () => {
+            // Act & Assert
+            expect(Money.of(1000).multiply("1.08", "HALF_UP").getAmount()).toBe(1080n);
+            expect(Money.of(1000).multiply(0.1, "HALF_UP").getAmount()).toBe(100n);
+            expect(Money.of(1000).multiply(3n, "HALF_UP").getAmount()).toBe(3000n);
+            expect(Money.of(1000).multiply(-2, "HALF_UP").getAmount()).toBe(-2000n);
+            expect(Money.of(1000).multiply(1e-3, "HALF_UP").getAmount()).toBe(1n);
+        });
+
+        it("倍率を掛けても通貨は変わらない", () => {
+            // Act & Assert
+            expect(Money.of(1234, Currency.USD).multiply("2", "HALF_UP").equals(Money.of(2468, Currency.USD))).toBe(true);
+        });
+
+        it.each<[RoundingMode, bigint, bigint, bigint, bigint]>([
+            // 丸め方     25×0.1  35×0.1  -25×0.1  21×0.1
+            ["HALF_UP",   3n,     4n,     -3n,     2n],
+            ["HALF_EVEN", 2n,     4n,     -2n,     2n],
+            ["DOWN",      2n,     3n,     -2n,     2n],
+            ["UP",        3n,     4n,     -3n,     3n],
+            ["FLOOR",     2n,     3n,     -3n,     2n],
+            ["CEILING",   3n,     4n,     -2n,     3n],
+        ])("丸め方 %s で端数を丸める", (mode, halfFromTwo, halfFromThree, negativeHalf, belowHalf) => {
+            // Act & Assert
+            expect(Money.of(25).multiply("0.1", mode).getAmount()).toBe(halfFromTwo);
+            expect(Money.of(35).multiply("0.1", mode).getAmount()).toBe(halfFromThree);
+            expect(Money.of(-25).multiply("0.1", mode).getAmount()).toBe(negativeHalf);
+            expect(Money.of(21).multiply("0.1", mode).getAmount()).toBe(belowHalf);
+        });
+
+        it.each([Number.NaN, Number.POSITIVE_INFINITY, "abc", "1.2.3"])("不正な倍率（%s）はエラーになる", (ratio) => {
+            // Act & Assert
+            expect(() => Money.of(100).multiply(ratio, "HALF_UP")).toThrow("Invalid ratio");
+        });
+
+        it("ベーシスポイントで割合を計算できる（1% = 100bps）", () => {
+            // Act & Assert
+            expect(Money.of(10000).percentage(250).getAmount()).toBe(250n);    // 2.5%
+            expect(Money.of(10000).percentage(10000).getAmount()).toBe(10000n); // 100%
+            expect(Money.of(10000).percentage(0).getAmount()).toBe(0n);
+        });
+
+        it("割合の端数は既定で四捨五入し、丸め方を指定することもできる", () => {
+            // Arrange（999円の 1.5% = 14.985円）
+            const money = Money.of(999);
+
+            // Act & Assert
+            expect(money.percentage(150).getAmount()).toBe(15n);
+            expect(money.percentage(150, "DOWN").getAmount()).toBe(14n);
+            expect(money.percentage(150n, "CEILING").getAmount()).toBe(15n);
+        });
+
+        it("整数でないベーシスポイントはエラーになる", () => {
+            // Act & Assert
+            expect(() => Money.of(100).percentage(2.5)).toThrow("Basis points must be an integer");
+        });
+    });
+
+    describe("分配", () => {
+        it("割り切れる場合は比率どおりに分配する", () => {
+            // Act
+            const shares = Money.of(1000).allocate([1, 3]);
+
+            // Assert
+            expect(shares.map((m) => m.getAmount())).toEqual([250n, 750n]);
+        });
+
+        it("割り切れない端数は1単位も失わずに配る", () => {
+            // Act
+            const shares = Money.of(100).allocate([1, 1, 1]);
+
+            // Assert
+            expect(shares.map((m) => m.getAmount())).toEqual([34n, 33n, 33n]);
+            expect(shares.reduce((sum, m) => sum.plus(m), Money.ZERO).equals(Money.of(100))).toBe(true);
+        });
+
+        it("端数は切り捨てで失われた端数が大きい順に配る", () => {
+            // Act（5 × 3/10 = 1.5、5 × 7/10 = 3.5 → 同じ端数なので先頭から）
+            const tie = Money.of(5).allocate([3, 7]);
+            // Act（10 × 1/6 = 1.67、10 × 5/6 = 8.33 → 端数が大きい先頭に配る）
+            const largest = Money.of(10).allocate([1, 5]);
+            // Act（10 × 5/6 = 8.33、10 × 1/6 = 1.67 → 端数が大きい2番目に配る）
+            const reversed = Money.of(10).allocate([5, 1]);
+
+            // Assert
+            expect(tie.map((m) => m.getAmount())).toEqual([2n, 3n]);
+            expect(largest.map((m) => m.getAmount())).toEqual([2n, 8n]);
+            expect(reversed.map((m) => m.getAmount())).toEqual([8n, 2n]);
+        });
+
+        it("比率0には分配しない", () => {
+            // Act
+            const shares = Money.of(101).allocate([0, 1, 1]);
+
+            // Assert
+            expect(shares.map((m) => m.getAmount())).toEqual([0n, 51n, 50n]);
+        });
+
+        it("負の金額も合計を保って分配する", () => {
+            // Act
+            const shares = Money.of(-100).allocate([1, 1, 1]);
+
+            // Assert
+            expect(shares.map((m) => m.getAmount())).toEqual([-34n, -33n, -33n]);
+        });
+
+        it("通貨を保って分配する", () => {
+            // Act
+            const shares = Money.of(1001, Currency.USD).allocate([1n, 1n]);
+
+            // Assert
+            expect(shares[0]?.equals(Money.of(501, Currency.USD))).toBe(true);
+            expect(shares[1]?.equals(Money.of(500, Currency.USD))).toBe(true);
+        });
+
+        it.each([
+            {ratios: [], message: "Allocation ratios must have a positive total"},
+            {ratios: [0, 0], message: "Allocation ratios must have a positive total"},
+            {ratios: [1, -1], message: "Allocation ratio must not be negative"},
+            {ratios: [0.5, 0.5], message: "Allocation ratio must be an integer"},
+        ])("不正な比率（$ratios）はエラーになる", ({ratios, message}) => {
+            // Act & Assert
+            expect(() => Money.of(100).allocate(ratios)).toThrow(message);
+        });
+    });
+
+    describe("最小・最大・絶対値", () => {
+        it("最小・最大のMoneyを返す", () => {
+            // Arrange
+            const values = [Money.of(300), Money.of(-50), Money.of(1200)];
+
+            // Act & Assert
+            expect(Money.min(Money.of(500), ...values).equals(Money.of(-50))).toBe(true);
+            expect(Money.max(Money.of(500), ...values).equals(Money.of(1200))).toBe(true);
+            expect(Money.min(Money.of(7)).equals(Money.of(7))).toBe(true);
+        });
+
+        it("通貨が異なるMoneyの最小・最大は CurrencyMismatchException になる", () => {
+            // Act & Assert
+            expect(() => Money.min(Money.of(1), Money.of(1, Currency.USD))).toThrow(CurrencyMismatchException);
+            expect(() => Money.max(Money.of(1), Money.of(1, Currency.USD))).toThrow(CurrencyMismatchException);
+        });
+
+        it("絶対値を返す", () => {
+            // Act & Assert
+            expect(Money.of(-1234, Currency.USD).abs().equals(Money.of(1234, Currency.USD))).toBe(true);
+            expect(Money.of(1234).abs().equals(Money.of(1234))).toBe(true);
+            expect(Money.ZERO.abs().equals(Money.ZERO)).toBe(true);
+        });
+    });
+});
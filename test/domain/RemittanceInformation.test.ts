@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import {RemittanceInformation} from "../../src/application/domain/model/RemittanceInformation";
+
+
+describe("RemittanceInformation", () => {
+    it("参照情報もメモも指定がなければ null になる", () => {
+        expect(RemittanceInformation.of(null, null)).toBeNull();
+    });
+
+    it("参照情報とメモを保持する", () => {
+        // Act
+        const remittance = RemittanceInformation.of("INV-2025/001", "11月分の家賃");
+
+        // Assert
+        expect(remittance?.reference).toBe("INV-2025/001");
+        expect(remittance?.memo).toBe("11月分の家賃");
+    });
+
+    it("片方だけでも指定できる", () => {
+        expect(RemittanceInformation.of("INV-1", null)?.memo).toBeNull();
+        expect(RemittanceInformation.of(null, "メモ")?.reference).toBeNull();
+    });
+
+    it("参照情報の文字数と文字の種類を検証する", () => {
+        expect(RemittanceInformation.of("A".repeat(35), null)).not.toBeNull();
+        expect(() => RemittanceInformation.of("A".repeat(36), null)).toThrow();
+        expect(() => RemittanceInformation.of("請求書#1", null)).toThrow();
+        expect(() => RemittanceInformation.of("", null)).toThrow();
+    });
+
+    it("メモの文字数と制御文字を検証する", () => {
+        expect(RemittanceInformation.of(null, "あ".repeat(140))).not.toBeNull();
+        expect(() => RemittanceInformation.of(null, "あ".repeat(141))).toThrow();
+        expect(() => RemittanceInformation.of(null, "1行目\n2行目")).toThrow();
+        expect(() => RemittanceInformation.of(null, "")).toThrow();
+    });
+});
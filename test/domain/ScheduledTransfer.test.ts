@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {ScheduledTransfer} from "../../src/application/domain/model/ScheduledTransfer";
+import {AccountId} from "../../src/application/domain/model/Activity";
+import {Money} from "../../src/application/domain/model/Money";
+import {TransferId} from "../../src/application/domain/model/Transfer";
+import {ExecutionTimeNotInFutureException} from "../../src/application/domain/exception/ExecutionTimeNotInFutureException";
+import {InvalidScheduledTransferStatusTransitionException} from "../../src/application/domain/exception/InvalidScheduledTransferStatusTransitionException";
+import {SameAccountTransferException} from "../../src/application/domain/exception/SameAccountTransferException";
+
+
+describe("ScheduledTransfer", () => {
+    const now = new Date("2025-11-24T09:00:00Z");
+    const executeAt = new Date("2025-11-25T09:00:00Z");
+
+    const schedule = (): ScheduledTransfer =>
+        ScheduledTransfer.schedule("st-1", new AccountId(1n), new AccountId(2n), Money.of(100), executeAt, now);
+
+    // ===== 予約 =====
+
+    it("予約すると PENDING になり、完了時刻と失敗理由は null", () => {
+        // Arrange & Act
+        const scheduledTransfer = schedule();
+
+        // Assert
+        expect(scheduledTransfer.getStatus()).toBe("PENDING");
+        expect(scheduledTransfer.createdAt).toEqual(now);
+        expect(scheduledTransfer.getCompletedAt()).toBeNull();
+        expect(scheduledTransfer.getFailure()).toBeNull();
+        expect(scheduledTransfer.getTransferId()).toBeNull();
+        expect(scheduledTransfer.getProcessingStartedAt()).toBeNull();
+    });
+
+    it("実行日時が現在以前の場合は ExecutionTimeNotInFutureException", () => {
+        // Act & Assert
+        expect(() => ScheduledTransfer.schedule(
+            "st-1", new AccountId(1n), new AccountId(2n), Money.of(100), now, now
+        )).toThrow(ExecutionTimeNotInFutureException);
+    });
+
+    it("送金元と送金先が同じ場合は SameAccountTransferException", () => {
+        // Act & Assert
+        expect(() => ScheduledTransfer.schedule(
+            "st-1", new AccountId(1n), new AccountId(1n), Money.of(100), executeAt, now
+        )).toThrow(SameAccountTransferException);
+    });
+
+    it("実行日時を過ぎた PENDING の予約だけが実行対象になる", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+
+        // Act & Assert
+        expect(scheduledTransfer.isDueAt(now)).toBe(false);
+        expect(scheduledTransfer.isDueAt(executeAt)).toBe(true);
+
+        scheduledTransfer.cancel(now);
+        expect(scheduledTransfer.isDueAt(executeAt)).toBe(false);
+    });
+
+    // ===== 状態遷移 =====
+
+    it("PENDING → PROCESSING → EXECUTED と遷移し、完了時刻を記録する", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+
+        // Act
+        scheduledTransfer.startProcessing(new TransferId("transfer-1"), executeAt);
+        scheduledTransfer.markExecuted(executeAt);
+
+        // Assert
+        expect(scheduledTransfer.getStatus()).toBe("EXECUTED");
+        expect(scheduledTransfer.getCompletedAt()).toEqual(executeAt);
+        expect(scheduledTransfer.getTransferId()).toEqual(new TransferId("transfer-1"));
+        expect(scheduledTransfer.getProcessingStartedAt()).toEqual(executeAt);
+    });
+
+    it("送金できなかった場合は FAILED になり、理由を記録する", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+        const failure = {reason: "InsufficientBalanceException", message: "Insufficient balance"};
+
+        // Act
+        scheduledTransfer.startProcessing(new TransferId("transfer-1"), executeAt);
+        scheduledTransfer.markFailed(failure, executeAt);
+
+        // Assert
+        expect(scheduledTransfer.getStatus()).toBe("FAILED");
+        expect(scheduledTransfer.getFailure()).toEqual(failure);
+    });
+
+    it("一時的な理由で送金できなかった予約は PENDING に戻り、送金IDを残したまま再び実行できる", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+        scheduledTransfer.startProcessing(new TransferId("transfer-1"), executeAt);
+
+        // Act
+        scheduledTransfer.returnToPending();
+
+        // Assert
+        expect(scheduledTransfer.getStatus()).toBe("PENDING");
+        expect(scheduledTransfer.getTransferId()).toEqual(new TransferId("transfer-1"));
+        expect(scheduledTransfer.getProcessingStartedAt()).toBeNull();
+        expect(scheduledTransfer.isDueAt(now)).toBe(false);
+        expect(() => scheduledTransfer.returnToPending()).toThrow(InvalidScheduledTransferStatusTransitionException);
+    });
+
+    it("実行中（PROCESSING）の予約は取り消せない", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+        scheduledTransfer.startProcessing(new TransferId("transfer-1"), executeAt);
+
+        // Act & Assert
+        expect(() => scheduledTransfer.cancel(now)).toThrow(InvalidScheduledTransferStatusTransitionException);
+        expect(scheduledTransfer.getStatus()).toBe("PROCESSING");
+    });
+
+    it("取り消した予約は実行できない", () => {
+        // Arrange
+        const scheduledTransfer = schedule();
+        scheduledTransfer.cancel(now);
+
+        // Act & Assert
+        expect(() => scheduledTransfer.startProcessing(new TransferId("transfer-1"), executeAt)).toThrow(InvalidScheduledTransferStatusTransitionException);
+        expect(scheduledTransfer.getStatus()).toBe("CANCELLED");
+        expect(scheduledTransfer.getCompletedAt()).toEqual(now);
+    });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import {StandingOrder} from "../../src/application/domain/model/StandingOrder";
+import {StandingOrderRetryPolicy} from "../../src/application/domain/model/StandingOrderRetryPolicy";
+import {MonthlySchedule} from "../../src/application/domain/model/MonthlySchedule";
+import {AccountId} from "../../src/application/domain/model/Activity";
+import {Money} from "../../src/application/domain/model/Money";
+import {TransferId} from "../../src/application/domain/model/Transfer";
+import {InvalidStandingOrderStatusTransitionException} from "../../src/application/domain/exception/InvalidStandingOrderStatusTransitionException";
+import {SameAccountTransferException} from "../../src/application/domain/exception/SameAccountTransferException";
+
+
+describe("StandingOrder", () => {
+    const now = new Date("2025-11-24T00:00:00Z");
+    const firstOccurrence = new Date("2025-11-25T09:00:00Z");
+    const failure = {reason: "InsufficientBalanceException", message: "insufficient balance"};
+
+    // 再試行は1回まで・60分後、3回続けて失敗したら自動停止
+    const policy = new StandingOrderRetryPolicy(1, 60, 3);
+
+    const create = (): StandingOrder =>
+        StandingOrder.create(
+            "so-1", new AccountId(1n), new AccountId(2n), Money.of(100), MonthlySchedule.of(25, "09:00"), now
+        );
+
+    /**
+     * 実行を開始して、失敗を記録する
+     */
+    const failAt = (standingOrder: StandingOrder, at: Date): void => {
+        standingOrder.startRun(new TransferId("transfer"), at);
+        standingOrder.recordFailure("run", failure, at, policy);
+    };
+
+    // ===== 作成 =====
+
+    it("作成すると ACTIVE になり、作成した時刻より後の最初の実行日時を待つ", () => {
+        // Arrange & Act
+        const standingOrder = create();
+
+        // Assert
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        expect(standingOrder.getOccurrenceAt()).toEqual(firstOccurrence);
+        expect(standingOrder.getNextRunAt()).toEqual(firstOccurrence);
+        expect(standingOrder.isDueAt(now)).toBe(false);
+        expect(standingOrder.isDueAt(firstOccurrence)).toBe(true);
+    });
+
+    it("送金元と送金先が同じ場合は SameAccountTransferException", () => {
+        // Act & Assert
+        expect(() => StandingOrder.create(
+            "so-1", new AccountId(1n), new AccountId(1n), Money.of(100), MonthlySchedule.of(25), now
+        )).toThrow(SameAccountTransferException);
+    });
+
+    // ===== 実行 =====
+
+    it("送金できたら実行記録を返し、次の実行日時に進める", () => {
+        // Arrange
+        const standingOrder = create();
+        const executedAt = new Date("2025-11-25T09:01:00Z");
+
+        // Act
+        standingOrder.startRun(new TransferId("transfer-1"), firstOccurrence);
+        const runningTransferId = standingOrder.getRunTransferId();
+        const runStartedAt = standingOrder.getRunStartedAt();
+        const run = standingOrder.recordSuccess("run-1", executedAt);
+
+        // Assert
+        expect(run).toEqual({
+            id: "run-1",
+            standingOrderId: "so-1",
+            occurrenceAt: firstOccurrence,
+            executedAt,
+            attempt: 1,
+            outcome: "SUCCEEDED",
+            failure: null,
+        });
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        expect(standingOrder.getNextRunAt()).toEqual(new Date("2025-12-25T09:00:00Z"));
+        // 実行中の送金IDと開始時刻は RUNNING の間だけ持つ
+        expect(runningTransferId).toEqual(new TransferId("transfer-1"));
+        expect(runStartedAt).toEqual(firstOccurrence);
+        expect(standingOrder.getRunTransferId()).toBeNull();
+        expect(standingOrder.getRunStartedAt()).toBeNull();
+    });
+
+    it("失敗したら再試行の時刻を待ち、再試行も失敗したら次の実行日時に進める", () => {
+        // Arrange
+        const standingOrder = create();
+        const failedAt = new Date("2025-11-25T09:01:00Z");
+
+        // Act & Assert: 1回目の失敗 → 60分後に再試行
+        failAt(standingOrder, failedAt);
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        expect(standingOrder.getOccurrenceAt()).toEqual(firstOccurrence);
+        expect(standingOrder.getNextRunAt()).toEqual(new Date("2025-11-25T10:01:00Z"));
+        expect(standingOrder.getRetryCount()).toBe(1);
+
+        // 再試行の失敗 → 再試行の回数を使い切ったので、次の実行日時へ
+        standingOrder.startRun(new TransferId("transfer-2"), new Date("2025-11-25T10:00:00Z"));
+        const run = standingOrder.recordFailure("run-2", failure, new Date("2025-11-25T10:01:00Z"), policy);
+        expect(run).toMatchObject({attempt: 2, outcome: "FAILED", failure});
+        expect(standingOrder.getNextRunAt()).toEqual(new Date("2025-12-25T09:00:00Z"));
+        expect(standingOrder.getRetryCount()).toBe(0);
+        expect(standingOrder.getConsecutiveFailures()).toBe(2);
+    });
+
+    it("続けて失敗した回数が上限に達したら、自動で停止する（TOO_MANY_FAILURES）", () => {
+        // Arrange
+        const standingOrder = create();
+
+        // Act
+        failAt(standingOrder, new Date("2025-11-25T09:01:00Z"));
+        failAt(standingOrder, new Date("2025-11-25T10:01:00Z"));
+        failAt(standingOrder, new Date("2025-12-25T09:01:00Z"));
+
+        // Assert
+        expect(standingOrder.getStatus()).toBe("PAUSED");
+        expect(standingOrder.getPauseReason()).toBe("TOO_MANY_FAILURES");
+        expect(standingOrder.getConsecutiveFailures()).toBe(3);
+        expect(standingOrder.isDueAt(new Date("2026-01-01T00:00:00Z"))).toBe(false);
+    });
+
+    it("成功すると、続けて失敗した回数は0に戻る", () => {
+        // Arrange
+        const standingOrder = create();
+        failAt(standingOrder, new Date("2025-11-25T09:01:00Z"));
+
+        // Act
+        standingOrder.startRun(new TransferId("transfer"), new Date("2025-11-25T10:00:00Z"));
+        standingOrder.recordSuccess("run", new Date("2025-11-25T10:01:00Z"));
+
+        // Assert
+        expect(standingOrder.getConsecutiveFailures()).toBe(0);
+        expect(standingOrder.getRetryCount()).toBe(0);
+    });
+
+    // ===== 停止・再開・取り消し =====
+
+    it("再開すると、停止中に過ぎた実行日時は見送り、再開した時刻より後の実行日時から実行する", () => {
+        // Arrange
+        const standingOrder = create();
+        standingOrder.pause();
+        expect(standingOrder.getPauseReason()).toBe("MANUAL");
+
+        // Act
+        standingOrder.resume(new Date("2026-01-10T00:00:00Z"));
+
+        // Assert
+        expect(standingOrder.getStatus()).toBe("ACTIVE");
+        expect(standingOrder.getPauseReason()).toBeNull();
+        expect(standingOrder.getNextRunAt()).toEqual(new Date("2026-01-25T09:00:00Z"));
+    });
+
+    it("実行中は停止・取り消しできない", () => {
+        // Arrange
+        const standingOrder = create();
+        standingOrder.startRun(new TransferId("transfer"), firstOccurrence);
+
+        // Act & Assert
+        expect(() => { standingOrder.pause(); }).toThrow(InvalidStandingOrderStatusTransitionException);
+        expect(() => { standingOrder.cancel(); }).toThrow(InvalidStandingOrderStatusTransitionException);
+    });
+
+    it("停止中の定期送金は取り消せるが、取り消した定期送金は再開できない", () => {
+        // Arrange
+        const standingOrder = create();
+        standingOrder.pause();
+
+        // Act
+        standingOrder.cancel();
+
+        // Assert
+        expect(standingOrder.getStatus()).toBe("CANCELLED");
+        expect(() => { standingOrder.resume(now); }).toThrow(InvalidStandingOrderStatusTransitionException);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {CronSchedule} from "../../src/application/domain/model/CronSchedule";
+import {MonthlySchedule} from "../../src/application/domain/model/MonthlySchedule";
+import {InvalidStandingOrderScheduleException} from "../../src/application/domain/exception/InvalidStandingOrderScheduleException";
+
+
+describe("CronSchedule", () => {
+    const next = (expression: string, after: string): string =>
+        CronSchedule.parse(expression).nextAfter(new Date(after)).toISOString();
+
+    it("指定した時刻より後の、最初に一致する日時を返す（UTC）", () => {
+        expect(next("0 9 * * *", "2025-11-24T08:59:00Z")).toBe("2025-11-24T09:00:00.000Z");
+        // ちょうど一致する時刻は含まない
+        expect(next("0 9 * * *", "2025-11-24T09:00:00Z")).toBe("2025-11-25T09:00:00.000Z");
+        expect(next("*/15 * * * *", "2025-11-24T09:07:30Z")).toBe("2025-11-24T09:15:00.000Z");
+    });
+
+    it("範囲・リスト・曜日（7 は日曜日）を解釈する", () => {
+        // 2025-11-24 は月曜日
+        expect(next("30 0 1,15 * *", "2025-11-24T00:00:00Z")).toBe("2025-12-01T00:30:00.000Z");
+        expect(next("0 9 * * 1-5", "2025-11-28T10:00:00Z")).toBe("2025-12-01T09:00:00.000Z");
+        expect(next("0 0 * * 7", "2025-11-24T00:00:00Z")).toBe("2025-11-30T00:00:00.000Z");
+    });
+
+    it("日と曜日の両方を指定した場合は、どちらかに一致する日に実行する", () => {
+        // 毎月13日、または金曜日（2025-11-28）
+        expect(next("0 0 13 * 5", "2025-11-24T00:00:00Z")).toBe("2025-11-28T00:00:00.000Z");
+        expect(next("0 0 13 * 5", "2025-12-06T00:00:00Z")).toBe("2025-12-12T00:00:00.000Z");
+    });
+
+    it("うるう年の2月29日だけに一致する式は、次のうるう年まで探す", () => {
+        expect(next("0 0 29 2 *", "2025-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+    });
+
+    it("構文が不正な式、一致する日時がない式は InvalidStandingOrderScheduleException", () => {
+        for (const expression of ["0 9 * *", "60 * * * *", "0 9 * * MON", "*/0 * * * *", "5-1 * * * *", "0 0 30 2 *"]) {
+            expect(() => CronSchedule.parse(expression), expression).toThrow(InvalidStandingOrderScheduleException);
+        }
+    });
+});
+
+describe("MonthlySchedule", () => {
+    it("今月の実行日時が過ぎていれば、来月の実行日時を返す", () => {
+        // Arrange
+        const schedule = MonthlySchedule.of(25, "09:00");
+
+        // Act & Assert
+        expect(schedule.nextAfter(new Date("2025-11-24T00:00:00Z")).toISOString()).toBe("2025-11-25T09:00:00.000Z");
+        expect(schedule.nextAfter(new Date("2025-11-25T09:00:00Z")).toISOString()).toBe("2025-12-25T09:00:00.000Z");
+        expect(schedule.nextAfter(new Date("2025-12-26T00:00:00Z")).toISOString()).toBe("2026-01-25T09:00:00.000Z");
+    });
+
+    it("その日がない月は月末に実行する", () => {
+        // Arrange
+        const schedule = MonthlySchedule.of(31);
+
+        // Act & Assert
+        expect(schedule.nextAfter(new Date("2026-01-31T00:00:00Z")).toISOString()).toBe("2026-02-28T00:00:00.000Z");
+        expect(schedule.nextAfter(new Date("2026-02-28T00:00:00Z")).toISOString()).toBe("2026-03-31T00:00:00.000Z");
+    });
+
+    it("日が1〜31の範囲外、時刻が HH:MM でない場合は InvalidStandingOrderScheduleException", () => {
+        expect(() => MonthlySchedule.of(0)).toThrow(InvalidStandingOrderScheduleException);
+        expect(() => MonthlySchedule.of(32)).toThrow(InvalidStandingOrderScheduleException);
+        expect(() => MonthlySchedule.of(1, "24:00")).toThrow(InvalidStandingOrderScheduleException);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {Transfer, TransferId} from "../../src/application/domain/model/Transfer";
+import {AccountId} from "../../src/application/domain/model/Activity";
+import {Money} from "../../src/application/domain/model/Money";
+import {TransferAlreadyReversedException} from "../../src/application/domain/exception/TransferAlreadyReversedException";
+
+
+describe("Transfer", () => {
+    const now = new Date("2025-11-30T09:00:00Z");
+
+    const complete = (): Transfer =>
+        Transfer.complete(
+            new TransferId("transfer-1"),
+            new AccountId(1n),
+            new AccountId(2n),
+            Money.of(500),
+            Money.of(110),
+            Money.of(500),
+            null,
+            now
+        );
+
+    it("送金すると COMPLETED になり、引き落とした合計は送金額 + 手数料", () => {
+        // Arrange & Act
+        const transfer = complete();
+
+        // Assert
+        expect(transfer.getStatus()).toBe("COMPLETED");
+        expect(transfer.isReversed()).toBe(false);
+        expect(transfer.totalDebit.equals(Money.of(610))).toBe(true);
+        expect(transfer.createdAt).toEqual(now);
+    });
+
+    it("取り消すと REVERSED になる", () => {
+        // Arrange
+        const transfer = complete();
+
+        // Act
+        transfer.markReversed();
+
+        // Assert
+        expect(transfer.getStatus()).toBe("REVERSED");
+        expect(transfer.isReversed()).toBe(true);
+    });
+
+    it("取り消し済みの送金をもう一度取り消すと TransferAlreadyReversedException", () => {
+        // Arrange
+        const transfer = complete();
+        transfer.markReversed();
+
+        // Act & Assert
+        expect(() => transfer.markReversed()).toThrow(TransferAlreadyReversedException);
+    });
+
+    it("送金IDは値で比較する", () => {
+        expect(new TransferId("transfer-1").equals(new TransferId("transfer-1"))).toBe(true);
+        expect(new TransferId("transfer-1").equals(new TransferId("transfer-2"))).toBe(false);
+    });
+});
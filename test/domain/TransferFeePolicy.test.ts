@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {TransferFeePolicy} from "../../src/application/domain/model/TransferFeePolicy";
+import {Money} from "../../src/application/domain/model/Money";
+import {Currency} from "../../src/application/domain/model/Currency";
+import {CurrencyMismatchException} from "../../src/application/domain/exception/CurrencyMismatchException";
+
+
+describe("TransferFeePolicy", () => {
+    // ===== 計算方法 =====
+
+    it("手数料なしの場合は 0", () => {
+        // Act
+        const fee = TransferFeePolicy.none().calculate(Money.of(10000));
+
+        // Assert
+        expect(fee.equals(Money.zero(Currency.JPY))).toBe(true);
+        expect(TransferFeePolicy.none().isFree()).toBe(true);
+    });
+
+    it("定額の場合は送金額にかかわらず同じ金額", () => {
+        // Arrange
+        const policy = TransferFeePolicy.flat(Money.of(110));
+
+        // Act & Assert
+        expect(policy.calculate(Money.of(1)).equals(Money.of(110))).toBe(true);
+        expect(policy.calculate(Money.of(1000000)).equals(Money.of(110))).toBe(true);
+        expect(policy.isFree()).toBe(false);
+    });
+
+    it("定率の場合は送金額 × ベーシスポイントを四捨五入する", () => {
+        // Arrange（0.15%）
+        const policy = TransferFeePolicy.basisPoints(15);
+
+        // Act & Assert
+        // 12,345 × 0.0015 = 18.5175 → 19
+        expect(policy.calculate(Money.of(12345)).equals(Money.of(19))).toBe(true);
+    });
+
+    it("段階制の場合は、送金額が上限以下になる最初の段の計算方法を使う", () => {
+        // Arrange
+        const policy = TransferFeePolicy.tiered([
+            {upTo: Money.of(30000), policy: TransferFeePolicy.flat(Money.of(110))},
+            {upTo: Money.of(100000), policy: TransferFeePolicy.flat(Money.of(330))},
+            {upTo: null, policy: TransferFeePolicy.basisPoints(50)},
+        ]);
+
+        // Act & Assert
+        expect(policy.calculate(Money.of(30000)).equals(Money.of(110))).toBe(true);
+        expect(policy.calculate(Money.of(30001)).equals(Money.of(330))).toBe(true);
+        expect(policy.calculate(Money.of(200000)).equals(Money.of(1000))).toBe(true);
+    });
+
+    // ===== 下限・上限 =====
+
+    it("下限・上限を付けると、計算した手数料をその範囲に収める", () => {
+        // Arrange
+        const policy = TransferFeePolicy.basisPoints(10).withCaps({
+            minimum: Money.of(330),
+            maximum: Money.of(1100),
+        });
+
+        // Act & Assert
+        expect(policy.calculate(Money.of(50000)).equals(Money.of(330))).toBe(true);
+        expect(policy.calculate(Money.of(500000)).equals(Money.of(500))).toBe(true);
+        expect(policy.calculate(Money.of(5000000)).equals(Money.of(1100))).toBe(true);
+    });
+
+    it("手数料なしに下限を付けた場合は、手数料がかかる料金体系になる", () => {
+        // Arrange
+        const policy = TransferFeePolicy.none().withCaps({minimum: Money.of(100)});
+
+        // Act & Assert
+        expect(policy.isFree()).toBe(false);
+        expect(policy.calculate(Money.of(1)).equals(Money.of(100))).toBe(true);
+    });
+
+    // ===== 不正な設定 =====
+
+    it.each([-1, 1.5])("ベーシスポイントが0以上の整数でない場合（%s）はエラーになる", (basisPoints) => {
+        // Act & Assert
+        expect(() => TransferFeePolicy.basisPoints(basisPoints)).toThrow("Fee basis points must be a non-negative integer");
+    });
+
+    it("定額が負の場合はエラーになる", () => {
+        // Act & Assert
+        expect(() => TransferFeePolicy.flat(Money.of(-1))).toThrow("Flat fee must not be negative");
+    });
+
+    it("下限が上限より大きい場合はエラーになる", () => {
+        // Act & Assert
+        expect(() => TransferFeePolicy.basisPoints(10).withCaps({minimum: Money.of(200), maximum: Money.of(100)}))
+            .toThrow("Minimum fee must not be greater than maximum fee");
+    });
+
+    it("段階制の段がない、昇順でない、最後の段に上限がある場合はエラーになる", () => {
+        // Arrange
+        const flat = TransferFeePolicy.flat(Money.of(110));
+
+        // Act & Assert
+        expect(() => TransferFeePolicy.tiered([])).toThrow("Tiered fee requires at least one tier");
+        expect(() => TransferFeePolicy.tiered([
+            {upTo: Money.of(100000), policy: flat},
+            {upTo: Money.of(30000), policy: flat},
+            {upTo: null, policy: flat},
+        ])).toThrow("Fee tiers must be sorted by their upper bound in ascending order");
+        expect(() => TransferFeePolicy.tiered([
+            {upTo: Money.of(30000), policy: flat},
+        ])).toThrow("Only the last fee tier must have no upper bound");
+    });
+
+    it("料金体系の金額と送金額の通貨が異なる場合は CurrencyMismatchException", () => {
+        // Arrange
+        const policy = TransferFeePolicy.flat(Money.of(110));
+
+        // Act & Assert
+        expect(() => policy.calculate(Money.of(100, Currency.USD))).toThrow(CurrencyMismatchException);
+    });
+});
@@ -16,6 +16,9 @@ declare module "cloudflare:test" {
         SUPABASE_PUBLISHABLE_KEY: string;
         SUPABASE_SERVICE_ROLE_KEY: string;
 
+        // 管理者向けAPIのトークン（/api/admin/* のリクエストに Bearer トークンとして付ける）
+        ADMIN_API_TOKEN: string;
+
         // 必要に応じて他のテスト用バインディングを追加
         // 例: TEST_KV: KVNamespace;
     }
@@ -10,7 +10,8 @@ export default defineWorkersConfig({
                 miniflare: {
                     bindings: {
                         SUPABASE_URL: "http://127.0.0.1:54321",
-                        SUPABASE_PUBLISHABLE_KEY:'sb_publishable_ACJWlzQHlZjBrEguHvfOxg_3BJgxAaH'
+                        SUPABASE_PUBLISHABLE_KEY:'sb_publishable_ACJWlzQHlZjBrEguHvfOxg_3BJgxAaH',
+                        ADMIN_API_TOKEN: "test-admin-token",
                     },
                 },
             },
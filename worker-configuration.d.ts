@@ -4,11 +4,13 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "AccountLockDurableObject";
 	}
 	interface Env {
 		USE_SUPABASE: string;
 		SUPABASE_URL: string;
 		SUPABASE_PUBLISHABLE_KEY: string;
+		ACCOUNT_LOCK: DurableObjectNamespace<import("./src/index").AccountLockDurableObject>;
 	}
 }
 interface Env extends Cloudflare.Env {}